@@ -10,6 +10,7 @@ import { beforeEach, describe, expect, it, vi } from "vitest";
 
 import { isAIEnabled, getAutoTaggingMode } from "@/config/server-config-loader";
 import { generateTagsForRecipe } from "@/server/ai/auto-tagger";
+import { recordAIUsage, requireAIQuota } from "@/server/ai/core/usage";
 import { listAllTagNames } from "@/server/db/repositories/tags";
 
 // Mock dependencies - vi.mock is hoisted by Vitest
@@ -23,6 +24,8 @@ vi.mock("ai", () => ({
 vi.mock("@/config/server-config-loader", () => ({
   isAIEnabled: vi.fn(),
   getAutoTaggingMode: vi.fn(),
+  // Read by the executor's own AI-enabled check
+  getAIConfig: vi.fn().mockResolvedValue({ enabled: true }),
 }));
 
 vi.mock("@/server/db/repositories/tags", () => ({
@@ -40,6 +43,11 @@ vi.mock("@/server/ai/providers", () => ({
   }),
 }));
 
+vi.mock("@/server/ai/core/usage", () => ({
+  recordAIUsage: vi.fn(),
+  requireAIQuota: vi.fn().mockResolvedValue(null),
+}));
+
 vi.mock("@/server/ai/prompts/loader", () => ({
   loadPrompt: vi.fn().mockResolvedValue("Mock auto-tagging prompt template"),
   fillPrompt: vi.fn((template, _vars) => template),
@@ -115,6 +123,7 @@ describe("Auto-Tagger", () => {
       vi.mocked(generateText).mockResolvedValue({
         output: { tags: ["Italian", "Pasta", "Quick"] },
         usage: { inputTokens: 100, outputTokens: 20, totalTokens: 120 },
+        response: { modelId: "gpt-4o-mini" },
       } as ReturnType<typeof generateText> extends Promise<infer R> ? R : never);
 
       const result = await generateTagsForRecipe(mockRecipe);
@@ -133,6 +142,7 @@ describe("Auto-Tagger", () => {
       vi.mocked(generateText).mockResolvedValue({
         output: { tags: ["Italian", "Dinner"] },
         usage: { inputTokens: 150, outputTokens: 15, totalTokens: 165 },
+        response: { modelId: "gpt-4o-mini" },
       } as ReturnType<typeof generateText> extends Promise<infer R> ? R : never);
 
       const result = await generateTagsForRecipe(mockRecipe);
@@ -150,6 +160,7 @@ describe("Auto-Tagger", () => {
       vi.mocked(generateText).mockResolvedValue({
         output: { tags: ["  PASTA  ", "Italian", "pasta", "Quick ", ""] },
         usage: { inputTokens: 100, outputTokens: 30, totalTokens: 130 },
+        response: { modelId: "gpt-4o-mini" },
       } as ReturnType<typeof generateText> extends Promise<infer R> ? R : never);
 
       const result = await generateTagsForRecipe(mockRecipe);
@@ -167,6 +178,7 @@ describe("Auto-Tagger", () => {
       vi.mocked(generateText).mockResolvedValue({
         output: null,
         usage: { inputTokens: 100, outputTokens: 0, totalTokens: 100 },
+        response: { modelId: "gpt-4o-mini" },
       } as ReturnType<typeof generateText> extends Promise<infer R> ? R : never);
 
       const result = await generateTagsForRecipe(mockRecipe);
@@ -184,6 +196,7 @@ describe("Auto-Tagger", () => {
       vi.mocked(generateText).mockResolvedValue({
         output: { notTags: ["something"] },
         usage: { inputTokens: 100, outputTokens: 10, totalTokens: 110 },
+        response: { modelId: "gpt-4o-mini" },
       } as ReturnType<typeof generateText> extends Promise<infer R> ? R : never);
 
       const result = await generateTagsForRecipe(mockRecipe);
@@ -195,6 +208,44 @@ describe("Auto-Tagger", () => {
       }
     });
 
+    it("records token usage for the user", async () => {
+      vi.mocked(isAIEnabled).mockResolvedValue(true);
+      vi.mocked(getAutoTaggingMode).mockResolvedValue("predefined");
+      vi.mocked(generateText).mockResolvedValue({
+        output: { tags: ["Italian"] },
+        usage: { inputTokens: 100, outputTokens: 20, totalTokens: 120 },
+        response: { modelId: "gpt-4o-mini" },
+      } as ReturnType<typeof generateText> extends Promise<infer R> ? R : never);
+
+      await generateTagsForRecipe(mockRecipe, "user-1");
+
+      expect(recordAIUsage).toHaveBeenCalledWith({
+        feature: "auto_tagging",
+        userId: "user-1",
+        provider: "openai",
+        model: "gpt-4o-mini",
+        usage: { inputTokens: 100, outputTokens: 20, totalTokens: 120 },
+      });
+    });
+
+    it("skips the AI call once the monthly quota is used up", async () => {
+      vi.mocked(isAIEnabled).mockResolvedValue(true);
+      vi.mocked(getAutoTaggingMode).mockResolvedValue("predefined");
+      vi.mocked(requireAIQuota).mockResolvedValueOnce({
+        success: false,
+        error: "Monthly AI quota reached",
+        code: "QUOTA_EXCEEDED",
+      });
+
+      const result = await generateTagsForRecipe(mockRecipe, "user-1");
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.code).toBe("QUOTA_EXCEEDED");
+      }
+      expect(generateText).not.toHaveBeenCalled();
+    });
+
     it("handles AI errors gracefully", async () => {
       vi.mocked(isAIEnabled).mockResolvedValue(true);
       vi.mocked(getAutoTaggingMode).mockResolvedValue("predefined");
@@ -0,0 +1,144 @@
+/**
+ * AI Executor Tests
+ *
+ * Tests for the quota check and usage recording shared by all AI features.
+ *
+ * @vitest-environment node
+ */
+import { generateText } from "ai";
+import { z } from "zod";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { execute, executeRequest } from "@/server/ai/core/executor";
+import { aiSuccess } from "@/server/ai/core/types";
+import { recordAIUsage, requireAIQuota } from "@/server/ai/core/usage";
+
+vi.mock("ai", () => ({
+  generateText: vi.fn(),
+  Output: {
+    object: vi.fn(({ schema }) => schema),
+  },
+}));
+
+vi.mock("@/config/server-config-loader", () => ({
+  getAIConfig: vi.fn().mockResolvedValue({ enabled: true }),
+}));
+
+vi.mock("@/server/ai/providers", () => ({
+  getModels: vi.fn().mockResolvedValue({
+    model: {},
+    visionModel: {},
+    providerName: "openai",
+  }),
+  getGenerationSettings: vi.fn().mockResolvedValue({
+    temperature: 0.7,
+    maxOutputTokens: 4096,
+  }),
+}));
+
+vi.mock("@/server/ai/core/usage", () => ({
+  recordAIUsage: vi.fn(),
+  requireAIQuota: vi.fn().mockResolvedValue(null),
+}));
+
+vi.mock("@/server/logger", () => ({
+  aiLogger: {
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+const schema = z.object({ tags: z.array(z.string()) });
+
+const quotaExceeded = {
+  success: false as const,
+  error: "Monthly AI quota reached",
+  code: "QUOTA_EXCEEDED" as const,
+};
+
+describe("AI executor", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(generateText).mockResolvedValue({
+      output: { tags: ["pasta"] },
+      usage: { inputTokens: 100, outputTokens: 20, totalTokens: 120 },
+      response: { modelId: "gpt-4o-mini" },
+    } as ReturnType<typeof generateText> extends Promise<infer R> ? R : never);
+  });
+
+  describe("execute", () => {
+    it("records token usage for the feature and user", async () => {
+      const result = await execute({
+        schema,
+        prompt: "Tag this",
+        systemMessage: "You tag recipes.",
+        feature: "auto_tagging",
+        userId: "user-1",
+      });
+
+      expect(result).toMatchObject({ success: true, data: { tags: ["pasta"] } });
+      expect(requireAIQuota).toHaveBeenCalledWith("user-1");
+      expect(recordAIUsage).toHaveBeenCalledWith({
+        feature: "auto_tagging",
+        userId: "user-1",
+        provider: "openai",
+        model: "gpt-4o-mini",
+        usage: { inputTokens: 100, outputTokens: 20, totalTokens: 120 },
+      });
+    });
+
+    it("skips the AI call once the monthly quota is used up", async () => {
+      vi.mocked(requireAIQuota).mockResolvedValueOnce(quotaExceeded);
+
+      const result = await execute({
+        schema,
+        prompt: "Tag this",
+        systemMessage: "You tag recipes.",
+        feature: "auto_tagging",
+        userId: "user-1",
+      });
+
+      expect(result).toMatchObject({ success: false, code: "QUOTA_EXCEEDED" });
+      expect(generateText).not.toHaveBeenCalled();
+      expect(recordAIUsage).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("executeRequest", () => {
+    const options = {
+      feature: "transcription" as const,
+      userId: "user-1",
+      provider: "groq",
+      model: "whisper-1",
+    };
+
+    it("records the request after a successful call", async () => {
+      const result = await executeRequest(options, async () => aiSuccess("transcript"));
+
+      expect(result).toMatchObject({ success: true, data: "transcript" });
+      expect(recordAIUsage).toHaveBeenCalledWith({ ...options, usage: undefined });
+    });
+
+    it("does not call the provider once the monthly quota is used up", async () => {
+      vi.mocked(requireAIQuota).mockResolvedValueOnce(quotaExceeded);
+      const request = vi.fn();
+
+      const result = await executeRequest(options, request);
+
+      expect(result).toMatchObject({ code: "QUOTA_EXCEEDED" });
+      expect(request).not.toHaveBeenCalled();
+    });
+
+    it("does not record failed calls", async () => {
+      await executeRequest(options, async () => ({
+        success: false,
+        error: "boom",
+        code: "PROVIDER_ERROR",
+      }));
+
+      expect(recordAIUsage).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -214,7 +214,17 @@ describe("getExtractionLogContext", () => {
       recipeIngredient: undefined,
       recipeInstructions: undefined,
       keywords: null,
-      nutrition: { calories: 0, fat: 0, carbs: 0, protein: 0 },
+      nutrition: {
+        calories: 0,
+        fat: 0,
+        carbs: 0,
+        protein: 0,
+        fiber: 0,
+        sugar: 0,
+        saturatedFat: 0,
+        sodium: 0,
+        cholesterol: 0,
+      },
     } as unknown as RecipeExtractionOutput;
 
     const context = getExtractionLogContext(output, null);
@@ -257,6 +267,11 @@ function createValidOutput(): RecipeExtractionOutput {
       fat: 12,
       carbs: 45,
       protein: 6,
+      fiber: 2,
+      sugar: 30,
+      saturatedFat: 7,
+      sodium: 180,
+      cholesterol: 55,
     },
   };
 }
@@ -288,7 +303,17 @@ describe("normalizeExtractionOutput - HTML Entity Decoding", () => {
       prepTime: null,
       totalTime: null,
       keywords: [],
-      nutrition: { calories: 0, fat: 0, carbs: 0, protein: 0 },
+      nutrition: {
+        calories: 0,
+        fat: 0,
+        carbs: 0,
+        protein: 0,
+        fiber: 0,
+        sugar: 0,
+        saturatedFat: 0,
+        sodium: 0,
+        cholesterol: 0,
+      },
     };
 
     // Mock normalizeRecipeFromJson to return metric version
@@ -359,7 +384,17 @@ describe("normalizeExtractionOutput - HTML Entity Decoding", () => {
       prepTime: null,
       totalTime: null,
       keywords: [],
-      nutrition: { calories: 0, fat: 0, carbs: 0, protein: 0 },
+      nutrition: {
+        calories: 0,
+        fat: 0,
+        carbs: 0,
+        protein: 0,
+        fiber: 0,
+        sugar: 0,
+        saturatedFat: 0,
+        sodium: 0,
+        cholesterol: 0,
+      },
     };
 
     const { normalizeRecipeFromJson } = await import("@/server/parser/normalize");
@@ -418,7 +453,17 @@ describe("normalizeExtractionOutput - HTML Entity Decoding", () => {
       prepTime: null,
       totalTime: null,
       keywords: [],
-      nutrition: { calories: 0, fat: 0, carbs: 0, protein: 0 },
+      nutrition: {
+        calories: 0,
+        fat: 0,
+        carbs: 0,
+        protein: 0,
+        fiber: 0,
+        sugar: 0,
+        saturatedFat: 0,
+        sodium: 0,
+        cholesterol: 0,
+      },
     };
 
     const { normalizeRecipeFromJson } = await import("@/server/parser/normalize");
@@ -480,7 +525,17 @@ describe("normalizeExtractionOutput - HTML Entity Decoding", () => {
       prepTime: null,
       totalTime: null,
       keywords: [],
-      nutrition: { calories: 0, fat: 0, carbs: 0, protein: 0 },
+      nutrition: {
+        calories: 0,
+        fat: 0,
+        carbs: 0,
+        protein: 0,
+        fiber: 0,
+        sugar: 0,
+        saturatedFat: 0,
+        sodium: 0,
+        cholesterol: 0,
+      },
     };
 
     const { normalizeRecipeFromJson } = await import("@/server/parser/normalize");
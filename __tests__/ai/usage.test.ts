@@ -0,0 +1,199 @@
+/**
+ * AI Usage Tests
+ *
+ * Tests for token usage recording and monthly quota checks.
+ *
+ * @vitest-environment node
+ */
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { getAIQuotas } from "@/config/server-config-loader";
+import { getQuotaPeriodStart, recordAIUsage, requireAIQuota } from "@/server/ai/core/usage";
+import { insertAIUsage, sumAITokensSince } from "@/server/db/repositories/ai-usage";
+import { getHouseholdForUser } from "@/server/db/repositories/households";
+import { DEFAULT_AI_QUOTAS, type AIQuotas } from "@/server/db/zodSchemas/server-config";
+
+vi.mock("@/config/server-config-loader", () => ({
+  getAIQuotas: vi.fn(),
+}));
+
+vi.mock("@/server/db/repositories/ai-usage", () => ({
+  insertAIUsage: vi.fn(),
+  sumAITokensSince: vi.fn(),
+}));
+
+vi.mock("@/server/db/repositories/households", () => ({
+  getHouseholdForUser: vi.fn(),
+}));
+
+vi.mock("@/server/logger", () => ({
+  aiLogger: {
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+function mockQuotas(quotas: Partial<AIQuotas>) {
+  vi.mocked(getAIQuotas).mockResolvedValue({ ...DEFAULT_AI_QUOTAS, ...quotas });
+}
+
+function mockHousehold(id: string, memberIds: string[]) {
+  vi.mocked(getHouseholdForUser).mockResolvedValue({
+    id,
+    users: memberIds.map((memberId) => ({ id: memberId, name: null, isAdmin: false })),
+  } as any);
+}
+
+describe("AI usage", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2025-03-17T10:00:00Z"));
+    mockQuotas({});
+    vi.mocked(getHouseholdForUser).mockResolvedValue(null);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe("getQuotaPeriodStart", () => {
+    it("returns the first of the month in UTC", () => {
+      expect(getQuotaPeriodStart()).toEqual(new Date("2025-03-01T00:00:00Z"));
+    });
+  });
+
+  describe("recordAIUsage", () => {
+    it("stores the tokens for the user", async () => {
+      await recordAIUsage({
+        feature: "auto_tagging",
+        userId: "user-1",
+        provider: "OpenAI",
+        model: "gpt-4o-mini",
+        usage: { inputTokens: 100, outputTokens: 20, totalTokens: 120 },
+      });
+
+      expect(insertAIUsage).toHaveBeenCalledWith({
+        userId: "user-1",
+        feature: "auto_tagging",
+        provider: "OpenAI",
+        model: "gpt-4o-mini",
+        inputTokens: 100,
+        outputTokens: 20,
+        totalTokens: 120,
+      });
+    });
+
+    it("stores zero tokens when the provider reports none", async () => {
+      await recordAIUsage({ feature: "transcription", provider: "groq", model: "whisper-1" });
+
+      expect(insertAIUsage).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: null, inputTokens: 0, outputTokens: 0, totalTokens: 0 })
+      );
+    });
+
+    it("does not throw when the insert fails", async () => {
+      vi.mocked(insertAIUsage).mockRejectedValueOnce(new Error("connection lost"));
+
+      await expect(
+        recordAIUsage({ feature: "auto_tagging", provider: "OpenAI", model: "gpt-4o-mini" })
+      ).resolves.toBeUndefined();
+    });
+  });
+
+  describe("requireAIQuota", () => {
+    it("allows requests when no quota is set", async () => {
+      expect(await requireAIQuota("user-1")).toBeNull();
+      expect(sumAITokensSince).not.toHaveBeenCalled();
+    });
+
+    it("allows requests without a user", async () => {
+      mockQuotas({ userMonthlyTokens: 10, householdMonthlyTokens: 0 });
+
+      expect(await requireAIQuota()).toBeNull();
+    });
+
+    it("allows requests below the user quota", async () => {
+      mockQuotas({ userMonthlyTokens: 1000, householdMonthlyTokens: 0 });
+      vi.mocked(sumAITokensSince).mockResolvedValue(999);
+
+      expect(await requireAIQuota("user-1")).toBeNull();
+      expect(sumAITokensSince).toHaveBeenCalledWith(["user-1"], new Date("2025-03-01T00:00:00Z"));
+    });
+
+    it("rejects requests once the user quota is reached", async () => {
+      mockQuotas({ userMonthlyTokens: 1000, householdMonthlyTokens: 0 });
+      vi.mocked(sumAITokensSince).mockResolvedValue(1000);
+
+      expect(await requireAIQuota("user-1")).toMatchObject({
+        success: false,
+        code: "QUOTA_EXCEEDED",
+      });
+    });
+
+    it("sums the whole household for the household quota", async () => {
+      mockQuotas({ userMonthlyTokens: 0, householdMonthlyTokens: 5000 });
+      mockHousehold("household-1", ["user-1", "user-2"]);
+      vi.mocked(sumAITokensSince).mockResolvedValue(5200);
+
+      expect(await requireAIQuota("user-1")).toMatchObject({ code: "QUOTA_EXCEEDED" });
+      expect(sumAITokensSince).toHaveBeenCalledWith(["user-1", "user-2"], expect.any(Date));
+    });
+
+    it("applies the household quota to users without a household alone", async () => {
+      mockQuotas({ householdMonthlyTokens: 5000 });
+      vi.mocked(sumAITokensSince).mockResolvedValue(100);
+
+      expect(await requireAIQuota("user-1")).toBeNull();
+      expect(sumAITokensSince).toHaveBeenCalledWith(["user-1"], expect.any(Date));
+    });
+
+    it("uses the user's override instead of the default user quota", async () => {
+      mockQuotas({ userMonthlyTokens: 1000, userOverrides: { "user-1": 5000 } });
+      vi.mocked(sumAITokensSince).mockResolvedValue(1200);
+
+      expect(await requireAIQuota("user-1")).toBeNull();
+      expect(await requireAIQuota("user-2")).toMatchObject({ code: "QUOTA_EXCEEDED" });
+    });
+
+    it("lets a user override of 0 lift the default user quota", async () => {
+      mockQuotas({ userMonthlyTokens: 1000, userOverrides: { "user-1": 0 } });
+
+      expect(await requireAIQuota("user-1")).toBeNull();
+      expect(sumAITokensSince).not.toHaveBeenCalled();
+    });
+
+    it("uses the household's override instead of the default household quota", async () => {
+      mockQuotas({ householdMonthlyTokens: 5000, householdOverrides: { "household-1": 500 } });
+      mockHousehold("household-1", ["user-1", "user-2"]);
+      vi.mocked(sumAITokensSince).mockResolvedValue(600);
+
+      expect(await requireAIQuota("user-1")).toMatchObject({ code: "QUOTA_EXCEEDED" });
+    });
+
+    it("checks household overrides when there is no default household quota", async () => {
+      mockQuotas({ householdOverrides: { "household-1": 500 } });
+      mockHousehold("household-1", ["user-1", "user-2"]);
+      vi.mocked(sumAITokensSince).mockResolvedValue(600);
+
+      expect(await requireAIQuota("user-1")).toMatchObject({ code: "QUOTA_EXCEEDED" });
+    });
+
+    it("ignores overrides of other households", async () => {
+      mockQuotas({ householdOverrides: { "household-2": 500 } });
+      mockHousehold("household-1", ["user-1", "user-2"]);
+
+      expect(await requireAIQuota("user-1")).toBeNull();
+      expect(sumAITokensSince).not.toHaveBeenCalled();
+    });
+
+    it("allows requests when usage cannot be read", async () => {
+      mockQuotas({ userMonthlyTokens: 1000, householdMonthlyTokens: 0 });
+      vi.mocked(sumAITokensSince).mockRejectedValue(new Error("connection lost"));
+
+      expect(await requireAIQuota("user-1")).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,316 @@
+import type { FullRecipeDTO } from "@/types";
+
+import { gunzipSync } from "zlib";
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import JSZip from "jszip";
+
+import { buildMelaRecipe, addRecipeToMelaArchive } from "@/server/exporters/mela-exporter";
+import { buildPaprikaRecipe, addRecipeToPaprikaArchive } from "@/server/exporters/paprika-exporter";
+import { MealieArchiveWriter } from "@/server/exporters/mealie-exporter";
+import {
+  formatIngredientLine,
+  formatIngredientsText,
+  formatStepsText,
+  toUniqueFileName,
+} from "@/server/exporters/export-helpers";
+import {
+  buildMealieLookups,
+  parseMealieDatabase,
+  parseMealieRecipeToDTO,
+} from "@/server/importers/mealie-parser";
+import { PaprikaRecipeSchema } from "@/server/importers/paprika-parser";
+import { parseHumanDurationToMinutes } from "@/server/importers/parser-helpers";
+import { readRecipeMedia } from "@/server/downloader";
+
+// @vitest-environment node
+
+// Mock the server config loader to avoid database calls
+vi.mock("@/config/server-config-loader", () => ({
+  getUnits: vi.fn().mockResolvedValue({
+    volume: {},
+    mass: {},
+    length: {},
+    temperature: {},
+  }),
+  getContentIndicators: vi.fn().mockResolvedValue([]),
+  getRecurrenceConfig: vi.fn().mockResolvedValue({}),
+}));
+
+// Mock the downloader to avoid file system access
+vi.mock("@/server/downloader", () => ({
+  readRecipeMedia: vi.fn(),
+  resolveRecipeMediaPath: vi.fn().mockReturnValue(null),
+  saveImageBytes: vi.fn().mockResolvedValue("/recipes/mocked/image.jpg"),
+}));
+
+const RECIPE_ID = "11111111-2222-3333-4444-555555555555";
+
+function createRecipe(overrides: Partial<FullRecipeDTO> = {}): FullRecipeDTO {
+  const now = new Date("2026-03-01T12:00:00.000Z");
+
+  return {
+    id: RECIPE_ID,
+    userId: null,
+    name: "Pancakes",
+    description: "Fluffy pancakes",
+    notes: null,
+    url: "https://www.example.com/pancakes",
+    image: `/recipes/${RECIPE_ID}/cover.jpg`,
+    servings: 4,
+    prepMinutes: 10,
+    cookMinutes: 80,
+    totalMinutes: 90,
+    systemUsed: "metric",
+    calories: 350,
+    fat: "12",
+    carbs: "40",
+    protein: "8",
+    createdAt: now,
+    updatedAt: now,
+    recipeIngredients: [
+      {
+        id: "i2",
+        ingredientId: null,
+        ingredientName: "milk",
+        amount: 250,
+        unit: "ml",
+        systemUsed: "metric",
+        order: 1,
+      },
+      {
+        id: "i1",
+        ingredientId: null,
+        ingredientName: "flour",
+        amount: 200,
+        unit: "g",
+        systemUsed: "metric",
+        order: 0,
+      },
+      {
+        id: "i3",
+        ingredientId: null,
+        ingredientName: "flour",
+        amount: 1.5,
+        unit: "cup",
+        systemUsed: "us",
+        order: 0,
+      },
+    ],
+    steps: [
+      { step: "Mix everything", order: 0, systemUsed: "metric", images: [] },
+      { step: "Fry", order: 1, systemUsed: "metric", images: [] },
+      { step: "Mix everything (US)", order: 0, systemUsed: "us", images: [] },
+    ],
+    tags: [{ name: "breakfast" }],
+    author: undefined,
+    images: [{ id: "g1", image: `/recipes/${RECIPE_ID}/cover.jpg`, order: 0 }],
+    videos: [],
+    ...overrides,
+  } as unknown as FullRecipeDTO;
+}
+
+describe("Archive exporters", () => {
+  beforeEach(() => {
+    vi.mocked(readRecipeMedia).mockReset();
+    vi.mocked(readRecipeMedia).mockImplementation(async (url) => Buffer.from(`bytes:${url}`));
+  });
+
+  describe("export helpers", () => {
+    it("formats ingredient lines without empty parts", () => {
+      expect(
+        formatIngredientLine({
+          ingredientName: "eggs",
+          amount: 2,
+          unit: null,
+        } as FullRecipeDTO["recipeIngredients"][number])
+      ).toBe("2 eggs");
+      expect(
+        formatIngredientLine({
+          ingredientName: "salt",
+          amount: null,
+          unit: null,
+        } as FullRecipeDTO["recipeIngredients"][number])
+      ).toBe("salt");
+    });
+
+    it("writes section headings into text ingredient and step lists", () => {
+      const recipe = createRecipe({
+        recipeIngredients: [
+          { ingredientName: "flour", amount: 200, unit: "g", order: 0, section: "Batter" },
+          { ingredientName: "syrup", amount: null, unit: null, order: 1, section: "Topping" },
+        ].map((ri) => ({ ...ri, id: ri.ingredientName, ingredientId: null, systemUsed: "metric" })),
+        steps: [
+          { step: "Mix", order: 0, systemUsed: "metric", images: [], section: "Batter" },
+          { step: "Serve", order: 1, systemUsed: "metric", images: [], section: null },
+        ],
+      } as Partial<FullRecipeDTO>);
+
+      expect(formatIngredientsText(recipe)).toBe("# Batter\n200 g flour\n# Topping\nsyrup");
+      expect(formatStepsText(recipe)).toBe("# Batter\nMix\n#\nServe");
+    });
+
+    it("generates unique file names", () => {
+      const used = new Set<string>();
+
+      expect(toUniqueFileName("Soup/Stew", ".x", used)).toBe("SoupStew.x");
+      expect(toUniqueFileName("soup/stew", ".x", used)).toBe("soupstew (2).x");
+      expect(toUniqueFileName("  ", ".x", used)).toBe("recipe.x");
+    });
+  });
+
+  describe("Paprika", () => {
+    it("builds a recipe the Paprika importer accepts", async () => {
+      const json = await buildPaprikaRecipe(createRecipe(), { rating: 4, favorite: true });
+      const parsed = PaprikaRecipeSchema.parse(json);
+
+      expect(parsed.ingredients).toBe("200 g flour\n250 ml milk");
+      expect(parsed.directions).toBe("Mix everything\nFry");
+      expect(parsed.categories).toEqual(["breakfast"]);
+      expect(parsed.rating).toBe(4);
+      expect(parsed.source).toBe("example.com");
+      expect(parsed.servings).toBe("4");
+      expect(parseHumanDurationToMinutes(parsed.total_time)).toBe(90);
+      expect(json.on_favorites).toBe(true);
+
+      // Main image is only embedded once even though it is also in the gallery
+      expect(readRecipeMedia).toHaveBeenCalledTimes(1);
+      expect(parsed.photos).toHaveLength(1);
+      expect(json.photo_data).toBe(parsed.photos[0].data);
+    });
+
+    it("writes gzip-compressed .paprikarecipe entries", async () => {
+      const zip = new JSZip();
+      const used = new Set<string>();
+
+      addRecipeToPaprikaArchive(zip, createRecipe(), { rating: null, favorite: false }, used);
+      addRecipeToPaprikaArchive(zip, createRecipe(), { rating: null, favorite: false }, used);
+
+      const files = zip.file(/\.paprikarecipe$/);
+
+      expect(files.map((f) => f.name)).toEqual([
+        "Pancakes.paprikarecipe",
+        "Pancakes (2).paprikarecipe",
+      ]);
+
+      const json = JSON.parse(gunzipSync(await files[0].async("nodebuffer")).toString("utf-8"));
+
+      expect(json.name).toBe("Pancakes");
+      expect(json.rating).toBe(0);
+    });
+
+    it("reads images only while the archive is generated", async () => {
+      const zip = new JSZip();
+
+      addRecipeToPaprikaArchive(zip, createRecipe(), { rating: null, favorite: false }, new Set());
+
+      expect(readRecipeMedia).not.toHaveBeenCalled();
+
+      const archive = await JSZip.loadAsync(await zip.generateAsync({ type: "nodebuffer" }));
+      const bytes = await archive.file("Pancakes.paprikarecipe")!.async("nodebuffer");
+
+      expect(readRecipeMedia).toHaveBeenCalled();
+      expect(JSON.parse(gunzipSync(bytes).toString("utf-8")).photos).toHaveLength(1);
+    });
+  });
+
+  describe("Mela", () => {
+    it("builds a Mela recipe with embedded images", async () => {
+      const json = await buildMelaRecipe(createRecipe(), { rating: null, favorite: true });
+
+      expect(json.title).toBe("Pancakes");
+      expect(json.yield).toBe("4");
+      expect(json.ingredients).toBe("200 g flour\n250 ml milk");
+      expect(json.instructions).toBe("Mix everything\nFry");
+      expect(json.images).toHaveLength(1);
+      expect(json.favorite).toBe(true);
+      expect(parseHumanDurationToMinutes(json.cookTime)).toBe(80);
+    });
+
+    it("skips images that are not stored locally", async () => {
+      vi.mocked(readRecipeMedia).mockResolvedValue(undefined);
+
+      const json = await buildMelaRecipe(createRecipe(), { rating: null, favorite: false });
+
+      expect(json.images).toEqual([]);
+    });
+
+    it("writes one .melarecipe file per recipe", async () => {
+      const zip = new JSZip();
+
+      addRecipeToMelaArchive(zip, createRecipe(), { rating: null, favorite: false });
+
+      expect(readRecipeMedia).not.toHaveBeenCalled();
+
+      const json = JSON.parse(await zip.file(`${RECIPE_ID}.melarecipe`)!.async("string"));
+
+      expect(json.title).toBe("Pancakes");
+      expect(json.images).toHaveLength(1);
+    });
+  });
+
+  describe("Mealie", () => {
+    it("writes a database.json the Mealie importer reads back", async () => {
+      const zip = new JSZip();
+      const writer = new MealieArchiveWriter(zip, "user-1");
+
+      writer.addRecipe(createRecipe(), { rating: 5, favorite: true });
+      writer.addRecipe(createRecipe({ id: "66666666-7777-8888-9999-000000000000" }), {
+        rating: null,
+        favorite: false,
+      });
+      writer.finalize();
+
+      const database = await parseMealieDatabase(await zip.file("database.json")!.async("string"));
+
+      expect(database.recipes.map((r) => r.slug)).toEqual(["pancakes", "pancakes-2"]);
+      // Shared foods, units and tags are only written once
+      expect(database.ingredient_foods).toHaveLength(2);
+      expect(database.ingredient_units).toHaveLength(2);
+      expect(database.tags).toHaveLength(1);
+      expect(database.users_to_recipes).toHaveLength(1);
+
+      const lookups = buildMealieLookups(database);
+      const dto = await parseMealieRecipeToDTO(
+        database.recipes[0],
+        database.recipes_ingredients,
+        database.recipe_instructions,
+        lookups
+      );
+
+      expect(dto.name).toBe("Pancakes");
+      expect(dto.recipeIngredients).toEqual([
+        expect.objectContaining({ ingredientName: "flour", amount: 200, unit: "g" }),
+        expect.objectContaining({ ingredientName: "milk", amount: 250, unit: "ml" }),
+      ]);
+      expect(dto.steps?.map((s) => s.step)).toEqual(["Mix everything", "Fry"]);
+      expect(dto.tags).toEqual([{ name: "breakfast" }]);
+      expect(dto.servings).toBe(4);
+      expect(dto.totalMinutes).toBe(90);
+      expect(dto.calories).toBe(350);
+      expect(lookups.recipeRatings.get(RECIPE_ID)).toEqual([5]);
+    });
+
+    it("keeps ingredient and step sections as Mealie titles", async () => {
+      const zip = new JSZip();
+      const writer = new MealieArchiveWriter(zip, "user-1");
+      const recipe = createRecipe();
+
+      recipe.recipeIngredients.forEach((ri) => (ri.section = ri.order === 1 ? "Wet" : null));
+      recipe.steps.forEach((s) => (s.section = "Batter"));
+      writer.addRecipe(recipe, { rating: null, favorite: false });
+      writer.finalize();
+
+      const database = await parseMealieDatabase(await zip.file("database.json")!.async("string"));
+      const dto = await parseMealieRecipeToDTO(
+        database.recipes[0],
+        database.recipes_ingredients,
+        database.recipe_instructions,
+        buildMealieLookups(database)
+      );
+
+      expect(dto.recipeIngredients?.map((ri) => ri.section)).toEqual([null, "Wet"]);
+      expect(dto.steps?.map((s) => s.section)).toEqual(["Batter", "Batter"]);
+    });
+  });
+});
@@ -135,6 +135,7 @@ export function createMockCaldavConfig(
     lunchTime: "12:00-13:00",
     dinnerTime: "18:00-19:00",
     snackTime: "15:00-15:30",
+    timezone: "UTC",
     createdAt: new Date(),
     updatedAt: new Date(),
     ...overrides,
@@ -156,6 +157,7 @@ export function createMockSyncStatusView(
     eventTitle: "Test Recipe",
     syncStatus: "pending" as CaldavSyncStatus,
     caldavEventUid: null,
+    caldavEtag: null,
     retryCount: 0,
     errorMessage: null,
     lastSyncAt: null,
@@ -145,6 +145,7 @@ export function createMockPlannedRecipe(
     recipeName: "Test Recipe",
     date: "2025-01-15",
     slot: "Breakfast" as Slot,
+    servings: null,
     ...overrides,
   };
 }
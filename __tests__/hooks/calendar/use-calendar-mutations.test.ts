@@ -7,12 +7,14 @@ import { createTestQueryClient, createTestWrapper } from "./test-utils";
 const mockCreateRecipeMutate = vi.fn();
 const mockDeleteRecipeMutate = vi.fn();
 const mockUpdateRecipeDateMutate = vi.fn();
+const mockUpdateRecipeServingsMutate = vi.fn();
 const mockCreateNoteMutate = vi.fn();
 const mockDeleteNoteMutate = vi.fn();
 const mockUpdateNoteDateMutate = vi.fn();
 const mockSetCalendarData = vi.fn();
 const mockRemoveRecipeFromCache = vi.fn();
 const mockUpdateRecipeInCache = vi.fn();
+const mockUpdateRecipeServingsInCache = vi.fn();
 const mockRemoveNoteFromCache = vi.fn();
 const mockUpdateNoteInCache = vi.fn();
 const mockInvalidate = vi.fn();
@@ -50,6 +52,11 @@ vi.mock("@/app/providers/trpc-provider", () => ({
           mutationFn: mockUpdateRecipeDateMutate,
         }),
       },
+      updateRecipeServings: {
+        mutationOptions: () => ({
+          mutationFn: mockUpdateRecipeServingsMutate,
+        }),
+      },
       createNote: {
         mutationOptions: () => ({
           mutationFn: mockCreateNoteMutate,
@@ -76,6 +83,7 @@ vi.mock("@/hooks/calendar/use-calendar-query", () => ({
     setCalendarData: mockSetCalendarData,
     removeRecipeFromCache: mockRemoveRecipeFromCache,
     updateRecipeInCache: mockUpdateRecipeInCache,
+    updateRecipeServingsInCache: mockUpdateRecipeServingsInCache,
     removeNoteFromCache: mockRemoveNoteFromCache,
     updateNoteInCache: mockUpdateNoteInCache,
     invalidate: mockInvalidate,
@@ -228,6 +236,47 @@ describe("useCalendarMutations", () => {
     });
   });
 
+  describe("updatePlannedRecipeServings", () => {
+    it("applies optimistic update and calls mutation", async () => {
+      mockUpdateRecipeServingsMutate.mockResolvedValue({ success: true });
+
+      const { result } = renderHook(() => useCalendarMutations("2025-01-01", "2025-01-31"), {
+        wrapper: createTestWrapper(queryClient),
+      });
+
+      act(() => {
+        result.current.updatePlannedRecipeServings("pr-123", "2025-01-15", 6);
+      });
+
+      expect(mockUpdateRecipeServingsInCache).toHaveBeenCalledWith("pr-123", 6);
+      expect(mockSetCalendarData).toHaveBeenCalled();
+
+      await waitFor(() => {
+        expect(mockUpdateRecipeServingsMutate.mock.calls[0][0]).toEqual({
+          id: "pr-123",
+          date: "2025-01-15",
+          servings: 6,
+        });
+      });
+    });
+
+    it("calls invalidate on mutation error", async () => {
+      mockUpdateRecipeServingsMutate.mockRejectedValue(new Error("Failed"));
+
+      const { result } = renderHook(() => useCalendarMutations("2025-01-01", "2025-01-31"), {
+        wrapper: createTestWrapper(queryClient),
+      });
+
+      act(() => {
+        result.current.updatePlannedRecipeServings("pr-123", "2025-01-15", null);
+      });
+
+      await waitFor(() => {
+        expect(mockInvalidate).toHaveBeenCalled();
+      });
+    });
+  });
+
   describe("createNote", () => {
     it("calls mutation and updates calendar data on success", async () => {
       mockCreateNoteMutate.mockResolvedValue("new-id");
@@ -12,8 +12,10 @@ let subscriptionCallbacks: Record<string, (data: any) => void> = {};
 const mockSetCalendarData = vi.fn();
 const mockRemoveRecipeFromCache = vi.fn();
 const mockUpdateRecipeInCache = vi.fn();
+const mockUpdateRecipeServingsInCache = vi.fn();
 const mockRemoveNoteFromCache = vi.fn();
 const mockUpdateNoteInCache = vi.fn();
+const mockInvalidateNutritionSummary = vi.fn();
 const mockInvalidate = vi.fn();
 
 // Mock useSubscription to capture callbacks
@@ -106,8 +108,10 @@ vi.mock("@/hooks/calendar/use-calendar-cache", () => ({
     setCalendarData: mockSetCalendarData,
     removeRecipeFromCache: mockRemoveRecipeFromCache,
     updateRecipeInCache: mockUpdateRecipeInCache,
+    updateRecipeServingsInCache: mockUpdateRecipeServingsInCache,
     removeNoteFromCache: mockRemoveNoteFromCache,
     updateNoteInCache: mockUpdateNoteInCache,
+    invalidateNutritionSummary: mockInvalidateNutritionSummary,
     invalidate: mockInvalidate,
   }),
 }));
@@ -165,6 +169,7 @@ describe("useCalendarSubscription", () => {
         itemType: "recipe",
         allergyWarnings: ["peanut"],
       });
+      expect(mockInvalidateNutritionSummary).toHaveBeenCalled();
     });
   });
 
@@ -179,6 +184,7 @@ describe("useCalendarSubscription", () => {
       callback({ plannedRecipeId: "pr-123", date: "2025-01-15" });
 
       expect(mockSetCalendarData).toHaveBeenCalled();
+      expect(mockInvalidateNutritionSummary).toHaveBeenCalled();
     });
   });
 
@@ -199,6 +205,8 @@ describe("useCalendarSubscription", () => {
 
       expect(mockSetCalendarData).toHaveBeenCalled();
       expect(mockUpdateRecipeInCache).toHaveBeenCalledWith("pr-123", "2025-01-20");
+      expect(mockUpdateRecipeServingsInCache).toHaveBeenCalledWith("pr-123", null);
+      expect(mockInvalidateNutritionSummary).toHaveBeenCalled();
     });
 
     it("removes old date and preserves allergyWarnings when payload omits them", () => {
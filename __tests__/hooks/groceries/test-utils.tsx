@@ -41,6 +41,11 @@ export function createMockTrpcClient() {
           mutationFn: vi.fn(),
         })),
       },
+      addFromPlan: {
+        mutationOptions: vi.fn(() => ({
+          mutationFn: vi.fn(),
+        })),
+      },
       update: {
         mutationOptions: vi.fn(() => ({
           mutationFn: vi.fn(),
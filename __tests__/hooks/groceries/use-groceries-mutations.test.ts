@@ -50,6 +50,7 @@ vi.mock("@/app/providers/trpc-provider", () => ({
         }),
       },
       create: { mutationOptions: vi.fn() },
+      addFromPlan: { mutationOptions: vi.fn() },
       toggle: { mutationOptions: vi.fn() },
       update: { mutationOptions: vi.fn() },
       delete: { mutationOptions: vi.fn() },
@@ -47,6 +47,11 @@ vi.mock("@/app/providers/trpc-provider", () => ({
   }),
 }));
 
+// Mock next-intl
+vi.mock("next-intl", () => ({
+  useTranslations: () => (key: string) => key,
+}));
+
 // Mock client logger
 vi.mock("@/lib/logger", () => ({
   createClientLogger: () => ({
@@ -27,6 +27,13 @@ vi.mock("@/app/providers/trpc-provider", () => ({
           queryFn: async () => ({ allergies: [] }),
         }),
       },
+      getNutritionTargets: {
+        queryKey: () => ["user", "getNutritionTargets"],
+        queryOptions: () => ({
+          queryKey: ["user", "getNutritionTargets"],
+          queryFn: async () => ({ targets: {} }),
+        }),
+      },
       updateName: { mutationOptions: vi.fn() },
       uploadAvatar: { mutationOptions: vi.fn() },
       deleteAvatar: { mutationOptions: vi.fn() },
@@ -37,6 +44,7 @@ vi.mock("@/app/providers/trpc-provider", () => ({
         toggle: { mutationOptions: vi.fn() },
       },
       setAllergies: { mutationOptions: vi.fn() },
+      setNutritionTargets: { mutationOptions: vi.fn() },
     },
   }),
 }));
@@ -138,6 +146,7 @@ describe("useUserMutations", () => {
       expect(result.current.deleteApiKey.constructor.name).toBe("AsyncFunction");
       expect(result.current.toggleApiKey.constructor.name).toBe("AsyncFunction");
       expect(result.current.setAllergies.constructor.name).toBe("AsyncFunction");
+      expect(result.current.setNutritionTargets.constructor.name).toBe("AsyncFunction");
     });
   });
 });
@@ -12,6 +12,7 @@ import {
 // Mock the tRPC provider
 const mockQueryKey = ["user", "get"];
 const mockAllergiesQueryKey = ["user", "getAllergies"];
+const mockNutritionTargetsQueryKey = ["user", "getNutritionTargets"];
 const mockQueryOptions = vi.fn();
 const mockAllergiesQueryOptions = vi.fn();
 
@@ -26,6 +27,13 @@ vi.mock("@/app/providers/trpc-provider", () => ({
         queryKey: () => mockAllergiesQueryKey,
         queryOptions: () => mockAllergiesQueryOptions(),
       },
+      getNutritionTargets: {
+        queryKey: () => mockNutritionTargetsQueryKey,
+        queryOptions: () => ({
+          queryKey: mockNutritionTargetsQueryKey,
+          queryFn: async () => ({ targets: { calories: 2000 } }),
+        }),
+      },
     },
   }),
 }));
@@ -62,8 +70,10 @@ describe("useUserSettingsQuery", () => {
       expect(result.current.user).toBeNull();
       expect(result.current.apiKeys).toEqual([]);
       expect(result.current.allergies).toEqual([]);
+      expect(result.current.nutritionTargets).toEqual({});
       expect(result.current.queryKey).toEqual(mockQueryKey);
       expect(result.current.allergiesQueryKey).toEqual(mockAllergiesQueryKey);
+      expect(result.current.nutritionTargetsQueryKey).toEqual(mockNutritionTargetsQueryKey);
     });
 
     it("returns loading state initially", () => {
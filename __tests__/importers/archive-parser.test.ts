@@ -46,6 +46,49 @@ describe("Archive Parser", () => {
       expect(count).toBe(1);
     });
 
+    it("detects Norish format (norish.json manifest present)", async () => {
+      const zip = new JSZip();
+
+      zip.file(
+        "norish.json",
+        JSON.stringify({ format: "norish", version: 1, exportedAt: "", recipeCount: 2 })
+      );
+      zip.file("recipes/a/recipe.json", JSON.stringify({ id: "a", name: "A" }));
+      zip.file("recipes/b/recipe.json", JSON.stringify({ id: "b", name: "B" }));
+      zip.file("recipes/b/images/cover.jpg", "binary");
+
+      const { format, count } = await getArchiveInfo(zip);
+
+      expect(format).toBe(ArchiveFormat.NORISH);
+      expect(count).toBe(2);
+    });
+
+    it("prioritizes Norish over Mealie when both exist", async () => {
+      const zip = new JSZip();
+
+      zip.file(
+        "norish.json",
+        JSON.stringify({ format: "norish", version: 1, exportedAt: "", recipeCount: 1 })
+      );
+      zip.file("recipes/a/recipe.json", JSON.stringify({ id: "a", name: "A" }));
+      zip.file("database.json", JSON.stringify({ recipes: [{ id: "1" }, { id: "2" }] }));
+
+      const { format, count } = await getArchiveInfo(zip);
+
+      expect(format).toBe(ArchiveFormat.NORISH);
+      expect(count).toBe(1);
+    });
+
+    it("ignores an invalid norish.json manifest", async () => {
+      const zip = new JSZip();
+
+      zip.file("norish.json", JSON.stringify({ format: "other" }));
+
+      const { format } = await getArchiveInfo(zip);
+
+      expect(format).toBe(ArchiveFormat.UNKNOWN);
+    });
+
     it("returns UNKNOWN for empty archive", async () => {
       const zip = new JSZip();
       const { format, count } = await getArchiveInfo(zip);
@@ -36,6 +36,7 @@ function createEmptyLookups(): MealieLookups {
     recipeCategories: new Map(),
     recipeRatings: new Map(),
     recipeNutrition: new Map(),
+    instructionIngredientRefs: new Map(),
   };
 }
 
@@ -55,6 +56,7 @@ function createMinimalDatabase(overrides: Partial<MealieDatabase> = {}): MealieD
     recipes_to_categories: [],
     users_to_recipes: [],
     recipe_nutrition: [],
+    recipe_ingredient_ref_link: [],
     ...overrides,
   };
 }
@@ -418,6 +420,34 @@ describe("Mealie Parser", () => {
       expect(dto!.tags![0].name).toBe("Dinner");
     });
 
+    it("maps the extended nutrition fields", async () => {
+      lookups.recipeNutrition.set("recipe-1", {
+        recipe_id: "recipe-1",
+        calories: "410",
+        fiber_content: "6",
+        sugar_content: "9.5",
+        saturated_fat_content: "3",
+        sodium_content: "720",
+        cholesterol_content: "185",
+      });
+
+      const dto = await parseMealieRecipeToDTO(
+        mockRecipe,
+        mockIngredients,
+        mockInstructions,
+        lookups
+      );
+
+      expect(dto).toMatchObject({
+        calories: 410,
+        fiber: "6",
+        sugar: "9.5",
+        saturatedFat: "3",
+        sodium: "720",
+        cholesterol: "185",
+      });
+    });
+
     it("sorts instructions by position", async () => {
       const shuffled = [mockInstructions[1], mockInstructions[0]];
       const dto = await parseMealieRecipeToDTO(mockRecipe, mockIngredients, shuffled, lookups);
@@ -427,6 +457,47 @@ describe("Mealie Parser", () => {
       expect(dto!.steps![1].step).toBe("Add tomatoes and simmer");
     });
 
+    it("carries section titles to the following ingredients and steps", async () => {
+      mockIngredients[1].title = "Sauce";
+      mockInstructions[0].title = "Prep";
+
+      const dto = await parseMealieRecipeToDTO(
+        mockRecipe,
+        mockIngredients,
+        mockInstructions,
+        lookups
+      );
+
+      expect(dto!.recipeIngredients!.map((ri) => ri.section)).toEqual([null, "Sauce"]);
+      expect(dto!.steps!.map((s) => s.section)).toEqual(["Prep", "Prep"]);
+    });
+
+    it("links instructions to the ingredients Mealie references", async () => {
+      mockIngredients[0].reference_id = "ref-tomatoes";
+      mockIngredients[1].reference_id = "ref-oil";
+      lookups.instructionIngredientRefs.set("inst-1", ["ref-tomatoes", "ref-oil"]);
+
+      const dto = await parseMealieRecipeToDTO(
+        mockRecipe,
+        mockIngredients,
+        mockInstructions,
+        lookups
+      );
+
+      expect(dto!.steps![0].ingredientOrders).toEqual([0, 1]);
+    });
+
+    it("matches instructions without references to the ingredients they name", async () => {
+      const dto = await parseMealieRecipeToDTO(
+        mockRecipe,
+        mockIngredients,
+        mockInstructions,
+        lookups
+      );
+
+      expect(dto!.steps!.map((s) => s.ingredientOrders)).toEqual([[1], [0]]);
+    });
+
     it("parses human-readable time strings like '1 hour 45 minutes'", async () => {
       mockRecipe.prep_time = "30 minutes" as any;
       mockRecipe.cook_time = "1 hour 45 minutes" as any;
@@ -0,0 +1,346 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import JSZip from "jszip";
+
+import {
+  NorishRecipeSchema,
+  extractNorishRecipes,
+  orderNorishRecipesByLinks,
+  parseNorishRecipeToDTO,
+  readNorishManifest,
+} from "@/server/importers/norish-parser";
+import { buildNorishRecipeJson } from "@/server/exporters/norish-exporter";
+import { saveImageBytes, saveStepImageBytes, saveVideoBytes } from "@/server/downloader";
+
+// @vitest-environment node
+
+// Mock the server config loader to avoid database calls
+vi.mock("@/config/server-config-loader", () => ({
+  getUnits: vi.fn().mockResolvedValue({
+    volume: {},
+    mass: {},
+    length: {},
+    temperature: {},
+  }),
+  getContentIndicators: vi.fn().mockResolvedValue([]),
+  getRecurrenceConfig: vi.fn().mockResolvedValue({}),
+}));
+
+// Mock the downloader to avoid actual file writes
+vi.mock("@/server/downloader", () => ({
+  saveImageBytes: vi.fn(),
+  saveStepImageBytes: vi.fn(),
+  saveVideoBytes: vi.fn(),
+  resolveRecipeMediaPath: vi.fn(),
+}));
+
+function createNorishZip(recipes: Record<string, unknown>[]): JSZip {
+  const zip = new JSZip();
+
+  zip.file(
+    "norish.json",
+    JSON.stringify({
+      format: "norish",
+      version: 1,
+      exportedAt: "2026-01-01T00:00:00.000Z",
+      recipeCount: recipes.length,
+    })
+  );
+
+  for (const recipe of recipes) {
+    zip.file(`recipes/${recipe.id}/recipe.json`, JSON.stringify(recipe));
+  }
+
+  return zip;
+}
+
+describe("Norish Parser", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    let imageCount = 0;
+
+    vi.mocked(saveImageBytes).mockImplementation(
+      async (_bytes, recipeId) => `/recipes/${recipeId}/image-${++imageCount}.jpg`
+    );
+    vi.mocked(saveStepImageBytes).mockImplementation(
+      async (_bytes, recipeId) => `/recipes/${recipeId}/steps/step.jpg`
+    );
+    vi.mocked(saveVideoBytes).mockImplementation(async (_bytes, recipeId, _ext, duration) => ({
+      video: `/recipes/${recipeId}/video.mp4`,
+      duration: duration ?? null,
+    }));
+  });
+
+  describe("readNorishManifest", () => {
+    it("reads a valid manifest", async () => {
+      const zip = createNorishZip([{ id: "a", name: "A" }]);
+
+      const manifest = await readNorishManifest(zip);
+
+      expect(manifest).toMatchObject({ format: "norish", version: 1, recipeCount: 1 });
+    });
+
+    it("returns null when manifest is missing or malformed", async () => {
+      const missing = new JSZip();
+      const malformed = new JSZip();
+
+      malformed.file("norish.json", "{ not json");
+
+      expect(await readNorishManifest(missing)).toBeNull();
+      expect(await readNorishManifest(malformed)).toBeNull();
+    });
+  });
+
+  describe("extractNorishRecipes", () => {
+    it("extracts recipes with their folder and skips corrupted entries", async () => {
+      const zip = createNorishZip([{ id: "a", name: "Pancakes" }]);
+
+      zip.file("recipes/broken/recipe.json", "{ not json");
+      zip.file("recipes/nameless/recipe.json", JSON.stringify({ id: "nameless" }));
+
+      const results = await extractNorishRecipes(zip);
+
+      expect(results).toHaveLength(1);
+      expect(results[0].recipe.name).toBe("Pancakes");
+      expect(results[0].recipeDir).toBe("recipes/a");
+    });
+
+    it("applies defaults for optional fields", () => {
+      const recipe = NorishRecipeSchema.parse({ id: "a", name: "Minimal" });
+
+      expect(recipe.servings).toBe(1);
+      expect(recipe.systemUsed).toBe("metric");
+      expect(recipe.ingredients).toEqual([]);
+      expect(recipe.favorite).toBe(false);
+      expect(recipe.rating).toBeNull();
+    });
+  });
+
+  describe("parseNorishRecipeToDTO", () => {
+    it("maps all recipe fields and restores media", async () => {
+      const zip = createNorishZip([]);
+      const recipe = NorishRecipeSchema.parse({
+        id: "a",
+        name: "  Pancakes ",
+        description: "Fluffy",
+        url: "https://example.com/pancakes",
+        image: "images/cover.jpg",
+        servings: 4,
+        prepMinutes: 10,
+        cookMinutes: 20,
+        totalMinutes: 30,
+        systemUsed: "us",
+        calories: 350,
+        fat: "12",
+        carbs: "40",
+        protein: "8",
+        tags: ["breakfast", " "],
+        ingredients: [
+          { name: "flour", amount: 200, unit: "g", order: 0, systemUsed: "metric" },
+          { name: "flour", amount: 1.5, unit: "cup", order: 0, systemUsed: "us" },
+        ],
+        steps: [{ step: "Mix", order: 0, systemUsed: "us", images: [{ file: "steps/mix.jpg" }] }],
+        images: [
+          { file: "images/cover.jpg", order: 0 },
+          { file: "images/side.jpg", order: 1 },
+        ],
+        videos: [
+          {
+            file: "videos/clip.mp4",
+            thumbnail: "https://example.com/thumb.jpg",
+            duration: 42,
+            order: 0,
+          },
+        ],
+      });
+
+      zip.file("recipes/a/images/cover.jpg", "cover");
+      zip.file("recipes/a/images/side.jpg", "side");
+      zip.file("recipes/a/steps/mix.jpg", "mix");
+      zip.file("recipes/a/videos/clip.mp4", "clip");
+
+      const dto = await parseNorishRecipeToDTO(zip, recipe, "recipes/a");
+
+      expect(dto.id).not.toBe("a");
+      expect(dto.name).toBe("Pancakes");
+      expect(dto.systemUsed).toBe("us");
+      expect(dto.calories).toBe(350);
+      expect(dto.tags).toEqual([{ name: "breakfast" }]);
+      expect(dto.recipeIngredients).toHaveLength(2);
+      expect(dto.recipeIngredients?.map((i) => i.systemUsed)).toEqual(["metric", "us"]);
+
+      // Main image is reused from the gallery instead of being saved twice
+      expect(saveImageBytes).toHaveBeenCalledTimes(2);
+      expect(dto.image).toBe(`/recipes/${dto.id}/image-1.jpg`);
+      expect(dto.images?.map((i) => i.image)).toEqual([
+        `/recipes/${dto.id}/image-1.jpg`,
+        `/recipes/${dto.id}/image-2.jpg`,
+      ]);
+      expect(dto.steps?.[0].images).toEqual([
+        { image: `/recipes/${dto.id}/steps/step.jpg`, order: 0 },
+      ]);
+      expect(dto.videos).toEqual([
+        {
+          video: `/recipes/${dto.id}/video.mp4`,
+          thumbnail: "https://example.com/thumb.jpg",
+          duration: 42,
+          order: 0,
+        },
+      ]);
+    });
+
+    it("ignores media missing from the archive or pointing outside it", async () => {
+      const zip = createNorishZip([]);
+      const recipe = NorishRecipeSchema.parse({
+        id: "a",
+        name: "No Media",
+        image: "../../etc/passwd",
+        images: [{ file: "images/missing.jpg" }],
+      });
+
+      const dto = await parseNorishRecipeToDTO(zip, recipe, "recipes/a");
+
+      expect(saveImageBytes).not.toHaveBeenCalled();
+      expect(dto.image).toBeUndefined();
+      expect(dto.images).toEqual([]);
+    });
+  });
+
+  describe("buildNorishRecipeJson", () => {
+    it("produces JSON the parser accepts", () => {
+      const now = new Date("2026-01-01T00:00:00.000Z");
+      const media = {
+        add: vi.fn((url: string | null | undefined, folder: string) =>
+          url ? `${folder}/${url.split("/").pop()}` : null
+        ),
+      };
+
+      const json = buildNorishRecipeJson(
+        {
+          id: "11111111-1111-1111-1111-111111111111",
+          userId: null,
+          name: "Soup",
+          description: null,
+          notes: null,
+          url: null,
+          image: "/recipes/11111111-1111-1111-1111-111111111111/cover.jpg",
+          servings: 2,
+          prepMinutes: null,
+          cookMinutes: null,
+          totalMinutes: null,
+          systemUsed: "metric",
+          calories: null,
+          fat: null,
+          carbs: null,
+          protein: null,
+          createdAt: now,
+          updatedAt: now,
+          recipeIngredients: [],
+          steps: [],
+          tags: [{ name: "dinner" }],
+          author: undefined,
+          images: [],
+          videos: [],
+        } as any,
+        { rating: 4, favorite: true },
+        media
+      );
+
+      const parsed = NorishRecipeSchema.parse(JSON.parse(JSON.stringify(json)));
+
+      expect(parsed.image).toBe("images/cover.jpg");
+      expect(parsed.tags).toEqual(["dinner"]);
+      expect(parsed.rating).toBe(4);
+      expect(parsed.favorite).toBe(true);
+      expect(parsed.createdAt).toBe(now.toISOString());
+    });
+  });
+
+  describe("sub-recipe links", () => {
+    const media = { add: vi.fn(() => null) };
+
+    function exportRecipe(id: string, name: string, linkedRecipeId: string | null = null) {
+      return JSON.parse(
+        JSON.stringify(
+          buildNorishRecipeJson(
+            {
+              id,
+              name,
+              servings: 1,
+              systemUsed: "metric",
+              recipeIngredients: [
+                {
+                  ingredientName: name === "Sauce" ? "Tomato" : "Sauce",
+                  amount: 1,
+                  unit: null,
+                  order: 0,
+                  systemUsed: "metric",
+                  section: null,
+                  linkedRecipeId,
+                },
+              ],
+              steps: [],
+              tags: [],
+              images: [],
+              videos: [],
+              createdAt: new Date("2026-01-01T00:00:00.000Z"),
+              updatedAt: new Date("2026-01-01T00:00:00.000Z"),
+            } as any,
+            { rating: null, favorite: false },
+            media
+          )
+        )
+      );
+    }
+
+    it("remaps links to the imported recipe when exported and imported", async () => {
+      const sauceId = "11111111-1111-1111-1111-111111111111";
+      const pastaId = "22222222-2222-2222-2222-222222222222";
+      const zip = createNorishZip([
+        exportRecipe(pastaId, "Pasta", sauceId),
+        exportRecipe(sauceId, "Sauce"),
+      ]);
+
+      const ordered = orderNorishRecipesByLinks(await extractNorishRecipes(zip));
+      const importedIds = new Map<string, string>();
+      const dtos = [];
+
+      for (const { recipe, recipeDir } of ordered) {
+        const dto = await parseNorishRecipeToDTO(zip, recipe, recipeDir, importedIds);
+
+        importedIds.set(recipe.id, dto.id!);
+        dtos.push(dto);
+      }
+
+      expect(dtos.map((d) => d.name)).toEqual(["Sauce", "Pasta"]);
+      expect(dtos[1].recipeIngredients?.[0]?.linkedRecipeId).toBe(dtos[0].id);
+      expect(dtos[1].recipeIngredients?.[0]?.linkedRecipeId).not.toBe(sauceId);
+    });
+
+    it("drops links to recipes that are not in the archive", async () => {
+      const zip = createNorishZip([
+        exportRecipe(
+          "22222222-2222-2222-2222-222222222222",
+          "Pasta",
+          "33333333-3333-3333-3333-333333333333"
+        ),
+      ]);
+
+      const [{ recipe, recipeDir }] = await extractNorishRecipes(zip);
+      const dto = await parseNorishRecipeToDTO(zip, recipe, recipeDir, new Map());
+
+      expect(recipe.ingredients[0].linkedRecipeId).toBe("33333333-3333-3333-3333-333333333333");
+      expect(dto.recipeIngredients?.[0]?.linkedRecipeId).toBeNull();
+    });
+
+    it("keeps recipes from older archives without link fields", async () => {
+      const recipe = NorishRecipeSchema.parse({
+        id: "a",
+        name: "A",
+        ingredients: [{ name: "Salt" }],
+      });
+
+      expect(recipe.ingredients[0].linkedRecipeId).toBeNull();
+    });
+  });
+});
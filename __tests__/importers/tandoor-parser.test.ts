@@ -194,6 +194,12 @@ describe("Tandoor Parser", () => {
       expect(dto.steps![1].step).toContain("rode peper");
     });
 
+    it("links steps to the ingredients listed on them", async () => {
+      const dto = await parseTandoorRecipeToDTO(mockRecipe);
+
+      expect(dto.steps!.map((s) => s.ingredientOrders)).toEqual([[0, 1], []]);
+    });
+
     it("extracts tags from keywords", async () => {
       const dto = await parseTandoorRecipeToDTO(mockRecipe);
 
@@ -298,6 +304,32 @@ describe("Tandoor Parser", () => {
 
       expect(dto.recipeIngredients).toHaveLength(1);
       expect(dto.recipeIngredients![0].ingredientName).toBe("flour");
+      expect(dto.recipeIngredients![0].section).toBe("Dry Ingredients");
+    });
+
+    it("uses step names as sections", async () => {
+      mockRecipe.steps = [
+        {
+          name: "Dough",
+          instruction: "Knead the dough",
+          ingredients: [
+            { food: { name: "flour", supermarket_category: null }, unit: null, amount: 200 },
+          ],
+          order: 0,
+        },
+        {
+          instruction: "Serve",
+          ingredients: [
+            { food: { name: "salt", supermarket_category: null }, unit: null, amount: null },
+          ],
+          order: 1,
+        },
+      ];
+
+      const dto = await parseTandoorRecipeToDTO(mockRecipe);
+
+      expect(dto.steps!.map((s) => s.section)).toEqual(["Dough", null]);
+      expect(dto.recipeIngredients!.map((ri) => ri.section)).toEqual(["Dough", null]);
     });
 
     it("filters out empty steps", async () => {
@@ -0,0 +1,84 @@
+import { describe, it, expect } from "vitest";
+
+import { parseCsv, parseFoodCompositionCsv } from "@/lib/food-composition";
+
+describe("parseCsv", () => {
+  it("splits quoted fields and escaped quotes", () => {
+    expect(parseCsv('name,note\n"Butter, salted","say ""hi"""\n')).toEqual([
+      ["name", "note"],
+      ["Butter, salted", 'say "hi"'],
+    ]);
+  });
+
+  it("detects semicolons and tabs and strips a byte order mark", () => {
+    expect(parseCsv("\uFEFFa;b\r\n1;2")).toEqual([
+      ["a", "b"],
+      ["1", "2"],
+    ]);
+    expect(parseCsv("a\tb\n1\t2")).toEqual([
+      ["a", "b"],
+      ["1", "2"],
+    ]);
+  });
+});
+
+describe("parseFoodCompositionCsv", () => {
+  it("reads the plain layout with alternates", () => {
+    const foods = parseFoodCompositionCsv(
+      "code,name,alternates,calories,fat,carbs,protein,fiber,sugar,saturatedFat,sodium,cholesterol\n" +
+        "1,Butter,beurre|boter,717,81.1,0.1,0.9,0,0.1,51.4,643,215\n"
+    );
+
+    expect(foods).toEqual([
+      {
+        code: "1",
+        name: "Butter",
+        alternates: ["beurre", "boter"],
+        calories: 717,
+        fat: 81.1,
+        carbs: 0.1,
+        protein: 0.9,
+        fiber: 0,
+        sugar: 0.1,
+        saturatedFat: 51.4,
+        sodium: 643,
+        cholesterol: 215,
+      },
+    ]);
+  });
+
+  it("reads USDA headers and leaves missing nutrients empty", () => {
+    const [food] = parseFoodCompositionCsv(
+      'NDB_No,Shrt_Desc,Energ_Kcal,Protein_(g)\n01001,"BUTTER,WITH SALT",717,0.85\n'
+    );
+
+    expect(food).toMatchObject({
+      code: "01001",
+      name: "BUTTER,WITH SALT",
+      calories: 717,
+      protein: 0.85,
+      fat: null,
+      carbs: null,
+    });
+  });
+
+  it("reads NEVO headers with decimal commas", () => {
+    const [food] = parseFoodCompositionCsv(
+      "Voedingsmiddelcode|Voedingsmiddelnaam/Dutch food name|Engelse naam/Food name|ENERCC (kcal)|FAT (g)\n" +
+        "1|Boter|Butter|735|81,4\n"
+    );
+
+    expect(food).toMatchObject({ name: "Boter", alternates: ["Butter"], calories: 735, fat: 81.4 });
+  });
+
+  it("keeps the last row of a duplicate code", () => {
+    const foods = parseFoodCompositionCsv("code,name,calories\n1,Old,10\n1,New,20\n");
+
+    expect(foods).toHaveLength(1);
+    expect(foods[0]).toMatchObject({ name: "New", calories: 20 });
+  });
+
+  it("throws without a name column", () => {
+    expect(() => parseFoodCompositionCsv("code,calories\n1,10\n")).toThrow(/name column/);
+  });
+});
@@ -1,6 +1,11 @@
 import { describe, it, expect } from "vitest";
 
-import { formatAmountAsDecimal, formatAmountAsFraction, formatAmount } from "@/lib/format-amount";
+import {
+  formatAmountAsDecimal,
+  formatAmountAsFraction,
+  formatAmount,
+  roundToKitchenFraction,
+} from "@/lib/format-amount";
 
 describe("formatAmountAsDecimal", () => {
   it("returns empty string for null", () => {
@@ -159,3 +164,24 @@ describe("formatAmount", () => {
     expect(formatAmount(null, "fraction")).toBe("");
   });
 });
+
+describe("roundToKitchenFraction", () => {
+  it("rounds to the nearest measurable fraction", () => {
+    expect(roundToKitchenFraction(0.3)).toBe(0.333);
+    expect(roundToKitchenFraction(0.7)).toBe(0.667);
+    expect(roundToKitchenFraction(1.27)).toBe(1.25);
+  });
+
+  it("only uses the given denominators", () => {
+    expect(roundToKitchenFraction(0.3, [2, 4])).toBe(0.25);
+  });
+
+  it("rounds large amounts to halves and whole numbers", () => {
+    expect(roundToKitchenFraction(6.3)).toBe(6.5);
+    expect(roundToKitchenFraction(22.4)).toBe(22);
+  });
+
+  it("keeps small amounts above zero", () => {
+    expect(roundToKitchenFraction(0.01, [2, 4])).toBe(0.25);
+  });
+});
@@ -0,0 +1,88 @@
+import type { GroceryDto } from "@/types";
+import type { IngredientDensities, UnitsMap } from "@/server/db/zodSchemas/server-config";
+
+import { describe, it, expect } from "vitest";
+
+import { groupGroceriesByIngredient } from "@/lib/grocery-grouping";
+
+const units: UnitsMap = {
+  stuk: { short: "stuk", plural: "stuks", alternates: [] },
+};
+
+const densities: IngredientDensities = {
+  flour: { alternates: [], gramsPerMl: 0.53 },
+  egg: { alternates: [], gramsPerPiece: 50 },
+};
+
+let nextId = 0;
+
+function grocery(name: string, amount: number | null, unit: string | null): GroceryDto {
+  nextId += 1;
+
+  return {
+    id: `g${nextId}`,
+    name,
+    amount,
+    unit,
+    isDone: false,
+    sortOrder: nextId,
+    recipeIngredientId: null,
+    recurringGroceryId: null,
+    storeId: null,
+  } as GroceryDto;
+}
+
+function groupOf(groceries: GroceryDto[]) {
+  const groups = groupGroceriesByIngredient(groceries, () => null, units, densities).get(null);
+
+  expect(groups).toHaveLength(1);
+
+  return groups![0];
+}
+
+describe("groupGroceriesByIngredient", () => {
+  it("sums identical units as they are", () => {
+    const group = groupOf([grocery("Milk", 200, "ml"), grocery("milk", 300, "ml")]);
+
+    expect(group.canAggregate).toBe(true);
+    expect(group.totalAmount).toBe(500);
+    expect(group.sources).toHaveLength(2);
+  });
+
+  it("converts compatible units to a readable unit", () => {
+    const group = groupOf([grocery("Potatoes", 1, "kg"), grocery("Potatoes", 500, "g")]);
+
+    expect(group).toMatchObject({ canAggregate: true, totalAmount: 1.5, displayUnit: "kg" });
+  });
+
+  it("keeps US units when every source uses them", () => {
+    const group = groupOf([grocery("Stock", 1, "cup"), grocery("Stock", 8, "tbsp")]);
+
+    expect(group).toMatchObject({ canAggregate: true, totalAmount: 1.5, displayUnit: "cups" });
+  });
+
+  it("weighs volumes of ingredients with a known density", () => {
+    const group = groupOf([grocery("Flour", 1, "cup"), grocery("Flour", 100, "g")]);
+
+    expect(group).toMatchObject({ canAggregate: true, totalAmount: 225, displayUnit: "g" });
+  });
+
+  it("weighs pieces of ingredients with a known piece weight", () => {
+    const group = groupOf([grocery("Egg", 2, null), grocery("Egg", 50, "g")]);
+
+    expect(group).toMatchObject({ canAggregate: true, totalAmount: 150, displayUnit: "g" });
+  });
+
+  it("lists the sources of truly incompatible units", () => {
+    const group = groupOf([grocery("Onion", 1, "stuk"), grocery("Onion", 100, "g")]);
+
+    expect(group).toMatchObject({ canAggregate: false, totalAmount: null, displayUnit: null });
+    expect(group.sources).toHaveLength(2);
+  });
+
+  it("does not add pieces to weights without a piece weight", () => {
+    const group = groupOf([grocery("Carrot", 2, null), grocery("Carrot", 100, "g")]);
+
+    expect(group.canAggregate).toBe(false);
+  });
+});
@@ -0,0 +1,57 @@
+import type { MealSlotDto } from "@/types";
+
+import { describe, it, expect } from "vitest";
+
+import {
+  DEFAULT_MEAL_SLOTS,
+  createSlotKey,
+  getCustomSlotTimes,
+  getSlotOrder,
+  isDefaultSlotKey,
+} from "@/lib/meal-slots";
+
+function mealSlot(overrides: Partial<MealSlotDto> = {}): MealSlotDto {
+  return {
+    key: "Meal prep",
+    name: "Meal prep",
+    icon: "clock",
+    sortOrder: 0,
+    timeRange: "10:00-11:00",
+    ...overrides,
+  };
+}
+
+describe("isDefaultSlotKey", () => {
+  it("recognizes the built-in slots", () => {
+    expect(isDefaultSlotKey("Dinner")).toBe(true);
+    expect(isDefaultSlotKey("dinner")).toBe(false);
+    expect(isDefaultSlotKey("Dessert")).toBe(false);
+  });
+});
+
+describe("createSlotKey", () => {
+  it("uses the trimmed name", () => {
+    expect(createSlotKey("  Kids' lunchbox ", ["Breakfast"])).toBe("Kids' lunchbox");
+  });
+
+  it("adds a number when the key is taken, ignoring case", () => {
+    expect(createSlotKey("lunch", ["Lunch"])).toBe("lunch 2");
+    expect(createSlotKey("Dessert", ["Dessert", "dessert 2"])).toBe("Dessert 3");
+  });
+});
+
+describe("getSlotOrder", () => {
+  it("sorts unknown slots last", () => {
+    expect(getSlotOrder(DEFAULT_MEAL_SLOTS, "Breakfast")).toBe(0);
+    expect(getSlotOrder(DEFAULT_MEAL_SLOTS, "Snack")).toBe(3);
+    expect(getSlotOrder(DEFAULT_MEAL_SLOTS, "Deleted")).toBe(4);
+  });
+});
+
+describe("getCustomSlotTimes", () => {
+  it("only includes slots with a time range", () => {
+    const slots = [...DEFAULT_MEAL_SLOTS, mealSlot()];
+
+    expect(getCustomSlotTimes(slots)).toEqual({ "Meal prep": "10:00-11:00" });
+  });
+});
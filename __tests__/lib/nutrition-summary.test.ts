@@ -0,0 +1,121 @@
+import type { FoodNutrients } from "@/lib/food-composition";
+import type { PlannedNutritionItem } from "@/lib/nutrition-summary";
+
+import { describe, it, expect } from "vitest";
+
+import { summarizePlannedNutrition, targetProgress, weekStartOf } from "@/lib/nutrition-summary";
+
+function nutrients(overrides: Partial<FoodNutrients> = {}): FoodNutrients {
+  return {
+    calories: null,
+    fat: null,
+    carbs: null,
+    protein: null,
+    fiber: null,
+    sugar: null,
+    saturatedFat: null,
+    sodium: null,
+    cholesterol: null,
+    ...overrides,
+  };
+}
+
+function item(
+  date: string,
+  servings: number | null,
+  overrides: Partial<FoodNutrients>
+): PlannedNutritionItem {
+  return { date, servings, nutrients: nutrients(overrides) };
+}
+
+describe("weekStartOf", () => {
+  it("returns the Monday of the week", () => {
+    expect(weekStartOf("2025-03-05")).toBe("2025-03-03");
+    expect(weekStartOf("2025-03-03")).toBe("2025-03-03");
+  });
+
+  it("puts Sunday in the week that started the Monday before", () => {
+    expect(weekStartOf("2025-03-09")).toBe("2025-03-03");
+  });
+
+  it("crosses month and year boundaries", () => {
+    expect(weekStartOf("2025-01-01")).toBe("2024-12-30");
+  });
+});
+
+describe("summarizePlannedNutrition", () => {
+  it("returns nothing for an empty plan", () => {
+    expect(summarizePlannedNutrition([])).toEqual({ days: [], weeks: [] });
+  });
+
+  it("counts a meal without servings as one serving", () => {
+    const { days } = summarizePlannedNutrition([
+      item("2025-03-03", null, { calories: 500 }),
+      item("2025-03-03", 2, { calories: 300 }),
+    ]);
+
+    expect(days[0]).toMatchObject({ recipeCount: 2, missingCount: 0 });
+    expect(days[0].perPerson.calories).toBe(800);
+    expect(days[0].total.calories).toBe(1100);
+  });
+
+  it("adds one serving per meal per person and all planned servings to the total", () => {
+    const { days } = summarizePlannedNutrition([
+      item("2025-03-03", 4, { calories: 500, protein: 20, sodium: 300 }),
+      item("2025-03-03", 2, { calories: 300, protein: 10.25 }),
+    ]);
+
+    expect(days).toHaveLength(1);
+    expect(days[0]).toMatchObject({ date: "2025-03-03", recipeCount: 2, missingCount: 0 });
+    expect(days[0].perPerson).toMatchObject({ calories: 800, protein: 30.3, sodium: 300, fat: 0 });
+    expect(days[0].total).toMatchObject({ calories: 2600, protein: 100.5, sodium: 1200 });
+  });
+
+  it("counts recipes without nutrition as missing", () => {
+    const { days } = summarizePlannedNutrition([
+      item("2025-03-03", 2, { calories: 400 }),
+      item("2025-03-03", 2, {}),
+    ]);
+
+    expect(days[0]).toMatchObject({ recipeCount: 1, missingCount: 1 });
+    expect(days[0].perPerson.calories).toBe(400);
+  });
+
+  it("sorts days and groups them into weeks starting on Monday", () => {
+    const { days, weeks } = summarizePlannedNutrition([
+      item("2025-03-10", 1, { calories: 900 }),
+      item("2025-03-04", 1, { calories: 600 }),
+      item("2025-03-09", 1, { calories: 1000 }),
+      item("2025-03-09", 1, {}),
+    ]);
+
+    expect(days.map((d) => d.date)).toEqual(["2025-03-04", "2025-03-09", "2025-03-10"]);
+    expect(weeks.map((w) => w.weekStart)).toEqual(["2025-03-03", "2025-03-10"]);
+    expect(weeks[0]).toMatchObject({ dayCount: 2, recipeCount: 2, missingCount: 1 });
+    expect(weeks[0].perPerson.calories).toBe(1600);
+    expect(weeks[0].dailyAverage.calories).toBe(800);
+    expect(weeks[1].dailyAverage.calories).toBe(900);
+  });
+
+  it("leaves days with only missing recipes out of the daily average", () => {
+    const { weeks } = summarizePlannedNutrition([
+      item("2025-03-03", 1, { calories: 1500 }),
+      item("2025-03-04", 1, {}),
+    ]);
+
+    expect(weeks[0].dayCount).toBe(1);
+    expect(weeks[0].dailyAverage.calories).toBe(1500);
+  });
+});
+
+describe("targetProgress", () => {
+  it("returns the share of the target reached", () => {
+    expect(targetProgress(1500, 2000)).toBe(0.75);
+    expect(targetProgress(2500, 2000)).toBe(1.25);
+  });
+
+  it("returns null without a target", () => {
+    expect(targetProgress(1500, undefined)).toBeNull();
+    expect(targetProgress(1500, 0)).toBeNull();
+  });
+});
@@ -0,0 +1,132 @@
+import type { IngredientDensities } from "@/server/db/zodSchemas/server-config";
+import type { MatchedFood } from "@/lib/nutrition";
+
+import { describe, it, expect } from "vitest";
+
+import { calculateNutrition, foodSearchTerms, ingredientGrams, matchFood } from "@/lib/nutrition";
+
+function food(id: string, name: string, calories: number, alternates: string[] = []): MatchedFood {
+  return {
+    id,
+    name,
+    alternates,
+    nutrients: {
+      calories,
+      fat: null,
+      carbs: null,
+      protein: calories / 10,
+      fiber: null,
+      sugar: null,
+      saturatedFat: null,
+      sodium: calories * 2,
+      cholesterol: null,
+    },
+  };
+}
+
+const butter = food("butter", "Butter, salted", 717, ["beurre"]);
+const peanutButter = food("peanut-butter", "Peanut butter, smooth", 588);
+const flour = food("flour", "Wheat flour", 364);
+const egg = food("egg", "Egg, whole, raw", 143);
+const foods = [peanutButter, butter, flour, egg];
+
+const densities: IngredientDensities = {
+  flour: { alternates: [], gramsPerMl: 0.53 },
+  egg: { alternates: [], gramsPerPiece: 50 },
+};
+
+describe("matchFood", () => {
+  it("prefers foods whose main name is the ingredient", () => {
+    expect(matchFood("Butter", foods)).toBe(butter);
+    expect(matchFood("peanut butter", foods)).toBe(peanutButter);
+  });
+
+  it("matches plurals, alternates and descriptions in brackets", () => {
+    expect(matchFood("eggs (large)", foods)).toBe(egg);
+    expect(matchFood("Beurre", foods)).toBe(butter);
+  });
+
+  it("falls back to the last word of the ingredient", () => {
+    expect(matchFood("unsalted butter", foods)).toBe(butter);
+  });
+
+  it("returns null when nothing matches", () => {
+    expect(matchFood("saffron", foods)).toBeNull();
+  });
+});
+
+describe("foodSearchTerms", () => {
+  it("lists the distinct words worth searching for", () => {
+    expect(foodSearchTerms("Red onions, chopped")).toEqual(["red", "onion"]);
+  });
+});
+
+describe("ingredientGrams", () => {
+  it("weighs masses, volumes and pieces", () => {
+    expect(ingredientGrams({ ingredientName: "Butter", amount: 0.5, unit: "kg" })).toBe(500);
+    expect(
+      ingredientGrams({ ingredientName: "Flour", amount: 100, unit: "ml" }, {}, densities)
+    ).toBeCloseTo(53);
+    expect(ingredientGrams({ ingredientName: "Eggs", amount: 2, unit: null }, {}, densities)).toBe(
+      100
+    );
+  });
+
+  it("uses the density of water for unknown liquids", () => {
+    expect(ingredientGrams({ ingredientName: "Milk", amount: 250, unit: "ml" })).toBe(250);
+  });
+
+  it("returns null for pieces without a piece weight", () => {
+    expect(ingredientGrams({ ingredientName: "Leek", amount: 1, unit: null })).toBeNull();
+  });
+});
+
+describe("calculateNutrition", () => {
+  it("sums matched lines per serving and reports the rest", () => {
+    const lines = [
+      { ingredientName: "Butter", amount: 100, unit: "g" },
+      { ingredientName: "Eggs", amount: 2, unit: null },
+      { ingredientName: "Saffron", amount: 1, unit: "g" },
+      { ingredientName: "Salt", amount: null, unit: null },
+    ];
+    const matches = new Map([
+      ["Butter", butter],
+      ["Eggs", egg],
+      ["Saffron", null],
+    ]);
+
+    const result = calculateNutrition(lines, 2, matches, { densities });
+
+    expect(result.perServing).toEqual({
+      calories: 430,
+      fat: null,
+      carbs: null,
+      protein: 43,
+      fiber: null,
+      sugar: null,
+      saturatedFat: null,
+      sodium: 860,
+      cholesterol: null,
+    });
+    expect(result.lines.map((l) => l.status)).toEqual([
+      "matched",
+      "matched",
+      "unmatched",
+      "noAmount",
+    ]);
+    expect(result.lines[1]).toMatchObject({ grams: 100, food: { id: "egg" } });
+    expect(result.matchedRatio).toBeCloseTo(2 / 3);
+    expect(result.confidence).toBe("medium");
+  });
+
+  it("has high confidence when every line is matched", () => {
+    const result = calculateNutrition(
+      [{ ingredientName: "Flour", amount: 200, unit: "g" }],
+      4,
+      new Map([["Flour", flour]])
+    );
+
+    expect(result.perServing.calories).toBe(182);
+    expect(result.confidence).toBe("high");
+  });
+});
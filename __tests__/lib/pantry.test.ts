@@ -0,0 +1,116 @@
+import type { PantryItemDto } from "@/types";
+
+import { describe, it, expect } from "vitest";
+
+import { planPantryAdditions, subtractPantryStock } from "@/lib/pantry";
+
+function pantryItem(overrides: Partial<PantryItemDto> = {}): PantryItemDto {
+  return {
+    id: "p1",
+    name: "Flour",
+    unit: "g",
+    amount: 500,
+    expiresAt: null,
+    ...overrides,
+  };
+}
+
+describe("subtractPantryStock", () => {
+  it("drops items fully covered by the pantry", () => {
+    const { remaining, covered } = subtractPantryStock(
+      [{ name: "flour", unit: "g", amount: 200 }],
+      [pantryItem()]
+    );
+
+    expect(remaining).toEqual([]);
+    expect(covered).toHaveLength(1);
+  });
+
+  it("reduces partially covered items to the missing amount", () => {
+    const { remaining, covered } = subtractPantryStock(
+      [{ name: "Flour", unit: "g", amount: 750 }],
+      [pantryItem()]
+    );
+
+    expect(covered).toEqual([]);
+    expect(remaining).toEqual([{ name: "Flour", unit: "g", amount: 250 }]);
+  });
+
+  it("consumes stock across the batch", () => {
+    const { remaining, covered } = subtractPantryStock(
+      [
+        { name: "Flour", unit: "g", amount: 300 },
+        { name: "Flour", unit: "g", amount: 300 },
+      ],
+      [pantryItem()]
+    );
+
+    expect(covered).toHaveLength(1);
+    expect(remaining).toEqual([{ name: "Flour", unit: "g", amount: 100 }]);
+  });
+
+  it("treats pantry items without an amount as unlimited", () => {
+    const { remaining } = subtractPantryStock(
+      [
+        { name: "Salt", unit: null, amount: 5 },
+        { name: "Salt", unit: null, amount: null },
+      ],
+      [pantryItem({ name: "salt", unit: null, amount: null })]
+    );
+
+    expect(remaining).toEqual([]);
+  });
+
+  it("never combines different units", () => {
+    const { remaining } = subtractPantryStock(
+      [{ name: "Flour", unit: "kg", amount: 1 }],
+      [pantryItem()]
+    );
+
+    expect(remaining).toEqual([{ name: "Flour", unit: "kg", amount: 1 }]);
+  });
+
+  it("keeps items the pantry does not hold", () => {
+    const { remaining } = subtractPantryStock(
+      [{ name: "Sugar", unit: "g", amount: 100 }],
+      [pantryItem()]
+    );
+
+    expect(remaining).toHaveLength(1);
+  });
+});
+
+describe("planPantryAdditions", () => {
+  it("increases the amount of matching pantry items", () => {
+    const plan = planPantryAdditions([{ name: "flour", unit: "g", amount: 250 }], [pantryItem()]);
+
+    expect(plan).toEqual({ updates: [{ id: "p1", amount: 750 }], creates: [] });
+  });
+
+  it("creates entries for new items and merges duplicates", () => {
+    const plan = planPantryAdditions(
+      [
+        { name: " Eggs ", unit: null, amount: 6 },
+        { name: "eggs", unit: null, amount: 6 },
+      ],
+      []
+    );
+
+    expect(plan).toEqual({ updates: [], creates: [{ name: "Eggs", unit: null, amount: 12 }] });
+  });
+
+  it("leaves untracked pantry amounts alone", () => {
+    const plan = planPantryAdditions(
+      [{ name: "Salt", unit: null, amount: 1 }],
+      [pantryItem({ name: "Salt", unit: null, amount: null })]
+    );
+
+    expect(plan).toEqual({ updates: [], creates: [] });
+  });
+
+  it("skips items without a name", () => {
+    const plan = planPantryAdditions([{ name: null, unit: "g", amount: 100 }], []);
+
+    expect(plan).toEqual({ updates: [], creates: [] });
+  });
+});
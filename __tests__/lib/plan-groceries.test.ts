@@ -0,0 +1,103 @@
+import type { PlanIngredient } from "@/lib/plan-groceries";
+
+import { describe, it, expect } from "vitest";
+
+import { aggregatePlanIngredients, scalePlanAmount } from "@/lib/plan-groceries";
+
+function ingredient(overrides: Partial<PlanIngredient> = {}): PlanIngredient {
+  return {
+    plannedRecipeId: "plan-1",
+    recipeId: "recipe-1",
+    recipeName: "Pancakes",
+    recipeIngredientId: "ri-1",
+    name: "Flour",
+    amount: 200,
+    unit: "g",
+    servings: 4,
+    recipeServings: 4,
+    ...overrides,
+  };
+}
+
+describe("scalePlanAmount", () => {
+  it("keeps the amount when servings match", () => {
+    expect(scalePlanAmount(200, 4, 4)).toBe(200);
+  });
+
+  it("scales to the planned servings", () => {
+    expect(scalePlanAmount(200, 2, 4)).toBe(100);
+    expect(scalePlanAmount(1, 3, 2)).toBe(1.5);
+  });
+
+  it("leaves missing amounts alone", () => {
+    expect(scalePlanAmount(null, 2, 4)).toBeNull();
+  });
+});
+
+describe("aggregatePlanIngredients", () => {
+  it("merges identical ingredients across recipes", () => {
+    const items = aggregatePlanIngredients([
+      ingredient(),
+      ingredient({
+        plannedRecipeId: "plan-2",
+        recipeId: "recipe-2",
+        recipeName: "Bread",
+        recipeIngredientId: "ri-2",
+        name: "flour (sifted)",
+        amount: 500,
+      }),
+    ]);
+
+    expect(items).toHaveLength(1);
+    expect(items[0]).toMatchObject({
+      name: "Flour",
+      amount: 700,
+      unit: "g",
+      recipeIngredientId: null,
+      recipeNames: ["Pancakes", "Bread"],
+    });
+  });
+
+  it("keeps the recipe ingredient link when the same recipe is planned twice", () => {
+    const items = aggregatePlanIngredients([
+      ingredient(),
+      ingredient({ plannedRecipeId: "plan-2" }),
+    ]);
+
+    expect(items).toEqual([
+      expect.objectContaining({
+        amount: 400,
+        recipeIngredientId: "ri-1",
+        recipeNames: ["Pancakes"],
+      }),
+    ]);
+  });
+
+  it("scales each plan before merging", () => {
+    const items = aggregatePlanIngredients([
+      ingredient({ servings: 2 }),
+      ingredient({ plannedRecipeId: "plan-2", servings: 8 }),
+    ]);
+
+    expect(items[0].amount).toBe(500);
+  });
+
+  it("does not merge different units", () => {
+    const items = aggregatePlanIngredients([
+      ingredient(),
+      ingredient({ recipeIngredientId: "ri-2", unit: "cup", amount: 1 }),
+    ]);
+
+    expect(items).toHaveLength(2);
+  });
+
+  it("skips headings and sub-recipe links", () => {
+    const items = aggregatePlanIngredients([
+      ingredient({ name: "# Dough" }),
+      ingredient({ recipeIngredientId: "ri-2", name: "Pizza sauce (id: abc)" }),
+      ingredient({ recipeIngredientId: "ri-3", name: "Eggs", unit: null, amount: 2 }),
+    ]);
+
+    expect(items.map((i) => i.name)).toEqual(["Eggs"]);
+  });
+});
@@ -0,0 +1,119 @@
+import type { RecipeSnapshotDto } from "@/types";
+
+import { describe, it, expect } from "vitest";
+
+import { createMockFullRecipe } from "../trpc/recipes/test-utils";
+
+import {
+  diffLines,
+  diffRecipeSnapshots,
+  getChangedFields,
+  snapshotToUpdate,
+  toRecipeSnapshot,
+} from "@/lib/recipe-revisions";
+
+function snapshot(overrides: Partial<RecipeSnapshotDto> = {}): RecipeSnapshotDto {
+  return { ...toRecipeSnapshot(createMockFullRecipe()), ...overrides };
+}
+
+describe("toRecipeSnapshot", () => {
+  it("leaves out ids, media and author", () => {
+    const result = toRecipeSnapshot(createMockFullRecipe()) as Record<string, unknown>;
+
+    expect(result.name).toBe("Test Recipe");
+    expect(result).not.toHaveProperty("id");
+    expect(result).not.toHaveProperty("images");
+    expect(result).not.toHaveProperty("author");
+  });
+});
+
+describe("diffLines", () => {
+  it("finds added and removed lines", () => {
+    expect(diffLines(["a", "b"], ["b", "c"])).toEqual({ added: ["c"], removed: ["a"] });
+  });
+
+  it("counts duplicate lines", () => {
+    expect(diffLines(["a", "a"], ["a"])).toEqual({ added: [], removed: ["a"] });
+  });
+});
+
+describe("diffRecipeSnapshots", () => {
+  it("reports changed fields with old and new values", () => {
+    const diff = diffRecipeSnapshots(snapshot(), snapshot({ servings: 6 }));
+
+    expect(diff.fields).toEqual([{ field: "servings", before: 4, after: 6 }]);
+    expect(diff.ingredients).toEqual({ added: [], removed: [] });
+  });
+
+  it("shows a changed ingredient as removed and added", () => {
+    const before = snapshot();
+    const after = snapshot({
+      recipeIngredients: [{ ...before.recipeIngredients[0], amount: 250 }],
+    });
+
+    expect(diffRecipeSnapshots(before, after).ingredients).toEqual({
+      added: ["250 g Flour"],
+      removed: ["200 g Flour"],
+    });
+  });
+
+  it("shows an ingredient moved to another section as a change", () => {
+    const before = snapshot();
+    const after = snapshot({
+      recipeIngredients: [{ ...before.recipeIngredients[0], section: "Dough" }],
+    });
+
+    expect(diffRecipeSnapshots(before, after).ingredients).toEqual({
+      added: ["Dough: 200 g Flour"],
+      removed: ["200 g Flour"],
+    });
+  });
+
+  it("treats everything as added for the first revision", () => {
+    const diff = diffRecipeSnapshots(null, snapshot());
+
+    expect(diff.steps.added).toEqual(["Mix all ingredients"]);
+    expect(diff.tags.added).toEqual(["dinner"]);
+  });
+
+  it("labels lines by system when a recipe has both", () => {
+    const before = snapshot();
+    const after = snapshot({
+      recipeIngredients: [
+        ...before.recipeIngredients,
+        { ...before.recipeIngredients[0], id: "ri-2", amount: 1.5, unit: "cups", systemUsed: "us" },
+      ],
+    });
+
+    expect(diffRecipeSnapshots(before, after).ingredients.added).toEqual(["1.5 cups Flour (us)"]);
+  });
+});
+
+describe("getChangedFields", () => {
+  it("lists changed fields and lists", () => {
+    const before = snapshot();
+    const after = snapshot({ name: "Better Recipe", tags: [{ name: "quick" }] });
+
+    expect(getChangedFields(before, after)).toEqual(["name", "tags"]);
+  });
+});
+
+describe("snapshotToUpdate", () => {
+  it("re-creates ingredients by name", () => {
+    const update = snapshotToUpdate(snapshot());
+
+    expect(update.recipeIngredients).toEqual([
+      {
+        ingredientId: null,
+        ingredientName: "Flour",
+        amount: 200,
+        unit: "g",
+        order: 0,
+        systemUsed: "metric",
+        section: null,
+        linkedRecipeId: null,
+      },
+    ]);
+    expect(update.name).toBe("Test Recipe");
+  });
+});
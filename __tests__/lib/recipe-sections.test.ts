@@ -0,0 +1,124 @@
+import { describe, it, expect } from "vitest";
+
+import {
+  applySectionHeadings,
+  parseSectionHeading,
+  sectionStartingAt,
+  withSectionHeadings,
+} from "@/lib/recipe-sections";
+
+describe("parseSectionHeading", () => {
+  it("reads the name from a heading line", () => {
+    expect(parseSectionHeading("  ## Filling ")).toBe("Filling");
+  });
+
+  it("returns an empty name for a bare heading", () => {
+    expect(parseSectionHeading("#")).toBe("");
+  });
+
+  it("ignores lines that are not headings", () => {
+    expect(parseSectionHeading("2 eggs")).toBeNull();
+    expect(parseSectionHeading(null)).toBeNull();
+  });
+});
+
+describe("applySectionHeadings", () => {
+  it("moves heading lines onto the items below them", () => {
+    const result = applySectionHeadings(
+      [{ text: "# Dough" }, { text: "flour" }, { text: "# Glaze" }, { text: "sugar" }],
+      (i) => i.text
+    );
+
+    expect(result).toEqual([
+      { text: "flour", section: "Dough" },
+      { text: "sugar", section: "Glaze" },
+    ]);
+  });
+
+  it("ends a section at a bare heading", () => {
+    const result = applySectionHeadings(
+      [{ text: "# Dough" }, { text: "flour" }, { text: "#" }, { text: "salt" }],
+      (i) => i.text
+    );
+
+    expect(result.map((i) => i.section)).toEqual(["Dough", null]);
+  });
+
+  it("tracks sections per measurement system", () => {
+    const result = applySectionHeadings(
+      [
+        { text: "# Dough", systemUsed: "metric" },
+        { text: "500 g flour", systemUsed: "metric" },
+        { text: "4 cups flour", systemUsed: "us" },
+      ],
+      (i) => i.text
+    );
+
+    expect(result.map((i) => i.section)).toEqual(["Dough", null]);
+  });
+
+  it("keeps a section the item already has", () => {
+    const result = applySectionHeadings(
+      [{ text: "# Dough" }, { text: "sugar", section: "Glaze" }],
+      (i) => i.text
+    );
+
+    expect(result).toEqual([{ text: "sugar", section: "Glaze" }]);
+  });
+});
+
+describe("withSectionHeadings", () => {
+  const toHeading = (section: string) => ({ text: `# ${section}`.trim(), section: null });
+
+  it("puts a heading before each new section", () => {
+    const result = withSectionHeadings(
+      [
+        { text: "flour", section: "Dough" },
+        { text: "egg", section: "Dough" },
+        { text: "sugar", section: "Glaze" },
+      ],
+      toHeading
+    );
+
+    expect(result.map((i) => i.text)).toEqual(["# Dough", "flour", "egg", "# Glaze", "sugar"]);
+  });
+
+  it("closes a section before unsectioned items", () => {
+    const result = withSectionHeadings(
+      [{ text: "salt" }, { text: "flour", section: "Dough" }, { text: "water" }],
+      toHeading
+    );
+
+    expect(result.map((i) => i.text)).toEqual(["salt", "# Dough", "flour", "#", "water"]);
+  });
+
+  it("round-trips through applySectionHeadings", () => {
+    const items = [
+      { text: "salt", section: null },
+      { text: "flour", section: "Dough" },
+      { text: "water", section: null },
+    ];
+
+    expect(applySectionHeadings(withSectionHeadings(items, toHeading), (i) => i.text)).toEqual(
+      items
+    );
+  });
+});
+
+describe("sectionStartingAt", () => {
+  const items = [
+    { section: "Dough" },
+    { section: "Dough" },
+    { section: null },
+    { section: "Glaze" },
+  ];
+
+  it("names the section at its first item only", () => {
+    expect(items.map((_, i) => sectionStartingAt(items, i))).toEqual([
+      "Dough",
+      null,
+      null,
+      "Glaze",
+    ]);
+  });
+});
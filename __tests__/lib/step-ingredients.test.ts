@@ -0,0 +1,71 @@
+import type { UnitsMap } from "@/server/db/zodSchemas/server-config";
+
+import { describe, it, expect } from "vitest";
+
+import { getStepIngredients, matchStepIngredients, scaleStepText } from "@/lib/step-ingredients";
+
+const ingredients = [
+  { ingredientName: "all-purpose flour", amount: 200, unit: "g", order: 0, systemUsed: "metric" },
+  { ingredientName: "eggs", amount: 2, unit: null, order: 1, systemUsed: "metric" },
+  { ingredientName: "butter, melted", amount: 1.5, unit: "tbsp", order: 2, systemUsed: "metric" },
+  { ingredientName: "flour", amount: 1.5, unit: "cups", order: 0, systemUsed: "us" },
+];
+
+const units: UnitsMap = {
+  gram: { short: "g", plural: "grams", alternates: ["gr"] },
+};
+
+describe("matchStepIngredients", () => {
+  it("finds ingredients by name, last word or singular form", () => {
+    const metric = ingredients.filter((i) => i.systemUsed === "metric");
+
+    expect(matchStepIngredients("Beat the egg, then fold in the flour", metric)).toEqual([0, 1]);
+  });
+
+  it("ignores names that are part of another word", () => {
+    expect(matchStepIngredients("Add buttermilk", ingredients)).toEqual([]);
+  });
+});
+
+describe("getStepIngredients", () => {
+  it("resolves stored orders against ingredients of the step's system", () => {
+    const result = getStepIngredients(
+      { step: "Mix", systemUsed: "metric", ingredientOrders: [2, 0] },
+      ingredients
+    );
+
+    expect(result.map((i) => i.ingredientName)).toEqual(["all-purpose flour", "butter, melted"]);
+  });
+
+  it("matches steps stored without links by name", () => {
+    const result = getStepIngredients({ step: "Sift the flour", systemUsed: "us" }, ingredients);
+
+    expect(result.map((i) => i.order)).toEqual([0]);
+  });
+});
+
+describe("scaleStepText", () => {
+  it("scales amounts followed by the unit or the ingredient name", () => {
+    expect(
+      scaleStepText("Add 200 g flour, 2 eggs and 1 1/2 tbsp butter", ingredients, 2, { units })
+    ).toBe("Add 400 g flour, 4 eggs and 3 tbsp butter");
+  });
+
+  it("recognises other forms of the unit", () => {
+    expect(scaleStepText("Add 200 grams of flour", ingredients, 0.5, { units })).toBe(
+      "Add 100 grams of flour"
+    );
+  });
+
+  it("leaves times and temperatures alone", () => {
+    expect(scaleStepText("Bake 2 hours at 200 °C", ingredients, 2, { units })).toBe(
+      "Bake 2 hours at 200 °C"
+    );
+  });
+
+  it("formats scaled amounts as fractions when asked", () => {
+    expect(scaleStepText("Melt 1½ tbsp butter", ingredients, 0.5, { mode: "fraction" })).toBe(
+      "Melt ¾ tbsp butter"
+    );
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, it, expect } from "vitest";
+
+import { detectStepDurations, formatTimerDuration } from "@/lib/step-timers";
+
+function seconds(text: string): number[] {
+  return detectStepDurations(text).map((d) => d.seconds);
+}
+
+describe("detectStepDurations", () => {
+  it("finds durations with their position in the text", () => {
+    expect(detectStepDurations("Cover and simmer 20 minutes.")).toEqual([
+      { text: "20 minutes", seconds: 1200, index: 17 },
+    ]);
+  });
+
+  it("understands Dutch, German and French units", () => {
+    expect(seconds("Laat 10 minuten rusten en bak 1 uur")).toEqual([600, 3600]);
+    expect(seconds("45 Min. backen, dann 2 Stunden ruhen lassen")).toEqual([2700, 7200]);
+    expect(seconds("Cuire 30 secondes puis 1 heure")).toEqual([30, 3600]);
+  });
+
+  it("uses the lower bound of a range", () => {
+    expect(seconds("Bake 25-30 minutes")).toEqual([1500]);
+    expect(seconds("10 tot 15 minuten garen")).toEqual([600]);
+  });
+
+  it("joins the parts of a combined duration", () => {
+    expect(detectStepDurations("Roast for 1 hour 30 minutes")).toEqual([
+      { text: "1 hour 30 minutes", seconds: 5400, index: 10 },
+    ]);
+    expect(seconds("1 uur en 15 minuten")).toEqual([4500]);
+    expect(seconds("1 Std. und 15 Min. garen")).toEqual([4500]);
+  });
+
+  it("keeps separate durations apart", () => {
+    expect(seconds("Fry 5 minutes, turn and fry 5 minutes more")).toEqual([300, 300]);
+  });
+
+  it("reads decimals and fractions", () => {
+    expect(seconds("Bake 1,5 uur")).toEqual([5400]);
+    expect(seconds("Rest ½ hour")).toEqual([1800]);
+  });
+
+  it("ignores amounts, temperatures and words that start like a unit", () => {
+    expect(seconds("Add 200 g flour and 2 mint leaves, bake at 180 °C")).toEqual([]);
+  });
+});
+
+describe("formatTimerDuration", () => {
+  it("shows minutes and seconds, and hours when needed", () => {
+    expect(formatTimerDuration(65)).toBe("1:05");
+    expect(formatTimerDuration(3725)).toBe("1:02:05");
+    expect(formatTimerDuration(-3)).toBe("0:00");
+  });
+});
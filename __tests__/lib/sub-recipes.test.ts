@@ -0,0 +1,152 @@
+import type { SubRecipe } from "@/lib/sub-recipes";
+
+import { describe, it, expect } from "vitest";
+
+import {
+  expandSubRecipes,
+  parseRecipeLink,
+  subRecipeFactor,
+  toIngredientLinkText,
+} from "@/lib/sub-recipes";
+
+const dough: SubRecipe = {
+  id: "dough",
+  name: "Pizza dough",
+  servings: 4,
+  ingredients: [
+    { id: "d1", ingredientName: "Flour", amount: 500, unit: "g" },
+    { id: "d2", ingredientName: "Water", amount: 325, unit: "ml" },
+    { id: "d3", ingredientName: "Salt", amount: null, unit: null },
+  ],
+};
+
+function recipesMap(...recipes: SubRecipe[]): Map<string, SubRecipe> {
+  return new Map(recipes.map((r) => [r.id, r]));
+}
+
+describe("parseRecipeLink", () => {
+  it("reads the name and id of a recipe link", () => {
+    expect(parseRecipeLink(" [Pizza dough](id:abc-123) ")).toEqual({
+      name: "Pizza dough",
+      recipeId: "abc-123",
+    });
+  });
+
+  it("ignores plain names and links inside other text", () => {
+    expect(parseRecipeLink("Flour")).toBeNull();
+    expect(parseRecipeLink("1 [Pizza dough](id:abc) ball")).toBeNull();
+  });
+});
+
+describe("toIngredientLinkText", () => {
+  it("writes linked lines as a recipe link", () => {
+    expect(toIngredientLinkText({ ingredientName: "Pizza dough", linkedRecipeId: "abc" })).toBe(
+      "[Pizza dough](id:abc)"
+    );
+  });
+
+  it("does not nest a name that is already a link", () => {
+    expect(
+      toIngredientLinkText({ ingredientName: "[Pizza dough](id:abc)", linkedRecipeId: "abc" })
+    ).toBe("[Pizza dough](id:abc)");
+  });
+});
+
+describe("subRecipeFactor", () => {
+  it("uses the whole recipe when the line has no amount", () => {
+    expect(subRecipeFactor(null, 4)).toBe(1);
+  });
+
+  it("scales by the servings asked for", () => {
+    expect(subRecipeFactor(2, 4)).toBe(0.5);
+  });
+});
+
+describe("expandSubRecipes", () => {
+  it("replaces a linked line with the scaled ingredients of the sub-recipe", () => {
+    const result = expandSubRecipes(
+      [
+        { id: "p1", ingredientName: "Pizza dough", amount: 2, unit: null, linkedRecipeId: "dough" },
+        { id: "p2", ingredientName: "Mozzarella", amount: 125, unit: "g" },
+      ],
+      recipesMap(dough)
+    );
+
+    expect(result.map((i) => [i.ingredientName, i.amount, i.subRecipeName])).toEqual([
+      ["Flour", 250, "Pizza dough"],
+      ["Water", 162.5, "Pizza dough"],
+      ["Salt", null, "Pizza dough"],
+      ["Mozzarella", 125, null],
+    ]);
+  });
+
+  it("expands nested sub-recipes", () => {
+    const base: SubRecipe = {
+      id: "base",
+      name: "Pizza base",
+      servings: 1,
+      ingredients: [
+        { id: "b1", ingredientName: "Dough", amount: 4, unit: null, linkedRecipeId: "dough" },
+        { id: "b2", ingredientName: "Semolina", amount: 10, unit: "g" },
+      ],
+    };
+
+    const result = expandSubRecipes(
+      [{ id: "p1", ingredientName: "Base", amount: 2, unit: null, linkedRecipeId: "base" }],
+      recipesMap(dough, base)
+    );
+
+    expect(result.map((i) => [i.ingredientName, i.amount])).toEqual([
+      ["Flour", 1000],
+      ["Water", 650],
+      ["Salt", null],
+      ["Semolina", 20],
+    ]);
+  });
+
+  it("stops at a recipe that links back to itself", () => {
+    const sauce: SubRecipe = {
+      id: "sauce",
+      name: "Sauce",
+      servings: 1,
+      ingredients: [
+        { id: "s1", ingredientName: "Tomatoes", amount: 400, unit: "g" },
+        { id: "s2", ingredientName: "Lasagne", amount: 1, unit: null, linkedRecipeId: "lasagne" },
+      ],
+    };
+
+    const result = expandSubRecipes(
+      [{ id: "l1", ingredientName: "Sauce", amount: 1, unit: null, linkedRecipeId: "sauce" }],
+      recipesMap(sauce),
+      new Set(["lasagne"])
+    );
+
+    expect(result.map((i) => i.ingredientName)).toEqual(["Tomatoes"]);
+  });
+
+  it("keeps a link to a missing recipe as a plain line", () => {
+    const result = expandSubRecipes(
+      [
+        {
+          id: "p1",
+          ingredientName: "[Pizza dough](id:gone)",
+          amount: 1,
+          unit: null,
+          linkedRecipeId: "gone",
+        },
+      ],
+      recipesMap()
+    );
+
+    expect(result).toEqual([
+      {
+        id: "p1",
+        ingredientName: "Pizza dough",
+        amount: 1,
+        unit: null,
+        linkedRecipeId: null,
+        subRecipeName: null,
+      },
+    ]);
+  });
+});
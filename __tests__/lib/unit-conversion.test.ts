@@ -0,0 +1,251 @@
+import type { IngredientDensities, UnitsMap } from "@/server/db/zodSchemas/server-config";
+
+import { describe, it, expect } from "vitest";
+
+import defaultDensities from "@/config/ingredient-densities.default.json";
+import {
+  convertIngredientAmount,
+  convertRecipeMeasurements,
+  convertStepText,
+  convertTemperatures,
+  findDensity,
+  findPieceWeight,
+  resolveUnit,
+} from "@/lib/unit-conversion";
+
+const units: UnitsMap = {
+  dl: {
+    short: "dl",
+    plural: "deciliters",
+    alternates: ["deciliter"],
+    conversion: { dimension: "volume", factor: 100, system: "metric" },
+  },
+  el: {
+    short: "el",
+    plural: "eetlepels",
+    alternates: ["eetlepel"],
+    conversion: { dimension: "volume", factor: 15 },
+  },
+  teen: { short: "teen", plural: "tenen", alternates: ["teentje"] },
+};
+
+const densities: IngredientDensities = {
+  flour: { alternates: ["bloem"], gramsPerMl: 0.53, weighInMetric: true },
+  butter: { alternates: [], gramsPerMl: 0.96, weighInMetric: true },
+  "brown sugar": { alternates: [], gramsPerMl: 0.93, weighInMetric: true },
+  sugar: { alternates: [], gramsPerMl: 0.85, weighInMetric: true },
+  oil: { alternates: ["olive oil"], gramsPerMl: 0.92 },
+  water: { alternates: [], gramsPerMl: 1 },
+  egg: { alternates: ["ei"], gramsPerPiece: 50 },
+};
+
+const options = { units, densities };
+
+describe("resolveUnit", () => {
+  it("tells tablespoons and teaspoons apart by case", () => {
+    expect(resolveUnit("T")?.id).toBe("tablespoon");
+    expect(resolveUnit("t")?.id).toBe("teaspoon");
+  });
+
+  it("finds units from the units map by any of their names", () => {
+    expect(resolveUnit("Deciliter", units)?.conversion?.factor).toBe(100);
+    expect(resolveUnit("teentje", units)).toEqual({ id: "teen", conversion: null });
+  });
+
+  it("returns null for units nobody defined", () => {
+    expect(resolveUnit("handvol", units)).toBeNull();
+  });
+});
+
+describe("findDensity", () => {
+  it("prefers the most specific entry the name ends with", () => {
+    expect(findDensity("Light brown sugar", densities)).toBe(0.93);
+    expect(findDensity("unsalted butter, softened", densities)).toBe(0.96);
+  });
+
+  it("does not match a name that only starts with an entry", () => {
+    expect(findDensity("sugar snap peas", densities)).toBeNull();
+  });
+});
+
+describe("findPieceWeight", () => {
+  it("finds the weight of one piece", () => {
+    expect(findPieceWeight("large eggs", densities)).toBe(50);
+    expect(findPieceWeight("Ei", densities)).toBe(50);
+  });
+
+  it("skips entries that only have a density", () => {
+    expect(findPieceWeight("butter", densities)).toBeNull();
+    expect(findDensity("eggs", densities)).toBeNull();
+  });
+});
+
+describe("convertIngredientAmount", () => {
+  it("weighs US volumes of ingredients with a known density", () => {
+    expect(
+      convertIngredientAmount(
+        { ingredientName: "flour", amount: 2, unit: "cups" },
+        "metric",
+        options
+      )
+    ).toEqual({ amount: 250, unit: "g" });
+  });
+
+  it("measures metric weights of those ingredients in cups", () => {
+    expect(
+      convertIngredientAmount({ ingredientName: "bloem", amount: 250, unit: "g" }, "us", options)
+    ).toEqual({ amount: 2, unit: "cups" });
+  });
+
+  it("keeps liquids in millilitres and litres", () => {
+    expect(
+      convertIngredientAmount(
+        { ingredientName: "olive oil", amount: 3, unit: "tbsp" },
+        "metric",
+        options
+      )
+    ).toEqual({ amount: 44, unit: "ml" });
+    expect(
+      convertIngredientAmount(
+        { ingredientName: "water", amount: 1, unit: "gallon" },
+        "metric",
+        options
+      )
+    ).toEqual({ amount: 3.8, unit: "l" });
+  });
+
+  it("still measures metric weights of liquids in cups", () => {
+    expect(
+      convertIngredientAmount({ ingredientName: "water", amount: 500, unit: "g" }, "us", options)
+    ).toEqual({ amount: 2, unit: "cups" });
+  });
+
+  it("only weighs dry goods with the default densities", () => {
+    const defaults = { densities: defaultDensities as IngredientDensities };
+
+    expect(
+      convertIngredientAmount(
+        { ingredientName: "flour", amount: 1, unit: "cup" },
+        "metric",
+        defaults
+      )
+    ).toEqual({ amount: 125, unit: "g" });
+    expect(
+      convertIngredientAmount(
+        { ingredientName: "milk", amount: 1, unit: "cup" },
+        "metric",
+        defaults
+      )
+    ).toEqual({ amount: 235, unit: "ml" });
+    expect(
+      convertIngredientAmount(
+        { ingredientName: "olive oil", amount: 3, unit: "tbsp" },
+        "metric",
+        defaults
+      )
+    ).toEqual({ amount: 44, unit: "ml" });
+  });
+
+  it("keeps the dimension when the density is unknown", () => {
+    expect(
+      convertIngredientAmount({ ingredientName: "milk", amount: 1.5, unit: "dl" }, "us", options)
+    ).toEqual({ amount: 0.667, unit: "cup" });
+    expect(
+      convertIngredientAmount({ ingredientName: "beef", amount: 1, unit: "lb" }, "metric", options)
+    ).toEqual({ amount: 455, unit: "g" });
+  });
+
+  it("uses larger units for large amounts", () => {
+    expect(
+      convertIngredientAmount({ ingredientName: "stock", amount: 6, unit: "cups" }, "metric")
+    ).toEqual({ amount: 1.4, unit: "l" });
+    expect(
+      convertIngredientAmount({ ingredientName: "potatoes", amount: 1000, unit: "g" }, "us")
+    ).toEqual({ amount: 2.25, unit: "lb" });
+  });
+
+  it("picks spoons for small volumes", () => {
+    expect(
+      convertIngredientAmount({ ingredientName: "vanilla", amount: 5, unit: "ml" }, "us")
+    ).toEqual({ amount: 1, unit: "tsp" });
+    expect(
+      convertIngredientAmount({ ingredientName: "soy sauce", amount: 30, unit: "ml" }, "us")
+    ).toEqual({ amount: 2, unit: "tbsp" });
+  });
+
+  it("leaves lines alone that need no conversion", () => {
+    const lines = [
+      { ingredientName: "garlic", amount: 2, unit: "teen" },
+      { ingredientName: "oil", amount: 2, unit: "el" },
+      { ingredientName: "eggs", amount: 3, unit: null },
+      { ingredientName: "flour", amount: 200, unit: "g" },
+    ];
+
+    expect(lines.map((l) => convertIngredientAmount(l, "metric", options))).toEqual(
+      lines.map(({ amount, unit }) => ({ amount, unit }))
+    );
+  });
+
+  it("returns null for unknown units", () => {
+    expect(
+      convertIngredientAmount({ ingredientName: "herbs", amount: 1, unit: "handvol" }, "us")
+    ).toBeNull();
+  });
+});
+
+describe("convertTemperatures", () => {
+  it("converts oven temperatures to the target scale", () => {
+    expect(convertTemperatures("Preheat the oven to 180°C.", "us")).toBe(
+      "Preheat the oven to 350 °F."
+    );
+    expect(convertTemperatures("Bake at 375 degrees F", "metric")).toBe("Bake at 190 °C");
+  });
+
+  it("converts gas marks", () => {
+    expect(convertTemperatures("Roast at gas mark 6", "metric")).toBe("Roast at 200 °C");
+  });
+
+  it("leaves temperatures already in the target scale alone", () => {
+    expect(convertTemperatures("Heat to 200 °C", "metric")).toBe("Heat to 200 °C");
+  });
+});
+
+describe("convertStepText", () => {
+  it("converts measurements of the other system", () => {
+    expect(convertStepText("Whisk in 1/2 cup milk and 2 tbsp sugar", "metric", options)).toBe(
+      "Whisk in 120 ml milk and 30 ml sugar"
+    );
+    expect(convertStepText("Add 600 g of beef", "us", options)).toBe("Add 1 ¼ lb of beef");
+  });
+
+  it("leaves single-letter units and other numbers alone", () => {
+    expect(convertStepText("Cut into 2 c pieces, rest 10 minutes", "metric", options)).toBe(
+      "Cut into 2 c pieces, rest 10 minutes"
+    );
+  });
+});
+
+describe("convertRecipeMeasurements", () => {
+  it("converts the active system and reports lines it could not handle", () => {
+    const result = convertRecipeMeasurements(
+      {
+        systemUsed: "us",
+        recipeIngredients: [
+          { ingredientName: "flour", amount: 1, unit: "cup", order: 0, systemUsed: "us" },
+          { ingredientName: "basil", amount: 1, unit: "handvol", order: 1, systemUsed: "us" },
+          { ingredientName: "flour", amount: 125, unit: "g", order: 0, systemUsed: "metric" },
+        ],
+        steps: [{ step: "Bake at 350°F", order: 0, systemUsed: "us" }],
+      },
+      "metric",
+      options
+    );
+
+    expect(result.ingredients.map((i) => [i.amount, i.unit, i.systemUsed])).toEqual([
+      [125, "g", "metric"],
+      [1, "handvol", "metric"],
+    ]);
+    expect(result.steps.map((s) => s.step)).toEqual(["Bake at 180 °C"]);
+    expect(result.unconverted.map((i) => i.order)).toEqual([1]);
+  });
+});
@@ -7,6 +7,7 @@ export const listPlannedRecipesByUsersAndRange = vi.fn();
 export const createPlannedRecipe = vi.fn();
 export const deletePlannedRecipe = vi.fn();
 export const updatePlannedRecipeDate = vi.fn();
+export const updatePlannedRecipeServings = vi.fn();
 export const getPlannedRecipeOwnerId = vi.fn();
 export const getPlannedRecipeViewById = vi.fn();
 
@@ -15,6 +16,7 @@ export function resetPlannedRecipesMocks() {
   createPlannedRecipe.mockReset();
   deletePlannedRecipe.mockReset();
   updatePlannedRecipeDate.mockReset();
+  updatePlannedRecipeServings.mockReset();
   getPlannedRecipeOwnerId.mockReset();
   getPlannedRecipeViewById.mockReset();
 }
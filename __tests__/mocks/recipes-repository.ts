@@ -9,6 +9,7 @@ export const getRecipeOwnerId = vi.fn();
 export const createRecipeWithRefs = vi.fn();
 export const updateRecipeWithRefs = vi.fn();
 export const deleteRecipeById = vi.fn();
+export const trashRecipeById = vi.fn();
 export const dashboardRecipe = vi.fn();
 export const getRecipeByUrl = vi.fn();
 
@@ -19,6 +20,7 @@ export function resetRecipesMocks() {
   createRecipeWithRefs.mockReset();
   updateRecipeWithRefs.mockReset();
   deleteRecipeById.mockReset();
+  trashRecipeById.mockReset();
   dashboardRecipe.mockReset();
   getRecipeByUrl.mockReset();
 }
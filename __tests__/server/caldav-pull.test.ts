@@ -0,0 +1,332 @@
+// @vitest-environment node
+import type { CaldavPullItemDto } from "@/types/dto/caldav-sync-status";
+import type { CalDavRemoteEvent } from "@/types/dto/caldav";
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("@/server/caldav/client", () => ({ CalDavClient: vi.fn() }));
+vi.mock("@/server/caldav/event-listener", () => ({ retryFailedSyncs: vi.fn() }));
+vi.mock("@/server/db/repositories/caldav-config", () => ({
+  getCaldavConfigByUserId: vi.fn(),
+  getCaldavConfigDecrypted: vi.fn(),
+  updateCaldavPullState: vi.fn(),
+}));
+vi.mock("@/server/db/repositories/caldav-sync-status", () => ({
+  getCaldavPullItems: vi.fn(),
+  updateCaldavSyncStatus: vi.fn(),
+}));
+vi.mock("@/server/db/repositories/planned-recipe", () => ({ deletePlannedRecipe: vi.fn() }));
+vi.mock("@/server/db/repositories/notes", () => ({}));
+vi.mock("@/server/db/cached-household", () => ({
+  getCachedHouseholdForUser: vi.fn().mockResolvedValue(null),
+}));
+vi.mock("@/server/db/repositories/meal-slots", () => ({
+  listMealSlots: vi.fn().mockResolvedValue([]),
+}));
+vi.mock("@/server/trpc/routers/calendar/emitter", () => ({
+  calendarEmitter: { emitToHousehold: vi.fn() },
+}));
+vi.mock("@/server/db/repositories/user-allergies", () => ({}));
+vi.mock("@/server/db/repositories/tags", () => ({}));
+
+import { CalDavClient } from "@/server/caldav/client";
+import { parseIcsEvent } from "@/server/caldav/ics-helpers";
+import { getSlotForTime, pullCaldavChanges, resolveRemoteChange } from "@/server/caldav/pull-sync";
+import {
+  getCaldavConfigByUserId,
+  getCaldavConfigDecrypted,
+  updateCaldavPullState,
+} from "@/server/db/repositories/caldav-config";
+import {
+  getCaldavPullItems,
+  updateCaldavSyncStatus,
+} from "@/server/db/repositories/caldav-sync-status";
+import { deletePlannedRecipe } from "@/server/db/repositories/planned-recipe";
+
+const SLOT_TIMES = {
+  breakfastTime: "07:00-08:00",
+  lunchTime: "12:00-13:00",
+  dinnerTime: "18:00-19:00",
+  snackTime: "15:00-15:30",
+};
+
+function createItem(overrides: Partial<CaldavPullItemDto> = {}): CaldavPullItemDto {
+  return {
+    id: "status-1",
+    itemId: "item-1",
+    itemType: "recipe",
+    syncStatus: "synced",
+    caldavEventUid: "uid-1",
+    caldavEtag: '"etag-1"',
+    lastSyncAt: new Date("2026-03-01T10:00:00Z"),
+    date: "2026-03-10",
+    slot: "Dinner",
+    itemUpdatedAt: new Date("2026-03-01T09:59:00Z"),
+    ...overrides,
+  };
+}
+
+function createRemote(overrides: Partial<CalDavRemoteEvent> = {}): CalDavRemoteEvent {
+  return {
+    uid: "uid-1",
+    href: "https://cal.example.com/uid-1.ics",
+    etag: '"etag-2"',
+    start: new Date("2026-03-10T18:00:00Z"),
+    allDay: false,
+    ...overrides,
+  };
+}
+
+describe("parseIcsEvent", () => {
+  it("reads uid, summary and times from the first VEVENT", () => {
+    const ics = [
+      "BEGIN:VCALENDAR",
+      "BEGIN:VEVENT",
+      "UID:abc-123",
+      "SUMMARY:Pasta\\, with sauce",
+      "DTSTART:20260310T180000Z",
+      "DTEND:20260310T190000Z",
+      "LAST-MODIFIED:20260305T120000Z",
+      "BEGIN:VALARM",
+      "DTSTART:20260310T170000Z",
+      "END:VALARM",
+      "END:VEVENT",
+      "END:VCALENDAR",
+    ].join("\r\n");
+
+    const event = parseIcsEvent(ics);
+
+    expect(event?.uid).toBe("abc-123");
+    expect(event?.summary).toBe("Pasta, with sauce");
+    expect(event?.start.toISOString()).toBe("2026-03-10T18:00:00.000Z");
+    expect(event?.end?.toISOString()).toBe("2026-03-10T19:00:00.000Z");
+    expect(event?.allDay).toBe(false);
+    expect(event?.lastModified?.toISOString()).toBe("2026-03-05T12:00:00.000Z");
+  });
+
+  it("handles all-day dates and folded lines", () => {
+    const ics = [
+      "BEGIN:VEVENT",
+      "UID:abc-",
+      " 456",
+      "DTSTART;VALUE=DATE:20260311",
+      "END:VEVENT",
+    ].join("\r\n");
+
+    const event = parseIcsEvent(ics);
+
+    expect(event?.uid).toBe("abc-456");
+    expect(event?.allDay).toBe(true);
+    expect(event?.start.toISOString().slice(0, 10)).toBe("2026-03-11");
+  });
+
+  it("returns null without a VEVENT", () => {
+    expect(parseIcsEvent("BEGIN:VCALENDAR\r\nEND:VCALENDAR")).toBeNull();
+  });
+});
+
+describe("getSlotForTime", () => {
+  it("matches a slot by its start time", () => {
+    expect(getSlotForTime(new Date("2026-03-10T07:00:00Z"), SLOT_TIMES)).toBe("Breakfast");
+    expect(getSlotForTime(new Date("2026-03-10T15:00:00Z"), SLOT_TIMES)).toBe("Snack");
+  });
+
+  it("falls back to the slot containing the time", () => {
+    expect(getSlotForTime(new Date("2026-03-10T12:30:00Z"), SLOT_TIMES)).toBe("Lunch");
+  });
+
+  it("returns null outside all slots", () => {
+    expect(getSlotForTime(new Date("2026-03-10T22:00:00Z"), SLOT_TIMES)).toBeNull();
+  });
+
+  it("reads the time in the configured timezone", () => {
+    const config = { ...SLOT_TIMES, timezone: "Europe/Berlin" };
+
+    expect(getSlotForTime(new Date("2026-07-10T16:00:00Z"), config)).toBe("Dinner");
+  });
+
+  it("matches household meal slots before the built-in ones", () => {
+    const config = { ...SLOT_TIMES, customSlotTimes: { "Meal prep": "12:00-14:00" } };
+
+    expect(getSlotForTime(new Date("2026-03-10T12:00:00Z"), config)).toBe("Meal prep");
+    expect(getSlotForTime(new Date("2026-03-10T07:00:00Z"), config)).toBe("Breakfast");
+  });
+
+  it("uses the custom time range of a built-in slot", () => {
+    const config = { ...SLOT_TIMES, customSlotTimes: { Breakfast: "09:00-10:00" } };
+
+    expect(getSlotForTime(new Date("2026-03-10T07:00:00Z"), config)).toBeNull();
+    expect(getSlotForTime(new Date("2026-03-10T09:30:00Z"), config)).toBe("Breakfast");
+  });
+});
+
+describe("resolveRemoteChange", () => {
+  it("does nothing when the etag is unchanged", () => {
+    const change = resolveRemoteChange(
+      createItem(),
+      createRemote({ etag: '"etag-1"' }),
+      SLOT_TIMES
+    );
+
+    expect(change).toEqual({ type: "none" });
+  });
+
+  it("acknowledges a new etag when date and slot are unchanged", () => {
+    const change = resolveRemoteChange(createItem(), createRemote(), SLOT_TIMES);
+
+    expect(change).toEqual({ type: "acknowledge" });
+  });
+
+  it("applies a remote move when nothing changed locally", () => {
+    const remote = createRemote({ start: new Date("2026-03-12T12:00:00Z") });
+
+    expect(resolveRemoteChange(createItem(), remote, SLOT_TIMES)).toEqual({
+      type: "apply",
+      date: "2026-03-12",
+      slot: "Lunch",
+      conflict: false,
+    });
+  });
+
+  it("keeps the slot when the event became all-day", () => {
+    const remote = createRemote({ start: new Date("2026-03-12T00:00:00Z"), allDay: true });
+
+    expect(resolveRemoteChange(createItem(), remote, SLOT_TIMES)).toMatchObject({
+      type: "apply",
+      date: "2026-03-12",
+      slot: "Dinner",
+    });
+  });
+
+  it("uses the local date in the configured timezone", () => {
+    const config = { ...SLOT_TIMES, timezone: "Asia/Tokyo" };
+    const item = createItem({ date: "2026-03-10", slot: "Breakfast" });
+    const remote = createRemote({ start: new Date("2026-03-09T22:00:00Z") });
+
+    expect(resolveRemoteChange(item, remote, config)).toEqual({ type: "acknowledge" });
+  });
+
+  it("deletes the local item when the event is gone", () => {
+    expect(resolveRemoteChange(createItem(), undefined, SLOT_TIMES)).toEqual({ type: "delete" });
+  });
+
+  it("keeps a locally changed item when the event is gone", () => {
+    const item = createItem({ syncStatus: "pending" });
+
+    expect(resolveRemoteChange(item, undefined, SLOT_TIMES)).toEqual({ type: "keepLocal" });
+  });
+
+  it("lets the newer remote edit win a conflict", () => {
+    const item = createItem({ itemUpdatedAt: new Date("2026-03-02T10:00:00Z") });
+    const remote = createRemote({
+      start: new Date("2026-03-12T18:00:00Z"),
+      lastModified: new Date("2026-03-03T10:00:00Z"),
+    });
+
+    expect(resolveRemoteChange(item, remote, SLOT_TIMES)).toEqual({
+      type: "apply",
+      date: "2026-03-12",
+      slot: "Dinner",
+      conflict: true,
+    });
+  });
+
+  it("lets the newer local edit win a conflict", () => {
+    const item = createItem({ itemUpdatedAt: new Date("2026-03-04T10:00:00Z") });
+    const remote = createRemote({
+      start: new Date("2026-03-12T18:00:00Z"),
+      lastModified: new Date("2026-03-03T10:00:00Z"),
+    });
+
+    expect(resolveRemoteChange(item, remote, SLOT_TIMES)).toEqual({ type: "keepLocal" });
+  });
+});
+
+describe("pullCaldavChanges", () => {
+  const client = {
+    getCalendarCtag: vi.fn(),
+    fetchEvents: vi.fn(),
+    eventExists: vi.fn(),
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(CalDavClient).mockImplementation(function () {
+      return client;
+    } as any);
+    vi.mocked(getCaldavConfigByUserId).mockResolvedValue({
+      lastPullCtag: "ctag-1",
+      updatedAt: new Date("2026-02-01T00:00:00Z"),
+    } as any);
+    vi.mocked(getCaldavConfigDecrypted).mockResolvedValue({
+      ...SLOT_TIMES,
+      enabled: true,
+      serverUrl: "https://cal.example.com",
+      calendarUrl: null,
+      username: "user",
+      password: "secret",
+      timezone: "UTC",
+    } as any);
+    vi.mocked(getCaldavPullItems).mockResolvedValue([createItem()]);
+    client.getCalendarCtag.mockResolvedValue("ctag-2");
+    client.fetchEvents.mockResolvedValue([]);
+    client.eventExists.mockResolvedValue(false);
+  });
+
+  it("deletes an item whose event the calendar confirms is gone", async () => {
+    const result = await pullCaldavChanges("user-1");
+
+    expect(client.eventExists).toHaveBeenCalledWith("uid-1");
+    expect(deletePlannedRecipe).toHaveBeenCalledWith("item-1");
+    expect(result.deleted).toBe(1);
+  });
+
+  it("keeps items missing from an empty response while their events still exist", async () => {
+    client.eventExists.mockResolvedValue(true);
+
+    const result = await pullCaldavChanges("user-1");
+
+    expect(deletePlannedRecipe).not.toHaveBeenCalled();
+    expect(updateCaldavSyncStatus).not.toHaveBeenCalled();
+    expect(result.deleted).toBe(0);
+  });
+
+  it("keeps items not pushed since the calendar config changed", async () => {
+    vi.mocked(getCaldavConfigByUserId).mockResolvedValue({
+      lastPullCtag: null,
+      updatedAt: new Date("2026-03-05T00:00:00Z"),
+    } as any);
+
+    const result = await pullCaldavChanges("user-1");
+
+    expect(client.eventExists).not.toHaveBeenCalled();
+    expect(deletePlannedRecipe).not.toHaveBeenCalled();
+    expect(result.deleted).toBe(0);
+  });
+
+  it("stores the ctag once every change is applied", async () => {
+    await pullCaldavChanges("user-1");
+
+    expect(updateCaldavPullState).toHaveBeenCalledWith("user-1", "ctag-2");
+  });
+
+  it("does not store the ctag when a change failed so the next pull retries it", async () => {
+    vi.mocked(deletePlannedRecipe).mockRejectedValueOnce(new Error("db down"));
+
+    const result = await pullCaldavChanges("user-1");
+
+    expect(result.deleted).toBe(0);
+    expect(updateCaldavSyncStatus).toHaveBeenCalledWith("status-1", { errorMessage: "db down" });
+    expect(updateCaldavPullState).toHaveBeenCalledWith("user-1", null);
+  });
+
+  it("skips calendars whose ctag is unchanged", async () => {
+    client.getCalendarCtag.mockResolvedValue("ctag-1");
+
+    const result = await pullCaldavChanges("user-1");
+
+    expect(result.skipped).toBe(true);
+    expect(client.fetchEvents).not.toHaveBeenCalled();
+    expect(updateCaldavPullState).not.toHaveBeenCalled();
+  });
+});
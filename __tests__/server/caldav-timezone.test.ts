@@ -0,0 +1,168 @@
+// @vitest-environment node
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("@/server/caldav/client", () => ({ CalDavClient: vi.fn() }));
+vi.mock("@/server/db/repositories/caldav-config", () => ({}));
+vi.mock("@/server/db/repositories/caldav-sync-status", () => ({}));
+vi.mock("@/server/db/repositories/meal-slots", () => ({}));
+
+import {
+  buildVtimezone,
+  formatZonedDate,
+  getTimeZoneOffset,
+  isValidTimeZone,
+  zonedTimeToUtc,
+} from "@/server/caldav/timezone";
+import { buildIcs, parseIcsEvent } from "@/server/caldav/ics-helpers";
+import { getEventTimeRange } from "@/server/caldav/sync-manager";
+
+const SLOT_TIMES = {
+  breakfastTime: "07:00-08:00",
+  lunchTime: "12:00-13:00",
+  dinnerTime: "18:00-19:00",
+  snackTime: "15:00-15:30",
+};
+
+describe("timezone helpers", () => {
+  it("validates IANA zone names", () => {
+    expect(isValidTimeZone("Europe/Berlin")).toBe(true);
+    expect(isValidTimeZone("Mars/Olympus")).toBe(false);
+  });
+
+  it("reports the offset including DST", () => {
+    expect(getTimeZoneOffset(new Date("2026-01-15T12:00:00Z"), "Europe/Berlin")).toBe(60);
+    expect(getTimeZoneOffset(new Date("2026-07-15T12:00:00Z"), "Europe/Berlin")).toBe(120);
+    expect(getTimeZoneOffset(new Date("2026-07-15T12:00:00Z"), "America/New_York")).toBe(-240);
+  });
+
+  it("converts wall-clock times to UTC", () => {
+    expect(zonedTimeToUtc("2026-07-15", "18:00", "Europe/Berlin").toISOString()).toBe(
+      "2026-07-15T16:00:00.000Z"
+    );
+    expect(zonedTimeToUtc("2026-01-15", "18:00", "Europe/Berlin").toISOString()).toBe(
+      "2026-01-15T17:00:00.000Z"
+    );
+    expect(zonedTimeToUtc("2026-07-15", "18:00", "Asia/Kolkata").toISOString()).toBe(
+      "2026-07-15T12:30:00.000Z"
+    );
+    expect(zonedTimeToUtc("2026-07-15", "18:00").toISOString()).toBe("2026-07-15T18:00:00.000Z");
+  });
+
+  it("uses the local date of an instant", () => {
+    expect(formatZonedDate(new Date("2026-07-15T23:30:00Z"), "Europe/Berlin")).toBe("2026-07-16");
+    expect(formatZonedDate(new Date("2026-07-15T23:30:00Z"), "UTC")).toBe("2026-07-15");
+  });
+
+  it("describes DST transitions in a VTIMEZONE", () => {
+    const lines = buildVtimezone(
+      "Europe/Berlin",
+      new Date("2026-07-01T00:00:00Z"),
+      new Date("2026-07-02T00:00:00Z")
+    );
+
+    expect(lines[0]).toBe("BEGIN:VTIMEZONE");
+    expect(lines).toContain("TZID:Europe/Berlin");
+    expect(lines).toContain("DTSTART:20260329T020000");
+    expect(lines).toContain("TZOFFSETTO:+0200");
+    expect(lines).toContain("TZOFFSETTO:+0100");
+    expect(lines.at(-1)).toBe("END:VTIMEZONE");
+  });
+
+  it("uses a single observance for fixed-offset zones", () => {
+    const lines = buildVtimezone(
+      "Asia/Kolkata",
+      new Date("2026-07-01T00:00:00Z"),
+      new Date("2026-07-02T00:00:00Z")
+    );
+
+    expect(lines.filter((l) => l.startsWith("BEGIN:STANDARD"))).toHaveLength(1);
+    expect(lines).toContain("TZOFFSETFROM:+0530");
+  });
+});
+
+describe("getEventTimeRange", () => {
+  it("keeps slot times in UTC without a timezone", () => {
+    const { start, end } = getEventTimeRange("2026-07-15", "Dinner", SLOT_TIMES);
+
+    expect(start.toISOString()).toBe("2026-07-15T18:00:00.000Z");
+    expect(end.toISOString()).toBe("2026-07-15T19:00:00.000Z");
+  });
+
+  it("places slot times at local time across DST changes", () => {
+    const config = { ...SLOT_TIMES, timezone: "Europe/Berlin" };
+
+    expect(getEventTimeRange("2026-07-15", "Dinner", config).start.toISOString()).toBe(
+      "2026-07-15T16:00:00.000Z"
+    );
+    expect(getEventTimeRange("2026-11-15", "Dinner", config).start.toISOString()).toBe(
+      "2026-11-15T17:00:00.000Z"
+    );
+  });
+
+  it("uses the time range of household meal slots", () => {
+    const config = { ...SLOT_TIMES, customSlotTimes: { "Meal prep": "10:00-11:30" } };
+    const { start, end } = getEventTimeRange("2026-07-15", "Meal prep", config);
+
+    expect(start.toISOString()).toBe("2026-07-15T10:00:00.000Z");
+    expect(end.toISOString()).toBe("2026-07-15T11:30:00.000Z");
+  });
+
+  it("falls back to midday for slots without a time range", () => {
+    const { start } = getEventTimeRange("2026-07-15", "Deleted slot", SLOT_TIMES);
+
+    expect(start.toISOString()).toBe("2026-07-15T12:00:00.000Z");
+  });
+});
+
+describe("buildIcs", () => {
+  const event = {
+    uid: "uid-1",
+    summary: "Dinner",
+    start: new Date("2026-07-15T16:00:00Z"),
+    end: new Date("2026-07-15T17:00:00Z"),
+  };
+
+  it("writes UTC times without a timezone", () => {
+    const ics = buildIcs(event);
+
+    expect(ics).toContain("DTSTART:20260715T160000Z");
+    expect(ics).not.toContain("BEGIN:VTIMEZONE");
+  });
+
+  it("writes local times with TZID and a VTIMEZONE", () => {
+    const ics = buildIcs({ ...event, timeZone: "Europe/Berlin" });
+
+    expect(ics).toContain("DTSTART;TZID=Europe/Berlin:20260715T180000");
+    expect(ics).toContain("DTEND;TZID=Europe/Berlin:20260715T190000");
+    expect(ics.indexOf("BEGIN:VTIMEZONE")).toBeLessThan(ics.indexOf("BEGIN:VEVENT"));
+  });
+
+  it("round-trips through parseIcsEvent", () => {
+    const parsed = parseIcsEvent(buildIcs({ ...event, timeZone: "America/New_York" }));
+
+    expect(parsed?.start.toISOString()).toBe("2026-07-15T16:00:00.000Z");
+    expect(parsed?.end?.toISOString()).toBe("2026-07-15T17:00:00.000Z");
+  });
+});
+
+describe("parseIcsEvent", () => {
+  it("reads floating times in the default timezone", () => {
+    const ics = ["BEGIN:VEVENT", "UID:abc", "DTSTART:20260715T180000", "END:VEVENT"].join("\r\n");
+
+    expect(parseIcsEvent(ics, "Europe/Berlin")?.start.toISOString()).toBe(
+      "2026-07-15T16:00:00.000Z"
+    );
+    expect(parseIcsEvent(ics)?.start.toISOString()).toBe("2026-07-15T18:00:00.000Z");
+  });
+
+  it("falls back to UTC for unknown TZIDs", () => {
+    const ics = [
+      "BEGIN:VEVENT",
+      "UID:abc",
+      "DTSTART;TZID=Custom Zone:20260715T180000",
+      "END:VEVENT",
+    ].join("\r\n");
+
+    expect(parseIcsEvent(ics)?.start.toISOString()).toBe("2026-07-15T18:00:00.000Z");
+  });
+});
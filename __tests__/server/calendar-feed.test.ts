@@ -0,0 +1,199 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("@/server/db/repositories/caldav-config", () => ({
+  getCaldavConfigByUserId: vi.fn(),
+  getCaldavConfigDecrypted: vi.fn(),
+}));
+vi.mock("@/server/db/repositories/caldav-sync-status", () => ({}));
+vi.mock("@/server/db/repositories/planned-recipe", () => ({
+  listPlannedRecipesByUsersAndRange: vi.fn(),
+}));
+vi.mock("@/server/db/repositories/notes", () => ({
+  listNotesByUsersAndRange: vi.fn(),
+}));
+vi.mock("@/server/db/cached-household", () => ({
+  getCachedHouseholdForUser: vi.fn(),
+}));
+vi.mock("@/server/db/repositories/meal-slots", () => ({
+  listMealSlots: vi.fn(),
+}));
+
+import { getCaldavConfigByUserId } from "@/server/db/repositories/caldav-config";
+import { listPlannedRecipesByUsersAndRange } from "@/server/db/repositories/planned-recipe";
+import { listNotesByUsersAndRange } from "@/server/db/repositories/notes";
+import { getCachedHouseholdForUser } from "@/server/db/cached-household";
+import { listMealSlots } from "@/server/db/repositories/meal-slots";
+import { renderCalendarFeed, renderFeedItems } from "@/server/caldav/ics-feed";
+
+const SLOT_TIMES = {
+  breakfastTime: "07:00-08:00",
+  lunchTime: "12:00-13:00",
+  dinnerTime: "18:00-19:00",
+  snackTime: "15:00-15:30",
+  timezone: "UTC",
+};
+
+function createFeed(scope: "user" | "household") {
+  const now = new Date();
+
+  return {
+    id: "feed-1",
+    userId: "user-1",
+    scope,
+    token: "feed-token",
+    lastAccessedAt: null,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+describe("calendar feed", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(listPlannedRecipesByUsersAndRange).mockResolvedValue([]);
+    vi.mocked(listNotesByUsersAndRange).mockResolvedValue([]);
+    vi.mocked(getCaldavConfigByUserId).mockResolvedValue(null);
+    vi.mocked(getCachedHouseholdForUser).mockResolvedValue(null);
+    vi.mocked(listMealSlots).mockResolvedValue([]);
+  });
+
+  describe("renderFeedItems", () => {
+    it("renders one VEVENT per item at the slot times", () => {
+      const ics = renderFeedItems(
+        [
+          {
+            id: "p1",
+            itemType: "recipe",
+            title: "Pasta, al forno",
+            date: "2026-03-10",
+            slot: "Dinner",
+            recipeId: "r1",
+          },
+          { id: "n1", itemType: "note", title: "Leftovers", date: "2026-03-11", slot: "Lunch" },
+        ],
+        SLOT_TIMES,
+        "Norish"
+      );
+
+      expect(ics.startsWith("BEGIN:VCALENDAR\r\n")).toBe(true);
+      expect(ics).toContain("X-WR-CALNAME:Norish");
+      expect(ics.match(/BEGIN:VEVENT/g)).toHaveLength(2);
+      expect(ics).toContain("UID:norish-recipe-p1");
+      expect(ics).toContain("SUMMARY:Pasta\\, al forno");
+      expect(ics).toContain("DTSTART:20260310T180000Z");
+      expect(ics).toContain("URL:http://localhost:3000/recipes/r1");
+      expect(ics).toContain("UID:norish-note-n1");
+      expect(ics).toContain("DTSTART:20260311T120000Z");
+    });
+
+    it("writes events in the configured timezone", () => {
+      const ics = renderFeedItems(
+        [{ id: "p1", itemType: "recipe", title: "Soup", date: "2026-07-10", slot: "Dinner" }],
+        { ...SLOT_TIMES, timezone: "Europe/Berlin" },
+        "Norish"
+      );
+
+      expect(ics).toContain("X-WR-TIMEZONE:Europe/Berlin");
+      expect(ics.match(/BEGIN:VTIMEZONE/g)).toHaveLength(1);
+      expect(ics).toContain("DTSTART;TZID=Europe/Berlin:20260710T180000");
+    });
+
+    it("describes the planned servings of recipes", () => {
+      const ics = renderFeedItems(
+        [
+          {
+            id: "p1",
+            itemType: "recipe",
+            title: "Soup",
+            date: "2026-03-10",
+            slot: "Dinner",
+            servings: 6,
+          },
+          { id: "n1", itemType: "note", title: "Leftovers", date: "2026-03-11", slot: "Lunch" },
+        ],
+        SLOT_TIMES,
+        "Norish"
+      );
+
+      expect(ics.match(/DESCRIPTION:/g)).toHaveLength(1);
+      expect(ics).toContain("DESCRIPTION:Servings: 6");
+    });
+
+    it("renders an empty calendar without items", () => {
+      const ics = renderFeedItems([], SLOT_TIMES, "Norish");
+
+      expect(ics).toContain("BEGIN:VCALENDAR");
+      expect(ics).not.toContain("BEGIN:VEVENT");
+    });
+  });
+
+  describe("renderCalendarFeed", () => {
+    it("only includes the owner for personal feeds", async () => {
+      vi.mocked(getCachedHouseholdForUser).mockResolvedValue({
+        id: "h1",
+        name: "Home",
+        users: [{ id: "user-1" }, { id: "user-2" }],
+      } as any);
+
+      await renderCalendarFeed(createFeed("user"));
+
+      expect(vi.mocked(listPlannedRecipesByUsersAndRange).mock.calls[0][0]).toEqual(["user-1"]);
+    });
+
+    it("includes all household members for household feeds", async () => {
+      vi.mocked(getCachedHouseholdForUser).mockResolvedValue({
+        id: "h1",
+        name: "Home",
+        users: [{ id: "user-1" }, { id: "user-2" }],
+      } as any);
+
+      const ics = await renderCalendarFeed(createFeed("household"));
+
+      expect(vi.mocked(listNotesByUsersAndRange).mock.calls[0][0]).toEqual(["user-1", "user-2"]);
+      expect(ics).toContain("X-WR-CALNAME:Norish - Home");
+    });
+
+    it("uses the owner's CalDAV slot times when configured", async () => {
+      vi.mocked(getCaldavConfigByUserId).mockResolvedValue({
+        ...SLOT_TIMES,
+        dinnerTime: "19:30-20:30",
+      } as any);
+      vi.mocked(listPlannedRecipesByUsersAndRange).mockResolvedValue([
+        {
+          id: "p1",
+          userId: "user-1",
+          recipeId: "r1",
+          date: "2026-03-10",
+          slot: "Dinner",
+          recipeName: "Soup",
+        } as any,
+      ]);
+
+      const ics = await renderCalendarFeed(createFeed("user"));
+
+      expect(ics).toContain("DTSTART:20260310T193000Z");
+      expect(ics).toContain("SUMMARY:Soup");
+    });
+
+    it("uses the time range of household meal slots", async () => {
+      vi.mocked(listMealSlots).mockResolvedValue([
+        {
+          key: "Meal prep",
+          name: "Meal prep",
+          icon: "clock",
+          sortOrder: 0,
+          timeRange: "10:00-11:00",
+        },
+      ]);
+      vi.mocked(listNotesByUsersAndRange).mockResolvedValue([
+        { id: "n1", userId: "user-1", date: "2026-03-10", slot: "Meal prep", title: "Chop" } as any,
+      ]);
+
+      const ics = await renderCalendarFeed(createFeed("user"));
+
+      expect(ics).toContain("DTSTART:20260310T100000Z");
+      expect(ics).toContain("SUMMARY:Chop");
+    });
+  });
+});
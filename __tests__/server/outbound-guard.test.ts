@@ -0,0 +1,376 @@
+// @vitest-environment node
+import type { AddressInfo } from "net";
+
+import { lookup } from "dns/promises";
+import { createServer as createHttpServer, request } from "http";
+import { connect, createServer as createTcpServer, type Server } from "net";
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+import { getOutboundAllowlist } from "@/config/server-config-loader";
+import {
+  OutboundRequestError,
+  assertPublicUrl,
+  guardedFetch,
+  isAllowlisted,
+  isPrivateAddress,
+  readBodyWithLimit,
+  startGuardedProxy,
+  type GuardedProxy,
+} from "@/server/outbound-guard";
+
+vi.mock("dns/promises", () => ({
+  lookup: vi.fn(),
+}));
+
+// Keep the dispatcher options so tests can call its pinned DNS lookup
+vi.mock("undici", () => ({
+  Agent: vi.fn(function (this: { options: unknown }, options: unknown) {
+    this.options = options;
+  }),
+}));
+
+vi.mock("@/config/server-config-loader", () => ({
+  getOutboundAllowlist: vi.fn().mockResolvedValue([]),
+}));
+
+vi.mock("@/server/logger", () => ({
+  serverLogger: {
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+function resolveTo(...addresses: string[]) {
+  vi.mocked(lookup).mockResolvedValue(
+    addresses.map((address) => ({ address, family: address.includes(":") ? 6 : 4 })) as never
+  );
+}
+
+type PinnedLookup = (
+  hostname: string,
+  options: { all?: boolean },
+  callback: (err: Error | null, address: unknown, family?: number) => void
+) => void;
+
+/** Run the pinned lookup of the dispatcher passed to the nth fetch call */
+function lookupVia(fetchMock: ReturnType<typeof vi.fn>, call: number, hostname: string) {
+  const { dispatcher } = fetchMock.mock.calls[call][1];
+  const pinnedLookup = dispatcher.options.connect.lookup as PinnedLookup;
+
+  return new Promise((resolve, reject) =>
+    pinnedLookup(hostname, { all: true }, (err, addresses) =>
+      err ? reject(err) : resolve(addresses)
+    )
+  );
+}
+
+function redirect(location: string): Response {
+  return new Response(null, { status: 302, headers: { location } });
+}
+
+describe("isPrivateAddress", () => {
+  it.each([
+    "127.0.0.1",
+    "10.1.2.3",
+    "172.16.0.1",
+    "172.31.255.255",
+    "192.168.1.10",
+    "169.254.169.254",
+    "100.64.0.1",
+    "0.0.0.0",
+    "::1",
+    "::",
+    "fd00::1",
+    "fe80::1",
+    "[::1]",
+  ])("blocks %s", (ip) => {
+    expect(isPrivateAddress(ip)).toBe(true);
+  });
+
+  it.each(["8.8.8.8", "172.32.0.1", "93.184.216.34", "2606:4700::1111"])("allows %s", (ip) => {
+    expect(isPrivateAddress(ip)).toBe(false);
+  });
+
+  it("checks the IPv4 address inside IPv4-mapped IPv6 addresses", () => {
+    expect(isPrivateAddress("::ffff:127.0.0.1")).toBe(true);
+    expect(isPrivateAddress("::ffff:7f00:1")).toBe(true);
+    expect(isPrivateAddress("::ffff:a9fe:a9fe")).toBe(true);
+    expect(isPrivateAddress("::ffff:8.8.8.8")).toBe(false);
+  });
+
+  it("treats anything that isn't an IP address as private", () => {
+    expect(isPrivateAddress("localhost")).toBe(true);
+  });
+});
+
+describe("isAllowlisted", () => {
+  it("matches hostnames case-insensitively", () => {
+    expect(isAllowlisted("NAS.lan", "192.168.1.5", ["nas.lan"])).toBe(true);
+    expect(isAllowlisted("other.lan", "192.168.1.5", ["nas.lan"])).toBe(false);
+  });
+
+  it("matches subdomains of wildcard entries", () => {
+    expect(isAllowlisted("nas.home.arpa", "192.168.1.5", ["*.home.arpa"])).toBe(true);
+    expect(isAllowlisted("home.arpa", "192.168.1.5", ["*.home.arpa"])).toBe(false);
+  });
+
+  it("matches IP addresses and CIDR ranges", () => {
+    expect(isAllowlisted("nas.lan", "192.168.1.5", ["192.168.1.5"])).toBe(true);
+    expect(isAllowlisted("nas.lan", "192.168.1.5", ["192.168.1.0/24"])).toBe(true);
+    expect(isAllowlisted("nas.lan", "192.168.2.5", ["192.168.1.0/24"])).toBe(false);
+    expect(isAllowlisted("nas.lan", "fd00::5", ["fd00::/8"])).toBe(true);
+    expect(isAllowlisted("nas.lan", "192.168.1.5", ["fd00::/8"])).toBe(false);
+  });
+});
+
+describe("assertPublicUrl", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getOutboundAllowlist).mockResolvedValue([]);
+  });
+
+  it("allows hosts that resolve to public addresses", async () => {
+    resolveTo("93.184.216.34");
+
+    const url = await assertPublicUrl("https://example.com/recipe");
+
+    expect(url.hostname).toBe("example.com");
+  });
+
+  it("rejects protocols other than http and https", async () => {
+    await expect(assertPublicUrl("file:///etc/passwd")).rejects.toThrow(OutboundRequestError);
+    await expect(assertPublicUrl("ftp://example.com")).rejects.toThrow(OutboundRequestError);
+  });
+
+  it("rejects literal private addresses without a DNS lookup", async () => {
+    await expect(assertPublicUrl("http://169.254.169.254/latest")).rejects.toThrow(
+      OutboundRequestError
+    );
+    await expect(assertPublicUrl("http://[::1]:3000/")).rejects.toThrow(OutboundRequestError);
+    expect(lookup).not.toHaveBeenCalled();
+  });
+
+  it("rejects hosts where any resolved address is private", async () => {
+    resolveTo("93.184.216.34", "10.0.0.1");
+
+    await expect(assertPublicUrl("http://rebind.example.com")).rejects.toThrow(
+      OutboundRequestError
+    );
+  });
+
+  it("rejects hosts that can't be resolved", async () => {
+    vi.mocked(lookup).mockRejectedValue(new Error("ENOTFOUND"));
+
+    await expect(assertPublicUrl("http://nope.invalid")).rejects.toThrow(
+      "Could not resolve host: nope.invalid"
+    );
+  });
+
+  it("allows private hosts on the allowlist", async () => {
+    resolveTo("192.168.1.5");
+    vi.mocked(getOutboundAllowlist).mockResolvedValue(["nas.lan"]);
+
+    await expect(assertPublicUrl("http://nas.lan/recipe")).resolves.toBeInstanceOf(URL);
+  });
+});
+
+describe("guardedFetch", () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    vi.mocked(getOutboundAllowlist).mockResolvedValue([]);
+    fetchMock.mockReset();
+    vi.stubGlobal("fetch", fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("follows redirects to public hosts", async () => {
+    resolveTo("93.184.216.34");
+    fetchMock
+      .mockResolvedValueOnce(redirect("/images/photo.jpg"))
+      .mockResolvedValueOnce(new Response("ok", { status: 200 }));
+
+    const response = await guardedFetch("https://example.com/photo");
+
+    expect(response.status).toBe(200);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(String(fetchMock.mock.calls[1][0])).toBe("https://example.com/images/photo.jpg");
+    expect(fetchMock.mock.calls[0][1]).toMatchObject({ redirect: "manual" });
+  });
+
+  it("returns redirects to the caller in manual mode", async () => {
+    resolveTo("93.184.216.34");
+    fetchMock.mockResolvedValueOnce(redirect("http://127.0.0.1:3000/admin"));
+
+    const response = await guardedFetch("https://example.com/photo", { redirect: "manual" });
+
+    expect(response.status).toBe(302);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("refuses redirects into private addresses", async () => {
+    resolveTo("93.184.216.34");
+    fetchMock.mockResolvedValueOnce(redirect("http://127.0.0.1:3000/admin"));
+
+    await expect(guardedFetch("https://example.com/photo")).rejects.toThrow(OutboundRequestError);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("gives up after too many redirects", async () => {
+    resolveTo("93.184.216.34");
+    fetchMock.mockImplementation(async () => redirect("https://example.com/loop"));
+
+    await expect(guardedFetch("https://example.com/loop")).rejects.toThrow("Too many redirects");
+  });
+
+  it("connects to the checked addresses even if DNS changes afterwards", async () => {
+    vi.mocked(lookup).mockClear();
+    resolveTo("93.184.216.34");
+    fetchMock.mockImplementation(async () => {
+      // The hostname now points somewhere private (DNS rebinding)
+      resolveTo("127.0.0.1");
+
+      return new Response("ok", { status: 200 });
+    });
+
+    await guardedFetch("https://example.com/photo");
+
+    await expect(lookupVia(fetchMock, 0, "example.com")).resolves.toEqual([
+      { address: "93.184.216.34", family: 4 },
+    ]);
+    expect(lookup).toHaveBeenCalledTimes(1);
+  });
+
+  it("refuses to connect to hosts that were not checked", async () => {
+    resolveTo("93.184.216.34");
+    fetchMock.mockResolvedValueOnce(new Response("ok", { status: 200 }));
+
+    await guardedFetch("https://example.com/photo");
+
+    await expect(lookupVia(fetchMock, 0, "internal.example.com")).rejects.toThrow(
+      OutboundRequestError
+    );
+  });
+});
+
+/** Send a CONNECT through the proxy and return the status line and what the tunnel echoes */
+function tunnel(proxy: GuardedProxy, target: string): Promise<string> {
+  const { port } = new URL(proxy.url);
+
+  return new Promise((resolve, reject) => {
+    const socket = connect(Number(port), "127.0.0.1", () => {
+      socket.write(`CONNECT ${target} HTTP/1.1\r\nHost: ${target}\r\n\r\n`);
+    });
+    let received = "";
+
+    socket.on("data", (chunk) => {
+      received += chunk.toString();
+
+      if (received.startsWith("HTTP/1.1 200") && !received.endsWith("ping")) {
+        socket.write("ping");
+      } else {
+        socket.end();
+      }
+    });
+    socket.on("close", () => resolve(received));
+    socket.on("error", reject);
+  });
+}
+
+/** Send a plain HTTP request through the proxy */
+function proxiedGet(proxy: GuardedProxy, url: string): Promise<{ status: number; body: string }> {
+  const { port } = new URL(proxy.url);
+
+  return new Promise((resolve, reject) => {
+    request({ host: "127.0.0.1", port: Number(port), path: url }, (res) => {
+      let body = "";
+
+      res.on("data", (chunk) => (body += chunk));
+      res.on("end", () => resolve({ status: res.statusCode ?? 0, body }));
+    })
+      .on("error", reject)
+      .end();
+  });
+}
+
+describe("startGuardedProxy", () => {
+  let proxy: GuardedProxy;
+  let echo: Server;
+  let echoPort: number;
+
+  beforeEach(async () => {
+    vi.mocked(getOutboundAllowlist).mockResolvedValue([]);
+    proxy = await startGuardedProxy();
+    echo = createTcpServer((socket) => socket.pipe(socket));
+    await new Promise<void>((resolve) => echo.listen(0, "127.0.0.1", resolve));
+    echoPort = (echo.address() as AddressInfo).port;
+  });
+
+  afterEach(async () => {
+    await proxy.close();
+    await new Promise((resolve) => echo.close(resolve));
+  });
+
+  it("refuses tunnels to private addresses", async () => {
+    resolveTo("127.0.0.1");
+
+    const received = await tunnel(proxy, `video.example.com:${echoPort}`);
+
+    expect(received).toContain("403");
+  });
+
+  it("tunnels to allowlisted hosts through the checked address", async () => {
+    vi.mocked(getOutboundAllowlist).mockResolvedValue(["video.example.com"]);
+    resolveTo("127.0.0.1");
+
+    const received = await tunnel(proxy, `video.example.com:${echoPort}`);
+
+    expect(received).toBe("HTTP/1.1 200 Connection Established\r\n\r\nping");
+  });
+
+  it("checks plain HTTP requests the same way", async () => {
+    const web = createHttpServer((req, res) => res.end(`served ${req.url}`));
+
+    await new Promise<void>((resolve) => web.listen(0, "127.0.0.1", resolve));
+    const webPort = (web.address() as AddressInfo).port;
+
+    try {
+      resolveTo("127.0.0.1");
+      const blocked = await proxiedGet(proxy, `http://video.example.com:${webPort}/clip`);
+
+      vi.mocked(getOutboundAllowlist).mockResolvedValue(["video.example.com"]);
+      const allowed = await proxiedGet(proxy, `http://video.example.com:${webPort}/clip`);
+
+      expect(blocked.status).toBe(403);
+      expect(allowed).toEqual({ status: 200, body: "served /clip" });
+    } finally {
+      await new Promise((resolve) => web.close(resolve));
+    }
+  });
+});
+
+describe("readBodyWithLimit", () => {
+  it("returns bodies within the limit", async () => {
+    const body = await readBodyWithLimit(new Response("hello"), 10);
+
+    expect(body.toString()).toBe("hello");
+  });
+
+  it("rejects a content-length over the limit before reading", async () => {
+    const response = new Response("hello", { headers: { "content-length": "5000" } });
+
+    await expect(readBodyWithLimit(response, 1000)).rejects.toThrow("Response too large");
+  });
+
+  it("stops reading once the body grows past the limit", async () => {
+    await expect(readBodyWithLimit(new Response("x".repeat(2000)), 1000)).rejects.toThrow(
+      OutboundRequestError
+    );
+  });
+});
@@ -0,0 +1,115 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("@/server/playwright", () => ({
+  getBrowser: vi.fn(),
+}));
+
+vi.mock("@/server/outbound-guard", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/server/outbound-guard")>()),
+  assertPublicUrl: vi.fn(),
+  guardedFetch: vi.fn(),
+}));
+
+vi.mock("@/server/logger", () => ({
+  parserLogger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+import { fetchViaPlaywright } from "@/server/parser/fetch";
+import { getBrowser } from "@/server/playwright";
+import { OutboundRequestError, guardedFetch } from "@/server/outbound-guard";
+
+type RouteHandler = (route: unknown) => Promise<void>;
+
+function createRoute(url: string) {
+  return {
+    request: () => ({
+      url: () => url,
+      method: () => "GET",
+      allHeaders: async () => ({ accept: "text/html", host: "recipes.example.com" }),
+      postDataBuffer: () => null,
+    }),
+    continue: vi.fn(),
+    fulfill: vi.fn(),
+    abort: vi.fn(),
+  };
+}
+
+/** Load a page in a fake browser whose navigation goes through the installed route handler */
+async function loadThroughRoute(url: string) {
+  const route = createRoute(url);
+  let handler: RouteHandler | undefined;
+
+  const page = {
+    goto: vi.fn(async () => handler?.(route)),
+    waitForLoadState: vi.fn().mockResolvedValue(undefined),
+    title: vi.fn().mockResolvedValue("Recipe"),
+    locator: () => ({
+      count: vi.fn().mockResolvedValue(0),
+      first: () => ({ waitFor: vi.fn().mockResolvedValue(undefined) }),
+    }),
+    content: vi.fn().mockResolvedValue("<html></html>"),
+  };
+  const context = {
+    route: vi.fn(async (_pattern: string, h: RouteHandler) => {
+      handler = h;
+    }),
+    routeWebSocket: vi.fn(),
+    newPage: vi.fn().mockResolvedValue(page),
+    close: vi.fn().mockResolvedValue(undefined),
+  };
+
+  vi.mocked(getBrowser).mockResolvedValue({
+    newContext: vi.fn().mockResolvedValue(context),
+  } as any);
+
+  await fetchViaPlaywright(url);
+
+  return route;
+}
+
+describe("fetchViaPlaywright", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("makes the browser's requests with the guarded client", async () => {
+    vi.mocked(guardedFetch).mockResolvedValue(
+      new Response("<html>recipe</html>", {
+        status: 200,
+        headers: { "content-type": "text/html", "content-encoding": "gzip" },
+      })
+    );
+
+    const route = await loadThroughRoute("https://recipes.example.com/pasta");
+
+    expect(guardedFetch).toHaveBeenCalledWith("https://recipes.example.com/pasta", {
+      method: "GET",
+      headers: { accept: "text/html" },
+      body: null,
+      redirect: "manual",
+    });
+    expect(route.fulfill).toHaveBeenCalledWith({
+      status: 200,
+      headers: { "content-type": "text/html" },
+      body: Buffer.from("<html>recipe</html>"),
+    });
+    expect(route.continue).not.toHaveBeenCalled();
+  });
+
+  it("blocks requests the guard refuses", async () => {
+    vi.mocked(guardedFetch).mockRejectedValue(
+      new OutboundRequestError("Requests to private addresses are not allowed: rebind.example")
+    );
+
+    const route = await loadThroughRoute("https://rebind.example/");
+
+    expect(route.abort).toHaveBeenCalledWith("blockedbyclient");
+    expect(route.fulfill).not.toHaveBeenCalled();
+  });
+});
@@ -337,13 +337,13 @@ describe("normalizeRecipeFromJson - HTML Entity Decoding", () => {
   });
 });
 
-describe("normalizeRecipeFromJson - HowToSection Heading Extraction", () => {
+describe("normalizeRecipeFromJson - HowToSection Extraction", () => {
   beforeEach(() => {
     vi.clearAllMocks();
   });
 
   describe("section name extraction", () => {
-    it("extracts HowToSection name as heading with # prefix", async () => {
+    it("extracts HowToSection name as the section of its steps", async () => {
       const json = {
         name: "Chocolate Cake",
         recipeIngredient: ["1 cup flour"],
@@ -362,13 +362,18 @@ describe("normalizeRecipeFromJson - HowToSection Heading Extraction", () => {
       const result = await normalizeRecipeFromJson(json);
 
       expect(result).not.toBeNull();
-      expect(result?.steps).toHaveLength(3);
-      expect(result?.steps?.[0]?.step).toBe("# For the cake");
-      expect(result?.steps?.[1]?.step).toBe("Mix dry ingredients");
-      expect(result?.steps?.[2]?.step).toBe("Add wet ingredients");
+      expect(result?.steps).toHaveLength(2);
+      expect(result?.steps?.[0]).toMatchObject({
+        step: "Mix dry ingredients",
+        section: "For the cake",
+      });
+      expect(result?.steps?.[1]).toMatchObject({
+        step: "Add wet ingredients",
+        section: "For the cake",
+      });
     });
 
-    it("handles multiple HowToSections with headings", async () => {
+    it("handles multiple HowToSections", async () => {
       const json = {
         name: "Layered Cake",
         recipeIngredient: ["flour", "sugar"],
@@ -394,16 +399,19 @@ describe("normalizeRecipeFromJson - HowToSection Heading Extraction", () => {
       const result = await normalizeRecipeFromJson(json);
 
       expect(result).not.toBeNull();
-      expect(result?.steps).toHaveLength(6);
-      expect(result?.steps?.[0]?.step).toBe("# For the cake");
-      expect(result?.steps?.[1]?.step).toBe("Bake the cake");
-      expect(result?.steps?.[2]?.step).toBe("# For the frosting");
-      expect(result?.steps?.[3]?.step).toBe("Make the frosting");
-      expect(result?.steps?.[4]?.step).toBe("# Assembly");
-      expect(result?.steps?.[5]?.step).toBe("Apply frosting to cake");
+      expect(result?.steps).toHaveLength(3);
+      expect(result?.steps?.[0]).toMatchObject({ step: "Bake the cake", section: "For the cake" });
+      expect(result?.steps?.[1]).toMatchObject({
+        step: "Make the frosting",
+        section: "For the frosting",
+      });
+      expect(result?.steps?.[2]).toMatchObject({
+        step: "Apply frosting to cake",
+        section: "Assembly",
+      });
     });
 
-    it("handles HowToSection without name (no heading emitted)", async () => {
+    it("handles HowToSection without name (no section assigned)", async () => {
       const json = {
         name: "Simple Recipe",
         recipeIngredient: ["1 cup flour"],
@@ -422,9 +430,8 @@ describe("normalizeRecipeFromJson - HowToSection Heading Extraction", () => {
 
       expect(result).not.toBeNull();
       expect(result?.steps).toHaveLength(2);
-      // No heading should be present since section has no name
-      expect(result?.steps?.[0]?.step).toBe("Step one");
-      expect(result?.steps?.[1]?.step).toBe("Step two");
+      expect(result?.steps?.[0]).toMatchObject({ step: "Step one", section: null });
+      expect(result?.steps?.[1]).toMatchObject({ step: "Step two", section: null });
     });
 
     it("handles mixed sections with and without names", async () => {
@@ -452,12 +459,10 @@ describe("normalizeRecipeFromJson - HowToSection Heading Extraction", () => {
       const result = await normalizeRecipeFromJson(json);
 
       expect(result).not.toBeNull();
-      expect(result?.steps).toHaveLength(5);
-      expect(result?.steps?.[0]?.step).toBe("# Preparation");
-      expect(result?.steps?.[1]?.step).toBe("Prep step");
-      expect(result?.steps?.[2]?.step).toBe("Unnamed section step");
-      expect(result?.steps?.[3]?.step).toBe("# Final Steps");
-      expect(result?.steps?.[4]?.step).toBe("Final step");
+      expect(result?.steps).toHaveLength(3);
+      expect(result?.steps?.[0]).toMatchObject({ step: "Prep step", section: "Preparation" });
+      expect(result?.steps?.[1]).toMatchObject({ step: "Unnamed section step", section: null });
+      expect(result?.steps?.[2]).toMatchObject({ step: "Final step", section: "Final Steps" });
     });
 
     it("decodes HTML entities in section names", async () => {
@@ -476,7 +481,7 @@ describe("normalizeRecipeFromJson - HowToSection Heading Extraction", () => {
       const result = await normalizeRecipeFromJson(json);
 
       expect(result).not.toBeNull();
-      expect(result?.steps?.[0]?.step).toBe("# For the crème brûlée");
+      expect(result?.steps?.[0]?.section).toBe("For the crème brûlée");
     });
 
     it("handles section name with special characters", async () => {
@@ -495,7 +500,7 @@ describe("normalizeRecipeFromJson - HowToSection Heading Extraction", () => {
       const result = await normalizeRecipeFromJson(json);
 
       expect(result).not.toBeNull();
-      expect(result?.steps?.[0]?.step).toBe("# Step 1: Mix & Combine");
+      expect(result?.steps?.[0]?.section).toBe("Step 1: Mix & Combine");
     });
   });
 
@@ -517,10 +522,9 @@ describe("normalizeRecipeFromJson - HowToSection Heading Extraction", () => {
       const result = await normalizeRecipeFromJson(json);
 
       expect(result).not.toBeNull();
-      expect(result?.steps).toHaveLength(3);
-      expect(result?.steps?.[0]?.step).toBe("# Main Section");
-      expect(result?.steps?.[1]?.step).toBe("First step");
-      expect(result?.steps?.[2]?.step).toBe("Second step");
+      expect(result?.steps).toHaveLength(2);
+      expect(result?.steps?.[0]).toMatchObject({ step: "First step", section: "Main Section" });
+      expect(result?.steps?.[1]).toMatchObject({ step: "Second step", section: "Main Section" });
     });
 
     it("handles HowToSection with mixed string and object steps", async () => {
@@ -543,11 +547,13 @@ describe("normalizeRecipeFromJson - HowToSection Heading Extraction", () => {
       const result = await normalizeRecipeFromJson(json);
 
       expect(result).not.toBeNull();
-      expect(result?.steps).toHaveLength(4);
-      expect(result?.steps?.[0]?.step).toBe("# Baking");
-      expect(result?.steps?.[1]?.step).toBe("Preheat oven");
-      expect(result?.steps?.[2]?.step).toBe("Mix ingredients");
-      expect(result?.steps?.[3]?.step).toBe("Bake for 30 minutes");
+      expect(result?.steps).toHaveLength(3);
+      expect(result?.steps?.map((s) => s.step)).toEqual([
+        "Preheat oven",
+        "Mix ingredients",
+        "Bake for 30 minutes",
+      ]);
+      expect(result?.steps?.every((s) => s.section === "Baking")).toBe(true);
     });
 
     it("handles case-insensitive @type matching for HowToSection", async () => {
@@ -571,9 +577,9 @@ describe("normalizeRecipeFromJson - HowToSection Heading Extraction", () => {
       const result = await normalizeRecipeFromJson(json);
 
       expect(result).not.toBeNull();
-      expect(result?.steps).toHaveLength(4);
-      expect(result?.steps?.[0]?.step).toBe("# Lowercase Section");
-      expect(result?.steps?.[2]?.step).toBe("# Uppercase Section");
+      expect(result?.steps).toHaveLength(2);
+      expect(result?.steps?.[0]?.section).toBe("Lowercase Section");
+      expect(result?.steps?.[1]?.section).toBe("Uppercase Section");
     });
 
     it("preserves step order across sections", async () => {
@@ -604,12 +610,12 @@ describe("normalizeRecipeFromJson - HowToSection Heading Extraction", () => {
 
       expect(result).not.toBeNull();
       // Verify order numbers are sequential
-      expect(result?.steps?.[0]?.order).toBe(1); // # Part 1
-      expect(result?.steps?.[1]?.order).toBe(2); // Step 1
-      expect(result?.steps?.[2]?.order).toBe(3); // Step 2
-      expect(result?.steps?.[3]?.order).toBe(4); // # Part 2
-      expect(result?.steps?.[4]?.order).toBe(5); // Step 3
-      expect(result?.steps?.[5]?.order).toBe(6); // Step 4
+      expect(result?.steps?.map((s) => [s.step, s.order, s.section])).toEqual([
+        ["Step 1", 1, "Part 1"],
+        ["Step 2", 2, "Part 1"],
+        ["Step 3", 3, "Part 2"],
+        ["Step 4", 4, "Part 2"],
+      ]);
     });
   });
 
@@ -630,9 +636,9 @@ describe("normalizeRecipeFromJson - HowToSection Heading Extraction", () => {
       const result = await normalizeRecipeFromJson(json);
 
       expect(result).not.toBeNull();
-      // Empty name should not produce a heading
+      // Empty name should not produce a section
       expect(result?.steps).toHaveLength(1);
-      expect(result?.steps?.[0]?.step).toBe("Step content");
+      expect(result?.steps?.[0]).toMatchObject({ step: "Step content", section: null });
     });
 
     it("handles whitespace-only section name", async () => {
@@ -651,9 +657,9 @@ describe("normalizeRecipeFromJson - HowToSection Heading Extraction", () => {
       const result = await normalizeRecipeFromJson(json);
 
       expect(result).not.toBeNull();
-      // Whitespace-only name should not produce a heading
+      // Whitespace-only name should not produce a section
       expect(result?.steps).toHaveLength(1);
-      expect(result?.steps?.[0]?.step).toBe("Step content");
+      expect(result?.steps?.[0]).toMatchObject({ step: "Step content", section: null });
     });
 
     it("handles section with empty itemListElement", async () => {
@@ -672,12 +678,11 @@ describe("normalizeRecipeFromJson - HowToSection Heading Extraction", () => {
       const result = await normalizeRecipeFromJson(json);
 
       expect(result).not.toBeNull();
-      // Should still include the heading even if no steps
-      expect(result?.steps).toHaveLength(1);
-      expect(result?.steps?.[0]?.step).toBe("# Empty Section");
+      // A section without steps leaves nothing behind
+      expect(result?.steps).toHaveLength(0);
     });
 
-    it("does not deduplicate repeated section headings", async () => {
+    it("keeps repeated section names on each section", async () => {
       const json = {
         name: "Repeated Sections Recipe",
         recipeIngredient: ["flour"],
@@ -698,14 +703,49 @@ describe("normalizeRecipeFromJson - HowToSection Heading Extraction", () => {
       const result = await normalizeRecipeFromJson(json);
 
       expect(result).not.toBeNull();
-      // Both headings should be preserved (not deduplicated)
-      expect(result?.steps).toHaveLength(4);
-      expect(result?.steps?.[0]?.step).toBe("# Repeat");
-      expect(result?.steps?.[2]?.step).toBe("# Repeat");
+      // Both sections should be preserved (not deduplicated)
+      expect(result?.steps).toHaveLength(2);
+      expect(result?.steps?.[0]).toMatchObject({ step: "Step A", section: "Repeat" });
+      expect(result?.steps?.[1]).toMatchObject({ step: "Step B", section: "Repeat" });
     });
   });
 });
 
+describe("normalizeRecipeFromJson - Ingredient Sections", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("turns group headers into the section of the ingredients below them", async () => {
+    const json = {
+      name: "Cinnamon Rolls",
+      recipeIngredient: ["For the dough:", "500 g flour", "1 egg", "# Glaze", "100 g sugar"],
+      recipeInstructions: ["Bake"],
+    };
+
+    const result = await normalizeRecipeFromJson(json);
+
+    expect(result?.recipeIngredients?.map((ri) => [ri.ingredientName, ri.section])).toEqual([
+      ["flour", "For the dough"],
+      ["egg", "For the dough"],
+      ["sugar", "Glaze"],
+    ]);
+    expect(result?.recipeIngredients?.map((ri) => ri.order)).toEqual([0, 1, 2]);
+  });
+
+  it("leaves ingredients without a header unsectioned", async () => {
+    const json = {
+      name: "Toast",
+      recipeIngredient: ["1 slice bread", "butter"],
+      recipeInstructions: ["Toast the bread"],
+    };
+
+    const result = await normalizeRecipeFromJson(json);
+
+    expect(result?.recipeIngredients?.every((ri) => ri.section === null)).toBe(true);
+  });
+});
+
 describe("normalizeRecipeFromJson - HowToStep Bold Name Extraction", () => {
   beforeEach(() => {
     vi.clearAllMocks();
@@ -883,10 +923,10 @@ describe("normalizeRecipeFromJson - HowToStep Bold Name Extraction", () => {
       const result = await normalizeRecipeFromJson(json);
 
       expect(result).not.toBeNull();
-      expect(result?.steps).toHaveLength(3);
-      expect(result?.steps?.[0]?.step).toBe("# Preparation");
-      expect(result?.steps?.[1]?.step).toBe("**Prep:** Gather all ingredients.");
-      expect(result?.steps?.[2]?.step).toBe("**Measure:** Measure out each ingredient.");
+      expect(result?.steps).toHaveLength(2);
+      expect(result?.steps?.[0]?.step).toBe("**Prep:** Gather all ingredients.");
+      expect(result?.steps?.[0]?.section).toBe("Preparation");
+      expect(result?.steps?.[1]?.step).toBe("**Measure:** Measure out each ingredient.");
     });
 
     it("handles mixed named and unnamed steps in sections", async () => {
@@ -920,11 +960,10 @@ describe("normalizeRecipeFromJson - HowToStep Bold Name Extraction", () => {
       const result = await normalizeRecipeFromJson(json);
 
       expect(result).not.toBeNull();
-      expect(result?.steps).toHaveLength(4);
-      expect(result?.steps?.[0]?.step).toBe("# Baking");
-      expect(result?.steps?.[1]?.step).toBe("**Preheat:** Heat oven to 350°F.");
-      expect(result?.steps?.[2]?.step).toBe("Mix dry ingredients.");
-      expect(result?.steps?.[3]?.step).toBe("**Bake:** Place in oven for 30 minutes.");
+      expect(result?.steps).toHaveLength(3);
+      expect(result?.steps?.[0]?.step).toBe("**Preheat:** Heat oven to 350°F.");
+      expect(result?.steps?.[1]?.step).toBe("Mix dry ingredients.");
+      expect(result?.steps?.[2]?.step).toBe("**Bake:** Place in oven for 30 minutes.");
     });
   });
 
@@ -1009,3 +1048,63 @@ describe("normalizeRecipeFromJson - HowToStep Bold Name Extraction", () => {
     });
   });
 });
+
+describe("normalizeRecipeFromJson - Step Ingredients", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("links steps to the ingredients named in them", async () => {
+    const json = {
+      name: "Pancakes",
+      recipeIngredient: ["200 g all-purpose flour", "2 eggs", "300 ml milk"],
+      recipeInstructions: ["Whisk the eggs with the milk", "Add 200 g flour", "Fry"],
+    };
+
+    const result = await normalizeRecipeFromJson(json);
+
+    expect(result?.steps?.map((s) => s.ingredientOrders)).toEqual([[1, 2], [0], []]);
+  });
+});
+
+describe("normalizeRecipeFromJson - Nutrition", () => {
+  it("parses the extended NutritionInformation fields", async () => {
+    const result = await normalizeRecipeFromJson({
+      name: "Test Recipe",
+      recipeIngredient: ["1 cup flour"],
+      recipeInstructions: ["Mix well"],
+      nutrition: {
+        "@type": "NutritionInformation",
+        calories: "320 kcal",
+        fatContent: "12 g",
+        saturatedFatContent: "4.5 g",
+        fiberContent: "3 g",
+        sugarContent: "18 g",
+        sodiumContent: "480 mg",
+        cholesterolContent: "35 mg",
+      },
+    });
+
+    expect(result).toMatchObject({
+      calories: 320,
+      fat: "12",
+      saturatedFat: "4.5",
+      fiber: "3",
+      sugar: "18",
+      sodium: "480",
+      cholesterol: "35",
+    });
+  });
+
+  it("converts sodium given in grams to milligrams", async () => {
+    const result = await normalizeRecipeFromJson({
+      name: "Test Recipe",
+      recipeIngredient: ["1 cup flour"],
+      recipeInstructions: ["Mix well"],
+      nutrition: { sodiumContent: "0.48 g", cholesterolContent: "0,035 grams" },
+    });
+
+    expect(result?.sodium).toBe("480");
+    expect(result?.cholesterol).toBe("35");
+  });
+});
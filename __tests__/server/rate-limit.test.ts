@@ -0,0 +1,152 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+import { getRateLimits } from "@/config/server-config-loader";
+import { getPublisherClient } from "@/server/redis/client";
+import { DEFAULT_RATE_LIMITS } from "@/server/db/zodSchemas/server-config";
+import { consumeRateLimit, enforceRateLimit, RateLimitExceededError } from "@/server/rate-limit";
+
+vi.mock("@/config/server-config-loader", () => ({
+  getRateLimits: vi.fn(),
+}));
+
+vi.mock("@/server/redis/client", () => ({
+  getPublisherClient: vi.fn(),
+}));
+
+vi.mock("@/server/logger", () => ({
+  serverLogger: {
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+/** In-memory stand-in for the INCR + PEXPIRE transaction */
+function createRedisMock() {
+  const counts = new Map<string, number>();
+  const expirations = new Map<string, number>();
+
+  const multi = () => {
+    let key = "";
+    const tx = {
+      incr: (k: string) => {
+        key = k;
+
+        return tx;
+      },
+      pexpire: (k: string, ms: number) => {
+        expirations.set(k, ms);
+
+        return tx;
+      },
+      exec: async () => {
+        const count = (counts.get(key) ?? 0) + 1;
+
+        counts.set(key, count);
+
+        return [
+          [null, count],
+          [null, 1],
+        ];
+      },
+    };
+
+    return tx;
+  };
+
+  return { client: { multi }, counts, expirations };
+}
+
+describe("rate limits", () => {
+  let redis: ReturnType<typeof createRedisMock>;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2025-03-03T10:15:00Z"));
+    redis = createRedisMock();
+    vi.mocked(getPublisherClient).mockResolvedValue(redis.client as never);
+    vi.mocked(getRateLimits).mockResolvedValue({
+      ...DEFAULT_RATE_LIMITS,
+      urlImport: { limit: 2, windowMinutes: 60 },
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe("consumeRateLimit", () => {
+    it("counts calls until the limit is reached", async () => {
+      const first = await consumeRateLimit("urlImport", "user-1");
+      const second = await consumeRateLimit("urlImport", "user-1");
+      const third = await consumeRateLimit("urlImport", "user-1");
+
+      expect(first).toMatchObject({ allowed: true, limit: 2, remaining: 1 });
+      expect(second).toMatchObject({ allowed: true, remaining: 0 });
+      expect(third).toMatchObject({ allowed: false, remaining: 0 });
+    });
+
+    it("reports the seconds left in the current window", async () => {
+      const result = await consumeRateLimit("urlImport", "user-1");
+
+      expect(result.retryAfterSeconds).toBe(45 * 60);
+    });
+
+    it("counts users and features separately", async () => {
+      await consumeRateLimit("urlImport", "user-1");
+      await consumeRateLimit("urlImport", "user-1");
+
+      expect((await consumeRateLimit("urlImport", "user-2")).allowed).toBe(true);
+      expect((await consumeRateLimit("pasteImport", "user-1")).allowed).toBe(true);
+    });
+
+    it("starts over in the next window", async () => {
+      await consumeRateLimit("urlImport", "user-1");
+      await consumeRateLimit("urlImport", "user-1");
+
+      vi.setSystemTime(new Date("2025-03-03T11:00:00Z"));
+
+      expect((await consumeRateLimit("urlImport", "user-1")).allowed).toBe(true);
+    });
+
+    it("expires counters with the window", async () => {
+      await consumeRateLimit("urlImport", "user-1");
+
+      expect(Array.from(redis.expirations.values())).toEqual([60 * 60 * 1000]);
+    });
+
+    it("skips Redis when the limit is 0", async () => {
+      vi.mocked(getRateLimits).mockResolvedValue({
+        ...DEFAULT_RATE_LIMITS,
+        urlImport: { limit: 0, windowMinutes: 60 },
+      });
+
+      const result = await consumeRateLimit("urlImport", "user-1");
+
+      expect(result.allowed).toBe(true);
+      expect(redis.counts.size).toBe(0);
+    });
+
+    it("lets calls through when Redis is unavailable", async () => {
+      vi.mocked(getPublisherClient).mockRejectedValue(new Error("ECONNREFUSED"));
+
+      const result = await consumeRateLimit("urlImport", "user-1");
+
+      expect(result.allowed).toBe(true);
+    });
+  });
+
+  describe("enforceRateLimit", () => {
+    it("throws a RateLimitExceededError once the limit is exceeded", async () => {
+      await enforceRateLimit("urlImport", "user-1");
+      await enforceRateLimit("urlImport", "user-1");
+
+      const error = await enforceRateLimit("urlImport", "user-1").catch((e) => e);
+
+      expect(error).toBeInstanceOf(RateLimitExceededError);
+      expect(error).toMatchObject({ feature: "urlImport", retryAfterSeconds: 45 * 60 });
+    });
+  });
+});
@@ -0,0 +1,162 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+import { createMockFullRecipe } from "../trpc/recipes/test-utils";
+
+const selectRows = vi.fn();
+const updateWhere = vi.fn();
+
+vi.mock("@/server/db/drizzle", () => {
+  const selectChain = {
+    from: () => selectChain,
+    where: () => selectChain,
+    orderBy: () => selectChain,
+    limit: () => selectRows(),
+  };
+  const updateChain = {
+    set: () => updateChain,
+    where: (...args: unknown[]) => updateWhere(...args),
+  };
+
+  return {
+    db: {
+      select: () => selectChain,
+      update: () => updateChain,
+    },
+  };
+});
+
+vi.mock("@/server/db/repositories/recipes", () => ({
+  getRecipeFull: vi.fn(),
+}));
+
+import { getRecipeFull } from "@/server/db/repositories/recipes";
+import {
+  generateShareToken,
+  getSharedRecipeByToken,
+  toSharedRecipe,
+} from "@/server/db/repositories/recipe-shares";
+
+const RECIPE_ID = "11111111-1111-4111-8111-111111111111";
+const TOKEN = "share-token";
+
+function createRecipe() {
+  return createMockFullRecipe({
+    id: RECIPE_ID,
+    image: `/recipes/${RECIPE_ID}/main.jpg`,
+    recipeIngredients: [],
+    steps: [
+      {
+        step: "Mix",
+        systemUsed: "metric",
+        order: 0,
+        images: [{ image: `/recipes/${RECIPE_ID}/steps/step-1.jpg`, order: 0 }],
+      },
+    ],
+    images: [
+      { image: `/recipes/${RECIPE_ID}/main.jpg`, order: 0 },
+      { image: "https://cdn.example.com/external.jpg", order: 1 },
+    ],
+    videos: [
+      {
+        video: `/recipes/${RECIPE_ID}/clip.mp4`,
+        thumbnail: `/recipes/${RECIPE_ID}/clip-thumb.jpg`,
+        duration: 12,
+        order: 2,
+      },
+    ],
+  });
+}
+
+describe("recipe shares", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe("generateShareToken", () => {
+    it("creates unique url-safe tokens", () => {
+      const a = generateShareToken();
+      const b = generateShareToken();
+
+      expect(a).toMatch(/^[A-Za-z0-9_-]{32}$/);
+      expect(a).not.toBe(b);
+    });
+  });
+
+  describe("toSharedRecipe", () => {
+    it("removes owner id and author details", () => {
+      const shared = toSharedRecipe(createRecipe(), TOKEN);
+
+      expect(shared).not.toHaveProperty("userId");
+      expect(shared).not.toHaveProperty("author");
+      expect(shared.name).toBe("Test Recipe");
+    });
+
+    it("points local media at the share route", () => {
+      const shared = toSharedRecipe(createRecipe(), TOKEN);
+
+      expect(shared.image).toBe(`/share/${TOKEN}/main.jpg`);
+      expect(shared.images[0].image).toBe(`/share/${TOKEN}/main.jpg`);
+      expect(shared.videos[0].video).toBe(`/share/${TOKEN}/clip.mp4`);
+      expect(shared.videos[0].thumbnail).toBe(`/share/${TOKEN}/clip-thumb.jpg`);
+      expect(shared.steps[0].images[0].image).toBe(`/share/${TOKEN}/steps/step-1.jpg`);
+    });
+
+    it("leaves external media urls untouched", () => {
+      const shared = toSharedRecipe(createRecipe(), TOKEN);
+
+      expect(shared.images[1].image).toBe("https://cdn.example.com/external.jpg");
+    });
+  });
+
+  describe("getSharedRecipeByToken", () => {
+    it("returns null for unknown, revoked or expired tokens", async () => {
+      selectRows.mockResolvedValue([]);
+
+      const result = await getSharedRecipeByToken(TOKEN);
+
+      expect(result).toBeNull();
+      expect(getRecipeFull).not.toHaveBeenCalled();
+      expect(updateWhere).not.toHaveBeenCalled();
+    });
+
+    it("returns null without counting a view when the recipe is gone", async () => {
+      selectRows.mockResolvedValue([createShareRow()]);
+      vi.mocked(getRecipeFull).mockResolvedValue(null);
+
+      const result = await getSharedRecipeByToken(TOKEN);
+
+      expect(result).toBeNull();
+      expect(updateWhere).not.toHaveBeenCalled();
+    });
+
+    it("counts the view and returns the public recipe", async () => {
+      selectRows.mockResolvedValue([createShareRow()]);
+      vi.mocked(getRecipeFull).mockResolvedValue(createRecipe());
+
+      const result = await getSharedRecipeByToken(TOKEN);
+
+      expect(getRecipeFull).toHaveBeenCalledWith(RECIPE_ID);
+      expect(updateWhere).toHaveBeenCalledTimes(1);
+      expect(result?.image).toBe(`/share/${TOKEN}/main.jpg`);
+      expect(result).not.toHaveProperty("author");
+    });
+  });
+});
+
+function createShareRow() {
+  const now = new Date();
+
+  return {
+    id: "22222222-2222-4222-8222-222222222222",
+    recipeId: RECIPE_ID,
+    userId: "test-user-id",
+    token: TOKEN,
+    expiresAt: null,
+    revokedAt: null,
+    viewCount: 0,
+    lastViewedAt: null,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
@@ -0,0 +1,84 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+vi.mock("@/config/server-config-loader", () => ({
+  getTrashRetentionDays: vi.fn(),
+}));
+
+vi.mock("@/server/db/repositories/recipes", () => ({
+  deleteRecipeById: vi.fn(),
+  listTrashedRecipeIdsBefore: vi.fn(),
+}));
+
+vi.mock("@/server/logger", () => ({
+  schedulerLogger: {
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+import { getTrashRetentionDays } from "@/config/server-config-loader";
+import { deleteRecipeById, listTrashedRecipeIdsBefore } from "@/server/db/repositories/recipes";
+import { purgeTrashedRecipes } from "@/server/scheduler/recipe-trash-cleanup";
+
+describe("purgeTrashedRecipes", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2025-06-30T00:00:00Z"));
+    vi.mocked(getTrashRetentionDays).mockResolvedValue(30);
+    vi.mocked(listTrashedRecipeIdsBefore).mockResolvedValue([]);
+    vi.mocked(deleteRecipeById).mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("looks up recipes trashed before the retention period", async () => {
+    await purgeTrashedRecipes();
+
+    expect(listTrashedRecipeIdsBefore).toHaveBeenCalledWith(new Date("2025-05-31T00:00:00Z"));
+  });
+
+  it("uses the configured retention days", async () => {
+    vi.mocked(getTrashRetentionDays).mockResolvedValue(7);
+
+    await purgeTrashedRecipes();
+
+    expect(listTrashedRecipeIdsBefore).toHaveBeenCalledWith(new Date("2025-06-23T00:00:00Z"));
+  });
+
+  it("permanently deletes every expired recipe", async () => {
+    vi.mocked(listTrashedRecipeIdsBefore).mockResolvedValue(["r1", "r2"]);
+
+    const result = await purgeTrashedRecipes();
+
+    expect(deleteRecipeById).toHaveBeenCalledWith("r1");
+    expect(deleteRecipeById).toHaveBeenCalledWith("r2");
+    expect(result).toEqual({ deleted: 2 });
+  });
+
+  it("keeps purging when one recipe fails", async () => {
+    vi.mocked(listTrashedRecipeIdsBefore).mockResolvedValue(["r1", "r2", "r3"]);
+    vi.mocked(deleteRecipeById).mockImplementation(async (id) => {
+      if (id === "r2") throw new Error("disk error");
+    });
+
+    const result = await purgeTrashedRecipes();
+
+    expect(deleteRecipeById).toHaveBeenCalledTimes(3);
+    expect(result).toEqual({ deleted: 2 });
+  });
+
+  it("returns zero when the lookup fails", async () => {
+    vi.mocked(listTrashedRecipeIdsBefore).mockRejectedValue(new Error("db down"));
+
+    const result = await purgeTrashedRecipes();
+
+    expect(deleteRecipeById).not.toHaveBeenCalled();
+    expect(result).toEqual({ deleted: 0 });
+  });
+});
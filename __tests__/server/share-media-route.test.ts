@@ -0,0 +1,59 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const getRecipeMedia = vi.fn();
+
+vi.mock("@/server/db", () => ({
+  getActiveRecipeShareByToken: vi.fn(),
+  isRecipeTrashed: vi.fn(),
+}));
+
+vi.mock("@/app/(app)/recipes/[id]/[filename]/route", () => ({
+  GET: (...args: unknown[]) => getRecipeMedia(...args),
+}));
+
+import { getActiveRecipeShareByToken, isRecipeTrashed } from "@/server/db";
+import { GET } from "@/app/(public)/share/[token]/[filename]/route";
+
+const RECIPE_ID = "11111111-1111-4111-8111-111111111111";
+
+function request() {
+  return GET(new Request("http://localhost/share/token/main.jpg"), {
+    params: Promise.resolve({ token: "token", filename: "main.jpg" }),
+  });
+}
+
+describe("shared recipe media route", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getActiveRecipeShareByToken).mockResolvedValue({ recipeId: RECIPE_ID } as any);
+    getRecipeMedia.mockResolvedValue(new Response("bytes"));
+  });
+
+  it("serves media of the shared recipe", async () => {
+    vi.mocked(isRecipeTrashed).mockResolvedValue(false);
+
+    const response = await request();
+
+    expect(response.status).toBe(200);
+    expect(isRecipeTrashed).toHaveBeenCalledWith(RECIPE_ID);
+  });
+
+  it("returns 404 when the shared recipe is in the trash", async () => {
+    vi.mocked(isRecipeTrashed).mockResolvedValue(true);
+
+    const response = await request();
+
+    expect(response.status).toBe(404);
+    expect(getRecipeMedia).not.toHaveBeenCalled();
+  });
+
+  it("returns 404 for unknown tokens", async () => {
+    vi.mocked(getActiveRecipeShareByToken).mockResolvedValue(null);
+
+    const response = await request();
+
+    expect(response.status).toBe(404);
+    expect(isRecipeTrashed).not.toHaveBeenCalled();
+  });
+});
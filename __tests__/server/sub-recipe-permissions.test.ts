@@ -0,0 +1,217 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const selectResults: unknown[][] = [];
+
+vi.mock("@/server/db/drizzle", () => {
+  const chain = {
+    from: () => chain,
+    leftJoin: () => chain,
+    where: () => chain,
+    orderBy: () => Promise.resolve(selectResults.shift() ?? []),
+  };
+
+  return { db: { select: () => chain } };
+});
+
+vi.mock("@/server/auth/permissions", () => ({
+  canAccessResource: vi.fn(
+    async (_action: string, userId: string, ownerId: string) => userId === ownerId
+  ),
+}));
+
+vi.mock("@/server/db/repositories/households", () => ({
+  getHouseholdMemberIds: vi.fn(async (userId: string) => [userId]),
+}));
+
+vi.mock("@/server/db/repositories/users", () => ({
+  isUserServerAdmin: vi.fn().mockResolvedValue(false),
+}));
+
+import { attachIngredientsToRecipeByInputTx } from "@/server/db/repositories/ingredients";
+import {
+  getExpandedRecipeIngredients,
+  getRecipeViewer,
+  getViewableRecipeIds,
+} from "@/server/db/repositories/sub-recipes";
+
+const RECIPE_ID = "11111111-1111-4111-8111-111111111111";
+const OWN_SAUCE_ID = "22222222-2222-4222-8222-222222222222";
+const PRIVATE_SAUCE_ID = "33333333-3333-4333-8333-333333333333";
+const ORPHAN_SAUCE_ID = "44444444-4444-4444-8444-444444444444";
+
+const viewer = { userId: "user-1", householdUserIds: ["user-1"], isServerAdmin: false };
+
+/** Transaction that answers selects in order and records inserted values */
+function createTx(results: unknown[][]) {
+  const inserted: unknown[][] = [];
+
+  const tx = {
+    select: () => {
+      const rows = results.shift() ?? [];
+      const chain = { from: () => chain, where: () => Promise.resolve(rows) };
+
+      return chain;
+    },
+    insert: () => ({
+      values: (values: unknown[]) => {
+        inserted.push(values);
+
+        return {
+          onConflictDoNothing: () =>
+            Object.assign(Promise.resolve(), {
+              returning: async () =>
+                values.map((value) => ({
+                  ...(value as object),
+                  id: crypto.randomUUID(),
+                  createdAt: new Date(),
+                  updatedAt: new Date(),
+                })),
+            }),
+        };
+      },
+    }),
+  };
+
+  return { tx, inserted };
+}
+
+function recipeRow(recipeId: string, ownerId: string | null, linkedRecipeId: string | null) {
+  return {
+    recipeId,
+    recipeName: `Recipe ${recipeId.slice(0, 4)}`,
+    ownerId,
+    servings: 1,
+    id: `${recipeId.slice(0, 8)}-ing`,
+    ingredientName: linkedRecipeId ? "Sauce" : "Tomato",
+    amount: "1",
+    unit: null,
+    linkedRecipeId,
+  };
+}
+
+describe("sub-recipe permissions", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    selectResults.length = 0;
+  });
+
+  describe("getViewableRecipeIds", () => {
+    it("keeps own and ownerless recipes and drops recipes the viewer cannot see", async () => {
+      const ids = await getViewableRecipeIds(viewer, [
+        { id: OWN_SAUCE_ID, userId: "user-1" },
+        { id: PRIVATE_SAUCE_ID, userId: "user-2" },
+        { id: ORPHAN_SAUCE_ID, userId: null },
+      ]);
+
+      expect(Array.from(ids)).toEqual([OWN_SAUCE_ID, ORPHAN_SAUCE_ID]);
+    });
+
+    it("only keeps ownerless recipes without a viewer", async () => {
+      const ids = await getViewableRecipeIds(null, [
+        { id: OWN_SAUCE_ID, userId: "user-1" },
+        { id: ORPHAN_SAUCE_ID, userId: null },
+      ]);
+
+      expect(Array.from(ids)).toEqual([ORPHAN_SAUCE_ID]);
+    });
+  });
+
+  describe("getRecipeViewer", () => {
+    it("returns null without a user", async () => {
+      expect(await getRecipeViewer(null)).toBeNull();
+    });
+
+    it("loads the household and admin flag of the user", async () => {
+      expect(await getRecipeViewer("user-1")).toEqual(viewer);
+    });
+  });
+
+  describe("saving links", () => {
+    it("drops links to recipes the user cannot view", async () => {
+      const { tx, inserted } = createTx([
+        [
+          { id: OWN_SAUCE_ID, userId: "user-1" },
+          { id: PRIVATE_SAUCE_ID, userId: "user-2" },
+        ],
+        [
+          {
+            id: "55555555-5555-4555-8555-555555555555",
+            name: "Own sauce",
+            foodCompositionId: null,
+            createdAt: new Date(),
+          },
+          {
+            id: "66666666-6666-4666-8666-666666666666",
+            name: "Secret sauce",
+            foodCompositionId: null,
+            createdAt: new Date(),
+          },
+        ],
+      ]);
+
+      await attachIngredientsToRecipeByInputTx(
+        tx,
+        [
+          {
+            recipeId: RECIPE_ID,
+            ingredientId: null,
+            ingredientName: `[Own sauce](id:${OWN_SAUCE_ID})`,
+            amount: 1,
+            unit: "",
+            order: 0,
+            systemUsed: "metric",
+          },
+          {
+            recipeId: RECIPE_ID,
+            ingredientId: null,
+            ingredientName: `[Secret sauce](id:${PRIVATE_SAUCE_ID})`,
+            amount: 1,
+            unit: "",
+            order: 1,
+            systemUsed: "metric",
+          },
+        ],
+        viewer
+      );
+
+      const rows = inserted.at(-1) as { linkedRecipeId: string | null }[];
+
+      expect(rows.map((row) => row.linkedRecipeId)).toEqual([OWN_SAUCE_ID, null]);
+    });
+  });
+
+  describe("reading sub-recipes", () => {
+    it("keeps links to recipes the viewer cannot see as plain lines", async () => {
+      selectResults.push(
+        [recipeRow(RECIPE_ID, "user-1", PRIVATE_SAUCE_ID)],
+        [recipeRow(PRIVATE_SAUCE_ID, "user-2", null)]
+      );
+
+      const expanded = await getExpandedRecipeIngredients(RECIPE_ID, viewer);
+
+      expect(expanded).toEqual([
+        expect.objectContaining({ ingredientName: "Sauce", linkedRecipeId: null }),
+      ]);
+    });
+
+    it("expands sub-recipes the viewer can see", async () => {
+      selectResults.push(
+        [recipeRow(RECIPE_ID, "user-1", OWN_SAUCE_ID)],
+        [recipeRow(OWN_SAUCE_ID, "user-1", null)]
+      );
+
+      const expanded = await getExpandedRecipeIngredients(RECIPE_ID, viewer);
+
+      expect(expanded).toEqual([
+        expect.objectContaining({ ingredientName: "Tomato", subRecipeName: "Recipe 2222" }),
+      ]);
+    });
+
+    it("returns null for a recipe the viewer cannot see", async () => {
+      selectResults.push([recipeRow(PRIVATE_SAUCE_ID, "user-2", null)]);
+
+      expect(await getExpandedRecipeIngredients(PRIVATE_SAUCE_ID, viewer)).toBeNull();
+    });
+  });
+});
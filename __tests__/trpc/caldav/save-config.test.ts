@@ -0,0 +1,102 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+import {
+  getCaldavConfigWithoutPassword,
+  getCaldavConfigDecrypted,
+  saveCaldavConfig,
+} from "../../mocks/caldav-config";
+import { syncAllFutureItems } from "../../mocks/caldav-calendar-sync";
+
+import {
+  createMockAuthedContext,
+  createMockCaldavConfig,
+  createMockCaldavConfigWithoutPassword,
+} from "./test-utils";
+
+import { caldavRouter } from "@/server/trpc/routers/caldav/procedures";
+
+// Run the real caldav router on a bare tRPC instance, without auth and logging middleware
+vi.mock("@/server/trpc/trpc", async () => {
+  const { initTRPC } = await import("@trpc/server");
+  const { default: superjson } = await import("superjson");
+  const t = initTRPC.context<ReturnType<typeof createMockAuthedContext>>().create({
+    transformer: superjson,
+  });
+
+  return { router: t.router, publicProcedure: t.procedure };
+});
+vi.mock("@/server/trpc/middleware", async () => ({
+  authedProcedure: (await import("@/server/trpc/trpc")).publicProcedure,
+}));
+vi.mock("@/server/db/repositories/caldav-config", () => import("../../mocks/caldav-config"));
+vi.mock(
+  "@/server/db/repositories/caldav-sync-status",
+  () => import("../../mocks/caldav-sync-status")
+);
+vi.mock("@/server/db/repositories/calendar-feeds", () => ({
+  deleteCalendarFeed: vi.fn(),
+  listCalendarFeeds: vi.fn(),
+  rotateCalendarFeedToken: vi.fn(),
+}));
+vi.mock("@/server/trpc/routers/caldav/emitter", () => import("../../mocks/caldav-emitter"));
+vi.mock("@/server/caldav/event-listener", () => import("../../mocks/caldav-calendar-sync"));
+vi.mock("@/server/caldav/client", () => ({
+  CalDavClient: vi.fn(),
+  testCalDavConnection: vi.fn(),
+}));
+vi.mock("@/server/logger", () => ({
+  createLogger: () => ({ info: vi.fn(), debug: vi.fn(), warn: vi.fn(), error: vi.fn() }),
+}));
+
+function createCaller() {
+  // The mocked tRPC instance only needs the authed user fields
+  return caldavRouter.createCaller(
+    createMockAuthedContext() as unknown as Parameters<typeof caldavRouter.createCaller>[0]
+  );
+}
+
+const input = {
+  serverUrl: "https://caldav.example.com",
+  username: "testuser",
+  password: "testpassword",
+  enabled: true,
+  breakfastTime: "08:00-09:00",
+  lunchTime: "12:00-13:00",
+  dinnerTime: "18:00-19:00",
+  snackTime: "15:00-15:30",
+};
+
+describe("caldav saveConfig", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    getCaldavConfigWithoutPassword.mockResolvedValue(createMockCaldavConfigWithoutPassword());
+  });
+
+  it("saves the selected timezone", async () => {
+    getCaldavConfigDecrypted.mockResolvedValue(null);
+
+    const caller = createCaller();
+
+    await caller.saveConfig({ ...input, timezone: "Europe/Amsterdam" });
+
+    expect(saveCaldavConfig).toHaveBeenCalledWith(
+      "test-user-id",
+      expect.objectContaining({ timezone: "Europe/Amsterdam" })
+    );
+  });
+
+  it("re-syncs future events when only the timezone changes", async () => {
+    getCaldavConfigDecrypted.mockResolvedValue(createMockCaldavConfig({ timezone: "UTC" }));
+
+    const caller = createCaller();
+
+    await caller.saveConfig({ ...input, password: "", timezone: "America/New_York" });
+
+    expect(saveCaldavConfig).toHaveBeenCalledWith(
+      "test-user-id",
+      expect.objectContaining({ password: "testpassword", timezone: "America/New_York" })
+    );
+    expect(syncAllFutureItems).toHaveBeenCalledWith("test-user-id");
+  });
+});
@@ -47,6 +47,7 @@ export function createMockCaldavConfig(
     lunchTime: string;
     dinnerTime: string;
     snackTime: string;
+    timezone: string;
   }> = {}
 ) {
   return {
@@ -59,6 +60,7 @@ export function createMockCaldavConfig(
     lunchTime: "12:00-13:00",
     dinnerTime: "18:00-19:00",
     snackTime: "15:00-15:30",
+    timezone: "UTC",
     createdAt: new Date(),
     updatedAt: new Date(),
     ...overrides,
@@ -78,6 +80,7 @@ export function createMockCaldavConfigWithoutPassword(
     lunchTime: string;
     dinnerTime: string;
     snackTime: string;
+    timezone: string;
   }> = {}
 ) {
   const { password: _password, ...rest } = createMockCaldavConfig(overrides);
@@ -100,6 +103,7 @@ export function createMockSyncStatus(
     eventTitle: "Test Recipe",
     syncStatus: "pending",
     caldavEventUid: null,
+    caldavEtag: null,
     retryCount: 0,
     errorMessage: null,
     lastSyncAt: null,
@@ -124,6 +128,7 @@ export function createMockSyncStatusView(
     eventTitle: "Test Recipe",
     syncStatus: "pending",
     caldavEventUid: null,
+    caldavEtag: null,
     retryCount: 0,
     errorMessage: null,
     lastSyncAt: null,
@@ -19,6 +19,7 @@ import {
   createPlannedRecipe,
   deletePlannedRecipe,
   updatePlannedRecipeDate,
+  updatePlannedRecipeServings,
   getPlannedRecipeOwnerId,
 } from "../../mocks/planned-recipes";
 import { assertHouseholdAccess } from "../../mocks/permissions";
@@ -121,6 +122,29 @@ function createTestCaller(ctx: ReturnType<typeof createMockAuthedContext>) {
           oldDate,
         });
 
+        return { success: true };
+      }),
+
+    updateRecipeServings: t.procedure
+      .input((v) => v as { id: string; date: string; servings: number | null })
+      .mutation(async ({ input }) => {
+        const { id, date, servings } = input;
+
+        const ownerId = await getPlannedRecipeOwnerId(id);
+
+        if (!ownerId) {
+          throw new Error("Planned recipe not found");
+        }
+
+        await assertHouseholdAccess(ctx.user.id, ownerId);
+
+        const plannedRecipe = await updatePlannedRecipeServings(id, servings);
+
+        calendarEmitter.emitToHousehold(ctx.householdKey, "recipeUpdated", {
+          plannedRecipe,
+          oldDate: date,
+        });
+
         return { success: true };
       }),
   });
@@ -350,4 +374,47 @@ describe("calendar planned recipes procedures", () => {
       expect(calendarEmitter.emitToHousehold).not.toHaveBeenCalled();
     });
   });
+
+  describe("updateRecipeServings", () => {
+    it("updates planned servings and emits event to household", async () => {
+      const updatedRecipe = createMockPlannedRecipe({
+        id: "pr-123",
+        date: "2025-01-15",
+        servings: 6,
+        recipeServings: 4,
+      });
+
+      getPlannedRecipeOwnerId.mockResolvedValue("test-user-id");
+      assertHouseholdAccess.mockResolvedValue(undefined);
+      updatePlannedRecipeServings.mockResolvedValue(updatedRecipe);
+
+      const caller = createTestCaller(ctx);
+      const result = await caller.updateRecipeServings({
+        id: "pr-123",
+        date: "2025-01-15",
+        servings: 6,
+      });
+
+      expect(updatePlannedRecipeServings).toHaveBeenCalledWith("pr-123", 6);
+      expect(calendarEmitter.emitToHousehold).toHaveBeenCalledWith(
+        ctx.householdKey,
+        "recipeUpdated",
+        { plannedRecipe: updatedRecipe, oldDate: "2025-01-15" }
+      );
+      expect(result).toEqual({ success: true });
+    });
+
+    it("throws error when user lacks permission", async () => {
+      getPlannedRecipeOwnerId.mockResolvedValue("other-user-id");
+      assertHouseholdAccess.mockRejectedValue(new Error("Access denied"));
+
+      const caller = createTestCaller(ctx);
+
+      await expect(
+        caller.updateRecipeServings({ id: "pr-123", date: "2025-01-15", servings: null })
+      ).rejects.toThrow("Access denied");
+
+      expect(updatePlannedRecipeServings).not.toHaveBeenCalled();
+    });
+  });
 });
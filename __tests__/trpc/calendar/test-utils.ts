@@ -76,6 +76,7 @@ export function createMockPlannedRecipe(
     date: "2025-01-15",
     slot: "Breakfast" as Slot,
     recipeName: "Test Recipe",
+    servings: null,
     ...overrides,
   };
 }
@@ -16,6 +16,7 @@ import {
   getRecipeOwnerId,
   createRecipeWithRefs,
   deleteRecipeById,
+  trashRecipeById,
   dashboardRecipe,
 } from "../../mocks/recipes-repository";
 import { canAccessResource } from "../../mocks/permissions";
@@ -314,10 +315,10 @@ describe("recipes procedures", () => {
   });
 
   describe("delete", () => {
-    it("deletes recipe when user has delete permission", async () => {
+    it("moves recipe to the trash when user has delete permission", async () => {
       getRecipeOwnerId.mockResolvedValue("test-user-id");
       canAccessResource.mockResolvedValue(true);
-      deleteRecipeById.mockResolvedValue(undefined);
+      trashRecipeById.mockResolvedValue(true);
 
       const testRouter = t.router({
         delete: t.procedure
@@ -339,7 +340,7 @@ describe("recipes procedures", () => {
               }
             }
 
-            await deleteRecipeById(input.id);
+            await trashRecipeById(input.id, ctx.user.id);
             recipeEmitter.emitToHousehold(ctx.householdKey, "deleted", { id: input.id });
 
             return { success: true };
@@ -357,7 +358,8 @@ describe("recipes procedures", () => {
         ctx.householdUserIds,
         ctx.isServerAdmin
       );
-      expect(deleteRecipeById).toHaveBeenCalledWith("r1");
+      expect(trashRecipeById).toHaveBeenCalledWith("r1", ctx.user.id);
+      expect(deleteRecipeById).not.toHaveBeenCalled();
       expect(recipeEmitter.emitToHousehold).toHaveBeenCalledWith(ctx.householdKey, "deleted", {
         id: "r1",
       });
@@ -388,7 +390,7 @@ describe("recipes procedures", () => {
               }
             }
 
-            await deleteRecipeById(input.id);
+            await trashRecipeById(input.id, ctx.user.id);
 
             return { success: true };
           }),
@@ -397,12 +399,12 @@ describe("recipes procedures", () => {
       const caller = t.createCallerFactory(testRouter)(ctx);
 
       await expect(caller.delete({ id: "r1" })).rejects.toThrow("FORBIDDEN");
-      expect(deleteRecipeById).not.toHaveBeenCalled();
+      expect(trashRecipeById).not.toHaveBeenCalled();
     });
 
     it("allows deleting orphaned recipe without permission check", async () => {
       getRecipeOwnerId.mockResolvedValue(null);
-      deleteRecipeById.mockResolvedValue(undefined);
+      trashRecipeById.mockResolvedValue(true);
 
       const testRouter = t.router({
         delete: t.procedure
@@ -424,7 +426,7 @@ describe("recipes procedures", () => {
               }
             }
 
-            await deleteRecipeById(input.id);
+            await trashRecipeById(input.id, ctx.user.id);
             recipeEmitter.emitToHousehold(ctx.householdKey, "deleted", { id: input.id });
 
             return { success: true };
@@ -435,7 +437,7 @@ describe("recipes procedures", () => {
       const result = await caller.delete({ id: "orphan-recipe" });
 
       expect(canAccessResource).not.toHaveBeenCalled();
-      expect(deleteRecipeById).toHaveBeenCalledWith("orphan-recipe");
+      expect(trashRecipeById).toHaveBeenCalledWith("orphan-recipe", ctx.user.id);
       expect(result).toEqual({ success: true });
     });
   });
@@ -104,6 +104,11 @@ export function createMockFullRecipe(overrides: Partial<FullRecipeDTO> = {}): Fu
     fat: null,
     carbs: null,
     protein: null,
+    fiber: null,
+    sugar: null,
+    saturatedFat: null,
+    sodium: null,
+    cholesterol: null,
     systemUsed: "metric",
     createdAt: now,
     updatedAt: now,
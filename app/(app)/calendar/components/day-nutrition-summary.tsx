@@ -0,0 +1,73 @@
+"use client";
+
+import type { FoodNutrient } from "@/lib/food-composition";
+import type { NutritionSummaryEntry, NutritionTargets } from "@/lib/nutrition-summary";
+
+import { useMemo } from "react";
+import { useLocale, useTranslations } from "next-intl";
+
+import { FOOD_NUTRIENTS, NUTRIENT_UNITS } from "@/lib/food-composition";
+import { targetProgress } from "@/lib/nutrition-summary";
+
+const ALWAYS_SHOWN: FoodNutrient[] = ["calories", "protein", "carbs", "fat"];
+
+/** Color of a value against its daily target: over it, close to it, or nothing to say */
+export function targetColor(progress: number | null): string {
+  if (progress === null) return "";
+  if (progress > 1.05) return "text-danger";
+  if (progress >= 0.9) return "text-success";
+
+  return "";
+}
+
+type Props = {
+  summary: NutritionSummaryEntry | undefined;
+  targets: NutritionTargets;
+};
+
+/** Planned nutrition of a day per person, next to the user's daily targets */
+export function DayNutritionSummary({ summary, targets }: Props) {
+  const t = useTranslations("calendar.nutrition");
+  const tNutrient = useTranslations("recipes.nutrition");
+  const locale = useLocale();
+  const number = useMemo(
+    () => new Intl.NumberFormat(locale, { maximumFractionDigits: 0 }),
+    [locale]
+  );
+
+  if (!summary) return null;
+
+  const shown = FOOD_NUTRIENTS.filter(
+    (key) => ALWAYS_SHOWN.includes(key) || targets[key] !== undefined
+  );
+
+  return (
+    <div
+      className="text-default-500 flex flex-wrap items-center gap-x-3 gap-y-1 text-xs"
+      title={t("perPersonHint", { total: number.format(summary.total.calories) })}
+    >
+      {summary.recipeCount > 0 &&
+        shown.map((key) => {
+          const value = summary.perPerson[key];
+          const target = targets[key];
+          const unit = NUTRIENT_UNITS[key];
+
+          return (
+            <span key={key} className={targetColor(targetProgress(value, target))}>
+              {key !== "calories" && `${tNutrient(key)} `}
+              {target !== undefined
+                ? t("ofTarget", {
+                    value: number.format(value),
+                    target: number.format(target),
+                    unit,
+                  })
+                : `${number.format(value)} ${unit}`}
+            </span>
+          );
+        })}
+      {summary.missingCount > 0 && (
+        <span className="text-warning">{t("missing", { count: summary.missingCount })}</span>
+      )}
+    </div>
+  );
+}
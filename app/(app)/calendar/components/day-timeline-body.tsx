@@ -13,15 +13,18 @@ import { PanInfo } from "motion/react";
 import { useTranslations } from "next-intl";
 
 import { DraggableCalendarItem } from "./draggable-calendar-item";
+import { PlannedServingsPopover } from "./planned-servings-popover";
 
 import { CalendarItemViewDto, CaldavItemType } from "@/types";
 import SwipeableRow, { SwipeableRowRef, SwipeAction } from "@/components/shared/swipable-row";
 import { MiniGroceries } from "@/components/Panel/consumers";
 import { MealIcon } from "@/lib/meal-icon";
+import { useMealSlotHelpers } from "@/hooks/meal-slots";
 
 type DayTimelineBodyProps = {
   items: CalendarItemViewDto[];
   onDelete: (id: string, itemType: CaldavItemType) => void;
+  onServingsChange: (id: string, servings: number | null) => void;
   onDragStart?: (itemId: string, currentDate: string) => void;
   onDragEnd?: (itemId: string, currentDate: string, info: PanInfo) => void;
   isDraggingAny: boolean;
@@ -30,19 +33,28 @@ type DayTimelineBodyProps = {
 export function DayTimelineBody({
   items,
   onDelete,
+  onServingsChange,
   onDragStart,
   onDragEnd,
   isDraggingAny,
 }: DayTimelineBodyProps) {
   const rowRefs = useRef<Record<string, SwipeableRowRef | null>>({});
   const [groceriesOpen, setGroceriesOpen] = useState(false);
-  const [currentRecipeId, setCurrentRecipeId] = useState<string | null>(null);
+  const [currentRecipe, setCurrentRecipe] = useState<{
+    recipeId: string;
+    servings?: number;
+    originalServings?: number;
+  } | null>(null);
   const t = useTranslations("calendar.timeline");
+  const { getSlotIcon } = useMealSlotHelpers();
 
-  const openGroceries = useCallback((recipeId: string) => {
-    setCurrentRecipeId(recipeId);
-    setGroceriesOpen(true);
-  }, []);
+  const openGroceries = useCallback(
+    (recipeId: string, servings?: number, originalServings?: number) => {
+      setCurrentRecipe({ recipeId, servings, originalServings });
+      setGroceriesOpen(true);
+    },
+    []
+  );
 
   const handleDragStart = useCallback(
     (itemId: string, currentDate: string) => {
@@ -53,8 +65,10 @@ export function DayTimelineBody({
     [onDragStart]
   );
 
-  const navigateToRecipe = useCallback((recipeId: string) => {
-    window.location.href = `/recipes/${recipeId}`;
+  const navigateToRecipe = useCallback((recipeId: string, servings?: number | null) => {
+    window.location.href = servings
+      ? `/recipes/${recipeId}?servings=${servings}`
+      : `/recipes/${recipeId}`;
   }, []);
 
   const getItemActions = useCallback(
@@ -64,12 +78,17 @@ export function DayTimelineBody({
 
       if (hasRecipe) {
         const recipeId = item.itemType === "recipe" ? item.recipeId : item.recipeId!;
+        // Planned servings only apply to planned recipes, not notes linking a recipe
+        const recipeServings =
+          item.itemType === "recipe" ? (item.recipeServings ?? undefined) : undefined;
+        const plannedServings =
+          item.itemType === "recipe" ? (item.servings ?? undefined) : undefined;
 
         actions.push({
           key: "groceries",
           icon: ShoppingBagIcon,
           color: "blue",
-          onPress: () => openGroceries(recipeId),
+          onPress: () => openGroceries(recipeId, plannedServings ?? recipeServings, recipeServings),
           label: t("viewGroceries"),
         });
 
@@ -77,7 +96,7 @@ export function DayTimelineBody({
           key: "recipe",
           icon: DocumentIcon,
           color: "yellow",
-          onPress: () => navigateToRecipe(recipeId),
+          onPress: () => navigateToRecipe(recipeId, plannedServings),
           label: t("goToRecipe"),
         });
       }
@@ -151,17 +170,26 @@ export function DayTimelineBody({
                           </PopoverContent>
                         </Popover>
                       ) : (
-                        <MealIcon slot={it.slot} />
+                        <MealIcon icon={getSlotIcon(it.slot)} slot={it.slot} />
                       )}
                       <span
                         className={`min-w-0 flex-1 truncate text-base ${it.itemType === "note" ? "text-default-600 italic" : "text-foreground"} ${it.itemType === "recipe" ? "hover:text-primary cursor-pointer" : ""}`}
                         title={displayName || undefined}
                         onDoubleClick={
-                          it.itemType === "recipe" ? () => navigateToRecipe(it.recipeId) : undefined
+                          it.itemType === "recipe"
+                            ? () => navigateToRecipe(it.recipeId, it.servings)
+                            : undefined
                         }
                       >
                         {displayName}
                       </span>
+                      {it.itemType === "recipe" && (
+                        <PlannedServingsPopover
+                          recipeServings={it.recipeServings}
+                          servings={it.servings}
+                          onChange={(servings) => onServingsChange(it.id, servings)}
+                        />
+                      )}
                     </div>
 
                     {/* Desktop trigger: opens swipe actions */}
@@ -186,10 +214,12 @@ export function DayTimelineBody({
           );
         })}
       </div>
-      {currentRecipeId && (
+      {currentRecipe && (
         <MiniGroceries
+          initialServings={currentRecipe.servings}
           open={groceriesOpen}
-          recipeId={currentRecipeId}
+          originalServings={currentRecipe.originalServings}
+          recipeId={currentRecipe.recipeId}
           onOpenChange={setGroceriesOpen}
         />
       )}
@@ -6,9 +6,13 @@ import { ChevronLeftIcon, ChevronRightIcon } from "@heroicons/react/20/solid";
 
 import { useCalendarContext } from "../context";
 
+import { targetColor } from "./day-nutrition-summary";
+
 import { endOfMonth, startOfMonth, dateKey } from "@/lib/helpers";
 import { PlannedRecipeViewDto } from "@/types";
+import { useMealSlotHelpers } from "@/hooks/meal-slots";
 import MonthlyCalendarSkeleton from "@/components/skeleton/monthly-calendar-skeleton";
+import { targetProgress, type WeekNutritionSummary } from "@/lib/nutrition-summary";
 
 type DayCell = {
   date: Date;
@@ -74,8 +78,18 @@ export default function MonthlyCalendar() {
     [locale]
   );
 
-  const { plannedItemsByDate, isLoading } = useCalendarContext();
-  const slotOrder = { Breakfast: 0, Lunch: 1, Dinner: 2, Snack: 3 };
+  const numberFormatter = useMemo(
+    () => new Intl.NumberFormat(locale, { maximumFractionDigits: 0 }),
+    [locale]
+  );
+  const dayFormatter = useMemo(
+    () => new Intl.DateTimeFormat(locale, { day: "numeric", month: "short" }),
+    [locale]
+  );
+
+  const { plannedItemsByDate, nutritionByDate, nutritionByWeek, nutritionTargets, isLoading } =
+    useCalendarContext();
+  const { getSlotOrder } = useMealSlotHelpers();
 
   const onPrevMonth = useCallback(() => setOffset((o) => Math.max(-1, o - 1)), []);
   const onNextMonth = useCallback(() => setOffset((o) => Math.min(1, o + 1)), []);
@@ -90,6 +104,23 @@ export default function MonthlyCalendar() {
     );
   };
 
+  // Calories per person planned for a day, null when nothing with nutrition is planned
+  const dayCalories = (d: Date): number | null => {
+    const nutrition = nutritionByDate[dateKey(d)];
+
+    return nutrition && nutrition.recipeCount > 0 ? nutrition.perPerson.calories : null;
+  };
+
+  // Rows of the grid in the viewed month that have planned nutrition; rows start on Monday
+  const weeks = Array.from({ length: days.length / 7 }, (_, row) =>
+    days.slice(row * 7, row * 7 + 7)
+  )
+    .filter((week) => week.some((d) => d.inCurrentMonth))
+    .map((week) => ({ date: week[0].date, summary: nutritionByWeek[dateKey(week[0].date)] }))
+    .filter((week): week is { date: Date; summary: WeekNutritionSummary } =>
+      Boolean(week.summary && week.summary.recipeCount > 0)
+    );
+
   if (isLoading) return <MonthlyCalendarSkeleton />;
 
   return (
@@ -129,44 +160,80 @@ export default function MonthlyCalendar() {
       </div>
 
       <div className="rounded-medium border-default-200 grid grid-cols-7 gap-1 overflow-hidden border">
-        {days.map((cell, idx) => (
-          <div
-            key={idx}
-            className={
-              "border-default-100 flex aspect-square min-h-20 cursor-pointer flex-col gap-1 p-2 " +
-              (idx >= 7 ? "border-t" : "") +
-              (idx % 7 !== 0 ? " border-l" : "") +
-              (cell.inCurrentMonth ? " bg-content1" : " bg-default-50 text-default-400")
-            }
-          >
-            <div className="flex items-center justify-between">
-              <span
-                className={
-                  "flex h-6 w-6 items-center justify-center rounded-full text-sm font-medium " +
-                  (isToday(cell.date) ? " bg-primary/10 text-primary border-primary/30 border" : "")
-                }
-              >
-                {cell.date.getDate()}
-              </span>
-            </div>
-            <div className="mt-1 flex flex-wrap gap-1">
-              {(plannedItemsByDate[dateKey(cell.date)] ?? [])
-                .sort((a, b) => slotOrder[a.slot] - slotOrder[b.slot])
-                .map((it) => {
-                  const title = it.itemType === "recipe" ? (it.recipeName ?? "") : it.title;
-
-                  return (
-                    <span
-                      key={it.id}
-                      className="bg-primary inline-block h-1.5 w-1.5 rounded-full"
-                      title={title}
-                    />
-                  );
-                })}
+        {days.map((cell, idx) => {
+          const calories = dayCalories(cell.date);
+
+          return (
+            <div
+              key={idx}
+              className={
+                "border-default-100 flex aspect-square min-h-20 cursor-pointer flex-col gap-1 p-2 " +
+                (idx >= 7 ? "border-t" : "") +
+                (idx % 7 !== 0 ? " border-l" : "") +
+                (cell.inCurrentMonth ? " bg-content1" : " bg-default-50 text-default-400")
+              }
+            >
+              <div className="flex items-center justify-between">
+                <span
+                  className={
+                    "flex h-6 w-6 items-center justify-center rounded-full text-sm font-medium " +
+                    (isToday(cell.date)
+                      ? " bg-primary/10 text-primary border-primary/30 border"
+                      : "")
+                  }
+                >
+                  {cell.date.getDate()}
+                </span>
+              </div>
+              <div className="mt-1 flex flex-wrap gap-1">
+                {(plannedItemsByDate[dateKey(cell.date)] ?? [])
+                  .sort((a, b) => getSlotOrder(a.slot) - getSlotOrder(b.slot))
+                  .map((it) => {
+                    const title = it.itemType === "recipe" ? (it.recipeName ?? "") : it.title;
+
+                    return (
+                      <span
+                        key={it.id}
+                        className="bg-primary inline-block h-1.5 w-1.5 rounded-full"
+                        title={title}
+                      />
+                    );
+                  })}
+              </div>
+              {calories !== null && (
+                <span
+                  className={
+                    "mt-auto text-xs tabular-nums " +
+                    (targetColor(targetProgress(calories, nutritionTargets.calories)) ||
+                      "text-default-500")
+                  }
+                >
+                  {numberFormatter.format(calories)} kcal
+                </span>
+              )}
             </div>
-          </div>
-        ))}
+          );
+        })}
       </div>
+
+      {weeks.length > 0 && (
+        <div className="flex flex-col gap-1">
+          <h3 className="text-default-700 text-sm font-semibold">{t("nutrition.weekly")}</h3>
+          <ul className="text-default-500 flex flex-col gap-0.5 text-xs">
+            {weeks.map(({ date, summary }) => (
+              <li key={dateKey(date)} className="flex justify-between gap-2">
+                <span>{t("nutrition.weekOf", { date: dayFormatter.format(date) })}</span>
+                <span className="tabular-nums">
+                  {t("nutrition.weekTotals", {
+                    total: numberFormatter.format(summary.perPerson.calories),
+                    average: numberFormatter.format(summary.dailyAverage.calories),
+                  })}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
     </div>
   );
 }
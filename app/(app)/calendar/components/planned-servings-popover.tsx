@@ -0,0 +1,80 @@
+"use client";
+
+import { MinusIcon, PlusIcon, UserGroupIcon } from "@heroicons/react/16/solid";
+import { Button, Popover, PopoverTrigger, PopoverContent } from "@heroui/react";
+import { useTranslations } from "next-intl";
+
+const MAX_SERVINGS = 999;
+
+type PlannedServingsPopoverProps = {
+  servings: number | null;
+  recipeServings?: number | null;
+  onChange: (servings: number | null) => void;
+};
+
+export function PlannedServingsPopover({
+  servings,
+  recipeServings,
+  onChange,
+}: PlannedServingsPopoverProps) {
+  const t = useTranslations("calendar.timeline");
+  const effective = servings ?? recipeServings ?? null;
+
+  // Nothing to scale without servings on either the plan or the recipe
+  if (effective === null) return null;
+
+  const isOverridden = servings !== null && servings !== recipeServings;
+
+  // Setting the recipe's own servings clears the override
+  const update = (next: number) => onChange(next === recipeServings ? null : next);
+
+  return (
+    <Popover placement="top">
+      <PopoverTrigger>
+        <button
+          aria-label={t("servingsLabel", { count: effective })}
+          className={`flex flex-shrink-0 items-center gap-1 rounded-full px-2 py-0.5 text-xs ${isOverridden ? "bg-primary-100 text-primary" : "text-default-500"}`}
+          type="button"
+        >
+          <UserGroupIcon className="h-3.5 w-3.5" />
+          {effective}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent>
+        <div className="flex flex-col items-center gap-2 p-2">
+          <span className="text-sm font-medium">{t("servings")}</span>
+          <div className="inline-flex items-center gap-2">
+            <Button
+              isIconOnly
+              aria-label={t("decreaseServings")}
+              className="bg-content2"
+              isDisabled={effective <= 1}
+              size="sm"
+              variant="flat"
+              onPress={() => update(effective - 1)}
+            >
+              <MinusIcon className="h-4 w-4" />
+            </Button>
+            <span className="min-w-8 text-center text-sm">{effective}</span>
+            <Button
+              isIconOnly
+              aria-label={t("increaseServings")}
+              className="bg-content2"
+              isDisabled={effective >= MAX_SERVINGS}
+              size="sm"
+              variant="flat"
+              onPress={() => update(effective + 1)}
+            >
+              <PlusIcon className="h-4 w-4" />
+            </Button>
+          </div>
+          {isOverridden && (
+            <Button size="sm" variant="light" onPress={() => onChange(null)}>
+              {t("resetServings")}
+            </Button>
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -9,18 +9,27 @@ import { useLocale } from "next-intl";
 import { useCalendarContext } from "../context";
 
 import { CalendarDayDropZone } from "./calendar-day-drop-zone";
+import { DayNutritionSummary } from "./day-nutrition-summary";
 
 import { startOfMonth, addMonths, endOfMonth, eachDayOfInterval, dateKey } from "@/lib/helpers";
 import { DayTimelineBody } from "@/app/(app)/calendar/components/day-timeline-body";
 import { DayTimelineHeader } from "@/app/(app)/calendar/components/day-timeline-header";
 import DayTimelineSkeleton from "@/components/skeleton/day-timeline-skeleton";
-
-const SLOT_ORDER: Record<string, number> = { Breakfast: 0, Lunch: 1, Dinner: 2, Snack: 3 };
+import { useMealSlotHelpers } from "@/hooks/meal-slots";
 
 export function useDayTimelineShared() {
   const locale = useLocale();
   const today = useMemo(() => new Date(), []);
-  const { plannedItemsByDate, isLoading, deletePlanned, updateItemDate } = useCalendarContext();
+  const {
+    plannedItemsByDate,
+    nutritionByDate,
+    nutritionTargets,
+    isLoading,
+    deletePlanned,
+    updateItemDate,
+    updateRecipeServings,
+  } = useCalendarContext();
+  const { getSlotOrder } = useMealSlotHelpers();
 
   const [todayVisible, setTodayVisible] = useState(true);
   const [arrowDir, setArrowDir] = useState<"up" | "down">("up");
@@ -77,7 +86,7 @@ export function useDayTimelineShared() {
   const renderDayContent = useCallback(
     (d: Date) => {
       const items = (plannedItemsByDate[dateKey(d)] ?? []).sort(
-        (a, b) => SLOT_ORDER[a.slot] - SLOT_ORDER[b.slot]
+        (a, b) => getSlotOrder(a.slot) - getSlotOrder(b.slot)
       );
       const isToday =
         d.getFullYear() === today.getFullYear() &&
@@ -101,6 +110,10 @@ export function useDayTimelineShared() {
                 weekday={weekdayLong.format(d)}
                 onPanelOpenChange={(open) => setTogglePanelOpen(open)}
               />
+              <DayNutritionSummary
+                summary={nutritionByDate[dateKey(d)]}
+                targets={nutritionTargets}
+              />
               <div className="bg-default-200 h-px" />
               <DayTimelineBody
                 isDraggingAny={draggedItemId !== null}
@@ -108,6 +121,7 @@ export function useDayTimelineShared() {
                 onDelete={(id, itemType) => deletePlanned(id, dateKey(d), itemType)}
                 onDragEnd={handleDragEnd}
                 onDragStart={handleDragStart}
+                onServingsChange={(id, servings) => updateRecipeServings(id, dateKey(d), servings)}
               />
             </div>
           </div>
@@ -116,6 +130,9 @@ export function useDayTimelineShared() {
     },
     [
       plannedItemsByDate,
+      nutritionByDate,
+      nutritionTargets,
+      getSlotOrder,
       today,
       handleDrop,
       draggedItemId,
@@ -123,6 +140,7 @@ export function useDayTimelineShared() {
       weekdayLong,
       monthLong,
       deletePlanned,
+      updateRecipeServings,
       handleDragStart,
       handleDragEnd,
     ]
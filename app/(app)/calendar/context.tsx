@@ -1,18 +1,29 @@
 "use client";
 
+import type {
+  DayNutritionSummary,
+  NutritionTargets,
+  WeekNutritionSummary,
+} from "@/lib/nutrition-summary";
+
 import { createContext, useContext, ReactNode, useMemo, useState, useCallback } from "react";
 
 import {
   useCalendarQuery,
   useCalendarMutations,
   useCalendarSubscription,
+  useNutritionSummaryQuery,
   type CalendarData,
 } from "@/hooks/calendar";
+import { useMealSlotsSubscription } from "@/hooks/meal-slots";
 import { Slot, CaldavItemType } from "@/types";
 import { dateKey, startOfMonth, endOfMonth, addMonths } from "@/lib/helpers";
 
 type Ctx = {
   plannedItemsByDate: CalendarData;
+  nutritionByDate: Record<string, DayNutritionSummary>;
+  nutritionByWeek: Record<string, WeekNutritionSummary>;
+  nutritionTargets: NutritionTargets;
   isLoading: boolean;
   planMeal: (
     date: string,
@@ -24,6 +35,7 @@ type Ctx = {
   planNote: (date: string, slot: Slot, title: string) => void;
   deletePlanned: (id: string, date: string, itemType: CaldavItemType) => void;
   updateItemDate: (id: string, oldDate: string, newDate: string, itemType: CaldavItemType) => void;
+  updateRecipeServings: (id: string, date: string, servings: number | null) => void;
 };
 
 const CalendarContext = createContext<Ctx | null>(null);
@@ -43,10 +55,15 @@ export function CalendarContextProvider({ children }: { children: ReactNode }) {
   const endISO = dateKey(dateRange.end);
 
   const { calendarData, isLoading } = useCalendarQuery(startISO, endISO);
+  const { nutritionByDate, nutritionByWeek, nutritionTargets } = useNutritionSummaryQuery(
+    startISO,
+    endISO
+  );
   const {
     createPlannedRecipe,
     deletePlannedRecipe,
     updatePlannedRecipeDate,
+    updatePlannedRecipeServings,
     createNote,
     deleteNote,
     updateNoteDate,
@@ -54,6 +71,7 @@ export function CalendarContextProvider({ children }: { children: ReactNode }) {
 
   // Subscribe to WebSocket events (updates query cache via internal cache helpers)
   useCalendarSubscription();
+  useMealSlotsSubscription();
 
   const planMeal = useCallback(
     (
@@ -97,16 +115,38 @@ export function CalendarContextProvider({ children }: { children: ReactNode }) {
     [updatePlannedRecipeDate, updateNoteDate]
   );
 
+  const updateRecipeServings = useCallback(
+    (id: string, date: string, servings: number | null): void => {
+      updatePlannedRecipeServings(id, date, servings);
+    },
+    [updatePlannedRecipeServings]
+  );
+
   const value = useMemo<Ctx>(
     () => ({
       plannedItemsByDate: calendarData,
+      nutritionByDate,
+      nutritionByWeek,
+      nutritionTargets,
       isLoading,
       planMeal,
       planNote,
       deletePlanned,
       updateItemDate,
+      updateRecipeServings,
     }),
-    [calendarData, isLoading, planMeal, planNote, deletePlanned, updateItemDate]
+    [
+      calendarData,
+      nutritionByDate,
+      nutritionByWeek,
+      nutritionTargets,
+      isLoading,
+      planMeal,
+      planNote,
+      deletePlanned,
+      updateItemDate,
+      updateRecipeServings,
+    ]
   );
 
   return <CalendarContext.Provider value={value}>{children}</CalendarContext.Provider>;
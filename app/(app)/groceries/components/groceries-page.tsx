@@ -18,6 +18,8 @@ import {
   BuildingStorefrontIcon,
   BookOpenIcon,
   CheckIcon,
+  ArchiveBoxIcon,
+  CalendarDaysIcon,
 } from "@heroicons/react/24/outline";
 import { useTranslations } from "next-intl";
 
@@ -26,9 +28,14 @@ import { useStoresContext } from "../stores-context";
 
 import AddGroceryButton from "./add-grocery-button";
 
-import { GroceryList, GroceryListByRecipe, StoreManagerPanel } from "@/components/groceries";
+import {
+  GroceryList,
+  GroceryListByRecipe,
+  PantryPanel,
+  StoreManagerPanel,
+} from "@/components/groceries";
 import EditGroceryPanel from "@/components/Panel/consumers/edit-grocery-panel";
-import { AddGroceryPanel } from "@/components/Panel/consumers";
+import { AddGroceryPanel, PlanGroceriesPanel } from "@/components/Panel/consumers";
 import GrocerySkeleton from "@/components/skeleton/grocery-skeleton";
 
 export function GroceriesPage() {
@@ -57,22 +64,28 @@ export function GroceriesPage() {
   const {
     addGroceryPanelOpen,
     setAddGroceryPanelOpen,
+    planGroceriesPanelOpen,
+    setPlanGroceriesPanelOpen,
     editingGrocery,
     setEditingGrocery,
     viewMode,
     setViewMode,
     groupSimilarIngredients,
     setGroupSimilarIngredients,
+    pantryPanelOpen,
+    setPantryPanelOpen,
+    moveCheckedToPantry,
+    setMoveCheckedToPantry,
   } = useGroceriesUIContext();
 
   const t = useTranslations("groceries.page");
 
   const handleToggle = (id: string, isDone: boolean) => {
-    toggleGroceries([id], isDone);
+    toggleGroceries([id], isDone, moveCheckedToPantry);
   };
 
   const handleToggleGroup = (ids: string[], isDone: boolean) => {
-    toggleGroceries(ids, isDone);
+    toggleGroceries(ids, isDone, moveCheckedToPantry);
   };
 
   const handleEdit = (grocery: GroceryDto) => {
@@ -196,7 +209,38 @@ export function GroceriesPage() {
                     {t("groupIngredients")}
                   </DropdownItem>
                 </DropdownSection>
+                <DropdownSection showDivider title={t("pantry")}>
+                  <DropdownItem
+                    key="move-to-pantry"
+                    closeOnSelect={false}
+                    endContent={
+                      <Switch
+                        aria-label={t("moveToPantry")}
+                        isSelected={moveCheckedToPantry}
+                        size="sm"
+                        onValueChange={setMoveCheckedToPantry}
+                      />
+                    }
+                    onPress={() => setMoveCheckedToPantry(!moveCheckedToPantry)}
+                  >
+                    {t("moveToPantry")}
+                  </DropdownItem>
+                  <DropdownItem
+                    key="open-pantry"
+                    startContent={<ArchiveBoxIcon className="h-4 w-4" />}
+                    onPress={() => setPantryPanelOpen(true)}
+                  >
+                    {t("openPantry")}
+                  </DropdownItem>
+                </DropdownSection>
                 <DropdownSection>
+                  <DropdownItem
+                    key="add-from-plan"
+                    startContent={<CalendarDaysIcon className="h-4 w-4" />}
+                    onPress={() => setPlanGroceriesPanelOpen(true)}
+                  >
+                    {t("addFromPlan")}
+                  </DropdownItem>
                   <DropdownItem
                     key="manage-stores"
                     startContent={<Cog6ToothIcon className="h-4 w-4" />}
@@ -262,6 +306,10 @@ export function GroceriesPage() {
         onOpenChange={setStoreManagerOpen}
       />
 
+      <PantryPanel open={pantryPanelOpen} onOpenChange={setPantryPanelOpen} />
+
+      <PlanGroceriesPanel open={planGroceriesPanelOpen} onOpenChange={setPlanGroceriesPanelOpen} />
+
       {editingGrocery && (
         <EditGroceryPanel
           grocery={editingGrocery}
@@ -11,6 +11,7 @@ import {
   useGroceriesSubscription,
   type RecipeMap,
 } from "@/hooks/groceries";
+import { usePantrySubscription } from "@/hooks/pantry";
 import { useLocalStorage } from "@/hooks/use-local-storage";
 
 // =============================================================================
@@ -21,14 +22,15 @@ export type GroceryViewMode = "store" | "recipe";
 
 const GROCERY_VIEW_MODE_KEY = "norish:grocery-view-mode";
 const GROCERY_GROUP_SIMILAR_KEY = "norish:grocery-group-similar";
+const GROCERY_MOVE_TO_PANTRY_KEY = "norish:grocery-move-to-pantry";
 
 // Validation function defined outside component to prevent re-renders
 function validateViewMode(data: unknown): GroceryViewMode | null {
   return data === "store" || data === "recipe" ? data : null;
 }
 
-// Validation function for group similar toggle
-function validateGroupSimilar(data: unknown): boolean | null {
+// Validation function for boolean toggles (group similar, move to pantry)
+function validateBoolean(data: unknown): boolean | null {
   return typeof data === "boolean" ? data : null;
 }
 
@@ -54,7 +56,7 @@ type DataCtx = {
     pattern: RecurrencePattern,
     storeId?: string | null
   ) => void;
-  toggleGroceries: (ids: string[], isDone: boolean) => void;
+  toggleGroceries: (ids: string[], isDone: boolean, moveToPantry?: boolean) => void;
   toggleRecurringGrocery: (recurringGroceryId: string, groceryId: string, isDone: boolean) => void;
   updateGrocery: (id: string, updatedText: string) => void;
   updateRecurringGrocery: (
@@ -91,6 +93,8 @@ type UICtx = {
   closeRecurrencePanel: () => void;
   addGroceryPanelOpen: boolean;
   setAddGroceryPanelOpen: (open: boolean) => void;
+  planGroceriesPanelOpen: boolean;
+  setPlanGroceriesPanelOpen: (open: boolean) => void;
   editingGrocery: GroceryDto | null;
   setEditingGrocery: (grocery: GroceryDto | null) => void;
   // View mode
@@ -99,6 +103,11 @@ type UICtx = {
   // Group similar ingredients (only applicable in store view)
   groupSimilarIngredients: boolean;
   setGroupSimilarIngredients: (enabled: boolean) => void;
+  // Pantry
+  pantryPanelOpen: boolean;
+  setPantryPanelOpen: (open: boolean) => void;
+  moveCheckedToPantry: boolean;
+  setMoveCheckedToPantry: (enabled: boolean) => void;
 };
 
 const GroceriesUIContext = createContext<UICtx | null>(null);
@@ -115,12 +124,15 @@ export function GroceriesContextProvider({ children }: { children: ReactNode })
 
   // Subscribe to WebSocket events (updates query cache via internal cache helpers)
   useGroceriesSubscription();
+  usePantrySubscription();
 
   // UI State
   const [recurrencePanelOpen, setRecurrencePanelOpen] = useState(false);
   const [recurrencePanelGroceryId, setRecurrencePanelGroceryId] = useState<string | null>(null);
   const [addGroceryPanelOpen, setAddGroceryPanelOpen] = useState(false);
+  const [planGroceriesPanelOpen, setPlanGroceriesPanelOpen] = useState(false);
   const [editingGrocery, setEditingGrocery] = useState<GroceryDto | null>(null);
+  const [pantryPanelOpen, setPantryPanelOpen] = useState(false);
 
   // View mode with localStorage persistence
   const [viewMode, setViewMode] = useLocalStorage<GroceryViewMode>(
@@ -133,7 +145,14 @@ export function GroceriesContextProvider({ children }: { children: ReactNode })
   const [groupSimilarIngredients, setGroupSimilarIngredients] = useLocalStorage<boolean>(
     GROCERY_GROUP_SIMILAR_KEY,
     true,
-    validateGroupSimilar
+    validateBoolean
+  );
+
+  // Move checked groceries into the pantry instead of keeping them as done
+  const [moveCheckedToPantry, setMoveCheckedToPantry] = useLocalStorage<boolean>(
+    GROCERY_MOVE_TO_PANTRY_KEY,
+    false,
+    validateBoolean
   );
 
   const openRecurrencePanel = useCallback((groceryId: string) => {
@@ -202,12 +221,18 @@ export function GroceriesContextProvider({ children }: { children: ReactNode })
       closeRecurrencePanel,
       addGroceryPanelOpen,
       setAddGroceryPanelOpen,
+      planGroceriesPanelOpen,
+      setPlanGroceriesPanelOpen,
       editingGrocery,
       setEditingGrocery,
       viewMode,
       setViewMode,
       groupSimilarIngredients,
       setGroupSimilarIngredients,
+      pantryPanelOpen,
+      setPantryPanelOpen,
+      moveCheckedToPantry,
+      setMoveCheckedToPantry,
     }),
     [
       recurrencePanelOpen,
@@ -215,11 +240,15 @@ export function GroceriesContextProvider({ children }: { children: ReactNode })
       openRecurrencePanel,
       closeRecurrencePanel,
       addGroceryPanelOpen,
+      planGroceriesPanelOpen,
       editingGrocery,
       viewMode,
       setViewMode,
       groupSimilarIngredients,
       setGroupSimilarIngredients,
+      pantryPanelOpen,
+      moveCheckedToPantry,
+      setMoveCheckedToPantry,
     ]
   );
 
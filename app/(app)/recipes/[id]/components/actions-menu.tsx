@@ -8,6 +8,8 @@ import {
   TrashIcon,
   DevicePhoneMobileIcon,
   SparklesIcon,
+  ShareIcon,
+  ClockIcon,
 } from "@heroicons/react/20/solid";
 import { EllipsisHorizontalIcon } from "@heroicons/react/16/solid";
 import { useRouter } from "next/navigation";
@@ -16,6 +18,8 @@ import { useTranslations } from "next-intl";
 import { useRecipeContextRequired } from "../context";
 
 import { useWakeLockContext } from "./wake-lock-context";
+import ShareRecipeModal from "./share-recipe-modal";
+import RevisionHistoryPanel from "./revision-history-panel";
 
 import { cssButtonPill, cssAIGradientText, cssAIIconColor } from "@/config/css-tokens";
 import { MiniGroceries, MiniCalendar } from "@/components/Panel/consumers";
@@ -40,6 +44,8 @@ export default function ActionsMenu({ id }: Props) {
   const [isDropdownOpen, setIsDropdownOpen] = React.useState(false);
   const [openCalendar, setOpenCalendar] = React.useState(false);
   const [openGroceries, setOpenGroceries] = React.useState(false);
+  const [openShare, setOpenShare] = React.useState(false);
+  const [openHistory, setOpenHistory] = React.useState(false);
   const router = useRouter();
   const { canEditRecipe, canDeleteRecipe, isAutoTaggingEnabled, isAIEnabled } =
     usePermissionsContext();
@@ -79,6 +85,18 @@ export default function ActionsMenu({ id }: Props) {
         icon: <ShoppingCartIcon className="size-4" />,
         onPress: () => setOpenGroceries(true),
       },
+      {
+        key: "share",
+        label: t("share"),
+        icon: <ShareIcon className="size-4" />,
+        onPress: () => setOpenShare(true),
+      },
+      {
+        key: "history",
+        label: t("history"),
+        icon: <ClockIcon className="size-4" />,
+        onPress: () => setOpenHistory(true),
+      },
     ];
 
     if (canEdit) {
@@ -225,6 +243,15 @@ export default function ActionsMenu({ id }: Props) {
       <MiniGroceries open={openGroceries} recipeId={id} onOpenChange={setOpenGroceries} />
 
       <MiniCalendar open={openCalendar} recipeId={id} onOpenChange={setOpenCalendar} />
+
+      <ShareRecipeModal isOpen={openShare} recipeId={id} onOpenChange={setOpenShare} />
+
+      <RevisionHistoryPanel
+        canEdit={canEdit}
+        open={openHistory}
+        recipeId={id}
+        onOpenChange={setOpenHistory}
+      />
     </>
   );
 }
@@ -0,0 +1,33 @@
+"use client";
+
+import { Button } from "@heroui/react";
+import { PlayIcon } from "@heroicons/react/20/solid";
+import { useTranslations } from "next-intl";
+
+import { useRecipeContext } from "../context";
+
+import { useCookModeContext } from "./cook-mode-context";
+
+import { useCookTimersQuery } from "@/hooks/cook-timers";
+
+export default function CookModeButton() {
+  const t = useTranslations("recipes.cookMode");
+  const { recipe } = useRecipeContext();
+  const { timers } = useCookTimersQuery(recipe?.id);
+  const { open } = useCookModeContext();
+
+  if (!recipe?.steps.length) return null;
+
+  return (
+    <Button
+      color="primary"
+      radius="full"
+      size="sm"
+      startContent={<PlayIcon className="h-4 w-4" />}
+      variant="flat"
+      onPress={open}
+    >
+      {timers.length > 0 ? t("openWithTimers", { count: timers.length }) : t("open")}
+    </Button>
+  );
+}
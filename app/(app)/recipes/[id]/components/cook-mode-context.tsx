@@ -0,0 +1,76 @@
+"use client";
+
+import React, { createContext, useContext, useEffect, useState, ReactNode } from "react";
+import { addToast } from "@heroui/react";
+import { useTranslations } from "next-intl";
+
+import { useRecipeContext } from "../context";
+
+import CookModeModal from "./cook-mode-modal";
+import { useCookTimerTitle } from "./cook-timer-list";
+
+import { useCookTimersQuery, useCookTimersSubscription } from "@/hooks/cook-timers";
+
+interface CookModeContextValue {
+  isOpen: boolean;
+  open: () => void;
+  close: () => void;
+}
+
+const CookModeContext = createContext<CookModeContextValue | null>(null);
+
+export function CookModeProvider({ children }: { children: ReactNode }) {
+  const t = useTranslations("recipes.cookMode");
+  const { recipe } = useRecipeContext();
+  const { timers } = useCookTimersQuery(recipe?.id);
+  const timerTitle = useCookTimerTitle();
+  const [isOpen, setIsOpen] = useState(false);
+
+  // Timers started on other devices show up here, whether or not cook mode is open
+  useCookTimersSubscription();
+
+  // Every device showing the recipe rings when one of its timers runs out
+  useEffect(() => {
+    const handles = timers.flatMap((timer) => {
+      const delay = timer.endsAt ? new Date(timer.endsAt).getTime() - Date.now() : 0;
+
+      if (delay <= 0) return [];
+
+      return setTimeout(() => {
+        addToast({
+          severity: "warning",
+          title: t("timerFinished", { name: timerTitle(timer) }),
+          timeout: 15000,
+          shouldShowTimeoutProgress: true,
+          radius: "full",
+        });
+        navigator.vibrate?.([300, 150, 300]);
+      }, delay);
+    });
+
+    return () => handles.forEach(clearTimeout);
+  }, [timers, t, timerTitle]);
+
+  const value: CookModeContextValue = {
+    isOpen,
+    open: () => setIsOpen(true),
+    close: () => setIsOpen(false),
+  };
+
+  return (
+    <CookModeContext.Provider value={value}>
+      {children}
+      <CookModeModal isOpen={isOpen} onClose={value.close} />
+    </CookModeContext.Provider>
+  );
+}
+
+export function useCookModeContext() {
+  const context = useContext(CookModeContext);
+
+  if (!context) {
+    throw new Error("useCookModeContext must be used within CookModeProvider");
+  }
+
+  return context;
+}
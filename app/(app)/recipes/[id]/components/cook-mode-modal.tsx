@@ -0,0 +1,185 @@
+"use client";
+
+import { useEffect, useMemo } from "react";
+import { Button, Modal, ModalBody, ModalContent, ModalFooter, ModalHeader } from "@heroui/react";
+import { ChevronLeftIcon, ChevronRightIcon, ClockIcon } from "@heroicons/react/20/solid";
+import { useTranslations } from "next-intl";
+
+import { useRecipeContext } from "../context";
+
+import { useWakeLockContext } from "./wake-lock-context";
+import CookTimerList from "./cook-timer-list";
+
+import SmartMarkdownRenderer from "@/components/shared/smart-markdown-renderer";
+import { useCookTimersMutations, useCookTimersQuery } from "@/hooks/cook-timers";
+import { useUnitsQuery } from "@/hooks/config";
+import { useAmountDisplayPreference } from "@/hooks/use-amount-display-preference";
+import { useLocalStorage } from "@/hooks/use-local-storage";
+import { formatScaledAmount, getStepIngredients, scaleStepText } from "@/lib/step-ingredients";
+import { detectStepDurations } from "@/lib/step-timers";
+import { parseRecipeLink } from "@/lib/sub-recipes";
+
+type Props = {
+  isOpen: boolean;
+  onClose: () => void;
+};
+
+export default function CookModeModal({ isOpen, onClose }: Props) {
+  const t = useTranslations("recipes.cookMode");
+  const { recipe, currentServings } = useRecipeContext();
+  const { units } = useUnitsQuery();
+  const { mode } = useAmountDisplayPreference();
+  const { enable: keepScreenOn } = useWakeLockContext();
+  const { timers } = useCookTimersQuery(recipe?.id);
+  const { startTimer } = useCookTimersMutations();
+
+  // Remember the step per recipe, so a reload picks up where the cook left off
+  const [storedStep, setStep] = useLocalStorage(`cook-mode-step-${recipe?.id ?? ""}`, 0);
+
+  const steps = useMemo(
+    () =>
+      recipe?.steps
+        .filter((s) => s.systemUsed === recipe.systemUsed)
+        .sort((a, b) => a.order - b.order) ?? [],
+    [recipe]
+  );
+
+  const lastIndex = Math.max(steps.length - 1, 0);
+  const index = Math.min(Math.max(storedStep, 0), lastIndex);
+  const step = steps[index];
+  const factor = recipe?.servings ? currentServings / recipe.servings : 1;
+  const stepIngredients = step ? getStepIngredients(step, recipe?.recipeIngredients ?? []) : [];
+  const durations = step ? detectStepDurations(step.step) : [];
+
+  useEffect(() => {
+    if (isOpen) keepScreenOn();
+  }, [isOpen, keepScreenOn]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "ArrowRight") setStep(Math.min(index + 1, lastIndex));
+      if (e.key === "ArrowLeft") setStep(Math.max(index - 1, 0));
+    };
+
+    window.addEventListener("keydown", onKeyDown);
+
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [isOpen, index, lastIndex, setStep]);
+
+  if (!recipe) return null;
+
+  return (
+    <Modal isOpen={isOpen} scrollBehavior="inside" size="full" onClose={onClose}>
+      <ModalContent>
+        <ModalHeader className="flex flex-col gap-1">
+          <span className="text-default-500 text-sm font-normal">{recipe.name}</span>
+          <span>
+            {steps.length > 0
+              ? t("stepOf", { step: index + 1, total: steps.length })
+              : t("noSteps")}
+          </span>
+        </ModalHeader>
+
+        <ModalBody className="grid gap-8 md:grid-cols-[2fr_1fr]">
+          {step && (
+            <div className="flex flex-col gap-6">
+              {step.section && (
+                <h3 className="text-default-500 text-base font-semibold">{step.section}</h3>
+              )}
+              <p className="text-2xl leading-relaxed md:text-3xl">
+                <SmartMarkdownRenderer
+                  text={scaleStepText(step.step, stepIngredients, factor, { units, mode })}
+                />
+              </p>
+
+              {durations.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {durations.map((duration) => (
+                    <Button
+                      key={duration.index}
+                      color="primary"
+                      radius="full"
+                      size="lg"
+                      startContent={<ClockIcon className="h-5 w-5" />}
+                      variant="flat"
+                      onPress={() =>
+                        startTimer({
+                          recipeId: recipe.id,
+                          stepIndex: index,
+                          label: duration.text,
+                          durationSeconds: duration.seconds,
+                        })
+                      }
+                    >
+                      {t("startTimer", { label: duration.text })}
+                    </Button>
+                  ))}
+                </div>
+              )}
+
+              {stepIngredients.length > 0 && (
+                <section className="flex flex-col gap-2">
+                  <h4 className="text-default-500 text-sm font-semibold">{t("ingredients")}</h4>
+                  <ul className="flex flex-col gap-1 text-lg">
+                    {stepIngredients.map((ing) => (
+                      <li key={ing.id} className="flex gap-2">
+                        <span className="font-semibold">
+                          {[formatScaledAmount(ing.amount, factor, mode), ing.unit]
+                            .filter(Boolean)
+                            .join(" ")}
+                        </span>
+                        <span>
+                          {parseRecipeLink(ing.ingredientName)?.name ?? ing.ingredientName}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </section>
+              )}
+            </div>
+          )}
+
+          <section className="flex flex-col gap-3">
+            <h4 className="text-default-500 text-sm font-semibold">{t("timers")}</h4>
+            <CookTimerList timers={timers} />
+          </section>
+        </ModalBody>
+
+        <ModalFooter className="justify-between">
+          <Button
+            isDisabled={index === 0}
+            size="lg"
+            startContent={<ChevronLeftIcon className="h-5 w-5" />}
+            variant="flat"
+            onPress={() => setStep(index - 1)}
+          >
+            {t("previous")}
+          </Button>
+          {index < lastIndex ? (
+            <Button
+              color="primary"
+              endContent={<ChevronRightIcon className="h-5 w-5" />}
+              size="lg"
+              onPress={() => setStep(index + 1)}
+            >
+              {t("next")}
+            </Button>
+          ) : (
+            <Button
+              color="primary"
+              size="lg"
+              onPress={() => {
+                setStep(0);
+                onClose();
+              }}
+            >
+              {t("finish")}
+            </Button>
+          )}
+        </ModalFooter>
+      </ModalContent>
+    </Modal>
+  );
+}
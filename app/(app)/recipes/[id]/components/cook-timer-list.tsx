@@ -0,0 +1,107 @@
+"use client";
+
+import type { CookTimerDto } from "@/types";
+
+import { useCallback, useEffect, useState } from "react";
+import { Button } from "@heroui/react";
+import { PauseIcon, PlayIcon, XMarkIcon } from "@heroicons/react/20/solid";
+import { useTranslations } from "next-intl";
+
+import { useCookTimersMutations } from "@/hooks/cook-timers";
+import { formatTimerDuration } from "@/lib/step-timers";
+
+/** Seconds a timer has left; negative once it has finished */
+export function timerRemainingSeconds(timer: CookTimerDto, now: number): number {
+  if (timer.endsAt) return (new Date(timer.endsAt).getTime() - now) / 1000;
+
+  return timer.remainingSeconds ?? timer.durationSeconds;
+}
+
+/** Title of a timer: its step and duration when it was started from a step */
+export function useCookTimerTitle(): (timer: CookTimerDto) => string {
+  const t = useTranslations("recipes.cookMode");
+
+  return useCallback(
+    (timer: CookTimerDto) =>
+      timer.stepIndex !== null
+        ? t("stepTimer", { step: timer.stepIndex + 1, label: timer.label })
+        : timer.label,
+    [t]
+  );
+}
+
+type Props = {
+  timers: CookTimerDto[];
+};
+
+export default function CookTimerList({ timers }: Props) {
+  const t = useTranslations("recipes.cookMode");
+  const timerTitle = useCookTimerTitle();
+  const { pauseTimer, resumeTimer, removeTimer } = useCookTimersMutations();
+  const [now, setNow] = useState(() => Date.now());
+  const hasRunning = timers.some((timer) => timer.endsAt);
+
+  useEffect(() => {
+    if (!hasRunning) return;
+
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+
+    return () => clearInterval(interval);
+  }, [hasRunning]);
+
+  if (timers.length === 0) {
+    return <p className="text-default-500 text-sm">{t("noTimers")}</p>;
+  }
+
+  return (
+    <ul aria-label={t("timers")} className="flex flex-col gap-2">
+      {timers.map((timer) => {
+        const remaining = timerRemainingSeconds(timer, now);
+        const isPaused = !timer.endsAt;
+        const isFinished = !isPaused && remaining <= 0;
+
+        return (
+          <li
+            key={timer.id}
+            className={`flex items-center gap-3 rounded-xl px-4 py-3 ${
+              isFinished ? "bg-danger-100 dark:bg-danger-100/20 animate-pulse" : "bg-content2"
+            }`}
+          >
+            <div className="flex min-w-0 flex-1 flex-col">
+              <span className="text-default-600 truncate text-sm">{timerTitle(timer)}</span>
+              <span
+                aria-live={isFinished ? "assertive" : "off"}
+                className={`font-mono text-2xl font-semibold tabular-nums ${
+                  isFinished ? "text-danger" : isPaused ? "text-default-400" : "text-foreground"
+                }`}
+              >
+                {isFinished ? t("finished") : formatTimerDuration(remaining)}
+              </span>
+            </div>
+
+            {!isFinished && (
+              <Button
+                isIconOnly
+                aria-label={isPaused ? t("resume") : t("pause")}
+                radius="full"
+                variant="flat"
+                onPress={() => (isPaused ? resumeTimer(timer.id) : pauseTimer(timer.id))}
+              >
+                {isPaused ? <PlayIcon className="h-5 w-5" /> : <PauseIcon className="h-5 w-5" />}
+              </Button>
+            )}
+            <Button
+              isIconOnly
+              aria-label={t("dismiss")}
+              radius="full"
+              variant="light"
+              onPress={() => removeTimer(timer.id)}
+            >
+              <XMarkIcon className="h-5 w-5" />
+            </Button>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
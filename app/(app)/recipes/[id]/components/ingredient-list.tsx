@@ -1,11 +1,13 @@
 "use client";
 
-import { useState } from "react";
+import { Fragment, useState } from "react";
 import { CheckIcon } from "@heroicons/react/20/solid";
 
 import { useRecipeContextRequired } from "../context";
 
 import { formatAmount } from "@/lib/format-amount";
+import { sectionStartingAt } from "@/lib/recipe-sections";
+import { toIngredientLinkText } from "@/lib/sub-recipes";
 import SmartMarkdownRenderer from "@/components/shared/smart-markdown-renderer";
 import { useAmountDisplayPreference } from "@/hooks/use-amount-display-preference";
 
@@ -15,7 +17,9 @@ export default function IngredientsList() {
   const { mode } = useAmountDisplayPreference();
 
   // Use adjustedIngredients directly, fall back to recipe ingredients only if empty
-  const display = adjustedIngredients?.length > 0 ? adjustedIngredients : recipe.recipeIngredients;
+  const display = (adjustedIngredients?.length > 0 ? adjustedIngredients : recipe.recipeIngredients)
+    .filter((it) => it.systemUsed === recipe.systemUsed)
+    .sort((a, b) => a.order - b.order);
 
   const toggle = (idx: number) => {
     setChecked((prev) => {
@@ -37,30 +41,22 @@ export default function IngredientsList() {
 
   return (
     <ul className="space-y-2">
-      {display
-        .filter((it) => it.systemUsed === recipe.systemUsed)
-        .sort((a, b) => a.order - b.order)
-        .map((it, idx) => {
-          const isHeading = it.ingredientName.trim().startsWith("#");
+      {display.map((it, idx) => {
+        const section = sectionStartingAt(display, idx);
+        const amount = formatAmount(it.amount, mode);
+        const unit = it.unit || "";
+        const isChecked = checked.has(idx);
 
-          if (isHeading) {
-            const headingText = it.ingredientName.trim().replace(/^#+\s*/, "");
-
-            return (
-              <li key={`heading-${idx}`} className="list-none">
+        return (
+          <Fragment key={`${it.ingredientName}-${idx}`}>
+            {section && (
+              <li className="list-none">
                 <div className="px-3 py-2">
-                  <h3 className="text-foreground text-base font-semibold">{headingText}</h3>
+                  <h3 className="text-foreground text-base font-semibold">{section}</h3>
                 </div>
               </li>
-            );
-          }
-
-          const amount = formatAmount(it.amount, mode);
-          const unit = it.unit || "";
-          const isChecked = checked.has(idx);
-
-          return (
-            <li key={`${it.ingredientName}-${idx}`}>
+            )}
+            <li>
               <div
                 aria-pressed={isChecked}
                 className={`group flex cursor-pointer items-center gap-3 rounded-xl px-3 py-2.5 transition-all duration-200 select-none ${
@@ -107,13 +103,17 @@ export default function IngredientsList() {
                   <span
                     className={`text-base ${isChecked ? "text-default-400 line-through" : "text-base"}`}
                   >
-                    <SmartMarkdownRenderer disableLinks={isChecked} text={it.ingredientName} />
+                    <SmartMarkdownRenderer
+                      disableLinks={isChecked}
+                      text={toIngredientLinkText(it)}
+                    />
                   </span>
                 </div>
               </div>
             </li>
-          );
-        })}
+          </Fragment>
+        );
+      })}
     </ul>
   );
 }
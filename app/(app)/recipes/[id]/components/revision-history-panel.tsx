@@ -0,0 +1,223 @@
+"use client";
+
+import type { RecipeRevisionDiffDto, RecipeRevisionViewDto } from "@/types";
+
+import { useMemo, useState } from "react";
+import { addToast, Avatar, Button, Chip, Spinner } from "@heroui/react";
+import { ArrowUturnLeftIcon, ChevronDownIcon, ChevronUpIcon } from "@heroicons/react/16/solid";
+import { useLocale, useTranslations } from "next-intl";
+
+import Panel from "@/components/Panel/Panel";
+import { useRecipeRevisions, useRecipeRevisionDiff } from "@/hooks/recipes";
+
+type Props = {
+  recipeId: string;
+  canEdit: boolean;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+};
+
+function DiffList({
+  label,
+  added,
+  removed,
+}: {
+  label: string;
+  added: string[];
+  removed: string[];
+}) {
+  if (added.length === 0 && removed.length === 0) return null;
+
+  return (
+    <div className="flex flex-col gap-1">
+      <span className="text-default-600 text-xs font-semibold">{label}</span>
+      {removed.map((line, i) => (
+        <span key={`r-${i}`} className="text-danger text-sm line-through">
+          − {line}
+        </span>
+      ))}
+      {added.map((line, i) => (
+        <span key={`a-${i}`} className="text-success text-sm">
+          + {line}
+        </span>
+      ))}
+    </div>
+  );
+}
+
+function RevisionDiff({ diff }: { diff: RecipeRevisionDiffDto }) {
+  const t = useTranslations("recipes.history");
+  const isEmpty =
+    diff.fields.length === 0 &&
+    [diff.ingredients, diff.steps, diff.tags].every(
+      (list) => list.added.length === 0 && list.removed.length === 0
+    );
+
+  if (isEmpty) {
+    return <p className="text-default-500 text-sm">{t("noChanges")}</p>;
+  }
+
+  return (
+    <div className="flex flex-col gap-3">
+      {diff.fields.map((change) => (
+        <div key={change.field} className="flex flex-col gap-1">
+          <span className="text-default-600 text-xs font-semibold">
+            {t(`fields.${change.field}` as "fields.name")}
+          </span>
+          {change.before !== null && (
+            <span className="text-danger text-sm line-through">− {String(change.before)}</span>
+          )}
+          {change.after !== null && (
+            <span className="text-success text-sm">+ {String(change.after)}</span>
+          )}
+        </div>
+      ))}
+      <DiffList label={t("fields.ingredients")} {...diff.ingredients} />
+      <DiffList label={t("fields.steps")} {...diff.steps} />
+      <DiffList label={t("fields.tags")} {...diff.tags} />
+    </div>
+  );
+}
+
+function RevisionItem({
+  recipeId,
+  revision,
+  isLatest,
+  canRestore,
+  isRestoring,
+  onRestore,
+}: {
+  recipeId: string;
+  revision: RecipeRevisionViewDto;
+  isLatest: boolean;
+  canRestore: boolean;
+  isRestoring: boolean;
+  onRestore: (revisionId: string) => void;
+}) {
+  const t = useTranslations("recipes.history");
+  const locale = useLocale();
+  const [expanded, setExpanded] = useState(false);
+  const { diff, isLoading } = useRecipeRevisionDiff(recipeId, expanded ? revision.id : null);
+
+  const dateFormatter = useMemo(
+    () => new Intl.DateTimeFormat(locale, { dateStyle: "medium", timeStyle: "short" }),
+    [locale]
+  );
+  const authorName = revision.author?.name || t("unknownAuthor");
+  const isOriginal = revision.source === "original";
+
+  return (
+    <div className="flex flex-col gap-2 px-3 py-3">
+      <div className="flex items-start gap-3">
+        <Avatar
+          className="shrink-0"
+          name={authorName[0].toUpperCase()}
+          size="sm"
+          src={revision.author?.image || undefined}
+        />
+        <div className="flex min-w-0 flex-1 flex-col gap-1">
+          <span className="text-sm">
+            {t(`sources.${revision.source}`, { name: authorName })}
+            {isLatest && (
+              <Chip className="ml-2" color="primary" size="sm" variant="flat">
+                {t("current")}
+              </Chip>
+            )}
+          </span>
+          <span className="text-default-500 text-xs">
+            {dateFormatter.format(new Date(revision.createdAt))}
+          </span>
+          {!isOriginal && revision.changedFields.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {revision.changedFields.map((field) => (
+                <Chip key={field} size="sm" variant="flat">
+                  {t(`fields.${field}` as "fields.name")}
+                </Chip>
+              ))}
+            </div>
+          )}
+        </div>
+        <Button
+          isIconOnly
+          aria-label={expanded ? t("hideChanges") : t("showChanges")}
+          size="sm"
+          variant="light"
+          onPress={() => setExpanded((e) => !e)}
+        >
+          {expanded ? (
+            <ChevronUpIcon className="h-4 w-4" />
+          ) : (
+            <ChevronDownIcon className="h-4 w-4" />
+          )}
+        </Button>
+      </div>
+
+      {expanded && (
+        <div className="bg-default-100 flex flex-col gap-3 rounded-lg p-3">
+          {isLoading || !diff ? <Spinner size="sm" /> : <RevisionDiff diff={diff} />}
+          {canRestore && !isLatest && (
+            <div className="flex justify-end">
+              <Button
+                isLoading={isRestoring}
+                size="sm"
+                startContent={!isRestoring && <ArrowUturnLeftIcon className="h-4 w-4" />}
+                variant="flat"
+                onPress={() => onRestore(revision.id)}
+              >
+                {t("restore")}
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function RevisionHistoryPanel({ recipeId, canEdit, open, onOpenChange }: Props) {
+  const t = useTranslations("recipes.history");
+  const { revisions, isLoading, restoreRevision, isRestoring } = useRecipeRevisions(recipeId, open);
+
+  const handleRestore = async (revisionId: string) => {
+    try {
+      await restoreRevision(revisionId);
+      addToast({ severity: "success", title: t("restored"), radius: "full" });
+    } catch (error) {
+      addToast({
+        severity: "danger",
+        title: t("restoreFailed"),
+        description: (error as Error).message,
+        shouldShowTimeoutProgress: true,
+        radius: "full",
+      });
+    }
+  };
+
+  return (
+    <Panel open={open} title={t("title")} onOpenChange={onOpenChange}>
+      <div className="flex min-h-0 flex-1 flex-col overflow-y-auto">
+        {isLoading ? (
+          <div className="flex justify-center p-4">
+            <Spinner size="sm" />
+          </div>
+        ) : revisions.length === 0 ? (
+          <p className="text-default-500 p-4 text-sm">{t("empty")}</p>
+        ) : (
+          <div className="divide-default-200 divide-y">
+            {revisions.map((revision, index) => (
+              <RevisionItem
+                key={revision.id}
+                canRestore={canEdit}
+                isLatest={index === 0}
+                isRestoring={isRestoring}
+                recipeId={recipeId}
+                revision={revision}
+                onRestore={handleRestore}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+    </Panel>
+  );
+}
@@ -1,6 +1,6 @@
 "use client";
 
-import React, { useEffect, useCallback } from "react";
+import React, { useEffect, useCallback, useRef } from "react";
 import { Button } from "@heroui/react";
 import { MinusIcon, PlusIcon } from "@heroicons/react/16/solid";
 
@@ -14,11 +14,16 @@ function formatServings(n: number): string {
 }
 
 export default function ServingsControl() {
-  const { recipe, setIngredientAmounts } = useRecipeContextRequired();
-  const [servings, setServings] = React.useState<number>(Math.max(0.125, recipe.servings ?? 1));
+  const { recipe, currentServings, setIngredientAmounts } = useRecipeContextRequired();
+  // Start from the context so servings requested by the page (e.g. from the calendar) are kept
+  const [servings, setServings] = React.useState<number>(Math.max(0.125, currentServings));
+  const lastRecipeServingsRef = useRef(recipe.servings);
 
   // Sync local servings with recipe when recipe.servings changes from server
   useEffect(() => {
+    if (lastRecipeServingsRef.current === recipe.servings) return;
+
+    lastRecipeServingsRef.current = recipe.servings;
     setServings(Math.max(0.125, recipe.servings ?? 1));
   }, [recipe.servings]);
 
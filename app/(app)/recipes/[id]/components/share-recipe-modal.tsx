@@ -0,0 +1,175 @@
+"use client";
+
+import { useState } from "react";
+import {
+  Button,
+  Input,
+  Modal,
+  ModalBody,
+  ModalContent,
+  ModalFooter,
+  ModalHeader,
+  Select,
+  SelectItem,
+  addToast,
+} from "@heroui/react";
+import { ClipboardDocumentIcon, LinkIcon, TrashIcon } from "@heroicons/react/20/solid";
+import { useTranslations } from "next-intl";
+
+import { useRecipeShares } from "@/hooks/recipes";
+
+const EXPIRY_OPTIONS = ["never", "1", "7", "30"] as const;
+
+type ExpiryOption = (typeof EXPIRY_OPTIONS)[number];
+
+type Props = {
+  recipeId: string;
+  isOpen: boolean;
+  onOpenChange: (open: boolean) => void;
+};
+
+function getShareUrl(token: string): string {
+  return `${window.location.origin}/share/${token}`;
+}
+
+function copyToClipboard(text: string) {
+  if (navigator.clipboard && navigator.clipboard.writeText) {
+    navigator.clipboard.writeText(text);
+  }
+}
+
+export default function ShareRecipeModal({ recipeId, isOpen, onOpenChange }: Props) {
+  const t = useTranslations("recipes.share");
+  const tActions = useTranslations("common.actions");
+  const { shares, isLoading, createShare, revokeShare, isCreating, isRevoking } = useRecipeShares(
+    recipeId,
+    isOpen
+  );
+  const [expiry, setExpiry] = useState<ExpiryOption>("never");
+
+  const handleCreate = async () => {
+    try {
+      const created = await createShare(expiry === "never" ? null : Number(expiry));
+
+      copyToClipboard(getShareUrl(created.token));
+      addToast({
+        severity: "success",
+        title: t("created"),
+        description: t("copiedDescription"),
+        shouldShowTimeoutProgress: true,
+        radius: "full",
+      });
+    } catch (error) {
+      addToast({
+        severity: "danger",
+        title: t("createFailed"),
+        description: (error as Error).message,
+        shouldShowTimeoutProgress: true,
+        radius: "full",
+      });
+    }
+  };
+
+  const handleCopy = (token: string) => {
+    copyToClipboard(getShareUrl(token));
+    addToast({ severity: "default", title: t("copied"), radius: "full" });
+  };
+
+  const handleRevoke = async (id: string) => {
+    try {
+      await revokeShare(id);
+    } catch (error) {
+      addToast({
+        severity: "danger",
+        title: t("revokeFailed"),
+        description: (error as Error).message,
+        shouldShowTimeoutProgress: true,
+        radius: "full",
+      });
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} size="lg" onOpenChange={onOpenChange}>
+      <ModalContent>
+        {(onClose) => (
+          <>
+            <ModalHeader className="flex flex-col gap-1">
+              {t("title")}
+              <span className="text-default-500 text-sm font-normal">{t("description")}</span>
+            </ModalHeader>
+            <ModalBody className="gap-4">
+              <div className="flex items-end gap-2">
+                <Select
+                  disallowEmptySelection
+                  className="flex-1"
+                  label={t("expiry")}
+                  selectedKeys={[expiry]}
+                  onSelectionChange={(keys) => setExpiry(Array.from(keys)[0] as ExpiryOption)}
+                >
+                  {EXPIRY_OPTIONS.map((option) => (
+                    <SelectItem key={option}>{t(`expiryOptions.${option}`)}</SelectItem>
+                  ))}
+                </Select>
+                <Button
+                  color="primary"
+                  isLoading={isCreating}
+                  startContent={!isCreating && <LinkIcon className="h-4 w-4" />}
+                  onPress={handleCreate}
+                >
+                  {t("createLink")}
+                </Button>
+              </div>
+
+              <div className="space-y-2">
+                <h3 className="text-sm font-semibold">{t("activeLinks")}</h3>
+                {!isLoading && shares.length === 0 && (
+                  <p className="text-default-500 text-sm">{t("noLinks")}</p>
+                )}
+                {shares.map((share) => (
+                  <div key={share.id} className="space-y-1">
+                    <div className="flex gap-2">
+                      <Input isReadOnly size="sm" value={getShareUrl(share.token)} />
+                      <Button
+                        isIconOnly
+                        aria-label={t("copy")}
+                        size="sm"
+                        variant="flat"
+                        onPress={() => handleCopy(share.token)}
+                      >
+                        <ClipboardDocumentIcon className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        isIconOnly
+                        aria-label={t("revoke")}
+                        color="danger"
+                        isDisabled={isRevoking}
+                        size="sm"
+                        variant="flat"
+                        onPress={() => handleRevoke(share.id)}
+                      >
+                        <TrashIcon className="h-4 w-4" />
+                      </Button>
+                    </div>
+                    <p className="text-default-500 text-xs">
+                      {t("views", { count: share.viewCount })}
+                      {" · "}
+                      {share.expiresAt
+                        ? t("expiresOn", { date: new Date(share.expiresAt).toLocaleDateString() })
+                        : t("neverExpires")}
+                    </p>
+                  </div>
+                ))}
+              </div>
+            </ModalBody>
+            <ModalFooter>
+              <Button variant="light" onPress={onClose}>
+                {tActions("close")}
+              </Button>
+            </ModalFooter>
+          </>
+        )}
+      </ModalContent>
+    </Modal>
+  );
+}
@@ -1,16 +1,25 @@
 "use client";
 
-import React, { useState } from "react";
+import React, { Fragment, useState } from "react";
 import { CheckIcon } from "@heroicons/react/20/solid";
 import Image from "next/image";
+import { useTranslations } from "next-intl";
 
 import { useRecipeContext } from "../context";
 
 import ImageLightbox from "@/components/shared/image-lightbox";
 import SmartMarkdownRenderer from "@/components/shared/smart-markdown-renderer";
+import { sectionStartingAt } from "@/lib/recipe-sections";
+import { formatScaledAmount, getStepIngredients, scaleStepText } from "@/lib/step-ingredients";
+import { parseRecipeLink } from "@/lib/sub-recipes";
+import { useUnitsQuery } from "@/hooks/config";
+import { useAmountDisplayPreference } from "@/hooks/use-amount-display-preference";
 
 export default function StepsList() {
-  const { recipe } = useRecipeContext();
+  const t = useTranslations("recipes.detail");
+  const { recipe, currentServings } = useRecipeContext();
+  const { units } = useUnitsQuery();
+  const { mode } = useAmountDisplayPreference();
   const [done, setDone] = useState<Set<number>>(() => new Set());
   const [lightboxOpen, setLightboxOpen] = useState(false);
   const [lightboxImages, setLightboxImages] = useState<{ src: string; alt?: string }[]>([]);
@@ -53,104 +62,123 @@ export default function StepsList() {
             recipe?.steps
               .filter((s) => s.systemUsed === recipe.systemUsed)
               .sort((a, b) => a.order - b.order) ?? [];
-
-          let stepNumber = 0;
+          const factor = recipe?.servings ? currentServings / recipe.servings : 1;
 
           return filteredSteps.map((s, i) => {
-            const isHeading = s.step.trim().startsWith("#");
+            const section = sectionStartingAt(filteredSteps, i);
             const isDone = done.has(i);
             const stepImages = s.images || [];
-
-            if (isHeading) {
-              const headingText = s.step.trim().replace(/^#+\s*/, "");
-
-              return (
-                <li key={i} className="list-none">
-                  <div className="px-3 py-2">
-                    <h3 className="text-foreground text-base font-semibold">{headingText}</h3>
-                  </div>
-                </li>
-              );
-            }
-
-            // Increment step number for actual steps
-            stepNumber++;
-            const currentStepNumber = stepNumber;
+            const currentStepNumber = i + 1;
+            const stepIngredients = getStepIngredients(s, recipe?.recipeIngredients ?? []);
 
             return (
-              <li key={i}>
-                <div
-                  aria-pressed={isDone}
-                  className="group hover:bg-default-100 dark:hover:bg-default-100/10 flex cursor-pointer gap-4 rounded-xl p-3 transition-all duration-200 select-none"
-                  role="button"
-                  tabIndex={0}
-                  onClick={() => toggle(i)}
-                  onKeyDown={(e) => onKeyToggle(e, i)}
-                >
-                  {/* Step number badge */}
-                  <div className="bg-primary text-primary-foreground relative flex h-7 w-7 shrink-0 items-center justify-center rounded-full text-sm font-semibold">
-                    <span
-                      className={`absolute inset-0 flex items-center justify-center transition-all duration-200 ${
-                        isDone ? "scale-0 opacity-0" : "scale-100 opacity-100"
-                      }`}
-                    >
-                      {currentStepNumber}
-                    </span>
-                    <CheckIcon
-                      className={`h-4 w-4 transition-all duration-200 ${
-                        isDone ? "scale-100 opacity-100" : "scale-0 opacity-0"
-                      }`}
-                    />
-                  </div>
-
-                  {/* Step content */}
-                  <div className="flex min-w-0 flex-1 flex-col gap-3">
-                    <p
-                      className={`text-base leading-relaxed transition-all duration-200 ${
-                        isDone ? "text-default-400 line-through" : "text-foreground"
-                      }`}
-                    >
-                      <SmartMarkdownRenderer disableLinks={isDone} text={s.step} />
-                    </p>
-
-                    {/* Step images */}
-                    {stepImages.length > 0 && (
-                      <div className="flex flex-wrap gap-2">
-                        {stepImages.map((img, imgIndex) => (
-                          <button
-                            key={imgIndex}
-                            className={`group/img ring-default-200 focus:ring-primary dark:ring-default-700 relative h-16 w-16 overflow-hidden rounded-lg shadow-sm ring-1 transition-all duration-200 focus:ring-2 focus:outline-none md:h-20 md:w-20 ${
-                              isDone
-                                ? "opacity-50 grayscale"
-                                : "hover:ring-primary-300 dark:hover:ring-primary-600 hover:scale-105 hover:shadow-md"
-                            }`}
-                            type="button"
-                            onClick={(e) =>
-                              openLightbox(
-                                stepImages.map((si) => ({
-                                  src: si.image,
-                                  alt: `Step ${currentStepNumber} image ${imgIndex + 1}`,
-                                })),
-                                imgIndex,
-                                e
-                              )
-                            }
-                          >
-                            <Image
-                              fill
-                              unoptimized
-                              alt={`Step ${currentStepNumber} image ${imgIndex + 1}`}
-                              className="object-cover"
-                              src={img.image}
-                            />
-                            <div className="absolute inset-0 bg-black/0 transition-colors group-hover/img:bg-black/10" />
-                          </button>
-                        ))}
-                      </div>
-                    )}
+              <Fragment key={i}>
+                {section && (
+                  <li className="list-none">
+                    <div className="px-3 py-2">
+                      <h3 className="text-foreground text-base font-semibold">{section}</h3>
+                    </div>
+                  </li>
+                )}
+                <li>
+                  <div
+                    aria-pressed={isDone}
+                    className="group hover:bg-default-100 dark:hover:bg-default-100/10 flex cursor-pointer gap-4 rounded-xl p-3 transition-all duration-200 select-none"
+                    role="button"
+                    tabIndex={0}
+                    onClick={() => toggle(i)}
+                    onKeyDown={(e) => onKeyToggle(e, i)}
+                  >
+                    {/* Step number badge */}
+                    <div className="bg-primary text-primary-foreground relative flex h-7 w-7 shrink-0 items-center justify-center rounded-full text-sm font-semibold">
+                      <span
+                        className={`absolute inset-0 flex items-center justify-center transition-all duration-200 ${
+                          isDone ? "scale-0 opacity-0" : "scale-100 opacity-100"
+                        }`}
+                      >
+                        {currentStepNumber}
+                      </span>
+                      <CheckIcon
+                        className={`h-4 w-4 transition-all duration-200 ${
+                          isDone ? "scale-100 opacity-100" : "scale-0 opacity-0"
+                        }`}
+                      />
+                    </div>
+
+                    {/* Step content */}
+                    <div className="flex min-w-0 flex-1 flex-col gap-3">
+                      <p
+                        className={`text-base leading-relaxed transition-all duration-200 ${
+                          isDone ? "text-default-400 line-through" : "text-foreground"
+                        }`}
+                      >
+                        <SmartMarkdownRenderer
+                          disableLinks={isDone}
+                          text={scaleStepText(s.step, stepIngredients, factor, { units, mode })}
+                        />
+                      </p>
+
+                      {/* Ingredients used in this step, scaled to the current servings */}
+                      {stepIngredients.length > 0 && (
+                        <ul aria-label={t("stepIngredients")} className="flex flex-wrap gap-1.5">
+                          {stepIngredients.map((ing) => (
+                            <li
+                              key={ing.id}
+                              className={`bg-default-100 dark:bg-default-100/10 rounded-full px-2.5 py-0.5 text-xs ${
+                                isDone ? "text-default-400" : "text-default-600"
+                              }`}
+                            >
+                              {[
+                                formatScaledAmount(ing.amount, factor, mode),
+                                ing.unit,
+                                parseRecipeLink(ing.ingredientName)?.name ?? ing.ingredientName,
+                              ]
+                                .filter(Boolean)
+                                .join(" ")}
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+
+                      {/* Step images */}
+                      {stepImages.length > 0 && (
+                        <div className="flex flex-wrap gap-2">
+                          {stepImages.map((img, imgIndex) => (
+                            <button
+                              key={imgIndex}
+                              className={`group/img ring-default-200 focus:ring-primary dark:ring-default-700 relative h-16 w-16 overflow-hidden rounded-lg shadow-sm ring-1 transition-all duration-200 focus:ring-2 focus:outline-none md:h-20 md:w-20 ${
+                                isDone
+                                  ? "opacity-50 grayscale"
+                                  : "hover:ring-primary-300 dark:hover:ring-primary-600 hover:scale-105 hover:shadow-md"
+                              }`}
+                              type="button"
+                              onClick={(e) =>
+                                openLightbox(
+                                  stepImages.map((si) => ({
+                                    src: si.image,
+                                    alt: `Step ${currentStepNumber} image ${imgIndex + 1}`,
+                                  })),
+                                  imgIndex,
+                                  e
+                                )
+                              }
+                            >
+                              <Image
+                                fill
+                                unoptimized
+                                alt={`Step ${currentStepNumber} image ${imgIndex + 1}`}
+                                className="object-cover"
+                                src={img.image}
+                              />
+                              <div className="absolute inset-0 bg-black/0 transition-colors group-hover/img:bg-black/10" />
+                            </button>
+                          ))}
+                        </div>
+                      )}
+                    </div>
                   </div>
-                </div>
-              </li>
+                </li>
+              </Fragment>
             );
           });
         })()}
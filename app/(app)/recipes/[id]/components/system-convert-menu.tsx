@@ -9,56 +9,31 @@ import {
   DropdownTrigger,
   Spinner,
 } from "@heroui/react";
-import { ArrowsRightLeftIcon, SparklesIcon } from "@heroicons/react/20/solid";
+import { ArrowsRightLeftIcon } from "@heroicons/react/20/solid";
 import { useTranslations } from "next-intl";
 
 import { useRecipeContextRequired } from "../context";
 
 import { MeasurementSystem } from "@/types";
-import { cssButtonPill, cssAIGradientText, cssAIIconColor } from "@/config/css-tokens";
-import { usePermissionsContext } from "@/context/permissions-context";
+import { cssButtonPill } from "@/config/css-tokens";
 
 type ConversionOption = {
   key: MeasurementSystem;
   label: string;
-  requiresAI: boolean;
 };
 
 export default function SystemConvertMenu() {
   const { recipe, convertingTo, startConversion } = useRecipeContextRequired();
-  const { isAIEnabled } = usePermissionsContext();
   const t = useTranslations("recipes.convert");
 
-  const availableSystems = useMemo(
-    () => Array.from(new Set(recipe.recipeIngredients.map((ri) => ri.systemUsed))),
-    [recipe.recipeIngredients]
+  const conversionOptions = useMemo<ConversionOption[]>(
+    () => [
+      { key: "metric", label: t("toMetric") },
+      { key: "us", label: t("toUS") },
+    ],
+    [t]
   );
 
-  // Build available conversion options
-  const conversionOptions = useMemo(() => {
-    const options: ConversionOption[] = [];
-
-    const metricRequiresAI = !availableSystems.includes("metric");
-    const usRequiresAI = !availableSystems.includes("us");
-
-    // Add metric option if available (has data) or AI is enabled
-    if (!metricRequiresAI || isAIEnabled) {
-      options.push({ key: "metric", label: t("toMetric"), requiresAI: metricRequiresAI });
-    }
-
-    // Add US option if available (has data) or AI is enabled
-    if (!usRequiresAI || isAIEnabled) {
-      options.push({ key: "us", label: t("toUS"), requiresAI: usRequiresAI });
-    }
-
-    return options;
-  }, [availableSystems, isAIEnabled, t]);
-
-  // If no conversion options available, don't show the menu
-  if (conversionOptions.length === 0) {
-    return null;
-  }
-
   const currentSystem: MeasurementSystem = convertingTo != null ? convertingTo : recipe.systemUsed;
 
   const handleConvert = async (target: MeasurementSystem) => {
@@ -103,19 +78,11 @@ export default function SystemConvertMenu() {
               className={`w-full justify-start bg-transparent ${cssButtonPill}`}
               radius="full"
               size="md"
-              startContent={
-                item.requiresAI ? (
-                  <SparklesIcon className={`size-4 ${cssAIIconColor}`} />
-                ) : (
-                  <ArrowsRightLeftIcon className="text-default-400 size-4" />
-                )
-              }
+              startContent={<ArrowsRightLeftIcon className="text-default-400 size-4" />}
               variant="light"
               onPress={() => handleConvert(item.key)}
             >
-              <span className={`text-sm font-medium ${item.requiresAI ? cssAIGradientText : ""}`}>
-                {item.label}
-              </span>
+              <span className="text-sm font-medium">{item.label}</span>
             </Button>
           </DropdownItem>
         )}
@@ -56,12 +56,17 @@ type Ctx = {
 
 const RecipeContext = createContext<Ctx | null>(null);
 
-type ProviderProps = { recipeId: string; children: ReactNode | ((ctx: Ctx) => ReactNode) };
+type ProviderProps = {
+  recipeId: string;
+  // Servings to open the recipe with, e.g. the servings planned in the calendar
+  initialServings?: number;
+  children: ReactNode | ((ctx: Ctx) => ReactNode);
+};
 
-export function RecipeContextProvider({ recipeId, children }: ProviderProps) {
+export function RecipeContextProvider({ recipeId, initialServings, children }: ProviderProps) {
   const trpc = useTRPC();
   const { recipe, isLoading, error, invalidate: _invalidate } = useRecipeQuery(recipeId);
-  const [_servings, setServings] = useState<number | null>(null);
+  const [_servings, setServings] = useState<number | null>(initialServings ?? null);
   const [convertingTo, setConvertingTo] = useState<MeasurementSystem | null>(null);
   const [adjustedIngredients, setAdjustedIngredients] = useState<RecipeIngredientsDto[]>([]);
 
@@ -131,8 +136,9 @@ export function RecipeContextProvider({ recipeId, children }: ProviderProps) {
     if (!recipe) return;
 
     if (lastRecipeIdRef.current !== recipe.id) {
+      // The first recipe keeps the servings it was opened with
+      if (lastRecipeIdRef.current !== null) setServings(null);
       lastRecipeIdRef.current = recipe.id;
-      setServings(null);
     }
   }, [recipe]);
 
@@ -1,12 +1,14 @@
 "use client";
 
 import { use, useEffect } from "react";
+import { useSearchParams } from "next/navigation";
 import { useTranslations } from "next-intl";
 
 import RecipePageDesktop from "./recipe-page-desktop";
 import RecipePageMobile from "./recipe-page-mobile";
 import { RecipeContextProvider, useRecipeContext } from "./context";
 import { WakeLockProvider } from "./components/wake-lock-context";
+import { CookModeProvider } from "./components/cook-mode-context";
 
 import RecipeSkeleton from "@/components/skeleton/recipe-skeleton";
 import { NotFoundView } from "@/components/shared/not-found-view";
@@ -49,11 +51,19 @@ function RecipePageContent() {
 
 export default function RecipeDetailPage({ params }: Props) {
   const { id } = use(params);
+  const searchParams = useSearchParams();
+
+  // Links from the calendar carry the planned servings
+  const servingsParam = Number(searchParams.get("servings"));
+  const initialServings =
+    Number.isInteger(servingsParam) && servingsParam > 0 ? servingsParam : undefined;
 
   return (
-    <RecipeContextProvider recipeId={id}>
+    <RecipeContextProvider initialServings={initialServings} recipeId={id}>
       <WakeLockProvider>
-        <RecipePageContent />
+        <CookModeProvider>
+          <RecipePageContent />
+        </CookModeProvider>
       </WakeLockProvider>
     </RecipeContextProvider>
   );
@@ -23,6 +23,7 @@ import IngredientsList from "@/app/(app)/recipes/[id]/components/ingredient-list
 import ActionsMenu from "@/app/(app)/recipes/[id]/components/actions-menu";
 import AddToGroceries from "@/app/(app)/recipes/[id]/components/add-to-groceries-button";
 import WakeLockToggle from "@/app/(app)/recipes/[id]/components/wake-lock-toggle";
+import CookModeButton from "@/app/(app)/recipes/[id]/components/cook-mode-button";
 import MediaCarousel, { buildMediaItems } from "@/components/shared/media-carousel";
 import SmartMarkdownRenderer from "@/components/shared/smart-markdown-renderer";
 import HeartButton from "@/components/shared/heart-button";
@@ -203,7 +204,10 @@ export default function RecipePageDesktop() {
           <Card className="bg-content1 rounded-2xl shadow-md">
             <CardHeader className="flex items-center justify-between px-6 pt-6">
               <h2 className="text-lg font-semibold">{t("steps")}</h2>
-              <WakeLockToggle />
+              <div className="flex items-center gap-3">
+                <CookModeButton />
+                <WakeLockToggle />
+              </div>
             </CardHeader>
             <CardBody className="px-3 pt-2 pb-0">
               <StepsList />
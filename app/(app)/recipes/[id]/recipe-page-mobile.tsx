@@ -18,6 +18,7 @@ import AmountDisplayToggle from "@/app/(app)/recipes/[id]/components/amount-disp
 import StepsList from "@/app/(app)/recipes/[id]/components/steps-list";
 import SystemConvertMenu from "@/app/(app)/recipes/[id]/components/system-convert-menu";
 import WakeLockToggle from "@/app/(app)/recipes/[id]/components/wake-lock-toggle";
+import CookModeButton from "@/app/(app)/recipes/[id]/components/cook-mode-button";
 import { formatMinutesHM, sortTagsWithAllergyPriority, isAllergenTag } from "@/lib/helpers";
 import SmartMarkdownRenderer from "@/components/shared/smart-markdown-renderer";
 import HeartButton from "@/components/shared/heart-button";
@@ -190,7 +191,10 @@ export default function RecipePageMobile() {
           <div className="space-y-4">
             <div className="flex items-center justify-between">
               <h2 className="text-lg font-semibold">{t("steps")}</h2>
-              <WakeLockToggle />
+              <div className="flex items-center gap-3">
+                <CookModeButton />
+                <WakeLockToggle />
+              </div>
             </div>
 
             <div className="-mx-1">
@@ -21,6 +21,8 @@ import EditRecipeSkeleton from "@/components/skeleton/edit-recipe-skeleton";
 import { useRecipesContext } from "@/context/recipes-context";
 import { inferSystemUsedFromParsed } from "@/lib/determine-recipe-system";
 import { parseIngredientWithDefaults } from "@/lib/helpers";
+import { applySectionHeadings, withSectionHeadings } from "@/lib/recipe-sections";
+import { toIngredientLinkText } from "@/lib/sub-recipes";
 import { useUnitsQuery } from "@/hooks/config";
 import { useRecipeId } from "@/hooks/recipes";
 
@@ -115,6 +117,21 @@ export default function RecipeForm({ mode, initialData }: RecipeFormProps) {
   const [protein, setProtein] = useState<number | null>(
     initialData?.protein != null ? Number(initialData.protein) : null
   );
+  const [fiber, setFiber] = useState<number | null>(
+    initialData?.fiber != null ? Number(initialData.fiber) : null
+  );
+  const [sugar, setSugar] = useState<number | null>(
+    initialData?.sugar != null ? Number(initialData.sugar) : null
+  );
+  const [saturatedFat, setSaturatedFat] = useState<number | null>(
+    initialData?.saturatedFat != null ? Number(initialData.saturatedFat) : null
+  );
+  const [sodium, setSodium] = useState<number | null>(
+    initialData?.sodium != null ? Number(initialData.sodium) : null
+  );
+  const [cholesterol, setCholesterol] = useState<number | null>(
+    initialData?.cholesterol != null ? Number(initialData.cholesterol) : null
+  );
 
   // Show recipe ID error if reservation failed
   useEffect(() => {
@@ -124,16 +141,26 @@ export default function RecipeForm({ mode, initialData }: RecipeFormProps) {
   }, [recipeIdError]);
 
   // Initialize ingredients and steps from initialData
-  // Filter by the current systemUsed to only show items for the active measurement system
+  // Filter by the current systemUsed to only show items for the active measurement system.
+  // Sections are edited as "# Heading" lines.
   useEffect(() => {
     if (initialData && mode === "edit") {
       // Filter ingredients by the recipe's measurement system
-      const filteredIngredients = initialData.recipeIngredients.filter(
-        (ing) => ing.systemUsed === initialData.systemUsed
-      );
-
-      const initIngredients: ParsedIngredient[] = filteredIngredients.map((ing) => ({
-        ingredientName: ing.ingredientName,
+      const filteredIngredients = initialData.recipeIngredients
+        .filter((ing) => ing.systemUsed === initialData.systemUsed)
+        .sort((a, b) => a.order - b.order);
+
+      const initIngredients: ParsedIngredient[] = withSectionHeadings(
+        filteredIngredients,
+        (section, ing) => ({
+          ingredientName: `# ${section}`.trim(),
+          amount: null,
+          unit: null,
+          order: ing.order,
+          systemUsed: ing.systemUsed,
+        })
+      ).map((ing) => ({
+        ingredientName: toIngredientLinkText(ing),
         amount: ing.amount,
         unit: ing.unit,
         order: ing.order,
@@ -143,11 +170,16 @@ export default function RecipeForm({ mode, initialData }: RecipeFormProps) {
       setIngredients(initIngredients);
 
       // Filter steps by the recipe's measurement system
-      const filteredSteps = initialData.steps.filter(
-        (s) => s.systemUsed === initialData.systemUsed
-      );
+      const filteredSteps = initialData.steps
+        .filter((s) => s.systemUsed === initialData.systemUsed)
+        .sort((a, b) => a.order - b.order);
 
-      const initSteps: Step[] = filteredSteps.map((s) => ({
+      const initSteps: Step[] = withSectionHeadings(filteredSteps, (section, s) => ({
+        step: `# ${section}`.trim(),
+        order: s.order,
+        systemUsed: s.systemUsed,
+        images: [],
+      })).map((s) => ({
         step: s.step,
         order: s.order,
         systemUsed: s.systemUsed,
@@ -249,20 +281,29 @@ export default function RecipeForm({ mode, initialData }: RecipeFormProps) {
         fat: fat != null ? fat.toString() : null,
         carbs: carbs != null ? carbs.toString() : null,
         protein: protein != null ? protein.toString() : null,
+        fiber: fiber != null ? fiber.toString() : null,
+        sugar: sugar != null ? sugar.toString() : null,
+        saturatedFat: saturatedFat != null ? saturatedFat.toString() : null,
+        sodium: sodium != null ? sodium.toString() : null,
+        cholesterol: cholesterol != null ? cholesterol.toString() : null,
         systemUsed,
         tags: tags.map((t) => ({ name: t })),
-        recipeIngredients: ingredients.map((ing, idx) => ({
-          ingredientName: ing.ingredientName,
-          ingredientId: null,
-          amount: ing.amount,
-          unit: ing.unit,
-          order: idx,
-          systemUsed: ing.systemUsed,
-        })),
-        steps: steps.map((s, idx) => ({
+        recipeIngredients: applySectionHeadings(ingredients, (ing) => ing.ingredientName).map(
+          (ing, idx) => ({
+            ingredientName: ing.ingredientName,
+            ingredientId: null,
+            amount: ing.amount,
+            unit: ing.unit,
+            order: idx,
+            systemUsed: ing.systemUsed,
+            section: ing.section,
+          })
+        ),
+        steps: applySectionHeadings(steps, (s) => s.step).map((s, idx) => ({
           step: s.step,
           order: idx,
           systemUsed: s.systemUsed,
+          section: s.section,
           images: s.images || [],
         })),
         // Images array field
@@ -309,6 +350,11 @@ export default function RecipeForm({ mode, initialData }: RecipeFormProps) {
     fat,
     carbs,
     protein,
+    fiber,
+    sugar,
+    saturatedFat,
+    sodium,
+    cholesterol,
   ]);
 
   const handleTimeChange = useCallback(
@@ -516,6 +562,56 @@ export default function RecipeForm({ mode, initialData }: RecipeFormProps) {
                 value={protein != null ? protein.toString() : ""}
                 onValueChange={(v) => setProtein(v ? parseFloat(v) || null : null)}
               />
+              <Input
+                classNames={{ label: "font-medium text-base" }}
+                label={t("fiber")}
+                min={0}
+                placeholder="—"
+                step={0.1}
+                type="number"
+                value={fiber != null ? fiber.toString() : ""}
+                onValueChange={(v) => setFiber(v ? parseFloat(v) || null : null)}
+              />
+              <Input
+                classNames={{ label: "font-medium text-base" }}
+                label={t("sugar")}
+                min={0}
+                placeholder="—"
+                step={0.1}
+                type="number"
+                value={sugar != null ? sugar.toString() : ""}
+                onValueChange={(v) => setSugar(v ? parseFloat(v) || null : null)}
+              />
+              <Input
+                classNames={{ label: "font-medium text-base" }}
+                label={t("saturatedFat")}
+                min={0}
+                placeholder="—"
+                step={0.1}
+                type="number"
+                value={saturatedFat != null ? saturatedFat.toString() : ""}
+                onValueChange={(v) => setSaturatedFat(v ? parseFloat(v) || null : null)}
+              />
+              <Input
+                classNames={{ label: "font-medium text-base" }}
+                label={t("sodium")}
+                min={0}
+                placeholder="—"
+                step={1}
+                type="number"
+                value={sodium != null ? sodium.toString() : ""}
+                onValueChange={(v) => setSodium(v ? parseFloat(v) || null : null)}
+              />
+              <Input
+                classNames={{ label: "font-medium text-base" }}
+                label={t("cholesterol")}
+                min={0}
+                placeholder="—"
+                step={1}
+                type="number"
+                value={cholesterol != null ? cholesterol.toString() : ""}
+                onValueChange={(v) => setCholesterol(v ? parseFloat(v) || null : null)}
+              />
             </div>
           </div>
         </section>
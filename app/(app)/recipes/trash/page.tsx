@@ -0,0 +1,182 @@
+"use client";
+
+import type { RecipeTrashItemDTO } from "@/types";
+
+import { useMemo, useState } from "react";
+import {
+  addToast,
+  Button,
+  Image,
+  Modal,
+  ModalBody,
+  ModalContent,
+  ModalFooter,
+  ModalHeader,
+  Spinner,
+} from "@heroui/react";
+import { ArrowUturnLeftIcon, PhotoIcon, TrashIcon } from "@heroicons/react/16/solid";
+import { addDays, differenceInCalendarDays } from "date-fns";
+import { useLocale, useTranslations } from "next-intl";
+
+import { useRecipeTrash } from "@/hooks/recipes";
+
+function daysLeft(deletedAt: Date, retentionDays: number): number {
+  return Math.max(0, differenceInCalendarDays(addDays(deletedAt, retentionDays), new Date()));
+}
+
+export default function RecipeTrashPage() {
+  const t = useTranslations("recipes.trash");
+  const tActions = useTranslations("common.actions");
+  const locale = useLocale();
+  const {
+    recipes,
+    retentionDays,
+    isLoading,
+    restoreRecipe,
+    permanentlyDeleteRecipe,
+    isRestoring,
+    isDeleting,
+  } = useRecipeTrash();
+  const [deleting, setDeleting] = useState<RecipeTrashItemDTO | null>(null);
+
+  const dateFormatter = useMemo(
+    () => new Intl.DateTimeFormat(locale, { dateStyle: "medium", timeStyle: "short" }),
+    [locale]
+  );
+
+  const handleRestore = async (recipe: RecipeTrashItemDTO) => {
+    try {
+      await restoreRecipe(recipe.id);
+      addToast({
+        severity: "success",
+        title: t("restored", { name: recipe.name }),
+        radius: "full",
+      });
+    } catch (error) {
+      addToast({
+        severity: "danger",
+        title: t("restoreFailed"),
+        description: (error as Error).message,
+        shouldShowTimeoutProgress: true,
+        radius: "full",
+      });
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+
+    try {
+      await permanentlyDeleteRecipe(deleting.id);
+      setDeleting(null);
+    } catch (error) {
+      addToast({
+        severity: "danger",
+        title: t("deleteFailed"),
+        description: (error as Error).message,
+        shouldShowTimeoutProgress: true,
+        radius: "full",
+      });
+    }
+  };
+
+  return (
+    <div className="mx-auto flex w-full max-w-3xl flex-col gap-6">
+      <div className="flex flex-col gap-1">
+        <h1 className="text-2xl font-bold">{t("title")}</h1>
+        {retentionDays !== undefined && (
+          <p className="text-default-500 text-sm">{t("description", { days: retentionDays })}</p>
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center p-4">
+          <Spinner size="sm" />
+        </div>
+      ) : recipes.length === 0 ? (
+        <p className="text-default-500 text-sm">{t("empty")}</p>
+      ) : (
+        <div className="flex flex-col gap-2">
+          {recipes.map((recipe) => (
+            <div
+              key={recipe.id}
+              className="bg-default-100 flex items-center gap-3 rounded-lg px-3 py-2"
+            >
+              {recipe.image ? (
+                <Image
+                  removeWrapper
+                  alt={recipe.name}
+                  className="h-12 w-12 rounded-md object-cover"
+                  src={recipe.image}
+                />
+              ) : (
+                <div className="bg-default-200 flex h-12 w-12 shrink-0 items-center justify-center rounded-md">
+                  <PhotoIcon className="text-default-400 h-5 w-5" />
+                </div>
+              )}
+              <div className="flex min-w-0 flex-1 flex-col">
+                <span className="truncate font-medium">{recipe.name}</span>
+                <span className="text-default-500 text-xs">
+                  {recipe.deletedBy?.name
+                    ? t("deletedBy", {
+                        name: recipe.deletedBy.name,
+                        date: dateFormatter.format(new Date(recipe.deletedAt)),
+                      })
+                    : t("deletedAt", { date: dateFormatter.format(new Date(recipe.deletedAt)) })}
+                </span>
+                {retentionDays !== undefined && (
+                  <span className="text-default-500 text-xs">
+                    {t("daysLeft", {
+                      count: daysLeft(new Date(recipe.deletedAt), retentionDays),
+                    })}
+                  </span>
+                )}
+              </div>
+              <Button
+                isDisabled={isRestoring}
+                size="sm"
+                startContent={<ArrowUturnLeftIcon className="h-4 w-4" />}
+                variant="flat"
+                onPress={() => handleRestore(recipe)}
+              >
+                {t("restore")}
+              </Button>
+              <Button
+                isIconOnly
+                aria-label={t("deleteForever")}
+                color="danger"
+                size="sm"
+                variant="light"
+                onPress={() => setDeleting(recipe)}
+              >
+                <TrashIcon className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <Modal isOpen={deleting !== null} onOpenChange={(open) => !open && setDeleting(null)}>
+        <ModalContent>
+          {(onClose) => (
+            <>
+              <ModalHeader>{t("deleteModal.title")}</ModalHeader>
+              <ModalBody>
+                <p>{t("deleteModal.confirmMessage", { name: deleting?.name ?? "" })}</p>
+                <p className="text-default-500 text-sm">{t("deleteModal.warning")}</p>
+              </ModalBody>
+              <ModalFooter>
+                <Button variant="flat" onPress={onClose}>
+                  {tActions("cancel")}
+                </Button>
+                <Button color="danger" isLoading={isDeleting} onPress={handleDelete}>
+                  {t("deleteForever")}
+                </Button>
+              </ModalFooter>
+            </>
+          )}
+        </ModalContent>
+      </Modal>
+    </div>
+  );
+}
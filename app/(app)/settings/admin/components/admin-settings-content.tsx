@@ -8,6 +8,8 @@ import ContentDetectionCard from "./content-detection-card";
 import SystemCard from "./system-card";
 import AIProcessingCard from "./ai-processing-card";
 import PermissionPolicyCard from "./permission-policy-card";
+import RateLimitsCard from "./rate-limits-card";
+import AIUsageCard from "./ai-usage-card";
 
 import SettingsSkeleton from "@/components/skeleton/settings-skeleton";
 
@@ -25,6 +27,8 @@ function AdminSettingsContent() {
       <AuthProvidersCard />
       <ContentDetectionCard />
       <AIProcessingCard />
+      <RateLimitsCard />
+      <AIUsageCard />
       <SystemCard />
     </div>
   );
@@ -0,0 +1,320 @@
+"use client";
+
+import type { AIQuotas } from "@/server/db/zodSchemas/server-config";
+import type { AIUsageSummaryRow } from "@/server/db/zodSchemas/ai-usage";
+
+import { useState, useEffect, useMemo } from "react";
+import {
+  Autocomplete,
+  AutocompleteItem,
+  Card,
+  CardBody,
+  CardHeader,
+  Input,
+  Button,
+  Select,
+  SelectItem,
+  Table,
+  TableHeader,
+  TableColumn,
+  TableBody,
+  TableRow,
+  TableCell,
+} from "@heroui/react";
+import { ChartBarIcon, CheckIcon, TrashIcon } from "@heroicons/react/16/solid";
+import { useFormatter, useTranslations } from "next-intl";
+
+import { useAdminSettingsContext } from "../context";
+
+import { useAIQuotaTargetsQuery, useAIUsageSummaryQuery } from "@/hooks/admin";
+import { DEFAULT_AI_QUOTAS } from "@/server/db/zodSchemas/server-config";
+
+const USAGE_MONTHS = 6;
+const MAX_QUOTA_TOKENS = 1_000_000_000;
+
+type OverrideField = "userOverrides" | "householdOverrides";
+
+interface QuotaTarget {
+  id: string;
+  name: string | null;
+}
+
+interface UsageTotals {
+  key: string;
+  label: string;
+  requests: number;
+  totalTokens: number;
+}
+
+/** Last N months as YYYY-MM (UTC), newest first */
+function recentMonths(count: number): string[] {
+  const now = new Date();
+
+  return Array.from({ length: count }, (_, i) =>
+    new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - i, 1)).toISOString().slice(0, 7)
+  );
+}
+
+/** Clamp a quota input to whole tokens between 0 and the maximum */
+function parseQuota(value: string): number {
+  return Math.min(MAX_QUOTA_TOKENS, Math.max(0, parseInt(value) || 0));
+}
+
+/** Sum rows by key, largest token count first */
+function totalsBy(
+  rows: AIUsageSummaryRow[],
+  keyOf: (row: AIUsageSummaryRow) => string,
+  labelOf: (row: AIUsageSummaryRow) => string
+): UsageTotals[] {
+  const totals = new Map<string, UsageTotals>();
+
+  for (const row of rows) {
+    const key = keyOf(row);
+    const current = totals.get(key) ?? { key, label: labelOf(row), requests: 0, totalTokens: 0 };
+
+    current.requests += row.requests;
+    current.totalTokens += row.totalTokens;
+    totals.set(key, current);
+  }
+
+  return Array.from(totals.values()).sort((a, b) => b.totalTokens - a.totalTokens);
+}
+
+export default function AIUsageCard() {
+  const t = useTranslations("settings.admin.aiUsage");
+  const tActions = useTranslations("common.actions");
+  const format = useFormatter();
+  const { aiQuotas, updateAIQuotas } = useAdminSettingsContext();
+  const { rows } = useAIUsageSummaryQuery(USAGE_MONTHS);
+  const months = useMemo(() => recentMonths(USAGE_MONTHS), []);
+  const [month, setMonth] = useState(months[0]);
+  const [quotas, setQuotas] = useState<AIQuotas>(aiQuotas ?? DEFAULT_AI_QUOTAS);
+  const [saving, setSaving] = useState(false);
+  const targets = useAIQuotaTargetsQuery();
+
+  useEffect(() => {
+    if (aiQuotas !== undefined) {
+      setQuotas(aiQuotas);
+    }
+  }, [aiQuotas]);
+
+  const monthRows = useMemo(() => rows.filter((r) => r.month === month), [rows, month]);
+  const byUser = useMemo(
+    () =>
+      totalsBy(
+        monthRows,
+        (r) => r.userId ?? "",
+        (r) => r.userName ?? t("unknownUser")
+      ),
+    [monthRows, t]
+  );
+  const byFeature = useMemo(
+    () =>
+      totalsBy(
+        monthRows,
+        (r) => r.feature,
+        (r) => t(`features.${r.feature}`)
+      ),
+    [monthRows, t]
+  );
+
+  const setQuota = (field: "userMonthlyTokens" | "householdMonthlyTokens", value: string) => {
+    setQuotas((prev) => ({ ...prev, [field]: parseQuota(value) }));
+  };
+
+  const setOverride = (field: OverrideField, id: string, tokens: number) => {
+    setQuotas((prev) => ({ ...prev, [field]: { ...prev[field], [id]: tokens } }));
+  };
+
+  const removeOverride = (field: OverrideField, id: string) => {
+    setQuotas((prev) => {
+      const { [id]: _removed, ...rest } = prev[field];
+
+      return { ...prev, [field]: rest };
+    });
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await updateAIQuotas(quotas);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const formatMonth = (value: string) =>
+    format.dateTime(new Date(`${value}-01T00:00:00Z`), {
+      year: "numeric",
+      month: "long",
+      timeZone: "UTC",
+    });
+
+  const renderTable = (label: string, column: string, totals: UsageTotals[]) => (
+    <Table removeWrapper aria-label={label}>
+      <TableHeader>
+        <TableColumn>{column}</TableColumn>
+        <TableColumn align="end">{t("requests")}</TableColumn>
+        <TableColumn align="end">{t("tokens")}</TableColumn>
+      </TableHeader>
+      <TableBody emptyContent={t("empty")}>
+        {totals.map((row) => (
+          <TableRow key={row.key}>
+            <TableCell>{row.label}</TableCell>
+            <TableCell>{format.number(row.requests)}</TableCell>
+            <TableCell>{format.number(row.totalTokens)}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+
+  const renderOverrides = (
+    field: OverrideField,
+    label: string,
+    targetList: QuotaTarget[],
+    defaultTokens: number
+  ) => {
+    const names = new Map(targetList.map((target) => [target.id, target.name]));
+    const available = targetList.filter((target) => quotas[field][target.id] === undefined);
+
+    return (
+      <div className="flex flex-col gap-2">
+        <h4 className="text-sm font-medium">{label}</h4>
+        <ul className="flex flex-col gap-2">
+          {Object.entries(quotas[field]).map(([id, tokens]) => (
+            <li key={id} className="flex items-center gap-2">
+              <span className="min-w-0 flex-1 truncate text-sm">
+                {names.get(id) ?? t("quotas.unknownTarget")}
+              </span>
+              <Input
+                aria-label={t("quotas.overrideTokens")}
+                className="max-w-40"
+                max={MAX_QUOTA_TOKENS}
+                min={0}
+                size="sm"
+                type="number"
+                value={tokens.toString()}
+                onValueChange={(v) => setOverride(field, id, parseQuota(v))}
+              />
+              <Button
+                isIconOnly
+                aria-label={t("quotas.removeOverride")}
+                color="danger"
+                size="sm"
+                variant="light"
+                onPress={() => removeOverride(field, id)}
+              >
+                <TrashIcon className="h-4 w-4" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+        <Autocomplete
+          aria-label={t("quotas.addOverride")}
+          className="max-w-xs"
+          isDisabled={available.length === 0}
+          isLoading={targets.isLoading}
+          placeholder={t("quotas.addOverride")}
+          selectedKey={null}
+          size="sm"
+          onSelectionChange={(key) => key && setOverride(field, String(key), defaultTokens)}
+        >
+          {available.map((target) => (
+            <AutocompleteItem key={target.id}>{target.name ?? target.id}</AutocompleteItem>
+          ))}
+        </Autocomplete>
+      </div>
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <h2 className="flex items-center gap-2 text-lg font-semibold">
+          <ChartBarIcon className="h-5 w-5" />
+          {t("title")}
+        </h2>
+      </CardHeader>
+      <CardBody className="gap-6">
+        <p className="text-default-500 text-base">{t("description")}</p>
+
+        <Select
+          className="max-w-xs"
+          label={t("month")}
+          selectedKeys={[month]}
+          onSelectionChange={(keys) => {
+            const selected = Array.from(keys)[0];
+
+            if (selected) setMonth(String(selected));
+          }}
+        >
+          {months.map((m) => (
+            <SelectItem key={m}>{formatMonth(m)}</SelectItem>
+          ))}
+        </Select>
+
+        <div className="flex flex-col gap-2">
+          <h3 className="font-medium">{t("perUser")}</h3>
+          {renderTable(t("perUser"), t("user"), byUser)}
+        </div>
+
+        <div className="flex flex-col gap-2">
+          <h3 className="font-medium">{t("perFeature")}</h3>
+          {renderTable(t("perFeature"), t("feature"), byFeature)}
+        </div>
+
+        <div className="flex flex-col gap-4">
+          <div className="flex flex-col gap-0.5">
+            <h3 className="font-medium">{t("quotas.title")}</h3>
+            <span className="text-default-500 text-xs">{t("quotas.description")}</span>
+          </div>
+          <div className="flex flex-col gap-2 sm:flex-row">
+            <Input
+              label={t("quotas.userMonthlyTokens")}
+              max={MAX_QUOTA_TOKENS}
+              min={0}
+              size="sm"
+              type="number"
+              value={quotas.userMonthlyTokens.toString()}
+              onValueChange={(v) => setQuota("userMonthlyTokens", v)}
+            />
+            <Input
+              label={t("quotas.householdMonthlyTokens")}
+              max={MAX_QUOTA_TOKENS}
+              min={0}
+              size="sm"
+              type="number"
+              value={quotas.householdMonthlyTokens.toString()}
+              onValueChange={(v) => setQuota("householdMonthlyTokens", v)}
+            />
+          </div>
+          <p className="text-default-500 text-xs">{t("quotas.unlimitedHint")}</p>
+          {renderOverrides(
+            "userOverrides",
+            t("quotas.userOverrides"),
+            targets.users,
+            quotas.userMonthlyTokens
+          )}
+          {renderOverrides(
+            "householdOverrides",
+            t("quotas.householdOverrides"),
+            targets.households,
+            quotas.householdMonthlyTokens
+          )}
+        </div>
+
+        <div className="flex justify-end">
+          <Button
+            color="primary"
+            isLoading={saving}
+            startContent={<CheckIcon className="h-5 w-5" />}
+            onPress={handleSave}
+          >
+            {tActions("save")}
+          </Button>
+        </div>
+      </CardBody>
+    </Card>
+  );
+}
@@ -7,6 +7,8 @@ import { useTranslations } from "next-intl";
 import { useAdminSettingsContext } from "../context";
 
 import JsonEditor from "./json-editor";
+import IngredientDensitiesEditor from "./ingredient-densities-editor";
+import UnitConversionsEditor from "./unit-conversions-editor";
 
 import { ServerConfigKeys } from "@/server/db/zodSchemas/server-config";
 
@@ -15,9 +17,11 @@ export default function ContentDetectionCard() {
   const {
     contentIndicators,
     units,
+    ingredientDensities,
     recurrenceConfig,
     updateContentIndicators,
     updateUnits,
+    updateIngredientDensities,
     updateRecurrenceConfig,
     restoreDefaultConfig,
   } = useAdminSettingsContext();
@@ -52,6 +56,7 @@ export default function ContentDetectionCard() {
             <div className="p-2">
               <JsonEditor
                 description={t("units.description")}
+                fileName="units.json"
                 value={units}
                 onRestoreDefaults={() => restoreDefaultConfig(ServerConfigKeys.UNITS)}
                 onSave={updateUnits}
@@ -59,6 +64,32 @@ export default function ContentDetectionCard() {
             </div>
           </AccordionItem>
 
+          <AccordionItem
+            key="conversions"
+            subtitle={t("conversions.subtitle")}
+            title={t("conversions.title")}
+          >
+            <div className="p-2">
+              <UnitConversionsEditor units={units} onSave={updateUnits} />
+            </div>
+          </AccordionItem>
+
+          <AccordionItem
+            key="densities"
+            subtitle={t("densities.subtitle")}
+            title={t("densities.title")}
+          >
+            <div className="p-2">
+              <IngredientDensitiesEditor
+                value={ingredientDensities}
+                onRestoreDefaults={() =>
+                  restoreDefaultConfig(ServerConfigKeys.INGREDIENT_DENSITIES)
+                }
+                onSave={updateIngredientDensities}
+              />
+            </div>
+          </AccordionItem>
+
           <AccordionItem
             key="recurrence"
             subtitle={t("recurrence.subtitle")}
@@ -0,0 +1,285 @@
+"use client";
+
+import type { IngredientDensities } from "@/server/db/zodSchemas/server-config";
+
+import { useCallback, useEffect, useState } from "react";
+import { Button, Checkbox, Input } from "@heroui/react";
+import {
+  ArrowPathIcon,
+  CheckIcon,
+  ExclamationTriangleIcon,
+  PlusIcon,
+  TrashIcon,
+} from "@heroicons/react/16/solid";
+import { useTranslations } from "next-intl";
+
+import JsonFileButtons from "./json-file-buttons";
+
+type Row = {
+  id: string;
+  name: string;
+  alternates: string;
+  gramsPerMl: string;
+  gramsPerPiece: string;
+  weighInMetric: boolean;
+};
+
+function toRows(densities: IngredientDensities): Row[] {
+  return Object.entries(densities).map(([name, d]) => ({
+    id: crypto.randomUUID(),
+    name,
+    alternates: d.alternates.join(", "),
+    gramsPerMl: d.gramsPerMl?.toString() ?? "",
+    gramsPerPiece: d.gramsPerPiece?.toString() ?? "",
+    weighInMetric: d.weighInMetric ?? false,
+  }));
+}
+
+function parseNumber(value: string): number | undefined {
+  const n = Number(value.replace(",", "."));
+
+  return value.trim() && Number.isFinite(n) ? n : undefined;
+}
+
+function toDensities(rows: Row[]): IngredientDensities {
+  const densities: IngredientDensities = {};
+
+  for (const row of rows) {
+    const name = row.name.trim().toLowerCase();
+
+    if (!name) continue;
+
+    densities[name] = {
+      alternates: row.alternates
+        .split(",")
+        .map((a) => a.trim())
+        .filter(Boolean),
+      gramsPerMl: parseNumber(row.gramsPerMl),
+      gramsPerPiece: parseNumber(row.gramsPerPiece),
+      weighInMetric: row.weighInMetric || undefined,
+    };
+  }
+
+  return densities;
+}
+
+interface IngredientDensitiesEditorProps {
+  value: IngredientDensities | undefined;
+  onSave: (json: string) => Promise<{ success: boolean; error?: string }>;
+  onRestoreDefaults: () => Promise<{ success: boolean; error?: string }>;
+}
+
+export default function IngredientDensitiesEditor({
+  value,
+  onSave,
+  onRestoreDefaults,
+}: IngredientDensitiesEditorProps) {
+  const t = useTranslations("settings.admin.contentDetection.densities");
+  const tEditor = useTranslations("settings.admin.jsonEditor");
+  const tActions = useTranslations("common.actions");
+  const [rows, setRows] = useState<Row[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [isDirty, setIsDirty] = useState(false);
+
+  useEffect(() => {
+    if (value !== undefined) {
+      setRows(toRows(value));
+      setIsDirty(false);
+      setError(null);
+    }
+  }, [value]);
+
+  const updateRow = useCallback((id: string, patch: Partial<Row>) => {
+    setRows((prev) => prev.map((row) => (row.id === id ? { ...row, ...patch } : row)));
+    setIsDirty(true);
+  }, []);
+
+  const removeRow = useCallback((id: string) => {
+    setRows((prev) => prev.filter((row) => row.id !== id));
+    setIsDirty(true);
+  }, []);
+
+  const addRow = useCallback(() => {
+    setRows((prev) => [
+      ...prev,
+      {
+        id: crypto.randomUUID(),
+        name: "",
+        alternates: "",
+        gramsPerMl: "",
+        gramsPerPiece: "",
+        weighInMetric: false,
+      },
+    ]);
+    setIsDirty(true);
+  }, []);
+
+  const handleImport = useCallback(
+    (json: string) => {
+      try {
+        setRows(toRows(JSON.parse(json) as IngredientDensities));
+        setIsDirty(true);
+        setError(null);
+      } catch {
+        setError(tEditor("invalidJson"));
+      }
+    },
+    [tEditor]
+  );
+
+  const handleSave = useCallback(async () => {
+    setSaving(true);
+    try {
+      const result = await onSave(JSON.stringify(toDensities(rows)));
+
+      if (result.success) {
+        setIsDirty(false);
+        setError(null);
+      } else if (result.error) {
+        setError(result.error);
+      }
+    } catch (e) {
+      setError(e instanceof Error ? e.message : tEditor("failedToSave"));
+    } finally {
+      setSaving(false);
+    }
+  }, [rows, onSave, tEditor]);
+
+  const handleRestoreDefaults = useCallback(async () => {
+    setSaving(true);
+    try {
+      const result = await onRestoreDefaults();
+
+      if (!result.success && result.error) {
+        setError(result.error);
+      }
+    } catch (e) {
+      setError(e instanceof Error ? e.message : tEditor("failedToRestore"));
+    } finally {
+      setSaving(false);
+    }
+  }, [onRestoreDefaults, tEditor]);
+
+  return (
+    <div className="flex flex-col gap-3">
+      <p className="text-default-500 text-base">{t("description")}</p>
+
+      <div className="text-default-500 hidden gap-2 px-1 text-sm font-medium sm:grid sm:grid-cols-[1fr_2fr_7rem_7rem_6rem_2.5rem]">
+        <span>{t("name")}</span>
+        <span>{t("alternates")}</span>
+        <span>{t("gramsPerMl")}</span>
+        <span>{t("gramsPerPiece")}</span>
+        <span>{t("weighInMetric")}</span>
+      </div>
+
+      <ul className="flex flex-col gap-2">
+        {rows.map((row) => (
+          <li
+            key={row.id}
+            className="grid grid-cols-2 gap-2 sm:grid-cols-[1fr_2fr_7rem_7rem_6rem_2.5rem] sm:items-center"
+          >
+            <Input
+              aria-label={t("name")}
+              isDisabled={saving}
+              size="sm"
+              value={row.name}
+              onValueChange={(name) => updateRow(row.id, { name })}
+            />
+            <Input
+              aria-label={t("alternates")}
+              isDisabled={saving}
+              size="sm"
+              value={row.alternates}
+              onValueChange={(alternates) => updateRow(row.id, { alternates })}
+            />
+            <Input
+              aria-label={t("gramsPerMl")}
+              endContent={<span className="text-default-400 text-xs">g/ml</span>}
+              inputMode="decimal"
+              isDisabled={saving}
+              size="sm"
+              value={row.gramsPerMl}
+              onValueChange={(gramsPerMl) => updateRow(row.id, { gramsPerMl })}
+            />
+            <Input
+              aria-label={t("gramsPerPiece")}
+              endContent={<span className="text-default-400 text-xs">g</span>}
+              inputMode="decimal"
+              isDisabled={saving}
+              size="sm"
+              value={row.gramsPerPiece}
+              onValueChange={(gramsPerPiece) => updateRow(row.id, { gramsPerPiece })}
+            />
+            <Checkbox
+              isDisabled={saving}
+              isSelected={row.weighInMetric}
+              size="sm"
+              onValueChange={(weighInMetric) => updateRow(row.id, { weighInMetric })}
+            >
+              <span className="sm:sr-only">{t("weighInMetric")}</span>
+            </Checkbox>
+            <Button
+              isIconOnly
+              aria-label={t("removeRow")}
+              color="danger"
+              isDisabled={saving}
+              size="sm"
+              variant="light"
+              onPress={() => removeRow(row.id)}
+            >
+              <TrashIcon className="h-4 w-4" />
+            </Button>
+          </li>
+        ))}
+      </ul>
+
+      <Button
+        className="self-start"
+        isDisabled={saving}
+        size="sm"
+        startContent={<PlusIcon className="h-4 w-4" />}
+        variant="flat"
+        onPress={addRow}
+      >
+        {t("addRow")}
+      </Button>
+
+      {error && (
+        <div className="text-danger flex items-center gap-2 text-base">
+          <ExclamationTriangleIcon className="h-4 w-4" />
+          {error}
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center justify-end gap-2">
+        <JsonFileButtons
+          disabled={saving}
+          fileName="ingredient-densities.json"
+          getJson={() => JSON.stringify(toDensities(rows), null, 2)}
+          onImport={handleImport}
+        />
+
+        <Button
+          color="warning"
+          isDisabled={saving}
+          startContent={<ArrowPathIcon className="h-5 w-5" />}
+          variant="flat"
+          onPress={handleRestoreDefaults}
+        >
+          {tActions("restoreDefaults")}
+        </Button>
+
+        <Button
+          color="primary"
+          isDisabled={!isDirty}
+          isLoading={saving}
+          startContent={<CheckIcon className="h-5 w-5" />}
+          onPress={handleSave}
+        >
+          {tActions("save")}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -5,6 +5,8 @@ import { Textarea, Button, Chip } from "@heroui/react";
 import { ArrowPathIcon, CheckIcon, ExclamationTriangleIcon } from "@heroicons/react/16/solid";
 import { useTranslations } from "next-intl";
 
+import JsonFileButtons from "./json-file-buttons";
+
 interface JsonEditorProps {
   value: unknown;
   onSave: (json: string) => Promise<{ success: boolean; error?: string }>;
@@ -12,6 +14,8 @@ interface JsonEditorProps {
   label?: string;
   description?: string;
   disabled?: boolean;
+  /** Offer import and export as a JSON file with this name */
+  fileName?: string;
 }
 
 export default function JsonEditor({
@@ -21,6 +25,7 @@ export default function JsonEditor({
   label,
   description,
   disabled = false,
+  fileName,
 }: JsonEditorProps) {
   const t = useTranslations("settings.admin.jsonEditor");
   const tActions = useTranslations("common.actions");
@@ -136,7 +141,16 @@ export default function JsonEditor({
         </div>
       )}
 
-      <div className="flex items-center justify-end gap-2">
+      <div className="flex flex-wrap items-center justify-end gap-2">
+        {fileName && (
+          <JsonFileButtons
+            disabled={disabled || saving}
+            fileName={fileName}
+            getJson={() => text}
+            onImport={handleTextChange}
+          />
+        )}
+
         <Button
           className="hidden sm:inline-flex"
           isDisabled={disabled || saving}
@@ -0,0 +1,71 @@
+"use client";
+
+import { useRef, type ChangeEvent } from "react";
+import { Button } from "@heroui/react";
+import { ArrowDownTrayIcon, ArrowUpTrayIcon } from "@heroicons/react/16/solid";
+import { useTranslations } from "next-intl";
+
+interface JsonFileButtonsProps {
+  fileName: string;
+  getJson: () => string;
+  onImport: (json: string) => void;
+  disabled?: boolean;
+}
+
+/** Import a config from a JSON file and export the current one */
+export default function JsonFileButtons({
+  fileName,
+  getJson,
+  onImport,
+  disabled = false,
+}: JsonFileButtonsProps) {
+  const t = useTranslations("settings.admin.jsonEditor");
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleExport = () => {
+    const url = URL.createObjectURL(new Blob([getJson()], { type: "application/json" }));
+    const link = document.createElement("a");
+
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleFileSelect = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+
+    // Allow picking the same file again
+    e.target.value = "";
+
+    if (file) onImport(await file.text());
+  };
+
+  return (
+    <>
+      <input
+        ref={fileInputRef}
+        accept="application/json,.json"
+        className="hidden"
+        type="file"
+        onChange={handleFileSelect}
+      />
+      <Button
+        isDisabled={disabled}
+        startContent={<ArrowUpTrayIcon className="h-4 w-4" />}
+        variant="flat"
+        onPress={() => fileInputRef.current?.click()}
+      >
+        {t("importFile")}
+      </Button>
+      <Button
+        isDisabled={disabled}
+        startContent={<ArrowDownTrayIcon className="h-4 w-4" />}
+        variant="flat"
+        onPress={handleExport}
+      >
+        {t("exportFile")}
+      </Button>
+    </>
+  );
+}
@@ -0,0 +1,114 @@
+"use client";
+
+import type { RateLimits } from "@/server/db/zodSchemas/server-config";
+
+import { useState, useEffect } from "react";
+import { Card, CardBody, CardHeader, Input, Button } from "@heroui/react";
+import { ClockIcon, CheckIcon } from "@heroicons/react/16/solid";
+import { useTranslations } from "next-intl";
+
+import { useAdminSettingsContext } from "../context";
+
+import { DEFAULT_RATE_LIMITS, RATE_LIMIT_FEATURES } from "@/server/db/zodSchemas/server-config";
+
+export default function RateLimitsCard() {
+  const t = useTranslations("settings.admin.rateLimits");
+  const tActions = useTranslations("common.actions");
+  const { rateLimits, updateRateLimits } = useAdminSettingsContext();
+  const [limits, setLimits] = useState<RateLimits>({ ...DEFAULT_RATE_LIMITS, ...rateLimits });
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (rateLimits !== undefined) {
+      setLimits({ ...DEFAULT_RATE_LIMITS, ...rateLimits });
+    }
+  }, [rateLimits]);
+
+  const setRule = (
+    feature: keyof RateLimits,
+    field: "limit" | "windowMinutes",
+    value: string,
+    min: number,
+    max: number
+  ) => {
+    const parsed = Math.min(max, Math.max(min, parseInt(value) || min));
+
+    setLimits((prev) => ({ ...prev, [feature]: { ...prev[feature], [field]: parsed } }));
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await updateRateLimits(limits);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <h2 className="flex items-center gap-2 text-lg font-semibold">
+          <ClockIcon className="h-5 w-5" />
+          {t("title")}
+        </h2>
+      </CardHeader>
+      <CardBody className="gap-6">
+        <p className="text-default-500 text-base">{t("description")}</p>
+
+        <div className="flex flex-col gap-4">
+          {RATE_LIMIT_FEATURES.map((feature) => (
+            <div
+              key={feature}
+              className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between"
+            >
+              <div className="flex flex-col gap-0.5">
+                <span className="font-medium">{t(`features.${feature}.label`)}</span>
+                <span className="text-default-500 text-xs">
+                  {t(`features.${feature}.description`)}
+                </span>
+              </div>
+              <div className="flex shrink-0 gap-2">
+                <Input
+                  aria-label={t("limit")}
+                  className="w-28"
+                  label={t("limit")}
+                  max={10000}
+                  min={0}
+                  size="sm"
+                  type="number"
+                  value={limits[feature].limit.toString()}
+                  onValueChange={(v) => setRule(feature, "limit", v, 0, 10000)}
+                />
+                <Input
+                  aria-label={t("windowMinutes")}
+                  className="w-28"
+                  label={t("windowMinutes")}
+                  max={1440}
+                  min={1}
+                  size="sm"
+                  type="number"
+                  value={limits[feature].windowMinutes.toString()}
+                  onValueChange={(v) => setRule(feature, "windowMinutes", v, 1, 1440)}
+                />
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <p className="text-default-500 text-xs">{t("unlimitedHint")}</p>
+
+        <div className="flex justify-end">
+          <Button
+            color="primary"
+            isLoading={saving}
+            startContent={<CheckIcon className="h-5 w-5" />}
+            onPress={handleSave}
+          >
+            {tActions("save")}
+          </Button>
+        </div>
+      </CardBody>
+    </Card>
+  );
+}
@@ -1,7 +1,7 @@
 "use client";
 
 import { useState, useEffect } from "react";
-import { Card, CardBody, CardHeader, Input, Button, useDisclosure } from "@heroui/react";
+import { Card, CardBody, CardHeader, Input, Textarea, Button, useDisclosure } from "@heroui/react";
 import { Cog6ToothIcon, ArrowPathIcon, CheckIcon } from "@heroicons/react/16/solid";
 import { useTranslations } from "next-intl";
 
@@ -12,11 +12,22 @@ import RestartConfirmationModal from "./restart-confirmation-modal";
 export default function SystemCard() {
   const t = useTranslations("settings.admin.system");
   const tActions = useTranslations("common.actions");
-  const { schedulerCleanupMonths, updateSchedulerMonths, restartServer } =
-    useAdminSettingsContext();
+  const {
+    schedulerCleanupMonths,
+    updateSchedulerMonths,
+    trashRetentionDays,
+    updateTrashRetentionDays,
+    outboundAllowlist,
+    updateOutboundAllowlist,
+    restartServer,
+  } = useAdminSettingsContext();
 
   const [months, setMonths] = useState(schedulerCleanupMonths ?? 3);
   const [saving, setSaving] = useState(false);
+  const [days, setDays] = useState(trashRetentionDays ?? 30);
+  const [savingTrash, setSavingTrash] = useState(false);
+  const [allowlist, setAllowlist] = useState((outboundAllowlist ?? []).join("\n"));
+  const [savingAllowlist, setSavingAllowlist] = useState(false);
   const restartModal = useDisclosure();
 
   useEffect(() => {
@@ -25,6 +36,18 @@ export default function SystemCard() {
     }
   }, [schedulerCleanupMonths]);
 
+  useEffect(() => {
+    if (trashRetentionDays !== undefined) {
+      setDays(trashRetentionDays);
+    }
+  }, [trashRetentionDays]);
+
+  useEffect(() => {
+    if (outboundAllowlist !== undefined) {
+      setAllowlist(outboundAllowlist.join("\n"));
+    }
+  }, [outboundAllowlist]);
+
   const handleSaveScheduler = async () => {
     setSaving(true);
     try {
@@ -34,6 +57,29 @@ export default function SystemCard() {
     }
   };
 
+  const handleSaveTrash = async () => {
+    setSavingTrash(true);
+    try {
+      await updateTrashRetentionDays(days);
+    } finally {
+      setSavingTrash(false);
+    }
+  };
+
+  const handleSaveAllowlist = async () => {
+    setSavingAllowlist(true);
+    try {
+      await updateOutboundAllowlist(
+        allowlist
+          .split("\n")
+          .map((entry) => entry.trim())
+          .filter(Boolean)
+      );
+    } finally {
+      setSavingAllowlist(false);
+    }
+  };
+
   const handleRestart = async () => {
     await restartServer();
     restartModal.onClose();
@@ -73,6 +119,54 @@ export default function SystemCard() {
           </div>
         </div>
 
+        {/* Trash Retention */}
+        <div className="border-divider flex flex-col gap-4 border-t pt-4">
+          <h3 className="font-medium">{t("trash.title")}</h3>
+          <Input
+            className="max-w-xs"
+            label={t("trash.label")}
+            max={365}
+            min={1}
+            type="number"
+            value={days.toString()}
+            onValueChange={(v) => setDays(parseInt(v) || 30)}
+          />
+          <p className="text-default-500 text-xs">{t("trash.description")}</p>
+          <div className="flex justify-end">
+            <Button
+              color="primary"
+              isLoading={savingTrash}
+              startContent={<CheckIcon className="h-5 w-5" />}
+              onPress={handleSaveTrash}
+            >
+              {tActions("save")}
+            </Button>
+          </div>
+        </div>
+
+        {/* Outbound Allowlist */}
+        <div className="border-divider flex flex-col gap-4 border-t pt-4">
+          <h3 className="font-medium">{t("outbound.title")}</h3>
+          <Textarea
+            label={t("outbound.label")}
+            minRows={3}
+            placeholder={t("outbound.placeholder")}
+            value={allowlist}
+            onValueChange={setAllowlist}
+          />
+          <p className="text-default-500 text-xs">{t("outbound.description")}</p>
+          <div className="flex justify-end">
+            <Button
+              color="primary"
+              isLoading={savingAllowlist}
+              startContent={<CheckIcon className="h-5 w-5" />}
+              onPress={handleSaveAllowlist}
+            >
+              {tActions("save")}
+            </Button>
+          </div>
+        </div>
+
         {/* Server Restart */}
         <div className="border-divider flex flex-col gap-4 border-t pt-4">
           <h3 className="font-medium">{t("server.title")}</h3>
@@ -0,0 +1,173 @@
+"use client";
+
+import type { UnitConversion, UnitsMap } from "@/server/db/zodSchemas/server-config";
+
+import { useCallback, useEffect, useState } from "react";
+import { Button, Input, Select, SelectItem } from "@heroui/react";
+import { CheckIcon, ExclamationTriangleIcon } from "@heroicons/react/16/solid";
+import { useTranslations } from "next-intl";
+
+type Row = {
+  unit: string;
+  dimension: UnitConversion["dimension"] | "none";
+  factor: string;
+  system: NonNullable<UnitConversion["system"]> | "both";
+};
+
+function toRows(units: UnitsMap): Row[] {
+  return Object.entries(units).map(([unit, def]) => ({
+    unit,
+    dimension: def.conversion?.dimension ?? "none",
+    factor: def.conversion?.factor.toString() ?? "",
+    system: def.conversion?.system ?? "both",
+  }));
+}
+
+function applyRows(units: UnitsMap, rows: Row[]): UnitsMap {
+  const result: UnitsMap = {};
+
+  for (const [unit, def] of Object.entries(units)) {
+    const row = rows.find((r) => r.unit === unit);
+    const { conversion: _conversion, ...rest } = def;
+
+    if (!row || row.dimension === "none") {
+      result[unit] = rest;
+      continue;
+    }
+
+    result[unit] = {
+      ...rest,
+      conversion: {
+        dimension: row.dimension,
+        factor: Number(row.factor.replace(",", ".")),
+        ...(row.system !== "both" && { system: row.system }),
+      },
+    };
+  }
+
+  return result;
+}
+
+interface UnitConversionsEditorProps {
+  units: UnitsMap | undefined;
+  onSave: (json: string) => Promise<{ success: boolean; error?: string }>;
+}
+
+/** Edit the conversion factor of each unit in the units map */
+export default function UnitConversionsEditor({ units, onSave }: UnitConversionsEditorProps) {
+  const t = useTranslations("settings.admin.contentDetection.conversions");
+  const tEditor = useTranslations("settings.admin.jsonEditor");
+  const tActions = useTranslations("common.actions");
+  const [rows, setRows] = useState<Row[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [isDirty, setIsDirty] = useState(false);
+
+  useEffect(() => {
+    if (units !== undefined) {
+      setRows(toRows(units));
+      setIsDirty(false);
+      setError(null);
+    }
+  }, [units]);
+
+  const updateRow = useCallback((unit: string, patch: Partial<Row>) => {
+    setRows((prev) => prev.map((row) => (row.unit === unit ? { ...row, ...patch } : row)));
+    setIsDirty(true);
+  }, []);
+
+  const handleSave = useCallback(async () => {
+    if (!units) return;
+
+    setSaving(true);
+    try {
+      const result = await onSave(JSON.stringify(applyRows(units, rows)));
+
+      if (result.success) {
+        setIsDirty(false);
+        setError(null);
+      } else if (result.error) {
+        setError(result.error);
+      }
+    } catch (e) {
+      setError(e instanceof Error ? e.message : tEditor("failedToSave"));
+    } finally {
+      setSaving(false);
+    }
+  }, [units, rows, onSave, tEditor]);
+
+  return (
+    <div className="flex flex-col gap-3">
+      <p className="text-default-500 text-base">{t("description")}</p>
+
+      <ul className="flex flex-col gap-2">
+        {rows.map((row) => (
+          <li
+            key={row.unit}
+            className="grid grid-cols-3 items-center gap-2 sm:grid-cols-[8rem_1fr_1fr_1fr]"
+          >
+            <span className="col-span-3 font-mono text-sm sm:col-span-1">{row.unit}</span>
+            <Select
+              aria-label={t("dimension")}
+              isDisabled={saving}
+              selectedKeys={[row.dimension]}
+              size="sm"
+              onSelectionChange={(keys) =>
+                updateRow(row.unit, { dimension: Array.from(keys)[0] as Row["dimension"] })
+              }
+            >
+              <SelectItem key="none">{t("dimensions.none")}</SelectItem>
+              <SelectItem key="mass">{t("dimensions.mass")}</SelectItem>
+              <SelectItem key="volume">{t("dimensions.volume")}</SelectItem>
+            </Select>
+            <Input
+              aria-label={t("factor")}
+              endContent={
+                <span className="text-default-400 text-xs">
+                  {row.dimension === "mass" ? "g" : "ml"}
+                </span>
+              }
+              inputMode="decimal"
+              isDisabled={saving || row.dimension === "none"}
+              size="sm"
+              value={row.factor}
+              onValueChange={(factor) => updateRow(row.unit, { factor })}
+            />
+            <Select
+              aria-label={t("system")}
+              isDisabled={saving || row.dimension === "none"}
+              selectedKeys={[row.system]}
+              size="sm"
+              onSelectionChange={(keys) =>
+                updateRow(row.unit, { system: Array.from(keys)[0] as Row["system"] })
+              }
+            >
+              <SelectItem key="both">{t("systems.both")}</SelectItem>
+              <SelectItem key="metric">{t("systems.metric")}</SelectItem>
+              <SelectItem key="us">{t("systems.us")}</SelectItem>
+            </Select>
+          </li>
+        ))}
+      </ul>
+
+      {error && (
+        <div className="text-danger flex items-center gap-2 text-base">
+          <ExclamationTriangleIcon className="h-4 w-4" />
+          {error}
+        </div>
+      )}
+
+      <div className="flex items-center justify-end gap-2">
+        <Button
+          color="primary"
+          isDisabled={!isDirty}
+          isLoading={saving}
+          startContent={<CheckIcon className="h-5 w-5" />}
+          onPress={handleSave}
+        >
+          {tActions("save")}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -7,8 +7,10 @@ import {
   ServerConfigKeys,
   type ContentIndicatorsConfig,
   type UnitsMap,
+  type IngredientDensities,
   type RecurrenceConfig,
   type AIConfig,
+  type AIQuotas,
   type VideoConfig,
   type AuthProviderOIDC,
   type AuthProviderOIDCInput,
@@ -17,6 +19,7 @@ import {
   type AuthProviderGoogle,
   type AuthProviderGoogleInput,
   type RecipePermissionPolicy,
+  type RateLimits,
   type PromptsConfig,
   type PromptsConfigInput,
   type ServerConfigKey,
@@ -33,10 +36,15 @@ interface AdminSettingsContextValue {
   authProviderGoogle: AuthProviderGoogle | undefined;
   contentIndicators: ContentIndicatorsConfig | undefined;
   units: UnitsMap | undefined;
+  ingredientDensities: IngredientDensities | undefined;
   recurrenceConfig: RecurrenceConfig | undefined;
   aiConfig: AIConfig | undefined;
   videoConfig: VideoConfig | undefined;
   schedulerCleanupMonths: number | undefined;
+  trashRetentionDays: number | undefined;
+  outboundAllowlist: string[] | undefined;
+  rateLimits: RateLimits | undefined;
+  aiQuotas: AIQuotas | undefined;
   recipePermissionPolicy: RecipePermissionPolicy | undefined;
   prompts: PromptsConfig | undefined;
 
@@ -64,11 +72,16 @@ interface AdminSettingsContextValue {
   ) => Promise<{ success: boolean; error?: string }>;
   updateContentIndicators: (json: string) => Promise<{ success: boolean; error?: string }>;
   updateUnits: (json: string) => Promise<{ success: boolean; error?: string }>;
+  updateIngredientDensities: (json: string) => Promise<{ success: boolean; error?: string }>;
   updateRecurrenceConfig: (json: string) => Promise<{ success: boolean; error?: string }>;
   updateAIConfig: (config: AIConfig) => Promise<{ success: boolean; error?: string }>;
   updateVideoConfig: (config: VideoConfig) => Promise<{ success: boolean; error?: string }>;
   updatePrompts: (config: PromptsConfigInput) => Promise<{ success: boolean; error?: string }>;
   updateSchedulerMonths: (months: number) => Promise<{ success: boolean; error?: string }>;
+  updateTrashRetentionDays: (days: number) => Promise<{ success: boolean; error?: string }>;
+  updateOutboundAllowlist: (entries: string[]) => Promise<{ success: boolean; error?: string }>;
+  updateRateLimits: (limits: RateLimits) => Promise<{ success: boolean; error?: string }>;
+  updateAIQuotas: (quotas: AIQuotas) => Promise<{ success: boolean; error?: string }>;
   updateRecipePermissionPolicy: (
     policy: RecipePermissionPolicy
   ) => Promise<{ success: boolean; error?: string }>;
@@ -115,6 +128,9 @@ export function AdminSettingsProvider({ children }: { children: ReactNode }) {
     | ContentIndicatorsConfig
     | undefined;
   const units = configs[ServerConfigKeys.UNITS] as UnitsMap | undefined;
+  const ingredientDensities = configs[ServerConfigKeys.INGREDIENT_DENSITIES] as
+    | IngredientDensities
+    | undefined;
   const recurrenceConfig = configs[ServerConfigKeys.RECURRENCE_CONFIG] as
     | RecurrenceConfig
     | undefined;
@@ -123,6 +139,10 @@ export function AdminSettingsProvider({ children }: { children: ReactNode }) {
   const schedulerCleanupMonths = configs[ServerConfigKeys.SCHEDULER_CLEANUP_MONTHS] as
     | number
     | undefined;
+  const trashRetentionDays = configs[ServerConfigKeys.TRASH_RETENTION_DAYS] as number | undefined;
+  const outboundAllowlist = configs[ServerConfigKeys.OUTBOUND_ALLOWLIST] as string[] | undefined;
+  const rateLimits = configs[ServerConfigKeys.RATE_LIMITS] as RateLimits | undefined;
+  const aiQuotas = configs[ServerConfigKeys.AI_QUOTAS] as AIQuotas | undefined;
   const recipePermissionPolicy = configs[ServerConfigKeys.RECIPE_PERMISSION_POLICY] as
     | RecipePermissionPolicy
     | undefined;
@@ -192,6 +212,13 @@ export function AdminSettingsProvider({ children }: { children: ReactNode }) {
     [mutations]
   );
 
+  const updateDensities = useCallback(
+    async (json: string) => {
+      return mutations.updateIngredientDensities(json);
+    },
+    [mutations]
+  );
+
   const updateRecurrence = useCallback(
     async (json: string) => {
       return mutations.updateRecurrenceConfig(json);
@@ -227,6 +254,34 @@ export function AdminSettingsProvider({ children }: { children: ReactNode }) {
     [mutations]
   );
 
+  const updateTrashRetention = useCallback(
+    async (days: number) => {
+      return mutations.updateTrashRetentionDays(days);
+    },
+    [mutations]
+  );
+
+  const updateAllowlist = useCallback(
+    async (entries: string[]) => {
+      return mutations.updateOutboundAllowlist(entries);
+    },
+    [mutations]
+  );
+
+  const updateLimits = useCallback(
+    async (limits: RateLimits) => {
+      return mutations.updateRateLimits(limits);
+    },
+    [mutations]
+  );
+
+  const updateQuotas = useCallback(
+    async (quotas: AIQuotas) => {
+      return mutations.updateAIQuotas(quotas);
+    },
+    [mutations]
+  );
+
   const updatePermissionPolicy = useCallback(
     async (policy: RecipePermissionPolicy) => {
       return mutations.updateRecipePermissionPolicy(policy);
@@ -279,10 +334,15 @@ export function AdminSettingsProvider({ children }: { children: ReactNode }) {
     authProviderGoogle,
     contentIndicators,
     units,
+    ingredientDensities,
     recurrenceConfig,
     aiConfig,
     videoConfig,
     schedulerCleanupMonths,
+    trashRetentionDays,
+    outboundAllowlist,
+    rateLimits,
+    aiQuotas,
     recipePermissionPolicy,
     prompts,
     isLoading,
@@ -295,11 +355,16 @@ export function AdminSettingsProvider({ children }: { children: ReactNode }) {
     deleteAuthProvider: deleteProvider,
     updateContentIndicators: updateContent,
     updateUnits: updateUnitsConfig,
+    updateIngredientDensities: updateDensities,
     updateRecurrenceConfig: updateRecurrence,
     updateAIConfig: updateAI,
     updateVideoConfig: updateVideo,
     updatePrompts: updatePromptsConfig,
     updateSchedulerMonths: updateScheduler,
+    updateTrashRetentionDays: updateTrashRetention,
+    updateOutboundAllowlist: updateAllowlist,
+    updateRateLimits: updateLimits,
+    updateAIQuotas: updateQuotas,
     updateRecipePermissionPolicy: updatePermissionPolicy,
     restoreDefaultConfig: restoreDefault,
     testAuthProvider: testAuth,
@@ -26,6 +26,7 @@ import { useCalDavSettingsContext } from "../context";
 
 import CalDavConfigSummary from "./caldav-config-summary";
 import CalDavConfigEditModal from "./caldav-config-edit-modal";
+import TimezoneSelect, { getBrowserTimeZone } from "./timezone-select";
 
 export default function CalDavConfigCard() {
   const t = useTranslations("settings.caldav.setup");
@@ -47,6 +48,7 @@ export default function CalDavConfigCard() {
   const [lunchTime, setLunchTime] = useState("12:00-13:00");
   const [dinnerTime, setDinnerTime] = useState("18:00-19:00");
   const [snackTime, setSnackTime] = useState("15:00-16:00");
+  const [timezone, setTimezone] = useState(getBrowserTimeZone);
 
   const [saving, setSaving] = useState(false);
   const [testing, setTesting] = useState(false);
@@ -129,6 +131,7 @@ export default function CalDavConfigCard() {
         lunchTime,
         dinnerTime,
         snackTime,
+        timezone,
       });
       setPassword(""); // Clear password after save
     } finally {
@@ -308,6 +311,8 @@ export default function CalDavConfigCard() {
           />
         </div>
 
+        <TimezoneSelect value={timezone} onChange={setTimezone} />
+
         {testResult && (
           <div
             className={`rounded-lg p-3 text-base ${
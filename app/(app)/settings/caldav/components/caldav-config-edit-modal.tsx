@@ -22,6 +22,8 @@ import { useTranslations } from "next-intl";
 
 import { useCalDavSettingsContext } from "../context";
 
+import TimezoneSelect from "./timezone-select";
+
 import SecretInput from "@/components/shared/secret-input";
 
 interface CalDavConfigEditModalProps {
@@ -44,6 +46,7 @@ export default function CalDavConfigEditModal({ isOpen, onClose }: CalDavConfigE
   const [lunchTime, setLunchTime] = useState("12:00-13:00");
   const [dinnerTime, setDinnerTime] = useState("18:00-19:00");
   const [snackTime, setSnackTime] = useState("15:00-16:00");
+  const [timezone, setTimezone] = useState("UTC");
 
   const [saving, setSaving] = useState(false);
   const [testing, setTesting] = useState(false);
@@ -62,9 +65,6 @@ export default function CalDavConfigEditModal({ isOpen, onClose }: CalDavConfigE
   // Track if we've already auto-tested to avoid duplicate calls
   const hasAutoTestedRef = useRef(false);
 
-  // Get user's timezone
-  const timezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
-
   // Time format regex
   const timeRegex = /^\d{2}:\d{2}-\d{2}:\d{2}$/;
 
@@ -80,6 +80,7 @@ export default function CalDavConfigEditModal({ isOpen, onClose }: CalDavConfigE
       setLunchTime(config.lunchTime);
       setDinnerTime(config.dinnerTime);
       setSnackTime(config.snackTime);
+      setTimezone(config.timezone);
       setTestResult(null);
       setCalendars([]);
       hasAutoTestedRef.current = false;
@@ -185,6 +186,7 @@ export default function CalDavConfigEditModal({ isOpen, onClose }: CalDavConfigE
         lunchTime,
         dinnerTime,
         snackTime,
+        timezone,
       });
       onClose();
     } finally {
@@ -268,7 +270,7 @@ export default function CalDavConfigEditModal({ isOpen, onClose }: CalDavConfigE
                 title={tConfig("advancedSettings")}
               >
                 <div className="flex flex-col gap-4 pb-4">
-                  <p className="text-default-500 text-xs">{tConfig("timezone", { timezone })}</p>
+                  <TimezoneSelect value={timezone} onChange={setTimezone} />
 
                   <Input
                     description={t("timeFormat")}
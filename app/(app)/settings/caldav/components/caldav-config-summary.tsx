@@ -87,6 +87,7 @@ export default function CalDavConfigSummary({ onEditClick }: CalDavConfigSummary
       lunchTime: config.lunchTime,
       dinnerTime: config.dinnerTime,
       snackTime: config.snackTime,
+      timezone: config.timezone,
     });
   };
 
@@ -182,6 +183,9 @@ export default function CalDavConfigSummary({ onEditClick }: CalDavConfigSummary
             <div className="min-w-0 flex-1">
               <p className="text-default-700 mb-1 text-base font-medium">{t("serverUrl")}</p>
               <p className="text-default-500 truncate text-xs">{config.serverUrl}</p>
+              <p className="text-default-500 truncate text-xs">
+                {t("timezone", { timezone: config.timezone })}
+              </p>
             </div>
             <div className="flex items-center gap-2">
               <span className="text-default-600 text-base">
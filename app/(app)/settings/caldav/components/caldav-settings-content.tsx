@@ -4,6 +4,7 @@ import { CalDavSettingsProvider, useCalDavSettingsContext } from "../context";
 
 import CalDavConfigCard from "./caldav-config-card";
 import CalDavSyncStatusCard from "./caldav-sync-status-card";
+import CalendarFeedCard from "./calendar-feed-card";
 
 import SettingsSkeleton from "@/components/skeleton/settings-skeleton";
 
@@ -18,6 +19,7 @@ function CalDavSettingsContent() {
     <div className="flex w-full flex-col gap-6">
       <CalDavConfigCard />
       {config && config.enabled && <CalDavSyncStatusCard />}
+      <CalendarFeedCard />
     </div>
   );
 }
@@ -0,0 +1,158 @@
+"use client";
+
+import type { CalendarFeedScope } from "@/types";
+
+import { Button, Card, CardBody, CardHeader, Input, addToast } from "@heroui/react";
+import {
+  ArrowPathIcon,
+  ClipboardDocumentIcon,
+  RssIcon,
+  TrashIcon,
+} from "@heroicons/react/24/outline";
+import { formatDistanceToNow } from "date-fns";
+import { useTranslations } from "next-intl";
+
+import { useCalendarFeeds } from "@/hooks/caldav";
+
+const FEED_SCOPES: CalendarFeedScope[] = ["user", "household"];
+
+function getFeedUrl(token: string): string {
+  return `${window.location.origin}/api/calendar-feed/${token}.ics`;
+}
+
+function copyToClipboard(text: string) {
+  if (navigator.clipboard && navigator.clipboard.writeText) {
+    navigator.clipboard.writeText(text);
+  }
+}
+
+export default function CalendarFeedCard() {
+  const t = useTranslations("settings.caldav.feed");
+  const { feeds, rotateFeed, deleteFeed, isRotating, isDeleting } = useCalendarFeeds();
+
+  const handleRotate = async (scope: CalendarFeedScope, exists: boolean) => {
+    try {
+      const feed = await rotateFeed(scope);
+
+      copyToClipboard(getFeedUrl(feed.token));
+      addToast({
+        severity: "success",
+        title: exists ? t("rotated") : t("created"),
+        description: t("copiedDescription"),
+        shouldShowTimeoutProgress: true,
+        radius: "full",
+      });
+    } catch (error) {
+      addToast({
+        severity: "danger",
+        title: t("rotateFailed"),
+        description: (error as Error).message,
+        shouldShowTimeoutProgress: true,
+        radius: "full",
+      });
+    }
+  };
+
+  const handleDelete = async (scope: CalendarFeedScope) => {
+    try {
+      await deleteFeed(scope);
+    } catch (error) {
+      addToast({
+        severity: "danger",
+        title: t("deleteFailed"),
+        description: (error as Error).message,
+        shouldShowTimeoutProgress: true,
+        radius: "full",
+      });
+    }
+  };
+
+  const handleCopy = (token: string) => {
+    copyToClipboard(getFeedUrl(token));
+    addToast({ severity: "default", title: t("copied"), radius: "full" });
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-col items-start gap-1">
+        <div className="flex items-center gap-3">
+          <RssIcon className="text-primary h-6 w-6" />
+          <h2 className="text-lg font-semibold">{t("title")}</h2>
+        </div>
+        <p className="text-default-500 text-base">{t("description")}</p>
+      </CardHeader>
+      <CardBody className="gap-6">
+        {FEED_SCOPES.map((scope) => {
+          const feed = feeds.find((f) => f.scope === scope);
+
+          return (
+            <div key={scope} className="flex flex-col gap-2">
+              <div className="flex flex-col gap-1">
+                <h3 className="text-base font-medium">{t(`scopes.${scope}.title`)}</h3>
+                <p className="text-default-500 text-sm">{t(`scopes.${scope}.description`)}</p>
+              </div>
+              {feed ? (
+                <>
+                  <div className="flex gap-2">
+                    <Input isReadOnly size="sm" value={getFeedUrl(feed.token)} />
+                    <Button
+                      isIconOnly
+                      aria-label={t("copy")}
+                      size="sm"
+                      variant="flat"
+                      onPress={() => handleCopy(feed.token)}
+                    >
+                      <ClipboardDocumentIcon className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      isIconOnly
+                      aria-label={t("rotate")}
+                      isDisabled={isRotating}
+                      size="sm"
+                      variant="flat"
+                      onPress={() => handleRotate(scope, true)}
+                    >
+                      <ArrowPathIcon className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      isIconOnly
+                      aria-label={t("delete")}
+                      color="danger"
+                      isDisabled={isDeleting}
+                      size="sm"
+                      variant="flat"
+                      onPress={() => handleDelete(scope)}
+                    >
+                      <TrashIcon className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  <p className="text-default-500 text-xs">
+                    {feed.lastAccessedAt
+                      ? t("lastAccessed", {
+                          time: formatDistanceToNow(new Date(feed.lastAccessedAt), {
+                            addSuffix: true,
+                          }),
+                        })
+                      : t("neverAccessed")}
+                  </p>
+                </>
+              ) : (
+                <Button
+                  className="self-start"
+                  color="primary"
+                  isLoading={isRotating}
+                  size="sm"
+                  startContent={!isRotating && <RssIcon className="h-4 w-4" />}
+                  onPress={() => handleRotate(scope, false)}
+                >
+                  {t("create")}
+                </Button>
+              )}
+            </div>
+          );
+        })}
+        <p className="text-default-400 text-xs">{t("secretHint")}</p>
+      </CardBody>
+    </Card>
+  );
+}
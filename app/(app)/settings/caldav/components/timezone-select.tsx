@@ -0,0 +1,41 @@
+"use client";
+
+import { useMemo } from "react";
+import { Autocomplete, AutocompleteItem } from "@heroui/react";
+import { useTranslations } from "next-intl";
+
+export function getBrowserTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+}
+
+function getTimeZones(): string[] {
+  const zones = Intl.supportedValuesOf("timeZone");
+
+  return zones.includes("UTC") ? zones : ["UTC", ...zones];
+}
+
+interface TimezoneSelectProps {
+  value: string;
+  onChange: (timeZone: string) => void;
+}
+
+export default function TimezoneSelect({ value, onChange }: TimezoneSelectProps) {
+  const t = useTranslations("settings.caldav.setup");
+  const items = useMemo(() => getTimeZones().map((zone) => ({ zone })), []);
+
+  return (
+    <Autocomplete
+      defaultItems={items}
+      description={t("timezoneDescription")}
+      isClearable={false}
+      label={t("timezoneLabel")}
+      selectedKey={value}
+      size="sm"
+      onSelectionChange={(key) => {
+        if (key) onChange(String(key));
+      }}
+    >
+      {(item) => <AutocompleteItem key={item.zone}>{item.zone}</AutocompleteItem>}
+    </Autocomplete>
+  );
+}
@@ -30,6 +30,7 @@ type SaveCaldavConfigInput = {
   lunchTime: string;
   dinnerTime: string;
   snackTime: string;
+  timezone?: string;
 };
 
 type CalDavSettingsContextType = {
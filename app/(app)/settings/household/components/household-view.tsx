@@ -3,6 +3,7 @@
 import HouseholdInfoCard from "./household-info-card";
 import MembersCard from "./members-card";
 import JoinCodeCard from "./join-code-card";
+import MealSlotsCard from "./meal-slots-card";
 
 export default function HouseholdView() {
   return (
@@ -11,6 +12,7 @@ export default function HouseholdView() {
       <HouseholdInfoCard />
       <MembersCard />
       <JoinCodeCard />
+      <MealSlotsCard />
     </div>
   );
 }
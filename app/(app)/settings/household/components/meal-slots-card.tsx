@@ -0,0 +1,273 @@
+"use client";
+
+import type { MealSlotDto } from "@/types";
+
+import { useState } from "react";
+import {
+  Card,
+  CardBody,
+  CardHeader,
+  Button,
+  Input,
+  Select,
+  SelectItem,
+  Modal,
+  ModalContent,
+  ModalHeader,
+  ModalBody,
+  ModalFooter,
+} from "@heroui/react";
+import {
+  ArrowDownIcon,
+  ArrowUpIcon,
+  PencilSquareIcon,
+  PlusIcon,
+  TrashIcon,
+} from "@heroicons/react/16/solid";
+import { ClockIcon } from "@heroicons/react/24/outline";
+import { useTranslations } from "next-intl";
+
+import { MealIcon } from "@/lib/meal-icon";
+import { MEAL_SLOT_ICONS, MealSlotIcon, isDefaultSlotKey } from "@/lib/meal-slots";
+import {
+  useMealSlotHelpers,
+  useMealSlotsMutations,
+  useMealSlotsSubscription,
+} from "@/hooks/meal-slots";
+
+type SlotForm = {
+  name: string;
+  icon: MealSlotIcon;
+  start: string;
+  end: string;
+};
+
+const EMPTY_FORM: SlotForm = { name: "", icon: "star", start: "", end: "" };
+
+function toForm(slot: MealSlotDto): SlotForm {
+  const [start = "", end = ""] = slot.timeRange?.split("-") ?? [];
+
+  return { name: slot.name ?? "", icon: slot.icon as MealSlotIcon, start, end };
+}
+
+export default function MealSlotsCard() {
+  const t = useTranslations("settings.household.mealSlots");
+  const tActions = useTranslations("common.actions");
+  const { mealSlots, getSlotLabel } = useMealSlotHelpers();
+  const { createMealSlot, updateMealSlot, deleteMealSlot, reorderMealSlots } =
+    useMealSlotsMutations();
+
+  useMealSlotsSubscription();
+
+  // null = closed, "new" = adding a slot, otherwise the key of the slot being edited
+  const [editing, setEditing] = useState<string | null>(null);
+  const [form, setForm] = useState<SlotForm>(EMPTY_FORM);
+  const [deleting, setDeleting] = useState<MealSlotDto | null>(null);
+
+  const isBuiltIn = editing !== null && editing !== "new" && isDefaultSlotKey(editing);
+  const hasTime = !!form.start || !!form.end;
+  const isTimeValid = hasTime ? !!form.start && !!form.end && form.start < form.end : isBuiltIn;
+  const canSave = (isBuiltIn || !!form.name.trim()) && isTimeValid;
+
+  const openEditor = (slot?: MealSlotDto) => {
+    setForm(slot ? toForm(slot) : EMPTY_FORM);
+    setEditing(slot?.key ?? "new");
+  };
+
+  const move = (index: number, direction: -1 | 1) => {
+    const keys = mealSlots.map((s) => s.key);
+
+    [keys[index], keys[index + direction]] = [keys[index + direction], keys[index]];
+    reorderMealSlots(keys);
+  };
+
+  const handleSave = () => {
+    const name = form.name.trim();
+    const timeRange = hasTime ? `${form.start}-${form.end}` : null;
+
+    if (editing === "new") {
+      createMealSlot({ name, icon: form.icon, timeRange: timeRange! });
+    } else if (editing) {
+      updateMealSlot({ key: editing, name: name || null, icon: form.icon, timeRange });
+    }
+
+    setEditing(null);
+  };
+
+  const handleDelete = () => {
+    if (deleting) deleteMealSlot(deleting.key);
+    setDeleting(null);
+  };
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <h2 className="flex items-center gap-2 text-lg font-semibold">
+            <ClockIcon className="h-5 w-5" />
+            {t("title")}
+          </h2>
+        </CardHeader>
+        <CardBody className="gap-4">
+          <p className="text-default-500 text-base">{t("description")}</p>
+          <div className="flex flex-col gap-2">
+            {mealSlots.map((slot, index) => (
+              <div
+                key={slot.key}
+                className="bg-default-100 flex items-center gap-3 rounded-lg px-3 py-2"
+              >
+                <MealIcon icon={slot.icon} slot={slot.key} />
+                <div className="flex min-w-0 flex-1 flex-col">
+                  <span className="truncate font-medium">{getSlotLabel(slot.key)}</span>
+                  <span className="text-default-500 text-xs">
+                    {slot.timeRange?.replace("-", " – ") ?? t("defaultTimes")}
+                  </span>
+                </div>
+                <Button
+                  isIconOnly
+                  aria-label={t("moveUp")}
+                  isDisabled={index === 0}
+                  size="sm"
+                  variant="light"
+                  onPress={() => move(index, -1)}
+                >
+                  <ArrowUpIcon className="h-4 w-4" />
+                </Button>
+                <Button
+                  isIconOnly
+                  aria-label={t("moveDown")}
+                  isDisabled={index === mealSlots.length - 1}
+                  size="sm"
+                  variant="light"
+                  onPress={() => move(index, 1)}
+                >
+                  <ArrowDownIcon className="h-4 w-4" />
+                </Button>
+                <Button
+                  isIconOnly
+                  aria-label={tActions("edit")}
+                  size="sm"
+                  variant="light"
+                  onPress={() => openEditor(slot)}
+                >
+                  <PencilSquareIcon className="h-4 w-4" />
+                </Button>
+                <Button
+                  isIconOnly
+                  aria-label={tActions("delete")}
+                  color="danger"
+                  isDisabled={mealSlots.length === 1}
+                  size="sm"
+                  variant="light"
+                  onPress={() => setDeleting(slot)}
+                >
+                  <TrashIcon className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+          <div className="flex justify-end">
+            <Button
+              color="primary"
+              startContent={<PlusIcon className="h-4 w-4" />}
+              onPress={() => openEditor()}
+            >
+              {t("addButton")}
+            </Button>
+          </div>
+        </CardBody>
+      </Card>
+
+      {/* Add / Edit Slot Modal */}
+      <Modal isOpen={editing !== null} onOpenChange={(open) => !open && setEditing(null)}>
+        <ModalContent>
+          {(onClose) => (
+            <>
+              <ModalHeader>{editing === "new" ? t("addTitle") : t("editTitle")}</ModalHeader>
+              <ModalBody className="gap-4">
+                <Input
+                  isRequired={!isBuiltIn}
+                  label={t("nameLabel")}
+                  maxLength={64}
+                  placeholder={isBuiltIn && editing ? getSlotLabel(editing) : t("namePlaceholder")}
+                  value={form.name}
+                  onValueChange={(name) => setForm((f) => ({ ...f, name }))}
+                />
+                <Select
+                  disallowEmptySelection
+                  label={t("iconLabel")}
+                  selectedKeys={[form.icon]}
+                  onSelectionChange={(keys) => {
+                    const icon = Array.from(keys)[0] as MealSlotIcon | undefined;
+
+                    if (icon) setForm((f) => ({ ...f, icon }));
+                  }}
+                >
+                  {MEAL_SLOT_ICONS.map((icon) => (
+                    <SelectItem key={icon} startContent={<MealIcon icon={icon} />}>
+                      {t(`icons.${icon}`)}
+                    </SelectItem>
+                  ))}
+                </Select>
+                <div className="grid grid-cols-2 gap-4">
+                  <Input
+                    isRequired={!isBuiltIn}
+                    label={t("startLabel")}
+                    type="time"
+                    value={form.start}
+                    onValueChange={(start) => setForm((f) => ({ ...f, start }))}
+                  />
+                  <Input
+                    isRequired={!isBuiltIn}
+                    label={t("endLabel")}
+                    type="time"
+                    value={form.end}
+                    onValueChange={(end) => setForm((f) => ({ ...f, end }))}
+                  />
+                </div>
+                <p className={`text-sm ${isTimeValid ? "text-default-500" : "text-danger"}`}>
+                  {isTimeValid ? t(isBuiltIn ? "defaultTimesHint" : "timeHint") : t("invalidTime")}
+                </p>
+              </ModalBody>
+              <ModalFooter>
+                <Button variant="flat" onPress={onClose}>
+                  {tActions("cancel")}
+                </Button>
+                <Button color="primary" isDisabled={!canSave} onPress={handleSave}>
+                  {tActions("save")}
+                </Button>
+              </ModalFooter>
+            </>
+          )}
+        </ModalContent>
+      </Modal>
+
+      {/* Delete Slot Modal */}
+      <Modal isOpen={deleting !== null} onOpenChange={(open) => !open && setDeleting(null)}>
+        <ModalContent>
+          {(onClose) => (
+            <>
+              <ModalHeader>{t("deleteModal.title")}</ModalHeader>
+              <ModalBody>
+                <p>
+                  {t("deleteModal.confirmMessage", {
+                    name: deleting ? getSlotLabel(deleting.key) : "",
+                  })}
+                </p>
+                <p className="text-default-500 text-sm">{t("deleteModal.warning")}</p>
+              </ModalBody>
+              <ModalFooter>
+                <Button variant="flat" onPress={onClose}>
+                  {tActions("cancel")}
+                </Button>
+                <Button color="danger" onPress={handleDelete}>
+                  {tActions("delete")}
+                </Button>
+              </ModalFooter>
+            </>
+          )}
+        </ModalContent>
+      </Modal>
+    </>
+  );
+}
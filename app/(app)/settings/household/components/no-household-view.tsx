@@ -7,6 +7,8 @@ import { useTranslations } from "next-intl";
 
 import { useHouseholdSettingsContext } from "../context";
 
+import MealSlotsCard from "./meal-slots-card";
+
 export default function NoHouseholdView() {
   const t = useTranslations("settings.household");
   const { createHousehold, joinHousehold } = useHouseholdSettingsContext();
@@ -91,6 +93,8 @@ export default function NoHouseholdView() {
           </CardBody>
         </Card>
       </div>
+
+      <MealSlotsCard />
     </div>
   );
 }
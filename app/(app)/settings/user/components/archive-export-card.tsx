@@ -0,0 +1,108 @@
+"use client";
+
+import { useState } from "react";
+import {
+  Autocomplete,
+  AutocompleteItem,
+  Button,
+  Card,
+  CardBody,
+  CardHeader,
+  Chip,
+  Select,
+  SelectItem,
+} from "@heroui/react";
+import { ArrowDownTrayIcon } from "@heroicons/react/24/outline";
+import { useTranslations } from "next-intl";
+
+import { useArchiveExportMutation } from "@/hooks/archive";
+import { useRecipeAutocomplete } from "@/hooks/recipes";
+import { ARCHIVE_EXPORT_FORMATS, ArchiveExportFormat } from "@/types";
+
+type SelectedRecipe = { id: string; name: string };
+
+export default function ArchiveExportCard() {
+  const t = useTranslations("settings.user.archiveExport");
+  const { startExport, isExporting } = useArchiveExportMutation();
+  const [format, setFormat] = useState<ArchiveExportFormat>("norish");
+  const [query, setQuery] = useState("");
+  const [selected, setSelected] = useState<SelectedRecipe[]>([]);
+  const { suggestions, isLoading } = useRecipeAutocomplete(query, true);
+
+  const options = suggestions.filter((s) => !selected.some((r) => r.id === s.id));
+
+  const addRecipe = (id: string) => {
+    const recipe = suggestions.find((s) => s.id === id);
+
+    if (recipe) setSelected((prev) => [...prev, { id: recipe.id, name: recipe.name }]);
+    setQuery("");
+  };
+
+  const removeRecipe = (id: string) => setSelected((prev) => prev.filter((r) => r.id !== id));
+
+  // No selection exports everything the user can view
+  const handleExport = () =>
+    startExport(format, selected.length > 0 ? selected.map((r) => r.id) : undefined);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div>
+          <h2 className="text-lg font-semibold">{t("title")}</h2>
+          <p className="text-default-500 mt-1 text-base">{t("description")}</p>
+        </div>
+      </CardHeader>
+      <CardBody className="gap-4">
+        <Select
+          disallowEmptySelection
+          description={t(`formatDescriptions.${format}`)}
+          label={t("format")}
+          selectedKeys={[format]}
+          onSelectionChange={(keys) => setFormat(Array.from(keys)[0] as ArchiveExportFormat)}
+        >
+          {ARCHIVE_EXPORT_FORMATS.map((f) => (
+            <SelectItem key={f}>{t(`formats.${f}`)}</SelectItem>
+          ))}
+        </Select>
+        <Autocomplete
+          description={t("recipesDescription")}
+          inputValue={query}
+          isLoading={isLoading}
+          items={options}
+          label={t("recipes")}
+          listboxProps={{ emptyContent: t("noRecipesFound") }}
+          placeholder={t("recipesPlaceholder")}
+          selectedKey={null}
+          onInputChange={setQuery}
+          onSelectionChange={(key) => key && addRecipe(String(key))}
+        >
+          {(item) => (
+            <AutocompleteItem key={item.id} textValue={item.name}>
+              {item.name}
+            </AutocompleteItem>
+          )}
+        </Autocomplete>
+        {selected.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {selected.map((recipe) => (
+              <Chip key={recipe.id} variant="flat" onClose={() => removeRecipe(recipe.id)}>
+                {recipe.name}
+              </Chip>
+            ))}
+          </div>
+        )}
+        <Button
+          className="self-start"
+          color="primary"
+          isLoading={isExporting}
+          startContent={!isExporting && <ArrowDownTrayIcon className="h-4 w-4" />}
+          onPress={handleExport}
+        >
+          {selected.length > 0
+            ? t("exportSelectedButton", { count: selected.length })
+            : t("exportButton")}
+        </Button>
+      </CardBody>
+    </Card>
+  );
+}
@@ -0,0 +1,91 @@
+"use client";
+
+import type { FoodNutrient } from "@/lib/food-composition";
+import type { NutritionTargets } from "@/lib/nutrition-summary";
+
+import { useState, useEffect, useCallback } from "react";
+import { Card, CardBody, CardHeader, Button, Input } from "@heroui/react";
+import { ChartBarIcon, CheckIcon } from "@heroicons/react/24/outline";
+import { useTranslations } from "next-intl";
+
+import { useUserSettingsContext } from "../context";
+
+import { FOOD_NUTRIENTS, NUTRIENT_UNITS } from "@/lib/food-composition";
+
+type TargetInputs = Partial<Record<FoodNutrient, string>>;
+
+function toInputs(targets: NutritionTargets): TargetInputs {
+  return Object.fromEntries(Object.entries(targets).map(([key, value]) => [key, value.toString()]));
+}
+
+function toTargets(inputs: TargetInputs): NutritionTargets {
+  const targets: NutritionTargets = {};
+
+  for (const key of FOOD_NUTRIENTS) {
+    const value = Number(inputs[key]);
+
+    if (inputs[key]?.trim() && value > 0) targets[key] = value;
+  }
+
+  return targets;
+}
+
+export default function NutritionTargetsCard() {
+  const t = useTranslations("settings.user.nutritionTargets");
+  const tNutrient = useTranslations("recipes.nutrition");
+  const { nutritionTargets, updateNutritionTargets, isUpdatingNutritionTargets } =
+    useUserSettingsContext();
+  const [inputs, setInputs] = useState<TargetInputs>({});
+
+  // Sync local state when targets load
+  useEffect(() => {
+    setInputs(toInputs(nutritionTargets));
+  }, [nutritionTargets]);
+
+  const hasChanges =
+    JSON.stringify(toTargets(inputs)) !== JSON.stringify(toTargets(toInputs(nutritionTargets)));
+
+  const handleSave = useCallback(async () => {
+    await updateNutritionTargets(toTargets(inputs));
+  }, [inputs, updateNutritionTargets]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <h2 className="flex items-center gap-2 text-lg font-semibold">
+          <ChartBarIcon className="h-5 w-5" />
+          {t("title")}
+        </h2>
+      </CardHeader>
+      <CardBody className="gap-4">
+        <p className="text-default-500 text-base">{t("description")}</p>
+        <div className="grid grid-cols-1 gap-3 sm:grid-cols-3">
+          {FOOD_NUTRIENTS.map((key) => (
+            <Input
+              key={key}
+              endContent={<span className="text-default-400 text-xs">{NUTRIENT_UNITS[key]}</span>}
+              inputMode="decimal"
+              label={tNutrient(key)}
+              min={0}
+              placeholder={t("noTarget")}
+              type="number"
+              value={inputs[key] ?? ""}
+              onValueChange={(value) => setInputs((prev) => ({ ...prev, [key]: value }))}
+            />
+          ))}
+        </div>
+        <div className="flex justify-end">
+          <Button
+            color="primary"
+            isDisabled={!hasChanges}
+            isLoading={isUpdatingNutritionTargets}
+            startContent={<CheckIcon className="h-4 w-4" />}
+            onPress={handleSave}
+          >
+            {t("saveButton")}
+          </Button>
+        </div>
+      </CardBody>
+    </Card>
+  );
+}
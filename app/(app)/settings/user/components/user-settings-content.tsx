@@ -4,8 +4,10 @@ import { UserSettingsProvider } from "../context";
 
 import ProfileCard from "./profile-card";
 import AllergiesCard from "./allergies-card";
+import NutritionTargetsCard from "./nutrition-targets-card";
 import ApiTokenCard from "./api-token-card";
 import ArchiveImportCard from "./archive-import-card";
+import ArchiveExportCard from "./archive-export-card";
 import DangerZoneCard from "./danger-zone-card";
 
 function UserSettingsContent() {
@@ -13,8 +15,10 @@ function UserSettingsContent() {
     <div className="flex w-full flex-col gap-6">
       <ProfileCard />
       <AllergiesCard />
+      <NutritionTargetsCard />
       <ApiTokenCard />
       <ArchiveImportCard />
+      <ArchiveExportCard />
       <DangerZoneCard />
     </div>
   );
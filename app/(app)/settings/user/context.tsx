@@ -2,6 +2,7 @@
 
 import type { User } from "@/types";
 import type { ApiKeyMetadataDto } from "@/server/trpc/routers/user/types";
+import type { NutritionTargets } from "@/lib/nutrition-summary";
 
 import { createContext, useContext, ReactNode, useCallback } from "react";
 import { addToast } from "@heroui/react";
@@ -14,6 +15,7 @@ type UserSettingsContextType = {
   user: User | null;
   apiKeys: ApiKeyMetadataDto[];
   allergies: string[];
+  nutritionTargets: NutritionTargets;
   isLoading: boolean;
 
   // Actions
@@ -25,6 +27,7 @@ type UserSettingsContextType = {
   toggleApiKey: (keyId: string, enabled: boolean) => void;
   deleteAccount: () => void;
   updateAllergies: (allergies: string[]) => Promise<void>;
+  updateNutritionTargets: (targets: NutritionTargets) => Promise<void>;
 
   // Loading states
   isUpdatingName: boolean;
@@ -32,12 +35,13 @@ type UserSettingsContextType = {
   isDeletingAvatar: boolean;
   isDeletingAccount: boolean;
   isUpdatingAllergies: boolean;
+  isUpdatingNutritionTargets: boolean;
 };
 
 const UserSettingsContext = createContext<UserSettingsContextType | null>(null);
 
 export function UserSettingsProvider({ children }: { children: ReactNode }) {
-  const { user, apiKeys, allergies, isLoading } = useUserSettingsQuery();
+  const { user, apiKeys, allergies, nutritionTargets, isLoading } = useUserSettingsQuery();
   const mutations = useUserMutations();
   const { setUser } = useUserContext();
 
@@ -209,6 +213,23 @@ export function UserSettingsProvider({ children }: { children: ReactNode }) {
     [mutations]
   );
 
+  const updateNutritionTargets = useCallback(
+    async (targets: NutritionTargets) => {
+      const result = await mutations.setNutritionTargets(targets);
+
+      if (!result.success) {
+        addToast({
+          title: "Failed to update nutrition targets",
+          description: result.error,
+          color: "danger",
+          shouldShowTimeoutProgress: true,
+          radius: "full",
+        });
+      }
+    },
+    [mutations]
+  );
+
   const deleteImage = useCallback(async () => {
     try {
       const result = await mutations.deleteAvatar();
@@ -243,6 +264,7 @@ export function UserSettingsProvider({ children }: { children: ReactNode }) {
         user: user || null,
         apiKeys: apiKeys || [],
         allergies: allergies || [],
+        nutritionTargets,
         isLoading,
         updateName,
         updateImage,
@@ -252,11 +274,13 @@ export function UserSettingsProvider({ children }: { children: ReactNode }) {
         toggleApiKey,
         deleteAccount,
         updateAllergies,
+        updateNutritionTargets,
         isUpdatingName: mutations.isUpdatingName,
         isUploadingAvatar: mutations.isUploadingAvatar,
         isDeletingAvatar: mutations.isDeletingAvatar,
         isDeletingAccount: mutations.isDeletingAccount,
         isUpdatingAllergies: mutations.isUpdatingAllergies,
+        isUpdatingNutritionTargets: mutations.isUpdatingNutritionTargets,
       }}
     >
       {children}
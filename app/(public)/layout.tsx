@@ -0,0 +1,9 @@
+import { BaseProviders } from "../providers/base-providers";
+
+export default function PublicLayout({ children }: { children: React.ReactNode }) {
+  return (
+    <BaseProviders>
+      <main className="bg-background relative min-h-dvh px-4 pt-6 md:px-6">{children}</main>
+    </BaseProviders>
+  );
+}
@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server";
+
+import { GET as getRecipeMedia } from "@/app/(app)/recipes/[id]/[filename]/route";
+import { getActiveRecipeShareByToken, isRecipeTrashed } from "@/server/db";
+
+export const runtime = "nodejs";
+
+/**
+ * Public media for a shared recipe. Serves files from the recipe behind an active share token,
+ * unless the recipe is in the trash (the share page 404s in that case too).
+ */
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ token: string; filename: string }> }
+) {
+  const { token, filename } = await params;
+  const share = await getActiveRecipeShareByToken(token);
+
+  if (!share || (await isRecipeTrashed(share.recipeId))) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  return getRecipeMedia(req, { params: Promise.resolve({ id: share.recipeId, filename }) });
+}
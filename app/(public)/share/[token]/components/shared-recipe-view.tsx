@@ -0,0 +1,238 @@
+"use client";
+
+import type { SharedRecipeDto } from "@/types";
+
+import { Fragment } from "react";
+import {
+  ArrowTopRightOnSquareIcon,
+  ClockIcon,
+  FireIcon,
+  WrenchScrewdriverIcon,
+} from "@heroicons/react/20/solid";
+import { Card, CardBody, Chip } from "@heroui/react";
+import Image from "next/image";
+import { useTranslations } from "next-intl";
+
+import { formatMinutesHM } from "@/lib/helpers";
+import { formatAmount } from "@/lib/format-amount";
+import { sectionStartingAt } from "@/lib/recipe-sections";
+import MediaCarousel, { buildMediaItems } from "@/components/shared/media-carousel";
+import SmartMarkdownRenderer from "@/components/shared/smart-markdown-renderer";
+
+const NUTRITION_FIELDS = [
+  { key: "calories", unit: "kcal" },
+  { key: "fat", unit: "g" },
+  { key: "carbs", unit: "g" },
+  { key: "protein", unit: "g" },
+  { key: "fiber", unit: "g" },
+  { key: "sugar", unit: "g" },
+  { key: "saturatedFat", unit: "g" },
+  { key: "sodium", unit: "mg" },
+  { key: "cholesterol", unit: "mg" },
+] as const;
+
+/**
+ * Read-only recipe view for public share links.
+ * Shows the recipe in its primary measurement system; links to other recipes are disabled.
+ */
+export default function SharedRecipeView({ recipe }: { recipe: SharedRecipeDto }) {
+  const t = useTranslations("recipes.detail");
+  const tNutrition = useTranslations("recipes.nutrition");
+  const tShare = useTranslations("recipes.sharedView");
+
+  const mediaItems = buildMediaItems(recipe);
+  const ingredients = recipe.recipeIngredients
+    .filter((it) => it.systemUsed === recipe.systemUsed)
+    .sort((a, b) => a.order - b.order);
+  const steps = recipe.steps
+    .filter((s) => s.systemUsed === recipe.systemUsed)
+    .sort((a, b) => a.order - b.order);
+  const nutrition = NUTRITION_FIELDS.map(({ key, unit }) => {
+    const raw = recipe[key];
+    const value = typeof raw === "string" ? parseFloat(raw) : raw;
+
+    return { key, unit, value };
+  }).filter((n) => n.value != null && !Number.isNaN(n.value));
+
+  return (
+    <div className="mx-auto flex w-full max-w-5xl flex-col gap-6 pb-10">
+      <p className="text-default-500 text-center text-sm">{tShare("sharedWithYou")}</p>
+
+      <div className="grid gap-6 md:grid-cols-2">
+        <div className="flex flex-col gap-6">
+          <Card className="bg-content1 rounded-2xl shadow-md">
+            <CardBody className="space-y-4 p-6">
+              <h1 className="text-2xl leading-tight font-bold">
+                {recipe.name}
+                {recipe.url && (
+                  <a
+                    className="ml-2 inline-block align-middle"
+                    href={recipe.url}
+                    rel="noopener noreferrer"
+                    target="_blank"
+                    title={t("viewOriginal")}
+                  >
+                    <ArrowTopRightOnSquareIcon className="text-default-400 hover:text-primary inline h-4 w-4" />
+                  </a>
+                )}
+              </h1>
+
+              {recipe.description && (
+                <p className="text-base leading-relaxed">
+                  <SmartMarkdownRenderer disableLinks text={recipe.description} />
+                </p>
+              )}
+
+              <div className="text-default-500 flex flex-wrap items-center gap-x-4 gap-y-2 text-base">
+                {recipe.prepMinutes != null && recipe.prepMinutes > 0 && (
+                  <span className="flex items-center gap-1">
+                    <WrenchScrewdriverIcon className="h-4 w-4" />
+                    {formatMinutesHM(recipe.prepMinutes)}
+                  </span>
+                )}
+                {recipe.cookMinutes != null && recipe.cookMinutes > 0 && (
+                  <span className="flex items-center gap-1">
+                    <FireIcon className="h-4 w-4" />
+                    {formatMinutesHM(recipe.cookMinutes)}
+                  </span>
+                )}
+                {recipe.totalMinutes != null && recipe.totalMinutes > 0 && (
+                  <span className="flex items-center gap-1">
+                    <ClockIcon className="h-4 w-4" />
+                    {formatMinutesHM(recipe.totalMinutes)}
+                  </span>
+                )}
+                <span>{tShare("servings", { count: recipe.servings })}</span>
+              </div>
+
+              {recipe.tags.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {recipe.tags.map((tag) => (
+                    <Chip key={tag.name} size="sm" variant="flat">
+                      {tag.name}
+                    </Chip>
+                  ))}
+                </div>
+              )}
+            </CardBody>
+          </Card>
+
+          <Card className="bg-content1 rounded-2xl shadow-md">
+            <CardBody className="space-y-4 p-6">
+              <h2 className="text-lg font-semibold">{t("ingredients")}</h2>
+              <ul className="space-y-2">
+                {ingredients.map((it, idx) => {
+                  const heading = sectionStartingAt(ingredients, idx);
+                  const amount = formatAmount(it.amount, "fraction");
+
+                  return (
+                    <Fragment key={`${it.ingredientName}-${idx}`}>
+                      {heading && (
+                        <li>
+                          <h3 className="text-foreground pt-2 text-base font-semibold">
+                            {heading}
+                          </h3>
+                        </li>
+                      )}
+                      <li className="flex flex-wrap items-baseline gap-x-1.5">
+                        {amount !== "" && (
+                          <span className="text-base font-semibold tabular-nums">{amount}</span>
+                        )}
+                        {it.unit && (
+                          <span className="text-primary-600 dark:text-primary-400 text-base font-medium">
+                            {it.unit}
+                          </span>
+                        )}
+                        <span className="text-base">
+                          <SmartMarkdownRenderer disableLinks text={it.ingredientName} />
+                        </span>
+                      </li>
+                    </Fragment>
+                  );
+                })}
+              </ul>
+            </CardBody>
+          </Card>
+
+          {nutrition.length > 0 && (
+            <Card className="bg-content1 rounded-2xl shadow-md">
+              <CardBody className="p-5">
+                <h2 className="mb-3 text-lg font-semibold">{tNutrition("title")}</h2>
+                <div className="divide-default-100 divide-y">
+                  {nutrition.map(({ key, unit, value }) => (
+                    <div key={key} className="flex items-center justify-between py-2">
+                      <span className="text-base">{tNutrition(key)}</span>
+                      <span className="text-foreground text-base font-semibold">
+                        {Math.round(value!)}
+                        <span className="text-default-500 ml-1 font-normal">{unit}</span>
+                      </span>
+                    </div>
+                  ))}
+                </div>
+                <p className="text-default-400 mt-2 text-center text-xs">{tShare("perServing")}</p>
+              </CardBody>
+            </Card>
+          )}
+        </div>
+
+        <div className="flex flex-col gap-6">
+          {mediaItems.length > 0 && (
+            <div className="relative overflow-hidden rounded-2xl shadow-md">
+              <MediaCarousel className="min-h-[300px]" items={mediaItems} rounded={false} />
+            </div>
+          )}
+
+          <Card className="bg-content1 rounded-2xl shadow-md">
+            <CardBody className="space-y-4 p-6">
+              <h2 className="text-lg font-semibold">{t("steps")}</h2>
+              <ol className="space-y-4">
+                {steps.map((s, i) => {
+                  const heading = sectionStartingAt(steps, i);
+                  const stepNumber = i + 1;
+
+                  return (
+                    <Fragment key={i}>
+                      {heading && (
+                        <li>
+                          <h3 className="text-foreground text-base font-semibold">{heading}</h3>
+                        </li>
+                      )}
+                      <li className="flex gap-3">
+                        <span className="bg-primary text-primary-foreground flex h-6 w-6 shrink-0 items-center justify-center rounded-full text-sm font-semibold">
+                          {stepNumber}
+                        </span>
+                        <div className="flex-1 space-y-2">
+                          <p className="text-base leading-relaxed">
+                            <SmartMarkdownRenderer disableLinks text={s.step} />
+                          </p>
+                          {s.images.length > 0 && (
+                            <div className="flex flex-wrap gap-2">
+                              {s.images.map((img) => (
+                                <div
+                                  key={img.image}
+                                  className="relative h-20 w-20 overflow-hidden rounded-lg"
+                                >
+                                  <Image
+                                    fill
+                                    unoptimized
+                                    alt={tShare("stepImage", { step: stepNumber })}
+                                    className="object-cover"
+                                    src={img.image}
+                                  />
+                                </div>
+                              ))}
+                            </div>
+                          )}
+                        </div>
+                      </li>
+                    </Fragment>
+                  );
+                })}
+              </ol>
+            </CardBody>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,34 @@
+import type { Metadata } from "next";
+
+import { cache } from "react";
+import { notFound } from "next/navigation";
+
+import SharedRecipeView from "./components/shared-recipe-view";
+
+import { getSharedRecipeByToken } from "@/server/db";
+
+type Props = {
+  params: Promise<{ token: string }>;
+};
+
+// Deduplicate the lookup between generateMetadata and the page so a visit is counted once
+const loadSharedRecipe = cache((token: string) => getSharedRecipeByToken(token));
+
+export async function generateMetadata({ params }: Props): Promise<Metadata> {
+  const { token } = await params;
+  const recipe = await loadSharedRecipe(token);
+
+  return {
+    title: recipe?.name,
+    robots: { index: false, follow: false },
+  };
+}
+
+export default async function SharedRecipePage({ params }: Props) {
+  const { token } = await params;
+  const recipe = await loadSharedRecipe(token);
+
+  if (!recipe) notFound();
+
+  return <SharedRecipeView recipe={recipe} />;
+}
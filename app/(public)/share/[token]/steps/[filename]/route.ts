@@ -0,0 +1,23 @@
+import { NextResponse } from "next/server";
+
+import { GET as getStepImage } from "@/app/(app)/recipes/[id]/steps/[filename]/route";
+import { getActiveRecipeShareByToken, isRecipeTrashed } from "@/server/db";
+
+export const runtime = "nodejs";
+
+/**
+ * Public step images for a shared recipe, unless the recipe is in the trash
+ */
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ token: string; filename: string }> }
+) {
+  const { token, filename } = await params;
+  const share = await getActiveRecipeShareByToken(token);
+
+  if (!share || (await isRecipeTrashed(share.recipeId))) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  return getStepImage(req, { params: Promise.resolve({ id: share.recipeId, filename }) });
+}
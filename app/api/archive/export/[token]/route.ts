@@ -0,0 +1,56 @@
+import { Readable } from "node:stream";
+
+import { NextResponse } from "next/server";
+
+import { auth } from "@/server/auth/auth";
+import {
+  buildExportArchive,
+  consumeExportToken,
+  getExportFileName,
+} from "@/server/exporters/archive-exporter";
+import { serverLogger as log } from "@/server/logger";
+
+export const runtime = "nodejs";
+
+/**
+ * GET /api/archive/export/[token]
+ *
+ * Download an archive prepared by the archive.exportArchive procedure.
+ * Tokens are single-use, expire after a few minutes and only work for the user that requested them.
+ */
+export async function GET(req: Request, { params }: { params: Promise<{ token: string }> }) {
+  const { token } = await params;
+
+  const session = await auth.api.getSession({ headers: req.headers });
+
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const request = await consumeExportToken(token);
+
+  if (!request || request.userId !== session.user.id) {
+    return NextResponse.json({ error: "Export not found or expired" }, { status: 404 });
+  }
+
+  try {
+    const zip = await buildExportArchive(request);
+    const stream = zip.generateNodeStream({
+      type: "nodebuffer",
+      streamFiles: true,
+      compression: "DEFLATE",
+    });
+
+    return new Response(Readable.toWeb(Readable.from(stream)) as ReadableStream, {
+      headers: {
+        "Content-Type": "application/zip",
+        "Content-Disposition": `attachment; filename="${getExportFileName(request.format)}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    log.error({ error, userId: session.user.id }, "Archive export failed");
+
+    return NextResponse.json({ error: "Failed to build archive" }, { status: 500 });
+  }
+}
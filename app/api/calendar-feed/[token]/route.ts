@@ -0,0 +1,32 @@
+import { NextResponse } from "next/server";
+
+import { getCalendarFeedByToken, recordCalendarFeedAccess } from "@/server/db";
+import { renderCalendarFeed } from "@/server/caldav/ics-feed";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * Read-only ICS feed of a user's (or household's) meal plan, authorised by its secret token.
+ * Accepts the token with or without a trailing ".ics" for calendar apps that expect one.
+ */
+export async function GET(_req: Request, { params }: { params: Promise<{ token: string }> }) {
+  const { token } = await params;
+  const feed = await getCalendarFeedByToken(token.replace(/\.ics$/, ""));
+
+  if (!feed) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  const ics = await renderCalendarFeed(feed);
+
+  await recordCalendarFeedAccess(feed.id);
+
+  return new NextResponse(ics, {
+    headers: {
+      "Content-Type": "text/calendar; charset=utf-8",
+      "Content-Disposition": 'inline; filename="norish.ics"',
+      "Cache-Control": "private, max-age=300",
+    },
+  });
+}
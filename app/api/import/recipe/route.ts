@@ -6,6 +6,7 @@ import { addImportJob, getQueues } from "@/server/queue";
 import { isUrl } from "@/lib/helpers";
 import { parserLogger as log } from "@/server/logger";
 import { shouldAlwaysUseAI } from "@/config/server-config-loader";
+import { consumeRateLimit } from "@/server/rate-limit";
 
 /**
  * POST /api/import/recipe
@@ -17,6 +18,7 @@ import { shouldAlwaysUseAI } from "@/config/server-config-loader";
  * Headers: x-api-key (optional, for API key auth)
  *
  * Response: { recipeId: string } on success
+ * Responds 429 with a Retry-After header once the user's apiImport rate limit is used up.
  */
 export async function POST(req: Request) {
   try {
@@ -33,6 +35,19 @@ export async function POST(req: Request) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
+    const rateLimit = await consumeRateLimit("apiImport", session.user.id);
+
+    if (!rateLimit.allowed) {
+      return NextResponse.json(
+        {
+          error: "Too many imports, try again later",
+          status: "rate_limited",
+          retryAfterSeconds: rateLimit.retryAfterSeconds,
+        },
+        { status: 429, headers: { "Retry-After": String(rateLimit.retryAfterSeconds) } }
+      );
+    }
+
     // Parse body
     const body = await req.json().catch(() => ({}));
     const { url } = body as { url?: string };
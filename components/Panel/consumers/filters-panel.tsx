@@ -18,6 +18,14 @@ import ChipSkeleton from "@/components/skeleton/chip-skeleton";
 import Panel from "@/components/Panel/Panel";
 import RatingStars from "@/components/shared/rating-stars";
 import SearchFieldToggles from "@/components/dashboard/search-field-toggles";
+import { NUTRITION_FILTER_KEYS, type NutritionFilterKey, type NutritionLimits } from "@/types";
+
+const NUTRITION_FILTER_UNITS: Record<NutritionFilterKey, string> = {
+  calories: "kcal",
+  sugar: "g",
+  saturatedFat: "g",
+  sodium: "mg",
+};
 
 type FiltersPanelProps = {
   open: boolean;
@@ -37,6 +45,7 @@ function FiltersPanelContent({ onOpenChange }: { onOpenChange: (open: boolean) =
   const [localInput, setLocalInput] = useState(filters.rawInput);
   const [localFavoritesOnly, setLocalFavoritesOnly] = useState(filters.showFavoritesOnly);
   const [localMinRating, setLocalMinRating] = useState<number | null>(filters.minRating);
+  const [localMaxNutrition, setLocalMaxNutrition] = useState<NutritionLimits>(filters.maxNutrition);
 
   const { tags: allTags, isLoading } = useTagsQuery();
 
@@ -47,8 +56,19 @@ function FiltersPanelContent({ onOpenChange }: { onOpenChange: (open: boolean) =
     setLocalInput(filters.rawInput);
     setLocalFavoritesOnly(filters.showFavoritesOnly);
     setLocalMinRating(filters.minRating);
+    setLocalMaxNutrition(filters.maxNutrition);
   }, [filters]);
 
+  const setNutritionLimit = useCallback((key: NutritionFilterKey, value: string) => {
+    const max = parseFloat(value);
+
+    setLocalMaxNutrition((prev) => {
+      const { [key]: _previous, ...rest } = prev;
+
+      return Number.isFinite(max) && max >= 0 ? { ...rest, [key]: max } : rest;
+    });
+  }, []);
+
   const toggleTag = useCallback((tag: string) => {
     setWorkingTags((prev) => (prev.includes(tag) ? prev.filter((t) => t !== tag) : [...prev, tag]));
   }, []);
@@ -81,6 +101,7 @@ function FiltersPanelContent({ onOpenChange }: { onOpenChange: (open: boolean) =
       rawInput: localInput,
       showFavoritesOnly: localFavoritesOnly,
       minRating: localMinRating,
+      maxNutrition: localMaxNutrition,
     });
 
     close();
@@ -195,6 +216,32 @@ function FiltersPanelContent({ onOpenChange }: { onOpenChange: (open: boolean) =
         </div>
       </section>
 
+      {/* Nutrition */}
+      <section>
+        <h3 className="text-default-500 mb-2 text-[11px] font-medium tracking-wide uppercase">
+          {t("maxNutrition")}
+        </h3>
+        <div className="grid grid-cols-2 gap-2">
+          {NUTRITION_FILTER_KEYS.map((key) => (
+            <Input
+              key={key}
+              aria-label={t(`nutrients.${key}`)}
+              classNames={{ inputWrapper: "h-9", input: "text-sm" }}
+              endContent={
+                <span className="text-default-400 text-xs">{NUTRITION_FILTER_UNITS[key]}</span>
+              }
+              inputMode="decimal"
+              min={0}
+              placeholder={t(`nutrients.${key}`)}
+              radius="full"
+              type="number"
+              value={localMaxNutrition[key]?.toString() ?? ""}
+              onValueChange={(value) => setNutritionLimit(key, value)}
+            />
+          ))}
+        </div>
+      </section>
+
       {/* Tags */}
       <section>
         <h3 className="text-default-500 mb-3 text-xs font-medium tracking-wide uppercase">
@@ -259,6 +306,7 @@ function FiltersPanelContent({ onOpenChange }: { onOpenChange: (open: boolean) =
             setLocalInput("");
             setLocalFavoritesOnly(false);
             setLocalMinRating(null);
+            setLocalMaxNutrition({});
             close();
           }}
         >
@@ -4,4 +4,5 @@ export { default as FiltersPanel } from "./filters-panel";
 export { default as MiniCalendar } from "./mini-calendar";
 export { default as MiniGroceries } from "./mini-groceries";
 export { default as MiniRecipes } from "./mini-recipes";
+export { default as PlanGroceriesPanel } from "./plan-groceries-panel";
 export * from "./recurrence-panel";
@@ -1,7 +1,7 @@
 "use client";
 
 import { PlusIcon } from "@heroicons/react/16/solid";
-import { Dropdown, DropdownTrigger, Button, DropdownMenu, DropdownItem } from "@heroui/react";
+import { Button } from "@heroui/react";
 import { useMemo, useRef, useCallback, memo, useEffect, useState } from "react";
 import { useVirtualizer } from "@tanstack/react-virtual";
 import { useLocale, useTranslations } from "next-intl";
@@ -11,6 +11,8 @@ import DayTimelineSkeleton from "@/components/skeleton/day-timeline-skeleton";
 import { startOfMonth, addMonths, endOfMonth, eachDayOfInterval, dateKey } from "@/lib/helpers";
 import { useRecipeQuery } from "@/hooks/recipes";
 import { MealIcon } from "@/lib/meal-icon";
+import { SlotDropdown } from "@/components/shared/slot-dropdown";
+import { useMealSlotHelpers } from "@/hooks/meal-slots";
 import Panel from "@/components/Panel/Panel";
 import { useCalendarQuery, useCalendarMutations, useCalendarSubscription } from "@/hooks/calendar";
 
@@ -31,7 +33,7 @@ const DayRow = memo(function DayRow({
   weekdayLong,
   monthLong,
   onPlan,
-  slotLabels,
+  getSlotIcon,
   noItemsLabel,
   addItemLabel,
 }: {
@@ -42,7 +44,7 @@ const DayRow = memo(function DayRow({
   weekdayLong: Intl.DateTimeFormat;
   monthLong: Intl.DateTimeFormat;
   onPlan: (dayKey: string, slot: Slot) => void;
-  slotLabels: Record<Slot, string>;
+  getSlotIcon: (slot: Slot) => string | undefined;
   noItemsLabel: string;
   addItemLabel: string;
 }) {
@@ -67,29 +69,18 @@ const DayRow = memo(function DayRow({
 
           <div className="flex-1" />
 
-          <Dropdown>
-            <DropdownTrigger>
-              <Button
-                isIconOnly
-                aria-label={addItemLabel}
-                className="min-w-0 bg-transparent p-1 shadow-none data-[hover=true]:bg-transparent"
-                radius="none"
-                size="sm"
-                variant="light"
-              >
-                <PlusIcon className="h-4 w-4" />
-              </Button>
-            </DropdownTrigger>
-            <DropdownMenu
-              aria-label="Choose slot"
-              onAction={(slot) => onPlan(dateKeyStr, slot as Slot)}
+          <SlotDropdown onSelectSlot={(slot) => onPlan(dateKeyStr, slot)}>
+            <Button
+              isIconOnly
+              aria-label={addItemLabel}
+              className="min-w-0 bg-transparent p-1 shadow-none data-[hover=true]:bg-transparent"
+              radius="none"
+              size="sm"
+              variant="light"
             >
-              <DropdownItem key="Breakfast">{slotLabels.Breakfast}</DropdownItem>
-              <DropdownItem key="Lunch">{slotLabels.Lunch}</DropdownItem>
-              <DropdownItem key="Dinner">{slotLabels.Dinner}</DropdownItem>
-              <DropdownItem key="Snack">{slotLabels.Snack}</DropdownItem>
-            </DropdownMenu>
-          </Dropdown>
+              <PlusIcon className="h-4 w-4" />
+            </Button>
+          </SlotDropdown>
         </div>
 
         <div className="bg-default-200 h-px" />
@@ -101,7 +92,7 @@ const DayRow = memo(function DayRow({
             items.map((it, i) => (
               <div key={i} className="flex w-full items-center justify-between px-2 py-1.5">
                 <div className="flex min-w-0 items-center gap-2">
-                  <MealIcon slot={it.slot} />
+                  <MealIcon icon={getSlotIcon(it.slot)} slot={it.slot} />
                   <span
                     className={`truncate text-xs md:text-sm ${it.itemType === "note" ? "text-default-500 italic" : "text-foreground"}`}
                     title={it.itemType === "recipe" ? (it.recipeName ?? "") : (it.title ?? "")}
@@ -126,7 +117,6 @@ function MiniCalendarContent({
   onOpenChange: (open: boolean) => void;
 }) {
   const t = useTranslations("calendar.panel");
-  const tSlots = useTranslations("common.slots");
   const tTimeline = useTranslations("calendar.timeline");
   const locale = useLocale();
   const today = useMemo(() => new Date(), []);
@@ -181,17 +171,7 @@ function MiniCalendarContent({
 
   const virtualItems = virtualizer.getVirtualItems();
 
-  const slotOrder: Record<Slot, number> = { Breakfast: 0, Lunch: 1, Dinner: 2, Snack: 3 };
-
-  const slotLabels: Record<Slot, string> = useMemo(
-    () => ({
-      Breakfast: tSlots("breakfast"),
-      Lunch: tSlots("lunch"),
-      Dinner: tSlots("dinner"),
-      Snack: tSlots("snack"),
-    }),
-    [tSlots]
-  );
+  const { getSlotIcon, getSlotOrder } = useMealSlotHelpers();
 
   const noItemsLabel = tTimeline("noItems");
   const addItemLabel = tTimeline("addItem");
@@ -232,7 +212,7 @@ function MiniCalendarContent({
             const d = allDays[virtualItem.index];
             const key = dateKey(d);
             const items = (calendarData[key] ?? []).sort(
-              (a, b) => slotOrder[a.slot] - slotOrder[b.slot]
+              (a, b) => getSlotOrder(a.slot) - getSlotOrder(b.slot)
             );
             const isToday = key === todayKey;
 
@@ -253,11 +233,11 @@ function MiniCalendarContent({
                   addItemLabel={addItemLabel}
                   date={d}
                   dateKeyStr={key}
+                  getSlotIcon={getSlotIcon}
                   isToday={isToday}
                   items={items}
                   monthLong={monthLong}
                   noItemsLabel={noItemsLabel}
-                  slotLabels={slotLabels}
                   weekdayLong={weekdayLong}
                   onPlan={handlePlan}
                 />
@@ -6,7 +6,7 @@ import { MinusIcon, PlusIcon } from "@heroicons/react/16/solid";
 import { useTranslations } from "next-intl";
 
 import { useUnitsQuery } from "@/hooks/config";
-import { useRecipeIngredients } from "@/hooks/recipes/use-recipe-ingredients";
+import { useRecipeGroceryIngredients } from "@/hooks/recipes/use-recipe-ingredients";
 import { useGroceriesMutations } from "@/hooks/groceries";
 import Panel from "@/components/Panel/Panel";
 import { useServingsScaler, formatServings } from "@/hooks/recipes/use-servings-scaler";
@@ -33,22 +33,16 @@ function MiniGroceriesContent({
   const t = useTranslations("groceries.panel");
   const { createGroceriesFromData } = useGroceriesMutations();
 
-  const { ingredients: rawIngredients, isLoading } = useRecipeIngredients(recipeId);
+  const { ingredients: rawIngredients, isLoading } = useRecipeGroceryIngredients(recipeId);
   const { units: _units } = useUnitsQuery();
 
-  // Filter out headings and recipe links - memoized to prevent infinite loops
+  // Filter out headings and unresolved recipe links - memoized to prevent infinite loops
   const ingredients = useMemo(() => {
     return rawIngredients.filter((i) => {
       const name = i.ingredientName?.trim() ?? "";
 
       // Skip headings, recipe links, and empty names
-      return (
-        !name.startsWith("#") &&
-        !name.includes("(id:") &&
-        !name.includes("/recipe:") &&
-        name &&
-        i.ingredientId
-      );
+      return !name.startsWith("#") && !name.includes("(id:") && !name.includes("/recipe:") && name;
     });
   }, [rawIngredients]);
 
@@ -66,7 +60,7 @@ function MiniGroceriesContent({
   // Update selected IDs only once when ingredients first load
   useEffect(() => {
     if (scaledIngredients.length > 0 && !hasInitialized.current) {
-      setSelectedIds(scaledIngredients.map((i) => i.ingredientId!).filter(Boolean));
+      setSelectedIds(scaledIngredients.map((i) => i.key));
       hasInitialized.current = true;
     }
   }, [scaledIngredients]);
@@ -76,7 +70,7 @@ function MiniGroceriesContent({
   };
 
   const handleEditStart = (id: string) => {
-    const item = scaledIngredients.find((i) => i.ingredientId === id);
+    const item = scaledIngredients.find((i) => i.key === id);
 
     if (!item) return;
     setEditingId(id);
@@ -95,7 +89,7 @@ function MiniGroceriesContent({
 
   const handleConfirm = () => {
     const selectedIngredients = scaledIngredients
-      .filter((g) => selectedIds.includes(g.ingredientId!))
+      .filter((g) => selectedIds.includes(g.key))
       .map((ri) => ({
         name: ri.ingredientName,
         amount: ri.amount ? parseFloat(String(ri.amount)) : null,
@@ -105,11 +99,15 @@ function MiniGroceriesContent({
       }));
 
     createGroceriesFromData(selectedIngredients)
-      .then(() => {
+      .then((ids) => {
+        // Ingredients fully covered by the pantry are skipped by the server
+        const covered = selectedIngredients.length - ids.length;
+
         close();
         addToast({
           severity: "success",
           title: t("ingredientsAdded"),
+          description: covered > 0 ? t("pantryCovered", { count: covered }) : undefined,
           shouldShowTimeoutProgress: true,
           radius: "full",
         });
@@ -169,27 +167,27 @@ function MiniGroceriesContent({
       ) : (
         <div className="divide-default-200/40 flex flex-col divide-y overflow-y-auto">
           {scaledIngredients.map((item) => {
-            const isEditing = editingId === item.ingredientId;
+            const isEditing = editingId === item.key;
 
             return (
               <div
-                key={item.ingredientId}
+                key={item.key}
                 className="flex cursor-pointer items-start px-2 py-2"
                 role="button"
                 tabIndex={0}
-                onClick={() => !isEditing && handleEditStart(item.ingredientId!)}
+                onClick={() => !isEditing && handleEditStart(item.key)}
                 onKeyDown={(e) => {
                   if ((e.key === "Enter" || e.key === " ") && !isEditing) {
                     e.preventDefault();
-                    handleEditStart(item.ingredientId!);
+                    handleEditStart(item.key);
                   }
                 }}
               >
                 <Checkbox
                   className="mt-[-4px]"
-                  isSelected={selectedIds.includes(item.ingredientId!)}
+                  isSelected={selectedIds.includes(item.key)}
                   radius="sm"
-                  onChange={() => toggleSelect(item.ingredientId!)}
+                  onChange={() => toggleSelect(item.key)}
                 />
                 <div className="ml-2 flex min-w-0 flex-1 flex-col">
                   {isEditing ? (
@@ -218,6 +216,11 @@ function MiniGroceriesContent({
                           {item.amount} {item.unit ?? ""}
                         </span>
                       )}
+                      {item.subRecipeName && (
+                        <span className="text-default-500 text-xs">
+                          {t("fromSubRecipe", { name: item.subRecipeName })}
+                        </span>
+                      )}
                     </>
                   )}
                 </div>
@@ -0,0 +1,167 @@
+"use client";
+
+import { addToast, Button, Checkbox, Divider, Input } from "@heroui/react";
+import { useState } from "react";
+import { addDays, format } from "date-fns";
+import { useTranslations } from "next-intl";
+
+import Panel from "@/components/Panel/Panel";
+import { useGroceriesMutations, usePlanGroceriesPreview } from "@/hooks/groceries";
+import { useAmountDisplayPreference } from "@/hooks/use-amount-display-preference";
+import { formatAmount } from "@/lib/format-amount";
+
+type PlanGroceriesPanelProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+};
+
+function PlanGroceriesContent({ onOpenChange }: { onOpenChange: (open: boolean) => void }) {
+  const t = useTranslations("groceries.panel");
+  const { addGroceriesFromPlan } = useGroceriesMutations();
+  const { mode } = useAmountDisplayPreference();
+
+  // Default to the coming week
+  const [startDate, setStartDate] = useState(() => format(new Date(), "yyyy-MM-dd"));
+  const [endDate, setEndDate] = useState(() => format(addDays(new Date(), 6), "yyyy-MM-dd"));
+  const [excludedKeys, setExcludedKeys] = useState<string[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const isValidRange = !!startDate && !!endDate && startDate <= endDate;
+  const { items, covered, isLoading } = usePlanGroceriesPreview(
+    isValidRange ? { startDate, endDate } : null
+  );
+
+  const selectedCount = items.filter((item) => !excludedKeys.includes(item.key)).length;
+
+  const handleRangeChange = (setter: (value: string) => void) => (value: string) => {
+    setter(value);
+    setExcludedKeys([]);
+  };
+
+  const toggleItem = (key: string) => {
+    setExcludedKeys((prev) =>
+      prev.includes(key) ? prev.filter((k) => k !== key) : [...prev, key]
+    );
+  };
+
+  const handleConfirm = () => {
+    setIsSubmitting(true);
+
+    addGroceriesFromPlan({ startDate, endDate, excludeKeys: excludedKeys })
+      .then(() => {
+        onOpenChange(false);
+        addToast({
+          severity: "success",
+          title: t("ingredientsAdded"),
+          description:
+            covered.length > 0 ? t("pantryCovered", { count: covered.length }) : undefined,
+          shouldShowTimeoutProgress: true,
+          radius: "full",
+        });
+      })
+      .catch(() => {
+        addToast({
+          severity: "warning",
+          title: t("ingredientsFailed"),
+          shouldShowTimeoutProgress: true,
+          radius: "full",
+        });
+      })
+      .finally(() => setIsSubmitting(false));
+  };
+
+  return (
+    <div className="flex min-h-0 flex-1 flex-col">
+      <div className="mb-3 flex gap-2 px-2">
+        <Input
+          label={t("planFrom")}
+          size="sm"
+          type="date"
+          value={startDate}
+          onValueChange={handleRangeChange(setStartDate)}
+        />
+        <Input
+          errorMessage={t("planInvalidRange")}
+          isInvalid={!!startDate && !!endDate && !isValidRange}
+          label={t("planTo")}
+          size="sm"
+          type="date"
+          value={endDate}
+          onValueChange={handleRangeChange(setEndDate)}
+        />
+      </div>
+
+      <Divider className="bg-default-200/40 mb-2" />
+
+      {isValidRange && isLoading ? (
+        <div className="text-default-500 p-4 text-base">{t("loadingIngredients")}</div>
+      ) : items.length === 0 ? (
+        <div className="text-default-500 flex flex-1 flex-col items-center justify-center gap-1 text-center text-base">
+          <span>{t("planEmpty")}</span>
+          {covered.length > 0 && (
+            <span className="text-sm">{t("pantryCovered", { count: covered.length })}</span>
+          )}
+        </div>
+      ) : (
+        <>
+          <div className="divide-default-200/40 flex flex-col divide-y overflow-y-auto">
+            {items.map((item) => (
+              <div key={item.key} className="flex items-start px-2 py-2">
+                <Checkbox
+                  aria-label={item.name}
+                  className="mt-[-4px]"
+                  isSelected={!excludedKeys.includes(item.key)}
+                  radius="sm"
+                  onValueChange={() => toggleItem(item.key)}
+                />
+                <div className="ml-2 flex min-w-0 flex-1 flex-col">
+                  <span className="truncate text-base font-semibold">{item.name}</span>
+                  {item.amount !== null && (
+                    <span className="text-primary mt-[-3px] text-xs font-medium">
+                      {formatAmount(item.amount, mode)} {item.unit ?? ""}
+                    </span>
+                  )}
+                  {item.recipeNames.length > 0 && (
+                    <span className="text-default-500 truncate text-xs">
+                      {item.recipeNames.join(", ")}
+                    </span>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {covered.length > 0 && (
+            <p className="text-default-500 px-2 pt-2 text-xs">
+              {t("pantryCovered", { count: covered.length })}
+            </p>
+          )}
+
+          <div className="mt-4">
+            <Divider className="bg-default-200/40 my-2" />
+            <Button
+              fullWidth
+              color="primary"
+              isDisabled={selectedCount === 0}
+              isLoading={isSubmitting}
+              size="sm"
+              onPress={handleConfirm}
+            >
+              {t("addSelectedToGroceries")}
+            </Button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default function PlanGroceriesPanel({ open, onOpenChange }: PlanGroceriesPanelProps) {
+  const t = useTranslations("groceries.panel");
+
+  return (
+    <Panel open={open} title={t("addFromPlan")} onOpenChange={onOpenChange}>
+      {open && <PlanGroceriesContent onOpenChange={onOpenChange} />}
+    </Panel>
+  );
+}
@@ -13,6 +13,7 @@ import { DndGroceryProvider, DndGroupedGroceryProvider } from "./dnd";
 
 import { groupGroceriesByIngredient } from "@/lib/grocery-grouping";
 import { useUnitsQuery } from "@/hooks/config/use-units-query";
+import { useIngredientDensitiesQuery } from "@/hooks/config/use-ingredient-densities-query";
 
 interface GroceryListProps {
   groceries: GroceryDto[];
@@ -50,6 +51,7 @@ export function GroceryList({
 }: GroceryListProps) {
   const t = useTranslations("groceries.empty");
   const { units: customUnits } = useUnitsQuery();
+  const { densities } = useIngredientDensitiesQuery();
 
   // Group groceries by storeId
   const groupedGroceries = useMemo(() => {
@@ -99,9 +101,10 @@ export function GroceryList({
     return groupGroceriesByIngredient(
       groceries,
       getRecipeNameForGrocery ?? (() => null),
-      customUnits
+      customUnits,
+      densities
     );
-  }, [groupSimilarIngredients, groceries, getRecipeNameForGrocery, customUnits]);
+  }, [groupSimilarIngredients, groceries, getRecipeNameForGrocery, customUnits, densities]);
 
   // Check if there are any groceries at all
   const hasGroceries = groceries.length > 0;
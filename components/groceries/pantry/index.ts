@@ -0,0 +1 @@
+export { PantryPanel } from "./pantry-panel";
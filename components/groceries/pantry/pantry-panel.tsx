@@ -0,0 +1,242 @@
+"use client";
+
+import type { PantryItemDto } from "@/types";
+
+import { useState } from "react";
+import { Button, Chip, Input } from "@heroui/react";
+import { ArchiveBoxIcon, PencilIcon, PlusIcon, TrashIcon } from "@heroicons/react/24/outline";
+import { differenceInCalendarDays, parseISO } from "date-fns";
+import { useTranslations } from "next-intl";
+
+import Panel, { PANEL_HEIGHT_LARGE } from "@/components/Panel/Panel";
+import { usePantryMutations, usePantryQuery } from "@/hooks/pantry";
+import { useAmountDisplayPreference } from "@/hooks/use-amount-display-preference";
+import { formatAmount } from "@/lib/format-amount";
+
+// Items expiring within this many days are highlighted
+const EXPIRING_SOON_DAYS = 3;
+
+interface PantryPanelProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+type EditingItem = {
+  id: string | null; // null = new item
+  raw: string;
+  expiresAt: string;
+};
+
+function toRaw(item: PantryItemDto, formatValue: (n: number) => string): string {
+  return [item.amount !== null ? formatValue(item.amount) : null, item.unit, item.name]
+    .filter(Boolean)
+    .join(" ");
+}
+
+export function PantryPanel({ open, onOpenChange }: PantryPanelProps) {
+  const t = useTranslations("groceries.pantry");
+  const tActions = useTranslations("common.actions");
+  const { pantryItems, isLoading } = usePantryQuery();
+  const { createPantryItem, updatePantryItem, deletePantryItems } = usePantryMutations();
+  const { mode } = useAmountDisplayPreference();
+
+  const [editing, setEditing] = useState<EditingItem | null>(null);
+
+  const handleSave = () => {
+    if (!editing || !editing.raw.trim()) return;
+
+    const expiresAt = editing.expiresAt || null;
+
+    if (editing.id) {
+      updatePantryItem(editing.id, editing.raw.trim(), expiresAt);
+    } else {
+      createPantryItem(editing.raw.trim(), expiresAt);
+    }
+
+    setEditing(null);
+  };
+
+  const handleStartEdit = (item: PantryItemDto) => {
+    setEditing({
+      id: item.id,
+      // Decimal keeps the amount parseable when saved back
+      raw: toRaw(item, (n) => formatAmount(n, "decimal")),
+      expiresAt: item.expiresAt ?? "",
+    });
+  };
+
+  return (
+    <Panel height={PANEL_HEIGHT_LARGE} open={open} title={t("title")} onOpenChange={onOpenChange}>
+      <div className="flex h-full flex-col gap-4">
+        <div className="flex-1 overflow-y-auto">
+          {!isLoading && pantryItems.length === 0 && !editing && (
+            <div className="text-default-400 flex flex-col items-center gap-1 py-8 text-center">
+              <ArchiveBoxIcon className="h-8 w-8" />
+              <p>{t("empty")}</p>
+              <p className="text-sm">{t("emptyHint")}</p>
+            </div>
+          )}
+
+          <div className="flex flex-col gap-2">
+            {pantryItems.map((item) =>
+              editing?.id === item.id ? (
+                <PantryEditForm
+                  key={item.id}
+                  editing={editing}
+                  translations={{ t, tActions }}
+                  onCancel={() => setEditing(null)}
+                  onChange={setEditing}
+                  onSave={handleSave}
+                />
+              ) : (
+                <PantryListItem
+                  key={item.id}
+                  amountText={toRaw({ ...item, name: "" }, (n) => formatAmount(n, mode))}
+                  item={item}
+                  translations={{ t, tActions }}
+                  onDelete={() => deletePantryItems([item.id])}
+                  onEdit={() => handleStartEdit(item)}
+                />
+              )
+            )}
+          </div>
+
+          {editing && editing.id === null && (
+            <div className="mt-2">
+              <PantryEditForm
+                editing={editing}
+                translations={{ t, tActions }}
+                onCancel={() => setEditing(null)}
+                onChange={setEditing}
+                onSave={handleSave}
+              />
+            </div>
+          )}
+        </div>
+
+        {!editing && (
+          <Button
+            className="shrink-0"
+            color="primary"
+            startContent={<PlusIcon className="h-5 w-5" />}
+            variant="solid"
+            onPress={() => setEditing({ id: null, raw: "", expiresAt: "" })}
+          >
+            {t("addItem")}
+          </Button>
+        )}
+      </div>
+    </Panel>
+  );
+}
+
+type PantryTranslations = {
+  t: ReturnType<typeof useTranslations<"groceries.pantry">>;
+  tActions: ReturnType<typeof useTranslations<"common.actions">>;
+};
+
+interface PantryListItemProps {
+  item: PantryItemDto;
+  amountText: string;
+  onEdit: () => void;
+  onDelete: () => void;
+  translations: PantryTranslations;
+}
+
+function PantryListItem({ item, amountText, onEdit, onDelete, translations }: PantryListItemProps) {
+  const { t, tActions } = translations;
+  const daysLeft = item.expiresAt
+    ? differenceInCalendarDays(parseISO(item.expiresAt), new Date())
+    : null;
+
+  return (
+    <div className="bg-content1 flex items-center gap-3 rounded-lg p-3">
+      <div className="flex min-w-0 flex-1 flex-col">
+        <span className="truncate font-medium">{item.name}</span>
+        {amountText && <span className="text-primary text-xs font-medium">{amountText}</span>}
+      </div>
+
+      {daysLeft !== null && (
+        <Chip
+          color={daysLeft < 0 ? "danger" : daysLeft <= EXPIRING_SOON_DAYS ? "warning" : "default"}
+          size="sm"
+          variant="flat"
+        >
+          {daysLeft < 0
+            ? t("expired")
+            : t("bestBefore", { date: parseISO(item.expiresAt!).toLocaleDateString() })}
+        </Chip>
+      )}
+
+      <div className="flex shrink-0 gap-1">
+        <Button isIconOnly aria-label={tActions("edit")} size="sm" variant="light" onPress={onEdit}>
+          <PencilIcon className="h-4 w-4" />
+        </Button>
+        <Button
+          isIconOnly
+          aria-label={tActions("delete")}
+          color="danger"
+          size="sm"
+          variant="light"
+          onPress={onDelete}
+        >
+          <TrashIcon className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+interface PantryEditFormProps {
+  editing: EditingItem;
+  onChange: (item: EditingItem) => void;
+  onSave: () => void;
+  onCancel: () => void;
+  translations: PantryTranslations;
+}
+
+function PantryEditForm({
+  editing,
+  onChange,
+  onSave,
+  onCancel,
+  translations,
+}: PantryEditFormProps) {
+  const { t, tActions } = translations;
+
+  return (
+    <div className="bg-content2 flex flex-col gap-4 rounded-lg p-4">
+      {/* autoFocus is intentional UX for edit form */}
+      <Input
+        // eslint-disable-next-line jsx-a11y/no-autofocus
+        autoFocus
+        label={t("itemLabel")}
+        placeholder={t("itemPlaceholder")}
+        size="sm"
+        value={editing.raw}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") {
+            e.preventDefault();
+            onSave();
+          }
+        }}
+        onValueChange={(raw) => onChange({ ...editing, raw })}
+      />
+      <Input
+        label={t("expiresLabel")}
+        size="sm"
+        type="date"
+        value={editing.expiresAt}
+        onValueChange={(expiresAt) => onChange({ ...editing, expiresAt })}
+      />
+      <div className="flex justify-end gap-2">
+        <Button size="sm" variant="flat" onPress={onCancel}>
+          {tActions("cancel")}
+        </Button>
+        <Button color="primary" isDisabled={!editing.raw.trim()} size="sm" onPress={onSave}>
+          {editing.id ? tActions("save") : tActions("add")}
+        </Button>
+      </div>
+    </div>
+  );
+}
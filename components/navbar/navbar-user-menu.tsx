@@ -4,7 +4,7 @@ import React, { useEffect, useState } from "react";
 import { Dropdown, DropdownTrigger, DropdownMenu, DropdownItem } from "@heroui/dropdown";
 import { Avatar } from "@heroui/avatar";
 import { Button } from "@heroui/react";
-import { ArrowDownTrayIcon, ArrowUpIcon, PlusIcon } from "@heroicons/react/16/solid";
+import { ArrowDownTrayIcon, ArrowUpIcon, PlusIcon, TrashIcon } from "@heroicons/react/16/solid";
 import { EllipsisVerticalIcon } from "@heroicons/react/20/solid";
 import { UsersIcon } from "@heroicons/react/24/outline";
 import { useRouter } from "next/navigation";
@@ -146,6 +146,27 @@ export default function NavbarUserMenu({ trigger = "avatar" }: NavbarUserMenuPro
             </div>
           </DropdownItem>
 
+          <DropdownItem
+            key="trash"
+            className={`py-3 ${cssButtonPill}`}
+            startContent={
+              <span className="text-default-500">
+                <TrashIcon className="size-4" />
+              </span>
+            }
+            onPress={() => {
+              setUserMenuOpen(false);
+              router.push("/recipes/trash");
+            }}
+          >
+            <div className="flex flex-col items-start">
+              <span className="text-base leading-tight font-medium">{t("trash.title")}</span>
+              <span className="text-default-500 text-xs leading-tight">
+                {t("trash.description")}
+              </span>
+            </div>
+          </DropdownItem>
+
           <DropdownItem key="theme" isReadOnly className={`py-3 ${cssButtonPill}`}>
             <ThemeSwitch />
           </DropdownItem>
@@ -0,0 +1,75 @@
+"use client";
+
+import type {
+  NutritionBreakdown as NutritionBreakdownData,
+  NutritionConfidence,
+} from "@/lib/nutrition";
+
+import { useState } from "react";
+import { Button, Chip } from "@heroui/react";
+import { ChevronDownIcon, ChevronUpIcon } from "@heroicons/react/16/solid";
+import { useTranslations } from "next-intl";
+
+const CONFIDENCE_COLORS: Record<NutritionConfidence, "success" | "warning" | "danger"> = {
+  high: "success",
+  medium: "warning",
+  low: "danger",
+};
+
+interface NutritionBreakdownProps {
+  breakdown: NutritionBreakdownData;
+}
+
+/** How each ingredient line adds up to the recipe's nutrition, for the whole recipe */
+export default function NutritionBreakdown({ breakdown }: NutritionBreakdownProps) {
+  const t = useTranslations("recipes.nutrition.breakdown");
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <div className="mt-2 flex flex-col gap-2">
+      <div className="flex items-center justify-between gap-2">
+        <Button
+          className="text-default-500 px-1"
+          endContent={
+            isOpen ? <ChevronUpIcon className="h-4 w-4" /> : <ChevronDownIcon className="h-4 w-4" />
+          }
+          size="sm"
+          variant="light"
+          onPress={() => setIsOpen((open) => !open)}
+        >
+          {t("toggle")}
+        </Button>
+        <Chip color={CONFIDENCE_COLORS[breakdown.confidence]} size="sm" variant="flat">
+          {t(`confidence.${breakdown.confidence}`, {
+            percent: Math.round(breakdown.matchedRatio * 100),
+          })}
+        </Chip>
+      </div>
+
+      {isOpen && (
+        <ul className="divide-default-100 divide-y text-sm">
+          {breakdown.lines.map((line, index) => (
+            <li key={index} className="flex items-center justify-between gap-3 py-1.5">
+              <div className="flex min-w-0 flex-col">
+                <span className="truncate">{line.ingredientName}</span>
+                {line.food &&
+                  line.food.name.toLowerCase() !== line.ingredientName.toLowerCase() && (
+                    <span className="text-default-400 truncate text-xs">{line.food.name}</span>
+                  )}
+              </div>
+              {line.status === "matched" && line.nutrients ? (
+                <span className="text-default-600 shrink-0">
+                  {line.grams} g · {Math.round(line.nutrients.calories ?? 0)} kcal
+                </span>
+              ) : (
+                <span className="text-default-400 shrink-0 text-xs">
+                  {t(`status.${line.status}`)}
+                </span>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -1,15 +1,28 @@
 "use client";
 
 import { useMemo, useState } from "react";
-import { Card, CardBody, Divider, Skeleton } from "@heroui/react";
-import { FireIcon, BeakerIcon, CubeIcon, BoltIcon } from "@heroicons/react/16/solid";
+import { Button, Card, CardBody, Divider, Skeleton } from "@heroui/react";
+import {
+  FireIcon,
+  BeakerIcon,
+  CubeIcon,
+  BoltIcon,
+  CalculatorIcon,
+  SparklesIcon,
+  CakeIcon,
+  CircleStackIcon,
+  ScaleIcon,
+  HeartIcon,
+} from "@heroicons/react/16/solid";
 import { useTranslations } from "next-intl";
 
 import NutritionPortionControl from "./nutrition-portion-control";
+import NutritionBreakdown from "./nutrition-breakdown";
 
 import { useRecipeContext } from "@/app/(app)/recipes/[id]/context";
 import { usePermissionsContext } from "@/context/permissions-context";
 import AIActionButton from "@/components/shared/ai-action-button";
+import { useNutritionBreakdownQuery } from "@/hooks/recipes";
 
 const MACROS = [
   {
@@ -44,11 +57,54 @@ const MACROS = [
     color: "text-rose-500",
     bg: "bg-rose-100 dark:bg-rose-900/30",
   },
+  {
+    key: "fiber",
+    labelKey: "fiber",
+    unit: "g",
+    icon: SparklesIcon,
+    color: "text-green-500",
+    bg: "bg-green-100 dark:bg-green-900/30",
+  },
+  {
+    key: "sugar",
+    labelKey: "sugar",
+    unit: "g",
+    icon: CakeIcon,
+    color: "text-pink-500",
+    bg: "bg-pink-100 dark:bg-pink-900/30",
+  },
+  {
+    key: "saturatedFat",
+    labelKey: "saturatedFat",
+    unit: "g",
+    icon: CircleStackIcon,
+    color: "text-amber-600",
+    bg: "bg-amber-100 dark:bg-amber-900/30",
+  },
+  {
+    key: "sodium",
+    labelKey: "sodium",
+    unit: "mg",
+    icon: ScaleIcon,
+    color: "text-sky-500",
+    bg: "bg-sky-100 dark:bg-sky-900/30",
+  },
+  {
+    key: "cholesterol",
+    labelKey: "cholesterol",
+    unit: "mg",
+    icon: HeartIcon,
+    color: "text-red-500",
+    bg: "bg-red-100 dark:bg-red-900/30",
+  },
 ] as const;
 
+type MacroKey = (typeof MACROS)[number]["key"];
+
 function NutritionDisplay({ inCard = true }: { inCard?: boolean }) {
   const { recipe, isEstimatingNutrition, estimateNutrition } = useRecipeContext();
   const { isAIEnabled } = usePermissionsContext();
+  const { breakdown, isFoodTableAvailable } = useNutritionBreakdownQuery(recipe?.id ?? null);
   const t = useTranslations("recipes.nutrition");
   // Independent portion state - defaults to 1 (per serving)
   const [portions, setPortions] = useState(1);
@@ -56,27 +112,26 @@ function NutritionDisplay({ inCard = true }: { inCard?: boolean }) {
   const nutritionData = useMemo(() => {
     if (!recipe) return null;
 
-    const parsedFat = typeof recipe.fat === "string" ? parseFloat(recipe.fat) : recipe.fat;
-    const parsedCarbs = typeof recipe.carbs === "string" ? parseFloat(recipe.carbs) : recipe.carbs;
-    const parsedProtein =
-      typeof recipe.protein === "string" ? parseFloat(recipe.protein) : recipe.protein;
+    const parsed = Object.fromEntries(
+      MACROS.map(({ key }) => {
+        const raw = recipe[key];
+
+        return [key, typeof raw === "string" ? parseFloat(raw) : raw];
+      })
+    ) as Record<MacroKey, number | null>;
 
-    const hasData =
-      recipe.calories != null || parsedFat != null || parsedCarbs != null || parsedProtein != null;
+    const hasData = Object.values(parsed).some((value) => value != null);
 
-    if (!hasData && !isAIEnabled) return null;
+    if (!hasData && !isAIEnabled && !isFoodTableAvailable) return null;
 
     return {
       hasData,
-      values: {
-        // Values are stored per-serving, multiply by portions to scale
-        calories: recipe.calories != null ? recipe.calories * portions : null,
-        fat: parsedFat != null ? parsedFat * portions : null,
-        carbs: parsedCarbs != null ? parsedCarbs * portions : null,
-        protein: parsedProtein != null ? parsedProtein * portions : null,
-      },
+      // Values are stored per-serving, multiply by portions to scale
+      values: Object.fromEntries(
+        MACROS.map(({ key }) => [key, parsed[key] != null ? parsed[key] * portions : null])
+      ) as Record<MacroKey, number | null>,
     };
-  }, [recipe, portions, isAIEnabled]);
+  }, [recipe, portions, isAIEnabled, isFoodTableAvailable]);
 
   if (!nutritionData) return null;
 
@@ -129,16 +184,28 @@ function NutritionDisplay({ inCard = true }: { inCard?: boolean }) {
               {t("showingPortions", { count: portions })}
             </p>
           )}
+          {breakdown && breakdown.lines.length > 0 && <NutritionBreakdown breakdown={breakdown} />}
         </>
       ) : (
         <div className="flex flex-col items-center gap-3 py-2">
           <p className="text-default-500 text-base">{t("noInfo")}</p>
-          {isAIEnabled && (
-            <AIActionButton
-              isLoading={isEstimatingNutrition}
-              label={t("estimateWithAI")}
+          {isFoodTableAvailable ? (
+            <Button
+              color="primary"
+              startContent={<CalculatorIcon className="h-4 w-4" />}
+              variant="flat"
               onPress={estimateNutrition}
-            />
+            >
+              {t("calculate")}
+            </Button>
+          ) : (
+            isAIEnabled && (
+              <AIActionButton
+                isLoading={isEstimatingNutrition}
+                label={t("estimateWithAI")}
+                onPress={estimateNutrition}
+              />
+            )
           )}
         </div>
       )}
@@ -20,9 +20,10 @@ export default function Filters({ isGlass = false }: FiltersProps) {
     const hasSearch = filters.rawInput.trim().length > 0;
     const hasTags = filters.searchTags.length > 0;
     const hasRating = filters.minRating !== null;
+    const hasNutrition = Object.keys(filters.maxNutrition).length > 0;
 
-    return hasSearch || hasTags || hasRating;
-  }, [filters.rawInput, filters.searchTags, filters.minRating]);
+    return hasSearch || hasTags || hasRating || hasNutrition;
+  }, [filters.rawInput, filters.searchTags, filters.minRating, filters.maxNutrition]);
 
   return (
     <>
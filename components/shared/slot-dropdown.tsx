@@ -3,6 +3,8 @@ import { ReactNode } from "react";
 import { useTranslations } from "next-intl";
 
 import { Slot } from "@/types";
+import { useMealSlotHelpers } from "@/hooks/meal-slots";
+import { MealIcon } from "@/lib/meal-icon";
 
 type SlotDropdownProps = {
   children: ReactNode;
@@ -12,18 +14,21 @@ type SlotDropdownProps = {
 
 export function SlotDropdown({ children, onSelectSlot, ariaLabel }: SlotDropdownProps) {
   const t = useTranslations("common.slots");
+  const { mealSlots, getSlotLabel } = useMealSlotHelpers();
 
   return (
     <Dropdown>
       <DropdownTrigger>{children}</DropdownTrigger>
       <DropdownMenu
         aria-label={ariaLabel ?? t("chooseSlot")}
+        items={mealSlots}
         onAction={(slot) => onSelectSlot(slot as Slot)}
       >
-        <DropdownItem key="Breakfast">{t("breakfast")}</DropdownItem>
-        <DropdownItem key="Lunch">{t("lunch")}</DropdownItem>
-        <DropdownItem key="Dinner">{t("dinner")}</DropdownItem>
-        <DropdownItem key="Snack">{t("snack")}</DropdownItem>
+        {(slot) => (
+          <DropdownItem key={slot.key} startContent={<MealIcon icon={slot.icon} slot={slot.key} />}>
+            {getSlotLabel(slot.key)}
+          </DropdownItem>
+        )}
       </DropdownMenu>
     </Dropdown>
   );
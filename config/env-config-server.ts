@@ -151,6 +151,22 @@ const ServerConfigSchema = z.object({
 
   // Scheduler Configuration
   SCHEDULER_CLEANUP_MONTHS: z.coerce.number().default(3),
+  TRASH_RETENTION_DAYS: z.coerce.number().default(30),
+
+  // Private hosts imports may fetch from, comma-separated (hostnames, IPs or CIDR ranges)
+  // Can be overridden by admin UI settings stored in database
+  OUTBOUND_ALLOWLIST: z
+    .string()
+    .optional()
+    .transform((val) =>
+      val
+        ? val
+            .split(",")
+            .map((s) => s.trim())
+            .filter(Boolean)
+        : []
+    )
+    .pipe(z.array(z.string())),
 
   // File Size Limits (in bytes)
   MAX_AVATAR_FILE_SIZE: z.coerce.number().default(5 * 1024 * 1024), // 5MB
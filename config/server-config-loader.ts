@@ -11,21 +11,27 @@
 
 // Import defaults for fallback when DB has no value
 import defaultUnits from "./units.default.json";
+import defaultIngredientDensities from "./ingredient-densities.default.json";
 import defaultContentIndicators from "./content-indicators.default.json";
 import defaultRecurrenceConfig from "./recurrence-config.default.json";
 
 import {
   ServerConfigKeys,
   type UnitsMap,
+  type IngredientDensities,
   type ContentIndicatorsConfig,
   type RecurrenceConfig,
   type AIConfig,
   type VideoConfig,
   type RecipePermissionPolicy,
+  type RateLimits,
+  type AIQuotas,
   type PromptsConfig,
   type AutoTaggingMode,
   type I18nLocaleConfig,
   DEFAULT_RECIPE_PERMISSION_POLICY,
+  DEFAULT_RATE_LIMITS,
+  DEFAULT_AI_QUOTAS,
 } from "@/server/db/zodSchemas/server-config";
 import { getConfig } from "@/server/db/repositories/server-config";
 import { SERVER_CONFIG } from "@/config/env-config-server";
@@ -52,6 +58,15 @@ export async function getUnits(): Promise<UnitsMap> {
   return value ?? (defaultUnits as UnitsMap);
 }
 
+/**
+ * Get ingredient densities used to convert between volume and weight
+ */
+export async function getIngredientDensities(): Promise<IngredientDensities> {
+  const value = await getConfig<IngredientDensities>(ServerConfigKeys.INGREDIENT_DENSITIES);
+
+  return value ?? defaultIngredientDensities;
+}
+
 /**
  * Get content indicators configuration
  */
@@ -105,6 +120,42 @@ export async function getSchedulerCleanupMonths(): Promise<number> {
   return value ?? 3;
 }
 
+/**
+ * Get the number of days recipes stay in the trash
+ */
+export async function getTrashRetentionDays(): Promise<number> {
+  const value = await getConfig<number>(ServerConfigKeys.TRASH_RETENTION_DAYS);
+
+  return value ?? SERVER_CONFIG.TRASH_RETENTION_DAYS;
+}
+
+/**
+ * Get the private hosts imports and downloads may fetch from
+ */
+export async function getOutboundAllowlist(): Promise<string[]> {
+  const value = await getConfig<string[]>(ServerConfigKeys.OUTBOUND_ALLOWLIST);
+
+  return value ?? SERVER_CONFIG.OUTBOUND_ALLOWLIST;
+}
+
+/**
+ * Get per-user rate limits, with defaults for features missing from the stored config
+ */
+export async function getRateLimits(): Promise<RateLimits> {
+  const value = await getConfig<Partial<RateLimits>>(ServerConfigKeys.RATE_LIMITS);
+
+  return { ...DEFAULT_RATE_LIMITS, ...value };
+}
+
+/**
+ * Get monthly AI token quotas per user and per household, with their overrides
+ */
+export async function getAIQuotas(): Promise<AIQuotas> {
+  const value = await getConfig<Partial<AIQuotas>>(ServerConfigKeys.AI_QUOTAS);
+
+  return { ...DEFAULT_AI_QUOTAS, ...value };
+}
+
 /**
  * Get recipe permission policy
  */
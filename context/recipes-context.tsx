@@ -61,6 +61,7 @@ export function RecipesContextProvider({ children }: { children: ReactNode }) {
       filterMode: filters.filterMode as "AND" | "OR",
       sortMode: filters.sortMode as "titleAsc" | "titleDesc" | "dateAsc" | "dateDesc",
       minRating: filters.minRating ?? undefined,
+      maxNutrition: Object.keys(filters.maxNutrition).length > 0 ? filters.maxNutrition : undefined,
     }),
     [filters]
   );
@@ -3,6 +3,8 @@ export {
   useUserRoleQuery,
   useAvailableModelsQuery,
   useAvailableTranscriptionModelsQuery,
+  useAIUsageSummaryQuery,
+  useAIQuotaTargetsQuery,
 } from "./use-admin-query";
 export type { AdminConfigsData } from "./use-admin-query";
 
@@ -2,11 +2,13 @@
 
 import type {
   AIConfig,
+  AIQuotas,
   VideoConfig,
   AuthProviderOIDCInput,
   AuthProviderGitHubInput,
   AuthProviderGoogleInput,
   RecipePermissionPolicy,
+  RateLimits,
   PromptsConfigInput,
   ServerConfigKey,
 } from "@/server/db/zodSchemas/server-config";
@@ -49,6 +51,7 @@ export type AdminMutationsResult = {
   // Content config
   updateContentIndicators: (json: string) => Promise<{ success: boolean; error?: string }>;
   updateUnits: (json: string) => Promise<{ success: boolean; error?: string }>;
+  updateIngredientDensities: (json: string) => Promise<{ success: boolean; error?: string }>;
   updateRecurrenceConfig: (json: string) => Promise<{ success: boolean; error?: string }>;
   updatePrompts: (config: PromptsConfigInput) => Promise<{ success: boolean; error?: string }>;
 
@@ -58,6 +61,7 @@ export type AdminMutationsResult = {
   testAIEndpoint: (
     config: Pick<AIConfig, "provider" | "endpoint" | "apiKey">
   ) => Promise<{ success: boolean; error?: string }>;
+  updateAIQuotas: (quotas: AIQuotas) => Promise<{ success: boolean; error?: string }>;
 
   // Permissions
   updateRecipePermissionPolicy: (
@@ -66,6 +70,9 @@ export type AdminMutationsResult = {
 
   // System
   updateSchedulerMonths: (months: number) => Promise<{ success: boolean; error?: string }>;
+  updateTrashRetentionDays: (days: number) => Promise<{ success: boolean; error?: string }>;
+  updateOutboundAllowlist: (entries: string[]) => Promise<{ success: boolean; error?: string }>;
+  updateRateLimits: (limits: RateLimits) => Promise<{ success: boolean; error?: string }>;
   restoreDefault: (key: ServerConfigKey) => Promise<{ success: boolean; error?: string }>;
   restartServer: () => Promise<{ success: boolean }>;
 
@@ -102,6 +109,9 @@ export function useAdminMutations(): AdminMutationsResult {
     trpc.admin.content.updateContentIndicators.mutationOptions()
   );
   const updateUnitsMutation = useMutation(trpc.admin.content.updateUnits.mutationOptions());
+  const updateIngredientDensitiesMutation = useMutation(
+    trpc.admin.content.updateIngredientDensities.mutationOptions()
+  );
   const updateRecurrenceConfigMutation = useMutation(
     trpc.admin.content.updateRecurrenceConfig.mutationOptions()
   );
@@ -111,6 +121,7 @@ export function useAdminMutations(): AdminMutationsResult {
   const updateAIConfigMutation = useMutation(trpc.admin.updateAIConfig.mutationOptions());
   const updateVideoConfigMutation = useMutation(trpc.admin.updateVideoConfig.mutationOptions());
   const testAIEndpointMutation = useMutation(trpc.admin.testAIEndpoint.mutationOptions());
+  const updateAIQuotasMutation = useMutation(trpc.admin.updateAIQuotas.mutationOptions());
 
   // Permissions
   const updatePermissionPolicyMutation = useMutation(
@@ -121,6 +132,13 @@ export function useAdminMutations(): AdminMutationsResult {
   const updateSchedulerMonthsMutation = useMutation(
     trpc.admin.updateSchedulerMonths.mutationOptions()
   );
+  const updateTrashRetentionDaysMutation = useMutation(
+    trpc.admin.updateTrashRetentionDays.mutationOptions()
+  );
+  const updateOutboundAllowlistMutation = useMutation(
+    trpc.admin.updateOutboundAllowlist.mutationOptions()
+  );
+  const updateRateLimitsMutation = useMutation(trpc.admin.updateRateLimits.mutationOptions());
   const restoreDefaultMutation = useMutation(trpc.admin.restoreDefault.mutationOptions());
   const restartServerMutation = useMutation(trpc.admin.restartServer.mutationOptions());
 
@@ -176,6 +194,9 @@ export function useAdminMutations(): AdminMutationsResult {
     updateUnits: async (json) => {
       return withInvalidate(updateUnitsMutation.mutateAsync(json));
     },
+    updateIngredientDensities: async (json) => {
+      return withInvalidate(updateIngredientDensitiesMutation.mutateAsync(json));
+    },
     updateRecurrenceConfig: async (json) => {
       return withInvalidate(updateRecurrenceConfigMutation.mutateAsync(json));
     },
@@ -194,6 +215,9 @@ export function useAdminMutations(): AdminMutationsResult {
       // Test doesn't need invalidate
       return testAIEndpointMutation.mutateAsync(config);
     },
+    updateAIQuotas: async (quotas) => {
+      return withInvalidate(updateAIQuotasMutation.mutateAsync(quotas));
+    },
 
     // Permissions
     updateRecipePermissionPolicy: async (policy) => {
@@ -204,6 +228,15 @@ export function useAdminMutations(): AdminMutationsResult {
     updateSchedulerMonths: async (months) => {
       return withInvalidate(updateSchedulerMonthsMutation.mutateAsync(months));
     },
+    updateTrashRetentionDays: async (days) => {
+      return withInvalidate(updateTrashRetentionDaysMutation.mutateAsync(days));
+    },
+    updateOutboundAllowlist: async (entries) => {
+      return withInvalidate(updateOutboundAllowlistMutation.mutateAsync(entries));
+    },
+    updateRateLimits: async (limits) => {
+      return withInvalidate(updateRateLimitsMutation.mutateAsync(limits));
+    },
     restoreDefault: async (key) => {
       return withInvalidate(restoreDefaultMutation.mutateAsync(key));
     },
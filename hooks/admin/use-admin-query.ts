@@ -52,6 +52,40 @@ export function useUserRoleQuery() {
   };
 }
 
+/**
+ * Query hook for AI usage per month, user and feature.
+ * Covers the last `months` months, the current one included.
+ */
+export function useAIUsageSummaryQuery(months: number) {
+  const trpc = useTRPC();
+
+  const { data, error, isLoading } = useQuery(
+    trpc.admin.getAIUsageSummary.queryOptions({ months })
+  );
+
+  return {
+    rows: data ?? [],
+    error,
+    isLoading,
+  };
+}
+
+/**
+ * Query hook for the users and households an AI quota override can be set for.
+ */
+export function useAIQuotaTargetsQuery() {
+  const trpc = useTRPC();
+
+  const { data, error, isLoading } = useQuery(trpc.admin.getAIQuotaTargets.queryOptions());
+
+  return {
+    users: data?.users ?? [],
+    households: data?.households ?? [],
+    error,
+    isLoading,
+  };
+}
+
 /**
  * Query hook for available AI models.
  * Fetches models from the configured provider's API.
@@ -1,6 +1,8 @@
 export { useArchiveImportQuery } from "./use-archive-import-query";
 export { useArchiveImportMutation } from "./use-archive-import-mutation";
 export { useArchiveImportSubscription } from "./use-archive-import-subscription";
+export { useArchiveExportMutation } from "./use-archive-export-mutation";
 
 export type { ArchiveImportQueryResult } from "./use-archive-import-query";
 export type { ArchiveImportMutationResult } from "./use-archive-import-mutation";
+export type { ArchiveExportMutationResult } from "./use-archive-export-mutation";
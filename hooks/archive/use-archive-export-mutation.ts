@@ -0,0 +1,72 @@
+"use client";
+
+import { useMutation } from "@tanstack/react-query";
+import { addToast } from "@heroui/react";
+
+import { useTRPC } from "@/app/providers/trpc-provider";
+import { ArchiveExportFormat } from "@/types";
+
+export type ArchiveExportMutationResult = {
+  startExport: (format: ArchiveExportFormat, recipeIds?: string[]) => void;
+  isExporting: boolean;
+};
+
+/**
+ * Hook for exporting recipes as a Norish, Mealie, Paprika or Mela archive.
+ * Requests a one-time download URL and hands it to the browser.
+ */
+export function useArchiveExportMutation(): ArchiveExportMutationResult {
+  const trpc = useTRPC();
+
+  const exportMutation = useMutation(trpc.archive.exportArchive.mutationOptions());
+
+  const startExport = (format: ArchiveExportFormat, recipeIds?: string[]) => {
+    exportMutation.mutate(
+      { format, recipeIds },
+      {
+        onSuccess: (result) => {
+          if (result.success && result.url) {
+            // Let the browser handle the (potentially large) download natively
+            const link = document.createElement("a");
+
+            link.href = result.url;
+            link.rel = "noopener";
+            document.body.appendChild(link);
+            link.click();
+            link.remove();
+
+            addToast({
+              severity: "default",
+              title: "Recipe export started",
+              description: `Exporting ${result.total} recipes...`,
+              shouldShowTimeoutProgress: true,
+              radius: "full",
+            });
+          } else {
+            addToast({
+              severity: "danger",
+              title: "Export failed",
+              description: result.error || "Unknown error",
+              shouldShowTimeoutProgress: true,
+              radius: "full",
+            });
+          }
+        },
+        onError: (error) => {
+          addToast({
+            severity: "danger",
+            title: "Export failed",
+            description: String(error),
+            shouldShowTimeoutProgress: true,
+            radius: "full",
+          });
+        },
+      }
+    );
+  };
+
+  return {
+    startExport,
+    isExporting: exportMutation.isPending,
+  };
+}
@@ -29,6 +29,9 @@ export type {
   CaldavMutationsResult,
 } from "./use-caldav-mutations";
 
+// Calendar feeds
+export { useCalendarFeeds, type CalendarFeedsResult } from "./use-calendar-feeds";
+
 // Subscriptions
 export {
   useCaldavSubscription,
@@ -26,6 +26,7 @@ export type SaveCaldavConfigInput = {
   lunchTime: string;
   dinnerTime: string;
   snackTime: string;
+  timezone?: string;
 };
 
 export type TestConnectionInput = {
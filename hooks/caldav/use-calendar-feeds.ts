@@ -0,0 +1,58 @@
+"use client";
+
+import type { CalendarFeedScope, CalendarFeedViewDto } from "@/types";
+
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+
+import { useTRPC } from "@/app/providers/trpc-provider";
+
+export type CalendarFeedsResult = {
+  feeds: CalendarFeedViewDto[];
+  isLoading: boolean;
+  rotateFeed: (scope: CalendarFeedScope) => Promise<CalendarFeedViewDto>;
+  deleteFeed: (scope: CalendarFeedScope) => Promise<void>;
+  isRotating: boolean;
+  isDeleting: boolean;
+};
+
+/**
+ * Read-only ICS feeds of the meal plan, with rotate and delete actions
+ */
+export function useCalendarFeeds(): CalendarFeedsResult {
+  const trpc = useTRPC();
+  const queryClient = useQueryClient();
+  const queryKey = trpc.caldav.getFeeds.queryKey();
+
+  const { data, isLoading } = useQuery(trpc.caldav.getFeeds.queryOptions());
+
+  const rotateMutation = useMutation(trpc.caldav.rotateFeed.mutationOptions());
+  const deleteMutation = useMutation(trpc.caldav.deleteFeed.mutationOptions());
+
+  const rotateFeed = async (scope: CalendarFeedScope) => {
+    const feed = await rotateMutation.mutateAsync({ scope });
+
+    queryClient.setQueryData<CalendarFeedViewDto[]>(queryKey, (old) => [
+      ...(old ?? []).filter((f) => f.scope !== scope),
+      feed,
+    ]);
+
+    return feed;
+  };
+
+  const deleteFeed = async (scope: CalendarFeedScope) => {
+    await deleteMutation.mutateAsync({ scope });
+
+    queryClient.setQueryData<CalendarFeedViewDto[]>(queryKey, (old) =>
+      old?.filter((f) => f.scope !== scope)
+    );
+  };
+
+  return {
+    feeds: data ?? [],
+    isLoading,
+    rotateFeed,
+    deleteFeed,
+    isRotating: rotateMutation.isPending,
+    isDeleting: deleteMutation.isPending,
+  };
+}
@@ -6,3 +6,7 @@ export {
 export { useCalendarMutations, type CalendarMutationsResult } from "./use-calendar-mutations";
 export { useCalendarSubscription } from "./use-calendar-subscription";
 export { useCalendarCacheHelpers, type CalendarCacheHelpers } from "./use-calendar-cache";
+export {
+  useNutritionSummaryQuery,
+  type NutritionSummaryQueryResult,
+} from "./use-nutrition-summary-query";
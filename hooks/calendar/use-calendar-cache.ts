@@ -23,8 +23,10 @@ export type CalendarCacheHelpers = {
   setCalendarData: (updater: (prev: CalendarData) => CalendarData) => void;
   removeRecipeFromCache: (id: string) => void;
   updateRecipeInCache: (id: string, newDate: string) => void;
+  updateRecipeServingsInCache: (id: string, servings: number | null) => void;
   removeNoteFromCache: (id: string) => void;
   updateNoteInCache: (id: string, newDate: string) => void;
+  invalidateNutritionSummary: () => void;
   invalidate: () => void;
 };
 
@@ -99,6 +101,22 @@ export function useCalendarCacheHelpers(): CalendarCacheHelpers {
     [queryClient, recipesPath]
   );
 
+  const updateRecipeServingsInCache = useCallback(
+    (id: string, servings: number | null) => {
+      // Update ALL recipe list queries
+      const queries = queryClient.getQueriesData<Array<{ id: string }>>({
+        queryKey: recipesPath,
+      });
+
+      for (const [key] of queries) {
+        queryClient.setQueryData(key, (prev: Array<{ id: string }> | undefined) =>
+          prev?.map((r) => (r.id === id ? { ...r, servings } : r))
+        );
+      }
+    },
+    [queryClient, recipesPath]
+  );
+
   const removeNoteFromCache = useCallback(
     (id: string) => {
       // Update ALL note list queries
@@ -131,6 +149,10 @@ export function useCalendarCacheHelpers(): CalendarCacheHelpers {
     [queryClient, notesPath]
   );
 
+  const invalidateNutritionSummary = useCallback(() => {
+    queryClient.invalidateQueries(trpc.calendar.nutritionSummary.pathFilter());
+  }, [queryClient, trpc]);
+
   const invalidate = useCallback(() => {
     queryClient.invalidateQueries({ queryKey: recipesPath });
     queryClient.invalidateQueries({ queryKey: notesPath });
@@ -143,14 +165,18 @@ export function useCalendarCacheHelpers(): CalendarCacheHelpers {
     for (const [key] of queries) {
       queryClient.setQueryData<CalendarData>(key, {});
     }
-  }, [queryClient, recipesPath, notesPath]);
+
+    invalidateNutritionSummary();
+  }, [queryClient, recipesPath, notesPath, invalidateNutritionSummary]);
 
   return {
     setCalendarData,
     removeRecipeFromCache,
     updateRecipeInCache,
+    updateRecipeServingsInCache,
     removeNoteFromCache,
     updateNoteInCache,
+    invalidateNutritionSummary,
     invalidate,
   };
 }
@@ -19,6 +19,7 @@ export type CalendarMutationsResult = {
   ) => void;
   deletePlannedRecipe: (id: string, date: string) => void;
   updatePlannedRecipeDate: (id: string, newDate: string, oldDate: string) => void;
+  updatePlannedRecipeServings: (id: string, date: string, servings: number | null) => void;
   createNote: (date: string, slot: Slot, title: string) => void;
   deleteNote: (id: string, date: string) => void;
   updateNoteDate: (id: string, newDate: string, oldDate: string) => void;
@@ -30,6 +31,7 @@ export function useCalendarMutations(startISO: string, endISO: string): Calendar
     setCalendarData,
     removeRecipeFromCache,
     updateRecipeInCache,
+    updateRecipeServingsInCache,
     removeNoteFromCache,
     updateNoteInCache,
     invalidate,
@@ -39,6 +41,9 @@ export function useCalendarMutations(startISO: string, endISO: string): Calendar
   const createRecipeMutation = useMutation(trpc.calendar.createRecipe.mutationOptions());
   const deleteRecipeMutation = useMutation(trpc.calendar.deleteRecipe.mutationOptions());
   const updateRecipeDateMutation = useMutation(trpc.calendar.updateRecipeDate.mutationOptions());
+  const updateRecipeServingsMutation = useMutation(
+    trpc.calendar.updateRecipeServings.mutationOptions()
+  );
   const createNoteMutation = useMutation(trpc.calendar.createNote.mutationOptions());
   const deleteNoteMutation = useMutation(trpc.calendar.deleteNote.mutationOptions());
   const updateNoteDateMutation = useMutation(trpc.calendar.updateNoteDate.mutationOptions());
@@ -77,6 +82,7 @@ export function useCalendarMutations(startISO: string, endISO: string): Calendar
               recipeName,
               slot,
               date,
+              servings: null,
               allergyWarnings: [...allergyWarnings],
             };
 
@@ -134,6 +140,26 @@ export function useCalendarMutations(startISO: string, endISO: string): Calendar
     );
   };
 
+  const updatePlannedRecipeServings = (id: string, date: string, servings: number | null): void => {
+    // Optimistic update - both the base query cache and the combined data
+    updateRecipeServingsInCache(id, servings);
+    setCalendarData((prev) => {
+      const arr = prev[date] ?? [];
+
+      return {
+        ...prev,
+        [date]: arr.map((i) => (i.id === id && i.itemType === "recipe" ? { ...i, servings } : i)),
+      };
+    });
+
+    updateRecipeServingsMutation.mutate(
+      { id, date, servings },
+      {
+        onError: () => invalidate(),
+      }
+    );
+  };
+
   const createNote = (date: string, slot: Slot, title: string): void => {
     createNoteMutation.mutate(
       { date, slot, title },
@@ -212,6 +238,7 @@ export function useCalendarMutations(startISO: string, endISO: string): Calendar
     createPlannedRecipe,
     deletePlannedRecipe,
     updatePlannedRecipeDate,
+    updatePlannedRecipeServings,
     createNote,
     deleteNote,
     updateNoteDate,
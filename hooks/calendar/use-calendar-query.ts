@@ -22,6 +22,7 @@ export type CalendarQueryResult = {
   setCalendarData: (updater: (prev: CalendarData) => CalendarData) => void;
   removeRecipeFromCache: (id: string) => void;
   updateRecipeInCache: (id: string, newDate: string) => void;
+  updateRecipeServingsInCache: (id: string, servings: number | null) => void;
   removeNoteFromCache: (id: string) => void;
   updateNoteInCache: (id: string, newDate: string) => void;
   invalidate: () => void;
@@ -74,6 +75,8 @@ export function useCalendarQuery(startISO: string, endISO: string): CalendarQuer
           recipeName: r.recipeName ?? "Unknown",
           slot: r.slot as Slot,
           date: k,
+          servings: r.servings,
+          recipeServings: r.recipeServings,
           allergyWarnings: r.allergyWarnings,
         });
       }
@@ -138,6 +141,17 @@ export function useCalendarQuery(startISO: string, endISO: string): CalendarQuer
     [queryClient, recipesQueryKey]
   );
 
+  // Optimistically update a recipe's servings in the base query cache
+  const updateRecipeServingsInCache = useCallback(
+    (id: string, servings: number | null) => {
+      queryClient.setQueryData(recipesQueryKey, (prev: typeof recipesQuery.data) =>
+        prev?.map((r) => (r.id === id ? { ...r, servings } : r))
+      );
+    },
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [queryClient, recipesQueryKey]
+  );
+
   // Optimistically remove a note from the base query cache
   const removeNoteFromCache = useCallback(
     (id: string) => {
@@ -175,6 +189,7 @@ export function useCalendarQuery(startISO: string, endISO: string): CalendarQuer
     setCalendarData,
     removeRecipeFromCache,
     updateRecipeInCache,
+    updateRecipeServingsInCache,
     removeNoteFromCache,
     updateNoteInCache,
     invalidate,
@@ -22,8 +22,10 @@ export function useCalendarSubscription() {
     setCalendarData,
     removeRecipeFromCache,
     updateRecipeInCache,
+    updateRecipeServingsInCache,
     removeNoteFromCache,
     updateNoteInCache,
+    invalidateNutritionSummary,
     invalidate,
   } = useCalendarCacheHelpers();
 
@@ -33,6 +35,7 @@ export function useCalendarSubscription() {
       onData: (payload) => {
         const { plannedRecipe } = payload;
 
+        invalidateNutritionSummary();
         setCalendarData((prev) => {
           const arr = prev[plannedRecipe.date] ?? [];
           const exists = arr.some((i) => i.id === plannedRecipe.id);
@@ -46,6 +49,8 @@ export function useCalendarSubscription() {
             recipeName: plannedRecipe.recipeName ?? "Unknown",
             slot: plannedRecipe.slot as Slot,
             date: plannedRecipe.date,
+            servings: plannedRecipe.servings,
+            recipeServings: plannedRecipe.recipeServings,
             allergyWarnings: plannedRecipe.allergyWarnings,
           };
 
@@ -63,6 +68,7 @@ export function useCalendarSubscription() {
 
         // Remove from base query cache and optimistic data
         removeRecipeFromCache(plannedRecipeId);
+        invalidateNutritionSummary();
         setCalendarData((prev) => {
           const arr = prev[date] ?? [];
 
@@ -82,6 +88,8 @@ export function useCalendarSubscription() {
         // Keep the base list query in sync so we don't show duplicates
         // (base query still has the old date until refetch otherwise).
         updateRecipeInCache(plannedRecipe.id, newDate);
+        updateRecipeServingsInCache(plannedRecipe.id, plannedRecipe.servings);
+        invalidateNutritionSummary();
 
         setCalendarData((prev) => {
           // Remove from old date
@@ -104,6 +112,8 @@ export function useCalendarSubscription() {
               (existing && existing.itemType === "recipe" ? existing.recipeName : "Unknown"),
             slot: plannedRecipe.slot as Slot,
             date: plannedRecipe.date,
+            servings: plannedRecipe.servings,
+            recipeServings: plannedRecipe.recipeServings,
             allergyWarnings:
               plannedRecipe.allergyWarnings ??
               (existing && existing.itemType === "recipe" ? existing.allergyWarnings : undefined),
@@ -0,0 +1,53 @@
+"use client";
+
+import type {
+  DayNutritionSummary,
+  NutritionTargets,
+  WeekNutritionSummary,
+} from "@/lib/nutrition-summary";
+
+import { useQuery } from "@tanstack/react-query";
+import { useMemo } from "react";
+
+import { useTRPC } from "@/app/providers/trpc-provider";
+
+const NO_TARGETS: NutritionTargets = {};
+
+export type NutritionSummaryQueryResult = {
+  nutritionByDate: Record<string, DayNutritionSummary>;
+  /** Keyed by the Monday of each week */
+  nutritionByWeek: Record<string, WeekNutritionSummary>;
+  nutritionTargets: NutritionTargets;
+  isLoading: boolean;
+};
+
+/**
+ * Planned nutrition per day and week, with the current user's daily targets.
+ * Refetched by useCalendarSubscription whenever a planned recipe changes.
+ */
+export function useNutritionSummaryQuery(
+  startISO: string,
+  endISO: string
+): NutritionSummaryQueryResult {
+  const trpc = useTRPC();
+
+  const { data, isLoading } = useQuery(
+    trpc.calendar.nutritionSummary.queryOptions({ startISO, endISO })
+  );
+
+  const nutritionByDate = useMemo(
+    () => Object.fromEntries((data?.days ?? []).map((day) => [day.date, day])),
+    [data?.days]
+  );
+  const nutritionByWeek = useMemo(
+    () => Object.fromEntries((data?.weeks ?? []).map((week) => [week.weekStart, week])),
+    [data?.weeks]
+  );
+
+  return {
+    nutritionByDate,
+    nutritionByWeek,
+    nutritionTargets: data?.targets ?? NO_TARGETS,
+    isLoading,
+  };
+}
@@ -1,5 +1,6 @@
 export { useTagsQuery } from "./use-tags-query";
 export { useUnitsQuery } from "./use-units-query";
+export { useIngredientDensitiesQuery } from "./use-ingredient-densities-query";
 export { useRecurrenceConfigQuery } from "./use-recurrence-config-query";
 export { useVersionQuery } from "./use-version-query";
 export { useLocaleConfigQuery } from "./use-locale-config-query";
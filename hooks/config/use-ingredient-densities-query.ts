@@ -0,0 +1,27 @@
+"use client";
+
+import type { IngredientDensities } from "@/server/db/zodSchemas/server-config";
+
+import { useQuery } from "@tanstack/react-query";
+
+import { useTRPC } from "@/app/providers/trpc-provider";
+
+/**
+ * Hook to fetch ingredient densities and piece weights.
+ * Used by client components that convert amounts between units.
+ */
+export function useIngredientDensitiesQuery() {
+  const trpc = useTRPC();
+
+  const { data, error, isLoading } = useQuery({
+    ...trpc.config.ingredientDensities.queryOptions(),
+    staleTime: 60 * 60 * 1000, // Densities rarely change, cache for 1 hour
+    gcTime: 60 * 60 * 1000,
+  });
+
+  return {
+    densities: (data ?? {}) as IngredientDensities,
+    isLoading,
+    error,
+  };
+}
@@ -0,0 +1,11 @@
+export {
+  useCookTimersQuery,
+  type CookTimersQueryResult,
+  type CookTimersData,
+} from "./use-cook-timers-query";
+export {
+  useCookTimersMutations,
+  type CookTimersMutationsResult,
+} from "./use-cook-timers-mutations";
+export { useCookTimersSubscription } from "./use-cook-timers-subscription";
+export { useCookTimersCacheHelpers, type CookTimersCacheHelpers } from "./use-cook-timers-cache";
@@ -0,0 +1,44 @@
+"use client";
+
+/**
+ * Lightweight cache manipulation helpers for cook timers.
+ *
+ * Updates the React Query cache without creating query observers, so the
+ * subscription hook can use it without a duplicate hook tree.
+ */
+
+import type { CookTimersData } from "./use-cook-timers-query";
+
+import { useQueryClient } from "@tanstack/react-query";
+import { useCallback } from "react";
+
+import { useTRPC } from "@/app/providers/trpc-provider";
+
+export type CookTimersCacheHelpers = {
+  setCookTimersData: (
+    updater: (prev: CookTimersData | undefined) => CookTimersData | undefined
+  ) => void;
+  invalidate: () => void;
+};
+
+export function useCookTimersCacheHelpers(): CookTimersCacheHelpers {
+  const trpc = useTRPC();
+  const queryClient = useQueryClient();
+  const queryKey = trpc.cookTimers.list.queryKey();
+
+  const setCookTimersData = useCallback(
+    (updater: (prev: CookTimersData | undefined) => CookTimersData | undefined) => {
+      queryClient.setQueryData<CookTimersData>(queryKey, updater);
+    },
+    [queryClient, queryKey]
+  );
+
+  const invalidate = useCallback(() => {
+    queryClient.invalidateQueries({ queryKey });
+  }, [queryClient, queryKey]);
+
+  return {
+    setCookTimersData,
+    invalidate,
+  };
+}
@@ -0,0 +1,53 @@
+"use client";
+
+import type { CookTimerStartInput } from "@/types";
+
+import { useMutation } from "@tanstack/react-query";
+
+import { useCookTimersCacheHelpers } from "./use-cook-timers-cache";
+
+import { useTRPC } from "@/app/providers/trpc-provider";
+
+export type CookTimersMutationsResult = {
+  startTimer: (input: CookTimerStartInput) => void;
+  pauseTimer: (id: string) => void;
+  resumeTimer: (id: string) => void;
+  removeTimer: (id: string) => void;
+};
+
+export function useCookTimersMutations(): CookTimersMutationsResult {
+  const trpc = useTRPC();
+  const { setCookTimersData, invalidate } = useCookTimersCacheHelpers();
+
+  const startMutation = useMutation(trpc.cookTimers.start.mutationOptions());
+  const pauseMutation = useMutation(trpc.cookTimers.pause.mutationOptions());
+  const resumeMutation = useMutation(trpc.cookTimers.resume.mutationOptions());
+  const deleteMutation = useMutation(trpc.cookTimers.delete.mutationOptions());
+
+  // Start, pause and resume wait for the server so every device counts down from the same time
+  const startTimer = (input: CookTimerStartInput) => {
+    startMutation.mutate(input, { onError: () => invalidate() });
+  };
+
+  const pauseTimer = (id: string) => {
+    pauseMutation.mutate({ id }, { onError: () => invalidate() });
+  };
+
+  const resumeTimer = (id: string) => {
+    resumeMutation.mutate({ id }, { onError: () => invalidate() });
+  };
+
+  const removeTimer = (id: string) => {
+    // Optimistic update
+    setCookTimersData((prev) => prev?.filter((timer) => timer.id !== id));
+
+    deleteMutation.mutate({ id }, { onError: () => invalidate() });
+  };
+
+  return {
+    startTimer,
+    pauseTimer,
+    resumeTimer,
+    removeTimer,
+  };
+}
@@ -0,0 +1,43 @@
+"use client";
+
+import type { CookTimerDto } from "@/types";
+
+import { useQuery } from "@tanstack/react-query";
+import { useMemo } from "react";
+
+import { useCookTimersCacheHelpers } from "./use-cook-timers-cache";
+
+import { useTRPC } from "@/app/providers/trpc-provider";
+
+export type CookTimersData = CookTimerDto[];
+
+export type CookTimersQueryResult = {
+  timers: CookTimerDto[];
+  isLoading: boolean;
+  setCookTimersData: (
+    updater: (prev: CookTimersData | undefined) => CookTimersData | undefined
+  ) => void;
+  invalidate: () => void;
+};
+
+/**
+ * Timers of the household, optionally only those started from one recipe.
+ */
+export function useCookTimersQuery(recipeId?: string): CookTimersQueryResult {
+  const trpc = useTRPC();
+  const { setCookTimersData, invalidate } = useCookTimersCacheHelpers();
+
+  const { data, isLoading } = useQuery(trpc.cookTimers.list.queryOptions());
+
+  const timers = useMemo(
+    () => (data ?? []).filter((timer) => !recipeId || timer.recipeId === recipeId),
+    [data, recipeId]
+  );
+
+  return {
+    timers,
+    isLoading,
+    setCookTimersData,
+    invalidate,
+  };
+}
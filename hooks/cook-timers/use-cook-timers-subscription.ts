@@ -0,0 +1,67 @@
+"use client";
+
+import { useSubscription } from "@trpc/tanstack-react-query";
+import { addToast } from "@heroui/react";
+
+import { useCookTimersCacheHelpers } from "./use-cook-timers-cache";
+
+import { useTRPC } from "@/app/providers/trpc-provider";
+
+/**
+ * Keeps the cook timers cache in sync with timers started, paused or removed
+ * on any device of the household.
+ */
+export function useCookTimersSubscription() {
+  const trpc = useTRPC();
+  const { setCookTimersData, invalidate } = useCookTimersCacheHelpers();
+
+  // onCreated
+  useSubscription(
+    trpc.cookTimers.onCreated.subscriptionOptions(undefined, {
+      onData: (payload) => {
+        setCookTimersData((prev) => {
+          if (!prev) return prev;
+
+          const newTimers = payload.timers.filter((t) => !prev.some((p) => p.id === t.id));
+
+          return newTimers.length ? [...prev, ...newTimers] : prev;
+        });
+      },
+    })
+  );
+
+  // onUpdated
+  useSubscription(
+    trpc.cookTimers.onUpdated.subscriptionOptions(undefined, {
+      onData: (payload) => {
+        setCookTimersData((prev) =>
+          prev?.map((timer) => payload.timers.find((t) => t.id === timer.id) ?? timer)
+        );
+      },
+    })
+  );
+
+  // onDeleted
+  useSubscription(
+    trpc.cookTimers.onDeleted.subscriptionOptions(undefined, {
+      onData: (payload) => {
+        setCookTimersData((prev) => prev?.filter((timer) => !payload.timerIds.includes(timer.id)));
+      },
+    })
+  );
+
+  // onFailed
+  useSubscription(
+    trpc.cookTimers.onFailed.subscriptionOptions(undefined, {
+      onData: (payload) => {
+        addToast({
+          severity: "danger",
+          title: payload.reason,
+          shouldShowTimeoutProgress: true,
+          radius: "full",
+        });
+        invalidate();
+      },
+    })
+  );
+}
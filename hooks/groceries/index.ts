@@ -13,3 +13,7 @@ export {
 export { useGroceriesSubscription } from "./use-groceries-subscription";
 export { useGroceriesCacheHelpers, type GroceriesCacheHelpers } from "./use-groceries-cache";
 export { useGroupedGroceryDnd } from "./use-grouped-grocery-dnd";
+export {
+  usePlanGroceriesPreview,
+  type PlanGroceriesPreviewResult,
+} from "./use-plan-groceries-preview";
@@ -1,6 +1,6 @@
 "use client";
 
-import type { RecurringGroceryDto } from "@/types";
+import type { GroceryAddFromPlanInput, RecurringGroceryDto } from "@/types";
 import type { RecurrencePattern } from "@/types/recurrence";
 
 import { useMutation } from "@tanstack/react-query";
@@ -26,12 +26,13 @@ export type GroceryCreateData = {
 export type GroceriesMutationsResult = {
   createGrocery: (raw: string, storeId?: string | null) => void;
   createGroceriesFromData: (groceries: GroceryCreateData[]) => Promise<string[]>;
+  addGroceriesFromPlan: (input: GroceryAddFromPlanInput) => Promise<string[]>;
   createRecurringGrocery: (
     raw: string,
     pattern: RecurrencePattern,
     storeId?: string | null
   ) => void;
-  toggleGroceries: (ids: string[], isDone: boolean) => void;
+  toggleGroceries: (ids: string[], isDone: boolean, moveToPantry?: boolean) => void;
   toggleRecurringGrocery: (recurringGroceryId: string, groceryId: string, isDone: boolean) => void;
   updateGrocery: (id: string, raw: string) => void;
   updateRecurringGrocery: (
@@ -61,6 +62,7 @@ export function useGroceriesMutations(): GroceriesMutationsResult {
   const { setGroceriesData, invalidate, groceries, recurringGroceries } = useGroceriesQuery();
 
   const createMutation = useMutation(trpc.groceries.create.mutationOptions());
+  const addFromPlanMutation = useMutation(trpc.groceries.addFromPlan.mutationOptions());
   const toggleMutation = useMutation(trpc.groceries.toggle.mutationOptions());
   const updateMutation = useMutation(trpc.groceries.update.mutationOptions());
   const deleteMutation = useMutation(trpc.groceries.delete.mutationOptions());
@@ -110,6 +112,21 @@ export function useGroceriesMutations(): GroceriesMutationsResult {
     });
   };
 
+  const addGroceriesFromPlan = (input: GroceryAddFromPlanInput): Promise<string[]> => {
+    return new Promise((resolve, reject) => {
+      // No optimistic update - websocket subscription will add with correct store
+      addFromPlanMutation.mutate(input, {
+        onSuccess: (ids) => {
+          resolve(ids);
+        },
+        onError: (error) => {
+          invalidate();
+          reject(error);
+        },
+      });
+    });
+  };
+
   const createRecurringGrocery = (
     raw: string,
     pattern: RecurrencePattern,
@@ -137,16 +154,25 @@ export function useGroceriesMutations(): GroceriesMutationsResult {
     );
   };
 
-  const toggleGroceries = (ids: string[], isDone: boolean) => {
+  const toggleGroceries = (ids: string[], isDone: boolean, moveToPantry = false) => {
     // Optimistic update
     setGroceriesData((prev) => {
       if (!prev) return prev;
-      const updated = prev.groceries.map((g) => (ids.includes(g.id) ? { ...g, isDone } : g));
+
+      // Moved items leave the list; recurring ones stay so they can come back
+      const isMoved = (g: (typeof prev.groceries)[number]) =>
+        isDone && moveToPantry && ids.includes(g.id) && !!g.name && !g.recurringGroceryId;
+      const updated = prev.groceries
+        .filter((g) => !isMoved(g))
+        .map((g) => (ids.includes(g.id) ? { ...g, isDone } : g));
 
       return { ...prev, groceries: updated };
     });
 
-    toggleMutation.mutate({ groceryIds: ids, isDone }, { onError: () => invalidate() });
+    toggleMutation.mutate(
+      { groceryIds: ids, isDone, moveToPantry },
+      { onError: () => invalidate() }
+    );
   };
 
   const toggleRecurringGrocery = (
@@ -485,6 +511,7 @@ export function useGroceriesMutations(): GroceriesMutationsResult {
     // Actions
     createGrocery,
     createGroceriesFromData,
+    addGroceriesFromPlan,
     createRecurringGrocery,
     toggleGroceries,
     toggleRecurringGrocery,
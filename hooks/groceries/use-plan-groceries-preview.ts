@@ -0,0 +1,40 @@
+"use client";
+
+import type { GroceryPlanRangeInput } from "@/types";
+import type { PlanGroceryItem } from "@/lib/plan-groceries";
+
+import { useQuery } from "@tanstack/react-query";
+
+import { useTRPC } from "@/app/providers/trpc-provider";
+
+export type PlanGroceriesPreviewResult = {
+  items: PlanGroceryItem[];
+  covered: PlanGroceryItem[];
+  plannedRecipeCount: number;
+  isLoading: boolean;
+  error: unknown;
+};
+
+/**
+ * Preview the groceries a meal plan range would add. Pass null to skip the query.
+ */
+export function usePlanGroceriesPreview(
+  range: GroceryPlanRangeInput | null
+): PlanGroceriesPreviewResult {
+  const trpc = useTRPC();
+
+  const { data, error, isLoading } = useQuery({
+    ...trpc.groceries.previewFromPlan.queryOptions(range ?? { startDate: "", endDate: "" }),
+    enabled: !!range,
+    // Plans and pantry change elsewhere; always show the current state
+    staleTime: 0,
+  });
+
+  return {
+    items: data?.items ?? [],
+    covered: data?.covered ?? [],
+    plannedRecipeCount: data?.plannedRecipeCount ?? 0,
+    isLoading,
+    error,
+  };
+}
@@ -0,0 +1,8 @@
+export {
+  useMealSlotsQuery,
+  useMealSlotHelpers,
+  type MealSlotsQueryResult,
+  type MealSlotHelpers,
+} from "./use-meal-slots-query";
+export { useMealSlotsMutations, type MealSlotsMutationsResult } from "./use-meal-slots-mutations";
+export { useMealSlotsSubscription } from "./use-meal-slots-subscription";
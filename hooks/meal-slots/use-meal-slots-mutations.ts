@@ -0,0 +1,63 @@
+"use client";
+
+import type { MealSlotCreateInput, MealSlotUpdateInput } from "@/types";
+
+import { useMutation } from "@tanstack/react-query";
+
+import { useMealSlotsQuery } from "./use-meal-slots-query";
+
+import { useTRPC } from "@/app/providers/trpc-provider";
+
+export type MealSlotsMutationsResult = {
+  createMealSlot: (input: MealSlotCreateInput) => void;
+  updateMealSlot: (input: MealSlotUpdateInput) => void;
+  deleteMealSlot: (key: string) => void;
+  reorderMealSlots: (keys: string[]) => void;
+};
+
+export function useMealSlotsMutations(): MealSlotsMutationsResult {
+  const trpc = useTRPC();
+  const { setMealSlotsData, invalidate } = useMealSlotsQuery();
+
+  const createMutation = useMutation(trpc.mealSlots.create.mutationOptions());
+  const updateMutation = useMutation(trpc.mealSlots.update.mutationOptions());
+  const deleteMutation = useMutation(trpc.mealSlots.delete.mutationOptions());
+  const reorderMutation = useMutation(trpc.mealSlots.reorder.mutationOptions());
+
+  const createMealSlot = (input: MealSlotCreateInput) => {
+    // No optimistic update - the server picks the key, the subscription adds the slot
+    createMutation.mutate(input, { onError: () => invalidate() });
+  };
+
+  const updateMealSlot = (input: MealSlotUpdateInput) => {
+    // Optimistic update
+    setMealSlotsData((prev) =>
+      prev?.map((slot) => (slot.key === input.key ? { ...slot, ...input } : slot))
+    );
+
+    updateMutation.mutate(input, { onError: () => invalidate() });
+  };
+
+  const deleteMealSlot = (key: string) => {
+    // No optimistic update - deleting fails while the slot still has planned items
+    deleteMutation.mutate({ key }, { onError: () => invalidate() });
+  };
+
+  const reorderMealSlots = (keys: string[]) => {
+    // Optimistic update
+    setMealSlotsData((prev) =>
+      prev
+        ?.map((slot) => ({ ...slot, sortOrder: keys.indexOf(slot.key) }))
+        .sort((a, b) => a.sortOrder - b.sortOrder)
+    );
+
+    reorderMutation.mutate({ keys }, { onError: () => invalidate() });
+  };
+
+  return {
+    createMealSlot,
+    updateMealSlot,
+    deleteMealSlot,
+    reorderMealSlots,
+  };
+}
@@ -0,0 +1,86 @@
+"use client";
+
+import type { MealSlotDto } from "@/types";
+import type { QueryKey } from "@tanstack/react-query";
+
+import { useQueryClient, useQuery } from "@tanstack/react-query";
+import { useCallback } from "react";
+import { useTranslations } from "next-intl";
+
+import { useTRPC } from "@/app/providers/trpc-provider";
+import { DEFAULT_MEAL_SLOTS, getSlotOrder, isDefaultSlotKey } from "@/lib/meal-slots";
+
+export type MealSlotsQueryResult = {
+  mealSlots: MealSlotDto[];
+  isLoading: boolean;
+  queryKey: QueryKey;
+  setMealSlotsData: (
+    updater: (prev: MealSlotDto[] | undefined) => MealSlotDto[] | undefined
+  ) => void;
+  invalidate: () => void;
+};
+
+export function useMealSlotsQuery(): MealSlotsQueryResult {
+  const trpc = useTRPC();
+  const queryClient = useQueryClient();
+
+  const queryKey = trpc.mealSlots.list.queryKey();
+
+  const { data, isLoading } = useQuery(trpc.mealSlots.list.queryOptions());
+
+  // The built-in slots keep the calendar usable while loading
+  const mealSlots = data ?? DEFAULT_MEAL_SLOTS;
+
+  const setMealSlotsData = (
+    updater: (prev: MealSlotDto[] | undefined) => MealSlotDto[] | undefined
+  ) => {
+    queryClient.setQueryData<MealSlotDto[]>(queryKey, updater);
+  };
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey });
+  };
+
+  return {
+    mealSlots,
+    isLoading,
+    queryKey,
+    setMealSlotsData,
+    invalidate,
+  };
+}
+
+export type MealSlotHelpers = {
+  mealSlots: MealSlotDto[];
+  /** Display name; built-in slots are translated unless renamed, unknown keys are shown as they are */
+  getSlotLabel: (key: string) => string;
+  getSlotIcon: (key: string) => string | undefined;
+  /** Sort position; unknown keys go last */
+  getSlotOrder: (key: string) => number;
+};
+
+export function useMealSlotHelpers(): MealSlotHelpers {
+  const t = useTranslations("common.slots");
+  const { mealSlots } = useMealSlotsQuery();
+
+  const getSlotLabel = useCallback(
+    (key: string) => {
+      const slot = mealSlots.find((s) => s.key === key);
+
+      if (slot?.name) return slot.name;
+      if (isDefaultSlotKey(key)) return t(key.toLowerCase() as "breakfast");
+
+      return key;
+    },
+    [mealSlots, t]
+  );
+
+  const getSlotIcon = useCallback(
+    (key: string) => mealSlots.find((s) => s.key === key)?.icon,
+    [mealSlots]
+  );
+
+  const getOrder = useCallback((key: string) => getSlotOrder(mealSlots, key), [mealSlots]);
+
+  return { mealSlots, getSlotLabel, getSlotIcon, getSlotOrder: getOrder };
+}
@@ -0,0 +1,42 @@
+"use client";
+
+import type { MealSlotDto } from "@/types";
+
+import { useSubscription } from "@trpc/tanstack-react-query";
+import { useQueryClient } from "@tanstack/react-query";
+import { addToast } from "@heroui/react";
+
+import { useTRPC } from "@/app/providers/trpc-provider";
+
+/**
+ * Hook that keeps the meal slot list in sync with changes made by household members.
+ */
+export function useMealSlotsSubscription() {
+  const trpc = useTRPC();
+  const queryClient = useQueryClient();
+  const queryKey = trpc.mealSlots.list.queryKey();
+
+  // onUpdated
+  useSubscription(
+    trpc.mealSlots.onUpdated.subscriptionOptions(undefined, {
+      onData: (payload) => {
+        queryClient.setQueryData<MealSlotDto[]>(queryKey, payload.slots);
+      },
+    })
+  );
+
+  // onFailed
+  useSubscription(
+    trpc.mealSlots.onFailed.subscriptionOptions(undefined, {
+      onData: (payload) => {
+        addToast({
+          severity: "danger",
+          title: payload.reason,
+          shouldShowTimeoutProgress: true,
+          radius: "full",
+        });
+        queryClient.invalidateQueries({ queryKey });
+      },
+    })
+  );
+}
@@ -0,0 +1,9 @@
+export {
+  usePantryQuery,
+  sortPantryItems,
+  type PantryQueryResult,
+  type PantryData,
+} from "./use-pantry-query";
+export { usePantryMutations, type PantryMutationsResult } from "./use-pantry-mutations";
+export { usePantrySubscription } from "./use-pantry-subscription";
+export { usePantryCacheHelpers, type PantryCacheHelpers } from "./use-pantry-cache";
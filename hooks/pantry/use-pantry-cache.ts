@@ -0,0 +1,49 @@
+"use client";
+
+/**
+ * Lightweight cache manipulation helpers for pantry.
+ *
+ * This hook provides functions to update the React Query cache WITHOUT
+ * creating query observers. Use this in subscription hooks to avoid
+ * duplicate hook trees that cause recursion issues.
+ *
+ * For reading data + cache manipulation, use usePantryQuery instead.
+ */
+
+import type { PantryData } from "./use-pantry-query";
+
+import { useQueryClient } from "@tanstack/react-query";
+import { useCallback } from "react";
+
+import { useTRPC } from "@/app/providers/trpc-provider";
+
+export type PantryCacheHelpers = {
+  setPantryData: (updater: (prev: PantryData | undefined) => PantryData | undefined) => void;
+  invalidate: () => void;
+};
+
+/**
+ * Returns cache manipulation helpers without creating query observers.
+ * Safe to call from subscription hooks - won't cause recursion.
+ */
+export function usePantryCacheHelpers(): PantryCacheHelpers {
+  const trpc = useTRPC();
+  const queryClient = useQueryClient();
+  const queryKey = trpc.pantry.list.queryKey();
+
+  const setPantryData = useCallback(
+    (updater: (prev: PantryData | undefined) => PantryData | undefined) => {
+      queryClient.setQueryData<PantryData>(queryKey, updater);
+    },
+    [queryClient, queryKey]
+  );
+
+  const invalidate = useCallback(() => {
+    queryClient.invalidateQueries({ queryKey });
+  }, [queryClient, queryKey]);
+
+  return {
+    setPantryData,
+    invalidate,
+  };
+}
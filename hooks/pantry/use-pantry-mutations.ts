@@ -0,0 +1,75 @@
+"use client";
+
+import type { PantryItemUpdateInput } from "@/types";
+
+import { useMutation } from "@tanstack/react-query";
+
+import { usePantryQuery, sortPantryItems } from "./use-pantry-query";
+
+import { useTRPC } from "@/app/providers/trpc-provider";
+import { useUnitsQuery } from "@/hooks/config";
+import { parseIngredientWithDefaults } from "@/lib/helpers";
+
+export type PantryMutationsResult = {
+  createPantryItem: (raw: string, expiresAt?: string | null) => void;
+  updatePantryItem: (id: string, raw: string, expiresAt: string | null) => void;
+  deletePantryItems: (ids: string[]) => void;
+};
+
+export function usePantryMutations(): PantryMutationsResult {
+  const trpc = useTRPC();
+  const { units } = useUnitsQuery();
+  const { setPantryData, invalidate } = usePantryQuery();
+
+  const createMutation = useMutation(trpc.pantry.create.mutationOptions());
+  const updateMutation = useMutation(trpc.pantry.update.mutationOptions());
+  const deleteMutation = useMutation(trpc.pantry.delete.mutationOptions());
+
+  const parseRaw = (raw: string) => {
+    const parsed = parseIngredientWithDefaults(raw, units)[0];
+
+    return {
+      name: parsed.description || raw.trim(),
+      amount: parsed.quantity || null,
+      unit: parsed.unitOfMeasure || null,
+    };
+  };
+
+  const createPantryItem = (raw: string, expiresAt?: string | null) => {
+    // No optimistic update - websocket subscription will add the item
+    createMutation.mutate(
+      { ...parseRaw(raw), expiresAt: expiresAt ?? null },
+      { onError: () => invalidate() }
+    );
+  };
+
+  const updatePantryItem = (id: string, raw: string, expiresAt: string | null) => {
+    const data: PantryItemUpdateInput = { id, ...parseRaw(raw), expiresAt };
+
+    // Optimistic update
+    setPantryData((prev) => {
+      if (!prev) return prev;
+
+      return sortPantryItems(prev.map((item) => (item.id === id ? { ...item, ...data } : item)));
+    });
+
+    updateMutation.mutate(data, { onError: () => invalidate() });
+  };
+
+  const deletePantryItems = (ids: string[]) => {
+    // Optimistic update
+    setPantryData((prev) => {
+      if (!prev) return prev;
+
+      return prev.filter((item) => !ids.includes(item.id));
+    });
+
+    deleteMutation.mutate({ itemIds: ids }, { onError: () => invalidate() });
+  };
+
+  return {
+    createPantryItem,
+    updatePantryItem,
+    deletePantryItems,
+  };
+}
@@ -0,0 +1,63 @@
+"use client";
+
+import type { PantryItemDto } from "@/types";
+import type { QueryKey } from "@tanstack/react-query";
+
+import { useQueryClient, useQuery } from "@tanstack/react-query";
+
+import { useTRPC } from "@/app/providers/trpc-provider";
+
+export type PantryData = PantryItemDto[];
+
+export type PantryQueryResult = {
+  pantryItems: PantryItemDto[];
+  error: unknown;
+  isLoading: boolean;
+  queryKey: QueryKey;
+  setPantryData: (updater: (prev: PantryData | undefined) => PantryData | undefined) => void;
+  invalidate: () => void;
+};
+
+/**
+ * Same order as the server: soonest expiry first, undated items last, then by name.
+ */
+export function sortPantryItems(items: PantryItemDto[]): PantryItemDto[] {
+  return [...items].sort((a, b) => {
+    if (a.expiresAt !== b.expiresAt) {
+      if (!a.expiresAt) return 1;
+      if (!b.expiresAt) return -1;
+
+      return a.expiresAt.localeCompare(b.expiresAt);
+    }
+
+    return a.name.localeCompare(b.name);
+  });
+}
+
+export function usePantryQuery(): PantryQueryResult {
+  const trpc = useTRPC();
+  const queryClient = useQueryClient();
+
+  const queryKey = trpc.pantry.list.queryKey();
+
+  const { data, error, isLoading } = useQuery(trpc.pantry.list.queryOptions());
+
+  const pantryItems = data ?? [];
+
+  const setPantryData = (updater: (prev: PantryData | undefined) => PantryData | undefined) => {
+    queryClient.setQueryData<PantryData>(queryKey, updater);
+  };
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey });
+  };
+
+  return {
+    pantryItems,
+    error,
+    isLoading,
+    queryKey,
+    setPantryData,
+    invalidate,
+  };
+}
@@ -0,0 +1,85 @@
+"use client";
+
+import { useSubscription } from "@trpc/tanstack-react-query";
+import { addToast } from "@heroui/react";
+
+import { usePantryCacheHelpers } from "./use-pantry-cache";
+import { sortPantryItems } from "./use-pantry-query";
+
+import { useTRPC } from "@/app/providers/trpc-provider";
+
+/**
+ * Hook that subscribes to all pantry-related WebSocket events
+ * and updates the query cache accordingly.
+ *
+ * Uses internal cache helpers - no props required.
+ * Safe to call from context providers without causing recursion.
+ */
+export function usePantrySubscription() {
+  const trpc = useTRPC();
+  const { setPantryData, invalidate } = usePantryCacheHelpers();
+
+  // onCreated
+  useSubscription(
+    trpc.pantry.onCreated.subscriptionOptions(undefined, {
+      onData: (payload) => {
+        setPantryData((prev) => {
+          if (!prev) return prev;
+
+          const newItems = payload.items.filter((i) => !prev.some((p) => p.id === i.id));
+
+          if (newItems.length === 0) return prev;
+
+          return sortPantryItems([...prev, ...newItems]);
+        });
+      },
+    })
+  );
+
+  // onUpdated
+  useSubscription(
+    trpc.pantry.onUpdated.subscriptionOptions(undefined, {
+      onData: (payload) => {
+        setPantryData((prev) => {
+          if (!prev) return prev;
+
+          return sortPantryItems(
+            prev.map((item) => payload.items.find((i) => i.id === item.id) ?? item)
+          );
+        });
+      },
+    })
+  );
+
+  // onDeleted
+  useSubscription(
+    trpc.pantry.onDeleted.subscriptionOptions(undefined, {
+      onData: (payload) => {
+        setPantryData((prev) => {
+          if (!prev) return prev;
+
+          const filtered = prev.filter((item) => !payload.itemIds.includes(item.id));
+
+          if (filtered.length === prev.length) return prev;
+
+          return filtered;
+        });
+      },
+    })
+  );
+
+  // onFailed
+  useSubscription(
+    trpc.pantry.onFailed.subscriptionOptions(undefined, {
+      onData: (payload) => {
+        addToast({
+          severity: "danger",
+          title: payload.reason,
+          shouldShowTimeoutProgress: true,
+          radius: "full",
+        });
+        invalidate();
+      },
+    })
+  );
+}
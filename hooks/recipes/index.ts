@@ -11,6 +11,7 @@ export { useRecipeVideos, type RecipeVideosResult } from "./use-recipe-videos";
 export { useRecipeId, type RecipeIdResult } from "./use-recipe-id";
 export { useRecipeAutocomplete } from "./use-recipe-autocomplete";
 export { useNutritionQuery } from "./use-nutrition-query";
+export { useNutritionBreakdownQuery } from "./use-nutrition-breakdown-query";
 export { useNutritionMutation } from "./use-nutrition-mutation";
 export { useNutritionSubscription } from "./use-nutrition-subscription";
 export { useAutoTagging, useAutoTaggingMutation } from "./use-auto-tagging-subscription";
@@ -24,3 +25,10 @@ export {
   type ServingsScalerResult,
   type ScaledIngredient,
 } from "./use-servings-scaler";
+export { useRecipeShares, type RecipeSharesResult } from "./use-recipe-shares";
+export {
+  useRecipeRevisions,
+  useRecipeRevisionDiff,
+  type RecipeRevisionsResult,
+} from "./use-recipe-revisions";
+export { useRecipeTrash, type RecipeTrashResult } from "./use-recipe-trash";
@@ -0,0 +1,23 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+
+import { useTRPC } from "@/app/providers/trpc-provider";
+
+/**
+ * Hook to fetch a recipe's nutrition calculated from the food composition table.
+ * `breakdown` is null when no table has been imported on the server.
+ */
+export function useNutritionBreakdownQuery(recipeId: string | null) {
+  const trpc = useTRPC();
+  const { data, isLoading } = useQuery({
+    ...trpc.recipes.nutritionBreakdown.queryOptions({ recipeId: recipeId ?? "" }),
+    enabled: !!recipeId,
+  });
+
+  return {
+    breakdown: data ?? null,
+    isFoodTableAvailable: data != null,
+    isLoading,
+  };
+}
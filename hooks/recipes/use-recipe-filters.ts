@@ -3,7 +3,15 @@
 import { useState, useCallback, useMemo } from "react";
 
 import { useLocalStorage } from "@/hooks/use-local-storage";
-import { FilterMode, SortOrder, SearchField, DEFAULT_SEARCH_FIELDS, SEARCH_FIELDS } from "@/types";
+import {
+  FilterMode,
+  SortOrder,
+  SearchField,
+  NutritionLimits,
+  DEFAULT_SEARCH_FIELDS,
+  SEARCH_FIELDS,
+  NUTRITION_FILTER_KEYS,
+} from "@/types";
 
 // Full filter state including non-persisted rawInput
 export type RecipeFilters = {
@@ -14,6 +22,7 @@ export type RecipeFilters = {
   sortMode: SortOrder;
   showFavoritesOnly: boolean;
   minRating: number | null;
+  maxNutrition: NutritionLimits;
 };
 
 // What gets persisted (excludes rawInput)
@@ -30,6 +39,7 @@ const DEFAULT_PERSISTED: PersistedFilters = {
   sortMode: "dateDesc",
   showFavoritesOnly: false,
   minRating: null,
+  maxNutrition: {},
 };
 
 /**
@@ -58,6 +68,18 @@ function validateFilters(data: unknown): PersistedFilters | null {
       ? (d.minRating as number | null)
       : null;
 
+  const maxNutrition: NutritionLimits = {};
+
+  if (typeof d.maxNutrition === "object" && d.maxNutrition !== null) {
+    const limits = d.maxNutrition as Record<string, unknown>;
+
+    for (const key of NUTRITION_FILTER_KEYS) {
+      const value = limits[key];
+
+      if (typeof value === "number" && value >= 0) maxNutrition[key] = value;
+    }
+  }
+
   // Return null if nothing valid
   if (sortMode === null && filterMode === null && searchFields === null) return null;
 
@@ -68,6 +90,7 @@ function validateFilters(data: unknown): PersistedFilters | null {
     searchFields: searchFields ?? [...DEFAULT_PERSISTED.searchFields],
     showFavoritesOnly: showFavoritesOnly ?? DEFAULT_PERSISTED.showFavoritesOnly,
     minRating: minRating ?? DEFAULT_PERSISTED.minRating,
+    maxNutrition,
   };
 }
 
@@ -2,6 +2,9 @@
 
 import type { RecipeIngredientsDto } from "@/types";
 
+import { useQuery } from "@tanstack/react-query";
+
+import { useTRPC } from "@/app/providers/trpc-provider";
 import { useRecipeQuery } from "@/hooks/recipes/use-recipe-query";
 
 /**
@@ -19,3 +22,24 @@ export function useRecipeIngredients(id: string | null) {
     error,
   };
 }
+
+/**
+ * Hook to fetch the ingredients to shop for a recipe, with sub-recipes expanded.
+ * A sub-recipe used twice yields the same ingredient twice, so each line gets its own key.
+ */
+export function useRecipeGroceryIngredients(id: string | null) {
+  const trpc = useTRPC();
+  const { data, isLoading, error } = useQuery({
+    ...trpc.recipes.groceryIngredients.queryOptions({ id: id ?? "" }),
+    enabled: !!id,
+  });
+
+  return {
+    ingredients: (data ?? []).map((ingredient, index) => ({
+      ...ingredient,
+      key: `${ingredient.id}-${index}`,
+    })),
+    isLoading,
+    error,
+  };
+}
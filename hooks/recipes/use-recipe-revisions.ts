@@ -0,0 +1,61 @@
+"use client";
+
+import type { RecipeRevisionDiffDto, RecipeRevisionViewDto } from "@/types";
+
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+
+import { useTRPC } from "@/app/providers/trpc-provider";
+
+export type RecipeRevisionsResult = {
+  revisions: RecipeRevisionViewDto[];
+  isLoading: boolean;
+  restoreRevision: (revisionId: string) => Promise<void>;
+  isRestoring: boolean;
+};
+
+/**
+ * Revision history of a recipe, with a restore action
+ */
+export function useRecipeRevisions(recipeId: string, enabled = true): RecipeRevisionsResult {
+  const trpc = useTRPC();
+  const queryClient = useQueryClient();
+  const queryKey = trpc.recipes.history.queryKey({ recipeId });
+
+  const { data, isLoading } = useQuery({
+    ...trpc.recipes.history.queryOptions({ recipeId }),
+    enabled,
+  });
+
+  const restoreMutation = useMutation(trpc.recipes.restoreRevision.mutationOptions());
+
+  const restoreRevision = async (revisionId: string) => {
+    await restoreMutation.mutateAsync({ recipeId, revisionId });
+
+    // The recipe itself is updated through the "updated" subscription event
+    await queryClient.invalidateQueries({ queryKey });
+  };
+
+  return {
+    revisions: data ?? [],
+    isLoading,
+    restoreRevision,
+    isRestoring: restoreMutation.isPending,
+  };
+}
+
+/**
+ * Changes made by a revision compared to the one before it
+ */
+export function useRecipeRevisionDiff(
+  recipeId: string,
+  revisionId: string | null
+): { diff: RecipeRevisionDiffDto | undefined; isLoading: boolean } {
+  const trpc = useTRPC();
+
+  const { data, isLoading } = useQuery({
+    ...trpc.recipes.diff.queryOptions({ recipeId, revisionId: revisionId ?? "" }),
+    enabled: !!revisionId,
+  });
+
+  return { diff: data, isLoading };
+}
@@ -0,0 +1,58 @@
+"use client";
+
+import type { RecipeShareViewDto } from "@/types";
+
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+
+import { useTRPC } from "@/app/providers/trpc-provider";
+
+export type RecipeSharesResult = {
+  shares: RecipeShareViewDto[];
+  isLoading: boolean;
+  createShare: (expiresInDays: number | null) => Promise<RecipeShareViewDto>;
+  revokeShare: (id: string) => Promise<void>;
+  isCreating: boolean;
+  isRevoking: boolean;
+};
+
+/**
+ * Active public share links for a recipe, with create and revoke actions
+ */
+export function useRecipeShares(recipeId: string, enabled = true): RecipeSharesResult {
+  const trpc = useTRPC();
+  const queryClient = useQueryClient();
+  const queryKey = trpc.recipes.listShares.queryKey({ recipeId });
+
+  const { data, isLoading } = useQuery({
+    ...trpc.recipes.listShares.queryOptions({ recipeId }),
+    enabled,
+  });
+
+  const shareMutation = useMutation(trpc.recipes.share.mutationOptions());
+  const revokeMutation = useMutation(trpc.recipes.revokeShare.mutationOptions());
+
+  const createShare = async (expiresInDays: number | null) => {
+    const created = await shareMutation.mutateAsync({ recipeId, expiresInDays });
+
+    await queryClient.invalidateQueries({ queryKey });
+
+    return created;
+  };
+
+  const revokeShare = async (id: string) => {
+    await revokeMutation.mutateAsync({ id });
+
+    queryClient.setQueryData<RecipeShareViewDto[]>(queryKey, (old) =>
+      old?.filter((s) => s.id !== id)
+    );
+  };
+
+  return {
+    shares: data ?? [],
+    isLoading,
+    createShare,
+    revokeShare,
+    isCreating: shareMutation.isPending,
+    isRevoking: revokeMutation.isPending,
+  };
+}
@@ -1,6 +1,7 @@
 "use client";
 
 import { useSubscription } from "@trpc/tanstack-react-query";
+import { useQueryClient } from "@tanstack/react-query";
 import { addToast } from "@heroui/react";
 import { useRouter } from "next/navigation";
 
@@ -15,6 +16,7 @@ import { useTRPC } from "@/app/providers/trpc-provider";
 export function useRecipeSubscription(recipeId: string | null) {
   const trpc = useTRPC();
   const router = useRouter();
+  const queryClient = useQueryClient();
   const { setRecipeData, invalidate } = useRecipeQuery(recipeId);
 
   // onUpdated - Recipe updated
@@ -25,6 +27,9 @@ export function useRecipeSubscription(recipeId: string | null) {
         if (payload.recipe.id !== recipeId) return;
 
         setRecipeData(() => payload.recipe);
+        queryClient.invalidateQueries({
+          queryKey: trpc.recipes.nutritionBreakdown.queryKey({ recipeId }),
+        });
       },
     })
   );
@@ -0,0 +1,53 @@
+"use client";
+
+import type { RecipeTrashItemDTO } from "@/types";
+
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+
+import { useTRPC } from "@/app/providers/trpc-provider";
+
+export type RecipeTrashResult = {
+  recipes: RecipeTrashItemDTO[];
+  retentionDays: number | undefined;
+  isLoading: boolean;
+  restoreRecipe: (id: string) => Promise<void>;
+  permanentlyDeleteRecipe: (id: string) => Promise<void>;
+  isRestoring: boolean;
+  isDeleting: boolean;
+};
+
+/**
+ * Recently deleted recipes, with restore and permanent delete actions
+ */
+export function useRecipeTrash(): RecipeTrashResult {
+  const trpc = useTRPC();
+  const queryClient = useQueryClient();
+  const queryKey = trpc.recipes.listTrash.queryKey();
+
+  const { data, isLoading } = useQuery(trpc.recipes.listTrash.queryOptions());
+
+  const restoreMutation = useMutation(trpc.recipes.restore.mutationOptions());
+  const deleteMutation = useMutation(trpc.recipes.permanentDelete.mutationOptions());
+
+  const restoreRecipe = async (id: string) => {
+    await restoreMutation.mutateAsync({ id });
+
+    // The recipe list picks the restored recipe up through the "created" subscription event
+    await queryClient.invalidateQueries({ queryKey });
+  };
+
+  const permanentlyDeleteRecipe = async (id: string) => {
+    await deleteMutation.mutateAsync({ id });
+    await queryClient.invalidateQueries({ queryKey });
+  };
+
+  return {
+    recipes: data?.recipes ?? [],
+    retentionDays: data?.retentionDays,
+    isLoading,
+    restoreRecipe,
+    permanentlyDeleteRecipe,
+    isRestoring: restoreMutation.isPending,
+    isDeleting: deleteMutation.isPending,
+  };
+}
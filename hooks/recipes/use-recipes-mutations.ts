@@ -4,10 +4,12 @@ import type { FullRecipeInsertDTO, FullRecipeUpdateDTO, MeasurementSystem } from
 
 import { useMutation } from "@tanstack/react-query";
 import { addToast } from "@heroui/react";
+import { useTranslations } from "next-intl";
 
 import { useRecipesQuery } from "./use-recipes-query";
 
 import { useTRPC } from "@/app/providers/trpc-provider";
+import { rateLimitRetryMinutes, type RateLimitErrorLike } from "@/lib/rate-limit";
 
 export type RecipesMutationsResult = {
   /** Import a recipe from URL. Fire-and-forget. */
@@ -32,6 +34,7 @@ export type RecipesMutationsResult = {
 
 export function useRecipesMutations(): RecipesMutationsResult {
   const trpc = useTRPC();
+  const t = useTranslations("common.import");
   const { addPendingRecipe, invalidate } = useRecipesQuery();
 
   const importMutation = useMutation(trpc.recipes.importFromUrl.mutationOptions());
@@ -42,6 +45,21 @@ export function useRecipesMutations(): RecipesMutationsResult {
   const deleteMutation = useMutation(trpc.recipes.delete.mutationOptions());
   const convertMutation = useMutation(trpc.recipes.convertMeasurements.mutationOptions());
 
+  const showImportError = (e: RateLimitErrorLike & { message: string }) => {
+    const retryMinutes = rateLimitRetryMinutes(e);
+
+    addToast({
+      title: retryMinutes === null ? "Import Failed" : t("rateLimited.title"),
+      description:
+        retryMinutes === null ? e.message : t("rateLimited.description", { minutes: retryMinutes }),
+      color: retryMinutes === null ? "default" : "warning",
+      shouldShowTimeoutProgress: true,
+      radius: "full",
+    });
+
+    invalidate();
+  };
+
   const importRecipe = (url: string): void => {
     importMutation.mutate(
       { url },
@@ -49,17 +67,7 @@ export function useRecipesMutations(): RecipesMutationsResult {
         onSuccess: (recipeId) => {
           addPendingRecipe(recipeId);
         },
-        onError: (e) => {
-          addToast({
-            title: "Import Failed",
-            description: e.message,
-            color: "default",
-            shouldShowTimeoutProgress: true,
-            radius: "full",
-          });
-
-          invalidate();
-        },
+        onError: showImportError,
       }
     );
   };
@@ -71,17 +79,7 @@ export function useRecipesMutations(): RecipesMutationsResult {
         onSuccess: (recipeId) => {
           addPendingRecipe(recipeId);
         },
-        onError: (e) => {
-          addToast({
-            title: "Import Failed",
-            description: e.message,
-            color: "default",
-            shouldShowTimeoutProgress: true,
-            radius: "full",
-          });
-
-          invalidate();
-        },
+        onError: showImportError,
       }
     );
   };
@@ -161,17 +159,7 @@ export function useRecipesMutations(): RecipesMutationsResult {
       onSuccess: (recipeId) => {
         addPendingRecipe(recipeId);
       },
-      onError: (e) => {
-        addToast({
-          title: "Import Failed",
-          description: e.message,
-          color: "default",
-          shouldShowTimeoutProgress: true,
-          radius: "full",
-        });
-
-        invalidate();
-      },
+      onError: showImportError,
     });
   };
 
@@ -182,17 +170,7 @@ export function useRecipesMutations(): RecipesMutationsResult {
         onSuccess: (recipeId) => {
           addPendingRecipe(recipeId);
         },
-        onError: (e) => {
-          addToast({
-            title: "Import Failed",
-            description: e.message,
-            color: "default",
-            shouldShowTimeoutProgress: true,
-            radius: "full",
-          });
-
-          invalidate();
-        },
+        onError: showImportError,
       }
     );
   };
@@ -204,17 +182,7 @@ export function useRecipesMutations(): RecipesMutationsResult {
         onSuccess: (recipeId) => {
           addPendingRecipe(recipeId);
         },
-        onError: (e) => {
-          addToast({
-            title: "Import Failed",
-            description: e.message,
-            color: "default",
-            shouldShowTimeoutProgress: true,
-            radius: "full",
-          });
-
-          invalidate();
-        },
+        onError: showImportError,
       }
     );
   };
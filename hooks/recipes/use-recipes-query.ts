@@ -1,6 +1,6 @@
 "use client";
 
-import type { RecipeDashboardDTO, SearchField } from "@/types";
+import type { NutritionLimits, RecipeDashboardDTO, SearchField } from "@/types";
 import type { InfiniteData, QueryKey } from "@tanstack/react-query";
 
 import { useQueryClient, useInfiniteQuery } from "@tanstack/react-query";
@@ -20,6 +20,7 @@ export type RecipeFilters = {
   filterMode?: "AND" | "OR";
   sortMode?: "titleAsc" | "titleDesc" | "dateAsc" | "dateDesc";
   minRating?: number;
+  maxNutrition?: NutritionLimits;
 };
 
 type InfiniteRecipeData = InfiniteData<{
@@ -66,6 +67,7 @@ export function useRecipesQuery(filters: RecipeFilters = {}): RecipesQueryResult
     filterMode = "OR",
     sortMode = "dateDesc",
     minRating,
+    maxNutrition,
   } = filters;
 
   // Use the dedicated hooks for reading pending state
@@ -84,7 +86,7 @@ export function useRecipesQuery(filters: RecipeFilters = {}): RecipesQueryResult
   } = useRecipesCacheHelpers();
 
   const infiniteQueryOptions = trpc.recipes.list.infiniteQueryOptions(
-    { limit: 100, search, searchFields, tags, filterMode, sortMode, minRating },
+    { limit: 100, search, searchFields, tags, filterMode, sortMode, minRating, maxNutrition },
     {
       getNextPageParam: (lastPage) => lastPage.nextCursor,
     }
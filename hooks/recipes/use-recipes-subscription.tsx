@@ -194,6 +194,8 @@ export function useRecipesSubscription() {
         queryClient.invalidateQueries({
           queryKey: [["recipes", "get"], { input: { id: payload.id }, type: "query" }],
         });
+        // Deleted recipes land in the trash
+        queryClient.invalidateQueries({ queryKey: trpc.recipes.listTrash.queryKey() });
       },
       onError: (err) => log.error({ err }, "[onDeleted] Error"),
     })
@@ -2,6 +2,7 @@
 
 import type { User } from "@/types";
 import type { ApiKeyMetadataDto } from "@/server/trpc/routers/user/types";
+import type { NutritionTargets } from "@/lib/nutrition-summary";
 
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 
@@ -28,6 +29,11 @@ export type UserMutationsResult = {
     allergies: string[]
   ) => Promise<{ success: boolean; allergies?: string[]; error?: string }>;
 
+  // Nutrition targets
+  setNutritionTargets: (
+    targets: NutritionTargets
+  ) => Promise<{ success: boolean; targets?: NutritionTargets; error?: string }>;
+
   // Loading states
   isUpdatingName: boolean;
   isUploadingAvatar: boolean;
@@ -37,6 +43,7 @@ export type UserMutationsResult = {
   isDeletingApiKey: boolean;
   isTogglingApiKey: boolean;
   isUpdatingAllergies: boolean;
+  isUpdatingNutritionTargets: boolean;
 };
 
 /**
@@ -45,7 +52,8 @@ export type UserMutationsResult = {
  */
 export function useUserMutations(): UserMutationsResult {
   const trpc = useTRPC();
-  const { setUserSettingsData, invalidate, allergiesQueryKey } = useUserSettingsQuery();
+  const { setUserSettingsData, invalidate, allergiesQueryKey, nutritionTargetsQueryKey } =
+    useUserSettingsQuery();
   const queryClient = useQueryClient();
 
   // Profile mutations
@@ -62,6 +70,9 @@ export function useUserMutations(): UserMutationsResult {
   // Allergies mutation
   const setAllergiesMutation = useMutation(trpc.user.setAllergies.mutationOptions());
 
+  // Nutrition targets mutation
+  const setNutritionTargetsMutation = useMutation(trpc.user.setNutritionTargets.mutationOptions());
+
   return {
     // Profile updates
     updateName: async (name) => {
@@ -202,6 +213,22 @@ export function useUserMutations(): UserMutationsResult {
       }
     },
 
+    // Nutrition targets
+    setNutritionTargets: async (targets) => {
+      try {
+        const result = await setNutritionTargetsMutation.mutateAsync({ targets });
+
+        if (result.success) {
+          queryClient.setQueryData(nutritionTargetsQueryKey, { targets: result.targets });
+          queryClient.invalidateQueries(trpc.calendar.nutritionSummary.pathFilter());
+        }
+
+        return result;
+      } catch (error) {
+        return { success: false, error: String(error) };
+      }
+    },
+
     // Loading states
     isUpdatingName: updateNameMutation.isPending,
     isUploadingAvatar: uploadAvatarMutation.isPending,
@@ -211,5 +238,6 @@ export function useUserMutations(): UserMutationsResult {
     isDeletingApiKey: deleteApiKeyMutation.isPending,
     isTogglingApiKey: toggleApiKeyMutation.isPending,
     isUpdatingAllergies: setAllergiesMutation.isPending,
+    isUpdatingNutritionTargets: setNutritionTargetsMutation.isPending,
   };
 }
@@ -2,11 +2,14 @@
 
 import type { User } from "@/types";
 import type { ApiKeyMetadataDto } from "@/server/trpc/routers/user/types";
+import type { NutritionTargets } from "@/lib/nutrition-summary";
 
 import { useQueryClient, useQuery } from "@tanstack/react-query";
 
 import { useTRPC } from "@/app/providers/trpc-provider";
 
+const NO_TARGETS: NutritionTargets = {};
+
 export type UserSettingsData = {
   user: User;
   apiKeys: ApiKeyMetadataDto[];
@@ -23,11 +26,15 @@ export function useUserSettingsQuery() {
 
   const queryKey = trpc.user.get.queryKey();
   const allergiesQueryKey = trpc.user.getAllergies.queryKey();
+  const nutritionTargetsQueryKey = trpc.user.getNutritionTargets.queryKey();
 
   const { data, error, isLoading } = useQuery(trpc.user.get.queryOptions());
   const { data: allergiesData, isLoading: isLoadingAllergies } = useQuery(
     trpc.user.getAllergies.queryOptions()
   );
+  const { data: nutritionTargetsData, isLoading: isLoadingNutritionTargets } = useQuery(
+    trpc.user.getNutritionTargets.queryOptions()
+  );
 
   // Cache setter for optimistic updates
   const setUserSettingsData = (
@@ -45,10 +52,12 @@ export function useUserSettingsQuery() {
     user: data?.user ?? null,
     apiKeys: data?.apiKeys ?? [],
     allergies: allergiesData?.allergies ?? [],
+    nutritionTargets: nutritionTargetsData?.targets ?? NO_TARGETS,
     error,
-    isLoading: isLoading || isLoadingAllergies,
+    isLoading: isLoading || isLoadingAllergies || isLoadingNutritionTargets,
     queryKey,
     allergiesQueryKey,
+    nutritionTargetsQueryKey,
     setUserSettingsData,
     invalidate,
   };
@@ -0,0 +1,167 @@
+/**
+ * Food composition tables (USDA, NEVO or a hand-made list) imported from CSV.
+ * Every food has its nutrients per 100 g; recipes are matched to foods by ingredient name.
+ */
+
+export const FOOD_NUTRIENTS = [
+  "calories",
+  "fat",
+  "carbs",
+  "protein",
+  "fiber",
+  "sugar",
+  "saturatedFat",
+  "sodium",
+  "cholesterol",
+] as const;
+
+export type FoodNutrient = (typeof FOOD_NUTRIENTS)[number];
+
+export const NUTRIENT_UNITS: Record<FoodNutrient, "kcal" | "g" | "mg"> = {
+  calories: "kcal",
+  fat: "g",
+  carbs: "g",
+  protein: "g",
+  fiber: "g",
+  sugar: "g",
+  saturatedFat: "g",
+  sodium: "mg",
+  cholesterol: "mg",
+};
+
+/** Nutrients per 100 g, null when the table does not list them; sodium and cholesterol in mg */
+export type FoodNutrients = Record<FoodNutrient, number | null>;
+
+export interface FoodCompositionInput extends FoodNutrients {
+  code: string;
+  name: string;
+  alternates: string[];
+}
+
+/** Column headers of the supported dumps, lowercased */
+const COLUMNS: Record<"code" | "name" | "alternates" | FoodNutrient, string[]> = {
+  code: ["code", "id", "voedingsmiddelcode", "ndb_no", "fdc_id"],
+  name: ["name", "description", "voedingsmiddelnaam/dutch food name", "shrt_desc", "long_desc"],
+  alternates: ["alternates", "engelse naam/food name"],
+  calories: ["calories", "kcal", "energy (kcal)", "enercc (kcal)", "energ_kcal"],
+  fat: ["fat", "fat (g)", "lipid_tot_(g)", "total lipid (fat)"],
+  carbs: ["carbs", "carbohydrates", "cho (g)", "carbohydrt_(g)", "carbohydrate, by difference"],
+  protein: ["protein", "prot (g)", "protein_(g)"],
+  fiber: ["fiber", "fibre", "fibt (g)", "fiber_td_(g)", "fiber, total dietary"],
+  sugar: ["sugar", "sugars", "sugar (g)", "sugar_tot_(g)", "sugars, total"],
+  saturatedFat: ["saturatedfat", "saturated fat", "fasat (g)", "fa_sat_(g)"],
+  sodium: ["sodium", "na (mg)", "sodium_(mg)", "sodium, na"],
+  cholesterol: ["cholesterol", "chorl (mg)", "cholestrl_(mg)"],
+};
+
+function detectDelimiter(headerLine: string): string {
+  const candidates = [",", ";", "|", "\t"];
+
+  return candidates.reduce((best, d) =>
+    headerLine.split(d).length > headerLine.split(best).length ? d : best
+  );
+}
+
+/** Split CSV text into rows of fields, honouring double-quoted fields */
+export function parseCsv(text: string, delimiter?: string): string[][] {
+  const content = text.replace(/^\uFEFF/, "");
+  const sep = delimiter ?? detectDelimiter(content.split(/\r?\n/, 1)[0]);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === "") {
+      quoted = true;
+    } else if (char === sep) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && content[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((r) => r.some((f) => f.trim() !== ""));
+}
+
+function parseNutrient(value: string | undefined): number | null {
+  const trimmed = value?.trim().replace(",", ".");
+
+  if (!trimmed) return null;
+
+  const n = Number(trimmed);
+
+  return Number.isFinite(n) && n >= 0 ? n : null;
+}
+
+/**
+ * Read a food composition CSV. Headers of USDA SR Legacy (ABBREV), NEVO and a plain
+ * `code,name,alternates,calories,fat,carbs,protein,fiber,sugar,saturatedFat,sodium,cholesterol`
+ * layout are recognised; alternates in the plain layout are separated by "|".
+ * Throws when there is no name column.
+ */
+export function parseFoodCompositionCsv(text: string): FoodCompositionInput[] {
+  const [header, ...lines] = parseCsv(text);
+
+  if (!header) return [];
+
+  const headers = header.map((h) => h.trim().toLowerCase());
+  const column = (key: keyof typeof COLUMNS) => headers.findIndex((h) => COLUMNS[key].includes(h));
+
+  const nameIndex = column("name");
+
+  if (nameIndex === -1) {
+    throw new Error(`No name column found; expected one of: ${COLUMNS.name.join(", ")}`);
+  }
+
+  const codeIndex = column("code");
+  const alternatesIndex = column("alternates");
+  const nutrientIndexes = FOOD_NUTRIENTS.map((key) => [key, column(key)] as const);
+  const foods = new Map<string, FoodCompositionInput>();
+
+  for (const line of lines) {
+    const name = line[nameIndex]?.trim();
+
+    if (!name) continue;
+
+    const code = (codeIndex === -1 ? name.toLowerCase() : line[codeIndex]?.trim()) || name;
+    const alternates =
+      alternatesIndex === -1
+        ? []
+        : (line[alternatesIndex] ?? "")
+            .split("|")
+            .map((a) => a.trim())
+            .filter(Boolean);
+
+    const nutrients = Object.fromEntries(
+      nutrientIndexes.map(([key, index]) => [key, index === -1 ? null : parseNutrient(line[index])])
+    ) as FoodNutrients;
+
+    foods.set(code, { code, name, alternates, ...nutrients });
+  }
+
+  return Array.from(foods.values());
+}
@@ -118,3 +118,25 @@ export function formatAmount(
 
   return formatAmountAsDecimal(n);
 }
+
+/**
+ * Round an amount to the nearest fraction a cook can measure, such as ⅓ or ¾ of a cup.
+ * Large amounts round to halves, then whole numbers.
+ */
+export function roundToKitchenFraction(n: number, denominators: number[] = [2, 3, 4, 8]): number {
+  if (n >= 20) return Math.round(n);
+  if (n >= 5) return Math.round(n * 2) / 2;
+
+  let best = Math.round(n);
+
+  for (const d of denominators) {
+    const candidate = Math.round(n * d) / d;
+
+    if (Math.abs(candidate - n) < Math.abs(best - n)) best = candidate;
+  }
+
+  // Never round a small amount away to nothing
+  if (best === 0 && n > 0) best = 1 / Math.max(...denominators);
+
+  return Math.round(best * 1000) / 1000;
+}
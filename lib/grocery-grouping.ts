@@ -1,11 +1,19 @@
-import type { GroceryDto } from "@/types";
-import type { UnitsMap } from "@/server/db/zodSchemas/server-config";
+import type { GroceryDto, MeasurementSystem } from "@/types";
+import type { IngredientDensities, UnitsMap } from "@/server/db/zodSchemas/server-config";
 
 import { parseIngredientWithDefaults } from "./helpers";
+import {
+  findDensity,
+  findPieceWeight,
+  resolveUnit,
+  toKitchenUnit,
+  type UnitDimension,
+} from "./unit-conversion";
 
 /**
  * Client-side grocery grouping for combining identical ingredients in store view.
- * Groups by exact normalized name within each store, aggregates amounts when units match.
+ * Groups by exact normalized name within each store, aggregates amounts when units match
+ * or can be converted into each other.
  */
 
 /**
@@ -67,13 +75,112 @@ export interface GroceryGroup {
   primaryId: string;
 }
 
+interface GroupAmount {
+  canAggregate: boolean;
+  totalAmount: number | null;
+  displayUnit: string | null;
+}
+
+interface BaseAmount {
+  dimension: UnitDimension;
+  /** Grams or millilitres */
+  base: number;
+  system?: MeasurementSystem;
+}
+
+/**
+ * Express a grocery in grams or millilitres. Items without a unit count as pieces and
+ * only have a weight when the piece weight of the ingredient is known.
+ */
+function toBaseAmount(
+  grocery: GroceryDto,
+  customUnits?: UnitsMap,
+  densities?: IngredientDensities
+): BaseAmount | null {
+  const amount = grocery.amount ?? 1;
+
+  if (!grocery.unit?.trim()) {
+    const pieceWeight = findPieceWeight(grocery.name ?? "", densities);
+
+    return pieceWeight ? { dimension: "mass", base: amount * pieceWeight } : null;
+  }
+
+  const conversion = resolveUnit(grocery.unit, customUnits)?.conversion;
+
+  if (!conversion) return null;
+
+  return {
+    dimension: conversion.dimension,
+    base: amount * conversion.factor,
+    system: conversion.system,
+  };
+}
+
+/**
+ * Sum the amounts of groceries with the same name. Identical units are summed as they are;
+ * different units are summed in grams or millilitres when they convert into each other,
+ * using the density of the ingredient to weigh volumes. Anything else can't be aggregated.
+ */
+function sumGroupAmounts(
+  items: GroceryDto[],
+  customUnits?: UnitsMap,
+  densities?: IngredientDensities
+): GroupAmount {
+  const units = new Set(items.map((g) => normalizeUnitForGrouping(g.unit, customUnits)));
+
+  if (units.size === 1) {
+    const unit = [...units][0];
+
+    return {
+      canAggregate: true,
+      totalAmount: items.reduce((sum, g) => sum + (g.amount ?? 1), 0),
+      displayUnit: unit || null,
+    };
+  }
+
+  const notAggregated: GroupAmount = { canAggregate: false, totalAmount: null, displayUnit: null };
+  const amounts: BaseAmount[] = [];
+
+  for (const grocery of items) {
+    const amount = toBaseAmount(grocery, customUnits, densities);
+
+    if (!amount) return notAggregated;
+    amounts.push(amount);
+  }
+
+  if (new Set(amounts.map((a) => a.dimension)).size > 1) {
+    const density = findDensity(items[0].name ?? "", densities);
+
+    if (!density) return notAggregated;
+
+    for (const amount of amounts) {
+      if (amount.dimension === "volume") {
+        amount.base *= density;
+        amount.dimension = "mass";
+      }
+    }
+  }
+
+  // Show US units only when every source uses them
+  const systems = new Set(amounts.map((a) => a.system));
+  const system: MeasurementSystem = systems.size === 1 && systems.has("us") ? "us" : "metric";
+  const { amount, unit } = toKitchenUnit(
+    amounts.reduce((sum, a) => sum + a.base, 0),
+    amounts[0].dimension,
+    system
+  );
+
+  return { canAggregate: true, totalAmount: amount, displayUnit: unit };
+}
+
 /**
  * Group groceries by exact normalized name within each store.
  */
 export function groupGroceriesByIngredient(
   groceries: GroceryDto[],
   getRecipeNameForGrocery: (grocery: GroceryDto) => string | null,
-  customUnits?: UnitsMap
+  customUnits?: UnitsMap,
+  densities?: IngredientDensities
 ): Map<string | null, GroceryGroup[]> {
   const storeGroceries = new Map<string | null, GroceryDto[]>();
 
@@ -108,20 +215,11 @@ export function groupGroceriesByIngredient(
     for (const [normalizedName, items] of nameGroups) {
       const sortedItems = [...items].sort((a, b) => (a.sortOrder ?? 0) - (b.sortOrder ?? 0));
 
-      const normalizedUnits = sortedItems.map((g) => normalizeUnitForGrouping(g.unit, customUnits));
-      const uniqueUnits = new Set(normalizedUnits.filter((u) => u !== ""));
-      const canAggregate = uniqueUnits.size <= 1;
-
-      let totalAmount: number | null = null;
-      let displayUnit: string | null = null;
-
-      if (canAggregate && uniqueUnits.size === 1) {
-        displayUnit = [...uniqueUnits][0];
-        totalAmount = sortedItems.reduce((sum, g) => sum + (g.amount ?? 1), 0);
-      } else if (canAggregate && uniqueUnits.size === 0) {
-        totalAmount = sortedItems.reduce((sum, g) => sum + (g.amount ?? 1), 0);
-        displayUnit = null;
-      }
+      const { canAggregate, totalAmount, displayUnit } = sumGroupAmounts(
+        sortedItems,
+        customUnits,
+        densities
+      );
 
       const sources: GroupedGrocerySource[] = sortedItems.map((grocery) => ({
         grocery,
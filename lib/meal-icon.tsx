@@ -1,22 +1,47 @@
-import { SunIcon, FireIcon, MoonIcon, SparklesIcon } from "@heroicons/react/16/solid";
+import {
+  SunIcon,
+  FireIcon,
+  MoonIcon,
+  SparklesIcon,
+  CakeIcon,
+  BriefcaseIcon,
+  HeartIcon,
+  StarIcon,
+  ClockIcon,
+} from "@heroicons/react/16/solid";
 
+import { MealSlotIcon } from "@/lib/meal-slots";
 import { Slot } from "@/types";
 
+const ICONS: Record<MealSlotIcon, typeof SunIcon> = {
+  sun: SunIcon,
+  fire: FireIcon,
+  moon: MoonIcon,
+  sparkles: SparklesIcon,
+  cake: CakeIcon,
+  briefcase: BriefcaseIcon,
+  heart: HeartIcon,
+  star: StarIcon,
+  clock: ClockIcon,
+};
+
+const DEFAULT_ICONS: Record<string, MealSlotIcon> = {
+  Breakfast: "sun",
+  Lunch: "fire",
+  Dinner: "moon",
+};
+
 export function MealIcon({
   slot,
+  icon,
   className = "h-4 w-4 shrink-0 text-default-500",
 }: {
-  slot: Slot;
+  slot?: Slot;
+  /** Icon of the meal slot; falls back to the icon of the built-in slot */
+  icon?: string;
   className?: string;
 }) {
-  const Icon =
-    slot === "Breakfast"
-      ? SunIcon
-      : slot === "Lunch"
-        ? FireIcon
-        : slot === "Dinner"
-          ? MoonIcon
-          : SparklesIcon;
+  const Icon = ICONS[icon as MealSlotIcon] ?? ICONS[DEFAULT_ICONS[slot ?? ""] ?? "sparkles"];
 
   return <Icon className={className} />;
 }
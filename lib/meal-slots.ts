@@ -0,0 +1,66 @@
+import type { MealSlotDto } from "@/types";
+
+/**
+ * Meal slots shared by the calendar, CalDAV and the settings page.
+ * Households without their own slots use the built-in ones; their keys are the values
+ * of the former slot enum so existing plans keep working.
+ */
+
+export const MEAL_SLOT_ICONS = [
+  "sun",
+  "fire",
+  "moon",
+  "sparkles",
+  "cake",
+  "briefcase",
+  "heart",
+  "star",
+  "clock",
+] as const;
+
+export type MealSlotIcon = (typeof MEAL_SLOT_ICONS)[number];
+
+export const DEFAULT_MEAL_SLOTS: MealSlotDto[] = [
+  { key: "Breakfast", name: null, icon: "sun", sortOrder: 0, timeRange: null },
+  { key: "Lunch", name: null, icon: "fire", sortOrder: 1, timeRange: null },
+  { key: "Dinner", name: null, icon: "moon", sortOrder: 2, timeRange: null },
+  { key: "Snack", name: null, icon: "sparkles", sortOrder: 3, timeRange: null },
+];
+
+// Used for items whose slot has no time range, e.g. a slot that was deleted
+export const FALLBACK_SLOT_TIME = "12:00-13:00";
+
+export function isDefaultSlotKey(key: string): boolean {
+  return DEFAULT_MEAL_SLOTS.some((slot) => slot.key === key);
+}
+
+/**
+ * Key for a new slot, derived from its name so items stay readable even when
+ * the slot is gone. Renaming a slot later does not change its key.
+ */
+export function createSlotKey(name: string, existingKeys: string[]): string {
+  const base = name.trim().slice(0, 64);
+  const taken = new Set(existingKeys.map((k) => k.toLowerCase()));
+
+  if (!taken.has(base.toLowerCase())) return base;
+
+  let n = 2;
+
+  while (taken.has(`${base} ${n}`.toLowerCase())) n++;
+
+  return `${base} ${n}`;
+}
+
+/** Position of a slot for sorting; unknown slots go last */
+export function getSlotOrder(slots: MealSlotDto[], key: string): number {
+  const index = slots.findIndex((slot) => slot.key === key);
+
+  return index === -1 ? slots.length : index;
+}
+
+/** Custom time ranges by slot key, for CalDAV and the ICS feed */
+export function getCustomSlotTimes(slots: MealSlotDto[]): Record<string, string> {
+  return Object.fromEntries(
+    slots.filter((slot) => slot.timeRange).map((slot) => [slot.key, slot.timeRange!])
+  );
+}
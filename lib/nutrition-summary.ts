@@ -0,0 +1,157 @@
+import { FOOD_NUTRIENTS, type FoodNutrient, type FoodNutrients } from "./food-composition";
+
+/**
+ * Nutrition of the meals planned in the calendar, per day and per week (weeks start on Monday).
+ *
+ * Recipes store their nutrition per serving. `perPerson` adds up one serving of every planned
+ * meal, which is what a daily target is compared against; `total` multiplies each meal by its
+ * planned servings (the recipe's servings when the plan doesn't override them, one when
+ * neither sets them).
+ */
+
+export interface PlannedNutritionItem {
+  date: string;
+  /** Null when neither the plan nor the recipe sets servings */
+  servings: number | null;
+  /** Per serving; all null when the recipe has no nutrition yet */
+  nutrients: FoodNutrients;
+}
+
+export type NutritionTotals = Record<FoodNutrient, number>;
+
+/** Daily targets; a nutrient without a target is left out */
+export type NutritionTargets = Partial<Record<FoodNutrient, number>>;
+
+export interface NutritionSummaryEntry {
+  perPerson: NutritionTotals;
+  total: NutritionTotals;
+  /** Planned recipes that count towards the totals */
+  recipeCount: number;
+  /** Planned recipes left out because they have no nutrition */
+  missingCount: number;
+}
+
+export interface DayNutritionSummary extends NutritionSummaryEntry {
+  date: string;
+}
+
+export interface WeekNutritionSummary extends NutritionSummaryEntry {
+  /** Monday of the week, YYYY-MM-DD */
+  weekStart: string;
+  /** Days of the week with at least one counted recipe */
+  dayCount: number;
+  /** perPerson divided by dayCount */
+  dailyAverage: NutritionTotals;
+}
+
+export interface NutritionSummary {
+  days: DayNutritionSummary[];
+  weeks: WeekNutritionSummary[];
+}
+
+function emptyTotals(): NutritionTotals {
+  return Object.fromEntries(FOOD_NUTRIENTS.map((key) => [key, 0])) as NutritionTotals;
+}
+
+function emptyEntry(): NutritionSummaryEntry {
+  return { perPerson: emptyTotals(), total: emptyTotals(), recipeCount: 0, missingCount: 0 };
+}
+
+function roundTotals(totals: NutritionTotals): NutritionTotals {
+  return Object.fromEntries(
+    FOOD_NUTRIENTS.map((key) => [key, Math.round(totals[key] * 10) / 10])
+  ) as NutritionTotals;
+}
+
+function hasNutrition(nutrients: FoodNutrients): boolean {
+  return FOOD_NUTRIENTS.some((key) => nutrients[key] !== null);
+}
+
+function addItem(entry: NutritionSummaryEntry, item: PlannedNutritionItem): void {
+  if (!hasNutrition(item.nutrients)) {
+    entry.missingCount++;
+
+    return;
+  }
+
+  entry.recipeCount++;
+
+  for (const key of FOOD_NUTRIENTS) {
+    const value = item.nutrients[key];
+
+    if (value === null) continue;
+
+    entry.perPerson[key] += value;
+    entry.total[key] += value * (item.servings ?? 1);
+  }
+}
+
+/** Monday of the week a YYYY-MM-DD date falls in */
+export function weekStartOf(date: string): string {
+  const d = new Date(`${date}T00:00:00Z`);
+
+  d.setUTCDate(d.getUTCDate() - ((d.getUTCDay() + 6) % 7));
+
+  return d.toISOString().slice(0, 10);
+}
+
+/** Per-day and per-week totals of planned meals, sorted by date; days without meals are left out */
+export function summarizePlannedNutrition(items: PlannedNutritionItem[]): NutritionSummary {
+  const days = new Map<string, NutritionSummaryEntry>();
+
+  for (const item of items) {
+    const day = days.get(item.date) ?? emptyEntry();
+
+    addItem(day, item);
+    days.set(item.date, day);
+  }
+
+  const sortedDays = Array.from(days.entries()).sort(([a], [b]) => a.localeCompare(b));
+  const weeks = new Map<string, NutritionSummaryEntry & { dayCount: number }>();
+
+  for (const [date, day] of sortedDays) {
+    const weekStart = weekStartOf(date);
+    const week = weeks.get(weekStart) ?? { ...emptyEntry(), dayCount: 0 };
+
+    for (const key of FOOD_NUTRIENTS) {
+      week.perPerson[key] += day.perPerson[key];
+      week.total[key] += day.total[key];
+    }
+
+    week.recipeCount += day.recipeCount;
+    week.missingCount += day.missingCount;
+    if (day.recipeCount > 0) week.dayCount++;
+    weeks.set(weekStart, week);
+  }
+
+  return {
+    days: sortedDays.map(([date, day]) => ({
+      date,
+      ...day,
+      perPerson: roundTotals(day.perPerson),
+      total: roundTotals(day.total),
+    })),
+    weeks: Array.from(weeks.entries()).map(([weekStart, week]) => {
+      const dailyAverage = emptyTotals();
+
+      for (const key of FOOD_NUTRIENTS) {
+        dailyAverage[key] = week.dayCount > 0 ? week.perPerson[key] / week.dayCount : 0;
+      }
+
+      return {
+        weekStart,
+        ...week,
+        perPerson: roundTotals(week.perPerson),
+        total: roundTotals(week.total),
+        dailyAverage: roundTotals(dailyAverage),
+      };
+    }),
+  };
+}
+
+/** Share of a target reached, or null when there is no target */
+export function targetProgress(value: number, target: number | undefined): number | null {
+  if (!target || target <= 0) return null;
+
+  return value / target;
+}
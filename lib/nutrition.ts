@@ -0,0 +1,224 @@
+import type { IngredientDensities, UnitsMap } from "@/server/db/zodSchemas/server-config";
+
+import { FOOD_NUTRIENTS, type FoodNutrients } from "./food-composition";
+import { coreIngredientName } from "./step-ingredients";
+import { findDensity, findPieceWeight, resolveUnit } from "./unit-conversion";
+
+/**
+ * Deterministic nutrition from a food composition table: every ingredient line is matched
+ * to a food, weighed in grams from its amount and unit, and its nutrients per 100 g summed.
+ */
+
+export interface FoodCandidate {
+  id: string;
+  name: string;
+  alternates: string[];
+}
+
+export interface MatchedFood extends FoodCandidate {
+  nutrients: FoodNutrients;
+}
+
+export interface NutritionLine {
+  ingredientName: string;
+  amount: number | null;
+  unit: string | null;
+}
+
+/**
+ * - matched: the line counts towards the totals
+ * - unmatched: no food in the table matches the ingredient
+ * - noWeight: the food is known but the amount can't be weighed (pieces without a piece weight)
+ * - noAmount: lines like "salt to taste", which are left out without lowering the confidence
+ */
+export type NutritionLineStatus = "matched" | "unmatched" | "noWeight" | "noAmount";
+
+export type NutritionConfidence = "high" | "medium" | "low";
+
+export interface NutritionBreakdownLine extends NutritionLine {
+  status: NutritionLineStatus;
+  food: { id: string; name: string } | null;
+  grams: number | null;
+  /** Nutrients of the whole line, not per serving */
+  nutrients: FoodNutrients | null;
+}
+
+export interface NutritionBreakdown {
+  /** Nutrients per serving */
+  perServing: FoodNutrients;
+  lines: NutritionBreakdownLine[];
+  /** Share of the lines with an amount that count towards the totals */
+  matchedRatio: number;
+  confidence: NutritionConfidence;
+}
+
+function normalizeTokens(text: string): string[] {
+  return text
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean)
+    .map((token) => token.replace(/(?<=\p{L}{3})e?s$/u, ""));
+}
+
+function sameTokens(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((token, i) => token === b[i]);
+}
+
+/** How well a food name fits an ingredient, 0 for no match */
+function scoreName(ingredient: string[], foodName: string): number {
+  const name = normalizeTokens(foodName);
+
+  if (sameTokens(ingredient, name)) return 100;
+
+  // USDA lists foods as "Butter, salted": the first part is the food itself
+  const head = normalizeTokens(foodName.split(",")[0]);
+
+  if (sameTokens(ingredient, head)) return 80 - (name.length - head.length);
+
+  if (ingredient.every((token) => name.includes(token))) {
+    return Math.max(50 - (name.length - ingredient.length), 1);
+  }
+
+  return 0;
+}
+
+function bestMatch<T extends FoodCandidate>(tokens: string[], foods: T[]): T | null {
+  let best: { food: T; score: number } | null = null;
+
+  for (const food of foods) {
+    const score = Math.max(...[food.name, ...food.alternates].map((n) => scoreName(tokens, n)));
+
+    if (score > 0 && (!best || score > best.score)) best = { food, score };
+  }
+
+  return best?.food ?? null;
+}
+
+/**
+ * Pick the food that best matches an ingredient name: exact names first, then foods whose
+ * main name is the ingredient, then foods that mention every word of it. When nothing
+ * mentions every word, the last word decides, so "unsalted butter" still finds butter.
+ */
+export function matchFood<T extends FoodCandidate>(ingredientName: string, foods: T[]): T | null {
+  const tokens = normalizeTokens(coreIngredientName(ingredientName));
+
+  if (tokens.length === 0) return null;
+
+  return (
+    bestMatch(tokens, foods) ?? (tokens.length > 1 ? bestMatch(tokens.slice(-1), foods) : null)
+  );
+}
+
+/** Words of an ingredient name to search the food table for */
+export function foodSearchTerms(ingredientName: string): string[] {
+  const tokens = normalizeTokens(coreIngredientName(ingredientName));
+
+  return Array.from(new Set(tokens.filter((token) => token.length >= 3)));
+}
+
+/**
+ * Weight of an ingredient line in grams. Volumes use the ingredient's density, or that of
+ * water when it is unknown; pieces need a piece weight.
+ */
+export function ingredientGrams(
+  line: NutritionLine,
+  units: UnitsMap = {},
+  densities: IngredientDensities = {}
+): number | null {
+  if (line.amount === null) return null;
+
+  if (!line.unit?.trim()) {
+    const pieceWeight = findPieceWeight(line.ingredientName, densities);
+
+    return pieceWeight ? line.amount * pieceWeight : null;
+  }
+
+  const conversion = resolveUnit(line.unit, units)?.conversion;
+
+  if (!conversion) return null;
+
+  const base = line.amount * conversion.factor;
+
+  if (conversion.dimension === "mass") return base;
+
+  return base * (findDensity(line.ingredientName, densities) ?? 1);
+}
+
+function emptyNutrients(): FoodNutrients {
+  return Object.fromEntries(FOOD_NUTRIENTS.map((key) => [key, null])) as FoodNutrients;
+}
+
+function roundNutrient(key: keyof FoodNutrients, value: number): number {
+  return key === "calories" ? Math.round(value) : Math.round(value * 10) / 10;
+}
+
+function confidenceOf(ratio: number): NutritionConfidence {
+  if (ratio >= 0.9) return "high";
+  if (ratio >= 0.6) return "medium";
+
+  return "low";
+}
+
+/**
+ * Nutrition per serving of a list of ingredient lines. `foods` maps ingredient names
+ * to their matched food; lines without one are reported as unmatched.
+ */
+export function calculateNutrition(
+  lines: NutritionLine[],
+  servings: number,
+  foods: Map<string, MatchedFood | null>,
+  options: { units?: UnitsMap; densities?: IngredientDensities } = {}
+): NutritionBreakdown {
+  const totals = emptyNutrients();
+  const breakdown: NutritionBreakdownLine[] = lines.map((line) => {
+    const food = foods.get(line.ingredientName) ?? null;
+    const base = { ...line, food: food && { id: food.id, name: food.name } };
+
+    if (line.amount === null) {
+      return { ...base, status: "noAmount", grams: null, nutrients: null };
+    }
+    if (!food) return { ...base, status: "unmatched", grams: null, nutrients: null };
+
+    const grams = ingredientGrams(line, options.units, options.densities);
+
+    if (grams === null) return { ...base, status: "noWeight", grams: null, nutrients: null };
+
+    const nutrients = emptyNutrients();
+
+    for (const key of FOOD_NUTRIENTS) {
+      const per100 = food.nutrients[key];
+
+      if (per100 === null) continue;
+
+      const value = (per100 * grams) / 100;
+
+      nutrients[key] = value;
+      totals[key] = (totals[key] ?? 0) + value;
+    }
+
+    return { ...base, status: "matched", grams: Math.round(grams), nutrients };
+  });
+
+  const weighable = breakdown.filter((l) => l.status !== "noAmount");
+  const matchedRatio =
+    weighable.length === 0
+      ? 0
+      : weighable.filter((l) => l.status === "matched").length / weighable.length;
+
+  const perServing = emptyNutrients();
+
+  for (const key of FOOD_NUTRIENTS) {
+    const total = totals[key];
+
+    perServing[key] = total === null ? null : roundNutrient(key, total / Math.max(servings, 1));
+  }
+
+  return {
+    perServing,
+    lines: breakdown,
+    matchedRatio,
+    confidence: confidenceOf(matchedRatio),
+  };
+}
@@ -0,0 +1,143 @@
+import type { PantryItemDto } from "@/types";
+import type { UnitsMap } from "@/server/db/zodSchemas/server-config";
+
+import { normalizeIngredientNameForGrouping, normalizeUnitForGrouping } from "./grocery-grouping";
+
+/**
+ * Pantry matching shared by "move to pantry" and "add recipe to groceries".
+ * Items match on normalized name and unit; amounts in different units are never combined.
+ */
+
+export interface PantryStockItem {
+  name: string | null;
+  unit: string | null;
+  amount: number | null;
+}
+
+export function getPantryKey(item: PantryStockItem, customUnits?: UnitsMap): string | null {
+  const name = normalizeIngredientNameForGrouping(item.name);
+
+  if (!name) return null;
+
+  return `${name}|${normalizeUnitForGrouping(item.unit, customUnits)}`;
+}
+
+/**
+ * Reduce needed items by what the pantry already holds.
+ * Fully covered items are dropped; stock is consumed across the batch so two recipes
+ * needing the same ingredient don't both count the same pantry amount.
+ * A pantry item without an amount (e.g. "salt") covers any need.
+ */
+export function subtractPantryStock<T extends PantryStockItem>(
+  items: T[],
+  pantry: PantryItemDto[],
+  customUnits?: UnitsMap
+): { remaining: T[]; covered: T[] } {
+  // null = unlimited stock
+  const stock = new Map<string, number | null>();
+
+  for (const pantryItem of pantry) {
+    const key = getPantryKey(pantryItem, customUnits);
+
+    if (!key) continue;
+
+    const current = stock.get(key);
+
+    if (current === null || pantryItem.amount === null) {
+      stock.set(key, null);
+    } else {
+      stock.set(key, (current ?? 0) + pantryItem.amount);
+    }
+  }
+
+  const remaining: T[] = [];
+  const covered: T[] = [];
+
+  for (const item of items) {
+    const key = getPantryKey(item, customUnits);
+    const available = key ? stock.get(key) : undefined;
+
+    if (available === undefined || (available !== null && available <= 0)) {
+      remaining.push(item);
+      continue;
+    }
+
+    if (available === null || item.amount === null) {
+      covered.push(item);
+      continue;
+    }
+
+    if (item.amount <= available) {
+      stock.set(key!, available - item.amount);
+      covered.push(item);
+    } else {
+      stock.set(key!, 0);
+      remaining.push({ ...item, amount: roundAmount(item.amount - available) });
+    }
+  }
+
+  return { remaining, covered };
+}
+
+/**
+ * Plan how items are added to the pantry: matching entries get their amount increased,
+ * everything else becomes a new entry. Entries without an amount stay untracked.
+ */
+export function planPantryAdditions(
+  items: PantryStockItem[],
+  pantry: PantryItemDto[],
+  customUnits?: UnitsMap
+): {
+  updates: { id: string; amount: number }[];
+  creates: { name: string; unit: string | null; amount: number | null }[];
+} {
+  const existingByKey = new Map<string, { id: string; amount: number | null }>();
+
+  for (const pantryItem of pantry) {
+    const key = getPantryKey(pantryItem, customUnits);
+
+    if (key && !existingByKey.has(key)) {
+      existingByKey.set(key, { id: pantryItem.id, amount: pantryItem.amount });
+    }
+  }
+
+  const updates = new Map<string, number>();
+  const creates = new Map<string, { name: string; unit: string | null; amount: number | null }>();
+
+  for (const item of items) {
+    const key = getPantryKey(item, customUnits);
+
+    if (!key || !item.name) continue;
+
+    const pending = creates.get(key);
+
+    if (pending) {
+      if (pending.amount !== null && item.amount !== null) {
+        pending.amount = roundAmount(pending.amount + item.amount);
+      }
+      continue;
+    }
+
+    const existing = existingByKey.get(key);
+
+    if (!existing) {
+      creates.set(key, { name: item.name.trim(), unit: item.unit, amount: item.amount });
+      continue;
+    }
+
+    if (existing.amount !== null && item.amount !== null) {
+      existing.amount = roundAmount(existing.amount + item.amount);
+      updates.set(existing.id, existing.amount);
+    }
+  }
+
+  return {
+    updates: [...updates].map(([id, amount]) => ({ id, amount })),
+    creates: [...creates.values()],
+  };
+}
+
+/** Keep amounts within the numeric(10,3) column precision */
+function roundAmount(amount: number): number {
+  return Math.round(amount * 1000) / 1000;
+}
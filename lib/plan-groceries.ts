@@ -0,0 +1,105 @@
+import type { UnitsMap } from "@/server/db/zodSchemas/server-config";
+
+import { getPantryKey } from "./pantry";
+
+/**
+ * Build a single grocery list from the recipes planned in a date range.
+ * Ingredients are scaled per planned recipe and merged on normalized name and unit,
+ * the same way the grocery list groups similar items.
+ */
+
+export interface PlanIngredient {
+  plannedRecipeId: string;
+  recipeId: string;
+  recipeName: string | null;
+  recipeIngredientId: string;
+  name: string;
+  amount: number | null;
+  unit: string | null;
+  /** Servings the plan is cooked for */
+  servings: number;
+  /** Servings the recipe amounts are written for */
+  recipeServings: number;
+}
+
+export interface PlanGroceryItem {
+  key: string;
+  name: string;
+  amount: number | null;
+  unit: string | null;
+  /** Only set when the item comes from a single recipe ingredient */
+  recipeIngredientId: string | null;
+  recipeNames: string[];
+}
+
+/** Headings (# Sauce) and sub-recipe links are not something to buy */
+function isShoppable(name: string): boolean {
+  const trimmed = name.trim();
+
+  return (
+    !!trimmed &&
+    !trimmed.startsWith("#") &&
+    !trimmed.includes("(id:") &&
+    !trimmed.includes("/recipe:")
+  );
+}
+
+export function scalePlanAmount(
+  amount: number | null,
+  servings: number,
+  recipeServings: number
+): number | null {
+  if (amount === null || recipeServings <= 0 || servings === recipeServings) return amount;
+
+  return Math.round((amount / recipeServings) * servings * 1000) / 1000;
+}
+
+export function aggregatePlanIngredients(
+  ingredients: PlanIngredient[],
+  customUnits?: UnitsMap
+): PlanGroceryItem[] {
+  const merged = new Map<string, PlanGroceryItem & { sourceIds: Set<string> }>();
+
+  for (const ingredient of ingredients) {
+    if (!isShoppable(ingredient.name)) continue;
+
+    const key = getPantryKey(ingredient, customUnits);
+
+    if (!key) continue;
+
+    const amount = scalePlanAmount(
+      ingredient.amount,
+      ingredient.servings,
+      ingredient.recipeServings
+    );
+    const existing = merged.get(key);
+
+    if (!existing) {
+      merged.set(key, {
+        key,
+        name: ingredient.name.trim(),
+        amount,
+        unit: ingredient.unit,
+        recipeIngredientId: ingredient.recipeIngredientId,
+        recipeNames: ingredient.recipeName ? [ingredient.recipeName] : [],
+        sourceIds: new Set([ingredient.recipeIngredientId]),
+      });
+      continue;
+    }
+
+    if (amount !== null) {
+      existing.amount = Math.round(((existing.amount ?? 0) + amount) * 1000) / 1000;
+    }
+
+    existing.sourceIds.add(ingredient.recipeIngredientId);
+    if (ingredient.recipeName && !existing.recipeNames.includes(ingredient.recipeName)) {
+      existing.recipeNames.push(ingredient.recipeName);
+    }
+  }
+
+  return [...merged.values()].map(({ sourceIds, ...item }) => ({
+    ...item,
+    // A merged item no longer belongs to one recipe ingredient
+    recipeIngredientId: sourceIds.size === 1 ? item.recipeIngredientId : null,
+  }));
+}
@@ -0,0 +1,10 @@
+export type RateLimitErrorLike = {
+  data?: { code?: string; retryAfterSeconds?: number } | null;
+};
+
+/** Minutes until a rate-limited tRPC call can be retried, or null when the error isn't a rate limit */
+export function rateLimitRetryMinutes(error: RateLimitErrorLike): number | null {
+  if (error.data?.code !== "TOO_MANY_REQUESTS") return null;
+
+  return Math.max(1, Math.ceil((error.data.retryAfterSeconds ?? 60) / 60));
+}
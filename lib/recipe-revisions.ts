@@ -0,0 +1,207 @@
+import type {
+  FullRecipeDTO,
+  FullRecipeUpdateDTO,
+  RecipeFieldChange,
+  RecipeListChange,
+  RecipeRevisionDiffDto,
+  RecipeSnapshotDto,
+} from "@/types";
+
+/**
+ * Snapshots and diffs for recipe revision history.
+ * Ingredients, steps and tags are compared as lines of text, so a changed line
+ * shows up as one removed and one added line. Lines in a section are prefixed with its name.
+ */
+
+const SCALAR_FIELDS = [
+  "name",
+  "description",
+  "url",
+  "servings",
+  "prepMinutes",
+  "cookMinutes",
+  "totalMinutes",
+  "systemUsed",
+  "calories",
+  "fat",
+  "carbs",
+  "protein",
+  "fiber",
+  "sugar",
+  "saturatedFat",
+  "sodium",
+  "cholesterol",
+] as const satisfies readonly (keyof RecipeSnapshotDto)[];
+
+export function toRecipeSnapshot(recipe: FullRecipeDTO): RecipeSnapshotDto {
+  return {
+    name: recipe.name,
+    description: recipe.description,
+    url: recipe.url,
+    servings: recipe.servings,
+    prepMinutes: recipe.prepMinutes,
+    cookMinutes: recipe.cookMinutes,
+    totalMinutes: recipe.totalMinutes,
+    systemUsed: recipe.systemUsed,
+    calories: recipe.calories,
+    fat: recipe.fat,
+    carbs: recipe.carbs,
+    protein: recipe.protein,
+    fiber: recipe.fiber,
+    sugar: recipe.sugar,
+    saturatedFat: recipe.saturatedFat,
+    sodium: recipe.sodium,
+    cholesterol: recipe.cholesterol,
+    tags: recipe.tags,
+    recipeIngredients: recipe.recipeIngredients,
+    steps: recipe.steps,
+  };
+}
+
+function hasMultipleSystems(items: { systemUsed: string }[]): boolean {
+  return new Set(items.map((i) => i.systemUsed)).size > 1;
+}
+
+function withSection(line: string, section: string | null | undefined): string {
+  return section ? `${section}: ${line}` : line;
+}
+
+function ingredientLines(snapshot: RecipeSnapshotDto, withSystem: boolean): string[] {
+  return [...snapshot.recipeIngredients]
+    .sort((a, b) => a.order - b.order)
+    .map((ri) => {
+      const line = withSection(
+        [ri.amount, ri.unit, ri.ingredientName].filter((p) => p || p === 0).join(" "),
+        ri.section
+      );
+
+      return withSystem ? `${line} (${ri.systemUsed})` : line;
+    });
+}
+
+function stepLines(snapshot: RecipeSnapshotDto, withSystem: boolean): string[] {
+  return [...snapshot.steps]
+    .sort((a, b) => a.order - b.order)
+    .map((s) => {
+      const line = withSection(s.step, s.section);
+
+      return withSystem ? `${line} (${s.systemUsed})` : line;
+    });
+}
+
+function tagLines(snapshot: RecipeSnapshotDto): string[] {
+  return snapshot.tags.map((t) => t.name);
+}
+
+/** Lines in `after` but not in `before` and the other way round, counting duplicates */
+export function diffLines(before: string[], after: string[]): RecipeListChange {
+  const remaining = new Map<string, number>();
+
+  for (const line of before) remaining.set(line, (remaining.get(line) ?? 0) + 1);
+
+  const added: string[] = [];
+
+  for (const line of after) {
+    const count = remaining.get(line) ?? 0;
+
+    if (count > 0) remaining.set(line, count - 1);
+    else added.push(line);
+  }
+
+  const removed = before.filter((line) => {
+    const count = remaining.get(line) ?? 0;
+
+    if (count === 0) return false;
+    remaining.set(line, count - 1);
+
+    return true;
+  });
+
+  return { added, removed };
+}
+
+function isUnchanged(change: RecipeListChange): boolean {
+  return change.added.length === 0 && change.removed.length === 0;
+}
+
+/**
+ * Differences between two snapshots. Without `before` (the first revision)
+ * everything in `after` counts as added.
+ */
+export function diffRecipeSnapshots(
+  before: RecipeSnapshotDto | null,
+  after: RecipeSnapshotDto
+): RecipeRevisionDiffDto {
+  const fields: RecipeFieldChange[] = SCALAR_FIELDS.filter(
+    (field) => (before?.[field] ?? null) !== (after[field] ?? null)
+  ).map((field) => ({
+    field,
+    before: before?.[field] ?? null,
+    after: after[field] ?? null,
+  }));
+
+  // Label lines by system when the two sides together use more than one
+  const ingredientSystems = hasMultipleSystems([
+    ...(before?.recipeIngredients ?? []),
+    ...after.recipeIngredients,
+  ]);
+  const stepSystems = hasMultipleSystems([...(before?.steps ?? []), ...after.steps]);
+
+  return {
+    fields,
+    ingredients: diffLines(
+      before ? ingredientLines(before, ingredientSystems) : [],
+      ingredientLines(after, ingredientSystems)
+    ),
+    steps: diffLines(before ? stepLines(before, stepSystems) : [], stepLines(after, stepSystems)),
+    tags: diffLines(before ? tagLines(before) : [], tagLines(after)),
+  };
+}
+
+/** Names of the changed fields, with "ingredients", "steps" and "tags" for the lists */
+export function getChangedFields(
+  before: RecipeSnapshotDto | null,
+  after: RecipeSnapshotDto
+): string[] {
+  const diff = diffRecipeSnapshots(before, after);
+
+  return [
+    ...diff.fields.map((f) => f.field),
+    ...(["ingredients", "steps", "tags"] as const).filter((list) => !isUnchanged(diff[list])),
+  ];
+}
+
+/** Update payload that puts a recipe back to a snapshot */
+export function snapshotToUpdate(snapshot: RecipeSnapshotDto): FullRecipeUpdateDTO {
+  return {
+    name: snapshot.name,
+    description: snapshot.description,
+    url: snapshot.url,
+    servings: snapshot.servings,
+    prepMinutes: snapshot.prepMinutes,
+    cookMinutes: snapshot.cookMinutes,
+    totalMinutes: snapshot.totalMinutes,
+    systemUsed: snapshot.systemUsed,
+    calories: snapshot.calories,
+    fat: snapshot.fat,
+    carbs: snapshot.carbs,
+    protein: snapshot.protein,
+    fiber: snapshot.fiber,
+    sugar: snapshot.sugar,
+    saturatedFat: snapshot.saturatedFat,
+    sodium: snapshot.sodium,
+    cholesterol: snapshot.cholesterol,
+    tags: snapshot.tags,
+    recipeIngredients: snapshot.recipeIngredients.map((ri) => ({
+      ingredientId: null,
+      ingredientName: ri.ingredientName,
+      amount: ri.amount,
+      unit: ri.unit,
+      order: ri.order,
+      systemUsed: ri.systemUsed,
+      section: ri.section ?? null,
+      linkedRecipeId: ri.linkedRecipeId ?? null,
+    })),
+    steps: snapshot.steps,
+  };
+}
@@ -0,0 +1,90 @@
+/**
+ * Named sections ("Dough", "Filling", "Glaze") for recipe ingredients and steps.
+ * Sections are stored on each row; editors and older sources write them as
+ * `# Heading` lines in front of the rows they group.
+ */
+
+interface SectionedItem {
+  systemUsed?: string | null;
+  section?: string | null;
+}
+
+/** Section name for a `# Heading` line, "" for a bare `#`, null for anything else */
+export function parseSectionHeading(text: string | null | undefined): string | null {
+  const trimmed = text?.trim() ?? "";
+
+  if (!trimmed.startsWith("#")) return null;
+
+  return trimmed.replace(/^#+\s*/, "").trim();
+}
+
+export function normalizeSectionName(section: string | null | undefined): string | null {
+  const trimmed = section?.trim();
+
+  return trimmed ? trimmed : null;
+}
+
+/**
+ * Turn heading lines into the section of the rows that follow them, per measurement system.
+ * Heading lines are dropped. A row that already names its section keeps it.
+ */
+export function applySectionHeadings<T extends object>(
+  items: T[],
+  getText: (item: T) => string | null | undefined
+): (T & { section: string | null })[] {
+  const current = new Map<string, string | null>();
+  const result: (T & { section: string | null })[] = [];
+
+  for (const item of items) {
+    const { systemUsed, section } = item as SectionedItem;
+    const system = systemUsed ?? "";
+    const heading = parseSectionHeading(getText(item));
+
+    if (heading !== null) {
+      current.set(system, normalizeSectionName(heading));
+      continue;
+    }
+
+    result.push({
+      ...item,
+      section: normalizeSectionName(section) ?? current.get(system) ?? null,
+    });
+  }
+
+  return result;
+}
+
+/**
+ * The reverse of applySectionHeadings: put a heading line in front of every run of rows
+ * that starts a new section. Rows without a section after a named one get a bare heading
+ * so they do not fall into that section. Expects the items of one measurement system, in order.
+ */
+export function withSectionHeadings<T extends object, H>(
+  items: T[],
+  toHeading: (section: string, item: T) => H
+): (T | H)[] {
+  const result: (T | H)[] = [];
+  let previous: string | null = null;
+
+  for (const item of items) {
+    const section = normalizeSectionName((item as SectionedItem).section);
+
+    if (section !== previous) result.push(toHeading(section ?? "", item));
+    previous = section;
+    result.push(item);
+  }
+
+  return result;
+}
+
+/** Section heading to show before the item at `index`, if it starts a new section */
+export function sectionStartingAt<T extends SectionedItem>(
+  items: T[],
+  index: number
+): string | null {
+  const section = normalizeSectionName(items[index]?.section);
+
+  if (!section) return null;
+
+  return index > 0 && normalizeSectionName(items[index - 1]?.section) === section ? null : section;
+}
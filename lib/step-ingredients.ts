@@ -0,0 +1,189 @@
+import type { UnitsMap } from "@/server/db/zodSchemas/server-config";
+
+import { formatAmount, formatAmountAsFraction, type AmountDisplayMode } from "./format-amount";
+import { parseRecipeLink } from "./sub-recipes";
+
+/**
+ * Ingredients used by a recipe step. Steps point at ingredients of the same measurement
+ * system by their order, so the links survive ingredients being re-created on every save.
+ * Steps saved without links are matched to ingredients by the names in their text.
+ */
+
+export interface StepIngredientCandidate {
+  ingredientName: string;
+  order: number;
+  systemUsed?: string;
+}
+
+export interface StepIngredientAmount {
+  ingredientName: string;
+  amount: number | null;
+  unit: string | null;
+}
+
+function escapeRegex(str: string): string {
+  return str.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/** Ingredient name without sub-recipe link syntax, notes in parentheses or after a comma */
+export function coreIngredientName(name: string): string {
+  const plain = parseRecipeLink(name)?.name ?? name;
+
+  return plain
+    .replace(/\([^)]*\)/g, " ")
+    .split(",")[0]
+    .replace(/\s+/g, " ")
+    .trim()
+    .toLowerCase();
+}
+
+/** Names to look for in step text: the full name and, for longer names, its last word */
+function searchTerms(name: string): string[] {
+  const core = coreIngredientName(name);
+
+  if (!core) return [];
+
+  const words = core.split(/[\s-]+/);
+  const last = words[words.length - 1];
+
+  return words.length > 1 && last.length >= 3 ? [core, last] : [core];
+}
+
+function termPattern(term: string): string {
+  const singular = term.replace(/(es|s)$/, "");
+
+  return `${escapeRegex(singular.length >= 3 ? singular : term)}(?:e?s)?`;
+}
+
+function mentions(text: string, term: string): boolean {
+  return new RegExp(`(?<![\\p{L}])${termPattern(term)}(?![\\p{L}])`, "iu").test(text);
+}
+
+/** Best-effort guess of the ingredients a step uses, from the ingredient names in its text */
+export function matchStepIngredients(
+  step: string,
+  ingredients: StepIngredientCandidate[]
+): number[] {
+  return ingredients
+    .filter((ing) => searchTerms(ing.ingredientName).some((term) => mentions(step, term)))
+    .map((ing) => ing.order);
+}
+
+/**
+ * Ingredients a step uses, in ingredient order. Steps stored before ingredient links
+ * existed have no orders and are matched by name.
+ */
+export function getStepIngredients<T extends StepIngredientCandidate>(
+  step: { step: string; systemUsed?: string; ingredientOrders?: number[] | null },
+  ingredients: T[]
+): T[] {
+  const candidates = ingredients.filter(
+    (ing) => !step.systemUsed || !ing.systemUsed || ing.systemUsed === step.systemUsed
+  );
+  const orders = new Set(step.ingredientOrders ?? matchStepIngredients(step.step, candidates));
+
+  return candidates.filter((ing) => orders.has(ing.order)).sort((a, b) => a.order - b.order);
+}
+
+const UNICODE_TO_ASCII: Record<string, string> = {
+  "½": "1/2",
+  "⅓": "1/3",
+  "⅔": "2/3",
+  "¼": "1/4",
+  "¾": "3/4",
+  "⅛": "1/8",
+};
+
+/** The ways an amount is commonly written: "1.5", "1,5", "1 1/2", "1½" */
+function amountVariants(amount: number): string[] {
+  const decimal = String(Math.round(amount * 1000) / 1000);
+  const fraction = formatAmountAsFraction(amount);
+  const variants = new Set([
+    decimal,
+    decimal.replace(".", ","),
+    fraction,
+    fraction.replace(" ", ""),
+  ]);
+
+  const [whole, part] = fraction.includes(" ") ? fraction.split(" ") : ["", fraction];
+  const ascii = UNICODE_TO_ASCII[part];
+
+  if (ascii) variants.add(whole ? `${whole} ${ascii}` : ascii);
+
+  return Array.from(variants)
+    .filter(Boolean)
+    .sort((a, b) => b.length - a.length);
+}
+
+/** Words that may follow an amount in step text: the unit in any of its forms, or the name */
+function followingWords(ingredient: StepIngredientAmount, units?: UnitsMap): string[] {
+  const words = new Set<string>(searchTerms(ingredient.ingredientName));
+  const unit = ingredient.unit?.trim();
+
+  if (unit) {
+    words.add(unit.toLowerCase());
+
+    const def =
+      units?.[unit] ??
+      Object.values(units ?? {}).find(
+        (u) =>
+          u.short.toLowerCase() === unit.toLowerCase() ||
+          u.plural.toLowerCase() === unit.toLowerCase() ||
+          u.alternates.some((a) => a.toLowerCase() === unit.toLowerCase())
+      );
+
+    if (def) [def.short, def.plural, ...def.alternates].forEach((w) => words.add(w.toLowerCase()));
+  }
+
+  return Array.from(words).filter(Boolean);
+}
+
+export function formatScaledAmount(
+  amount: number | null,
+  factor: number,
+  mode?: AmountDisplayMode
+): string {
+  if (amount === null) return "";
+
+  return formatAmount(Math.round(amount * factor * 1000) / 1000, mode);
+}
+
+/**
+ * Scale the amounts of the given ingredients where the step text mentions them,
+ * such as "add 200 g flour". Only an amount followed by the ingredient's unit or name
+ * is changed, so oven temperatures and cooking times stay as they are.
+ */
+export function scaleStepText(
+  text: string,
+  ingredients: StepIngredientAmount[],
+  factor: number,
+  options: { units?: UnitsMap; mode?: AmountDisplayMode } = {}
+): string {
+  if (factor === 1 || !text) return text;
+
+  const replacements: { start: number; end: number; value: string }[] = [];
+
+  for (const ingredient of ingredients) {
+    if (ingredient.amount === null || ingredient.amount <= 0) continue;
+
+    const amounts = amountVariants(ingredient.amount).map(escapeRegex).join("|");
+    const words = followingWords(ingredient, options.units).map(termPattern).join("|");
+    const pattern = new RegExp(
+      `(?<![\\d.,/])(${amounts})(?![\\d.,/])(?=\\s*(?:${words})(?![\\p{L}]))`,
+      "giu"
+    );
+    const value = formatScaledAmount(ingredient.amount, factor, options.mode);
+
+    for (const match of text.matchAll(pattern)) {
+      const start = match.index ?? 0;
+      const end = start + match[1].length;
+
+      if (replacements.some((r) => start < r.end && end > r.start)) continue;
+      replacements.push({ start, end, value });
+    }
+  }
+
+  return replacements
+    .sort((a, b) => b.start - a.start)
+    .reduce((result, r) => result.slice(0, r.start) + r.value + result.slice(r.end), text);
+}
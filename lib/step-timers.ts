@@ -0,0 +1,117 @@
+/**
+ * Durations mentioned in recipe step text, such as "simmer 20 minutes", "1 uur en 30 minuten"
+ * or "10–15 Minuten", so cook mode can offer a timer for them. Ranges use their lower bound,
+ * which is when the cook should first check.
+ */
+
+export interface StepDuration {
+  /** The duration as written in the step */
+  text: string;
+  seconds: number;
+  /** Position of the duration in the step text */
+  index: number;
+}
+
+const HOUR_WORDS = [
+  "hours",
+  "hour",
+  "hrs",
+  "hr",
+  "h",
+  "uren",
+  "uur",
+  "stunden",
+  "stunde",
+  "std",
+  "heures",
+  "heure",
+];
+const MINUTE_WORDS = ["minutes", "minute", "minuten", "minuut", "mins", "min", "mn"];
+const SECOND_WORDS = [
+  "seconds",
+  "second",
+  "seconden",
+  "secondes",
+  "seconde",
+  "sekunden",
+  "sekunde",
+  "secs",
+  "sec",
+  "sek",
+];
+
+const UNIT_SECONDS: [string[], number][] = [
+  [HOUR_WORDS, 3600],
+  [MINUTE_WORDS, 60],
+  [SECOND_WORDS, 1],
+];
+
+const NUMBER = String.raw`\d+\s?[½¼¾]|\d+(?:[.,]\d+)?|[½¼¾]`;
+const RANGE = String.raw`\s*(?:-|–|—|to|tot|bis|à|or|of|oder|ou)\s*`;
+const UNIT = [...HOUR_WORDS, ...MINUTE_WORDS, ...SECOND_WORDS]
+  .sort((a, b) => b.length - a.length)
+  .join("|");
+
+const DURATION = new RegExp(
+  String.raw`(?<![\p{L}\d.,])(${NUMBER})(?:${RANGE}(?:${NUMBER}))?\s*(${UNIT})(?![\p{L}\d])`,
+  "giu"
+);
+
+/** What may sit between the parts of a combined duration: "1 hour 30 minutes", "1 Std. und 15 Min." */
+const JOINER = /^\.?\s*(?:,|and|en|und|et)?\s*$/i;
+
+const FRACTIONS: Record<string, number> = { "½": 0.5, "¼": 0.25, "¾": 0.75 };
+
+function parseNumber(value: string): number {
+  const fraction = value.match(/^(\d*)\s?([½¼¾])$/);
+
+  if (fraction) return Number(fraction[1] || 0) + FRACTIONS[fraction[2]];
+
+  return Number(value.replace(",", "."));
+}
+
+function unitSeconds(unit: string): number {
+  const word = unit.toLowerCase();
+
+  return UNIT_SECONDS.find(([words]) => words.includes(word))?.[1] ?? 0;
+}
+
+/** Durations in a step, in the order they appear */
+export function detectStepDurations(text: string): StepDuration[] {
+  const durations: (StepDuration & { unitSeconds: number })[] = [];
+
+  for (const match of text.matchAll(DURATION)) {
+    const index = match.index ?? 0;
+    const perUnit = unitSeconds(match[2]);
+    const seconds = Math.round(parseNumber(match[1]) * perUnit);
+    const previous = durations[durations.length - 1];
+
+    if (seconds <= 0) continue;
+
+    // "1 hour 30 minutes" is one duration, while "30 minutes, then 5 minutes" are two
+    if (
+      previous &&
+      previous.unitSeconds > perUnit &&
+      JOINER.test(text.slice(previous.index + previous.text.length, index))
+    ) {
+      previous.seconds += seconds;
+      previous.text = text.slice(previous.index, index + match[0].length);
+      previous.unitSeconds = perUnit;
+      continue;
+    }
+
+    durations.push({ text: match[0], seconds, index, unitSeconds: perUnit });
+  }
+
+  return durations.map(({ text, seconds, index }) => ({ text, seconds, index }));
+}
+
+/** Remaining time as "m:ss", or "h:mm:ss" from an hour up */
+export function formatTimerDuration(totalSeconds: number): string {
+  const seconds = Math.max(0, Math.ceil(totalSeconds));
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = String(seconds % 60).padStart(2, "0");
+
+  return h > 0 ? `${h}:${String(m).padStart(2, "0")}:${s}` : `${m}:${s}`;
+}
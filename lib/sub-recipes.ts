@@ -0,0 +1,106 @@
+/**
+ * Sub-recipes: an ingredient line that links to another recipe, such as the dough of a pizza.
+ * The line's amount is the number of servings of the linked recipe it needs; a line without
+ * an amount uses the whole linked recipe. Editors write links as `[Name](id:uuid)`.
+ */
+
+const RECIPE_LINK = /^\[([^\]]+)\]\(id:([a-zA-Z0-9-]+)\)$/;
+
+export interface SubRecipeIngredient {
+  id: string;
+  ingredientName: string;
+  amount: number | null;
+  unit: string | null;
+  linkedRecipeId?: string | null;
+}
+
+export interface SubRecipe {
+  id: string;
+  name: string;
+  servings: number;
+  /** Ingredients of the recipe's active measurement system, in order */
+  ingredients: SubRecipeIngredient[];
+}
+
+export interface ExpandedIngredient extends SubRecipeIngredient {
+  /** Name of the sub-recipe the line comes from, null for the recipe's own lines */
+  subRecipeName: string | null;
+}
+
+/** Name and recipe id of a `[Name](id:uuid)` line, null for anything else */
+export function parseRecipeLink(
+  text: string | null | undefined
+): { name: string; recipeId: string } | null {
+  const match = text?.trim().match(RECIPE_LINK);
+
+  if (!match) return null;
+
+  return { name: match[1].trim(), recipeId: match[2] };
+}
+
+export function toRecipeLinkText(name: string, recipeId: string): string {
+  return `[${name}](id:${recipeId})`;
+}
+
+/** Name of an ingredient line as editors show it: a `[Name](id:uuid)` link for sub-recipes */
+export function toIngredientLinkText(ingredient: {
+  ingredientName: string;
+  linkedRecipeId?: string | null;
+}): string {
+  if (!ingredient.linkedRecipeId) return ingredient.ingredientName;
+
+  const name = parseRecipeLink(ingredient.ingredientName)?.name ?? ingredient.ingredientName;
+
+  return toRecipeLinkText(name, ingredient.linkedRecipeId);
+}
+
+/** How much of the linked recipe a line uses, as a multiplier of its amounts */
+export function subRecipeFactor(amount: number | null, servings: number): number {
+  if (amount === null || servings <= 0) return 1;
+
+  return amount / servings;
+}
+
+function scaleAmount(amount: number | null, factor: number): number | null {
+  if (amount === null || factor === 1) return amount;
+
+  return Math.round(amount * factor * 1000) / 1000;
+}
+
+function expandLine(
+  item: SubRecipeIngredient,
+  recipes: ReadonlyMap<string, SubRecipe>,
+  visited: ReadonlySet<string>,
+  subRecipeName: string | null
+): ExpandedIngredient[] {
+  if (item.linkedRecipeId && visited.has(item.linkedRecipeId)) return [];
+
+  const linked = item.linkedRecipeId ? recipes.get(item.linkedRecipeId) : undefined;
+
+  if (!linked) {
+    // A link to a recipe that is gone is kept as a plain line with the recipe's name
+    const name = parseRecipeLink(item.ingredientName)?.name ?? item.ingredientName;
+
+    return [{ ...item, ingredientName: name, linkedRecipeId: null, subRecipeName }];
+  }
+
+  const factor = subRecipeFactor(item.amount, linked.servings);
+  const path = new Set(visited).add(linked.id);
+
+  return linked.ingredients
+    .flatMap((child) => expandLine(child, recipes, path, linked.name))
+    .map((leaf) => ({ ...leaf, amount: scaleAmount(leaf.amount, factor) }));
+}
+
+/**
+ * Replace linked lines with the ingredients of the recipes they link to, recursively and
+ * scaled to the servings each line asks for. A recipe that links back to one of the recipes
+ * it is part of (pass the root recipe in `visited`) contributes nothing the second time.
+ */
+export function expandSubRecipes(
+  items: SubRecipeIngredient[],
+  recipes: ReadonlyMap<string, SubRecipe>,
+  visited: ReadonlySet<string> = new Set()
+): ExpandedIngredient[] {
+  return items.flatMap((item) => expandLine(item, recipes, visited, null));
+}
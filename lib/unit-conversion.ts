@@ -0,0 +1,414 @@
+import type { MeasurementSystem } from "@/types";
+import type {
+  IngredientDensities,
+  IngredientDensity,
+  UnitConversion,
+  UnitDef,
+  UnitsMap,
+} from "@/server/db/zodSchemas/server-config";
+
+import { unitsOfMeasure } from "parse-ingredient";
+
+import { formatAmount, roundToKitchenFraction } from "./format-amount";
+import { coreIngredientName } from "./step-ingredients";
+
+/**
+ * Rule-based conversion of recipe measurements between metric and US units.
+ * Every unit with a conversion factor is expressed in grams or millilitres; ingredients
+ * with a known density can move between volume and weight, so "1 cup flour" becomes grams.
+ * Only entries marked weighInMetric are weighed; "1 cup milk" stays in millilitres.
+ * Units without a factor (cloves, pinches, cans) and units both systems use (el, tl) stay as they are.
+ */
+
+export type UnitDimension = UnitConversion["dimension"];
+
+export interface ResolvedUnit {
+  id: string;
+  conversion: UnitConversion | null;
+}
+
+export interface ConvertibleIngredient {
+  ingredientName: string;
+  amount: number | null;
+  unit: string | null;
+}
+
+export interface ConversionOptions {
+  units?: UnitsMap;
+  densities?: IngredientDensities;
+}
+
+/** Factors for the units parse-ingredient knows, by its unit ids */
+const STANDARD_CONVERSIONS: Record<string, UnitConversion> = {
+  milligram: { dimension: "mass", factor: 0.001, system: "metric" },
+  gram: { dimension: "mass", factor: 1, system: "metric" },
+  kilogram: { dimension: "mass", factor: 1000, system: "metric" },
+  ounce: { dimension: "mass", factor: 28.3495, system: "us" },
+  pound: { dimension: "mass", factor: 453.592, system: "us" },
+  milliliter: { dimension: "volume", factor: 1, system: "metric" },
+  liter: { dimension: "volume", factor: 1000, system: "metric" },
+  teaspoon: { dimension: "volume", factor: 4.92892, system: "us" },
+  tablespoon: { dimension: "volume", factor: 14.7868, system: "us" },
+  "fluid ounce": { dimension: "volume", factor: 29.5735, system: "us" },
+  cup: { dimension: "volume", factor: 236.588, system: "us" },
+  pint: { dimension: "volume", factor: 473.176, system: "us" },
+  quart: { dimension: "volume", factor: 946.353, system: "us" },
+  gallon: { dimension: "volume", factor: 3785.41, system: "us" },
+};
+
+/** Spellings parse-ingredient does not list */
+const EXTRA_NAMES: Record<string, string[]> = {
+  kilogram: ["kilo", "kilos"],
+  liter: ["litre", "litres", "liter"],
+  milliliter: ["millilitre", "millilitres"],
+};
+
+function unitNames(id: string, def: Pick<UnitDef, "short" | "plural" | "alternates">): string[] {
+  return [id, def.short, def.plural, ...def.alternates, ...(EXTRA_NAMES[id] ?? [])];
+}
+
+function standardUnit(id: string): ResolvedUnit {
+  return { id, conversion: STANDARD_CONVERSIONS[id] ?? null };
+}
+
+/**
+ * Find a unit by any of its names, in the units map or among the units every recipe
+ * parser knows. Returns null for units nobody has defined.
+ */
+export function resolveUnit(
+  unit: string | null | undefined,
+  units: UnitsMap = {}
+): ResolvedUnit | null {
+  const token = unit?.trim();
+
+  if (!token) return null;
+
+  // Exact spelling first: "T" is a tablespoon and "t" a teaspoon
+  for (const [id, def] of Object.entries(unitsOfMeasure)) {
+    if (unitNames(id, def).includes(token)) return standardUnit(id);
+  }
+
+  const lower = token.toLowerCase().replace(/\.$/, "");
+  const matches = (names: string[]) => names.some((n) => n.toLowerCase() === lower);
+
+  for (const [id, def] of Object.entries(units)) {
+    if (matches(unitNames(id, def))) {
+      return { id, conversion: def.conversion ?? STANDARD_CONVERSIONS[id] ?? null };
+    }
+  }
+
+  for (const [id, def] of Object.entries(unitsOfMeasure)) {
+    if (matches(unitNames(id, def))) return standardUnit(id);
+  }
+
+  return null;
+}
+
+function escapeRegex(str: string): string {
+  return str.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+type WeightField = "gramsPerMl" | "gramsPerPiece";
+
+/**
+ * Look up the entry for a weight of an ingredient. Names match an entry when they are the entry
+ * or end with it, so "unsalted butter" uses butter while "sugar snap peas" uses nothing.
+ */
+function findWeightEntry(
+  name: string,
+  densities: IngredientDensities,
+  field: WeightField
+): IngredientDensity | null {
+  const core = coreIngredientName(name);
+  let best: { term: string; entry: IngredientDensity } | null = null;
+
+  for (const [key, density] of Object.entries(densities)) {
+    if (density[field] === undefined) continue;
+
+    for (const term of [key, ...density.alternates].map((t) => t.toLowerCase().trim())) {
+      if (!term || (best && best.term.length >= term.length)) continue;
+      if (new RegExp(`(?:^|[^\\p{L}])${escapeRegex(term)}(?:e?s)?$`, "u").test(core)) {
+        best = { term, entry: density };
+      }
+    }
+  }
+
+  return best?.entry ?? null;
+}
+
+/** Grams per millilitre of an ingredient, or null when its density is unknown */
+export function findDensity(name: string, densities: IngredientDensities = {}): number | null {
+  return findWeightEntry(name, densities, "gramsPerMl")?.gramsPerMl ?? null;
+}
+
+/** Grams in one piece of an ingredient, such as an egg, or null when unknown */
+export function findPieceWeight(name: string, densities: IngredientDensities = {}): number | null {
+  return findWeightEntry(name, densities, "gramsPerPiece")?.gramsPerPiece ?? null;
+}
+
+const TABLESPOON_ML = STANDARD_CONVERSIONS.tablespoon.factor;
+const CUP_ML = STANDARD_CONVERSIONS.cup.factor;
+const OUNCE_G = STANDARD_CONVERSIONS.ounce.factor;
+const POUND_G = STANDARD_CONVERSIONS.pound.factor;
+
+function roundMetric(n: number): number {
+  if (n >= 100) return Math.round(n / 5) * 5;
+  if (n >= 10) return Math.round(n);
+  if (n >= 1) return Math.round(n * 2) / 2;
+
+  return Math.max(Math.round(n * 10) / 10, 0.1);
+}
+
+/**
+ * Express grams or millilitres in the unit a cook of the target system would use,
+ * rounded to amounts that can be weighed or measured.
+ */
+export function toKitchenUnit(
+  base: number,
+  dimension: UnitDimension,
+  system: MeasurementSystem
+): { amount: number; unit: string } {
+  if (system === "metric") {
+    const large = base >= 1000;
+    const unit = dimension === "mass" ? (large ? "kg" : "g") : large ? "l" : "ml";
+
+    return large
+      ? { amount: Math.round((base / 1000) * 20) / 20, unit }
+      : { amount: roundMetric(base), unit };
+  }
+
+  if (dimension === "mass") {
+    return base >= 16 * OUNCE_G
+      ? { amount: roundToKitchenFraction(base / POUND_G, [2, 4]), unit: "lb" }
+      : { amount: roundToKitchenFraction(base / OUNCE_G, [2, 4]), unit: "oz" };
+  }
+
+  // A little under a quarter cup still reads best in cups
+  if (base >= CUP_ML / 4 - 2) {
+    const amount = roundToKitchenFraction(base / CUP_ML, [2, 3, 4]);
+
+    return { amount, unit: amount > 1 ? "cups" : "cup" };
+  }
+
+  if (base >= TABLESPOON_ML - 1) {
+    return { amount: roundToKitchenFraction(base / TABLESPOON_ML, [2]), unit: "tbsp" };
+  }
+
+  return {
+    amount: roundToKitchenFraction(base / STANDARD_CONVERSIONS.teaspoon.factor, [2, 4, 8]),
+    unit: "tsp",
+  };
+}
+
+/**
+ * Convert an ingredient line to the target system. Lines without an amount or unit, and lines
+ * whose unit needs no conversion, come back unchanged. Returns null when the unit is unknown.
+ */
+export function convertIngredientAmount(
+  ingredient: ConvertibleIngredient,
+  target: MeasurementSystem,
+  options: ConversionOptions = {}
+): { amount: number | null; unit: string | null } | null {
+  const { amount, unit } = ingredient;
+
+  if (amount === null || !unit?.trim()) return { amount, unit };
+
+  const resolved = resolveUnit(unit, options.units);
+
+  if (!resolved) return null;
+
+  const conversion = resolved.conversion;
+
+  if (!conversion?.system || conversion.system === target) return { amount, unit };
+
+  let base = amount * conversion.factor;
+  let dimension = conversion.dimension;
+  const entry = findWeightEntry(ingredient.ingredientName, options.densities ?? {}, "gramsPerMl");
+  const density = entry?.gramsPerMl;
+
+  // Metric recipes weigh dry goods that US recipes measure in cups, while liquids stay in
+  // millilitres. Weights go back to cups for US recipes either way.
+  if (density && entry.weighInMetric && target === "metric" && dimension === "volume") {
+    base *= density;
+    dimension = "mass";
+  } else if (density && target === "us" && dimension === "mass") {
+    base /= density;
+    dimension = "volume";
+  }
+
+  return toKitchenUnit(base, dimension, target);
+}
+
+const GAS_MARKS: Record<number, { c: number; f: number }> = {
+  1: { c: 140, f: 275 },
+  2: { c: 150, f: 300 },
+  3: { c: 170, f: 325 },
+  4: { c: 180, f: 350 },
+  5: { c: 190, f: 375 },
+  6: { c: 200, f: 400 },
+  7: { c: 220, f: 425 },
+  8: { c: 230, f: 450 },
+  9: { c: 240, f: 475 },
+};
+
+const TEMPERATURE =
+  /(\d+(?:[.,]\d+)?)\s*(?:°|º|˚|degrees?|graden|grad|degrés?)\s*(celsius|fahrenheit|c|f)(?![\p{L}])/giu;
+const GAS_MARK = /gas mark\s*(\d)(?!\d)/giu;
+
+function celsiusToFahrenheit(c: number): number {
+  const f = (c * 9) / 5 + 32;
+
+  // Oven dials go in steps of 25 °F
+  return f >= 250 ? Math.round(f / 25) * 25 : Math.round(f / 5) * 5;
+}
+
+function fahrenheitToCelsius(f: number): number {
+  const c = ((f - 32) * 5) / 9;
+
+  return c >= 120 ? Math.round(c / 10) * 10 : Math.round(c / 5) * 5;
+}
+
+function formatTemperature(value: number, target: MeasurementSystem): string {
+  return `${value} ${target === "metric" ? "°C" : "°F"}`;
+}
+
+/** Oven and cooking temperatures in step text, in °C for metric and °F for US */
+export function convertTemperatures(text: string, target: MeasurementSystem): string {
+  return text
+    .replace(TEMPERATURE, (match, value: string, scale: string) => {
+      const degrees = Number(value.replace(",", "."));
+      const isCelsius = scale.toLowerCase().startsWith("c");
+
+      if (isCelsius === (target === "metric")) return match;
+
+      return formatTemperature(
+        isCelsius ? celsiusToFahrenheit(degrees) : fahrenheitToCelsius(degrees),
+        target
+      );
+    })
+    .replace(GAS_MARK, (match, mark: string) => {
+      const temps = GAS_MARKS[Number(mark)];
+
+      if (!temps) return match;
+
+      return formatTemperature(target === "metric" ? temps.c : temps.f, target);
+    });
+}
+
+const UNICODE_FRACTIONS: Record<string, number> = {
+  "½": 1 / 2,
+  "⅓": 1 / 3,
+  "⅔": 2 / 3,
+  "¼": 1 / 4,
+  "¾": 3 / 4,
+  "⅛": 1 / 8,
+};
+
+const AMOUNT = String.raw`\d+\s+\d+/\d+|\d+/\d+|\d*\s?[½⅓⅔¼¾⅛]|\d+(?:[.,]\d+)?`;
+
+function parseAmountText(text: string): number {
+  const value = text.trim();
+  const unicode = value.match(/^(\d*)\s?([½⅓⅔¼¾⅛])$/);
+
+  if (unicode) return Number(unicode[1] || 0) + UNICODE_FRACTIONS[unicode[2]];
+
+  const mixed = value.match(/^(?:(\d+)\s+)?(\d+)\/(\d+)$/);
+
+  if (mixed) return Number(mixed[1] ?? 0) + Number(mixed[2]) / Number(mixed[3]);
+
+  return Number(value.replace(",", "."));
+}
+
+/** Cup and teaspoon abbreviations that are too often something else in running text */
+const AMBIGUOUS_IN_TEXT = new Set(["c", "t"]);
+
+/** Names of the units that belong to the other system, as they may appear in step text */
+function sourceUnitNames(target: MeasurementSystem, units: UnitsMap): string[] {
+  const defs: [string, Pick<UnitDef, "short" | "plural" | "alternates">][] = [
+    ...Object.entries(unitsOfMeasure),
+    ...Object.entries(units),
+  ];
+  const names = new Set<string>();
+
+  for (const [id, def] of defs) {
+    const system = (units[id]?.conversion ?? STANDARD_CONVERSIONS[id])?.system;
+
+    if (!system || system === target) continue;
+
+    for (const name of unitNames(id, def)) {
+      if (!AMBIGUOUS_IN_TEXT.has(name.toLowerCase()) && !name.endsWith(".")) names.add(name);
+    }
+  }
+
+  return Array.from(names).sort((a, b) => b.length - a.length);
+}
+
+/**
+ * Convert temperatures and measurements such as "2 cups" or "500 g" in step text.
+ * Step text does not say which ingredient an amount belongs to, so weights stay weights.
+ */
+export function convertStepText(
+  text: string,
+  target: MeasurementSystem,
+  options: ConversionOptions = {}
+): string {
+  const units = options.units ?? {};
+  const names = sourceUnitNames(target, units);
+  const withTemperatures = convertTemperatures(text, target);
+
+  if (names.length === 0) return withTemperatures;
+
+  const pattern = new RegExp(
+    `(?<![\\p{L}\\d.,/])(${AMOUNT})\\s*(${names.map(escapeRegex).join("|")})(?![\\p{L}])`,
+    "giu"
+  );
+
+  return withTemperatures.replace(pattern, (match, amountText: string, unitText: string) => {
+    const conversion = resolveUnit(unitText, units)?.conversion;
+
+    if (!conversion) return match;
+
+    const { amount, unit } = toKitchenUnit(
+      parseAmountText(amountText) * conversion.factor,
+      conversion.dimension,
+      target
+    );
+
+    return `${formatAmount(amount, target === "us" ? "fraction" : "decimal")} ${unit}`;
+  });
+}
+
+/**
+ * Convert the rows of a recipe's active system to the target system. Ingredient lines with
+ * units the engine does not know are copied unchanged and listed in `unconverted`.
+ */
+export function convertRecipeMeasurements<
+  I extends ConvertibleIngredient & { order: number; systemUsed: string },
+  S extends { step: string; order: number; systemUsed: string },
+>(
+  recipe: { systemUsed: string; recipeIngredients: I[]; steps: S[] },
+  target: MeasurementSystem,
+  options: ConversionOptions = {}
+): {
+  ingredients: (I & { systemUsed: MeasurementSystem })[];
+  steps: (S & { systemUsed: MeasurementSystem })[];
+  unconverted: I[];
+} {
+  const unconverted: I[] = [];
+
+  const ingredients = recipe.recipeIngredients
+    .filter((i) => i.systemUsed === recipe.systemUsed)
+    .map((i) => {
+      const converted = convertIngredientAmount(i, target, options);
+
+      if (!converted) unconverted.push(i);
+
+      return { ...i, ...converted, systemUsed: target };
+    });
+
+  const steps = recipe.steps
+    .filter((s) => s.systemUsed === recipe.systemUsed)
+    .map((s) => ({ ...s, step: convertStepText(s.step, target, options), systemUsed: target }));
+
+  return { ingredients, steps, unconverted };
+}
@@ -27,9 +27,9 @@ export const UrlSchema = z.string().url("Invalid URL format").max(2048, "URL too
 // ============================================================================
 
 /**
- * Meal slot enum matching database enum
+ * Meal slot key (built-in or household defined)
  */
-export const SlotSchema = z.enum(["Breakfast", "Lunch", "Dinner", "Snack"]);
+export const SlotSchema = z.string().trim().min(1).max(64);
 
 /**
  * Calendar note title
@@ -53,6 +53,6 @@ function getPublicOrigin(request: NextRequest) {
 
 export const config = {
   matcher: [
-    "/((?!api/auth|api/health|api/trpc|trpc|_next|favicon|icons|manifest|robots|login|signup|auth-error|sw.js|.*\\.png|.*\\.ico|.*\\.json|.*\\.webp|.*\\.svg).*)",
+    "/((?!api/auth|api/health|api/trpc|api/calendar-feed|trpc|_next|favicon|icons|manifest|robots|login|signup|auth-error|share/|sw.js|.*\\.png|.*\\.ico|.*\\.json|.*\\.webp|.*\\.svg).*)",
   ],
 };
@@ -0,0 +1,51 @@
+/**
+ * Import a food composition table for nutrition calculation
+ *
+ * Reads a CSV dump of USDA SR Legacy (ABBREV), NEVO or a plain
+ * `code,name,alternates,calories,fat,carbs,protein,...` file with nutrients per 100 g
+ * (see parseFoodCompositionCsv), and replaces every food previously imported under
+ * the same source.
+ *
+ * Usage: pnpm food:import <file.csv> [--source <name>]
+ * The source defaults to the file name without its extension.
+ */
+import fs from "fs/promises";
+import path from "path";
+
+import { parseFoodCompositionCsv } from "@/lib/food-composition";
+import { countFoodCompositions, replaceFoodCompositions } from "@/server/db";
+
+function parseArgs(argv: string[]): { file: string; source: string } {
+  const sourceIndex = argv.indexOf("--source");
+  const source = sourceIndex === -1 ? undefined : argv[sourceIndex + 1];
+  const file = argv.find((arg, i) => !arg.startsWith("--") && i !== sourceIndex + 1);
+
+  if (!file || (sourceIndex !== -1 && !source)) {
+    console.error("Usage: pnpm food:import <file.csv> [--source <name>]");
+    process.exit(1);
+  }
+
+  return { file, source: source ?? path.basename(file, path.extname(file)).toLowerCase() };
+}
+
+async function main(): Promise<void> {
+  const { file, source } = parseArgs(process.argv.slice(2));
+  const foods = parseFoodCompositionCsv(await fs.readFile(file, "utf8"));
+
+  if (foods.length === 0) {
+    console.error(`No foods found in ${file}`);
+    process.exit(1);
+  }
+
+  const imported = await replaceFoodCompositions(source, foods);
+  const total = await countFoodCompositions();
+
+  console.log(`Imported ${imported} foods from ${file} as "${source}" (${total} foods in total)`);
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((err) => {
+    console.error("Food composition import failed:", err);
+    process.exit(1);
+  });
@@ -5,10 +5,9 @@
  * Only detects allergens from the provided list (household allergies).
  */
 
-import { generateText, Output } from "ai";
 import { z } from "zod";
 
-import { getModels, getGenerationSettings } from "./providers";
+import { execute } from "./core/executor";
 import { aiSuccess, aiError, mapErrorToCode, getErrorMessage, type AIResult } from "./core/types";
 
 import { isAIEnabled, getAIConfig } from "@/config/server-config-loader";
@@ -73,11 +72,13 @@ Return ONLY allergens that are definitely present based on the ingredients. Do n
  *
  * @param recipe - The recipe data to analyze
  * @param allergiesToDetect - List of allergen names to look for (from household configuration)
+ * @param userId - User the job runs for, for usage tracking and quotas
  * @returns AIResult with array of detected allergen names, or error
  */
 export async function detectAllergiesInRecipe(
   recipe: RecipeForAllergyDetection,
-  allergiesToDetect: string[]
+  allergiesToDetect: string[],
+  userId?: string
 ): Promise<AIResult<string[]>> {
   // Guard: AI must be enabled
   const aiEnabled = await isAIEnabled();
@@ -121,29 +122,22 @@ export async function detectAllergiesInRecipe(
   );
 
   try {
-    const { model, providerName } = await getModels();
-    const settings = await getGenerationSettings();
-
     const prompt = buildAllergyDetectionPrompt(recipe, allergiesToDetect);
 
-    aiLogger.debug({ provider: providerName, prompt }, "Sending allergy detection prompt to AI");
+    aiLogger.debug({ prompt }, "Sending allergy detection prompt to AI");
 
-    const result = await generateText({
-      model,
-      output: Output.object({ schema: allergyDetectionSchema }),
+    const result = await execute({
+      schema: allergyDetectionSchema,
       prompt,
-      system:
+      systemMessage:
         "You are an allergy detection assistant. Analyze recipe ingredients to identify allergens. Be accurate and only report allergens that are definitely present.",
-      ...settings,
+      feature: "allergy_detection",
+      userId,
     });
 
-    const output = result.output;
+    if (!result.success) return result;
 
-    if (!output) {
-      aiLogger.error({ title: recipe.title }, "AI returned empty output for allergy detection");
-
-      return aiError("AI returned empty response", "EMPTY_RESPONSE");
-    }
+    const output = result.data;
 
     // Validate the response
     if (!Array.isArray(output.detectedAllergens)) {
@@ -168,11 +162,7 @@ export async function detectAllergiesInRecipe(
       "Allergy detection completed"
     );
 
-    return aiSuccess(normalizedAllergens, {
-      inputTokens: result.usage?.inputTokens ?? 0,
-      outputTokens: result.usage?.outputTokens ?? 0,
-      totalTokens: result.usage?.totalTokens ?? 0,
-    });
+    return aiSuccess(normalizedAllergens, result.usage);
   } catch (error) {
     const code = mapErrorToCode(error);
     const message = getErrorMessage(code, error instanceof Error ? error.message : undefined);
@@ -1,6 +1,4 @@
-import { generateText, Output } from "ai";
-
-import { getModels, getGenerationSettings } from "./providers";
+import { execute } from "./core/executor";
 import { autoTaggingSchema, type AutoTaggingOutput } from "./schemas/auto-tagging.schema";
 import { buildAutoTaggingPrompt, type RecipeForTagging } from "./prompts/builder";
 import { aiSuccess, aiError, mapErrorToCode, getErrorMessage, type AIResult } from "./core/types";
@@ -16,9 +14,13 @@ export type { AutoTaggingOutput, RecipeForTagging };
  * Generate tags for a recipe using AI.
  *
  * @param recipe - The recipe data to analyze
+ * @param userId - User the job runs for, for usage tracking and quotas
  * @returns AIResult with array of tag strings, or error
  */
-export async function generateTagsForRecipe(recipe: RecipeForTagging): Promise<AIResult<string[]>> {
+export async function generateTagsForRecipe(
+  recipe: RecipeForTagging,
+  userId?: string
+): Promise<AIResult<string[]>> {
   // Guard: AI must be enabled
   const aiEnabled = await isAIEnabled();
 
@@ -49,9 +51,6 @@ export async function generateTagsForRecipe(recipe: RecipeForTagging): Promise<A
   );
 
   try {
-    const { model, providerName } = await getModels();
-    const settings = await getGenerationSettings();
-
     // For predefined_db mode, fetch existing tags from database
     let existingDbTags: string[] | undefined;
 
@@ -62,24 +61,20 @@ export async function generateTagsForRecipe(recipe: RecipeForTagging): Promise<A
 
     const prompt = await buildAutoTaggingPrompt({ embedded: false, existingDbTags }, recipe);
 
-    aiLogger.debug({ provider: providerName, prompt }, "Sending auto-tagging prompt to AI");
+    aiLogger.debug({ prompt }, "Sending auto-tagging prompt to AI");
 
-    const result = await generateText({
-      model,
-      output: Output.object({ schema: autoTaggingSchema }),
+    const result = await execute({
+      schema: autoTaggingSchema,
       prompt,
-      system:
+      systemMessage:
         "You are a recipe tagging assistant. Analyze the recipe and assign relevant tags based on the provided rules.",
-      ...settings,
+      feature: "auto_tagging",
+      userId,
     });
 
-    const output = result.output;
+    if (!result.success) return result;
 
-    if (!output) {
-      aiLogger.error({ title: recipe.title }, "AI returned empty output for auto-tagging");
-
-      return aiError("AI returned empty response", "EMPTY_RESPONSE");
-    }
+    const output = result.data;
 
     // Validate the response
     if (!Array.isArray(output.tags)) {
@@ -95,11 +90,7 @@ export async function generateTagsForRecipe(recipe: RecipeForTagging): Promise<A
 
     aiLogger.info({ title: recipe.title, tags: normalizedTags }, "Auto-tagging completed");
 
-    return aiSuccess(normalizedTags, {
-      inputTokens: result.usage?.inputTokens ?? 0,
-      outputTokens: result.usage?.outputTokens ?? 0,
-      totalTokens: result.usage?.totalTokens ?? 0,
-    });
+    return aiSuccess(normalizedTags, result.usage);
   } catch (error) {
     const code = mapErrorToCode(error);
     const message = getErrorMessage(code, error instanceof Error ? error.message : undefined);
@@ -6,12 +6,14 @@
  */
 
 import type { ZodSchema } from "zod";
+import type { AIUsageFeature } from "@/server/db/zodSchemas";
 
 import { generateText, Output } from "ai";
 
 import { getModels, getGenerationSettings } from "../providers";
 
 import { isAIEnabled } from "./guards";
+import { recordAIUsage, requireAIQuota } from "./usage";
 import {
   aiSuccess,
   aiError,
@@ -48,11 +50,14 @@ function buildMessageContent(prompt: string, images?: ImageContent[]): MessageCo
  * Execute an AI operation with structured output.
  *
  * This is the central function for all AI operations. It:
- * - Checks if AI is enabled
+ * - Checks if AI is enabled and the user's monthly quota isn't used up
  * - Gets the appropriate model and settings
  * - Executes the AI call with proper error handling
+ * - Records token usage when a feature is given
  * - Returns a consistent AIResult type
  *
+ * Feature modules pass `feature` and `userId` so quotas and usage tracking stay in one place.
+ *
  * @example
  * ```ts
  * const result = await execute({
@@ -69,7 +74,17 @@ function buildMessageContent(prompt: string, images?: ImageContent[]): MessageCo
  * ```
  */
 export async function execute<T>(options: ExecuteOptions<T>): Promise<AIResult<T>> {
-  const { schema, prompt, systemMessage, useVisionModel, images, temperature, maxTokens } = options;
+  const {
+    schema,
+    prompt,
+    systemMessage,
+    useVisionModel,
+    images,
+    temperature,
+    maxTokens,
+    feature,
+    userId,
+  } = options;
 
   // Check if AI is enabled
   const enabled = await isAIEnabled();
@@ -80,6 +95,10 @@ export async function execute<T>(options: ExecuteOptions<T>): Promise<AIResult<T
     return aiError("AI features are disabled", "AI_DISABLED");
   }
 
+  const quota = await requireAIQuota<T>(userId);
+
+  if (quota) return quota;
+
   try {
     // Get models and settings
     const { model, visionModel, providerName } = await getModels();
@@ -127,6 +146,16 @@ export async function execute<T>(options: ExecuteOptions<T>): Promise<AIResult<T
       });
     }
 
+    if (feature) {
+      await recordAIUsage({
+        feature,
+        userId,
+        provider: providerName,
+        model: result.response.modelId,
+        usage: result.usage,
+      });
+    }
+
     // Check for empty response
     if (!result.output || Object.keys(result.output).length === 0) {
       aiLogger.warn("AI returned empty response");
@@ -195,3 +224,25 @@ export async function executeVision<T>(
     ...overrides,
   });
 }
+
+/**
+ * Run a provider call that doesn't go through generateText (e.g. audio transcription)
+ * with the same quota check and usage recording as execute(). Such APIs usually don't
+ * report tokens, so the recorded usage then only counts the request.
+ */
+export async function executeRequest<T>(
+  options: { feature: AIUsageFeature; userId?: string; provider: string; model: string },
+  request: () => Promise<AIResult<T>>
+): Promise<AIResult<T>> {
+  const quota = await requireAIQuota<T>(options.userId);
+
+  if (quota) return quota;
+
+  const result = await request();
+
+  if (result.success) {
+    await recordAIUsage({ ...options, usage: result.usage });
+  }
+
+  return result;
+}
@@ -4,6 +4,12 @@
 
 export { execute, executeText, executeVision } from "./executor";
 export { isAIEnabled, shouldAlwaysUseAI, requireAI, requireAIOrThrow } from "./guards";
+export {
+  recordAIUsage,
+  requireAIQuota,
+  getQuotaPeriodStart,
+  type RecordAIUsageOptions,
+} from "./usage";
 export {
   aiSuccess,
   aiError,
@@ -6,6 +6,7 @@
  */
 
 import type { ZodSchema } from "zod";
+import type { AIUsageFeature } from "@/server/db/zodSchemas";
 
 // Re-export result types from existing module for backwards compatibility
 export {
@@ -69,6 +70,10 @@ export interface ExecuteOptions<T> {
   temperature?: number;
   /** Override max tokens for this request */
   maxTokens?: number;
+  /** Feature to record token usage under (usage is only recorded when set) */
+  feature?: AIUsageFeature;
+  /** User the request is made for, for usage tracking and quotas */
+  userId?: string;
 }
 
 /**
@@ -0,0 +1,119 @@
+/**
+ * AI usage tracking and monthly quotas.
+ *
+ * Every provider call records its token usage for the admin dashboard,
+ * and AI features check the monthly quotas before calling the provider.
+ */
+
+import type { AIUsageFeature } from "@/server/db/zodSchemas";
+
+import { aiError, getErrorMessage, type AIResult, type TokenUsage } from "./types";
+
+import { getAIQuotas } from "@/config/server-config-loader";
+import { insertAIUsage, sumAITokensSince } from "@/server/db/repositories/ai-usage";
+import { getHouseholdForUser } from "@/server/db/repositories/households";
+import { aiLogger } from "@/server/logger";
+
+export interface RecordAIUsageOptions {
+  feature: AIUsageFeature;
+  userId?: string;
+  provider: string;
+  model: string;
+  usage?: Partial<TokenUsage>;
+}
+
+/**
+ * Start of the current quota period (first of the month, UTC).
+ */
+export function getQuotaPeriodStart(now: Date = new Date()): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+}
+
+/**
+ * Record the tokens used by one provider call.
+ * Never throws - a failed insert must not fail the AI feature itself.
+ */
+export async function recordAIUsage(options: RecordAIUsageOptions): Promise<void> {
+  const { feature, userId, provider, model, usage } = options;
+  const inputTokens = usage?.inputTokens ?? 0;
+  const outputTokens = usage?.outputTokens ?? 0;
+
+  try {
+    await insertAIUsage({
+      userId: userId ?? null,
+      feature,
+      provider,
+      model,
+      inputTokens,
+      outputTokens,
+      totalTokens: usage?.totalTokens ?? inputTokens + outputTokens,
+    });
+  } catch (error) {
+    aiLogger.error({ err: error, feature, userId }, "Failed to record AI usage");
+  }
+}
+
+/**
+ * Guard that returns an error result once the user or their household
+ * has used up this month's token quota. Overrides set for the user or
+ * their household replace the default quotas. Lets the call through when
+ * the usage can't be read.
+ *
+ * @example
+ * ```ts
+ * const quota = await requireAIQuota(userId);
+ * if (quota) return quota; // Quota exceeded
+ * ```
+ */
+export async function requireAIQuota<T>(userId?: string): Promise<AIResult<T> | null> {
+  if (!userId) return null;
+
+  const quotas = await getAIQuotas();
+  const userQuota = quotas.userOverrides[userId] ?? quotas.userMonthlyTokens;
+  const anyHouseholdQuota =
+    quotas.householdMonthlyTokens > 0 ||
+    Object.values(quotas.householdOverrides).some((tokens) => tokens > 0);
+
+  if (userQuota === 0 && !anyHouseholdQuota) return null;
+
+  const since = getQuotaPeriodStart();
+
+  try {
+    if (userQuota > 0) {
+      const used = await sumAITokensSince([userId], since);
+
+      if (used >= userQuota) {
+        aiLogger.info({ userId, used, quota: userQuota }, "User AI quota exceeded");
+
+        return aiError(getErrorMessage("QUOTA_EXCEEDED"), "QUOTA_EXCEEDED");
+      }
+    }
+
+    if (anyHouseholdQuota) {
+      const household = await getHouseholdForUser(userId);
+      const householdOverride = household ? quotas.householdOverrides[household.id] : undefined;
+      const householdQuota = householdOverride ?? quotas.householdMonthlyTokens;
+
+      if (householdQuota > 0) {
+        // Users without a household count as a household of one
+        const memberIds = Array.from(
+          new Set([userId, ...(household?.users.map((u) => u.id) ?? [])])
+        );
+        const used = await sumAITokensSince(memberIds, since);
+
+        if (used >= householdQuota) {
+          aiLogger.info(
+            { userId, householdId: household?.id, used, quota: householdQuota },
+            "Household AI quota exceeded"
+          );
+
+          return aiError(getErrorMessage("QUOTA_EXCEEDED"), "QUOTA_EXCEEDED");
+        }
+      }
+    }
+  } catch (error) {
+    aiLogger.warn({ err: error, userId }, "Could not check AI quota, allowing request");
+  }
+
+  return null;
+}
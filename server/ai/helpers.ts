@@ -10,6 +10,8 @@ export function normalizeIngredient(i: any, system: MeasurementSystem) {
     amount: i.amount == null ? null : Number(i.amount),
     unit: i.unit ? String(i.unit).trim() : null,
     systemUsed: system,
+    section: i.section ? String(i.section).trim() : null,
+    linkedRecipeId: i.linkedRecipeId ?? null,
   };
 }
 
@@ -18,6 +20,9 @@ export function normalizeStep(s: any, system: MeasurementSystem) {
     step: String(s.step || "").trim(),
     order: s.order ?? 0,
     systemUsed: system,
+    section: s.section ? String(s.section).trim() : null,
+    // Left out when unknown, so the steps repository matches ingredients itself
+    ...(s.ingredientOrders !== undefined && { ingredientOrders: s.ingredientOrders }),
   };
 }
 
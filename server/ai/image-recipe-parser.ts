@@ -3,9 +3,7 @@ import type { FullRecipeInsertDTO } from "@/types/dto/recipe";
 
 import { randomUUID } from "crypto";
 
-import { generateText, Output } from "ai";
-
-import { getModels, getGenerationSettings } from "./providers";
+import { execute } from "./core/executor";
 import { recipeExtractionSchema, type RecipeExtractionOutput } from "./schemas/recipe.schema";
 import { aiSuccess, aiError, mapErrorToCode, getErrorMessage, type AIResult } from "./types/result";
 import { buildImageExtractionPrompt } from "./prompts/builder";
@@ -21,36 +19,18 @@ import { aiLogger } from "@/server/logger";
 // Re-export type for consumers
 export type { RecipeExtractionOutput };
 
-/**
- * Build message content parts including text prompt and images.
- */
-function buildImageMessageContent(prompt: string, files: ImageImportFile[]) {
-  const content: Array<
-    { type: "text"; text: string } | { type: "image"; image: string; mediaType: string }
-  > = [{ type: "text", text: prompt }];
-
-  // Add each image as a content part
-  for (const file of files) {
-    content.push({
-      type: "image",
-      image: file.data, // base64 encoded data
-      mediaType: file.mimeType,
-    });
-  }
-
-  return content;
-}
-
 /**
  * Extract recipe from images using AI vision models.
  *
  * @param files - Array of image files (base64 encoded)
  * @param allergies - Optional list of allergens to detect
+ * @param userId - User the import runs for, for usage tracking and quotas
  * @returns AIResult with extracted recipe or error
  */
 export async function extractRecipeFromImages(
   files: ImageImportFile[],
-  allergies?: string[]
+  allergies?: string[],
+  userId?: string
 ): Promise<AIResult<FullRecipeInsertDTO>> {
   // Guard: AI must be enabled
   const aiEnabled = await isAIEnabled();
@@ -70,35 +50,28 @@ export async function extractRecipeFromImages(
   aiLogger.info({ fileCount: files.length }, "Starting AI image recipe extraction");
 
   try {
-    const { visionModel, providerName } = await getModels();
-    const settings = await getGenerationSettings();
-
     // Build prompt using shared builder
     const prompt = await buildImageExtractionPrompt(allergies);
 
     aiLogger.debug(
-      { fileCount: files.length, filenames: files.map((f) => f.filename), provider: providerName },
+      { fileCount: files.length, filenames: files.map((f) => f.filename) },
       "Sending images to AI vision provider"
     );
 
-    // Build messages with image content parts
-    const messages = [
-      {
-        role: "user" as const,
-        content: buildImageMessageContent(prompt, files),
-      },
-    ];
-
-    const result = await generateText({
-      model: visionModel,
-      output: Output.object({ schema: recipeExtractionSchema }),
-      messages,
-      system:
+    const result = await execute({
+      schema: recipeExtractionSchema,
+      prompt,
+      systemMessage:
         "You extract recipe data from images as JSON-LD with both metric and US measurements. Return valid JSON only.",
-      ...settings,
+      useVisionModel: true,
+      images: files,
+      feature: "image_extraction",
+      userId,
     });
 
-    const jsonLd = result.output;
+    if (!result.success) return result;
+
+    const jsonLd = result.data;
 
     // Validate extraction output
     const validation = validateExtractionOutput(jsonLd);
@@ -128,11 +101,7 @@ export async function extractRecipeFromImages(
       "AI image recipe extraction completed"
     );
 
-    return aiSuccess(normalized, {
-      inputTokens: result.usage?.inputTokens ?? 0,
-      outputTokens: result.usage?.outputTokens ?? 0,
-      totalTokens: result.usage?.totalTokens ?? 0,
-    });
+    return aiSuccess(normalized, result.usage);
   } catch (error) {
     const code = mapErrorToCode(error);
     const message = getErrorMessage(code, error instanceof Error ? error.message : undefined);
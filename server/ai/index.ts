@@ -11,6 +11,7 @@
  *   execute,
  *   executeText,
  *   executeVision,
+ *   executeRequest,
  *
  *   // Guards
  *   isAIEnabled,
@@ -34,8 +35,9 @@
 // Core - Executor, guards, and types
 // ============================================================================
 
-export { execute, executeText, executeVision } from "./core/executor";
+export { execute, executeText, executeVision, executeRequest } from "./core/executor";
 export { isAIEnabled, requireAI, requireAIOrThrow } from "./core/guards";
+export { recordAIUsage, requireAIQuota, getQuotaPeriodStart } from "./core/usage";
 export {
   aiSuccess,
   aiError,
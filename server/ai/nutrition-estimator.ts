@@ -1,6 +1,4 @@
-import { generateText, Output } from "ai";
-
-import { getModels, getGenerationSettings } from "./providers";
+import { execute } from "./core/executor";
 import { nutritionEstimationSchema, type NutritionEstimate } from "./schemas/nutrition.schema";
 import { loadPrompt, fillPrompt } from "./prompts/loader";
 import { aiSuccess, aiError, mapErrorToCode, getErrorMessage, type AIResult } from "./types/result";
@@ -50,7 +48,8 @@ async function buildNutritionPrompt(
 export async function estimateNutritionFromIngredients(
   recipeName: string,
   servings: number,
-  ingredients: IngredientForEstimation[]
+  ingredients: IngredientForEstimation[],
+  userId?: string
 ): Promise<AIResult<NutritionEstimate>> {
   // Guard: AI must be enabled
   const aiEnabled = await isAIEnabled();
@@ -73,36 +72,25 @@ export async function estimateNutritionFromIngredients(
   );
 
   try {
-    const { model, providerName } = await getModels();
-    const settings = await getGenerationSettings();
     const prompt = await buildNutritionPrompt(recipeName, servings, ingredients);
 
-    aiLogger.debug({ provider: providerName, prompt }, "Sending nutrition estimation prompt to AI");
+    aiLogger.debug({ prompt }, "Sending nutrition estimation prompt to AI");
 
-    const result = await generateText({
-      model,
-      output: Output.object({ schema: nutritionEstimationSchema }),
+    const result = await execute({
+      schema: nutritionEstimationSchema,
       prompt,
-      system:
+      systemMessage:
         "Estimate nutritional values for this recipe based on the ingredients. Return accurate per-serving values.",
-      ...settings,
+      feature: "nutrition_estimation",
+      userId,
     });
 
-    const output = result.output;
+    if (!result.success) return result;
 
-    if (!output) {
-      aiLogger.error({ recipeName }, "AI returned empty output for nutrition estimation");
-
-      return aiError("AI returned empty response", "EMPTY_RESPONSE");
-    }
+    const output = result.data;
 
     // Validate the response has reasonable values
-    if (
-      typeof output.calories !== "number" ||
-      typeof output.fat !== "number" ||
-      typeof output.carbs !== "number" ||
-      typeof output.protein !== "number"
-    ) {
+    if (Object.values(output).some((value) => typeof value !== "number")) {
       aiLogger.error({ recipeName, output }, "Invalid nutrition estimation response");
 
       return aiError("AI response missing required fields", "VALIDATION_ERROR");
@@ -115,15 +103,12 @@ export async function estimateNutritionFromIngredients(
         fat: output.fat,
         carbs: output.carbs,
         protein: output.protein,
+        sodium: output.sodium,
       },
       "Nutrition estimation completed"
     );
 
-    return aiSuccess(output, {
-      inputTokens: result.usage?.inputTokens ?? 0,
-      outputTokens: result.usage?.outputTokens ?? 0,
-      totalTokens: result.usage?.totalTokens ?? 0,
-    });
+    return aiSuccess(output, result.usage);
   } catch (error) {
     const code = mapErrorToCode(error);
     const message = getErrorMessage(code, error instanceof Error ? error.message : undefined);
@@ -1,8 +1,6 @@
 import type { FullRecipeInsertDTO } from "@/types/dto/recipe";
 
-import { generateText, Output } from "ai";
-
-import { getModels, getGenerationSettings } from "./providers";
+import { execute } from "./core/executor";
 import { recipeExtractionSchema, type RecipeExtractionOutput } from "./schemas/recipe.schema";
 import { extractImageCandidates, extractSanitizedBody } from "./helpers";
 import { aiSuccess, aiError, mapErrorToCode, getErrorMessage, type AIResult } from "./types/result";
@@ -25,13 +23,15 @@ export type { RecipeExtractionOutput };
  * @param html - The HTML content to extract recipe from.
  * @param url - Optional source URL of the recipe.
  * @param allergies - Optional list of allergens to detect.
+ * @param userId - User the import runs for, for usage tracking and quotas.
  * @returns AIResult with extracted recipe or error.
  */
 export async function extractRecipeWithAI(
   html: string,
   recipeId: string,
   url?: string,
-  allergies?: string[]
+  allergies?: string[],
+  userId?: string
 ): Promise<AIResult<FullRecipeInsertDTO>> {
   // Guard: AI must be enabled
   const aiEnabled = await isAIEnabled();
@@ -45,9 +45,6 @@ export async function extractRecipeWithAI(
   aiLogger.info({ url }, "Starting AI recipe extraction");
 
   try {
-    const { model, providerName } = await getModels();
-    const settings = await getGenerationSettings();
-
     // Sanitize and truncate HTML content
     const sanitized = extractSanitizedBody(html);
     const truncated = sanitized.slice(0, 50000);
@@ -59,21 +56,20 @@ export async function extractRecipeWithAI(
       strictAllergyDetection: true, // Use strict mode for HTML extraction
     });
 
-    aiLogger.debug(
-      { url, promptLength: prompt.length, provider: providerName },
-      "Sending prompt to AI provider"
-    );
+    aiLogger.debug({ url, promptLength: prompt.length }, "Sending prompt to AI provider");
 
-    const result = await generateText({
-      model,
-      output: Output.object({ schema: recipeExtractionSchema }),
+    const result = await execute({
+      schema: recipeExtractionSchema,
       prompt,
-      system:
+      systemMessage:
         "You extract recipe data as JSON-LD with both metric and US measurements. Return valid JSON only.",
-      ...settings,
+      feature: "recipe_extraction",
+      userId,
     });
 
-    const jsonLd = result.output;
+    if (!result.success) return result;
+
+    const jsonLd = result.data;
 
     // Validate extraction output
     const validation = validateExtractionOutput(jsonLd);
@@ -107,11 +103,7 @@ export async function extractRecipeWithAI(
       "AI recipe extraction completed"
     );
 
-    return aiSuccess(normalized, {
-      inputTokens: result.usage?.inputTokens ?? 0,
-      outputTokens: result.usage?.outputTokens ?? 0,
-      totalTokens: result.usage?.totalTokens ?? 0,
-    });
+    return aiSuccess(normalized, result.usage);
   } catch (error) {
     const code = mapErrorToCode(error);
     const message = getErrorMessage(code, error instanceof Error ? error.message : undefined);
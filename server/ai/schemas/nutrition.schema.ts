@@ -14,6 +14,13 @@ export const nutritionEstimationSchema = z
     fat: z.number().describe("Estimated fat per serving in grams"),
     carbs: z.number().describe("Estimated carbohydrates per serving in grams"),
     protein: z.number().describe("Estimated protein per serving in grams"),
+    fiber: z.number().describe("Estimated dietary fiber per serving in grams"),
+    sugar: z.number().describe("Estimated sugars per serving in grams"),
+    saturatedFat: z
+      .number()
+      .describe("Estimated saturated fat per serving in grams, part of the total fat"),
+    sodium: z.number().describe("Estimated sodium per serving in milligrams"),
+    cholesterol: z.number().describe("Estimated cholesterol per serving in milligrams"),
   })
   .strict();
 
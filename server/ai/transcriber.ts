@@ -27,6 +27,7 @@ import { createAzure } from "@ai-sdk/azure";
 import OpenAI from "openai";
 
 import { aiSuccess, aiError, mapErrorToCode, getErrorMessage } from "./types/result";
+import { executeRequest } from "./core/executor";
 
 import { getVideoConfig, getAIConfig } from "@/config/server-config-loader";
 import { aiLogger } from "@/server/logger";
@@ -287,6 +288,39 @@ async function transcribeWithOllama(
   return validateTranscript(result.response);
 }
 
+/**
+ * Dispatch to the provider-specific transcription implementation.
+ */
+async function transcribeWithProvider(
+  provider: TranscriptionProvider,
+  audioPath: string,
+  apiKey: string,
+  model: string,
+  endpoint?: string
+): Promise<AIResult<string>> {
+  switch (provider) {
+    case "openai":
+      return await transcribeWithOpenAI(audioPath, apiKey, model);
+
+    case "groq":
+      return await transcribeWithGroq(audioPath, apiKey, model);
+
+    case "azure":
+      return await transcribeWithAzure(audioPath, apiKey, model, endpoint);
+
+    case "generic-openai":
+      // API key is optional for local models (faster-whisper-server, LocalAI, etc.)
+      return await transcribeWithGenericOpenAI(audioPath, apiKey, model, endpoint);
+
+    case "ollama":
+      // Ollama uses native API with input_audio, no API key needed
+      return await transcribeWithOllama(audioPath, model, endpoint);
+
+    default:
+      return aiError(`Unknown transcription provider: ${provider}`, "PROVIDER_ERROR");
+  }
+}
+
 // ============================================================================
 // Main Entry Point
 // ============================================================================
@@ -295,9 +329,13 @@ async function transcribeWithOllama(
  * Transcribe an audio file to text.
  *
  * @param audioPath - Path to the audio file to transcribe.
+ * @param userId - User the import runs for, for usage tracking and quotas.
  * @returns AIResult with the transcribed text on success, or error details on failure.
  */
-export async function transcribeAudio(audioPath: string): Promise<AIResult<string>> {
+export async function transcribeAudio(
+  audioPath: string,
+  userId?: string
+): Promise<AIResult<string>> {
   try {
     const [videoConfig, aiConfig] = await Promise.all([getVideoConfig(true), getAIConfig(true)]);
 
@@ -327,27 +365,9 @@ export async function transcribeAudio(audioPath: string): Promise<AIResult<strin
       );
     }
 
-    switch (provider) {
-      case "openai":
-        return await transcribeWithOpenAI(audioPath, apiKey, model);
-
-      case "groq":
-        return await transcribeWithGroq(audioPath, apiKey, model);
-
-      case "azure":
-        return await transcribeWithAzure(audioPath, apiKey, model, endpoint);
-
-      case "generic-openai":
-        // API key is optional for local models (faster-whisper-server, LocalAI, etc.)
-        return await transcribeWithGenericOpenAI(audioPath, apiKey, model, endpoint);
-
-      case "ollama":
-        // Ollama uses native API with input_audio, no API key needed
-        return await transcribeWithOllama(audioPath, model, endpoint);
-
-      default:
-        return aiError(`Unknown transcription provider: ${provider}`, "PROVIDER_ERROR");
-    }
+    return await executeRequest({ feature: "transcription", userId, provider, model }, () =>
+      transcribeWithProvider(provider, audioPath, apiKey, model, endpoint)
+    );
   } catch (error: unknown) {
     aiLogger.error({ err: error }, "Transcription failed");
 
@@ -23,6 +23,7 @@ export type AIErrorCode =
   | "NETWORK_ERROR"
   | "TIMEOUT"
   | "INVALID_INPUT"
+  | "QUOTA_EXCEEDED"
   | "UNKNOWN";
 
 /**
@@ -107,6 +108,8 @@ export function getErrorMessage(code: AIErrorCode, originalMessage?: string): st
       return "AI returned an empty response. Try again or check your prompt.";
     case "INVALID_INPUT":
       return originalMessage || "Invalid input provided.";
+    case "QUOTA_EXCEEDED":
+      return "Monthly AI quota reached. AI features are available again next month.";
     case "PROVIDER_ERROR":
       return originalMessage || "AI provider returned an error.";
     default:
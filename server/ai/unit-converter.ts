@@ -1,9 +1,7 @@
 import type { FullRecipeDTO, MeasurementSystem } from "@/types";
 
-import { generateText, Output } from "ai";
-
 import { normalizeIngredient, normalizeStep } from "./helpers";
-import { getModels, getGenerationSettings } from "./providers";
+import { execute } from "./core/executor";
 import { conversionSchema, type ConversionOutput } from "./schemas/conversion.schema";
 import { loadPrompt, fillPrompt } from "./prompts/loader";
 import { aiSuccess, aiError, mapErrorToCode, getErrorMessage, type AIResult } from "./types/result";
@@ -20,6 +18,17 @@ export interface ConversionResult {
   steps: ReturnType<typeof normalizeStep>[];
 }
 
+/**
+ * The AI keeps the order of ingredients and steps but not their sections and links,
+ * so converted rows take those from the source row with the same order
+ */
+function sourceRowsByOrder<T extends { order: number; systemUsed: string }>(
+  items: T[],
+  system: MeasurementSystem
+): Map<number, T> {
+  return new Map(items.filter((i) => i.systemUsed === system).map((i) => [i.order, i]));
+}
+
 async function buildConversionPrompt(
   sourceSystem: MeasurementSystem,
   targetSystem: MeasurementSystem,
@@ -52,7 +61,8 @@ ${JSON.stringify({ ingredients, steps }, null, 2)}`;
 
 export async function convertRecipeDataWithAI(
   recipe: FullRecipeDTO,
-  targetSystem: MeasurementSystem
+  targetSystem: MeasurementSystem,
+  userId?: string
 ): Promise<AIResult<ConversionResult>> {
   const sourceSystem = recipe.systemUsed;
 
@@ -81,38 +91,29 @@ export async function convertRecipeDataWithAI(
   }
 
   try {
-    const { model, providerName } = await getModels();
-    const settings = await getGenerationSettings();
     const prompt = await buildConversionPrompt(sourceSystem, targetSystem, recipe);
 
     aiLogger.debug(
       {
         recipeId: recipe.id,
-        provider: providerName,
         ingredientCount: recipe.recipeIngredients.length,
         stepCount: recipe.steps.length,
       },
       "Sending conversion request to AI"
     );
 
-    const result = await generateText({
-      model,
-      output: Output.object({ schema: conversionSchema }),
+    const result = await execute({
+      schema: conversionSchema,
       prompt,
-      system: "Convert recipe measurements between metric and US systems. Return valid JSON only.",
-      ...settings,
+      systemMessage:
+        "Convert recipe measurements between metric and US systems. Return valid JSON only.",
+      feature: "unit_conversion",
+      userId,
     });
 
-    const output = result.output;
-
-    if (!output) {
-      aiLogger.error(
-        { recipeName: recipe.name, sourceSystem, targetSystem },
-        "AI returned empty output for recipe conversion"
-      );
+    if (!result.success) return result;
 
-      return aiError("AI returned empty response", "EMPTY_RESPONSE");
-    }
+    const output = result.data;
 
     aiLogger.debug(
       {
@@ -124,9 +125,22 @@ export async function convertRecipeDataWithAI(
     );
 
     // Validate the converted data against our schemas
-    const ingredientsWithId = output.ingredients.map((i) => ({ ...i, ingredientId: "" }));
+    const sourceIngredients = sourceRowsByOrder(recipe.recipeIngredients, sourceSystem);
+    const sourceSteps = sourceRowsByOrder(recipe.steps, sourceSystem);
+    const ingredientsWithId = output.ingredients.map((i) => ({
+      ...i,
+      ingredientId: "",
+      section: sourceIngredients.get(i.order)?.section ?? null,
+      linkedRecipeId: sourceIngredients.get(i.order)?.linkedRecipeId ?? null,
+    }));
     const validatedIngredients = RecipeIngredientInputSchema.array().safeParse(ingredientsWithId);
-    const validatedSteps = StepStepSchema.array().safeParse(output.steps);
+    const validatedSteps = StepStepSchema.array().safeParse(
+      output.steps.map((s) => ({
+        ...s,
+        section: sourceSteps.get(s.order)?.section ?? null,
+        ingredientOrders: sourceSteps.get(s.order)?.ingredientOrders ?? null,
+      }))
+    );
 
     if (!validatedIngredients.success) {
       aiLogger.error(
@@ -156,11 +170,7 @@ export async function convertRecipeDataWithAI(
         ingredients: validatedIngredients.data.map((i) => normalizeIngredient(i, targetSystem)),
         steps: validatedSteps.data.map((s) => normalizeStep(s, targetSystem)),
       },
-      {
-        inputTokens: result.usage?.inputTokens ?? 0,
-        outputTokens: result.usage?.outputTokens ?? 0,
-        totalTokens: result.usage?.totalTokens ?? 0,
-      }
+      result.usage
     );
   } catch (error) {
     const code = mapErrorToCode(error);
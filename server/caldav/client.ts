@@ -4,16 +4,23 @@ import type {
   CalDavClientOptions,
   ConnectionTestResult,
   CalDavCalendarInfo,
+  CalDavRemoteEvent,
 } from "@/types/dto/caldav";
 
 import { DAVClient, DAVCalendar } from "tsdav";
 import { v4 as uuidv4 } from "uuid";
 
-import { buildIcs } from "./ics-helpers";
+import { buildIcs, parseIcsEvent } from "./ics-helpers";
 
 import { createLogger } from "@/server/logger";
 
-export type { CreateEventInput, CreatedEvent, CalDavClientOptions, ConnectionTestResult };
+export type {
+  CreateEventInput,
+  CreatedEvent,
+  CalDavClientOptions,
+  ConnectionTestResult,
+  CalDavRemoteEvent,
+};
 
 const log = createLogger("caldav-client");
 
@@ -160,6 +167,10 @@ export class CalDavClient {
     }));
   }
 
+  /**
+   * Create an event. When input.uid is given the event is written in place,
+   * replacing an existing event with the same UID so it keeps its identity across edits.
+   */
   async createEvent(input: CreateEventInput): Promise<CreatedEvent> {
     if (input.end <= input.start) {
       throw new Error("createEvent: end must be after start");
@@ -180,6 +191,7 @@ export class CalDavClient {
       calendar: targetCalendar,
       iCalString: ics,
       filename,
+      headersToExclude: input.uid ? ["If-None-Match"] : undefined,
     });
 
     if (!response.ok) {
@@ -212,6 +224,76 @@ export class CalDavClient {
     };
   }
 
+  /**
+   * Current ctag of the target calendar. Changes whenever any event in the calendar changes.
+   * Returns undefined when the server does not support ctags.
+   */
+  async getCalendarCtag(): Promise<string | undefined> {
+    const targetCalendar = await this.getTargetCalendar();
+
+    return targetCalendar.ctag ?? undefined;
+  }
+
+  /**
+   * Fetch events in a time range from the target calendar (calendar-query REPORT).
+   * Objects that cannot be parsed as a VEVENT are skipped; floating times are read in `timeZone`.
+   */
+  async fetchEvents(range: {
+    start: Date;
+    end: Date;
+    timeZone?: string;
+  }): Promise<CalDavRemoteEvent[]> {
+    const targetCalendar = await this.getTargetCalendar();
+
+    const objects = await this.client.fetchCalendarObjects({
+      calendar: targetCalendar,
+      timeRange: { start: range.start.toISOString(), end: range.end.toISOString() },
+    });
+
+    const events: CalDavRemoteEvent[] = [];
+
+    for (const obj of objects) {
+      const parsed = typeof obj.data === "string" ? parseIcsEvent(obj.data, range.timeZone) : null;
+
+      if (!parsed) continue;
+
+      // tsdav stringifies a missing etag
+      const etag = obj.etag && obj.etag !== "undefined" ? obj.etag : undefined;
+
+      events.push({ ...parsed, href: obj.url, etag });
+    }
+
+    log.debug(
+      { calendarUrl: targetCalendar.url, objects: objects.length, events: events.length },
+      "Fetched CalDAV events"
+    );
+
+    return events;
+  }
+
+  /**
+   * Whether an event written by Norish is still in the target calendar, looked up by the
+   * resource it was created at. Only a 404 counts as gone; other failures throw.
+   */
+  async eventExists(eventUid: string): Promise<boolean> {
+    const targetCalendar = await this.getTargetCalendar();
+    const href = `${targetCalendar.url}${eventUid}.ics`;
+    const credentials = Buffer.from(`${this.username}:${this.password}`).toString("base64");
+
+    const response = await fetch(href, {
+      method: "GET",
+      headers: { Authorization: `Basic ${credentials}` },
+    });
+
+    if (response.status === 404) return false;
+
+    if (!response.ok) {
+      throw new Error(`CalDAV event lookup failed ${response.status}`);
+    }
+
+    return true;
+  }
+
   async deleteEvent(eventUid: string): Promise<void> {
     const targetCalendar = await this.getTargetCalendar();
 
@@ -63,7 +63,8 @@ async function queueSyncJob(
   eventTitle: string,
   date: string,
   slot: Slot,
-  recipeId?: string
+  recipeId?: string,
+  servings?: number | null
 ): Promise<void> {
   const caldavServerUrl = await getCaldavServerUrl(userId);
 
@@ -82,6 +83,7 @@ async function queueSyncJob(
     date,
     slot,
     recipeId,
+    servings,
     operation: "sync",
     caldavServerUrl,
   });
@@ -116,11 +118,11 @@ async function startCalendarSubscriptions(signal: AbortSignal): Promise<void> {
       "globalRecipePlanned",
       signal,
       async (data: CalendarSubscriptionEvents["globalRecipePlanned"]) => {
-        const { id, recipeId, recipeName, date, slot, userId } = data;
+        const { id, recipeId, recipeName, date, slot, servings, userId } = data;
 
         log.debug({ id, recipeId, userId }, "Recipe planned - queuing CalDAV sync");
         try {
-          await queueSyncJob(userId, id, "recipe", id, recipeName, date, slot, recipeId);
+          await queueSyncJob(userId, id, "recipe", id, recipeName, date, slot, recipeId, servings);
         } catch (error) {
           log.error({ err: error, id, userId }, "Failed to queue CalDAV sync for planned recipe");
         }
@@ -147,7 +149,7 @@ async function startCalendarSubscriptions(signal: AbortSignal): Promise<void> {
       "globalRecipeUpdated",
       signal,
       async (data: CalendarSubscriptionEvents["globalRecipeUpdated"]) => {
-        const { id, recipeId, recipeName, newDate, slot, userId } = data;
+        const { id, recipeId, recipeName, newDate, slot, servings, userId } = data;
 
         log.debug({ id, userId, newDate }, "Recipe updated - queuing CalDAV sync");
         try {
@@ -158,7 +160,17 @@ async function startCalendarSubscriptions(signal: AbortSignal): Promise<void> {
 
             return;
           }
-          await queueSyncJob(userId, id, "recipe", id, recipeName, newDate, slot, recipeId);
+          await queueSyncJob(
+            userId,
+            id,
+            "recipe",
+            id,
+            recipeName,
+            newDate,
+            slot,
+            recipeId,
+            servings
+          );
         } catch (error) {
           log.error({ err: error, id, userId }, "Failed to queue CalDAV sync for recipe update");
         }
@@ -264,7 +276,8 @@ async function startRecipeSubscriptions(signal: AbortSignal): Promise<void> {
             newName,
             planned.date,
             planned.slot as Slot,
-            recipeId
+            recipeId,
+            planned.servings ?? recipe.servings
           );
         }
         log.info(
@@ -325,7 +338,8 @@ export async function syncAllFutureItems(userId: string): Promise<{
           recipe.name,
           planned.date,
           planned.slot as Slot,
-          planned.recipeId
+          planned.recipeId,
+          planned.servings ?? recipe.servings
         );
         totalSynced++;
       } catch (error) {
@@ -413,7 +427,8 @@ export async function retryFailedSyncs(userId: string): Promise<{
             recipe.name,
             planned.date,
             planned.slot as Slot,
-            planned.recipeId
+            planned.recipeId,
+            planned.servings ?? recipe.servings
           );
         } else {
           // Note
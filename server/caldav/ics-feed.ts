@@ -0,0 +1,122 @@
+import type { CalendarFeedDto, Slot } from "@/types";
+
+import { addDays, format } from "date-fns";
+
+import { buildIcsCalendar } from "./ics-helpers";
+import {
+  buildEventDescription,
+  getEventTimeRange,
+  getMealSlotTimes,
+  type SlotTimeConfig,
+} from "./sync-manager";
+import { DEFAULT_TIMEZONE } from "./timezone";
+
+import { getCaldavConfigByUserId } from "@/server/db/repositories/caldav-config";
+import { listPlannedRecipesByUsersAndRange } from "@/server/db/repositories/planned-recipe";
+import { listNotesByUsersAndRange } from "@/server/db/repositories/notes";
+import { getCachedHouseholdForUser } from "@/server/db/cached-household";
+
+// Rolling window rendered into the feed
+const FEED_PAST_DAYS = 14;
+const FEED_FUTURE_DAYS = 90;
+
+// Same defaults as user_caldav_config, for users who never configured CalDAV
+const DEFAULT_SLOT_TIMES = {
+  breakfastTime: "08:00-09:00",
+  lunchTime: "12:00-13:00",
+  dinnerTime: "18:00-19:00",
+  snackTime: "15:00-15:30",
+  timezone: DEFAULT_TIMEZONE,
+};
+
+export interface CalendarFeedItem {
+  id: string;
+  itemType: "recipe" | "note";
+  title: string;
+  date: string;
+  slot: Slot;
+  recipeId?: string | null;
+  servings?: number | null;
+}
+
+/**
+ * Render feed items as an iCalendar document.
+ * UIDs are derived from the item id so calendar apps update events in place between refreshes.
+ */
+export function renderFeedItems(
+  items: CalendarFeedItem[],
+  slotTimes: SlotTimeConfig,
+  name: string
+): string {
+  const baseUrl = process.env.AUTH_URL || "http://localhost:3000";
+  const events = items.map((item) => {
+    const { start, end } = getEventTimeRange(item.date, item.slot, slotTimes);
+
+    return {
+      uid: `norish-${item.itemType}-${item.id}`,
+      summary: item.title,
+      description: buildEventDescription(item.servings),
+      start,
+      end,
+      url: item.recipeId ? `${baseUrl}/recipes/${item.recipeId}` : undefined,
+    };
+  });
+
+  return buildIcsCalendar(events, name, slotTimes.timezone);
+}
+
+/**
+ * Build the ICS document for a feed: the owner's plan, or the whole household's for household feeds.
+ */
+export async function renderCalendarFeed(feed: CalendarFeedDto): Promise<string> {
+  const household =
+    feed.scope === "household" ? await getCachedHouseholdForUser(feed.userId) : null;
+  const userIds = [...new Set([feed.userId, ...(household?.users.map((u) => u.id) ?? [])])];
+
+  const today = new Date();
+  const startISO = format(addDays(today, -FEED_PAST_DAYS), "yyyy-MM-dd");
+  const endISO = format(addDays(today, FEED_FUTURE_DAYS), "yyyy-MM-dd");
+
+  const [plannedRecipes, notes, config, customSlotTimes] = await Promise.all([
+    listPlannedRecipesByUsersAndRange(userIds, startISO, endISO),
+    listNotesByUsersAndRange(userIds, startISO, endISO),
+    getCaldavConfigByUserId(feed.userId),
+    getMealSlotTimes(feed.userId),
+  ]);
+
+  const items: CalendarFeedItem[] = [
+    ...plannedRecipes.map((p) => ({
+      id: p.id,
+      itemType: "recipe" as const,
+      title: p.recipeName ?? "Recipe",
+      date: p.date,
+      slot: p.slot as Slot,
+      recipeId: p.recipeId,
+      servings: p.servings ?? p.recipeServings,
+    })),
+    ...notes.map((n) => ({
+      id: n.id,
+      itemType: "note" as const,
+      title: n.title,
+      date: n.date,
+      slot: n.slot as Slot,
+      recipeId: n.recipeId,
+    })),
+  ];
+
+  const slotTimes: SlotTimeConfig = {
+    ...(config
+      ? {
+          breakfastTime: config.breakfastTime,
+          lunchTime: config.lunchTime,
+          dinnerTime: config.dinnerTime,
+          snackTime: config.snackTime,
+          timezone: config.timezone,
+        }
+      : DEFAULT_SLOT_TIMES),
+    customSlotTimes,
+  };
+  const name = household ? `Norish - ${household.name}` : "Norish";
+
+  return renderFeedItems(items, slotTimes, name);
+}
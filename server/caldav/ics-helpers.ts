@@ -1,5 +1,13 @@
 import type { CreateEventInput } from "@/types/dto/caldav";
 
+import {
+  buildVtimezone,
+  formatDateLocal,
+  isUtcTimeZone,
+  isValidTimeZone,
+  zonedTimeToUtc,
+} from "./timezone";
+
 /** Format date as UTC in basic format per RFC5545 (YYYYMMDDTHHMMSSZ) */
 export function formatDateUTC(d: Date): string {
   const yyyy = d.getUTCFullYear();
@@ -23,29 +31,187 @@ export function escapeText(value: string | undefined): string | undefined {
     .replace(/\r?\n/g, "\\n");
 }
 
-export function buildIcs(
-  data: Required<Pick<CreateEventInput, "summary" | "start" | "end" | "uid">> &
-    Omit<CreateEventInput, "summary" | "start" | "end" | "uid">
-): string {
-  const now = new Date();
+type IcsEventData = Required<Pick<CreateEventInput, "summary" | "start" | "end" | "uid">> &
+  Omit<CreateEventInput, "summary" | "start" | "end" | "uid">;
+
+/** DTSTART/DTEND property, as local time with TZID when a non-UTC timezone is set */
+function formatDateProperty(name: string, d: Date, timeZone: string | undefined): string {
+  return isUtcTimeZone(timeZone)
+    ? `${name}:${formatDateUTC(d)}`
+    : `${name};TZID=${timeZone}:${formatDateLocal(d, timeZone!)}`;
+}
+
+function buildVeventLines(data: IcsEventData, now: Date): string[] {
   const lines: string[] = [
-    "BEGIN:VCALENDAR",
-    "PRODID:-//Norish//CalDavClient//EN",
-    "VERSION:2.0",
-    "CALSCALE:GREGORIAN",
-    "METHOD:PUBLISH",
     "BEGIN:VEVENT",
     `UID:${data.uid}`,
     `DTSTAMP:${formatDateUTC(now)}`,
-    `DTSTART:${formatDateUTC(data.start)}`,
-    `DTEND:${formatDateUTC(data.end)}`,
+    formatDateProperty("DTSTART", data.start, data.timeZone),
+    formatDateProperty("DTEND", data.end, data.timeZone),
     `SUMMARY:${escapeText(data.summary)}`,
   ];
 
   if (data.description) lines.push(`DESCRIPTION:${escapeText(data.description)}`);
   if (data.location) lines.push(`LOCATION:${escapeText(data.location)}`);
   if (data.url) lines.push(`URL:${escapeText(data.url)}`);
-  lines.push("END:VEVENT", "END:VCALENDAR", "");
+  lines.push("END:VEVENT");
+
+  return lines;
+}
+
+export function buildIcs(data: IcsEventData): string {
+  const lines: string[] = [
+    "BEGIN:VCALENDAR",
+    "PRODID:-//Norish//CalDavClient//EN",
+    "VERSION:2.0",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    ...(isUtcTimeZone(data.timeZone) ? [] : buildVtimezone(data.timeZone!, data.start, data.end)),
+    ...buildVeventLines(data, new Date()),
+    "END:VCALENDAR",
+    "",
+  ];
+
+  return lines.join("\r\n");
+}
+
+/**
+ * Build a calendar with many events, as served by subscription feeds.
+ * With a non-UTC timezone, all events are written in that zone with a single VTIMEZONE.
+ */
+export function buildIcsCalendar(events: IcsEventData[], name: string, timeZone?: string): string {
+  const now = new Date();
+  const zoned = !isUtcTimeZone(timeZone) && events.length > 0;
+  const rangeStart = new Date(Math.min(...events.map((e) => e.start.getTime())));
+  const rangeEnd = new Date(Math.max(...events.map((e) => e.end.getTime())));
+  const lines: string[] = [
+    "BEGIN:VCALENDAR",
+    "PRODID:-//Norish//CalendarFeed//EN",
+    "VERSION:2.0",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(name)}`,
+    ...(isUtcTimeZone(timeZone) ? [] : [`X-WR-TIMEZONE:${timeZone}`]),
+    "X-PUBLISHED-TTL:PT1H",
+    ...(zoned ? buildVtimezone(timeZone!, rangeStart, rangeEnd) : []),
+    ...events.flatMap((event) => buildVeventLines({ ...event, timeZone }, now)),
+    "END:VCALENDAR",
+    "",
+  ];
 
   return lines.join("\r\n");
 }
+
+export interface ParsedIcsEvent {
+  uid: string;
+  summary?: string;
+  start: Date;
+  end?: Date;
+  allDay: boolean;
+  lastModified?: Date;
+}
+
+/** Unfold RFC5545 content lines (continuation lines start with a space or tab) */
+function unfoldLines(ics: string): string[] {
+  return ics.replace(/\r?\n[ \t]/g, "").split(/\r?\n/);
+}
+
+/** Unescape RFC5545 text values */
+function unescapeText(value: string): string {
+  return value.replace(/\\n/gi, "\n").replace(/\\([,;\\])/g, "$1");
+}
+
+/**
+ * Parse an iCalendar date or date-time value.
+ * UTC values ("Z" suffix) are exact. TZID and floating values are wall-clock times in the given
+ * timezone (unknown zones fall back to UTC). All-day dates are returned as UTC midnight.
+ */
+export function parseIcsDate(
+  value: string,
+  timeZone?: string
+): { date: Date; allDay: boolean } | null {
+  const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/);
+
+  if (!match) return null;
+
+  const [, y, mo, d, h, mi, s, utc] = match;
+  const allDay = h === undefined;
+
+  if (!allDay && !utc && timeZone && isValidTimeZone(timeZone)) {
+    const date = zonedTimeToUtc(`${y}-${mo}-${d}`, `${h}:${mi}`, timeZone);
+
+    return { date: new Date(date.getTime() + Number(s ?? 0) * 1000), allDay };
+  }
+
+  const date = new Date(
+    Date.UTC(Number(y), Number(mo) - 1, Number(d), Number(h ?? 0), Number(mi ?? 0), Number(s ?? 0))
+  );
+
+  return { date, allDay };
+}
+
+/**
+ * Parse the first VEVENT of an iCalendar object.
+ * Floating times are read in `defaultTimeZone`. Returns null when the object has no event
+ * or the event lacks a UID or DTSTART.
+ */
+export function parseIcsEvent(ics: string, defaultTimeZone?: string): ParsedIcsEvent | null {
+  let inEvent = false;
+  let nestedDepth = 0;
+  const props = new Map<string, string>();
+  const tzids = new Map<string, string>();
+
+  for (const line of unfoldLines(ics)) {
+    if (!inEvent) {
+      inEvent = line === "BEGIN:VEVENT";
+      continue;
+    }
+    if (line === "END:VEVENT" && nestedDepth === 0) break;
+
+    // Skip nested components such as VALARM
+    if (line.startsWith("BEGIN:")) {
+      nestedDepth++;
+      continue;
+    }
+    if (line.startsWith("END:")) {
+      nestedDepth--;
+      continue;
+    }
+    if (nestedDepth > 0) continue;
+
+    const colon = line.indexOf(":");
+
+    if (colon === -1) continue;
+
+    // Split off parameters such as ;TZID=... or ;VALUE=DATE
+    const [rawName, ...params] = line.slice(0, colon).split(";");
+    const name = rawName.toUpperCase();
+    const tzid = params.find((p) => p.toUpperCase().startsWith("TZID="));
+
+    props.set(name, line.slice(colon + 1));
+    if (tzid) tzids.set(name, tzid.slice(5).replace(/^"|"$/g, ""));
+  }
+
+  const uid = props.get("UID");
+  const parseProp = (name: string) => {
+    const value = props.get(name);
+
+    return value ? parseIcsDate(value, tzids.get(name) ?? defaultTimeZone) : null;
+  };
+  const start = parseProp("DTSTART");
+
+  if (!uid || !start) return null;
+
+  const end = parseProp("DTEND");
+  const modified = props.get("LAST-MODIFIED") ?? props.get("DTSTAMP");
+  const summary = props.get("SUMMARY");
+
+  return {
+    uid: uid.trim(),
+    summary: summary !== undefined ? unescapeText(summary) : undefined,
+    start: start.date,
+    end: end?.date,
+    allDay: start.allDay,
+    lastModified: modified ? parseIcsDate(modified)?.date : undefined,
+  };
+}
@@ -0,0 +1,376 @@
+import type { Slot } from "@/types";
+import type { CaldavPullItemDto } from "@/types/dto/caldav-sync-status";
+import type { CalDavRemoteEvent } from "@/types/dto/caldav";
+
+import { addDays, format } from "date-fns";
+
+import { CalDavClient } from "./client";
+import { getMealSlotTimes, truncateErrorMessage, type SlotTimeConfig } from "./sync-manager";
+import { retryFailedSyncs } from "./event-listener";
+import { DEFAULT_TIMEZONE, formatZonedDate, getWallTime } from "./timezone";
+
+import {
+  getCaldavConfigByUserId,
+  getCaldavConfigDecrypted,
+  getEnabledCaldavConfigs,
+  updateCaldavPullState,
+} from "@/server/db/repositories/caldav-config";
+import {
+  getCaldavPullItems,
+  updateCaldavSyncStatus,
+} from "@/server/db/repositories/caldav-sync-status";
+import {
+  deletePlannedRecipe,
+  updatePlannedRecipeDate,
+} from "@/server/db/repositories/planned-recipe";
+import { deleteNote, updateNoteDate } from "@/server/db/repositories/notes";
+import { getAllergiesForUsers } from "@/server/db/repositories/user-allergies";
+import { getRecipeTagNames } from "@/server/db/repositories/tags";
+import { getCachedHouseholdForUser } from "@/server/db/cached-household";
+import { calendarEmitter } from "@/server/trpc/routers/calendar/emitter";
+import { createLogger } from "@/server/logger";
+
+const log = createLogger("caldav-pull");
+
+// Events are fetched from a bit further back than local items so an event moved into
+// the recent past is seen as moved rather than deleted
+const FETCH_LOOKBACK_DAYS = 30;
+const FETCH_LOOKAHEAD_DAYS = 730;
+
+export type RemoteChange =
+  | { type: "none" }
+  | { type: "acknowledge" }
+  | { type: "apply"; date: string; slot: Slot; conflict: boolean }
+  | { type: "delete" }
+  | { type: "keepLocal" };
+
+export interface PullResult {
+  skipped: boolean;
+  moved: number;
+  deleted: number;
+  conflicts: number;
+}
+
+function toMinutes(time: string): number {
+  const [h, m] = time.trim().split(":").map(Number);
+
+  return h * 60 + m;
+}
+
+/**
+ * Map an event start time back to a meal slot using the configured slot times,
+ * read as local time in the configured timezone.
+ * An exact start match wins, otherwise the slot whose range contains the time.
+ * Household slot times are checked before the built-in ones.
+ */
+export function getSlotForTime(start: Date, config: SlotTimeConfig): Slot | null {
+  const local = getWallTime(start, config.timezone ?? DEFAULT_TIMEZONE);
+  const minutes = local.hour * 60 + local.minute;
+  const customRanges = Object.entries(config.customSlotTimes ?? {});
+  const ranges: [Slot, string][] = [
+    ...customRanges,
+    ...(
+      [
+        ["Breakfast", config.breakfastTime],
+        ["Lunch", config.lunchTime],
+        ["Dinner", config.dinnerTime],
+        ["Snack", config.snackTime],
+      ] as [Slot, string][]
+    ).filter(([slot]) => !config.customSlotTimes?.[slot]),
+  ];
+
+  const parsed = ranges.map(([slot, range]) => {
+    const [from, to] = range.split("-");
+
+    return { slot, from: toMinutes(from), to: toMinutes(to) };
+  });
+
+  const exact = parsed.find((r) => r.from === minutes);
+
+  if (exact) return exact.slot;
+
+  const containing = parsed.find((r) => minutes >= r.from && minutes < r.to);
+
+  return containing?.slot ?? null;
+}
+
+/**
+ * Decide how to reconcile a local item with its remote event.
+ *
+ * When only the calendar changed, the remote date and slot are applied locally.
+ * When both sides changed since the last sync, the most recent edit wins: the remote
+ * LAST-MODIFIED is compared with the local update time, and local wins if the server
+ * does not report one.
+ */
+export function resolveRemoteChange(
+  item: CaldavPullItemDto,
+  remote: CalDavRemoteEvent | undefined,
+  config: SlotTimeConfig
+): RemoteChange {
+  const localChanged =
+    item.syncStatus === "pending" ||
+    (item.lastSyncAt !== null && item.itemUpdatedAt > item.lastSyncAt);
+
+  if (!remote) {
+    return localChanged ? { type: "keepLocal" } : { type: "delete" };
+  }
+
+  if (remote.etag && remote.etag === item.caldavEtag) {
+    return { type: "none" };
+  }
+
+  // All-day events carry a plain date; timed events land on their local date
+  const date = remote.allDay
+    ? remote.start.toISOString().slice(0, 10)
+    : formatZonedDate(remote.start, config.timezone);
+  const slot = (remote.allDay ? null : getSlotForTime(remote.start, config)) ?? item.slot;
+
+  if (date === item.date && slot === item.slot) {
+    return { type: "acknowledge" };
+  }
+
+  if (!localChanged) {
+    return { type: "apply", date, slot, conflict: false };
+  }
+
+  const remoteIsNewer = !!remote.lastModified && remote.lastModified > item.itemUpdatedAt;
+
+  return remoteIsNewer ? { type: "apply", date, slot, conflict: true } : { type: "keepLocal" };
+}
+
+async function getAllergyWarnings(recipeId: string, userIds: string[]): Promise<string[]> {
+  const allergies = new Set(
+    (await getAllergiesForUsers(userIds)).map((a) => a.tagName.toLowerCase())
+  );
+  const tagNames = await getRecipeTagNames(recipeId);
+
+  return [...new Set(tagNames.map((t) => t.toLowerCase()).filter((t) => allergies.has(t)))];
+}
+
+async function applyRemoteMove(
+  userId: string,
+  householdKey: string,
+  householdUserIds: string[],
+  item: CaldavPullItemDto,
+  date: string,
+  slot: Slot
+): Promise<void> {
+  if (item.itemType === "recipe") {
+    const plannedRecipe = await updatePlannedRecipeDate(item.itemId, date, slot);
+    const allergyWarnings = await getAllergyWarnings(plannedRecipe.recipeId, householdUserIds);
+
+    calendarEmitter.emitToHousehold(householdKey, "recipeUpdated", {
+      plannedRecipe: { ...plannedRecipe, allergyWarnings },
+      oldDate: item.date,
+    });
+  } else {
+    const note = await updateNoteDate(item.itemId, date, slot);
+
+    calendarEmitter.emitToHousehold(householdKey, "noteUpdated", { note, oldDate: item.date });
+  }
+
+  log.info({ userId, itemId: item.itemId, date, slot }, "Applied calendar move from CalDAV");
+}
+
+/**
+ * An event missing from the fetched window is only treated as deleted when the calendar
+ * confirms it is gone. Servers can return partial results, events can sit beyond the window,
+ * and items not pushed since the config was saved may still be in the previous calendar.
+ */
+async function isRemoteDeleteConfirmed(
+  client: CalDavClient,
+  item: CaldavPullItemDto,
+  configSavedAt: Date
+): Promise<boolean> {
+  if (!item.lastSyncAt || item.lastSyncAt < configSavedAt) return false;
+
+  return !(await client.eventExists(item.caldavEventUid));
+}
+
+async function applyRemoteDelete(
+  userId: string,
+  householdKey: string,
+  item: CaldavPullItemDto
+): Promise<void> {
+  if (item.itemType === "recipe") {
+    await deletePlannedRecipe(item.itemId);
+    calendarEmitter.emitToHousehold(householdKey, "recipeDeleted", {
+      plannedRecipeId: item.itemId,
+      date: item.date,
+    });
+  } else {
+    await deleteNote(item.itemId);
+    calendarEmitter.emitToHousehold(householdKey, "noteDeleted", {
+      noteId: item.itemId,
+      date: item.date,
+    });
+  }
+
+  log.info({ userId, itemId: item.itemId }, "Applied calendar delete from CalDAV");
+}
+
+/**
+ * Pull changes made in the user's calendar app back into the meal plan.
+ *
+ * Only events created by Norish are considered (matched by the UIDs in caldav_sync_status).
+ * Household events are emitted for UI updates; global events are not, so applying a remote
+ * change does not trigger another push.
+ */
+export async function pullCaldavChanges(userId: string): Promise<PullResult> {
+  const result: PullResult = { skipped: true, moved: 0, deleted: 0, conflicts: 0 };
+  const rawConfig = await getCaldavConfigByUserId(userId);
+  const config = await getCaldavConfigDecrypted(userId);
+
+  if (!rawConfig || !config || !config.enabled) return result;
+
+  const client = new CalDavClient({
+    serverUrl: config.serverUrl,
+    calendarUrl: config.calendarUrl ?? undefined,
+    username: config.username,
+    password: config.password,
+  });
+
+  const ctag = await client.getCalendarCtag();
+
+  if (ctag && ctag === rawConfig.lastPullCtag) {
+    log.debug({ userId }, "Calendar unchanged since last pull");
+
+    return result;
+  }
+
+  const today = new Date();
+  const fromDate = format(today, "yyyy-MM-dd");
+  const items = await getCaldavPullItems(userId, fromDate);
+  let failed = false;
+
+  if (items.length > 0) {
+    const remoteEvents = await client.fetchEvents({
+      start: addDays(today, -FETCH_LOOKBACK_DAYS),
+      end: addDays(today, FETCH_LOOKAHEAD_DAYS),
+      timeZone: config.timezone,
+    });
+    const remoteByUid = new Map(remoteEvents.map((e) => [e.uid, e]));
+
+    const household = await getCachedHouseholdForUser(userId);
+    const householdKey = household?.id ?? userId;
+    const householdUserIds = [userId, ...(household?.users.map((u) => u.id) ?? [])];
+    const slotTimes = { ...config, customSlotTimes: await getMealSlotTimes(userId) };
+    let needsPush = false;
+
+    for (const item of items) {
+      const remote = remoteByUid.get(item.caldavEventUid);
+      const change = resolveRemoteChange(item, remote, slotTimes);
+
+      try {
+        switch (change.type) {
+          case "none":
+            break;
+
+          case "acknowledge":
+            await updateCaldavSyncStatus(item.id, {
+              caldavEtag: remote?.etag ?? null,
+              lastSyncAt: new Date(),
+            });
+            break;
+
+          case "apply":
+            await applyRemoteMove(
+              userId,
+              householdKey,
+              householdUserIds,
+              item,
+              change.date,
+              change.slot
+            );
+            await updateCaldavSyncStatus(item.id, {
+              syncStatus: "synced",
+              caldavEtag: remote?.etag ?? null,
+              errorMessage: null,
+              lastSyncAt: new Date(),
+            });
+            result.moved++;
+            if (change.conflict) result.conflicts++;
+            break;
+
+          case "delete":
+            if (!(await isRemoteDeleteConfirmed(client, item, rawConfig.updatedAt))) {
+              log.debug(
+                { userId, itemId: item.itemId },
+                "CalDAV event missing from fetched range but not confirmed deleted"
+              );
+              break;
+            }
+
+            await applyRemoteDelete(userId, householdKey, item);
+            await updateCaldavSyncStatus(item.id, {
+              syncStatus: "removed",
+              errorMessage: null,
+              lastSyncAt: new Date(),
+            });
+            result.deleted++;
+            break;
+
+          case "keepLocal":
+            // Local edit wins; push it again so the calendar matches
+            log.info(
+              { userId, itemId: item.itemId },
+              "CalDAV conflict resolved in favour of Norish"
+            );
+            await updateCaldavSyncStatus(item.id, { syncStatus: "pending" });
+            result.conflicts++;
+            needsPush = true;
+            break;
+        }
+      } catch (error) {
+        const errorMessage = truncateErrorMessage(
+          error instanceof Error ? error.message : String(error)
+        );
+
+        log.error({ err: error, userId, itemId: item.itemId }, "Failed to apply CalDAV change");
+        await updateCaldavSyncStatus(item.id, { errorMessage });
+        failed = true;
+      }
+    }
+
+    if (needsPush) {
+      await retryFailedSyncs(userId);
+    }
+  }
+
+  // Without the ctag the next pull fetches again, so failed changes are retried
+  await updateCaldavPullState(userId, failed ? null : (ctag ?? null));
+
+  log.info({ userId, ...result, skipped: false }, "CalDAV pull completed");
+
+  return { ...result, skipped: false };
+}
+
+/**
+ * Pull calendar changes for every user with CalDAV sync enabled.
+ * Failures are logged per user and do not stop the others.
+ */
+export async function pullAllCaldavChanges(): Promise<{
+  users: number;
+  moved: number;
+  deleted: number;
+  conflicts: number;
+  failed: number;
+}> {
+  const configs = await getEnabledCaldavConfigs();
+  const totals = { users: configs.length, moved: 0, deleted: 0, conflicts: 0, failed: 0 };
+
+  for (const { userId } of configs) {
+    try {
+      const result = await pullCaldavChanges(userId);
+
+      totals.moved += result.moved;
+      totals.deleted += result.deleted;
+      totals.conflicts += result.conflicts;
+    } catch (error) {
+      log.error({ err: error, userId }, "CalDAV pull failed");
+      totals.failed++;
+    }
+  }
+
+  return totals;
+}
@@ -1,12 +1,16 @@
 import type { Slot } from "@/types";
 
 import { CalDavClient, type CreateEventInput } from "./client";
+import { zonedTimeToUtc } from "./timezone";
 
 import { getCaldavConfigDecrypted } from "@/server/db/repositories/caldav-config";
 import {
   updateCaldavSyncStatus,
   getCaldavSyncStatusByItemId,
 } from "@/server/db/repositories/caldav-sync-status";
+import { listMealSlots } from "@/server/db/repositories/meal-slots";
+import { getCachedHouseholdForUser } from "@/server/db/cached-household";
+import { FALLBACK_SLOT_TIME, getCustomSlotTimes } from "@/lib/meal-slots";
 
 export function truncateErrorMessage(error: string): string {
   return error.length <= 500 ? error : error.substring(0, 497) + "...";
@@ -18,38 +22,59 @@ function parseTimeRange(timeRange: string): { start: string; end: string } {
   return { start: start.trim(), end: end.trim() };
 }
 
+export type SlotTimeConfig = {
+  breakfastTime: string;
+  lunchTime: string;
+  dinnerTime: string;
+  snackTime: string;
+  timezone?: string;
+  // Time ranges of household meal slots by key; these win over the built-in times
+  customSlotTimes?: Record<string, string>;
+};
+
+/**
+ * Time ranges set on the meal slots of the user's household (or their own slots).
+ */
+export async function getMealSlotTimes(userId: string): Promise<Record<string, string>> {
+  const household = await getCachedHouseholdForUser(userId);
+  const slots = await listMealSlots({ householdId: household?.id ?? null, userId });
+
+  return getCustomSlotTimes(slots);
+}
+
+/**
+ * Start and end of a meal slot on a date. Slot times are wall-clock times in the
+ * configured timezone, so events stay at the same local time across DST changes.
+ */
 export function getEventTimeRange(
   date: string,
   slot: Slot,
-  config: {
-    breakfastTime: string;
-    lunchTime: string;
-    dinnerTime: string;
-    snackTime: string;
-  }
+  config: SlotTimeConfig
 ): { start: Date; end: Date } {
-  const slotTimeMap: Record<Slot, string> = {
+  const slotTimeMap: Record<string, string> = {
     Breakfast: config.breakfastTime,
     Lunch: config.lunchTime,
     Dinner: config.dinnerTime,
     Snack: config.snackTime,
   };
 
-  const timeRange = slotTimeMap[slot];
+  const timeRange = config.customSlotTimes?.[slot] ?? slotTimeMap[slot] ?? FALLBACK_SLOT_TIME;
   const { start: startTime, end: endTime } = parseTimeRange(timeRange);
 
-  const [year, month, day] = date.split("-").map(Number);
-  const [startHour, startMinute] = startTime.split(":").map(Number);
-  const [endHour, endMinute] = endTime.split(":").map(Number);
-
   return {
-    start: new Date(Date.UTC(year, month - 1, day, startHour, startMinute)),
-    end: new Date(Date.UTC(year, month - 1, day, endHour, endMinute)),
+    start: zonedTimeToUtc(date, startTime, config.timezone),
+    end: zonedTimeToUtc(date, endTime, config.timezone),
   };
 }
 
+/** Event description for a planned recipe; notes have none */
+export function buildEventDescription(servings?: number | null): string | undefined {
+  return servings ? `Servings: ${servings}` : undefined;
+}
+
 export interface SyncResult {
   uid: string;
+  etag?: string;
   isNew: boolean;
 }
 
@@ -59,7 +84,8 @@ export async function syncPlannedItem(
   eventTitle: string,
   date: string,
   slot: Slot,
-  recipeId?: string
+  recipeId?: string,
+  servings?: number | null
 ): Promise<SyncResult> {
   const config = await getCaldavConfigDecrypted(userId);
 
@@ -71,11 +97,6 @@ export async function syncPlannedItem(
   const syncStatus = await getCaldavSyncStatusByItemId(userId, itemId);
   const isNew = !syncStatus;
 
-  // If updating and title changed, delete old event first
-  if (syncStatus?.caldavEventUid && syncStatus.eventTitle !== eventTitle) {
-    await deletePlannedItem(userId, itemId);
-  }
-
   const client = new CalDavClient({
     serverUrl: config.serverUrl,
     calendarUrl: config.calendarUrl ?? undefined,
@@ -83,22 +104,27 @@ export async function syncPlannedItem(
     password: config.password,
   });
 
-  const { start, end } = getEventTimeRange(date, slot, config);
+  const customSlotTimes = await getMealSlotTimes(userId);
+  const { start, end } = getEventTimeRange(date, slot, { ...config, customSlotTimes });
 
   const url = recipeId
     ? `${process.env.AUTH_URL || "http://localhost:3000"}/recipes/${recipeId}`
     : undefined;
 
+  // Reuse the existing UID so updates overwrite the event instead of duplicating it
   const eventInput: CreateEventInput = {
+    uid: syncStatus?.caldavEventUid ?? undefined,
     summary: eventTitle,
+    description: buildEventDescription(servings),
     start,
     end,
+    timeZone: config.timezone,
     url,
   };
 
   const created = await client.createEvent(eventInput);
 
-  return { uid: created.uid, isNew };
+  return { uid: created.uid, etag: created.etag, isNew };
 }
 
 export async function deletePlannedItem(userId: string, itemId: string): Promise<void> {
@@ -0,0 +1,200 @@
+/**
+ * IANA timezone helpers built on Intl, used to place meal slots at local wall-clock times
+ * and to describe those zones in iCalendar (TZID + VTIMEZONE).
+ */
+
+export const DEFAULT_TIMEZONE = "UTC";
+
+const MINUTE_MS = 60_000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(timeZone);
+
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+
+  return formatter;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function isUtcTimeZone(timeZone: string | null | undefined): boolean {
+  return !timeZone || timeZone === "UTC" || timeZone === "Etc/UTC";
+}
+
+export interface WallTime {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+/** Wall-clock time of an instant in the given timezone */
+export function getWallTime(instant: Date, timeZone: string): WallTime {
+  const parts = getFormatter(timeZone).formatToParts(instant);
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((p) => p.type === type)?.value ?? 0);
+
+  return {
+    year: get("year"),
+    month: get("month"),
+    day: get("day"),
+    hour: get("hour"),
+    minute: get("minute"),
+    second: get("second"),
+  };
+}
+
+/** Offset of the timezone from UTC at an instant, in minutes (e.g. 120 for CEST) */
+export function getTimeZoneOffset(instant: Date, timeZone: string): number {
+  const w = getWallTime(instant, timeZone);
+  const asUtc = Date.UTC(w.year, w.month - 1, w.day, w.hour, w.minute, w.second);
+
+  return Math.round((asUtc - Math.floor(instant.getTime() / 1000) * 1000) / MINUTE_MS);
+}
+
+/**
+ * Convert a local wall-clock time to the instant it occurs in the timezone.
+ * Times skipped by a DST jump resolve to the same wall time in the earlier offset.
+ */
+export function zonedTimeToUtc(
+  date: string,
+  time: string,
+  timeZone: string = DEFAULT_TIMEZONE
+): Date {
+  const [year, month, day] = date.split("-").map(Number);
+  const [hour, minute] = time.split(":").map(Number);
+  const wallAsUtc = Date.UTC(year, month - 1, day, hour, minute);
+
+  if (isUtcTimeZone(timeZone)) return new Date(wallAsUtc);
+
+  // Two passes settle the offset around DST transitions
+  let offset = getTimeZoneOffset(new Date(wallAsUtc), timeZone);
+
+  offset = getTimeZoneOffset(new Date(wallAsUtc - offset * MINUTE_MS), timeZone);
+
+  return new Date(wallAsUtc - offset * MINUTE_MS);
+}
+
+/** Local date (YYYY-MM-DD) of an instant in the timezone */
+export function formatZonedDate(instant: Date, timeZone: string = DEFAULT_TIMEZONE): string {
+  const w = getWallTime(instant, timeZone);
+
+  return `${w.year}-${String(w.month).padStart(2, "0")}-${String(w.day).padStart(2, "0")}`;
+}
+
+function formatOffset(minutes: number): string {
+  const sign = minutes < 0 ? "-" : "+";
+  const abs = Math.abs(minutes);
+
+  return `${sign}${String(Math.floor(abs / 60)).padStart(2, "0")}${String(abs % 60).padStart(2, "0")}`;
+}
+
+function formatWallTime(w: WallTime): string {
+  const pad = (n: number) => String(n).padStart(2, "0");
+
+  return `${w.year}${pad(w.month)}${pad(w.day)}T${pad(w.hour)}${pad(w.minute)}${pad(w.second)}`;
+}
+
+/** Format an instant as local time in basic format (YYYYMMDDTHHMMSS), for use with TZID */
+export function formatDateLocal(instant: Date, timeZone: string): string {
+  return formatWallTime(getWallTime(instant, timeZone));
+}
+
+/** Find the first minute in (from, to] where the offset differs from the offset at `from` */
+function findTransition(from: number, to: number, timeZone: string): number {
+  const before = getTimeZoneOffset(new Date(from), timeZone);
+  let lo = from;
+  let hi = to;
+
+  while (hi - lo > MINUTE_MS) {
+    const mid = lo + Math.floor((hi - lo) / 2 / MINUTE_MS) * MINUTE_MS;
+
+    if (getTimeZoneOffset(new Date(mid), timeZone) === before) lo = mid;
+    else hi = mid;
+  }
+
+  return hi;
+}
+
+/**
+ * Build a VTIMEZONE component covering the given range.
+ * Each DST transition in the range becomes an explicit STANDARD/DAYLIGHT observance, which avoids
+ * hand-written RRULEs and stays correct for zones whose rules changed over time.
+ */
+export function buildVtimezone(timeZone: string, rangeStart: Date, rangeEnd: Date): string[] {
+  // Start a year early so the observance in effect at rangeStart is always included
+  const start = rangeStart.getTime() - 366 * DAY_MS;
+  const end = rangeEnd.getTime() + DAY_MS;
+  const initialOffset = getTimeZoneOffset(new Date(start), timeZone);
+  const transitions: { at: number; from: number; to: number }[] = [];
+
+  let previousOffset = initialOffset;
+
+  for (let t = start + DAY_MS; t <= end; t += DAY_MS) {
+    const offset = getTimeZoneOffset(new Date(t), timeZone);
+
+    if (offset !== previousOffset) {
+      transitions.push({
+        at: findTransition(t - DAY_MS, t, timeZone),
+        from: previousOffset,
+        to: offset,
+      });
+      previousOffset = offset;
+    }
+  }
+
+  const lines = ["BEGIN:VTIMEZONE", `TZID:${timeZone}`];
+
+  if (transitions.length === 0) {
+    lines.push(
+      "BEGIN:STANDARD",
+      "DTSTART:19700101T000000",
+      `TZOFFSETFROM:${formatOffset(initialOffset)}`,
+      `TZOFFSETTO:${formatOffset(initialOffset)}`,
+      "END:STANDARD"
+    );
+  }
+
+  for (const transition of transitions) {
+    // Observance DTSTART is the local time of the change, expressed in the old offset
+    const dtStart = new Date(transition.at + transition.from * MINUTE_MS);
+    const kind = transition.to > transition.from ? "DAYLIGHT" : "STANDARD";
+
+    lines.push(
+      `BEGIN:${kind}`,
+      `DTSTART:${formatDateLocal(dtStart, "UTC")}`,
+      `TZOFFSETFROM:${formatOffset(transition.from)}`,
+      `TZOFFSETTO:${formatOffset(transition.to)}`,
+      `END:${kind}`
+    );
+  }
+
+  lines.push("END:VTIMEZONE");
+
+  return lines;
+}
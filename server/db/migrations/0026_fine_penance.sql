@@ -0,0 +1,3 @@
+ALTER TABLE "user_caldav_config" ADD COLUMN "last_pull_ctag" text;--> statement-breakpoint
+ALTER TABLE "user_caldav_config" ADD COLUMN "last_pull_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "caldav_sync_status" ADD COLUMN "caldav_etag" text;
\ No newline at end of file
@@ -0,0 +1,14 @@
+CREATE TYPE "public"."calendar_feed_scope" AS ENUM('user', 'household');--> statement-breakpoint
+CREATE TABLE "calendar_feeds" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" text NOT NULL,
+	"scope" "calendar_feed_scope" NOT NULL,
+	"token" text NOT NULL,
+	"last_accessed_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "calendar_feeds_token_unique" UNIQUE("token"),
+	CONSTRAINT "uq_calendar_feeds_user_scope" UNIQUE("user_id","scope")
+);
+--> statement-breakpoint
+ALTER TABLE "calendar_feeds" ADD CONSTRAINT "calendar_feeds_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
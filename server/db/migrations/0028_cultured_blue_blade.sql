@@ -0,0 +1 @@
+ALTER TABLE "user_caldav_config" ADD COLUMN "timezone" text DEFAULT 'UTC' NOT NULL;
\ No newline at end of file
@@ -0,0 +1,14 @@
+CREATE TABLE "pantry_items" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" text NOT NULL,
+	"name" text NOT NULL,
+	"unit" text,
+	"amount" numeric(10, 3),
+	"expires_at" date,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "pantry_items" ADD CONSTRAINT "pantry_items_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_pantry_items_user_id" ON "pantry_items" USING btree ("user_id");--> statement-breakpoint
+CREATE INDEX "idx_pantry_items_expires_at" ON "pantry_items" USING btree ("expires_at");
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "planned_recipes" ADD COLUMN "servings" integer;
\ No newline at end of file
@@ -0,0 +1,22 @@
+CREATE TABLE "meal_slots" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"household_id" uuid,
+	"user_id" text,
+	"key" text NOT NULL,
+	"name" text,
+	"icon" text NOT NULL,
+	"sort_order" integer DEFAULT 0 NOT NULL,
+	"time_range" text,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "planned_recipes" ALTER COLUMN "slot" SET DATA TYPE text USING "slot"::text;--> statement-breakpoint
+ALTER TABLE "notes" ALTER COLUMN "slot" SET DATA TYPE text USING "slot"::text;--> statement-breakpoint
+ALTER TABLE "meal_slots" ADD CONSTRAINT "meal_slots_household_id_households_id_fk" FOREIGN KEY ("household_id") REFERENCES "public"."households"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "meal_slots" ADD CONSTRAINT "meal_slots_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_meal_slots_household" ON "meal_slots" USING btree ("household_id");--> statement-breakpoint
+CREATE INDEX "idx_meal_slots_user" ON "meal_slots" USING btree ("user_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "uq_meal_slots_household_key" ON "meal_slots" USING btree ("household_id","key");--> statement-breakpoint
+CREATE UNIQUE INDEX "uq_meal_slots_user_key" ON "meal_slots" USING btree ("user_id","key") WHERE "meal_slots"."household_id" IS NULL;--> statement-breakpoint
+DROP TYPE "public"."slot_type";
\ No newline at end of file
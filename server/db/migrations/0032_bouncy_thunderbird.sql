@@ -0,0 +1,13 @@
+CREATE TYPE "public"."recipe_revision_source" AS ENUM('original', 'edit', 'convert', 'auto_tag', 'allergy_detection', 'nutrition', 'restore');--> statement-breakpoint
+CREATE TABLE "recipe_revisions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"recipe_id" uuid NOT NULL,
+	"user_id" text,
+	"source" "recipe_revision_source" NOT NULL,
+	"snapshot" jsonb NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "recipe_revisions" ADD CONSTRAINT "recipe_revisions_recipe_id_recipes_id_fk" FOREIGN KEY ("recipe_id") REFERENCES "public"."recipes"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "recipe_revisions" ADD CONSTRAINT "recipe_revisions_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_recipe_revisions_recipe_created" ON "recipe_revisions" USING btree ("recipe_id","created_at");
\ No newline at end of file
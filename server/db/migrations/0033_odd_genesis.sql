@@ -0,0 +1,4 @@
+ALTER TABLE "recipes" ADD COLUMN "deleted_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "recipes" ADD COLUMN "deleted_by" text;--> statement-breakpoint
+ALTER TABLE "recipes" ADD CONSTRAINT "recipes_deleted_by_user_id_fk" FOREIGN KEY ("deleted_by") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_recipes_deleted_at" ON "recipes" USING btree ("deleted_at");
\ No newline at end of file
@@ -0,0 +1,50 @@
+ALTER TABLE "recipe_ingredients" ADD COLUMN "section" text;--> statement-breakpoint
+ALTER TABLE "steps" ADD COLUMN "section" text;--> statement-breakpoint
+-- Move "# Heading" rows into the section of the steps that follow them, then drop the heading rows
+WITH headed AS (
+  SELECT
+    s.id,
+    (
+      SELECT NULLIF(trim(regexp_replace(trim(h.step), '^#+\s*', '')), '')
+      FROM steps h
+      WHERE h.recipe_id = s.recipe_id
+        AND h.system_used = s.system_used
+        AND trim(h.step) LIKE '#%'
+        AND COALESCE(h."order", 0) < COALESCE(s."order", 0)
+      ORDER BY h."order" DESC
+      LIMIT 1
+    ) AS section
+  FROM steps s
+  WHERE trim(s.step) NOT LIKE '#%'
+)
+UPDATE steps
+SET section = headed.section
+FROM headed
+WHERE steps.id = headed.id AND headed.section IS NOT NULL;--> statement-breakpoint
+DELETE FROM steps WHERE trim(step) LIKE '#%';--> statement-breakpoint
+-- Same for ingredients, where the heading is the ingredient name
+WITH headed AS (
+  SELECT
+    ri.id,
+    (
+      SELECT NULLIF(trim(regexp_replace(trim(hi.name), '^#+\s*', '')), '')
+      FROM recipe_ingredients h
+      JOIN ingredients hi ON hi.id = h.ingredient_id
+      WHERE h.recipe_id = ri.recipe_id
+        AND h.system_used = ri.system_used
+        AND trim(hi.name) LIKE '#%'
+        AND COALESCE(h."order", 0) < COALESCE(ri."order", 0)
+      ORDER BY h."order" DESC
+      LIMIT 1
+    ) AS section
+  FROM recipe_ingredients ri
+  JOIN ingredients i ON i.id = ri.ingredient_id
+  WHERE trim(i.name) NOT LIKE '#%'
+)
+UPDATE recipe_ingredients
+SET section = headed.section
+FROM headed
+WHERE recipe_ingredients.id = headed.id AND headed.section IS NOT NULL;--> statement-breakpoint
+DELETE FROM recipe_ingredients ri
+USING ingredients i
+WHERE i.id = ri.ingredient_id AND trim(i.name) LIKE '#%';
@@ -0,0 +1,11 @@
+ALTER TABLE "recipe_ingredients" ADD COLUMN "linked_recipe_id" uuid;--> statement-breakpoint
+ALTER TABLE "recipe_ingredients" ADD CONSTRAINT "recipe_ingredients_linked_recipe_id_recipes_id_fk" FOREIGN KEY ("linked_recipe_id") REFERENCES "public"."recipes"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_recipe_ingredients_linked_recipe_id" ON "recipe_ingredients" USING btree ("linked_recipe_id");--> statement-breakpoint
+-- Link existing "[Name](id:uuid)" ingredient lines to the recipe they mention
+UPDATE recipe_ingredients ri
+SET linked_recipe_id = r.id
+FROM ingredients i, recipes r
+WHERE i.id = ri.ingredient_id
+  AND trim(i.name) ~ '^\[[^\]]+\]\(id:[a-zA-Z0-9-]+\)$'
+  AND r.id::text = substring(trim(i.name) from '\(id:([a-zA-Z0-9-]+)\)$')
+  AND r.id <> ri.recipe_id;
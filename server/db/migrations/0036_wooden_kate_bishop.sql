@@ -0,0 +1 @@
+ALTER TABLE "steps" ADD COLUMN "ingredient_orders" integer[];
\ No newline at end of file
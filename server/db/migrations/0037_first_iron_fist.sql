@@ -0,0 +1,17 @@
+CREATE TABLE "cook_timers" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" text NOT NULL,
+	"recipe_id" uuid NOT NULL,
+	"step_index" integer,
+	"label" text NOT NULL,
+	"duration_seconds" integer NOT NULL,
+	"ends_at" timestamp with time zone,
+	"remaining_seconds" integer,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "cook_timers" ADD CONSTRAINT "cook_timers_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "cook_timers" ADD CONSTRAINT "cook_timers_recipe_id_recipes_id_fk" FOREIGN KEY ("recipe_id") REFERENCES "public"."recipes"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_cook_timers_user_id" ON "cook_timers" USING btree ("user_id");--> statement-breakpoint
+CREATE INDEX "idx_cook_timers_recipe_id" ON "cook_timers" USING btree ("recipe_id");
\ No newline at end of file
@@ -0,0 +1,17 @@
+CREATE TABLE "food_compositions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"source" text NOT NULL,
+	"code" text NOT NULL,
+	"name" text NOT NULL,
+	"alternates" text[] DEFAULT '{}' NOT NULL,
+	"calories" numeric(8, 2),
+	"fat" numeric(8, 2),
+	"carbs" numeric(8, 2),
+	"protein" numeric(8, 2),
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "ingredients" ADD COLUMN "food_composition_id" uuid;--> statement-breakpoint
+CREATE UNIQUE INDEX "uq_food_compositions_source_code" ON "food_compositions" USING btree ("source","code");--> statement-breakpoint
+CREATE INDEX "idx_food_compositions_name_lower" ON "food_compositions" USING btree (lower("name"));--> statement-breakpoint
+ALTER TABLE "ingredients" ADD CONSTRAINT "ingredients_food_composition_id_food_compositions_id_fk" FOREIGN KEY ("food_composition_id") REFERENCES "public"."food_compositions"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
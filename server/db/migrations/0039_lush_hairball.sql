@@ -0,0 +1,10 @@
+ALTER TABLE "food_compositions" ADD COLUMN "fiber" numeric(8, 2);--> statement-breakpoint
+ALTER TABLE "food_compositions" ADD COLUMN "sugar" numeric(8, 2);--> statement-breakpoint
+ALTER TABLE "food_compositions" ADD COLUMN "saturated_fat" numeric(8, 2);--> statement-breakpoint
+ALTER TABLE "food_compositions" ADD COLUMN "sodium" numeric(8, 2);--> statement-breakpoint
+ALTER TABLE "food_compositions" ADD COLUMN "cholesterol" numeric(8, 2);--> statement-breakpoint
+ALTER TABLE "recipes" ADD COLUMN "fiber" numeric(6, 2);--> statement-breakpoint
+ALTER TABLE "recipes" ADD COLUMN "sugar" numeric(6, 2);--> statement-breakpoint
+ALTER TABLE "recipes" ADD COLUMN "saturated_fat" numeric(6, 2);--> statement-breakpoint
+ALTER TABLE "recipes" ADD COLUMN "sodium" numeric(8, 2);--> statement-breakpoint
+ALTER TABLE "recipes" ADD COLUMN "cholesterol" numeric(8, 2);
\ No newline at end of file
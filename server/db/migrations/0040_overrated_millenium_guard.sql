@@ -0,0 +1,15 @@
+CREATE TABLE "user_nutrition_targets" (
+	"user_id" text PRIMARY KEY NOT NULL,
+	"calories" numeric(8, 2),
+	"fat" numeric(8, 2),
+	"carbs" numeric(8, 2),
+	"protein" numeric(8, 2),
+	"fiber" numeric(8, 2),
+	"sugar" numeric(8, 2),
+	"saturated_fat" numeric(8, 2),
+	"sodium" numeric(8, 2),
+	"cholesterol" numeric(8, 2),
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "user_nutrition_targets" ADD CONSTRAINT "user_nutrition_targets_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,16 @@
+CREATE TYPE "public"."ai_usage_feature" AS ENUM('recipe_extraction', 'image_extraction', 'video_extraction', 'transcription', 'unit_conversion', 'nutrition_estimation', 'auto_tagging', 'allergy_detection');--> statement-breakpoint
+CREATE TABLE "ai_usage" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" text,
+	"feature" "ai_usage_feature" NOT NULL,
+	"provider" text NOT NULL,
+	"model" text NOT NULL,
+	"input_tokens" integer DEFAULT 0 NOT NULL,
+	"output_tokens" integer DEFAULT 0 NOT NULL,
+	"total_tokens" integer DEFAULT 0 NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "ai_usage" ADD CONSTRAINT "ai_usage_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_ai_usage_user_created" ON "ai_usage" USING btree ("user_id","created_at");--> statement-breakpoint
+CREATE INDEX "idx_ai_usage_created" ON "ai_usage" USING btree ("created_at");
\ No newline at end of file
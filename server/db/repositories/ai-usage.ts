@@ -0,0 +1,62 @@
+import type { AIUsageFeature, AIUsageSummaryRow } from "@/server/db/zodSchemas";
+
+import { and, gte, inArray, sql } from "drizzle-orm";
+
+import { getUsersByIds } from "./users";
+
+import { db } from "@/server/db/drizzle";
+import { aiUsage } from "@/server/db/schema";
+
+export interface AIUsageEntry {
+  userId: string | null;
+  feature: AIUsageFeature;
+  provider: string;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+}
+
+export async function insertAIUsage(entry: AIUsageEntry): Promise<void> {
+  await db.insert(aiUsage).values(entry);
+}
+
+/** Total tokens used by any of the given users since a date */
+export async function sumAITokensSince(userIds: string[], since: Date): Promise<number> {
+  if (userIds.length === 0) return 0;
+
+  const [row] = await db
+    .select({ total: sql<number>`coalesce(sum(${aiUsage.totalTokens}), 0)::int` })
+    .from(aiUsage)
+    .where(and(inArray(aiUsage.userId, userIds), gte(aiUsage.createdAt, since)));
+
+  return row?.total ?? 0;
+}
+
+/** Usage since a date grouped by month (UTC), user and feature, newest month first */
+export async function summarizeAIUsageSince(since: Date): Promise<AIUsageSummaryRow[]> {
+  const month = sql<string>`to_char(${aiUsage.createdAt} at time zone 'UTC', 'YYYY-MM')`;
+
+  const rows = await db
+    .select({
+      month,
+      userId: aiUsage.userId,
+      feature: aiUsage.feature,
+      requests: sql<number>`count(*)::int`,
+      inputTokens: sql<number>`sum(${aiUsage.inputTokens})::int`,
+      outputTokens: sql<number>`sum(${aiUsage.outputTokens})::int`,
+      totalTokens: sql<number>`sum(${aiUsage.totalTokens})::int`,
+    })
+    .from(aiUsage)
+    .where(gte(aiUsage.createdAt, since))
+    .groupBy(month, aiUsage.userId, aiUsage.feature)
+    .orderBy(sql`1 desc`);
+
+  const userIds = Array.from(new Set(rows.flatMap((r) => (r.userId ? [r.userId] : []))));
+  const names = new Map((await getUsersByIds(userIds)).map((u) => [u.id, u.name]));
+
+  return rows.map((row) => ({
+    ...row,
+    userName: row.userId ? (names.get(row.userId) ?? null) : null,
+  }));
+}
@@ -51,6 +51,7 @@ export async function getCaldavConfigDecrypted(
     lunchTime: config.lunchTime,
     dinnerTime: config.dinnerTime,
     snackTime: config.snackTime,
+    timezone: config.timezone,
     createdAt: config.createdAt,
     updatedAt: config.updatedAt,
   };
@@ -77,6 +78,7 @@ export async function getCaldavConfigWithoutPassword(
     lunchTime: config.lunchTime,
     dinnerTime: config.dinnerTime,
     snackTime: config.snackTime,
+    timezone: config.timezone,
     createdAt: config.createdAt,
     updatedAt: config.updatedAt,
   };
@@ -101,6 +103,7 @@ export async function saveCaldavConfig(
     lunchTime: validated.data.lunchTime,
     dinnerTime: validated.data.dinnerTime,
     snackTime: validated.data.snackTime,
+    timezone: validated.data.timezone,
   };
 
   const [row] = await db
@@ -110,6 +113,8 @@ export async function saveCaldavConfig(
       target: userCaldavConfig.userId,
       set: {
         ...encrypted,
+        // The calendar may have changed, so force a full pull next time
+        lastPullCtag: null,
         updatedAt: new Date(),
       },
     })
@@ -161,6 +166,7 @@ export async function getHouseholdCaldavConfigs(
       lunchTime: row.lunchTime,
       dinnerTime: row.dinnerTime,
       snackTime: row.snackTime,
+      timezone: row.timezone,
       createdAt: row.createdAt,
       updatedAt: row.updatedAt,
     };
@@ -175,3 +181,13 @@ export async function getHouseholdCaldavConfigs(
 
   return configMap;
 }
+
+/**
+ * Record the calendar ctag seen by the last successful pull
+ */
+export async function updateCaldavPullState(userId: string, ctag: string | null): Promise<void> {
+  await db
+    .update(userCaldavConfig)
+    .set({ lastPullCtag: ctag, lastPullAt: new Date() })
+    .where(eq(userCaldavConfig.userId, userId));
+}
@@ -4,9 +4,10 @@ import type {
   CaldavSyncStatusUpdateDto,
   CaldavSyncStatusViewDto,
   CaldavSyncStatus,
+  CaldavPullItemDto,
 } from "@/types/dto/caldav-sync-status";
 
-import { eq, and, inArray, desc, sql } from "drizzle-orm";
+import { eq, and, inArray, desc, sql, isNotNull } from "drizzle-orm";
 
 import { db } from "@/server/db/drizzle";
 import { caldavSyncStatus, plannedRecipes, notes } from "@/server/db/schema";
@@ -103,6 +104,7 @@ export async function getCaldavSyncStatusesByUser(
       eventTitle: caldavSyncStatus.eventTitle,
       syncStatus: caldavSyncStatus.syncStatus,
       caldavEventUid: caldavSyncStatus.caldavEventUid,
+      caldavEtag: caldavSyncStatus.caldavEtag,
       retryCount: caldavSyncStatus.retryCount,
       errorMessage: caldavSyncStatus.errorMessage,
       lastSyncAt: caldavSyncStatus.lastSyncAt,
@@ -154,6 +156,7 @@ export async function getCaldavSyncStatusesByUser(
     eventTitle: item.eventTitle,
     syncStatus: item.syncStatus,
     caldavEventUid: item.caldavEventUid,
+    caldavEtag: item.caldavEtag,
     retryCount: item.retryCount,
     errorMessage: item.errorMessage,
     lastSyncAt: item.lastSyncAt,
@@ -205,6 +208,69 @@ export async function getPendingOrFailedSyncStatuses(
   });
 }
 
+/**
+ * Get synced or pending items that have a CalDAV event, with the local date and slot.
+ * Only items planned on or after fromDate are returned.
+ */
+export async function getCaldavPullItems(
+  userId: string,
+  fromDate: string
+): Promise<CaldavPullItemDto[]> {
+  const rows = await db
+    .select({
+      id: caldavSyncStatus.id,
+      itemId: caldavSyncStatus.itemId,
+      itemType: caldavSyncStatus.itemType,
+      syncStatus: caldavSyncStatus.syncStatus,
+      caldavEventUid: caldavSyncStatus.caldavEventUid,
+      caldavEtag: caldavSyncStatus.caldavEtag,
+      lastSyncAt: caldavSyncStatus.lastSyncAt,
+      recipeDate: plannedRecipes.date,
+      recipeSlot: plannedRecipes.slot,
+      recipeUpdatedAt: plannedRecipes.updatedAt,
+      noteDate: notes.date,
+      noteSlot: notes.slot,
+      noteUpdatedAt: notes.updatedAt,
+    })
+    .from(caldavSyncStatus)
+    .leftJoin(plannedRecipes, eq(caldavSyncStatus.itemId, plannedRecipes.id))
+    .leftJoin(notes, eq(caldavSyncStatus.itemId, notes.id))
+    .where(
+      and(
+        eq(caldavSyncStatus.userId, userId),
+        inArray(caldavSyncStatus.syncStatus, ["synced", "pending"]),
+        isNotNull(caldavSyncStatus.caldavEventUid)
+      )
+    );
+
+  const items: CaldavPullItemDto[] = [];
+
+  for (const row of rows) {
+    const isRecipe = row.itemType === "recipe";
+    const date = isRecipe ? row.recipeDate : row.noteDate;
+    const slot = isRecipe ? row.recipeSlot : row.noteSlot;
+    const itemUpdatedAt = isRecipe ? row.recipeUpdatedAt : row.noteUpdatedAt;
+
+    // Skip items deleted locally and items in the past
+    if (!date || !slot || !itemUpdatedAt || date < fromDate) continue;
+
+    items.push({
+      id: row.id,
+      itemId: row.itemId,
+      itemType: row.itemType,
+      syncStatus: row.syncStatus,
+      caldavEventUid: row.caldavEventUid!,
+      caldavEtag: row.caldavEtag,
+      lastSyncAt: row.lastSyncAt,
+      date,
+      slot,
+      itemUpdatedAt,
+    });
+  }
+
+  return items;
+}
+
 export async function deleteCaldavSyncStatusByItemId(
   userId: string,
   itemId: string
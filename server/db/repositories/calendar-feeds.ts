@@ -0,0 +1,71 @@
+import type { CalendarFeedDto, CalendarFeedScope, CalendarFeedViewDto } from "@/types";
+
+import crypto from "crypto";
+
+import { and, eq } from "drizzle-orm";
+import z from "zod";
+
+import { db } from "@/server/db/drizzle";
+import { calendarFeeds } from "@/server/db/schema";
+import { CalendarFeedSelectBaseSchema, CalendarFeedViewSchema } from "@/server/db/zodSchemas";
+
+/**
+ * Generate an unguessable URL-safe feed token
+ */
+export function generateFeedToken(): string {
+  return crypto.randomBytes(24).toString("base64url");
+}
+
+export async function listCalendarFeeds(userId: string): Promise<CalendarFeedViewDto[]> {
+  const rows = await db.select().from(calendarFeeds).where(eq(calendarFeeds.userId, userId));
+
+  const parsed = z.array(CalendarFeedViewSchema).safeParse(rows);
+
+  if (!parsed.success) throw new Error("Failed to parse calendar feeds");
+
+  return parsed.data;
+}
+
+/**
+ * Create the feed for a scope, or give the existing feed a new token.
+ * The old URL stops working immediately.
+ */
+export async function rotateCalendarFeedToken(
+  userId: string,
+  scope: CalendarFeedScope
+): Promise<CalendarFeedViewDto> {
+  const token = generateFeedToken();
+  const [row] = await db
+    .insert(calendarFeeds)
+    .values({ userId, scope, token })
+    .onConflictDoUpdate({
+      target: [calendarFeeds.userId, calendarFeeds.scope],
+      set: { token, lastAccessedAt: null, updatedAt: new Date() },
+    })
+    .returning();
+
+  return CalendarFeedViewSchema.parse(row);
+}
+
+export async function deleteCalendarFeed(userId: string, scope: CalendarFeedScope): Promise<void> {
+  await db
+    .delete(calendarFeeds)
+    .where(and(eq(calendarFeeds.userId, userId), eq(calendarFeeds.scope, scope)));
+}
+
+export async function getCalendarFeedByToken(token: string): Promise<CalendarFeedDto | null> {
+  const [row] = await db
+    .select()
+    .from(calendarFeeds)
+    .where(eq(calendarFeeds.token, token))
+    .limit(1);
+
+  return row ? CalendarFeedSelectBaseSchema.parse(row) : null;
+}
+
+export async function recordCalendarFeedAccess(id: string): Promise<void> {
+  await db
+    .update(calendarFeeds)
+    .set({ lastAccessedAt: new Date() })
+    .where(eq(calendarFeeds.id, id));
+}
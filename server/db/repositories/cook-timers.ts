@@ -0,0 +1,131 @@
+import type { CookTimerDto, CookTimerInsertDto } from "@/types/dto/cook-timers";
+
+import { and, asc, eq, inArray, isNotNull, isNull, lt, or, sql } from "drizzle-orm";
+import z from "zod";
+
+import { db } from "@/server/db/drizzle";
+import { cookTimers } from "@/server/db/schema";
+import { CookTimerInsertBaseSchema, CookTimerSelectBaseSchema } from "@/server/db/zodSchemas";
+
+/** Finished timers stay visible this long so late arrivals still see them ring */
+const FINISHED_TIMER_RETENTION = sql`interval '1 hour'`;
+
+function parseTimer(row: unknown, id?: string): CookTimerDto {
+  const parsed = CookTimerSelectBaseSchema.safeParse(row);
+
+  if (!parsed.success) throw new Error(`Failed to parse cook timer${id ? ` (id=${id})` : ""}`);
+
+  return parsed.data;
+}
+
+export async function listCookTimersByUsers(userIds: string[]): Promise<CookTimerDto[]> {
+  if (!userIds.length) return [];
+
+  const rows = await db
+    .select()
+    .from(cookTimers)
+    .where(
+      and(
+        inArray(cookTimers.userId, userIds),
+        or(
+          isNull(cookTimers.endsAt),
+          sql`${cookTimers.endsAt} > now() - ${FINISHED_TIMER_RETENTION}`
+        )
+      )
+    )
+    .orderBy(asc(cookTimers.createdAt));
+
+  const parsed = z.array(CookTimerSelectBaseSchema).safeParse(rows);
+
+  if (!parsed.success) throw new Error("Failed to parse cook timers");
+
+  return parsed.data;
+}
+
+/** Start a new running timer */
+export async function createCookTimer(
+  timer: CookTimerInsertDto & { id?: string }
+): Promise<CookTimerDto> {
+  const parsed = CookTimerInsertBaseSchema.safeParse(timer);
+
+  if (!parsed.success) throw new Error("Invalid CookTimerInsertDto");
+
+  const [row] = await db
+    .insert(cookTimers)
+    .values({
+      ...parsed.data,
+      id: timer.id,
+      endsAt: sql`now() + ${parsed.data.durationSeconds} * interval '1 second'`,
+    })
+    .returning();
+
+  return parseTimer(row, timer.id);
+}
+
+/** Stop a running timer, keeping the time it had left. Returns null if it was not running. */
+export async function pauseCookTimer(id: string): Promise<CookTimerDto | null> {
+  const [row] = await db
+    .update(cookTimers)
+    .set({
+      remainingSeconds: sql`greatest(0, ceil(extract(epoch from ${cookTimers.endsAt} - now())))::integer`,
+      endsAt: null,
+      updatedAt: new Date(),
+    })
+    .where(and(eq(cookTimers.id, id), isNotNull(cookTimers.endsAt)))
+    .returning();
+
+  return row ? parseTimer(row, id) : null;
+}
+
+/** Continue a paused timer. Returns null if it was not paused. */
+export async function resumeCookTimer(id: string): Promise<CookTimerDto | null> {
+  const [row] = await db
+    .update(cookTimers)
+    .set({
+      endsAt: sql`now() + ${cookTimers.remainingSeconds} * interval '1 second'`,
+      remainingSeconds: null,
+      updatedAt: new Date(),
+    })
+    .where(and(eq(cookTimers.id, id), isNotNull(cookTimers.remainingSeconds)))
+    .returning();
+
+  return row ? parseTimer(row, id) : null;
+}
+
+export async function deleteCookTimersByIds(ids: string[]): Promise<void> {
+  if (ids.length === 0) return;
+
+  await db.delete(cookTimers).where(inArray(cookTimers.id, ids));
+}
+
+/** Remove the users' timers that finished longer ago than they are shown. Returns their ids. */
+export async function deleteFinishedCookTimers(userIds: string[]): Promise<string[]> {
+  if (!userIds.length) return [];
+
+  const rows = await db
+    .delete(cookTimers)
+    .where(
+      and(
+        inArray(cookTimers.userId, userIds),
+        lt(cookTimers.endsAt, sql`now() - ${FINISHED_TIMER_RETENTION}`)
+      )
+    )
+    .returning({ id: cookTimers.id });
+
+  return rows.map((r) => r.id);
+}
+
+/**
+ * Get the owner userIds for multiple cook timers (for permission checks)
+ * Returns a Map of cookTimerId -> userId
+ */
+export async function getCookTimerOwnerIds(ids: string[]): Promise<Map<string, string>> {
+  if (ids.length === 0) return new Map();
+
+  const rows = await db
+    .select({ id: cookTimers.id, userId: cookTimers.userId })
+    .from(cookTimers)
+    .where(inArray(cookTimers.id, ids));
+
+  return new Map(rows.map((r) => [r.id, r.userId]));
+}
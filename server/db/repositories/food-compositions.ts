@@ -0,0 +1,116 @@
+import type { FoodCompositionInput, FoodNutrients } from "@/lib/food-composition";
+import type { MatchedFood } from "@/lib/nutrition";
+
+import { count, eq, ilike, inArray, or, sql } from "drizzle-orm";
+
+import { db } from "@/server/db/drizzle";
+import { foodCompositions, ingredients } from "@/server/db/schema";
+import { FOOD_NUTRIENTS } from "@/lib/food-composition";
+
+const INSERT_CHUNK_SIZE = 500;
+const SEARCH_LIMIT = 100;
+
+type FoodCompositionRow = typeof foodCompositions.$inferSelect;
+
+function toMatchedFood(row: FoodCompositionRow): MatchedFood {
+  const nutrients = Object.fromEntries(
+    FOOD_NUTRIENTS.map((key) => [key, row[key] != null ? Number(row[key]) : null])
+  ) as FoodNutrients;
+
+  return { id: row.id, name: row.name, alternates: row.alternates, nutrients };
+}
+
+function toNumeric(value: number | null): string | null {
+  return value != null ? value.toString() : null;
+}
+
+export async function countFoodCompositions(): Promise<number> {
+  const [row] = await db.select({ count: count() }).from(foodCompositions);
+
+  return row?.count ?? 0;
+}
+
+/**
+ * Replace every food of a source with a fresh import. Ingredients linked to removed foods
+ * lose their link and are matched again on the next calculation.
+ */
+export async function replaceFoodCompositions(
+  source: string,
+  foods: FoodCompositionInput[]
+): Promise<number> {
+  return await db.transaction(async (tx) => {
+    await tx.delete(foodCompositions).where(eq(foodCompositions.source, source));
+
+    for (let i = 0; i < foods.length; i += INSERT_CHUNK_SIZE) {
+      const chunk = foods.slice(i, i + INSERT_CHUNK_SIZE).map((food) => ({
+        source,
+        code: food.code,
+        name: food.name,
+        alternates: food.alternates,
+        ...Object.fromEntries(FOOD_NUTRIENTS.map((key) => [key, toNumeric(food[key])])),
+      }));
+
+      await tx.insert(foodCompositions).values(chunk);
+    }
+
+    return foods.length;
+  });
+}
+
+/** Foods whose name or alternates mention any of the terms */
+export async function searchFoodCompositions(terms: string[]): Promise<MatchedFood[]> {
+  if (!terms.length) return [];
+
+  const conditions = terms.flatMap((term) => [
+    ilike(foodCompositions.name, `%${term}%`),
+    sql`array_to_string(${foodCompositions.alternates}, '|') ILIKE ${`%${term}%`}`,
+  ]);
+
+  const rows = await db
+    .select()
+    .from(foodCompositions)
+    .where(or(...conditions))
+    .limit(SEARCH_LIMIT);
+
+  return rows.map(toMatchedFood);
+}
+
+export async function getFoodCompositionsByIds(ids: string[]): Promise<MatchedFood[]> {
+  if (!ids.length) return [];
+
+  const rows = await db.select().from(foodCompositions).where(inArray(foodCompositions.id, ids));
+
+  return rows.map(toMatchedFood);
+}
+
+/** Stored food links of ingredients, keyed by lowercased ingredient name */
+export async function getIngredientFoodLinks(
+  names: string[]
+): Promise<Map<string, { ingredientId: string; foodCompositionId: string | null }>> {
+  const lowers = Array.from(new Set(names.map((n) => n.trim().toLowerCase()).filter(Boolean)));
+
+  if (!lowers.length) return new Map();
+
+  const rows = await db
+    .select({
+      id: ingredients.id,
+      name: ingredients.name,
+      foodCompositionId: ingredients.foodCompositionId,
+    })
+    .from(ingredients)
+    .where(inArray(sql`lower(${ingredients.name})`, lowers));
+
+  return new Map(
+    rows.map((row) => [
+      row.name.toLowerCase(),
+      { ingredientId: row.id, foodCompositionId: row.foodCompositionId },
+    ])
+  );
+}
+
+export async function linkIngredientToFood(
+  ingredientId: string,
+  foodCompositionId: string | null
+): Promise<void> {
+  await db.update(ingredients).set({ foodCompositionId }).where(eq(ingredients.id, ingredientId));
+}
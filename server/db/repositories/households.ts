@@ -58,6 +58,11 @@ export async function getHouseholdById(id: string): Promise<HouseholdDto | null>
   return parsed.success ? parsed.data : null;
 }
 
+/** Id and name of every household, for admin pickers */
+export async function getAllHouseholdNames(): Promise<Array<{ id: string; name: string }>> {
+  return db.select({ id: households.id, name: households.name }).from(households);
+}
+
 /**
  * Get the single household for a user
  * Users are only allowed to be in one household at a time
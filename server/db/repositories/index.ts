@@ -15,3 +15,13 @@ export * from "@/server/db/repositories/users";
 export * from "@/server/db/repositories/server-config";
 export * from "@/server/db/repositories/favorites";
 export * from "@/server/db/repositories/user-allergies";
+export * from "@/server/db/repositories/user-nutrition-targets";
+export * from "@/server/db/repositories/ai-usage";
+export * from "@/server/db/repositories/recipe-shares";
+export * from "@/server/db/repositories/calendar-feeds";
+export * from "@/server/db/repositories/pantry";
+export * from "@/server/db/repositories/meal-slots";
+export * from "@/server/db/repositories/recipe-revisions";
+export * from "@/server/db/repositories/sub-recipes";
+export * from "@/server/db/repositories/cook-timers";
+export * from "@/server/db/repositories/food-compositions";
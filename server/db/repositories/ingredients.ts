@@ -1,4 +1,5 @@
 import type { IngredientDto } from "@/types/dto/ingredient";
+import type { RecipeListContext } from "./recipes";
 import type {
   RecipeIngredientInsertDto,
   RecipeIngredientsDto,
@@ -7,8 +8,10 @@ import type {
 import { eq, inArray, sql } from "drizzle-orm";
 import z from "zod";
 
+import { getViewableRecipeIds } from "./sub-recipes";
+
 import { db } from "@/server/db/drizzle";
-import { ingredients, recipeIngredients } from "@/server/db/schema";
+import { ingredients, recipeIngredients, recipes } from "@/server/db/schema";
 import { IngredientSelectBaseSchema } from "@/server/db/zodSchemas";
 import {
   RecipeIngredientInputSchema,
@@ -18,6 +21,8 @@ import {
 import { MeasurementSystem } from "@/types";
 import { dbLogger } from "@/server/logger";
 import { stripHtmlTags } from "@/lib/helpers";
+import { applySectionHeadings } from "@/lib/recipe-sections";
+import { parseRecipeLink } from "@/lib/sub-recipes";
 
 const IngredientArraySchema = z.array(IngredientSelectBaseSchema);
 
@@ -145,9 +150,53 @@ export async function getOrCreateManyIngredientsTx(
   return parsed.data;
 }
 
+/**
+ * Store `[Name](id:uuid)` lines as a link to that recipe under the plain name.
+ * Links to recipes that do not exist, that the saving user cannot view, or to the recipe
+ * itself are dropped.
+ */
+async function withRecipeLinksTx<
+  T extends { recipeId?: string; ingredientName?: string; linkedRecipeId?: string | null },
+>(
+  tx: any,
+  items: T[],
+  viewer: RecipeListContext | null
+): Promise<(T & { linkedRecipeId: string | null })[]> {
+  const linked = items.map((ri) => {
+    const link = parseRecipeLink(ri.ingredientName);
+
+    return {
+      ...ri,
+      ingredientName: link?.name ?? ri.ingredientName,
+      linkedRecipeId: ri.linkedRecipeId ?? link?.recipeId ?? null,
+    };
+  });
+
+  const ids = Array.from(
+    new Set(linked.map((ri) => ri.linkedRecipeId).filter((id): id is string => !!id))
+  );
+
+  if (!ids.length) return linked;
+
+  const existing: { id: string; userId: string | null }[] = await tx
+    .select({ id: recipes.id, userId: recipes.userId })
+    .from(recipes)
+    .where(inArray(recipes.id, ids));
+  const existingIds = await getViewableRecipeIds(viewer, existing);
+
+  return linked.map((ri) => ({
+    ...ri,
+    linkedRecipeId:
+      ri.linkedRecipeId && existingIds.has(ri.linkedRecipeId) && ri.linkedRecipeId !== ri.recipeId
+        ? ri.linkedRecipeId
+        : null,
+  }));
+}
+
 export async function attachIngredientsToRecipeByInputTx(
   tx: any,
-  payloadIngredients: RecipeIngredientInsertDto[]
+  payloadIngredients: RecipeIngredientInsertDto[],
+  viewer: RecipeListContext | null
 ): Promise<RecipeIngredientsDto[]> {
   if (!payloadIngredients?.length) return [];
 
@@ -157,7 +206,11 @@ export async function attachIngredientsToRecipeByInputTx(
     dbLogger.error({ err: parsedInput.error }, "Invalid RecipeIngredientsDto");
     throw new Error("Invalid RecipeIngredientsDto");
   }
-  const items = parsedInput.data;
+  const items = await withRecipeLinksTx(
+    tx,
+    applySectionHeadings(parsedInput.data, (ri) => ri.ingredientName),
+    viewer
+  );
 
   const names = Array.from(
     new Set(items.map((ri) => ri.ingredientName?.trim() ?? "").filter(Boolean))
@@ -184,6 +237,8 @@ export async function attachIngredientsToRecipeByInputTx(
         amount: ri.amount != null ? Number(ri.amount) : null,
         unit: ri.unit ?? "",
         order: ri.order,
+        section: ri.section,
+        linkedRecipeId: ri.linkedRecipeId,
         systemUsed: (ri.systemUsed as MeasurementSystem) || "metric",
       };
     })
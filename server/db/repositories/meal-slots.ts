@@ -0,0 +1,160 @@
+import type { MealSlotCreateInput, MealSlotDto, MealSlotUpdateInput } from "@/types";
+
+import { and, asc, count, eq, inArray, isNull } from "drizzle-orm";
+import z from "zod";
+
+import { db } from "@/server/db/drizzle";
+import { mealSlots, notes, plannedRecipes } from "@/server/db/schema";
+import { MealSlotSelectBaseSchema } from "@/server/db/zodSchemas";
+import { DEFAULT_MEAL_SLOTS, createSlotKey, isDefaultSlotKey } from "@/lib/meal-slots";
+
+type Executor = typeof db | Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+/** Slots belong to the household, or to the user when they are not in one */
+export type MealSlotOwner = { householdId: string | null; userId: string };
+
+function ownerCondition(owner: MealSlotOwner) {
+  return owner.householdId
+    ? eq(mealSlots.householdId, owner.householdId)
+    : and(eq(mealSlots.userId, owner.userId), isNull(mealSlots.householdId));
+}
+
+async function selectMealSlots(executor: Executor, owner: MealSlotOwner): Promise<MealSlotDto[]> {
+  const rows = await executor
+    .select()
+    .from(mealSlots)
+    .where(ownerCondition(owner))
+    .orderBy(asc(mealSlots.sortOrder), asc(mealSlots.createdAt));
+
+  const parsed = z.array(MealSlotSelectBaseSchema).safeParse(rows);
+
+  if (!parsed.success) throw new Error("Failed to parse meal slots");
+
+  return parsed.data;
+}
+
+/**
+ * Owners without slots use the built-in ones. They are written to the table on the
+ * first change so they can be renamed, reordered or removed like any other slot.
+ */
+async function ensureMealSlots(executor: Executor, owner: MealSlotOwner): Promise<MealSlotDto[]> {
+  const existing = await selectMealSlots(executor, owner);
+
+  if (existing.length > 0) return existing;
+
+  await executor.insert(mealSlots).values(
+    DEFAULT_MEAL_SLOTS.map((slot) => ({
+      ...slot,
+      householdId: owner.householdId,
+      userId: owner.householdId ? null : owner.userId,
+    }))
+  );
+
+  return selectMealSlots(executor, owner);
+}
+
+export async function listMealSlots(owner: MealSlotOwner): Promise<MealSlotDto[]> {
+  const slots = await selectMealSlots(db, owner);
+
+  return slots.length > 0 ? slots : DEFAULT_MEAL_SLOTS;
+}
+
+export async function createMealSlot(
+  owner: MealSlotOwner,
+  input: MealSlotCreateInput
+): Promise<MealSlotDto[]> {
+  return db.transaction(async (trx) => {
+    const slots = await ensureMealSlots(trx, owner);
+    const keys = [...slots.map((s) => s.key), ...DEFAULT_MEAL_SLOTS.map((s) => s.key)];
+
+    await trx.insert(mealSlots).values({
+      householdId: owner.householdId,
+      userId: owner.householdId ? null : owner.userId,
+      key: createSlotKey(input.name, keys),
+      name: input.name,
+      icon: input.icon,
+      timeRange: input.timeRange,
+      sortOrder: Math.max(...slots.map((s) => s.sortOrder)) + 1,
+    });
+
+    return selectMealSlots(trx, owner);
+  });
+}
+
+export async function updateMealSlot(
+  owner: MealSlotOwner,
+  input: MealSlotUpdateInput
+): Promise<MealSlotDto[]> {
+  const { key, ...changes } = input;
+
+  if (changes.timeRange === null && !isDefaultSlotKey(key)) {
+    throw new Error("Custom meal slots need a time range");
+  }
+
+  return db.transaction(async (trx) => {
+    const slots = await ensureMealSlots(trx, owner);
+
+    if (!slots.some((s) => s.key === key)) throw new Error("Meal slot not found");
+
+    await trx
+      .update(mealSlots)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(and(ownerCondition(owner), eq(mealSlots.key, key)));
+
+    return selectMealSlots(trx, owner);
+  });
+}
+
+export async function deleteMealSlot(owner: MealSlotOwner, key: string): Promise<MealSlotDto[]> {
+  return db.transaction(async (trx) => {
+    const slots = await ensureMealSlots(trx, owner);
+
+    if (!slots.some((s) => s.key === key)) throw new Error("Meal slot not found");
+    if (slots.length === 1) throw new Error("At least one meal slot is required");
+
+    await trx.delete(mealSlots).where(and(ownerCondition(owner), eq(mealSlots.key, key)));
+
+    return selectMealSlots(trx, owner);
+  });
+}
+
+/** Keys not in the list keep their relative order after the listed ones */
+export async function reorderMealSlots(
+  owner: MealSlotOwner,
+  keys: string[]
+): Promise<MealSlotDto[]> {
+  return db.transaction(async (trx) => {
+    const slots = await ensureMealSlots(trx, owner);
+    const ordered = [
+      ...keys.filter((key) => slots.some((s) => s.key === key)),
+      ...slots.map((s) => s.key).filter((key) => !keys.includes(key)),
+    ];
+
+    for (const [sortOrder, key] of ordered.entries()) {
+      await trx
+        .update(mealSlots)
+        .set({ sortOrder, updatedAt: new Date() })
+        .where(and(ownerCondition(owner), eq(mealSlots.key, key)));
+    }
+
+    return selectMealSlots(trx, owner);
+  });
+}
+
+/** Planned recipes and notes of the given users in a slot */
+export async function countPlannedItemsInSlot(userIds: string[], key: string): Promise<number> {
+  if (!userIds.length) return 0;
+
+  const [[recipes], [notesCount]] = await Promise.all([
+    db
+      .select({ value: count() })
+      .from(plannedRecipes)
+      .where(and(inArray(plannedRecipes.userId, userIds), eq(plannedRecipes.slot, key))),
+    db
+      .select({ value: count() })
+      .from(notes)
+      .where(and(inArray(notes.userId, userIds), eq(notes.slot, key))),
+  ]);
+
+  return (recipes?.value ?? 0) + (notesCount?.value ?? 0);
+}
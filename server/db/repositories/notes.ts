@@ -1,4 +1,4 @@
-import type { NoteViewDto } from "@/types";
+import type { NoteViewDto, Slot } from "@/types";
 
 import { and, desc, eq, gte, lte, inArray, sql } from "drizzle-orm";
 import z from "zod";
@@ -126,11 +126,16 @@ export async function deleteNote(id: string): Promise<void> {
   await db.delete(notes).where(eq(notes.id, id));
 }
 
-export async function updateNoteDate(id: string, newDate: string): Promise<NoteViewDto> {
+export async function updateNoteDate(
+  id: string,
+  newDate: string,
+  newSlot?: Slot
+): Promise<NoteViewDto> {
   await db
     .update(notes)
     .set({
       date: newDate,
+      ...(newSlot && { slot: newSlot }),
       updatedAt: new Date(),
     })
     .where(eq(notes.id, id));
@@ -0,0 +1,130 @@
+import type { PantryItemDto, PantryItemInsertDto, PantryItemUpdateDto } from "@/types/dto/pantry";
+import type { UnitsMap } from "@/server/db/zodSchemas/server-config";
+
+import { asc, eq, inArray, sql } from "drizzle-orm";
+import z from "zod";
+
+import { db } from "@/server/db/drizzle";
+import { pantryItems } from "@/server/db/schema";
+import {
+  PantryItemInsertBaseSchema,
+  PantryItemSelectBaseSchema,
+  PantryItemUpdateBaseSchema,
+} from "@/server/db/zodSchemas";
+import { planPantryAdditions, type PantryStockItem } from "@/lib/pantry";
+
+export async function listPantryItemsByUsers(userIds: string[]): Promise<PantryItemDto[]> {
+  if (!userIds.length) return [];
+
+  const rows = await db
+    .select()
+    .from(pantryItems)
+    .where(inArray(pantryItems.userId, userIds))
+    // Soonest expiry first, undated items last
+    .orderBy(sql`${pantryItems.expiresAt} ASC NULLS LAST`, asc(pantryItems.name));
+
+  const parsed = z.array(PantryItemSelectBaseSchema).safeParse(rows);
+
+  if (!parsed.success) throw new Error("Failed to parse pantry items");
+
+  return parsed.data;
+}
+
+export async function createPantryItems(
+  items: (PantryItemInsertDto & { id?: string })[]
+): Promise<PantryItemDto[]> {
+  if (!items.length) return [];
+
+  const prepared = items.map((item) => {
+    const parsed = PantryItemInsertBaseSchema.safeParse(item);
+
+    if (!parsed.success) throw new Error("Invalid PantryItemInsertDto in batch");
+
+    return { ...parsed.data, id: item.id, amount: parsed.data.amount?.toString() ?? null };
+  });
+
+  const inserted = await db.insert(pantryItems).values(prepared).returning();
+
+  const parsed = z.array(PantryItemSelectBaseSchema).safeParse(inserted);
+
+  if (!parsed.success) throw new Error("Failed to parse created pantry items");
+
+  return parsed.data;
+}
+
+export async function updatePantryItems(input: PantryItemUpdateDto[]): Promise<PantryItemDto[]> {
+  const parsed = z.array(PantryItemUpdateBaseSchema).safeParse(input);
+
+  if (!parsed.success) throw new Error("Invalid PantryItemUpdateDto array");
+
+  return await db.transaction(async (trx) => {
+    const updatedItems: PantryItemDto[] = [];
+
+    for (const { id, amount, ...rest } of parsed.data) {
+      const [row] = await trx
+        .update(pantryItems)
+        .set({
+          ...rest,
+          ...(amount !== undefined && { amount: amount?.toString() ?? null }),
+          updatedAt: new Date(),
+        })
+        .where(eq(pantryItems.id, id))
+        .returning();
+
+      if (row) {
+        const validated = PantryItemSelectBaseSchema.safeParse(row);
+
+        if (!validated.success) {
+          throw new Error(`Failed to parse updated pantry item (id=${id})`);
+        }
+        updatedItems.push(validated.data);
+      }
+    }
+
+    return updatedItems;
+  });
+}
+
+export async function deletePantryItemsByIds(ids: string[]): Promise<void> {
+  if (ids.length === 0) return;
+
+  await db.delete(pantryItems).where(inArray(pantryItems.id, ids));
+}
+
+/**
+ * Get the owner userIds for multiple pantry items (for permission checks)
+ * Returns a Map of pantryItemId -> userId
+ */
+export async function getPantryItemOwnerIds(ids: string[]): Promise<Map<string, string>> {
+  if (ids.length === 0) return new Map();
+
+  const rows = await db
+    .select({ id: pantryItems.id, userId: pantryItems.userId })
+    .from(pantryItems)
+    .where(inArray(pantryItems.id, ids));
+
+  return new Map(rows.map((r) => [r.id, r.userId]));
+}
+
+/**
+ * Add items to the household pantry, increasing the amount of matching entries
+ * instead of creating duplicates. New entries are owned by `userId`.
+ */
+export async function addItemsToPantry(
+  userId: string,
+  householdUserIds: string[],
+  items: PantryStockItem[],
+  customUnits?: UnitsMap
+): Promise<{ created: PantryItemDto[]; updated: PantryItemDto[] }> {
+  if (!items.length) return { created: [], updated: [] };
+
+  const existing = await listPantryItemsByUsers(householdUserIds);
+  const { updates, creates } = planPantryAdditions(items, existing, customUnits);
+
+  const [created, updated] = await Promise.all([
+    createPantryItems(creates.map((item) => ({ ...item, userId }))),
+    updates.length ? updatePantryItems(updates) : Promise.resolve([]),
+  ]);
+
+  return { created, updated };
+}
@@ -1,10 +1,18 @@
 import type { PlannedRecipeDto, PlannedRecipeViewDto, Slot } from "@/types/dto/planned-recipe";
+import type { PlanIngredient } from "@/lib/plan-groceries";
+import type { PlannedNutritionItem } from "@/lib/nutrition-summary";
+import type { FoodNutrients } from "@/lib/food-composition";
+import type { RecipeListContext } from "./recipes";
 
-import { and, desc, eq, gte, lte, inArray, sql } from "drizzle-orm";
+import { and, asc, desc, eq, gte, lte, inArray, isNull, sql } from "drizzle-orm";
+
+import { getSubRecipes } from "./sub-recipes";
 
 import { db } from "@/server/db/drizzle";
-import { plannedRecipes, recipes } from "@/server/db/schema";
+import { ingredients, plannedRecipes, recipeIngredients, recipes } from "@/server/db/schema";
 import { plannedRecipeViewSchema } from "@/server/db/zodSchemas";
+import { expandSubRecipes } from "@/lib/sub-recipes";
+import { FOOD_NUTRIENTS } from "@/lib/food-composition";
 
 export async function listPlannedRecipesByUserAndRange(
   userId: string,
@@ -20,20 +28,27 @@ export async function listPlannedRecipesByUserAndRange(
       recipeId: plannedRecipes.recipeId,
       date: sql<string>`to_char(${plannedRecipes.date}, 'YYYY-MM-DD')`,
       slot: plannedRecipes.slot,
+      servings: plannedRecipes.servings,
       recipeName: recipes.name,
+      recipeServings: recipes.servings,
     })
     .from(plannedRecipes)
     .where(
       and(
         eq(plannedRecipes.userId, userId),
         gte(plannedRecipes.date, start as any),
-        lte(plannedRecipes.date, end as any)
+        lte(plannedRecipes.date, end as any),
+        // Meals of trashed recipes come back when the recipe is restored
+        isNull(recipes.deletedAt)
       )
     )
     .leftJoin(recipes, eq(recipes.id, plannedRecipes.recipeId))
     .orderBy(desc(plannedRecipes.date));
 
-  return rows as (PlannedRecipeDto & { recipeName: string | null })[];
+  return rows as (PlannedRecipeDto & {
+    recipeName: string | null;
+    recipeServings: number | null;
+  })[];
 }
 
 export async function listPlannedRecipesByUsersAndRange(
@@ -41,7 +56,12 @@ export async function listPlannedRecipesByUsersAndRange(
   startISO: string,
   endISO: string
 ) {
-  if (!userIds.length) return [] as (PlannedRecipeDto & { recipeName: string | null })[];
+  if (!userIds.length) {
+    return [] as (PlannedRecipeDto & {
+      recipeName: string | null;
+      recipeServings: number | null;
+    })[];
+  }
 
   const start = new Date(startISO);
   const end = new Date(endISO);
@@ -52,20 +72,149 @@ export async function listPlannedRecipesByUsersAndRange(
       recipeId: plannedRecipes.recipeId,
       date: sql<string>`to_char(${plannedRecipes.date}, 'YYYY-MM-DD')`,
       slot: plannedRecipes.slot,
+      servings: plannedRecipes.servings,
       recipeName: recipes.name,
+      recipeServings: recipes.servings,
     })
     .from(plannedRecipes)
     .where(
       and(
         inArray(plannedRecipes.userId, userIds),
         gte(plannedRecipes.date, start as any),
-        lte(plannedRecipes.date, end as any)
+        lte(plannedRecipes.date, end as any),
+        isNull(recipes.deletedAt)
       )
     )
     .leftJoin(recipes, eq(recipes.id, plannedRecipes.recipeId))
     .orderBy(desc(plannedRecipes.date));
 
-  return rows as (PlannedRecipeDto & { recipeName: string | null })[];
+  return rows as (PlannedRecipeDto & {
+    recipeName: string | null;
+    recipeServings: number | null;
+  })[];
+}
+
+/**
+ * List the ingredients of every recipe planned by the given users in a date range (inclusive).
+ * Only ingredients in the recipe's active measurement system are returned, and sub-recipes
+ * are only expanded when the viewer can see them.
+ */
+export async function listPlannedRecipeIngredientsByUsersAndRange(
+  userIds: string[],
+  startDate: string,
+  endDate: string,
+  viewer: RecipeListContext
+): Promise<PlanIngredient[]> {
+  if (!userIds.length) return [];
+
+  const rows = await db
+    .select({
+      plannedRecipeId: plannedRecipes.id,
+      recipeId: plannedRecipes.recipeId,
+      recipeName: recipes.name,
+      recipeServings: recipes.servings,
+      servings: sql<number>`coalesce(${plannedRecipes.servings}, ${recipes.servings})`,
+      recipeIngredientId: recipeIngredients.id,
+      name: ingredients.name,
+      amount: recipeIngredients.amount,
+      unit: recipeIngredients.unit,
+      linkedRecipeId: recipeIngredients.linkedRecipeId,
+    })
+    .from(plannedRecipes)
+    .innerJoin(recipes, eq(recipes.id, plannedRecipes.recipeId))
+    .innerJoin(
+      recipeIngredients,
+      and(
+        eq(recipeIngredients.recipeId, recipes.id),
+        eq(recipeIngredients.systemUsed, recipes.systemUsed)
+      )
+    )
+    .innerJoin(ingredients, eq(ingredients.id, recipeIngredients.ingredientId))
+    .where(
+      and(
+        inArray(plannedRecipes.userId, userIds),
+        gte(plannedRecipes.date, startDate),
+        lte(plannedRecipes.date, endDate),
+        isNull(recipes.deletedAt)
+      )
+    )
+    .orderBy(asc(plannedRecipes.date), asc(recipeIngredients.order));
+
+  const linkedIds = rows.map((row) => row.linkedRecipeId).filter((id): id is string => !!id);
+  const subRecipes = linkedIds.length > 0 ? await getSubRecipes(linkedIds, viewer) : new Map();
+
+  // Sub-recipe lines are replaced by the ingredients of the recipes they link to
+  return rows.flatMap(({ linkedRecipeId, ...row }) => {
+    const amount = row.amount !== null ? Number(row.amount) : null;
+
+    if (!linkedRecipeId) return [{ ...row, amount }];
+
+    return expandSubRecipes(
+      [
+        {
+          id: row.recipeIngredientId,
+          ingredientName: row.name,
+          amount,
+          unit: row.unit,
+          linkedRecipeId,
+        },
+      ],
+      subRecipes,
+      new Set([row.recipeId])
+    ).map((leaf) => ({
+      ...row,
+      recipeIngredientId: leaf.id,
+      name: leaf.ingredientName,
+      amount: leaf.amount,
+      unit: leaf.unit,
+    }));
+  });
+}
+
+/**
+ * Nutrition per serving of every recipe planned by the given users in a date range (inclusive),
+ * with the planned servings falling back to the recipe's own.
+ */
+export async function listPlannedRecipeNutritionByUsersAndRange(
+  userIds: string[],
+  startDate: string,
+  endDate: string
+): Promise<PlannedNutritionItem[]> {
+  if (!userIds.length) return [];
+
+  const rows = await db
+    .select({
+      date: sql<string>`to_char(${plannedRecipes.date}, 'YYYY-MM-DD')`,
+      servings: sql<number | null>`coalesce(${plannedRecipes.servings}, ${recipes.servings})`,
+      calories: recipes.calories,
+      fat: recipes.fat,
+      carbs: recipes.carbs,
+      protein: recipes.protein,
+      fiber: recipes.fiber,
+      sugar: recipes.sugar,
+      saturatedFat: recipes.saturatedFat,
+      sodium: recipes.sodium,
+      cholesterol: recipes.cholesterol,
+    })
+    .from(plannedRecipes)
+    .innerJoin(recipes, eq(recipes.id, plannedRecipes.recipeId))
+    .where(
+      and(
+        inArray(plannedRecipes.userId, userIds),
+        gte(plannedRecipes.date, startDate),
+        lte(plannedRecipes.date, endDate),
+        isNull(recipes.deletedAt)
+      )
+    )
+    .orderBy(asc(plannedRecipes.date));
+
+  return rows.map((row) => ({
+    date: row.date,
+    servings: row.servings != null ? Number(row.servings) : null,
+    nutrients: Object.fromEntries(
+      FOOD_NUTRIENTS.map((key) => [key, row[key] != null ? Number(row[key]) : null])
+    ) as FoodNutrients,
+  }));
 }
 
 export async function getPlannedRecipeViewById(id: string): Promise<PlannedRecipeViewDto> {
@@ -75,7 +224,9 @@ export async function getPlannedRecipeViewById(id: string): Promise<PlannedRecip
       recipeId: plannedRecipes.recipeId,
       date: sql<string>`to_char(${plannedRecipes.date}, 'YYYY-MM-DD')`,
       slot: plannedRecipes.slot,
+      servings: plannedRecipes.servings,
       recipeName: recipes.name,
+      recipeServings: recipes.servings,
     })
     .from(plannedRecipes)
     .leftJoin(recipes, eq(recipes.id, plannedRecipes.recipeId))
@@ -126,12 +277,14 @@ export async function getRecipeIdFromPlannedRecipe(id: string) {
 
 export async function updatePlannedRecipeDate(
   id: string,
-  newDate: string
+  newDate: string,
+  newSlot?: Slot
 ): Promise<PlannedRecipeViewDto> {
   await db
     .update(plannedRecipes)
     .set({
       date: newDate,
+      ...(newSlot && { slot: newSlot }),
       updatedAt: new Date(),
     })
     .where(eq(plannedRecipes.id, id));
@@ -139,6 +292,18 @@ export async function updatePlannedRecipeDate(
   return await getPlannedRecipeViewById(id);
 }
 
+export async function updatePlannedRecipeServings(
+  id: string,
+  servings: number | null
+): Promise<PlannedRecipeViewDto> {
+  await db
+    .update(plannedRecipes)
+    .set({ servings, updatedAt: new Date() })
+    .where(eq(plannedRecipes.id, id));
+
+  return await getPlannedRecipeViewById(id);
+}
+
 export async function deletePlannedRecipesBefore(beforeDate: string): Promise<number> {
   const beforeDateObj = new Date(beforeDate);
   const result = await db
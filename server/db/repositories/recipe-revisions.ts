@@ -0,0 +1,166 @@
+import type {
+  AuthorDTO,
+  RecipeRevisionDto,
+  RecipeRevisionSource,
+  RecipeRevisionViewDto,
+} from "@/types";
+
+import { and, desc, eq, lt } from "drizzle-orm";
+import z from "zod";
+
+import { getRecipeFull } from "./recipes";
+import { getUserAuthorInfo } from "./users";
+
+import { db } from "@/server/db/drizzle";
+import { recipeRevisions } from "@/server/db/schema";
+import { RecipeRevisionSelectBaseSchema } from "@/server/db/zodSchemas";
+import { getChangedFields, toRecipeSnapshot } from "@/lib/recipe-revisions";
+
+const HISTORY_LIMIT = 50;
+
+/**
+ * Store the current state of a recipe as a new revision
+ */
+export async function createRecipeRevision(
+  recipeId: string,
+  userId: string | null,
+  source: RecipeRevisionSource
+): Promise<void> {
+  const recipe = await getRecipeFull(recipeId);
+
+  if (!recipe) return;
+
+  await db.insert(recipeRevisions).values({
+    recipeId,
+    userId,
+    source,
+    snapshot: toRecipeSnapshot(recipe),
+  });
+}
+
+/**
+ * Recipes created before revision history, or never changed since, have no revisions.
+ * Store their current state first so the change about to be made can be undone.
+ */
+async function ensureBaselineRevision(recipeId: string): Promise<void> {
+  const [existing] = await db
+    .select({ id: recipeRevisions.id })
+    .from(recipeRevisions)
+    .where(eq(recipeRevisions.recipeId, recipeId))
+    .limit(1);
+
+  if (existing) return;
+
+  const recipe = await getRecipeFull(recipeId);
+
+  if (!recipe) return;
+
+  await db.insert(recipeRevisions).values({
+    recipeId,
+    userId: recipe.userId,
+    source: "original",
+    snapshot: toRecipeSnapshot(recipe),
+    createdAt: recipe.updatedAt,
+  });
+}
+
+/**
+ * Run a write to a recipe and record the result as a revision
+ */
+export async function withRecipeRevision<T>(
+  recipeId: string,
+  userId: string | null,
+  source: RecipeRevisionSource,
+  write: () => Promise<T>
+): Promise<T> {
+  await ensureBaselineRevision(recipeId);
+
+  const result = await write();
+
+  await createRecipeRevision(recipeId, userId, source);
+
+  return result;
+}
+
+export async function getRecipeRevision(
+  recipeId: string,
+  revisionId: string
+): Promise<RecipeRevisionDto | null> {
+  const [row] = await db
+    .select()
+    .from(recipeRevisions)
+    .where(and(eq(recipeRevisions.recipeId, recipeId), eq(recipeRevisions.id, revisionId)))
+    .limit(1);
+
+  if (!row) return null;
+
+  const parsed = RecipeRevisionSelectBaseSchema.safeParse(row);
+
+  if (!parsed.success) throw new Error("Failed to parse recipe revision");
+
+  return parsed.data;
+}
+
+/**
+ * The revision stored right before the given one, or null for the first revision
+ */
+export async function getPreviousRecipeRevision(
+  revision: RecipeRevisionDto
+): Promise<RecipeRevisionDto | null> {
+  const [row] = await db
+    .select()
+    .from(recipeRevisions)
+    .where(
+      and(
+        eq(recipeRevisions.recipeId, revision.recipeId),
+        lt(recipeRevisions.createdAt, revision.createdAt)
+      )
+    )
+    .orderBy(desc(recipeRevisions.createdAt))
+    .limit(1);
+
+  if (!row) return null;
+
+  const parsed = RecipeRevisionSelectBaseSchema.safeParse(row);
+
+  if (!parsed.success) throw new Error("Failed to parse recipe revision");
+
+  return parsed.data;
+}
+
+/**
+ * Latest revisions of a recipe, newest first, with the fields each one changed
+ */
+export async function listRecipeRevisions(recipeId: string): Promise<RecipeRevisionViewDto[]> {
+  // One extra row to compare the oldest listed revision against
+  const rows = await db
+    .select()
+    .from(recipeRevisions)
+    .where(eq(recipeRevisions.recipeId, recipeId))
+    .orderBy(desc(recipeRevisions.createdAt))
+    .limit(HISTORY_LIMIT + 1);
+
+  const parsed = z.array(RecipeRevisionSelectBaseSchema).safeParse(rows);
+
+  if (!parsed.success) throw new Error("Failed to parse recipe revisions");
+
+  const revisions = parsed.data;
+  const userIds = [...new Set(revisions.map((r) => r.userId).filter((id) => id !== null))];
+  const authors = new Map<string, AuthorDTO>();
+
+  await Promise.all(
+    userIds.map(async (id) => {
+      const author = await getUserAuthorInfo(id);
+
+      if (author) authors.set(id, author);
+    })
+  );
+
+  return revisions.slice(0, HISTORY_LIMIT).map((revision, index) => ({
+    id: revision.id,
+    source: revision.source,
+    createdAt: revision.createdAt,
+    author: revision.userId ? authors.get(revision.userId) : undefined,
+    changedFields: getChangedFields(revisions[index + 1]?.snapshot ?? null, revision.snapshot),
+  }));
+}
@@ -0,0 +1,148 @@
+import type { FullRecipeDTO, RecipeShareDto, RecipeShareViewDto, SharedRecipeDto } from "@/types";
+
+import crypto from "crypto";
+
+import { and, desc, eq, gt, isNull, or, sql } from "drizzle-orm";
+import z from "zod";
+
+import { getRecipeFull } from "./recipes";
+
+import { db } from "@/server/db/drizzle";
+import { recipeShares } from "@/server/db/schema";
+import {
+  RecipeShareSelectBaseSchema,
+  RecipeShareViewSchema,
+  SharedRecipeSchema,
+} from "@/server/db/zodSchemas";
+
+/**
+ * Generate an unguessable URL-safe share token
+ */
+export function generateShareToken(): string {
+  return crypto.randomBytes(24).toString("base64url");
+}
+
+/**
+ * SQL condition for shares that are neither revoked nor expired
+ */
+function activeShareCondition() {
+  return and(
+    isNull(recipeShares.revokedAt),
+    or(isNull(recipeShares.expiresAt), gt(recipeShares.expiresAt, new Date()))
+  );
+}
+
+export async function createRecipeShare(
+  recipeId: string,
+  userId: string,
+  expiresAt: Date | null
+): Promise<RecipeShareViewDto> {
+  const [row] = await db
+    .insert(recipeShares)
+    .values({ recipeId, userId, token: generateShareToken(), expiresAt })
+    .returning();
+
+  return RecipeShareViewSchema.parse(row);
+}
+
+/**
+ * List active share links for a recipe, newest first
+ */
+export async function listActiveRecipeShares(recipeId: string): Promise<RecipeShareViewDto[]> {
+  const rows = await db
+    .select()
+    .from(recipeShares)
+    .where(and(eq(recipeShares.recipeId, recipeId), activeShareCondition()))
+    .orderBy(desc(recipeShares.createdAt));
+
+  const parsed = z.array(RecipeShareViewSchema).safeParse(rows);
+
+  if (!parsed.success) throw new Error("Failed to parse recipe shares");
+
+  return parsed.data;
+}
+
+export async function getRecipeShareById(id: string): Promise<RecipeShareDto | null> {
+  const [row] = await db.select().from(recipeShares).where(eq(recipeShares.id, id)).limit(1);
+
+  return row ? RecipeShareSelectBaseSchema.parse(row) : null;
+}
+
+/**
+ * Resolve a token to its share link. Returns null when unknown, revoked or expired.
+ */
+export async function getActiveRecipeShareByToken(token: string): Promise<RecipeShareDto | null> {
+  const [row] = await db
+    .select()
+    .from(recipeShares)
+    .where(and(eq(recipeShares.token, token), activeShareCondition()))
+    .limit(1);
+
+  return row ? RecipeShareSelectBaseSchema.parse(row) : null;
+}
+
+/**
+ * Revoke a share link. Revoked links stop resolving immediately but are kept for their view count.
+ */
+export async function revokeRecipeShare(id: string): Promise<void> {
+  await db
+    .update(recipeShares)
+    .set({ revokedAt: new Date(), updatedAt: new Date() })
+    .where(and(eq(recipeShares.id, id), isNull(recipeShares.revokedAt)));
+}
+
+export async function recordRecipeShareView(id: string): Promise<void> {
+  await db
+    .update(recipeShares)
+    .set({ viewCount: sql`${recipeShares.viewCount} + 1`, lastViewedAt: new Date() })
+    .where(eq(recipeShares.id, id));
+}
+
+/**
+ * Point a recipe media URL (/recipes/{id}/...) at the public share route (/share/{token}/...)
+ */
+function toSharedMediaUrl(url: string, recipeId: string, token: string): string {
+  const prefix = `/recipes/${recipeId}/`;
+
+  return url.startsWith(prefix) ? `/share/${token}/${url.slice(prefix.length)}` : url;
+}
+
+/**
+ * Strip owner details from a recipe and rewrite its media URLs to the share route
+ */
+export function toSharedRecipe(recipe: FullRecipeDTO, token: string): SharedRecipeDto {
+  const media = (url: string) => toSharedMediaUrl(url, recipe.id, token);
+
+  return SharedRecipeSchema.parse({
+    ...recipe,
+    image: recipe.image ? media(recipe.image) : recipe.image,
+    images: recipe.images.map((img) => ({ ...img, image: media(img.image) })),
+    videos: recipe.videos.map((vid) => ({
+      ...vid,
+      video: media(vid.video),
+      thumbnail: vid.thumbnail ? media(vid.thumbnail) : vid.thumbnail,
+    })),
+    steps: recipe.steps.map((step) => ({
+      ...step,
+      images: step.images.map((img) => ({ ...img, image: media(img.image) })),
+    })),
+  });
+}
+
+/**
+ * Resolve a share token to its public recipe and count the view.
+ * Returns null when the token is unknown, revoked or expired, or the recipe is gone.
+ */
+export async function getSharedRecipeByToken(token: string): Promise<SharedRecipeDto | null> {
+  const share = await getActiveRecipeShareByToken(token);
+
+  if (!share) return null;
+
+  const recipe = await getRecipeFull(share.recipeId);
+
+  if (!recipe) return null;
+
+  await recordRecipeShareView(share.id);
+
+  return toSharedRecipe(recipe, token);
+}
@@ -1,4 +1,4 @@
-import { eq, ilike, inArray, and, asc, desc, sql, or } from "drizzle-orm";
+import { eq, ilike, inArray, and, asc, desc, sql, or, isNull, isNotNull, lt } from "drizzle-orm";
 import z from "zod";
 
 import { db } from "../drizzle";
@@ -17,11 +17,14 @@ import {
   FullRecipeInsertSchema,
   FullRecipeSchema,
   FullRecipeUpdateSchema,
+  RecipeTrashItemSchema,
 } from "../zodSchemas";
 
 import { attachIngredientsToRecipeByInputTx } from "./ingredients";
 import { createManyRecipeStepsTx } from "./steps";
 import { attachTagsToRecipeByInputTx } from "./tags";
+import { withRecipeRevision } from "./recipe-revisions";
+import { getRecipeViewer } from "./sub-recipes";
 
 import { stripHtmlTags } from "@/lib/helpers";
 import { deleteRecipeImagesDir } from "@/server/downloader";
@@ -36,6 +39,11 @@ import {
   RecipeIngredientsDto,
   FullRecipeUpdateDTO,
   SearchField,
+  NutritionFilterKey,
+  NutritionLimits,
+  RecipeRevisionSource,
+  RecipeTrashItemDTO,
+  AuthorDTO,
 } from "@/types";
 import { StepDto, StepInsertDto } from "@/types/dto/steps";
 import { getRecipePermissionPolicy } from "@/config/server-config-loader";
@@ -45,17 +53,74 @@ function nonEmpty(s: string | null | undefined): s is string {
   return typeof s === "string" && s.trim().length > 0;
 }
 
+/** Recipes in the trash are left out of every read except the trash itself */
+const notTrashed = isNull(recipes.deletedAt);
+
 export async function GetTotalRecipeCount(): Promise<number> {
-  const result = await db.select({ count: sql<number>`count(*)` }).from(recipes);
+  const result = await db
+    .select({ count: sql<number>`count(*)` })
+    .from(recipes)
+    .where(notTrashed);
 
   return Number(result?.[0]?.count ?? 0);
 }
 
+/**
+ * Permanently delete a recipe and its media. Everything attached to it cascades.
+ */
 export async function deleteRecipeById(id: string): Promise<void> {
   await deleteRecipeImagesDir(id);
   await db.delete(recipes).where(eq(recipes.id, id));
 }
 
+/**
+ * Move a recipe to the trash. Returns false if it was not found or already trashed.
+ */
+export async function trashRecipeById(id: string, userId: string): Promise<boolean> {
+  const rows = await db
+    .update(recipes)
+    .set({ deletedAt: new Date(), deletedBy: userId })
+    .where(and(eq(recipes.id, id), notTrashed))
+    .returning({ id: recipes.id });
+
+  return rows.length > 0;
+}
+
+/**
+ * Take a recipe out of the trash. Returns false if it was not in the trash.
+ */
+export async function restoreRecipeById(id: string): Promise<boolean> {
+  const rows = await db
+    .update(recipes)
+    .set({ deletedAt: null, deletedBy: null })
+    .where(and(eq(recipes.id, id), isNotNull(recipes.deletedAt)))
+    .returning({ id: recipes.id });
+
+  return rows.length > 0;
+}
+
+export async function isRecipeTrashed(id: string): Promise<boolean> {
+  const [row] = await db
+    .select({ id: recipes.id })
+    .from(recipes)
+    .where(and(eq(recipes.id, id), isNotNull(recipes.deletedAt)))
+    .limit(1);
+
+  return !!row;
+}
+
+/**
+ * IDs of recipes that were moved to the trash before the cutoff
+ */
+export async function listTrashedRecipeIdsBefore(cutoff: Date): Promise<string[]> {
+  const rows = await db
+    .select({ id: recipes.id })
+    .from(recipes)
+    .where(lt(recipes.deletedAt, cutoff));
+
+  return rows.map((r) => r.id);
+}
+
 /**
  * Get the owner userId for a recipe (for permission checks)
  */
@@ -69,9 +134,19 @@ export async function getRecipeOwnerId(recipeId: string): Promise<string | null>
   return row?.userId ?? null;
 }
 
+export async function recipeExists(recipeId: string): Promise<boolean> {
+  const [row] = await db
+    .select({ id: recipes.id })
+    .from(recipes)
+    .where(and(eq(recipes.id, recipeId), notTrashed))
+    .limit(1);
+
+  return !!row;
+}
+
 export async function getRecipeByUrl(url: string): Promise<FullRecipeDTO | null> {
   const rows = await db.query.recipes.findFirst({
-    where: eq(recipes.url, url),
+    where: and(eq(recipes.url, url), notTrashed),
     columns: { id: true },
   });
 
@@ -126,7 +201,7 @@ export async function recipeExistsByUrlForPolicy(
   }
 
   const existing = await db.query.recipes.findFirst({
-    where: whereCondition,
+    where: and(whereCondition, notTrashed),
     columns: { id: true },
   });
 
@@ -153,7 +228,7 @@ export async function findExistingRecipe(
   // First try to find by URL if provided (most reliable)
   if (url && url.trim()) {
     const byUrl = await db.query.recipes.findFirst({
-      where: and(inArray(recipes.userId, userIds), eq(recipes.url, url.trim())),
+      where: and(inArray(recipes.userId, userIds), eq(recipes.url, url.trim()), notTrashed),
       columns: { id: true },
     });
 
@@ -169,7 +244,7 @@ export async function findExistingRecipe(
 
   if (trimmedTitle) {
     const byTitle = await db.query.recipes.findFirst({
-      where: and(inArray(recipes.userId, userIds), ilike(recipes.name, trimmedTitle)),
+      where: and(inArray(recipes.userId, userIds), ilike(recipes.name, trimmedTitle), notTrashed),
       columns: { id: true },
     });
 
@@ -244,9 +319,15 @@ export async function listRecipes(
   tagNames?: string[],
   filterMode: FilterMode = "OR",
   sortMode: SortOrder = "dateDesc",
-  minRating?: number
+  minRating?: number,
+  maxNutrition: NutritionLimits = {}
 ): Promise<{ recipes: RecipeDashboardDTO[]; total: number }> {
-  const whereConditions: any[] = [];
+  const whereConditions: any[] = [notTrashed];
+
+  // Recipes without the nutrient don't pass a limit on it
+  for (const [key, max] of Object.entries(maxNutrition) as [NutritionFilterKey, number][]) {
+    whereConditions.push(sql`${recipes[key]} <= ${max}`);
+  }
 
   // Apply view policy filtering
   const policyCondition = await buildViewPolicyCondition(ctx);
@@ -380,7 +461,7 @@ export async function listRecipes(
     whereConditions.push(inArray(recipes.id, tagFilteredIds));
   }
 
-  const whereClause = whereConditions.length ? and(...whereConditions) : undefined;
+  const whereClause = and(...whereConditions);
 
   const sortMap = {
     titleAsc: asc(recipes.name),
@@ -477,9 +558,83 @@ export async function listRecipes(
   };
 }
 
+/**
+ * List the IDs of all recipes the user can view (used for archive exports).
+ * When recipeIds is provided, only those IDs are considered.
+ */
+export async function listViewableRecipeIds(
+  ctx: RecipeListContext,
+  recipeIds?: string[]
+): Promise<string[]> {
+  const whereConditions: any[] = [notTrashed];
+
+  const policyCondition = await buildViewPolicyCondition(ctx);
+
+  if (policyCondition) {
+    whereConditions.push(policyCondition);
+  }
+
+  if (recipeIds) {
+    if (recipeIds.length === 0) return [];
+
+    whereConditions.push(inArray(recipes.id, recipeIds));
+  }
+
+  const whereClause = and(...whereConditions);
+  const rows = await db
+    .select({ id: recipes.id })
+    .from(recipes)
+    .where(whereClause)
+    .orderBy(asc(recipes.name));
+
+  return rows.map((r) => r.id);
+}
+
+/**
+ * Recipes in the trash that the user can view, most recently deleted first
+ */
+export async function listTrashedRecipes(ctx: RecipeListContext): Promise<RecipeTrashItemDTO[]> {
+  const policyCondition = await buildViewPolicyCondition(ctx);
+  const rows = await db
+    .select({
+      id: recipes.id,
+      userId: recipes.userId,
+      name: recipes.name,
+      image: recipes.image,
+      deletedAt: recipes.deletedAt,
+      deletedBy: recipes.deletedBy,
+    })
+    .from(recipes)
+    .where(and(isNotNull(recipes.deletedAt), policyCondition))
+    .orderBy(desc(recipes.deletedAt));
+
+  const { getUserAuthorInfo } = await import("./users");
+  const deleterIds = [...new Set(rows.map((r) => r.deletedBy).filter((id) => id !== null))];
+  const deleters = new Map<string, AuthorDTO>();
+
+  await Promise.all(
+    deleterIds.map(async (id) => {
+      const author = await getUserAuthorInfo(id);
+
+      if (author) deleters.set(id, author);
+    })
+  );
+
+  const parsed = z.array(RecipeTrashItemSchema).safeParse(
+    rows.map((r) => ({
+      ...r,
+      deletedBy: r.deletedBy ? deleters.get(r.deletedBy) : undefined,
+    }))
+  );
+
+  if (!parsed.success) throw new Error("Failed to parse trashed recipes");
+
+  return parsed.data;
+}
+
 export async function dashboardRecipe(id: string): Promise<RecipeDashboardDTO | null> {
   const rows = await db.query.recipes.findMany({
-    where: eq(recipes.id, id),
+    where: and(eq(recipes.id, id), notTrashed),
     columns: {
       id: true,
       userId: true,
@@ -574,6 +729,11 @@ export async function createRecipeWithRefs(
     fat: payload.fat ?? null,
     carbs: payload.carbs ?? null,
     protein: payload.protein ?? null,
+    fiber: payload.fiber ?? null,
+    sugar: payload.sugar ?? null,
+    saturatedFat: payload.saturatedFat ?? null,
+    sodium: payload.sodium ?? null,
+    cholesterol: payload.cholesterol ?? null,
   };
 
   const finalRecipeId = await db.transaction(async (tx) => {
@@ -586,13 +746,22 @@ export async function createRecipeWithRefs(
     if (!inserted) {
       const existing = await tx.query.recipes.findFirst({
         where: and(eq(recipes.url, toInsert.url!), eq(recipes.userId, userId ?? "")),
-        columns: { id: true },
+        columns: { id: true, deletedAt: true },
       });
 
       if (!existing) {
         throw new Error("Failed to save recipe");
       }
 
+      // Importing a recipe that is in the trash brings the trashed one back
+      if (existing.deletedAt) {
+        await tx
+          .update(recipes)
+          .set({ deletedAt: null, deletedBy: null })
+          .where(eq(recipes.id, existing.id));
+        dbLogger.info({ recipeId: existing.id }, "Restored trashed recipe on re-import");
+      }
+
       return existing.id;
     }
 
@@ -612,7 +781,8 @@ export async function createRecipeWithRefs(
         payload.recipeIngredients.map((ri) => ({
           ...ri,
           recipeId: rid,
-        }))
+        })),
+        await getRecipeViewer(userId)
       );
     }
 
@@ -665,7 +835,7 @@ export async function setActiveSystemForRecipe(
 
 export async function getRecipeFull(id: string): Promise<FullRecipeDTO | null> {
   const full = await db.query.recipes.findFirst({
-    where: eq(recipes.id, id),
+    where: and(eq(recipes.id, id), notTrashed),
     columns: {
       id: true,
       userId: true,
@@ -682,6 +852,11 @@ export async function getRecipeFull(id: string): Promise<FullRecipeDTO | null> {
       fat: true,
       carbs: true,
       protein: true,
+      fiber: true,
+      sugar: true,
+      saturatedFat: true,
+      sodium: true,
+      cholesterol: true,
       createdAt: true,
       updatedAt: true,
     },
@@ -699,11 +874,19 @@ export async function getRecipeFull(id: string): Promise<FullRecipeDTO | null> {
           unit: true,
           systemUsed: true,
           order: true,
+          section: true,
+          linkedRecipeId: true,
         },
         with: { ingredient: { columns: { name: true } } },
       },
       steps: {
-        columns: { step: true, systemUsed: true, order: true },
+        columns: {
+          step: true,
+          systemUsed: true,
+          order: true,
+          section: true,
+          ingredientOrders: true,
+        },
         with: {
           images: {
             columns: { id: true, image: true, order: true },
@@ -751,10 +934,17 @@ export async function getRecipeFull(id: string): Promise<FullRecipeDTO | null> {
     fat: full.fat ?? null,
     carbs: full.carbs ?? null,
     protein: full.protein ?? null,
+    fiber: full.fiber ?? null,
+    sugar: full.sugar ?? null,
+    saturatedFat: full.saturatedFat ?? null,
+    sodium: full.sodium ?? null,
+    cholesterol: full.cholesterol ?? null,
     steps: ((full.steps as any) ?? []).map((s: any) => ({
       step: s.step,
       systemUsed: s.systemUsed,
       order: s.order,
+      section: s.section ?? null,
+      ingredientOrders: s.ingredientOrders ?? null,
       images: (s.images ?? []).map((img: any) => ({
         id: img.id,
         image: img.image,
@@ -775,6 +965,8 @@ export async function getRecipeFull(id: string): Promise<FullRecipeDTO | null> {
       systemUsed: ri.systemUsed,
       ingredientName: ri.ingredient?.name ?? "",
       order: ri.order,
+      section: ri.section ?? null,
+      linkedRecipeId: ri.linkedRecipeId ?? null,
     })),
     author,
     images: (full.images ?? []).map((img: any) => ({
@@ -804,7 +996,8 @@ export async function getRecipeFull(id: string): Promise<FullRecipeDTO | null> {
 
 export async function addStepsAndIngredientsToRecipeByInput(
   steps: StepInsertDto[],
-  ingredients: RecipeIngredientInsertDto[]
+  ingredients: RecipeIngredientInsertDto[],
+  userId: string | null
 ): Promise<{ steps: StepDto[]; ingredients: RecipeIngredientsDto[] }> {
   if (!steps?.length && !ingredients?.length) {
     return { steps: [], ingredients: [] };
@@ -814,12 +1007,17 @@ export async function addStepsAndIngredientsToRecipeByInput(
     let createdSteps: StepDto[] = [];
     let createdIngredients: RecipeIngredientsDto[] = [];
 
-    if (steps?.length) {
-      createdSteps = await createManyRecipeStepsTx(tx, steps);
+    // Ingredients go first so steps can be linked to them
+    if (ingredients?.length) {
+      createdIngredients = await attachIngredientsToRecipeByInputTx(
+        tx,
+        ingredients,
+        await getRecipeViewer(userId)
+      );
     }
 
-    if (ingredients?.length) {
-      createdIngredients = await attachIngredientsToRecipeByInputTx(tx, ingredients);
+    if (steps?.length) {
+      createdSteps = await createManyRecipeStepsTx(tx, steps);
     }
 
     return {
@@ -829,10 +1027,15 @@ export async function addStepsAndIngredientsToRecipeByInput(
   });
 }
 
+/**
+ * Update a recipe and its ingredients, steps, tags and media.
+ * Every update is recorded in the recipe's revision history.
+ */
 export async function updateRecipeWithRefs(
   recipeId: string,
   userId: string,
-  input: FullRecipeUpdateDTO
+  input: FullRecipeUpdateDTO,
+  source: RecipeRevisionSource = "edit"
 ): Promise<void> {
   const parsed = FullRecipeUpdateSchema.safeParse(input);
 
@@ -842,6 +1045,16 @@ export async function updateRecipeWithRefs(
 
   const payload = parsed.data;
 
+  await withRecipeRevision(recipeId, userId, source, () =>
+    updateRecipeTx(recipeId, userId, payload)
+  );
+}
+
+async function updateRecipeTx(
+  recipeId: string,
+  userId: string,
+  payload: z.output<typeof FullRecipeUpdateSchema>
+): Promise<void> {
   await db.transaction(async (tx) => {
     // Update recipe base fields
     const updateData: any = {};
@@ -860,6 +1073,11 @@ export async function updateRecipeWithRefs(
     if (payload.fat !== undefined) updateData.fat = payload.fat;
     if (payload.carbs !== undefined) updateData.carbs = payload.carbs;
     if (payload.protein !== undefined) updateData.protein = payload.protein;
+    if (payload.fiber !== undefined) updateData.fiber = payload.fiber;
+    if (payload.sugar !== undefined) updateData.sugar = payload.sugar;
+    if (payload.saturatedFat !== undefined) updateData.saturatedFat = payload.saturatedFat;
+    if (payload.sodium !== undefined) updateData.sodium = payload.sodium;
+    if (payload.cholesterol !== undefined) updateData.cholesterol = payload.cholesterol;
 
     updateData.updatedAt = new Date();
 
@@ -892,7 +1110,8 @@ export async function updateRecipeWithRefs(
             ingredientId: ri.ingredientId ?? null,
             amount: ri.amount ?? null,
             order: ri.order ?? 0,
-          }))
+          })),
+          await getRecipeViewer(userId)
         );
       }
     }
@@ -957,7 +1176,7 @@ export async function searchRecipesByName(
   query: string,
   limit: number = 10
 ): Promise<{ id: string; name: string; image: string | null }[]> {
-  const whereConditions: any[] = [];
+  const whereConditions: any[] = [notTrashed];
 
   const policyCondition = await buildViewPolicyCondition(ctx);
 
@@ -966,7 +1185,7 @@ export async function searchRecipesByName(
   }
 
   whereConditions.push(ilike(recipes.name, `%${query}%`));
-  const whereClause = whereConditions.length ? and(...whereConditions) : undefined;
+  const whereClause = and(...whereConditions);
   const rows = await db
     .select({ id: recipes.id, name: recipes.name, image: recipes.image })
     .from(recipes)
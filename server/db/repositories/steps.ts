@@ -3,10 +3,12 @@ import type { StepDto, StepInsertDto } from "@/types/dto/steps";
 import { and, eq, inArray } from "drizzle-orm";
 import { z } from "zod";
 
-import { steps, stepImages } from "@/server/db/schema";
+import { ingredients, recipeIngredients, steps, stepImages } from "@/server/db/schema";
 import { StepSelectBaseSchema } from "@/server/db/zodSchemas/steps";
 import { dbLogger } from "@/server/logger";
 import { stripHtmlTags } from "@/lib/helpers";
+import { applySectionHeadings } from "@/lib/recipe-sections";
+import { matchStepIngredients, type StepIngredientCandidate } from "@/lib/step-ingredients";
 
 const StepArraySchema = z.array(StepSelectBaseSchema);
 
@@ -14,15 +16,58 @@ export type StepInsertWithImages = StepInsertDto & {
   images?: { image: string; order: number }[];
 };
 
+/**
+ * Link steps saved without ingredient links (editor saves, most imports) to the
+ * ingredients named in their text. Expects the recipe's ingredients to be saved first.
+ */
+async function withIngredientOrdersTx<
+  T extends { recipeId?: string; step: string; systemUsed?: string | null },
+>(tx: any, items: (T & { ingredientOrders?: number[] | null })[]): Promise<T[]> {
+  const recipeIds = Array.from(
+    new Set(
+      items
+        .filter((s) => s.ingredientOrders === undefined)
+        .map((s) => s.recipeId)
+        .filter((id): id is string => !!id)
+    )
+  );
+
+  if (!recipeIds.length) return items;
+
+  const rows: (StepIngredientCandidate & { recipeId: string })[] = await tx
+    .select({
+      recipeId: recipeIngredients.recipeId,
+      ingredientName: ingredients.name,
+      order: recipeIngredients.order,
+      systemUsed: recipeIngredients.systemUsed,
+    })
+    .from(recipeIngredients)
+    .innerJoin(ingredients, eq(ingredients.id, recipeIngredients.ingredientId))
+    .where(inArray(recipeIngredients.recipeId, recipeIds));
+
+  return items.map((s) => {
+    if (s.ingredientOrders !== undefined) return s;
+
+    const candidates = rows
+      .filter((r) => r.recipeId === s.recipeId && r.systemUsed === (s.systemUsed ?? "metric"))
+      .map((r) => ({ ...r, order: Number(r.order) }));
+
+    return { ...s, ingredientOrders: matchStepIngredients(s.step, candidates) };
+  });
+}
+
 export async function createManyRecipeStepsTx(
   tx: any,
   rawSteps: StepInsertWithImages[]
 ): Promise<StepDto[]> {
   if (!rawSteps.length) return [];
 
-  const cleaned = rawSteps
-    .map((s) => ({ ...s, step: stripHtmlTags(s.step) }))
-    .filter((s) => s.step.length > 0 && s.recipeId);
+  const cleaned = await withIngredientOrdersTx(
+    tx,
+    applySectionHeadings(rawSteps, (s) => s.step)
+      .map((s) => ({ ...s, step: stripHtmlTags(s.step) }))
+      .filter((s) => s.step.length > 0 && s.recipeId)
+  );
 
   if (cleaned.length === 0) return [];
 
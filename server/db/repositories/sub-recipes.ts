@@ -0,0 +1,165 @@
+import type { ExpandedIngredient, SubRecipe } from "@/lib/sub-recipes";
+import type { RecipeListContext } from "./recipes";
+
+import { and, asc, eq, inArray, isNull } from "drizzle-orm";
+
+import { getHouseholdMemberIds } from "./households";
+import { isUserServerAdmin } from "./users";
+
+import { db } from "@/server/db/drizzle";
+import { ingredients, recipeIngredients, recipes } from "@/server/db/schema";
+import { expandSubRecipes } from "@/lib/sub-recipes";
+import { canAccessResource } from "@/server/auth/permissions";
+
+/** Links nested deeper than this are not followed */
+const MAX_SUB_RECIPE_DEPTH = 10;
+
+/**
+ * Permission context of a user for checking which linked recipes they can view,
+ * null without a user.
+ */
+export async function getRecipeViewer(
+  userId: string | null | undefined
+): Promise<RecipeListContext | null> {
+  if (!userId) return null;
+
+  const [householdUserIds, isServerAdmin] = await Promise.all([
+    getHouseholdMemberIds(userId),
+    isUserServerAdmin(userId),
+  ]);
+
+  return { userId, householdUserIds, isServerAdmin };
+}
+
+/**
+ * Ids of the given recipes the viewer may see. Recipes without an owner are visible to everyone,
+ * a missing viewer sees nothing else.
+ */
+export async function getViewableRecipeIds(
+  viewer: RecipeListContext | null,
+  targets: { id: string; userId: string | null }[]
+): Promise<Set<string>> {
+  const viewable = new Set<string>();
+  const byOwner = new Map<string, boolean>();
+
+  for (const target of targets) {
+    if (!target.userId) {
+      viewable.add(target.id);
+      continue;
+    }
+
+    if (!viewer) continue;
+
+    let allowed = byOwner.get(target.userId);
+
+    if (allowed === undefined) {
+      allowed = await canAccessResource(
+        "view",
+        viewer.userId,
+        target.userId,
+        viewer.householdUserIds,
+        viewer.isServerAdmin
+      );
+      byOwner.set(target.userId, allowed);
+    }
+
+    if (allowed) viewable.add(target.id);
+  }
+
+  return viewable;
+}
+
+/**
+ * Load the given recipes and every recipe reachable from them through ingredient links,
+ * with the ingredients of their active measurement system. Recipes in the trash and
+ * recipes the viewer cannot see are left out.
+ */
+export async function getSubRecipes(
+  recipeIds: string[],
+  viewer: RecipeListContext | null
+): Promise<Map<string, SubRecipe>> {
+  const loaded = new Map<string, SubRecipe>();
+  let pending = Array.from(new Set(recipeIds));
+
+  for (let depth = 0; pending.length > 0 && depth <= MAX_SUB_RECIPE_DEPTH; depth++) {
+    const rows = await db
+      .select({
+        recipeId: recipes.id,
+        recipeName: recipes.name,
+        ownerId: recipes.userId,
+        servings: recipes.servings,
+        id: recipeIngredients.id,
+        ingredientName: ingredients.name,
+        amount: recipeIngredients.amount,
+        unit: recipeIngredients.unit,
+        linkedRecipeId: recipeIngredients.linkedRecipeId,
+      })
+      .from(recipes)
+      .leftJoin(
+        recipeIngredients,
+        and(
+          eq(recipeIngredients.recipeId, recipes.id),
+          eq(recipeIngredients.systemUsed, recipes.systemUsed)
+        )
+      )
+      .leftJoin(ingredients, eq(recipeIngredients.ingredientId, ingredients.id))
+      .where(and(inArray(recipes.id, pending), isNull(recipes.deletedAt)))
+      .orderBy(asc(recipeIngredients.order));
+
+    const viewable = await getViewableRecipeIds(
+      viewer,
+      rows.map((row) => ({ id: row.recipeId, userId: row.ownerId }))
+    );
+    const visibleRows = rows.filter((row) => viewable.has(row.recipeId));
+
+    for (const row of visibleRows) {
+      let recipe = loaded.get(row.recipeId);
+
+      if (!recipe) {
+        recipe = {
+          id: row.recipeId,
+          name: row.recipeName,
+          servings: row.servings ?? 1,
+          ingredients: [],
+        };
+        loaded.set(row.recipeId, recipe);
+      }
+
+      if (row.id) {
+        recipe.ingredients.push({
+          id: row.id,
+          ingredientName: row.ingredientName ?? "",
+          amount: row.amount != null ? Number(row.amount) : null,
+          unit: row.unit,
+          linkedRecipeId: row.linkedRecipeId,
+        });
+      }
+    }
+
+    pending = Array.from(
+      new Set(
+        visibleRows
+          .map((row) => row.linkedRecipeId)
+          .filter((id): id is string => !!id && !loaded.has(id))
+      )
+    );
+  }
+
+  return loaded;
+}
+
+/**
+ * Ingredients of a recipe's active measurement system with sub-recipes expanded,
+ * null when the recipe does not exist, is in the trash or cannot be viewed.
+ */
+export async function getExpandedRecipeIngredients(
+  recipeId: string,
+  viewer: RecipeListContext | null
+): Promise<ExpandedIngredient[] | null> {
+  const subRecipes = await getSubRecipes([recipeId], viewer);
+  const recipe = subRecipes.get(recipeId);
+
+  if (!recipe) return null;
+
+  return expandSubRecipes(recipe.ingredients, subRecipes, new Set([recipeId]));
+}
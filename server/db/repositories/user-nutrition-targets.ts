@@ -0,0 +1,35 @@
+import type { NutritionTargets } from "@/lib/nutrition-summary";
+
+import { eq } from "drizzle-orm";
+
+import { db } from "@/server/db/drizzle";
+import { userNutritionTargets } from "@/server/db/schema";
+import { FOOD_NUTRIENTS } from "@/lib/food-composition";
+
+export async function getUserNutritionTargets(userId: string): Promise<NutritionTargets> {
+  const [row] = await db
+    .select()
+    .from(userNutritionTargets)
+    .where(eq(userNutritionTargets.userId, userId));
+
+  if (!row) return {};
+
+  return Object.fromEntries(
+    FOOD_NUTRIENTS.filter((key) => row[key] != null).map((key) => [key, Number(row[key])])
+  );
+}
+
+/** Replace all targets of a user; nutrients missing from `targets` lose their target */
+export async function updateUserNutritionTargets(
+  userId: string,
+  targets: NutritionTargets
+): Promise<void> {
+  const values = Object.fromEntries(
+    FOOD_NUTRIENTS.map((key) => [key, targets[key] != null ? targets[key].toString() : null])
+  );
+
+  await db
+    .insert(userNutritionTargets)
+    .values({ userId, ...values })
+    .onConflictDoUpdate({ target: userNutritionTargets.userId, set: values });
+}
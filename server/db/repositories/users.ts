@@ -284,6 +284,16 @@ export async function getAllUserIds(): Promise<string[]> {
   return result.map((u) => u.id);
 }
 
+/** Id and name of every user, for admin pickers */
+export async function getAllUserNames(): Promise<Array<{ id: string; name: string | null }>> {
+  const result = await db.select({ id: users.id, name: users.name }).from(users);
+
+  return result.map((u) => ({
+    id: u.id,
+    name: u.name ? decrypt(u.name) : null,
+  }));
+}
+
 export async function getUsersByIds(
   userIds: string[]
 ): Promise<Array<{ id: string; name: string | null }>> {
@@ -0,0 +1,39 @@
+import { index, integer, pgEnum, pgTable, text, timestamp, uuid } from "drizzle-orm/pg-core";
+
+import { users } from "./auth";
+
+export const aiUsageFeatures = [
+  "recipe_extraction",
+  "image_extraction",
+  "video_extraction",
+  "transcription",
+  "unit_conversion",
+  "nutrition_estimation",
+  "auto_tagging",
+  "allergy_detection",
+] as const;
+export const aiUsageFeatureEnum = pgEnum("ai_usage_feature", [...aiUsageFeatures]);
+
+/**
+ * One row per AI provider call, with the tokens it used.
+ * Summed per month for the admin usage dashboard and the monthly quotas.
+ */
+export const aiUsage = pgTable(
+  "ai_usage",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    // Who the call was made for; null once the user is deleted or for calls without a user
+    userId: text("user_id").references(() => users.id, { onDelete: "set null" }),
+    feature: aiUsageFeatureEnum("feature").notNull(),
+    provider: text("provider").notNull(),
+    model: text("model").notNull(),
+    inputTokens: integer("input_tokens").notNull().default(0),
+    outputTokens: integer("output_tokens").notNull().default(0),
+    totalTokens: integer("total_tokens").notNull().default(0),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (t) => [
+    index("idx_ai_usage_user_created").on(t.userId, t.createdAt),
+    index("idx_ai_usage_created").on(t.createdAt),
+  ]
+);
@@ -16,6 +16,9 @@ export const userCaldavConfig = pgTable("user_caldav_config", {
   lunchTime: text("lunch_time").notNull().default("12:00-13:00"),
   dinnerTime: text("dinner_time").notNull().default("18:00-19:00"),
   snackTime: text("snack_time").notNull().default("15:00-15:30"),
+  timezone: text("timezone").notNull().default("UTC"), // IANA zone the slot times are local to
+  lastPullCtag: text("last_pull_ctag"), // Calendar ctag at the last pull, skips unchanged calendars
+  lastPullAt: timestamp("last_pull_at", { withTimezone: true }),
   createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
   updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
 });
@@ -30,6 +30,7 @@ export const caldavSyncStatus = pgTable(
     eventTitle: text("event_title").notNull(),
     syncStatus: caldavSyncStatusEnum("sync_status").notNull().default("pending"),
     caldavEventUid: text("caldav_event_uid"),
+    caldavEtag: text("caldav_etag"), // ETag of the event as last written or seen, for change detection
     retryCount: integer("retry_count").notNull().default(0),
     errorMessage: varchar("error_message", { length: 500 }),
     lastSyncAt: timestamp("last_sync_at", { withTimezone: true }),
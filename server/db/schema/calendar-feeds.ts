@@ -0,0 +1,22 @@
+import { pgEnum, pgTable, text, timestamp, unique, uuid } from "drizzle-orm/pg-core";
+
+import { users } from "./auth";
+
+export const calendarFeedScopes = ["user", "household"] as const;
+export const calendarFeedScopeEnum = pgEnum("calendar_feed_scope", [...calendarFeedScopes]);
+
+export const calendarFeeds = pgTable(
+  "calendar_feeds",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    userId: text("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    scope: calendarFeedScopeEnum("scope").notNull(),
+    token: text("token").notNull().unique(),
+    lastAccessedAt: timestamp("last_accessed_at", { withTimezone: true }),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (t) => [unique("uq_calendar_feeds_user_scope").on(t.userId, t.scope)]
+);
@@ -0,0 +1,29 @@
+import { index, integer, pgTable, text, timestamp, uuid } from "drizzle-orm/pg-core";
+
+import { users } from "./auth";
+import { recipes } from "./recipes";
+
+export const cookTimers = pgTable(
+  "cook_timers",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    userId: text("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    recipeId: uuid("recipe_id")
+      .notNull()
+      .references(() => recipes.id, { onDelete: "cascade" }),
+    stepIndex: integer("step_index"),
+    label: text("label").notNull(),
+    durationSeconds: integer("duration_seconds").notNull(),
+    // Set while the timer runs; a paused timer keeps its remaining time instead
+    endsAt: timestamp("ends_at", { withTimezone: true }),
+    remainingSeconds: integer("remaining_seconds"),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (t) => [
+    index("idx_cook_timers_user_id").on(t.userId),
+    index("idx_cook_timers_recipe_id").on(t.recipeId),
+  ]
+);
@@ -0,0 +1,31 @@
+import { sql } from "drizzle-orm";
+import { index, numeric, pgTable, text, timestamp, uniqueIndex, uuid } from "drizzle-orm/pg-core";
+
+/**
+ * Foods of an imported composition table, with nutrients per 100 g.
+ * Sodium and cholesterol are in milligrams, the other nutrients in grams.
+ */
+export const foodCompositions = pgTable(
+  "food_compositions",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    source: text("source").notNull(),
+    code: text("code").notNull(),
+    name: text("name").notNull(),
+    alternates: text("alternates").array().notNull().default([]),
+    calories: numeric("calories", { precision: 8, scale: 2 }),
+    fat: numeric("fat", { precision: 8, scale: 2 }),
+    carbs: numeric("carbs", { precision: 8, scale: 2 }),
+    protein: numeric("protein", { precision: 8, scale: 2 }),
+    fiber: numeric("fiber", { precision: 8, scale: 2 }),
+    sugar: numeric("sugar", { precision: 8, scale: 2 }),
+    saturatedFat: numeric("saturated_fat", { precision: 8, scale: 2 }),
+    sodium: numeric("sodium", { precision: 8, scale: 2 }),
+    cholesterol: numeric("cholesterol", { precision: 8, scale: 2 }),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (t) => [
+    uniqueIndex("uq_food_compositions_source_code").on(t.source, t.code),
+    index("idx_food_compositions_name_lower").on(sql`lower(${t.name})`),
+  ]
+);
@@ -1,6 +1,7 @@
 export * from "./recipes";
 export * from "./tags";
 export * from "./ingredients";
+export * from "./food-compositions";
 export * from "./recipe-tags";
 export * from "./recipe-ingredients";
 export * from "./relations";
@@ -23,3 +24,11 @@ export * from "./api-logs";
 export * from "./recipe-favorites";
 export * from "./recipe-ratings";
 export * from "./user-allergies";
+export * from "./user-nutrition-targets";
+export * from "./ai-usage";
+export * from "./recipe-shares";
+export * from "./calendar-feeds";
+export * from "./pantry";
+export * from "./meal-slots";
+export * from "./recipe-revisions";
+export * from "./cook-timers";
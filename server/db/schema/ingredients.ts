@@ -1,11 +1,17 @@
 import { sql } from "drizzle-orm";
 import { index, pgTable, text, timestamp, uuid, uniqueIndex } from "drizzle-orm/pg-core";
 
+import { foodCompositions } from "./food-compositions";
+
 export const ingredients = pgTable(
   "ingredients",
   {
     id: uuid("id").defaultRandom().primaryKey(),
     name: text("name").notNull(),
+    // Food the ingredient was matched to for nutrition, kept so matches stay stable
+    foodCompositionId: uuid("food_composition_id").references(() => foodCompositions.id, {
+      onDelete: "set null",
+    }),
     createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
   },
   (t) => [
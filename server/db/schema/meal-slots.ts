@@ -0,0 +1,34 @@
+import { index, integer, pgTable, text, timestamp, uniqueIndex, uuid } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
+
+import { users } from "./auth";
+import { households } from "./households";
+
+/**
+ * Meal slots of a household, or of a user without one.
+ * Planned recipes and notes store the slot key; the built-in slots keep their old
+ * enum values (Breakfast, Lunch, Dinner, Snack) as keys.
+ */
+export const mealSlots = pgTable(
+  "meal_slots",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    householdId: uuid("household_id").references(() => households.id, { onDelete: "cascade" }),
+    userId: text("user_id").references(() => users.id, { onDelete: "cascade" }), // Set for users without a household
+    key: text("key").notNull(),
+    name: text("name"), // null = translated name of a built-in slot
+    icon: text("icon").notNull(),
+    sortOrder: integer("sort_order").notNull().default(0),
+    timeRange: text("time_range"), // HH:MM-HH:MM; null = CalDAV slot times of a built-in slot
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (t) => [
+    index("idx_meal_slots_household").on(t.householdId),
+    index("idx_meal_slots_user").on(t.userId),
+    uniqueIndex("uq_meal_slots_household_key").on(t.householdId, t.key),
+    uniqueIndex("uq_meal_slots_user_key")
+      .on(t.userId, t.key)
+      .where(sql`${t.householdId} IS NULL`),
+  ]
+);
@@ -2,7 +2,6 @@ import { index, pgTable, text, timestamp, uuid, date } from "drizzle-orm/pg-core
 
 import { recipes } from "./recipes";
 import { users } from "./auth";
-import { slotTypeEnum } from "./planned-recipe";
 
 export const notes = pgTable(
   "notes",
@@ -16,7 +15,7 @@ export const notes = pgTable(
       onDelete: "set null",
     }),
     date: date("date").notNull(),
-    slot: slotTypeEnum("slot").notNull(),
+    slot: text("slot").notNull(), // meal_slots.key
     createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
     updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
   },
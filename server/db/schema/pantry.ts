@@ -0,0 +1,23 @@
+import { date, index, numeric, pgTable, text, timestamp, uuid } from "drizzle-orm/pg-core";
+
+import { users } from "./auth";
+
+export const pantryItems = pgTable(
+  "pantry_items",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    userId: text("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    name: text("name").notNull(),
+    unit: text("unit"),
+    amount: numeric("amount", { precision: 10, scale: 3 }),
+    expiresAt: date("expires_at"), // YYYY-MM-DD
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (t) => [
+    index("idx_pantry_items_user_id").on(t.userId),
+    index("idx_pantry_items_expires_at").on(t.expiresAt),
+  ]
+);
@@ -1,11 +1,9 @@
-import { index, pgTable, text, timestamp, uuid, date, pgEnum } from "drizzle-orm/pg-core";
+import { index, integer, pgTable, text, timestamp, uuid, date } from "drizzle-orm/pg-core";
 
 import { users } from "./auth";
 
 import { recipes } from "./index";
 
-export const slotTypeEnum = pgEnum("slot_type", ["Breakfast", "Lunch", "Dinner", "Snack"]);
-
 export const plannedRecipes = pgTable(
   "planned_recipes",
   {
@@ -17,7 +15,9 @@ export const plannedRecipes = pgTable(
       .notNull()
       .references(() => recipes.id, { onDelete: "cascade" }),
     date: date("date").notNull(),
-    slot: slotTypeEnum("slot").notNull(),
+    slot: text("slot").notNull(), // meal_slots.key
+    // Overrides the recipe's servings for this plan; null cooks the recipe as written
+    servings: integer("servings"),
     createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
     updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
   },
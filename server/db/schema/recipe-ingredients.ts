@@ -16,6 +16,10 @@ export const recipeIngredients = pgTable(
     amount: numeric("amount", { precision: 10, scale: 3 }),
     unit: text("unit"),
     order: numeric("order"),
+    section: text("section"),
+    linkedRecipeId: uuid("linked_recipe_id").references(() => recipes.id, {
+      onDelete: "set null",
+    }),
     systemUsed: measurementSystemEnum("system_used").notNull().default("metric"),
     createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
     updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
@@ -23,5 +27,6 @@ export const recipeIngredients = pgTable(
   (t) => [
     index("idx_recipe_ingredients_recipe_id").on(t.recipeId),
     index("idx_recipe_ingredients_ingredient_id").on(t.ingredientId),
+    index("idx_recipe_ingredients_linked_recipe_id").on(t.linkedRecipeId),
   ]
 );
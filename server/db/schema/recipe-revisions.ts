@@ -0,0 +1,34 @@
+import { index, jsonb, pgEnum, pgTable, text, timestamp, uuid } from "drizzle-orm/pg-core";
+
+import { users } from "./auth";
+import { recipes } from "./recipes";
+
+export const recipeRevisionSources = [
+  "original",
+  "edit",
+  "convert",
+  "auto_tag",
+  "allergy_detection",
+  "nutrition",
+  "restore",
+] as const;
+export const recipeRevisionSourceEnum = pgEnum("recipe_revision_source", [
+  ...recipeRevisionSources,
+]);
+
+export const recipeRevisions = pgTable(
+  "recipe_revisions",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    recipeId: uuid("recipe_id")
+      .notNull()
+      .references(() => recipes.id, { onDelete: "cascade" }),
+    // Who made the change; null once the user is deleted
+    userId: text("user_id").references(() => users.id, { onDelete: "set null" }),
+    source: recipeRevisionSourceEnum("source").notNull(),
+    // The recipe as it was after the change (RecipeSnapshotSchema)
+    snapshot: jsonb("snapshot").notNull(),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (t) => [index("idx_recipe_revisions_recipe_created").on(t.recipeId, t.createdAt)]
+);
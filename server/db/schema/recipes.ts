@@ -34,8 +34,17 @@ export const recipes = pgTable(
     fat: numeric("fat", { precision: 6, scale: 2 }),
     carbs: numeric("carbs", { precision: 6, scale: 2 }),
     protein: numeric("protein", { precision: 6, scale: 2 }),
+    fiber: numeric("fiber", { precision: 6, scale: 2 }),
+    sugar: numeric("sugar", { precision: 6, scale: 2 }),
+    saturatedFat: numeric("saturated_fat", { precision: 6, scale: 2 }),
+    // Milligrams, unlike the other nutrients which are grams
+    sodium: numeric("sodium", { precision: 8, scale: 2 }),
+    cholesterol: numeric("cholesterol", { precision: 8, scale: 2 }),
     createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
     updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
+    // Set while the recipe is in the trash, purged by the scheduler after the retention period
+    deletedAt: timestamp("deleted_at", { withTimezone: true }),
+    deletedBy: text("deleted_by").references(() => users.id, { onDelete: "set null" }),
   },
   (t) => [
     index("idx_recipes_user_id").on(t.userId),
@@ -45,5 +54,6 @@ export const recipes = pgTable(
     index("idx_recipes_total_minutes").on(t.totalMinutes),
     index("idx_recipes_prep_minutes").on(t.prepMinutes),
     index("idx_recipes_cook_minutes").on(t.cookMinutes),
+    index("idx_recipes_deleted_at").on(t.deletedAt),
   ]
 );
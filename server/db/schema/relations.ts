@@ -15,6 +15,7 @@ import { users } from "./auth";
 import { groceries } from "./groceries";
 import { serverConfig } from "./server-config";
 import { recipeRatings } from "./recipe-ratings";
+import { recipeShares } from "./recipe-shares";
 import { userAllergies } from "./user-allergies";
 import { stores, ingredientStorePreferences } from "./stores";
 
@@ -23,6 +24,7 @@ export const recipesRelations = relations(recipes, ({ many }) => ({
   recipeTags: many(recipeTags),
   steps: many(steps),
   ratings: many(recipeRatings),
+  shares: many(recipeShares),
   images: many(recipeImages),
   videos: many(recipeVideos),
 }));
@@ -158,6 +160,17 @@ export const recipeRatingsRelations = relations(recipeRatings, ({ one }) => ({
   }),
 }));
 
+export const recipeSharesRelations = relations(recipeShares, ({ one }) => ({
+  user: one(users, {
+    fields: [recipeShares.userId],
+    references: [users.id],
+  }),
+  recipe: one(recipes, {
+    fields: [recipeShares.recipeId],
+    references: [recipes.id],
+  }),
+}));
+
 export const userAllergiesRelations = relations(userAllergies, ({ one }) => ({
   user: one(users, {
     fields: [userAllergies.userId],
@@ -1,4 +1,13 @@
-import { index, numeric, pgTable, text, timestamp, uniqueIndex, uuid } from "drizzle-orm/pg-core";
+import {
+  index,
+  integer,
+  numeric,
+  pgTable,
+  text,
+  timestamp,
+  uniqueIndex,
+  uuid,
+} from "drizzle-orm/pg-core";
 
 import { measurementSystemEnum, recipes } from "./recipes";
 
@@ -12,6 +21,9 @@ export const steps = pgTable(
     step: text("step").notNull(),
     systemUsed: measurementSystemEnum("system_used").notNull().default("metric"),
     order: numeric("order"),
+    section: text("section"),
+    // Order of the ingredients (of the same measurement system) the step uses
+    ingredientOrders: integer("ingredient_orders").array(),
     createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
     updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
   },
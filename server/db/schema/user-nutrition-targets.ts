@@ -0,0 +1,26 @@
+import { numeric, pgTable, text, timestamp } from "drizzle-orm/pg-core";
+
+import { users } from "./auth";
+
+/**
+ * Daily nutrition targets of a user, compared against the planned meals in the calendar.
+ * Sodium and cholesterol are in milligrams, the other nutrients in grams; null means no target.
+ */
+export const userNutritionTargets = pgTable("user_nutrition_targets", {
+  userId: text("user_id")
+    .primaryKey()
+    .references(() => users.id, { onDelete: "cascade" }),
+  calories: numeric("calories", { precision: 8, scale: 2 }),
+  fat: numeric("fat", { precision: 8, scale: 2 }),
+  carbs: numeric("carbs", { precision: 8, scale: 2 }),
+  protein: numeric("protein", { precision: 8, scale: 2 }),
+  fiber: numeric("fiber", { precision: 8, scale: 2 }),
+  sugar: numeric("sugar", { precision: 8, scale: 2 }),
+  saturatedFat: numeric("saturated_fat", { precision: 8, scale: 2 }),
+  sodium: numeric("sodium", { precision: 8, scale: 2 }),
+  cholesterol: numeric("cholesterol", { precision: 8, scale: 2 }),
+  updatedAt: timestamp("updated_at", { withTimezone: true })
+    .notNull()
+    .defaultNow()
+    .$onUpdate(() => new Date()),
+});
@@ -0,0 +1,27 @@
+import { z } from "zod";
+
+import { aiUsageFeatures } from "@/server/db/schema";
+
+export const AIUsageFeatureSchema = z.enum(aiUsageFeatures);
+
+export type AIUsageFeature = z.infer<typeof AIUsageFeatureSchema>;
+
+/** Tokens used by one user for one feature in one month (YYYY-MM, UTC) */
+export const AIUsageSummaryRowSchema = z.object({
+  month: z.string(),
+  userId: z.string().nullable(),
+  userName: z.string().nullable(),
+  feature: AIUsageFeatureSchema,
+  requests: z.number().int(),
+  inputTokens: z.number().int(),
+  outputTokens: z.number().int(),
+  totalTokens: z.number().int(),
+});
+
+export type AIUsageSummaryRow = z.infer<typeof AIUsageSummaryRowSchema>;
+
+// tRPC input schemas
+export const AIUsageSummaryInputSchema = z.object({
+  /** Number of months to include, counting the current one */
+  months: z.number().int().min(1).max(24).default(6),
+});
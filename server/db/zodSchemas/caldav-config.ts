@@ -2,6 +2,7 @@ import { createInsertSchema, createSelectSchema, createUpdateSchema } from "driz
 import { z } from "zod";
 
 import { userCaldavConfig } from "@/server/db/schema";
+import { DEFAULT_TIMEZONE, isValidTimeZone } from "@/server/caldav/timezone";
 
 export const UserCaldavConfigSelectSchema = createSelectSchema(userCaldavConfig);
 
@@ -28,6 +29,7 @@ export const UserCaldavConfigDecryptedSchema = z.object({
   lunchTime: z.string(),
   dinnerTime: z.string(),
   snackTime: z.string(),
+  timezone: z.string(),
   createdAt: z.date(),
   updatedAt: z.date(),
 });
@@ -43,4 +45,5 @@ export const SaveCaldavConfigInputSchema = z.object({
   lunchTime: z.string().regex(/^\d{2}:\d{2}-\d{2}:\d{2}$/),
   dinnerTime: z.string().regex(/^\d{2}:\d{2}-\d{2}:\d{2}$/),
   snackTime: z.string().regex(/^\d{2}:\d{2}-\d{2}:\d{2}$/),
+  timezone: z.string().refine(isValidTimeZone, "Invalid timezone").default(DEFAULT_TIMEZONE),
 });
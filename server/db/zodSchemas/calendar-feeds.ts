@@ -0,0 +1,16 @@
+import { createSelectSchema } from "drizzle-zod";
+import { z } from "zod";
+
+import { calendarFeeds, calendarFeedScopes } from "@/server/db/schema";
+
+export const CalendarFeedSelectBaseSchema = createSelectSchema(calendarFeeds);
+
+export const CalendarFeedViewSchema = CalendarFeedSelectBaseSchema.omit({
+  userId: true,
+  updatedAt: true,
+});
+
+// tRPC input schemas
+export const CalendarFeedScopeInputSchema = z.object({
+  scope: z.enum(calendarFeedScopes),
+});
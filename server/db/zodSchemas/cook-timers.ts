@@ -0,0 +1,33 @@
+import { createSelectSchema } from "drizzle-zod";
+import z from "zod";
+
+import { cookTimers } from "@/server/db/schema";
+
+/** Longest timer cook mode accepts: a day */
+const MAX_TIMER_SECONDS = 24 * 60 * 60;
+
+export const CookTimerSelectBaseSchema = createSelectSchema(cookTimers).omit({
+  createdAt: true,
+  updatedAt: true,
+});
+
+// Insert schema with explicit fields to avoid drizzle-zod type inference issues
+export const CookTimerInsertBaseSchema = z.object({
+  userId: z.string(),
+  recipeId: z.uuid(),
+  stepIndex: z.number().int().nonnegative().nullable(),
+  label: z.string().min(1),
+  durationSeconds: z.number().int().positive(),
+});
+
+// tRPC input schemas
+export const CookTimerStartSchema = z.object({
+  recipeId: z.uuid(),
+  stepIndex: z.number().int().nonnegative().nullable(),
+  label: z.string().trim().min(1).max(200),
+  durationSeconds: z.number().int().positive().max(MAX_TIMER_SECONDS),
+});
+
+export const CookTimerIdSchema = z.object({
+  id: z.uuid(),
+});
@@ -66,8 +66,26 @@ export const GroceryUpdateInputSchema = z.object({
 export const GroceryToggleSchema = z.object({
   groceryIds: z.array(z.string()),
   isDone: z.boolean(),
+  moveToPantry: z.boolean().optional(), // Checked items leave the list and go to the pantry
 });
 
 export const GroceryDeleteSchema = z.object({
   groceryIds: z.array(z.string()),
 });
+
+// Meal plan range (inclusive) used to build groceries from planned recipes
+export const GroceryPlanRangeSchema = z
+  .object({
+    startDate: z.iso.date(),
+    endDate: z.iso.date(),
+  })
+  .refine((range) => range.startDate <= range.endDate, {
+    message: "endDate must not be before startDate",
+    path: ["endDate"],
+  });
+
+export const GroceryAddFromPlanSchema = GroceryPlanRangeSchema.and(
+  z.object({
+    excludeKeys: z.array(z.string()).default([]), // Preview items the user deselected
+  })
+);
@@ -17,3 +17,11 @@ export * from "./server-config";
 export * from "./favorites";
 export * from "./ratings";
 export * from "./user-allergies";
+export * from "./user-nutrition-targets";
+export * from "./ai-usage";
+export * from "./recipe-shares";
+export * from "./calendar-feeds";
+export * from "./pantry";
+export * from "./meal-slots";
+export * from "./recipe-revisions";
+export * from "./cook-timers";
@@ -0,0 +1,46 @@
+import { createSelectSchema } from "drizzle-zod";
+import z from "zod";
+
+import { mealSlots } from "@/server/db/schema";
+import { MEAL_SLOT_ICONS } from "@/lib/meal-slots";
+
+const MealSlotTimeRangeSchema = z
+  .string()
+  .regex(/^([01]\d|2[0-3]):[0-5]\d-([01]\d|2[0-3]):[0-5]\d$/, "Use HH:MM-HH:MM")
+  .refine((range) => {
+    const [start, end] = range.split("-");
+
+    return start < end;
+  }, "End time must be after start time");
+
+export const MealSlotKeySchema = z.string().trim().min(1).max(64);
+
+export const MealSlotSelectBaseSchema = createSelectSchema(mealSlots).pick({
+  key: true,
+  name: true,
+  icon: true,
+  sortOrder: true,
+  timeRange: true,
+});
+
+// tRPC input schemas
+export const MealSlotCreateSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(64),
+  icon: z.enum(MEAL_SLOT_ICONS),
+  timeRange: MealSlotTimeRangeSchema,
+});
+
+export const MealSlotUpdateSchema = z.object({
+  key: MealSlotKeySchema,
+  name: z.string().trim().min(1).max(64).nullable().optional(), // null = back to the built-in name
+  icon: z.enum(MEAL_SLOT_ICONS).optional(),
+  timeRange: MealSlotTimeRangeSchema.nullable().optional(), // null = CalDAV slot times (built-in slots only)
+});
+
+export const MealSlotDeleteSchema = z.object({
+  key: MealSlotKeySchema,
+});
+
+export const MealSlotReorderSchema = z.object({
+  keys: z.array(MealSlotKeySchema).min(1),
+});
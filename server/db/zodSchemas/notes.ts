@@ -1,6 +1,8 @@
 import { createSelectSchema, createInsertSchema, createUpdateSchema } from "drizzle-zod";
 import z from "zod";
 
+import { MealSlotKeySchema } from "./meal-slots";
+
 import { notes } from "@/server/db/schema";
 
 export const NoteSelectBaseSchema = createSelectSchema(notes);
@@ -31,8 +33,9 @@ export const NoteListSchema = z.object({
 
 export const NoteCreateSchema = NoteInsertBaseSchema.pick({
   date: true,
-  slot: true,
   title: true,
+}).extend({
+  slot: MealSlotKeySchema,
 });
 
 export const NoteDeleteSchema = NoteSelectBaseSchema.pick({
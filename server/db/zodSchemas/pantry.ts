@@ -0,0 +1,54 @@
+import { createSelectSchema } from "drizzle-zod";
+import z from "zod";
+
+import { pantryItems } from "@/server/db/schema";
+
+const PantryExpirySchema = z.iso.date().nullable();
+
+export const PantryItemSelectBaseSchema = createSelectSchema(pantryItems)
+  .omit({
+    userId: true,
+    createdAt: true,
+    updatedAt: true,
+  })
+  .extend({
+    amount: z.coerce.number().nullable(),
+    expiresAt: z.string().nullable(),
+  });
+
+// Insert schema with explicit fields to avoid drizzle-zod type inference issues
+export const PantryItemInsertBaseSchema = z.object({
+  userId: z.string(),
+  name: z.string().min(1),
+  unit: z.string().nullable(),
+  amount: z.coerce.number().nullable(),
+  expiresAt: PantryExpirySchema.optional(),
+});
+
+export const PantryItemUpdateBaseSchema = z.object({
+  id: z.uuid(),
+  name: z.string().min(1).optional(),
+  unit: z.string().nullable().optional(),
+  amount: z.coerce.number().nullable().optional(),
+  expiresAt: PantryExpirySchema.optional(),
+});
+
+// tRPC input schemas
+export const PantryItemCreateSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(200),
+  unit: z.string().nullable(),
+  amount: z.coerce.number().positive().nullable(),
+  expiresAt: PantryExpirySchema.optional(),
+});
+
+export const PantryItemUpdateInputSchema = z.object({
+  id: z.uuid(),
+  name: z.string().trim().min(1).max(200).optional(),
+  unit: z.string().nullable().optional(),
+  amount: z.coerce.number().positive().nullable().optional(),
+  expiresAt: PantryExpirySchema.optional(),
+});
+
+export const PantryItemDeleteSchema = z.object({
+  itemIds: z.array(z.uuid()).min(1),
+});
@@ -1,7 +1,9 @@
 import { createSelectSchema, createInsertSchema, createUpdateSchema } from "drizzle-zod";
 import z from "zod";
 
-import { plannedRecipes, slotTypeEnum } from "@/server/db/schema";
+import { MealSlotKeySchema } from "./meal-slots";
+
+import { plannedRecipes } from "@/server/db/schema";
 
 export const PlannedRecipeSelectBaseSchema = createSelectSchema(plannedRecipes);
 
@@ -13,6 +15,7 @@ export const plannedRecipeViewSchema = createSelectSchema(plannedRecipes)
   })
   .extend({
     recipeName: z.string().nullable(),
+    recipeServings: z.number().int().nullable().optional(),
     allergyWarnings: z.array(z.string()).optional(),
   });
 
@@ -26,7 +29,6 @@ export const PlannedRecipeUpdateBaseSchema = createUpdateSchema(plannedRecipes).
   createdAt: true,
   updatedAt: true,
 });
-export const slots = slotTypeEnum.enumValues;
 
 // Derived schemas for tRPC routers
 export const PlannedRecipeListSchema = z.object({
@@ -36,8 +38,9 @@ export const PlannedRecipeListSchema = z.object({
 
 export const PlannedRecipeCreateSchema = PlannedRecipeInsertBaseSchema.pick({
   date: true,
-  slot: true,
   recipeId: true,
+}).extend({
+  slot: MealSlotKeySchema,
 });
 
 export const PlannedRecipeDeleteSchema = PlannedRecipeSelectBaseSchema.pick({
@@ -51,3 +54,10 @@ export const PlannedRecipeUpdateDateSchema = PlannedRecipeSelectBaseSchema.pick(
   newDate: PlannedRecipeSelectBaseSchema.shape.date,
   oldDate: PlannedRecipeSelectBaseSchema.shape.date,
 });
+
+export const PlannedRecipeUpdateServingsSchema = PlannedRecipeSelectBaseSchema.pick({
+  id: true,
+  date: true,
+}).extend({
+  servings: z.number().int().min(1).max(999).nullable(), // null = back to recipe servings
+});
@@ -26,6 +26,8 @@ export const RecipeIngredientsWithIdSchema = RecipeIngredientsSelectBaseSchema.o
   ingredientId: z.string().nullable(),
   amount: z.number().nullable(),
   order: z.coerce.number(),
+  section: z.string().nullish(),
+  linkedRecipeId: z.string().nullish(),
 });
 
 export const RecipeIngredientSelectWithNameSchema = RecipeIngredientsSelectBaseSchema.extend({
@@ -43,6 +45,8 @@ export const RecipeIngredientInputBaseSchema = RecipeIngredientsInsertBaseSchema
   ingredientName: z.string().trim().min(1).optional(),
   ingredientId: z.string().nullable(),
   order: z.coerce.number(),
+  section: z.string().trim().nullish(),
+  linkedRecipeId: z.uuid().nullish(),
 });
 
 export const RecipeIngredientInputSchema = RecipeIngredientInputBaseSchema.refine(
@@ -0,0 +1,66 @@
+import { createSelectSchema } from "drizzle-zod";
+import { z } from "zod";
+
+import { AuthorSchema, FullRecipeSchema } from "./recipe";
+
+import { recipeRevisions } from "@/server/db/schema";
+
+/**
+ * Recipe content stored with each revision. Images and videos are left out:
+ * their files are managed separately and a restore keeps the current media.
+ */
+export const RecipeSnapshotSchema = FullRecipeSchema.pick({
+  name: true,
+  description: true,
+  url: true,
+  servings: true,
+  prepMinutes: true,
+  cookMinutes: true,
+  totalMinutes: true,
+  systemUsed: true,
+  calories: true,
+  fat: true,
+  carbs: true,
+  protein: true,
+  tags: true,
+  recipeIngredients: true,
+  steps: true,
+}).extend({
+  // Snapshots taken before these nutrients existed don't have them
+  fiber: FullRecipeSchema.shape.fiber.default(null),
+  sugar: FullRecipeSchema.shape.sugar.default(null),
+  saturatedFat: FullRecipeSchema.shape.saturatedFat.default(null),
+  sodium: FullRecipeSchema.shape.sodium.default(null),
+  cholesterol: FullRecipeSchema.shape.cholesterol.default(null),
+});
+
+export const RecipeRevisionSelectBaseSchema = createSelectSchema(recipeRevisions).extend({
+  snapshot: RecipeSnapshotSchema,
+});
+
+export const RecipeRevisionViewSchema = RecipeRevisionSelectBaseSchema.pick({
+  id: true,
+  source: true,
+  createdAt: true,
+}).extend({
+  author: AuthorSchema,
+  /** Snapshot fields that differ from the previous revision */
+  changedFields: z.array(z.string()),
+});
+
+// tRPC input schemas
+export const RecipeHistoryInputSchema = z.object({
+  recipeId: z.uuid(),
+});
+
+export const RecipeDiffInputSchema = z.object({
+  recipeId: z.uuid(),
+  revisionId: z.uuid(),
+  /** Revision to compare against; defaults to the one before revisionId */
+  compareToId: z.uuid().optional(),
+});
+
+export const RecipeRestoreRevisionInputSchema = z.object({
+  recipeId: z.uuid(),
+  revisionId: z.uuid(),
+});
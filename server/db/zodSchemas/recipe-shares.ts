@@ -0,0 +1,35 @@
+import { createSelectSchema } from "drizzle-zod";
+import { z } from "zod";
+
+import { FullRecipeSchema } from "./recipe";
+
+import { recipeShares } from "@/server/db/schema";
+
+export const RecipeShareSelectBaseSchema = createSelectSchema(recipeShares);
+
+export const RecipeShareViewSchema = RecipeShareSelectBaseSchema.omit({
+  userId: true,
+  revokedAt: true,
+  updatedAt: true,
+});
+
+/** Recipe as shown on the public share page: no owner id or author details */
+export const SharedRecipeSchema = FullRecipeSchema.omit({
+  userId: true,
+  author: true,
+});
+
+// tRPC input schemas
+export const RecipeShareCreateInputSchema = z.object({
+  recipeId: z.uuid(),
+  /** Days until the link expires; null for a link that never expires */
+  expiresInDays: z.number().int().min(1).max(365).nullable().default(null),
+});
+
+export const RecipeShareRevokeInputSchema = z.object({
+  id: z.uuid(),
+});
+
+export const RecipeShareListInputSchema = z.object({
+  recipeId: z.uuid(),
+});
@@ -13,16 +13,24 @@ import { RecipeVideoSchema, RecipeVideosArraySchema } from "./recipe-videos";
 
 import { measurementSystemEnum, recipes } from "@/server/db/schema";
 
-export const RecipeSelectBaseSchema = createSelectSchema(recipes).extend({
-  userId: z.string().nullable(),
-});
+// Trash state is only changed through the trash procedures, never through recipe data
+export const RecipeSelectBaseSchema = createSelectSchema(recipes)
+  .omit({ deletedAt: true, deletedBy: true })
+  .extend({
+    userId: z.string().nullable(),
+  });
 export const RecipeInsertBaseSchema = createInsertSchema(recipes).omit({
   id: true,
   updatedAt: true,
   createdAt: true,
   userId: true, // set from session server-side
+  deletedAt: true,
+  deletedBy: true,
+});
+export const RecipeUpdateBaseSchema = createUpdateSchema(recipes).omit({
+  deletedAt: true,
+  deletedBy: true,
 });
-export const RecipeUpdateBaseSchema = createUpdateSchema(recipes);
 
 export const AuthorSchema = z
   .object({
@@ -38,6 +46,11 @@ export const RecipeDashboardSchema = RecipeSelectBaseSchema.omit({
   fat: true,
   carbs: true,
   protein: true,
+  fiber: true,
+  sugar: true,
+  saturatedFat: true,
+  sodium: true,
+  cholesterol: true,
 }).extend({
   tags: z.array(TagNameSchema).default([]),
   author: AuthorSchema,
@@ -85,6 +98,9 @@ export const RecipeListInputSchema = z.object({
   filterMode: z.enum(["AND", "OR"]).default("OR"),
   sortMode: z.enum(["titleAsc", "titleDesc", "dateAsc", "dateDesc"]).default("dateDesc"),
   minRating: z.number().min(1).max(5).optional(),
+  maxNutrition: z
+    .partialRecord(z.enum(["calories", "sugar", "saturatedFat", "sodium"]), z.number().min(0))
+    .optional(),
 });
 
 export const RecipeGetInputSchema = z.object({
@@ -95,6 +111,16 @@ export const RecipeDeleteInputSchema = z.object({
   id: z.uuid(),
 });
 
+export const RecipeTrashItemSchema = RecipeSelectBaseSchema.pick({
+  id: true,
+  userId: true,
+  name: true,
+  image: true,
+}).extend({
+  deletedAt: z.date(),
+  deletedBy: AuthorSchema,
+});
+
 export const RecipeImportInputSchema = z.object({
   url: z.url(),
 });
@@ -11,11 +11,16 @@ export const ServerConfigKeys = {
   AUTH_PROVIDER_GITHUB: "auth_provider_github",
   AUTH_PROVIDER_GOOGLE: "auth_provider_google",
   UNITS: "units",
+  INGREDIENT_DENSITIES: "ingredient_densities",
   CONTENT_INDICATORS: "content_indicators",
   RECURRENCE_CONFIG: "recurrence_config",
   AI_CONFIG: "ai_config",
   VIDEO_CONFIG: "video_config",
   SCHEDULER_CLEANUP_MONTHS: "scheduler_cleanup_months",
+  TRASH_RETENTION_DAYS: "trash_retention_days",
+  OUTBOUND_ALLOWLIST: "outbound_allowlist",
+  RATE_LIMITS: "rate_limits",
+  AI_QUOTAS: "ai_quotas",
   RECIPE_PERMISSION_POLICY: "recipe_permission_policy",
   PROMPTS: "prompts",
   LOCALE_CONFIG: "locale_config",
@@ -137,10 +142,21 @@ export type I18nLocaleConfig = z.infer<typeof I18nLocaleConfigSchema>;
 // Units Schema
 // ============================================================================
 
+export const UnitConversionSchema = z.object({
+  dimension: z.enum(["mass", "volume"]),
+  // Grams (mass) or millilitres (volume) in one of this unit
+  factor: z.number().positive(),
+  // Units used by both systems, like "el", leave it out and are never converted
+  system: z.enum(["metric", "us"]).optional(),
+});
+
+export type UnitConversion = z.infer<typeof UnitConversionSchema>;
+
 export const UnitDefSchema = z.object({
   short: z.string(),
   plural: z.string(),
   alternates: z.array(z.string()),
+  conversion: UnitConversionSchema.optional(),
 });
 
 export type UnitDef = z.infer<typeof UnitDefSchema>;
@@ -149,6 +165,30 @@ export const UnitsMapSchema = z.record(z.string(), UnitDefSchema);
 
 export type UnitsMap = z.infer<typeof UnitsMapSchema>;
 
+// ============================================================================
+// Ingredient Densities Schema
+// ============================================================================
+
+export const IngredientDensitySchema = z
+  .object({
+    alternates: z.array(z.string()),
+    // Weight of one millilitre, to convert between cups and grams
+    gramsPerMl: z.number().positive().optional(),
+    // Weight of one piece, such as an egg or an onion
+    gramsPerPiece: z.number().positive().optional(),
+    // Metric recipes weigh it rather than measure it, so cups become grams instead of ml
+    weighInMetric: z.boolean().optional(),
+  })
+  .refine((d) => d.gramsPerMl !== undefined || d.gramsPerPiece !== undefined, {
+    message: "Set gramsPerMl, gramsPerPiece or both",
+  });
+
+export type IngredientDensity = z.infer<typeof IngredientDensitySchema>;
+
+export const IngredientDensitiesSchema = z.record(z.string(), IngredientDensitySchema);
+
+export type IngredientDensities = z.infer<typeof IngredientDensitiesSchema>;
+
 // ============================================================================
 // Recurrence Config Schema
 // ============================================================================
@@ -220,6 +260,29 @@ export const AIConfigSchema = z.object({
 
 export type AIConfig = z.infer<typeof AIConfigSchema>;
 
+// ============================================================================
+// AI Quotas Schema
+// ============================================================================
+
+export const AIQuotasSchema = z.object({
+  // Tokens per calendar month (UTC), 0 means unlimited. The defaults for every user
+  // and every household without an override.
+  userMonthlyTokens: z.number().int().min(0),
+  householdMonthlyTokens: z.number().int().min(0),
+  // Limits that replace the defaults for single users and households, keyed by id
+  userOverrides: z.record(z.string(), z.number().int().min(0)).default({}),
+  householdOverrides: z.record(z.string(), z.number().int().min(0)).default({}),
+});
+
+export type AIQuotas = z.infer<typeof AIQuotasSchema>;
+
+export const DEFAULT_AI_QUOTAS: AIQuotas = {
+  userMonthlyTokens: 0,
+  householdMonthlyTokens: 0,
+  userOverrides: {},
+  householdOverrides: {},
+};
+
 // ============================================================================
 // Video Configuration Schema (includes transcription settings)
 // ============================================================================
@@ -303,6 +366,59 @@ export type VideoConfig = z.infer<typeof VideoConfigSchema>;
 
 export const SchedulerCleanupMonthsSchema = z.number().int().min(1).max(24);
 
+export const TrashRetentionDaysSchema = z.number().int().min(1).max(365);
+
+// ============================================================================
+// Outbound Request Allowlist Schema
+// ============================================================================
+
+// Hostnames, IP addresses or CIDR ranges on the local network that imports may fetch from
+export const OutboundAllowlistSchema = z.array(z.string().trim().min(1).max(253)).max(100);
+
+export type OutboundAllowlist = z.infer<typeof OutboundAllowlistSchema>;
+
+// ============================================================================
+// Rate Limits Schema
+// ============================================================================
+
+export const RATE_LIMIT_FEATURES = [
+  "urlImport",
+  "pasteImport",
+  "imageImport",
+  "nutritionEstimate",
+  "measurementConversion",
+  "autoTagging",
+  "allergyDetection",
+  "apiImport",
+] as const;
+
+export const RateLimitFeatureSchema = z.enum(RATE_LIMIT_FEATURES);
+
+export type RateLimitFeature = z.infer<typeof RateLimitFeatureSchema>;
+
+export const RateLimitRuleSchema = z.object({
+  // Requests per user per window, 0 means unlimited
+  limit: z.number().int().min(0).max(10000),
+  windowMinutes: z.number().int().min(1).max(1440),
+});
+
+export type RateLimitRule = z.infer<typeof RateLimitRuleSchema>;
+
+export const RateLimitsSchema = z.record(RateLimitFeatureSchema, RateLimitRuleSchema);
+
+export type RateLimits = z.infer<typeof RateLimitsSchema>;
+
+export const DEFAULT_RATE_LIMITS: RateLimits = {
+  urlImport: { limit: 30, windowMinutes: 60 },
+  pasteImport: { limit: 30, windowMinutes: 60 },
+  imageImport: { limit: 10, windowMinutes: 60 },
+  nutritionEstimate: { limit: 30, windowMinutes: 60 },
+  measurementConversion: { limit: 30, windowMinutes: 60 },
+  autoTagging: { limit: 30, windowMinutes: 60 },
+  allergyDetection: { limit: 30, windowMinutes: 60 },
+  apiImport: { limit: 60, windowMinutes: 60 },
+};
+
 // ============================================================================
 // Recipe Permission Policy Schema
 // ============================================================================
@@ -385,6 +501,8 @@ export function getSchemaForConfigKey(key: ServerConfigKey): z.ZodType {
       return AuthProviderGoogleSchema;
     case ServerConfigKeys.UNITS:
       return UnitsMapSchema;
+    case ServerConfigKeys.INGREDIENT_DENSITIES:
+      return IngredientDensitiesSchema;
     case ServerConfigKeys.CONTENT_INDICATORS:
       return ContentIndicatorsSchema;
     case ServerConfigKeys.RECURRENCE_CONFIG:
@@ -395,6 +513,14 @@ export function getSchemaForConfigKey(key: ServerConfigKey): z.ZodType {
       return VideoConfigSchema;
     case ServerConfigKeys.SCHEDULER_CLEANUP_MONTHS:
       return SchedulerCleanupMonthsSchema;
+    case ServerConfigKeys.TRASH_RETENTION_DAYS:
+      return TrashRetentionDaysSchema;
+    case ServerConfigKeys.OUTBOUND_ALLOWLIST:
+      return OutboundAllowlistSchema;
+    case ServerConfigKeys.RATE_LIMITS:
+      return RateLimitsSchema;
+    case ServerConfigKeys.AI_QUOTAS:
+      return AIQuotasSchema;
     case ServerConfigKeys.RECIPE_PERMISSION_POLICY:
       return RecipePermissionPolicySchema;
     case ServerConfigKeys.PROMPTS:
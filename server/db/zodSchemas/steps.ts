@@ -23,6 +23,8 @@ export const StepStepSchema = StepSelectBaseSchema.pick({
   systemUsed: true,
 }).extend({
   order: z.coerce.number(),
+  section: z.string().trim().nullish(),
+  ingredientOrders: z.array(z.coerce.number().int()).nullish(),
   images: z.array(StepImageSchema).optional().default([]),
 });
 
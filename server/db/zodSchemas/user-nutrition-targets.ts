@@ -0,0 +1,14 @@
+import z from "zod";
+
+import { FOOD_NUTRIENTS } from "@/lib/food-composition";
+
+export const NutritionTargetsSchema = z.partialRecord(
+  z.enum(FOOD_NUTRIENTS),
+  z.number().positive().max(100000)
+);
+
+export const UpdateUserNutritionTargetsSchema = z.object({
+  targets: NutritionTargetsSchema,
+});
+
+export type UpdateUserNutritionTargetsInput = z.infer<typeof UpdateUserNutritionTargetsSchema>;
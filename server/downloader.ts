@@ -10,6 +10,7 @@ import convert from "heic-convert";
 import { SERVER_CONFIG } from "@/config/env-config-server";
 import { getMaxVideoFileSize } from "@/config/server-config-loader";
 import { serverLogger as log } from "@/server/logger";
+import { guardedFetch, readBodyWithLimit } from "@/server/outbound-guard";
 
 // TODO: This file needs a lot of cleaning up
 // Lots of AI generated code to get heic-convert working.
@@ -228,26 +229,6 @@ async function convertToJpeg(buffer: Buffer, sourceExt: string): Promise<Buffer>
   }
 }
 
-// --- Fetch with timeout ---
-async function fetchWithTimeout(url: string, timeoutMs: number = FETCH_TIMEOUT): Promise<Response> {
-  const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
-
-  try {
-    const response = await fetch(url, { signal: controller.signal });
-
-    clearTimeout(timeoutId);
-
-    return response;
-  } catch (e) {
-    clearTimeout(timeoutId);
-    if (e instanceof Error && e.name === "AbortError") {
-      throw new Error(`Request timeout after ${timeoutMs}ms`);
-    }
-    throw e;
-  }
-}
-
 // --- JSON-LD image normalization ---
 export function normalizeJsonLdImages(imageField: any): ImageCandidate[] {
   if (!imageField) return [];
@@ -412,49 +393,20 @@ async function deleteImageByUrlCore(url: string, options: DeleteImageOptions): P
  * URL: /recipes/{recipeId}/{hash}.jpg
  */
 export async function downloadImage(url: string, recipeId: string): Promise<string> {
-  const recipeDir = path.join(RECIPES_BASE_DIR, recipeId);
-
-  await ensureDir(recipeDir);
-
-  // Validate URL
-  try {
-    new URL(url);
-  } catch {
-    throw new Error(`Invalid URL: ${url}`);
-  }
-
-  const res = await fetchWithTimeout(url);
+  const res = await guardedFetch(url, { timeoutMs: FETCH_TIMEOUT });
 
   if (!res.ok || !res.body) {
     throw new Error(`Failed to download image: ${res.status} ${res.statusText}`);
   }
 
-  // Check content type
+  // Servers that don't know the type send octet-stream; the bytes are checked below
   const contentType = res.headers.get("content-type") || undefined;
 
-  if (contentType && !contentType.startsWith("image/")) {
+  if (!contentType?.startsWith("image/") && !contentType?.startsWith("application/octet-stream")) {
     throw new Error(`URL does not return an image (content-type: ${contentType})`);
   }
 
-  // Check content length if available
-  const contentLength = res.headers.get("content-length");
-
-  if (contentLength && parseInt(contentLength) > SERVER_CONFIG.MAX_IMAGE_FILE_SIZE) {
-    throw new Error(
-      `Image too large: ${contentLength} bytes (max: ${SERVER_CONFIG.MAX_IMAGE_FILE_SIZE})`
-    );
-  }
-
-  const arrayBuffer = await res.arrayBuffer();
-
-  // Check actual size
-  if (arrayBuffer.byteLength > SERVER_CONFIG.MAX_IMAGE_FILE_SIZE) {
-    throw new Error(
-      `Image too large: ${arrayBuffer.byteLength} bytes (max: ${SERVER_CONFIG.MAX_IMAGE_FILE_SIZE})`
-    );
-  }
-
-  let bytes = Buffer.from(new Uint8Array(arrayBuffer));
+  let bytes = await readBodyWithLimit(res, SERVER_CONFIG.MAX_IMAGE_FILE_SIZE);
 
   const ext = deriveExtFromBytes(url, contentType, bytes);
 
@@ -470,6 +422,10 @@ export async function downloadImage(url: string, recipeId: string): Promise<stri
     bytes = Buffer.from(new Uint8Array(convertedBytes));
   }
 
+  const recipeDir = path.join(RECIPES_BASE_DIR, recipeId);
+
+  await ensureDir(recipeDir);
+
   const id = uuidFromBytes(bytes);
   const fileName = `${id}.jpg`;
   const filePath = path.join(recipeDir, fileName);
@@ -999,3 +955,40 @@ export async function deleteVideoByUrl(url: string): Promise<void> {
     throw err;
   }
 }
+
+/**
+ * Resolve a recipe media URL to its file path on disk.
+ * Supports /recipes/{recipeId}/{file} and /recipes/{recipeId}/steps/{file}.
+ * Returns null for external URLs or malformed paths.
+ */
+export function resolveRecipeMediaPath(url: string): string | null {
+  const match = url.match(
+    /^\/recipes\/([a-f0-9-]{36})\/(?:(steps)\/)?([a-zA-Z0-9_-]+\.[a-zA-Z0-9]+)$/i
+  );
+
+  if (!match) return null;
+
+  const [, recipeId, stepsDir, filename] = match;
+
+  return stepsDir
+    ? path.join(RECIPES_BASE_DIR, recipeId, "steps", filename)
+    : path.join(RECIPES_BASE_DIR, recipeId, filename);
+}
+
+/**
+ * Read a recipe media file (image or video) by its web URL.
+ * Returns undefined when the URL is external or the file is missing.
+ */
+export async function readRecipeMedia(url: string): Promise<Buffer | undefined> {
+  const filePath = resolveRecipeMediaPath(url);
+
+  if (!filePath) return undefined;
+
+  try {
+    return await fs.readFile(filePath);
+  } catch (err) {
+    log.warn({ err, url }, "Could not read recipe media file");
+
+    return undefined;
+  }
+}
@@ -0,0 +1,150 @@
+import crypto from "crypto";
+
+import JSZip from "jszip";
+
+import { type RecipeExportExtras } from "./export-helpers";
+import { addNorishManifest, addRecipeToNorishArchive } from "./norish-exporter";
+import { MealieArchiveWriter } from "./mealie-exporter";
+import { addRecipeToPaprikaArchive } from "./paprika-exporter";
+import { addRecipeToMelaArchive } from "./mela-exporter";
+
+import { getRecipeFull } from "@/server/db/repositories/recipes";
+import { getUserRating } from "@/server/db/repositories/ratings";
+import { getFavoritesByRecipeIds } from "@/server/db/repositories/favorites";
+import { getPublisherClient } from "@/server/redis/client";
+import { serverLogger as log } from "@/server/logger";
+import { ArchiveExportFormat, FullRecipeDTO } from "@/types";
+
+const EXPORT_FILE_EXTENSIONS: Record<ArchiveExportFormat, string> = {
+  norish: ".zip",
+  mealie: ".zip",
+  paprika: ".paprikarecipes",
+  mela: ".melarecipes",
+};
+
+/**
+ * Common interface over the per-format exporters
+ */
+type ArchiveWriter = {
+  addRecipe: (recipe: FullRecipeDTO, extras: RecipeExportExtras) => Promise<void> | void;
+  finalize: (recipeCount: number) => void;
+};
+
+export type ArchiveExportRequest = {
+  userId: string;
+  recipeIds: string[];
+  format: ArchiveExportFormat;
+};
+
+// Redis key prefix and TTL for pending archive downloads
+const EXPORT_TOKEN_PREFIX = "archive:export:";
+const EXPORT_TOKEN_TTL = 300; // 5 minutes
+
+/**
+ * Store an export request and return a one-time download token.
+ * The archive itself is built when the token is redeemed.
+ */
+export async function createExportToken(request: ArchiveExportRequest): Promise<string> {
+  const token = crypto.randomBytes(32).toString("base64url");
+  const redis = await getPublisherClient();
+
+  await redis.setex(`${EXPORT_TOKEN_PREFIX}${token}`, EXPORT_TOKEN_TTL, JSON.stringify(request));
+
+  return token;
+}
+
+/**
+ * Retrieve and delete an export request. Returns null when expired or unknown.
+ */
+export async function consumeExportToken(token: string): Promise<ArchiveExportRequest | null> {
+  try {
+    const redis = await getPublisherClient();
+    const key = `${EXPORT_TOKEN_PREFIX}${token}`;
+    const data = await redis.get(key);
+
+    if (!data) return null;
+
+    await redis.del(key);
+
+    return JSON.parse(data) as ArchiveExportRequest;
+  } catch (error) {
+    log.error({ error }, "Failed to retrieve archive export request from Redis");
+
+    return null;
+  }
+}
+
+/**
+ * File name for a downloaded archive
+ */
+export function getExportFileName(format: ArchiveExportFormat, date = new Date()): string {
+  return `${format}-export-${date.toISOString().slice(0, 10)}${EXPORT_FILE_EXTENSIONS[format]}`;
+}
+
+function createArchiveWriter(
+  format: ArchiveExportFormat,
+  zip: JSZip,
+  userId: string
+): ArchiveWriter {
+  switch (format) {
+    case "mealie": {
+      const writer = new MealieArchiveWriter(zip, userId);
+
+      return {
+        addRecipe: (recipe, extras) => writer.addRecipe(recipe, extras),
+        finalize: () => writer.finalize(),
+      };
+    }
+    case "paprika": {
+      const usedNames = new Set<string>();
+
+      return {
+        addRecipe: (recipe, extras) => addRecipeToPaprikaArchive(zip, recipe, extras, usedNames),
+        finalize: () => {},
+      };
+    }
+    case "mela":
+      return {
+        addRecipe: (recipe, extras) => addRecipeToMelaArchive(zip, recipe, extras),
+        finalize: () => {},
+      };
+    case "norish":
+    default:
+      return {
+        addRecipe: (recipe, extras) => addRecipeToNorishArchive(zip, recipe, extras),
+        finalize: (recipeCount) => addNorishManifest(zip, recipeCount),
+      };
+  }
+}
+
+/**
+ * Build an export archive for the given recipes in the requested format.
+ * Videos and Norish/Mealie images are added as lazy file streams; Paprika and Mela entries embed
+ * images as base64 and are built one at a time as the archive is generated.
+ * Call generateNodeStream() to stream the result.
+ */
+export async function buildExportArchive(request: ArchiveExportRequest): Promise<JSZip> {
+  const { userId, recipeIds, format } = request;
+  const zip = new JSZip();
+  const writer = createArchiveWriter(format, zip, userId);
+  const favorites = await getFavoritesByRecipeIds(userId, recipeIds);
+  let count = 0;
+
+  for (const recipeId of recipeIds) {
+    const recipe = await getRecipeFull(recipeId);
+
+    // Recipe may have been deleted since the token was issued
+    if (!recipe) continue;
+
+    const rating = await getUserRating(userId, recipeId);
+
+    await writer.addRecipe(recipe, { rating, favorite: favorites.has(recipeId) });
+    count++;
+  }
+
+  writer.finalize(count);
+
+  log.info({ userId, format, count }, "Built archive export");
+
+  return zip;
+}
@@ -0,0 +1,166 @@
+import { Readable } from "stream";
+
+import { readRecipeMedia } from "@/server/downloader";
+import { formatAmountAsDecimal } from "@/lib/format-amount";
+import { formatMinutesHM } from "@/lib/helpers";
+import { withSectionHeadings } from "@/lib/recipe-sections";
+import { FullRecipeDTO } from "@/types";
+
+/**
+ * Per-user data exported alongside a recipe
+ */
+export type RecipeExportExtras = {
+  rating: number | null;
+  favorite: boolean;
+};
+
+type RecipeIngredient = FullRecipeDTO["recipeIngredients"][number];
+type RecipeStep = FullRecipeDTO["steps"][number];
+
+/**
+ * Ingredients for the recipe's own measurement system, in display order.
+ * Third-party formats only hold one ingredient list, so converted variants are dropped.
+ */
+export function getPrimaryIngredients(recipe: FullRecipeDTO): RecipeIngredient[] {
+  const primary = recipe.recipeIngredients.filter((ri) => ri.systemUsed === recipe.systemUsed);
+  const list = primary.length > 0 ? primary : recipe.recipeIngredients;
+
+  return [...list].sort((a, b) => a.order - b.order);
+}
+
+/**
+ * Steps for the recipe's own measurement system, in display order.
+ */
+export function getPrimarySteps(recipe: FullRecipeDTO): RecipeStep[] {
+  const primary = recipe.steps.filter((s) => s.systemUsed === recipe.systemUsed);
+  const list = primary.length > 0 ? primary : recipe.steps;
+
+  return [...list].sort((a, b) => a.order - b.order);
+}
+
+/**
+ * Format an ingredient as a single line (e.g. "200 g flour") that our ingredient parser reads back
+ */
+export function formatIngredientLine(ingredient: RecipeIngredient): string {
+  return [formatAmountAsDecimal(ingredient.amount), ingredient.unit, ingredient.ingredientName]
+    .filter((part) => part && String(part).trim())
+    .join(" ");
+}
+
+function toHeadingLine(section: string): string {
+  return `# ${section}`.trim();
+}
+
+/**
+ * Newline-separated ingredient list, with `# Section` lines where sections start
+ */
+export function formatIngredientsText(recipe: FullRecipeDTO): string {
+  return withSectionHeadings(getPrimaryIngredients(recipe), toHeadingLine)
+    .map((ri) => (typeof ri === "string" ? ri : formatIngredientLine(ri)))
+    .join("\n");
+}
+
+/**
+ * Newline-separated instructions, with `# Section` lines where sections start
+ */
+export function formatStepsText(recipe: FullRecipeDTO): string {
+  return withSectionHeadings(getPrimarySteps(recipe), toHeadingLine)
+    .map((s) => (typeof s === "string" ? s : s.step.trim()))
+    .join("\n");
+}
+
+/**
+ * Format minutes as a human-readable duration, empty when unset
+ */
+export function formatDuration(minutes: number | null | undefined): string {
+  return formatMinutesHM(minutes ?? undefined) ?? "";
+}
+
+/**
+ * Newline-separated nutrition summary (e.g. "Calories: 350\nFat: 12 g")
+ */
+export function formatNutritionText(recipe: FullRecipeDTO): string {
+  const lines: string[] = [];
+
+  if (recipe.calories != null) lines.push(`Calories: ${recipe.calories}`);
+  if (recipe.fat != null) lines.push(`Fat: ${recipe.fat} g`);
+  if (recipe.carbs != null) lines.push(`Carbohydrates: ${recipe.carbs} g`);
+  if (recipe.protein != null) lines.push(`Protein: ${recipe.protein} g`);
+  if (recipe.fiber != null) lines.push(`Fiber: ${recipe.fiber} g`);
+  if (recipe.sugar != null) lines.push(`Sugar: ${recipe.sugar} g`);
+  if (recipe.saturatedFat != null) lines.push(`Saturated fat: ${recipe.saturatedFat} g`);
+  if (recipe.sodium != null) lines.push(`Sodium: ${recipe.sodium} mg`);
+  if (recipe.cholesterol != null) lines.push(`Cholesterol: ${recipe.cholesterol} mg`);
+
+  return lines.join("\n");
+}
+
+/**
+ * Image URLs for a recipe: main image first, then the gallery, without duplicates
+ */
+export function getRecipeImageUrls(recipe: FullRecipeDTO): string[] {
+  const gallery = [...recipe.images].sort((a, b) => a.order - b.order).map((img) => img.image);
+  const urls = recipe.image ? [recipe.image, ...gallery] : gallery;
+
+  return [...new Set(urls)];
+}
+
+/**
+ * Read locally stored images as raw bytes, skipping any that are missing
+ */
+export async function readRecipeImages(urls: string[]): Promise<Buffer[]> {
+  const buffers: Buffer[] = [];
+
+  for (const url of urls) {
+    const bytes = await readRecipeMedia(url);
+
+    if (bytes) buffers.push(bytes);
+  }
+
+  return buffers;
+}
+
+/**
+ * A stream whose content is only built when it is first read. JSZip reads entries one at a
+ * time while generating, so formats that embed images hold a single recipe's images at once.
+ */
+export function createLazyStream(build: () => Promise<Buffer | string>): Readable {
+  let started = false;
+
+  return new Readable({
+    read() {
+      if (started) return;
+      started = true;
+
+      build().then(
+        (content) => {
+          this.push(content);
+          this.push(null);
+        },
+        (error: Error) => this.destroy(error)
+      );
+    },
+  });
+}
+
+/**
+ * Turn a recipe name into a safe, unique archive file name
+ */
+export function toUniqueFileName(name: string, extension: string, used: Set<string>): string {
+  const base =
+    name
+      .replace(/[\\/:*?"<>|\u0000-\u001f]/g, "")
+      .replace(/\s+/g, " ")
+      .trim()
+      .slice(0, 100) || "recipe";
+
+  let fileName = `${base}${extension}`;
+
+  for (let i = 2; used.has(fileName.toLowerCase()); i++) {
+    fileName = `${base} (${i})${extension}`;
+  }
+
+  used.add(fileName.toLowerCase());
+
+  return fileName;
+}
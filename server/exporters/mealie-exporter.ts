@@ -0,0 +1,245 @@
+import crypto from "crypto";
+import fs from "fs";
+
+import JSZip from "jszip";
+
+import { getPrimaryIngredients, getPrimarySteps, type RecipeExportExtras } from "./export-helpers";
+
+import { resolveRecipeMediaPath } from "@/server/downloader";
+import { sectionStartingAt } from "@/lib/recipe-sections";
+import { getStepIngredients } from "@/lib/step-ingredients";
+import { type MealieDatabase } from "@/server/importers/mealie-parser";
+import { FullRecipeDTO } from "@/types";
+
+/**
+ * Convert a name to a Mealie slug
+ */
+function toSlug(name: string): string {
+  return (
+    name
+      .toLowerCase()
+      .normalize("NFKD")
+      .replace(/[\u0300-\u036f]/g, "")
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, "") || "recipe"
+  );
+}
+
+/**
+ * Builds a Mealie backup archive: a database.json with Mealie's tables
+ * and data/recipes/{recipeId}/images/original.webp for each recipe image.
+ *
+ * Ingredients are written in Mealie's parsed form (food + unit + quantity) so amounts survive
+ * a round trip. Images are stored under Mealie's expected file name but keep their JPEG bytes.
+ */
+export class MealieArchiveWriter {
+  private readonly database: MealieDatabase = {
+    recipes: [],
+    recipes_ingredients: [],
+    recipe_instructions: [],
+    ingredient_foods: [],
+    ingredient_units: [],
+    tags: [],
+    recipes_to_tags: [],
+    categories: [],
+    recipes_to_categories: [],
+    users_to_recipes: [],
+    recipe_nutrition: [],
+    recipe_ingredient_ref_link: [],
+  };
+
+  // Lowercased name -> id lookups so shared rows are only written once
+  private readonly foodIds = new Map<string, string>();
+  private readonly unitIds = new Map<string, string>();
+  private readonly tagIds = new Map<string, string>();
+  private readonly slugs = new Set<string>();
+  private ingredientId = 0;
+
+  constructor(
+    private readonly zip: JSZip,
+    private readonly userId: string
+  ) {}
+
+  private getOrCreate(
+    lookup: Map<string, string>,
+    name: string,
+    create: (id: string) => void
+  ): string {
+    const key = name.trim().toLowerCase();
+    const existing = lookup.get(key);
+
+    if (existing) return existing;
+
+    const id = crypto.randomUUID();
+
+    lookup.set(key, id);
+    create(id);
+
+    return id;
+  }
+
+  private uniqueSlug(name: string): string {
+    const base = toSlug(name);
+    let slug = base;
+
+    for (let i = 2; this.slugs.has(slug); i++) {
+      slug = `${base}-${i}`;
+    }
+
+    this.slugs.add(slug);
+
+    return slug;
+  }
+
+  addRecipe(recipe: FullRecipeDTO, extras: RecipeExportExtras): void {
+    const db = this.database;
+    const recipeId = recipe.id;
+    const imagePath = recipe.image ? resolveRecipeMediaPath(recipe.image) : null;
+    const hasImage = !!imagePath && fs.existsSync(imagePath);
+    const createdAt = recipe.createdAt.toISOString();
+    const updatedAt = recipe.updatedAt.toISOString();
+
+    db.recipes.push({
+      id: recipeId,
+      slug: this.uniqueSlug(recipe.name),
+      name: recipe.name,
+      description: recipe.description ?? "",
+      image: hasImage ? "original" : undefined,
+      org_url: recipe.url ?? undefined,
+      recipe_servings: recipe.servings,
+      recipe_yield: `${recipe.servings} servings`,
+      recipe_yield_quantity: recipe.servings,
+      prep_time: recipe.prepMinutes,
+      cook_time: recipe.cookMinutes,
+      perform_time: null,
+      total_time: recipe.totalMinutes,
+      date_added: createdAt.slice(0, 10),
+      date_updated: updatedAt,
+      created_at: createdAt,
+      update_at: updatedAt,
+      user_id: this.userId,
+    });
+
+    const ingredients = getPrimaryIngredients(recipe);
+    // Ingredient order -> reference_id, for linking instructions to their ingredients
+    const referenceIds = new Map<number, string>();
+
+    ingredients.forEach((ri, position) => {
+      const foodId = this.getOrCreate(this.foodIds, ri.ingredientName, (id) =>
+        db.ingredient_foods.push({ id, name: ri.ingredientName.trim() })
+      );
+      const unit = ri.unit?.trim();
+      const unitId = unit
+        ? this.getOrCreate(this.unitIds, unit, (id) =>
+            db.ingredient_units.push({
+              id,
+              name: unit,
+              abbreviation: unit,
+              use_abbreviation: false,
+            })
+          )
+        : undefined;
+
+      const referenceId = crypto.randomUUID();
+
+      referenceIds.set(ri.order, referenceId);
+      db.recipes_ingredients.push({
+        id: ++this.ingredientId,
+        recipe_id: recipeId,
+        quantity: ri.amount ?? 0,
+        unit_id: unitId,
+        food_id: foodId,
+        note: "",
+        title: sectionStartingAt(ingredients, position) ?? "",
+        reference_id: referenceId,
+        position,
+      });
+    });
+
+    const steps = getPrimarySteps(recipe);
+
+    steps.forEach((s, position) => {
+      const instructionId = crypto.randomUUID();
+
+      db.recipe_instructions.push({
+        id: instructionId,
+        recipe_id: recipeId,
+        position,
+        text: s.step,
+        title: sectionStartingAt(steps, position) ?? "",
+      });
+
+      for (const ri of getStepIngredients(s, ingredients)) {
+        const referenceId = referenceIds.get(ri.order);
+
+        if (referenceId) {
+          db.recipe_ingredient_ref_link.push({
+            id: crypto.randomUUID(),
+            instruction_id: instructionId,
+            reference_id: referenceId,
+          });
+        }
+      }
+    });
+
+    for (const tag of recipe.tags) {
+      const tagId = this.getOrCreate(this.tagIds, tag.name, (id) =>
+        db.tags.push({ id, name: tag.name.trim(), slug: toSlug(tag.name) })
+      );
+
+      db.recipes_to_tags.push({ recipe_id: recipeId, tag_id: tagId });
+    }
+
+    if (extras.rating != null || extras.favorite) {
+      db.users_to_recipes.push({
+        id: crypto.randomUUID(),
+        recipe_id: recipeId,
+        user_id: this.userId,
+        rating: extras.rating,
+        is_favorite: extras.favorite,
+      });
+    }
+
+    const hasNutrition =
+      recipe.calories != null ||
+      [
+        recipe.fat,
+        recipe.carbs,
+        recipe.protein,
+        recipe.fiber,
+        recipe.sugar,
+        recipe.saturatedFat,
+        recipe.sodium,
+        recipe.cholesterol,
+      ].some(Boolean);
+
+    if (hasNutrition) {
+      db.recipe_nutrition.push({
+        recipe_id: recipeId,
+        calories: recipe.calories != null ? String(recipe.calories) : null,
+        fat_content: recipe.fat,
+        carbohydrate_content: recipe.carbs,
+        protein_content: recipe.protein,
+        fiber_content: recipe.fiber,
+        sugar_content: recipe.sugar,
+        saturated_fat_content: recipe.saturatedFat,
+        sodium_content: recipe.sodium,
+        cholesterol_content: recipe.cholesterol,
+      });
+    }
+
+    if (hasImage) {
+      this.zip.file(
+        `data/recipes/${recipeId}/images/original.webp`,
+        fs.createReadStream(imagePath!)
+      );
+    }
+  }
+
+  /**
+   * Write database.json. Call after all recipes have been added.
+   */
+  finalize(): void {
+    this.zip.file("database.json", JSON.stringify(this.database));
+  }
+}
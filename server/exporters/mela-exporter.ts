@@ -0,0 +1,64 @@
+import JSZip from "jszip";
+
+import {
+  createLazyStream,
+  formatDuration,
+  formatIngredientsText,
+  formatNutritionText,
+  formatStepsText,
+  getRecipeImageUrls,
+  readRecipeImages,
+  type RecipeExportExtras,
+} from "./export-helpers";
+
+import { type MelaRecipe } from "@/server/importers/mela-parser";
+import { FullRecipeDTO } from "@/types";
+
+// Mela stores dates as seconds since the Apple reference date (2001-01-01 UTC)
+const APPLE_REFERENCE_DATE_MS = Date.UTC(2001, 0, 1);
+
+/**
+ * Build a Mela recipe JSON object. All images are embedded as base64, main image first.
+ */
+export async function buildMelaRecipe(
+  recipe: FullRecipeDTO,
+  extras: RecipeExportExtras
+): Promise<MelaRecipe> {
+  const images = await readRecipeImages(getRecipeImageUrls(recipe));
+
+  return {
+    id: recipe.id,
+    title: recipe.name,
+    text: recipe.description ?? "",
+    link: recipe.url ?? "",
+    yield: String(recipe.servings),
+    prepTime: formatDuration(recipe.prepMinutes),
+    cookTime: formatDuration(recipe.cookMinutes),
+    totalTime: formatDuration(recipe.totalMinutes),
+    ingredients: formatIngredientsText(recipe),
+    instructions: formatStepsText(recipe),
+    notes: "",
+    nutrition: formatNutritionText(recipe),
+    categories: recipe.tags.map((t) => t.name),
+    images: images.map((bytes) => bytes.toString("base64")),
+    favorite: extras.favorite,
+    wantToCook: false,
+    date: Math.round((recipe.createdAt.getTime() - APPLE_REFERENCE_DATE_MS) / 1000),
+  };
+}
+
+/**
+ * Add a recipe to a .melarecipes archive (one JSON .melarecipe file per recipe).
+ * The JSON is built when the archive is generated so images are only read while their entry is written.
+ */
+export function addRecipeToMelaArchive(
+  zip: JSZip,
+  recipe: FullRecipeDTO,
+  extras: RecipeExportExtras
+): void {
+  const content = createLazyStream(async () =>
+    JSON.stringify(await buildMelaRecipe(recipe, extras))
+  );
+
+  zip.file(`${recipe.id}.melarecipe`, content);
+}
@@ -0,0 +1,162 @@
+import fs from "fs";
+import path from "path";
+
+import JSZip from "jszip";
+
+import { type RecipeExportExtras } from "./export-helpers";
+
+import {
+  NORISH_ARCHIVE_FORMAT,
+  NORISH_ARCHIVE_VERSION,
+  NORISH_MANIFEST_FILE,
+  type NorishManifest,
+  type NorishRecipeInput,
+} from "@/server/importers/norish-parser";
+import { resolveRecipeMediaPath } from "@/server/downloader";
+import { serverLogger as log } from "@/server/logger";
+import { FullRecipeDTO } from "@/types";
+
+/**
+ * Collects media files to add to the archive, keyed by web URL so
+ * duplicate references (main image + gallery) are only stored once.
+ */
+class MediaCollector {
+  private readonly files = new Map<string, { archivePath: string; diskPath: string }>();
+
+  constructor(private readonly recipeDir: string) {}
+
+  /**
+   * Register a media URL under a folder and return its path relative to the recipe folder.
+   * Returns null when the file is not stored locally.
+   */
+  add(url: string | null | undefined, folder: "images" | "steps" | "videos"): string | null {
+    if (!url) return null;
+
+    const existing = this.files.get(url);
+
+    if (existing) return existing.archivePath;
+
+    const diskPath = resolveRecipeMediaPath(url);
+
+    if (!diskPath || !fs.existsSync(diskPath)) return null;
+
+    const archivePath = `${folder}/${path.basename(diskPath)}`;
+
+    this.files.set(url, { archivePath, diskPath });
+
+    return archivePath;
+  }
+
+  /**
+   * Add all collected files as lazy file streams so large videos are never buffered in memory
+   */
+  writeTo(zip: JSZip): void {
+    for (const { archivePath, diskPath } of this.files.values()) {
+      zip.file(`${this.recipeDir}/${archivePath}`, fs.createReadStream(diskPath));
+    }
+  }
+}
+
+/**
+ * Build the Norish recipe.json payload for a recipe, registering its media with the collector.
+ */
+export function buildNorishRecipeJson(
+  recipe: FullRecipeDTO,
+  extras: RecipeExportExtras,
+  media: { add: MediaCollector["add"] }
+): NorishRecipeInput {
+  return {
+    id: recipe.id,
+    name: recipe.name,
+    description: recipe.description,
+    url: recipe.url,
+    image: media.add(recipe.image, "images"),
+    servings: recipe.servings,
+    prepMinutes: recipe.prepMinutes,
+    cookMinutes: recipe.cookMinutes,
+    totalMinutes: recipe.totalMinutes,
+    systemUsed: recipe.systemUsed,
+    calories: recipe.calories,
+    fat: recipe.fat,
+    carbs: recipe.carbs,
+    protein: recipe.protein,
+    fiber: recipe.fiber,
+    sugar: recipe.sugar,
+    saturatedFat: recipe.saturatedFat,
+    sodium: recipe.sodium,
+    cholesterol: recipe.cholesterol,
+    tags: recipe.tags.map((t) => t.name),
+    ingredients: recipe.recipeIngredients.map((ri) => ({
+      name: ri.ingredientName,
+      amount: ri.amount,
+      unit: ri.unit,
+      order: ri.order,
+      systemUsed: ri.systemUsed,
+      section: ri.section ?? null,
+      linkedRecipeId: ri.linkedRecipeId ?? null,
+    })),
+    steps: recipe.steps.map((s) => ({
+      step: s.step,
+      order: s.order,
+      systemUsed: s.systemUsed,
+      section: s.section ?? null,
+      ingredientOrders: s.ingredientOrders ?? null,
+      images: (s.images ?? []).flatMap((img) => {
+        const file = media.add(img.image, "steps");
+
+        return file ? [{ file, order: img.order }] : [];
+      }),
+    })),
+    images: recipe.images.flatMap((img) => {
+      const file = media.add(img.image, "images");
+
+      return file ? [{ file, order: img.order }] : [];
+    }),
+    videos: recipe.videos.flatMap((v) => {
+      const file = media.add(v.video, "videos");
+
+      if (!file) return [];
+
+      // Thumbnails are either local images or external URLs
+      const thumbnail = v.thumbnail ? (media.add(v.thumbnail, "images") ?? v.thumbnail) : null;
+
+      return [{ file, thumbnail, duration: v.duration ?? null, order: v.order }];
+    }),
+    rating: extras.rating,
+    favorite: extras.favorite,
+    createdAt: recipe.createdAt.toISOString(),
+    updatedAt: recipe.updatedAt.toISOString(),
+  };
+}
+
+/**
+ * Add a recipe (recipe.json + media) to a Norish archive
+ */
+export function addRecipeToNorishArchive(
+  zip: JSZip,
+  recipe: FullRecipeDTO,
+  extras: RecipeExportExtras
+): void {
+  const recipeDir = `recipes/${recipe.id}`;
+  const media = new MediaCollector(recipeDir);
+  const json = buildNorishRecipeJson(recipe, extras, media);
+
+  zip.file(`${recipeDir}/recipe.json`, JSON.stringify(json, null, 2));
+  media.writeTo(zip);
+
+  log.debug({ recipeId: recipe.id }, "Added recipe to Norish archive");
+}
+
+/**
+ * Write the Norish manifest. Call after all recipes have been added.
+ */
+export function addNorishManifest(zip: JSZip, recipeCount: number): void {
+  const manifest: NorishManifest = {
+    format: NORISH_ARCHIVE_FORMAT,
+    version: NORISH_ARCHIVE_VERSION,
+    exportedAt: new Date().toISOString(),
+    recipeCount,
+  };
+
+  zip.file(NORISH_MANIFEST_FILE, JSON.stringify(manifest, null, 2));
+}
@@ -0,0 +1,108 @@
+import crypto from "crypto";
+import { gzip } from "zlib";
+import { promisify } from "util";
+
+import JSZip from "jszip";
+
+import {
+  createLazyStream,
+  formatDuration,
+  formatIngredientsText,
+  formatNutritionText,
+  formatStepsText,
+  getRecipeImageUrls,
+  readRecipeImages,
+  toUniqueFileName,
+  type RecipeExportExtras,
+} from "./export-helpers";
+
+import { FullRecipeDTO } from "@/types";
+
+const gzipAsync = promisify(gzip);
+
+/**
+ * Format a date the way Paprika does ("YYYY-MM-DD HH:MM:SS")
+ */
+function formatPaprikaDate(date: Date): string {
+  return date.toISOString().slice(0, 19).replace("T", " ");
+}
+
+function sha256(bytes: Buffer): string {
+  return crypto.createHash("sha256").update(bytes).digest("hex").toUpperCase();
+}
+
+/**
+ * Build a Paprika recipe JSON object.
+ * The main image goes into photo_data; photos[] carries it again followed by the gallery,
+ * which is what our own Paprika importer reads.
+ */
+export async function buildPaprikaRecipe(
+  recipe: FullRecipeDTO,
+  extras: RecipeExportExtras
+): Promise<Record<string, unknown>> {
+  const images = await readRecipeImages(getRecipeImageUrls(recipe));
+  const uid = recipe.id.toUpperCase();
+  const main = images[0];
+
+  let source = "";
+
+  if (recipe.url) {
+    try {
+      source = new URL(recipe.url).hostname.replace(/^www\./, "");
+    } catch {
+      // Not a valid URL, leave source empty
+    }
+  }
+
+  return {
+    uid,
+    name: recipe.name,
+    description: recipe.description ?? "",
+    ingredients: formatIngredientsText(recipe),
+    directions: formatStepsText(recipe),
+    notes: "",
+    nutritional_info: formatNutritionText(recipe),
+    categories: recipe.tags.map((t) => t.name),
+    rating: extras.rating ?? 0,
+    on_favorites: extras.favorite,
+    prep_time: formatDuration(recipe.prepMinutes),
+    cook_time: formatDuration(recipe.cookMinutes),
+    total_time: formatDuration(recipe.totalMinutes),
+    servings: String(recipe.servings),
+    difficulty: "",
+    source,
+    source_url: recipe.url ?? "",
+    created: formatPaprikaDate(recipe.createdAt),
+    photo: main ? `${uid}.jpg` : null,
+    photo_hash: main ? sha256(main) : null,
+    photo_data: main ? main.toString("base64") : null,
+    photos: images.map((bytes, i) => ({
+      name: `${i + 1}`,
+      filename: `${uid}-${i + 1}.jpg`,
+      hash: sha256(bytes),
+      data: bytes.toString("base64"),
+    })),
+  };
+}
+
+/**
+ * Add a recipe to a .paprikarecipes archive.
+ * Each entry is a GZIP-compressed JSON file named after the recipe, built when the archive
+ * is generated so images are only read while their entry is written.
+ */
+export function addRecipeToPaprikaArchive(
+  zip: JSZip,
+  recipe: FullRecipeDTO,
+  extras: RecipeExportExtras,
+  usedNames: Set<string>
+): void {
+  const content = createLazyStream(async () => {
+    const json = await buildPaprikaRecipe(recipe, extras);
+
+    return gzipAsync(Buffer.from(JSON.stringify(json), "utf-8"));
+  });
+
+  zip.file(toUniqueFileName(recipe.name, ".paprikarecipe", usedNames), content, {
+    compression: "STORE",
+  });
+}
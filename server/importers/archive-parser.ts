@@ -9,12 +9,21 @@ import {
 } from "./mealie-parser";
 import { extractTandoorRecipes, parseTandoorRecipeToDTO } from "./tandoor-parser";
 import { extractPaprikaRecipes, parsePaprikaRecipeToDTO } from "./paprika-parser";
+import {
+  NORISH_RECIPE_FILE_PATTERN,
+  extractNorishRecipes,
+  orderNorishRecipesByLinks,
+  parseNorishRecipeToDTO,
+  readNorishManifest,
+} from "./norish-parser";
 
 import { RecipeDashboardDTO, FullRecipeInsertDTO } from "@/types";
 import { createRecipeWithRefs, dashboardRecipe, findExistingRecipe } from "@/server/db";
 import { rateRecipe } from "@/server/db/repositories/ratings";
+import { addFavorite } from "@/server/db/repositories/favorites";
 
 export enum ArchiveFormat {
+  NORISH = "norish",
   MELA = "mela",
   MEALIE = "mealie",
   TANDOOR = "tandoor",
@@ -30,6 +39,7 @@ export type ImportResult = {
 
 /**
  * Detect archive format by inspecting contents
+ * - Norish: contains norish.json manifest
  * - Mealie: contains database.json
  * - Mela: contains .melarecipe files
  * - Paprika: contains .paprikarecipe files
@@ -44,6 +54,16 @@ export type ArchiveInfo = {
  * Detect archive format and count recipes in one pass
  */
 export async function getArchiveInfo(zip: JSZip): Promise<ArchiveInfo> {
+  // Check for Norish format (norish.json manifest)
+  const norishManifest = await readNorishManifest(zip);
+
+  if (norishManifest) {
+    return {
+      format: ArchiveFormat.NORISH,
+      count: zip.file(NORISH_RECIPE_FILE_PATTERN).length,
+    };
+  }
+
   // Check for Mealie format (database.json)
   const databaseFile = zip.file("database.json");
 
@@ -122,6 +142,10 @@ type RecipeImportItem = {
   fileName: string;
   /** Optional imported rating (1-5) to save for the importing user */
   importedRating?: number;
+  /** Whether the recipe should be favorited for the importing user */
+  importedFavorite?: boolean;
+  /** Called with the id of the saved recipe, or of the existing duplicate */
+  onSaved?: (recipeId: string) => void;
 };
 
 /**
@@ -173,13 +197,15 @@ async function importRecipeItems(
     }
 
     // Handle regular import items
-    const { dto, fileName, importedRating } = item;
+    const { dto, fileName, importedRating, importedFavorite, onSaved } = item;
 
     try {
       // Check for duplicates
       const existingId = await findExistingRecipe(userIds, dto.url, dto.name);
 
       if (existingId) {
+        onSaved?.(existingId);
+
         const skippedItem = { file: fileName, reason: "Duplicate recipe" };
 
         skipped.push(skippedItem);
@@ -190,6 +216,8 @@ async function importRecipeItems(
       const id = crypto.randomUUID();
       const created = await createRecipeWithRefs(id, userId, dto);
 
+      if (created) onSaved?.(created);
+
       // Save imported rating if present and user is authenticated
       if (importedRating && userId && created) {
         try {
@@ -199,6 +227,15 @@ async function importRecipeItems(
         }
       }
 
+      // Save imported favorite if present and user is authenticated
+      if (importedFavorite && userId && created) {
+        try {
+          await addFavorite(userId, created as string);
+        } catch {
+          // Ignore favorite errors - don't fail the import
+        }
+      }
+
       // Fetch recipe AFTER saving rating so averageRating is included in the DTO
       const recipe = await dashboardRecipe(created as string);
 
@@ -217,6 +254,38 @@ async function importRecipeItems(
   return { imported, errors, skipped };
 }
 
+/**
+ * Generator for Norish recipes
+ * Restores media from the archive and carries over the exported rating and favorite.
+ * Sub-recipes are yielded first so links can point at their imported (or existing) copy.
+ */
+async function* generateNorishRecipes(
+  zip: JSZip
+): AsyncGenerator<RecipeImportItemOrError, void, unknown> {
+  const norishRecipes = orderNorishRecipesByLinks(await extractNorishRecipes(zip));
+  const importedIds = new Map<string, string>();
+
+  for (const { recipe, recipeDir, fileName } of norishRecipes) {
+    try {
+      const dto = await parseNorishRecipeToDTO(zip, recipe, recipeDir, importedIds);
+
+      yield {
+        dto,
+        fileName,
+        importedRating: recipe.rating ?? undefined,
+        importedFavorite: recipe.favorite,
+        onSaved: (recipeId) => importedIds.set(recipe.id, recipeId),
+      };
+    } catch (error) {
+      yield {
+        dto: undefined,
+        fileName,
+        parseError: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+}
+
 /**
  * Generator for Mela recipes
  */
@@ -325,7 +394,7 @@ async function* generatePaprikaRecipes(
 }
 
 /**
- * Import archive (auto-detects Mela, Mealie, Paprika, or Tandoor format)
+ * Import archive (auto-detects Norish, Mela, Mealie, Paprika, or Tandoor format)
  */
 export async function importArchive(
   userId: string | undefined,
@@ -348,7 +417,7 @@ export async function importArchive(
 
   if (format === ArchiveFormat.UNKNOWN) {
     throw new Error(
-      "Unknown archive format. Expected .melarecipes, Mealie .zip, Paprika .zip, or Tandoor .zip export"
+      "Unknown archive format. Expected Norish .zip, .melarecipes, Mealie .zip, Paprika .zip, or Tandoor .zip export"
     );
   }
 
@@ -356,6 +425,9 @@ export async function importArchive(
   let generator: AsyncGenerator<RecipeImportItemOrError, void, unknown>;
 
   switch (format) {
+    case ArchiveFormat.NORISH:
+      generator = generateNorishRecipes(zip);
+      break;
     case ArchiveFormat.MELA:
       generator = generateMelaRecipes(zip);
       break;
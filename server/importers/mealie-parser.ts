@@ -9,6 +9,7 @@ import { parseHumanDurationToMinutes } from "./parser-helpers";
 import { serverLogger as log } from "@/server/logger";
 import { inferSystemUsedFromParsed } from "@/lib/determine-recipe-system";
 import { parseIngredientWithDefaults } from "@/lib/helpers";
+import { matchStepIngredients } from "@/lib/step-ingredients";
 import { FullRecipeInsertDTO } from "@/types";
 import { FullRecipeInsertSchema } from "@/server/db";
 import { getUnits } from "@/config/server-config-loader";
@@ -25,6 +26,7 @@ export type MealieDatabase = {
   recipes_to_categories: MealieRecipeToCategory[];
   users_to_recipes: MealieUserToRecipe[];
   recipe_nutrition: MealieNutrition[];
+  recipe_ingredient_ref_link: MealieIngredientRefLink[];
 };
 
 export type MealieRecipe = {
@@ -85,6 +87,13 @@ export type MealieInstruction = {
   update_at?: string;
 };
 
+/** Links an instruction to the ingredients it uses, by the ingredient's reference_id */
+export type MealieIngredientRefLink = {
+  id?: string;
+  instruction_id: string;
+  reference_id: string;
+};
+
 export type MealieFood = {
   id: string;
   name: string;
@@ -160,6 +169,8 @@ export type MealieNutrition = {
   fiber_content?: string | null;
   sodium_content?: string | null;
   sugar_content?: string | null;
+  saturated_fat_content?: string | null;
+  cholesterol_content?: string | null;
 };
 
 /**
@@ -174,6 +185,7 @@ export type MealieLookups = {
   recipeCategories: Map<string, string[]>; // recipe_id -> category_ids[]
   recipeRatings: Map<string, number[]>; // recipe_id -> ratings[]
   recipeNutrition: Map<string, MealieNutrition>; // recipe_id -> nutrition
+  instructionIngredientRefs: Map<string, string[]>; // instruction_id -> ingredient reference_ids[]
 };
 
 /**
@@ -224,6 +236,16 @@ export function buildMealieLookups(database: MealieDatabase): MealieLookups {
     recipeNutrition.set(nutr.recipe_id, nutr);
   }
 
+  // Build instruction -> ingredient reference_ids map
+  const instructionIngredientRefs = new Map<string, string[]>();
+
+  for (const link of database.recipe_ingredient_ref_link) {
+    const existing = instructionIngredientRefs.get(link.instruction_id) || [];
+
+    existing.push(link.reference_id);
+    instructionIngredientRefs.set(link.instruction_id, existing);
+  }
+
   return {
     foods,
     units,
@@ -233,6 +255,7 @@ export function buildMealieLookups(database: MealieDatabase): MealieLookups {
     recipeCategories,
     recipeRatings,
     recipeNutrition,
+    instructionIngredientRefs,
   };
 }
 
@@ -256,6 +279,7 @@ export async function parseMealieDatabase(databaseJson: string): Promise<MealieD
       recipes_to_categories: data.recipes_to_categories || [],
       users_to_recipes: data.users_to_recipes || [],
       recipe_nutrition: data.recipe_nutrition || [],
+      recipe_ingredient_ref_link: data.recipe_ingredient_ref_link || [],
     };
   } catch (e: any) {
     throw new Error(`Failed to parse database.json: ${e?.message || e}`);
@@ -394,6 +418,27 @@ function parseNutritionValue(value: string | null | undefined): number | null {
   return null;
 }
 
+/**
+ * Orders of the ingredients an instruction uses: the ones Mealie links to it,
+ * or a best-effort match on the ingredient names in its text
+ */
+function stepIngredientOrders(
+  text: string,
+  referenceIds: string[],
+  ingredients: { name: string; referenceId?: string }[]
+): number[] {
+  if (referenceIds.length > 0) {
+    return ingredients
+      .map((ing, order) => (ing.referenceId && referenceIds.includes(ing.referenceId) ? order : -1))
+      .filter((order) => order >= 0);
+  }
+
+  return matchStepIngredients(
+    text,
+    ingredients.map((ing, order) => ({ ingredientName: ing.name, order }))
+  );
+}
+
 /**
  * Parse a single Mealie recipe and map to our Recipe shape.
  * Supports both parsed ingredients (with food_id/unit_id) and unparsed (original_text/note).
@@ -438,9 +483,15 @@ export async function parseMealieRecipeToDTO(
     name: string;
     amount: number | null;
     unit: string | null;
+    section: string | null;
+    referenceId?: string;
   }> = [];
+  // Mealie puts a section title on the first ingredient of each section
+  let ingredientSection: string | null = null;
 
   for (const ing of recipeIngredients) {
+    if (ing.title?.trim()) ingredientSection = ing.title.trim();
+
     // Determine the raw text to parse from (priority: original_text > note)
     const rawText = ing.original_text?.trim() || ing.note?.trim();
 
@@ -461,6 +512,8 @@ export async function parseMealieRecipeToDTO(
           name: p.description || rawText,
           amount: p.quantity != null ? p.quantity : null,
           unit: p.unitOfMeasureID || null,
+          section: ingredientSection,
+          referenceId: ing.reference_id,
         });
       } else {
         // Fallback: use the raw text as-is if parsing fails
@@ -468,6 +521,8 @@ export async function parseMealieRecipeToDTO(
           name: rawText,
           amount: null,
           unit: null,
+          section: ingredientSection,
+          referenceId: ing.reference_id,
         });
       }
 
@@ -489,6 +544,8 @@ export async function parseMealieRecipeToDTO(
       name: ingredientName,
       amount: ing.quantity && ing.quantity > 0 ? ing.quantity : null,
       unit: unitName,
+      section: ingredientSection,
+      referenceId: ing.reference_id,
     });
   }
 
@@ -510,12 +567,21 @@ export async function parseMealieRecipeToDTO(
 
   const systemUsed = inferSystemUsedFromParsed(ingredientsForDetection as any);
 
-  // Parse instructions
+  // Parse instructions, carrying section titles the same way as ingredients
+  let instructionSection: string | null = null;
   const recipeInstructions = instructions
     .filter((inst) => inst.recipe_id === recipe.id)
     .sort((a, b) => a.position - b.position)
-    .map((inst) => inst.text)
-    .filter((text) => text && text.trim());
+    .map((inst) => {
+      if (inst.title?.trim()) instructionSection = inst.title.trim();
+
+      return {
+        text: inst.text,
+        section: instructionSection,
+        referenceIds: lookups.instructionIngredientRefs.get(inst.id) ?? [],
+      };
+    })
+    .filter((inst) => inst.text && inst.text.trim());
 
   // Calculate times (Mealie stores in minutes, but some exports contain human-readable strings
   // like "1 hour 45 minutes" or "30 mins" which need to be parsed properly)
@@ -599,6 +665,12 @@ export async function parseMealieRecipeToDTO(
   const fat = nutrition ? parseNutritionValue(nutrition.fat_content) : null;
   const carbs = nutrition ? parseNutritionValue(nutrition.carbohydrate_content) : null;
   const protein = nutrition ? parseNutritionValue(nutrition.protein_content) : null;
+  const fiber = nutrition ? parseNutritionValue(nutrition.fiber_content) : null;
+  const sugar = nutrition ? parseNutritionValue(nutrition.sugar_content) : null;
+  const saturatedFat = nutrition ? parseNutritionValue(nutrition.saturated_fat_content) : null;
+  // Mealie stores sodium and cholesterol in milligrams
+  const sodium = nutrition ? parseNutritionValue(nutrition.sodium_content) : null;
+  const cholesterol = nutrition ? parseNutritionValue(nutrition.cholesterol_content) : null;
 
   const dto: FullRecipeInsertDTO = {
     id: recipeId,
@@ -614,6 +686,11 @@ export async function parseMealieRecipeToDTO(
     fat: fat != null ? fat.toString() : null,
     carbs: carbs != null ? carbs.toString() : null,
     protein: protein != null ? protein.toString() : null,
+    fiber: fiber != null ? fiber.toString() : null,
+    sugar: sugar != null ? sugar.toString() : null,
+    saturatedFat: saturatedFat != null ? saturatedFat.toString() : null,
+    sodium: sodium != null ? sodium.toString() : null,
+    cholesterol: cholesterol != null ? cholesterol.toString() : null,
     recipeIngredients: ingredientArray.map((ing, i) => ({
       ingredientId: null,
       ingredientName: ing.name,
@@ -621,11 +698,14 @@ export async function parseMealieRecipeToDTO(
       unit: ing.unit,
       systemUsed: systemUsed,
       order: i,
+      section: ing.section,
     })),
     steps: recipeInstructions.map((s, i) => ({
-      step: s,
+      step: s.text,
       order: i,
       systemUsed: systemUsed,
+      section: s.section,
+      ingredientOrders: stepIngredientOrders(s.text, s.referenceIds, ingredientArray),
     })),
     tags: uniqueTags,
     systemUsed,
@@ -0,0 +1,365 @@
+import crypto from "crypto";
+import path from "path";
+
+import JSZip from "jszip";
+import { z } from "zod";
+
+import { serverLogger as log } from "@/server/logger";
+import { saveImageBytes, saveStepImageBytes, saveVideoBytes } from "@/server/downloader";
+import { FullRecipeInsertDTO } from "@/types";
+import { FullRecipeInsertSchema } from "@/server/db";
+
+/**
+ * Norish native archive format (version 1)
+ *
+ * A lossless export of recipes that can be re-imported into another Norish instance.
+ *
+ * ```
+ * norish.json                       manifest: { format, version, exportedAt, recipeCount }
+ * recipes/{recipeId}/recipe.json    recipe data (see NorishRecipeSchema)
+ * recipes/{recipeId}/images/*       main image and gallery images
+ * recipes/{recipeId}/steps/*        step images
+ * recipes/{recipeId}/videos/*       uploaded videos
+ * ```
+ *
+ * Media references inside recipe.json are paths relative to the recipe folder
+ * (e.g. "images/abc.jpg"). External URLs (e.g. video thumbnails) are kept as-is.
+ * Ingredients and steps are exported for every measurement system the recipe has.
+ * Sub-recipe links hold the linked recipe's archive id and are remapped on import;
+ * links to recipes that are not in the archive are dropped.
+ * Rating and favorite belong to the exporting user and are applied to the importing user.
+ */
+export const NORISH_ARCHIVE_FORMAT = "norish";
+export const NORISH_ARCHIVE_VERSION = 1;
+export const NORISH_MANIFEST_FILE = "norish.json";
+export const NORISH_RECIPE_FILE_PATTERN = /^recipes\/[^/]+\/recipe\.json$/;
+
+export const NorishManifestSchema = z.object({
+  format: z.literal(NORISH_ARCHIVE_FORMAT),
+  version: z.number().int().min(1),
+  exportedAt: z.string(),
+  recipeCount: z.number().int().nonnegative(),
+});
+
+const MeasurementSystemSchema = z.enum(["metric", "us"]);
+
+const NorishIngredientSchema = z.object({
+  name: z.string().min(1),
+  amount: z.number().nullable().default(null),
+  unit: z.string().nullable().default(null),
+  order: z.number().default(0),
+  systemUsed: MeasurementSystemSchema.default("metric"),
+  section: z.string().nullable().default(null),
+  // Archive id of the linked sub-recipe; missing in older archives
+  linkedRecipeId: z.string().nullable().default(null),
+});
+
+const NorishStepSchema = z.object({
+  step: z.string().min(1),
+  order: z.number().default(0),
+  systemUsed: MeasurementSystemSchema.default("metric"),
+  section: z.string().nullable().default(null),
+  // Missing in older archives; those steps are matched to ingredients on import
+  ingredientOrders: z.array(z.number()).nullable().optional(),
+  images: z.array(z.object({ file: z.string(), order: z.number().default(0) })).default([]),
+});
+
+const NorishImageSchema = z.object({
+  file: z.string(),
+  order: z.number().default(0),
+});
+
+const NorishVideoSchema = z.object({
+  file: z.string(),
+  thumbnail: z.string().nullable().default(null),
+  duration: z.number().nullable().default(null),
+  order: z.number().default(0),
+});
+
+export const NorishRecipeSchema = z.object({
+  id: z.string(),
+  name: z.string().min(1),
+  description: z.string().nullable().default(null),
+  url: z.string().nullable().default(null),
+  image: z.string().nullable().default(null),
+  servings: z.number().int().min(1).default(1),
+  prepMinutes: z.number().int().nullable().default(null),
+  cookMinutes: z.number().int().nullable().default(null),
+  totalMinutes: z.number().int().nullable().default(null),
+  systemUsed: MeasurementSystemSchema.default("metric"),
+  calories: z.number().int().nullable().default(null),
+  fat: z.string().nullable().default(null),
+  carbs: z.string().nullable().default(null),
+  protein: z.string().nullable().default(null),
+  fiber: z.string().nullable().default(null),
+  sugar: z.string().nullable().default(null),
+  saturatedFat: z.string().nullable().default(null),
+  sodium: z.string().nullable().default(null),
+  cholesterol: z.string().nullable().default(null),
+  tags: z.array(z.string()).default([]),
+  ingredients: z.array(NorishIngredientSchema).default([]),
+  steps: z.array(NorishStepSchema).default([]),
+  images: z.array(NorishImageSchema).default([]),
+  videos: z.array(NorishVideoSchema).default([]),
+  rating: z.number().int().min(1).max(5).nullable().default(null),
+  favorite: z.boolean().default(false),
+  createdAt: z.string().nullable().default(null),
+  updatedAt: z.string().nullable().default(null),
+});
+
+export type NorishManifest = z.infer<typeof NorishManifestSchema>;
+export type NorishRecipe = z.infer<typeof NorishRecipeSchema>;
+export type NorishRecipeInput = z.input<typeof NorishRecipeSchema>;
+
+/**
+ * Check if a media reference points to a file inside the archive (not an external URL)
+ */
+function isArchivePath(ref: string): boolean {
+  return !/^[a-z]+:\/\//i.test(ref) && !ref.startsWith("/") && !ref.includes("..");
+}
+
+/**
+ * Read a media file referenced by a recipe.json (relative to the recipe folder)
+ */
+async function readArchiveMedia(
+  zip: JSZip,
+  recipeDir: string,
+  ref: string
+): Promise<Buffer | undefined> {
+  if (!isArchivePath(ref)) return undefined;
+
+  const file = zip.file(`${recipeDir}/${ref}`);
+
+  if (!file) return undefined;
+
+  try {
+    return await file.async("nodebuffer");
+  } catch (err) {
+    log.warn({ err, recipeDir, ref }, "Failed to read media from Norish archive");
+
+    return undefined;
+  }
+}
+
+/**
+ * Read and validate the Norish manifest. Returns null when missing or invalid.
+ */
+export async function readNorishManifest(zip: JSZip): Promise<NorishManifest | null> {
+  const manifestFile = zip.file(NORISH_MANIFEST_FILE);
+
+  if (!manifestFile) return null;
+
+  try {
+    const parsed = NorishManifestSchema.safeParse(JSON.parse(await manifestFile.async("string")));
+
+    return parsed.success ? parsed.data : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Extract all recipe.json entries from a Norish archive.
+ * Corrupted entries are logged and skipped.
+ */
+export async function extractNorishRecipes(
+  zip: JSZip
+): Promise<Array<{ recipe: NorishRecipe; recipeDir: string; fileName: string }>> {
+  const results: Array<{ recipe: NorishRecipe; recipeDir: string; fileName: string }> = [];
+  const entries = zip.file(NORISH_RECIPE_FILE_PATTERN);
+
+  for (const entry of entries) {
+    try {
+      const json = JSON.parse(await entry.async("string"));
+      const recipe = NorishRecipeSchema.parse(json);
+
+      results.push({ recipe, recipeDir: path.posix.dirname(entry.name), fileName: entry.name });
+    } catch (e: unknown) {
+      log.warn(
+        { fileName: entry.name, error: (e as Error)?.message || String(e) },
+        "Skipping corrupted Norish recipe.json"
+      );
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Order extracted recipes so linked sub-recipes come before the recipes that use them,
+ * letting each link be remapped to the already imported recipe. Cycles are broken
+ * at the first recipe reached.
+ */
+export function orderNorishRecipesByLinks<T extends { recipe: NorishRecipe }>(entries: T[]): T[] {
+  const byId = new Map(entries.map((e) => [e.recipe.id, e]));
+  const visited = new Set<string>();
+  const ordered: T[] = [];
+
+  const visit = (entry: T) => {
+    if (visited.has(entry.recipe.id)) return;
+    visited.add(entry.recipe.id);
+
+    for (const ing of entry.recipe.ingredients) {
+      const target = ing.linkedRecipeId ? byId.get(ing.linkedRecipeId) : undefined;
+
+      if (target) visit(target);
+    }
+
+    ordered.push(entry);
+  };
+
+  entries.forEach(visit);
+
+  return ordered;
+}
+
+/**
+ * Map a Norish recipe to FullRecipeInsertDTO, restoring its media from the archive.
+ * A new recipe ID is generated so media is saved to the correct folder.
+ * Sub-recipe links are remapped through `importedIds` (archive id -> imported recipe id).
+ */
+export async function parseNorishRecipeToDTO(
+  zip: JSZip,
+  recipe: NorishRecipe,
+  recipeDir: string,
+  importedIds: ReadonlyMap<string, string> = new Map()
+): Promise<FullRecipeInsertDTO> {
+  const recipeId = crypto.randomUUID();
+
+  // Restore images, reusing saved paths for duplicate references (main image is usually in gallery)
+  const savedImages = new Map<string, string>();
+
+  const restoreImage = async (ref: string | null): Promise<string | undefined> => {
+    if (!ref) return undefined;
+    if (savedImages.has(ref)) return savedImages.get(ref);
+
+    const bytes = await readArchiveMedia(zip, recipeDir, ref);
+
+    if (!bytes) return undefined;
+
+    try {
+      const saved = await saveImageBytes(bytes, recipeId);
+
+      savedImages.set(ref, saved);
+
+      return saved;
+    } catch (err) {
+      log.warn({ err, ref, name: recipe.name }, "Failed to restore image from Norish archive");
+
+      return undefined;
+    }
+  };
+
+  const image = await restoreImage(recipe.image);
+
+  const images: Array<{ image: string; order: number }> = [];
+
+  for (const img of recipe.images) {
+    const saved = await restoreImage(img.file);
+
+    if (saved) images.push({ image: saved, order: img.order });
+  }
+
+  const steps: FullRecipeInsertDTO["steps"] = [];
+
+  for (const s of recipe.steps) {
+    const stepImages: Array<{ image: string; order: number }> = [];
+
+    for (const img of s.images) {
+      const bytes = await readArchiveMedia(zip, recipeDir, img.file);
+
+      if (!bytes) continue;
+
+      try {
+        stepImages.push({ image: await saveStepImageBytes(bytes, recipeId), order: img.order });
+      } catch (err) {
+        log.warn({ err, ref: img.file }, "Failed to restore step image from Norish archive");
+      }
+    }
+
+    steps.push({
+      step: s.step,
+      order: s.order,
+      systemUsed: s.systemUsed,
+      section: s.section,
+      ingredientOrders: s.ingredientOrders,
+      images: stepImages,
+    });
+  }
+
+  const videos: Array<{
+    video: string;
+    thumbnail: string | null;
+    duration: number | null;
+    order: number;
+  }> = [];
+
+  for (const v of recipe.videos) {
+    const bytes = await readArchiveMedia(zip, recipeDir, v.file);
+
+    if (!bytes) continue;
+
+    try {
+      const saved = await saveVideoBytes(
+        bytes,
+        recipeId,
+        path.extname(v.file),
+        v.duration ?? undefined
+      );
+      const thumbnail =
+        v.thumbnail && isArchivePath(v.thumbnail)
+          ? ((await restoreImage(v.thumbnail)) ?? null)
+          : v.thumbnail;
+
+      videos.push({ video: saved.video, thumbnail, duration: saved.duration, order: v.order });
+    } catch (err) {
+      log.warn({ err, ref: v.file }, "Failed to restore video from Norish archive");
+    }
+  }
+
+  const dto: FullRecipeInsertDTO = {
+    id: recipeId,
+    name: recipe.name.trim(),
+    description: recipe.description ?? undefined,
+    url: recipe.url ?? undefined,
+    image: image ?? undefined,
+    servings: recipe.servings,
+    prepMinutes: recipe.prepMinutes,
+    cookMinutes: recipe.cookMinutes,
+    totalMinutes: recipe.totalMinutes,
+    systemUsed: recipe.systemUsed,
+    calories: recipe.calories,
+    fat: recipe.fat,
+    carbs: recipe.carbs,
+    protein: recipe.protein,
+    fiber: recipe.fiber,
+    sugar: recipe.sugar,
+    saturatedFat: recipe.saturatedFat,
+    sodium: recipe.sodium,
+    cholesterol: recipe.cholesterol,
+    tags: recipe.tags.filter((t) => t.trim()).map((name) => ({ name: name.trim() })),
+    recipeIngredients: recipe.ingredients.map((ing) => ({
+      ingredientId: null,
+      ingredientName: ing.name,
+      amount: ing.amount,
+      unit: ing.unit,
+      systemUsed: ing.systemUsed,
+      order: ing.order,
+      section: ing.section,
+      linkedRecipeId: ing.linkedRecipeId ? (importedIds.get(ing.linkedRecipeId) ?? null) : null,
+    })),
+    steps,
+    images,
+    videos,
+  };
+
+  const parsed = FullRecipeInsertSchema.safeParse(dto);
+
+  if (!parsed.success) {
+    throw new Error(
+      `Schema validation failed for recipe "${recipe.name}": ${parsed.error.message}`
+    );
+  }
+
+  return parsed.data;
+}
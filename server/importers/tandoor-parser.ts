@@ -4,6 +4,7 @@ import JSZip from "jszip";
 import { z } from "zod";
 
 import { inferSystemUsedFromParsed } from "@/lib/determine-recipe-system";
+import { matchStepIngredients } from "@/lib/step-ingredients";
 import { saveImageBytes } from "@/server/downloader";
 import { FullRecipeInsertDTO } from "@/types";
 import { FullRecipeInsertSchema } from "@/server/db";
@@ -117,18 +118,31 @@ export async function parseTandoorRecipeToDTO(
     }
   }
 
-  // Flatten all ingredients from all steps into a single list
-  const allIngredients: Array<TandoorIngredient & { globalOrder: number }> = [];
+  // Flatten all ingredients from all steps into a single list. A named step or a
+  // header ingredient starts a section for the ingredients after it.
+  const allIngredients: Array<TandoorIngredient & { globalOrder: number; section: string | null }> =
+    [];
+  // Tandoor keeps ingredients on the step that uses them
+  const stepIngredientOrders = new Map<TandoorStep, number[]>();
   let globalOrder = 0;
 
   for (const step of validated.steps || []) {
+    let section = step.name?.trim() || null;
+    const orders: number[] = [];
+
+    stepIngredientOrders.set(step, orders);
+
     for (const ingredient of step.ingredients || []) {
-      // Skip header ingredients (they're just visual separators)
-      if (ingredient.is_header) continue;
+      if (ingredient.is_header) {
+        section = ingredient.note?.trim() || ingredient.food.name.trim() || section;
+        continue;
+      }
 
+      orders.push(globalOrder);
       allIngredients.push({
         ...ingredient,
         globalOrder: globalOrder++,
+        section,
       });
     }
   }
@@ -152,6 +166,7 @@ export async function parseTandoorRecipeToDTO(
     unit: ing.unit?.name || null,
     systemUsed: systemUsed,
     order: ing.globalOrder,
+    section: ing.section,
   }));
 
   const steps = (validated.steps || [])
@@ -161,6 +176,11 @@ export async function parseTandoorRecipeToDTO(
       step: step.instruction.trim(),
       order: index,
       systemUsed: systemUsed,
+      section: step.name?.trim() || null,
+      // Steps without ingredients of their own are matched on the names in their text
+      ingredientOrders: stepIngredientOrders.get(step)?.length
+        ? stepIngredientOrders.get(step)
+        : matchStepIngredients(step.instruction, recipeIngredients),
     }));
 
   // Extract tags from keywords
@@ -0,0 +1,85 @@
+import type { MatchedFood, NutritionBreakdown, NutritionLine } from "@/lib/nutrition";
+import type { RecipeListContext } from "@/server/db/repositories/recipes";
+
+import {
+  countFoodCompositions,
+  getExpandedRecipeIngredients,
+  getFoodCompositionsByIds,
+  getIngredientFoodLinks,
+  linkIngredientToFood,
+  searchFoodCompositions,
+} from "@/server/db";
+import { getIngredientDensities, getUnits } from "@/config/server-config-loader";
+import { serverLogger as log } from "@/server/logger";
+import { calculateNutrition, foodSearchTerms, matchFood } from "@/lib/nutrition";
+
+export async function isFoodCompositionAvailable(): Promise<boolean> {
+  return (await countFoodCompositions()) > 0;
+}
+
+/**
+ * Match ingredient names to foods. Ingredients keep the food they were first matched to,
+ * so the table is only searched for ingredients seen for the first time.
+ */
+async function matchIngredientFoods(names: string[]): Promise<Map<string, MatchedFood | null>> {
+  const links = await getIngredientFoodLinks(names);
+  const linkedIds = Array.from(links.values())
+    .map((link) => link.foodCompositionId)
+    .filter((id): id is string => !!id);
+  const linkedFoods = new Map((await getFoodCompositionsByIds(linkedIds)).map((f) => [f.id, f]));
+  const matches = new Map<string, MatchedFood | null>();
+
+  for (const name of names) {
+    const link = links.get(name.toLowerCase());
+    const linked = link?.foodCompositionId ? linkedFoods.get(link.foodCompositionId) : undefined;
+
+    if (linked) {
+      matches.set(name, linked);
+      continue;
+    }
+
+    const food = matchFood(name, await searchFoodCompositions(foodSearchTerms(name)));
+
+    matches.set(name, food);
+
+    if (food && link) await linkIngredientToFood(link.ingredientId, food.id);
+  }
+
+  return matches;
+}
+
+/**
+ * Nutrition per serving of a recipe from the food composition table, with sub-recipes
+ * expanded into their ingredients. Null when no table has been imported. Sub-recipes the
+ * viewer cannot see count as plain lines.
+ */
+export async function calculateRecipeNutrition(
+  recipeId: string,
+  servings: number,
+  viewer: RecipeListContext | null
+): Promise<NutritionBreakdown | null> {
+  if (!(await isFoodCompositionAvailable())) return null;
+
+  const expanded = (await getExpandedRecipeIngredients(recipeId, viewer)) ?? [];
+  const lines: NutritionLine[] = expanded.map((ri) => ({
+    ingredientName: ri.ingredientName,
+    amount: ri.amount,
+    unit: ri.unit,
+  }));
+
+  const names = Array.from(new Set(lines.map((l) => l.ingredientName)));
+  const [foods, units, densities] = await Promise.all([
+    matchIngredientFoods(names),
+    getUnits(),
+    getIngredientDensities(),
+  ]);
+
+  const breakdown = calculateNutrition(lines, servings, foods, { units, densities });
+
+  log.debug(
+    { recipeId, matchedRatio: breakdown.matchedRatio, confidence: breakdown.confidence },
+    "Calculated nutrition from food composition table"
+  );
+
+  return breakdown;
+}
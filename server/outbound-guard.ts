@@ -0,0 +1,406 @@
+import type { LookupAddress } from "dns";
+import type { AddressInfo } from "net";
+
+import { BlockList, connect, isIP, type Socket } from "net";
+import { createServer, request } from "http";
+import { lookup } from "dns/promises";
+
+import { Agent } from "undici";
+
+import { getOutboundAllowlist } from "@/config/server-config-loader";
+import { serverLogger as log } from "@/server/logger";
+
+/**
+ * Guard for requests to URLs that users submit (recipe pages, images, videos).
+ *
+ * Hostnames are resolved before fetching and every address must be public, so an import can't
+ * reach the server itself, the cloud metadata endpoint or other machines on the LAN. Redirects
+ * are followed by hand and checked the same way. Hosts on the admin allowlist are let through.
+ * guardedFetch connects to the addresses that were checked rather than resolving again, so a
+ * DNS answer that changes after the check (DNS rebinding) can't redirect the connection.
+ * Tools that make their own requests (yt-dlp) go through startGuardedProxy, which applies the
+ * same checks to every request they send.
+ */
+
+const DEFAULT_TIMEOUT_MS = 30000;
+const MAX_REDIRECTS = 5;
+
+const PRIVATE_RANGES = new BlockList();
+
+for (const [network, prefix] of [
+  ["0.0.0.0", 8], // "this" network
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10], // carrier-grade NAT
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16], // link-local, including cloud metadata endpoints
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15], // benchmarking
+  ["224.0.0.0", 4], // multicast
+  ["240.0.0.0", 4], // reserved and broadcast
+] as const) {
+  PRIVATE_RANGES.addSubnet(network, prefix, "ipv4");
+}
+
+for (const [network, prefix] of [
+  ["::", 128], // unspecified
+  ["::1", 128],
+  ["fc00::", 7], // unique local
+  ["fe80::", 10], // link-local
+  ["ff00::", 8], // multicast
+] as const) {
+  PRIVATE_RANGES.addSubnet(network, prefix, "ipv6");
+}
+
+export class OutboundRequestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "OutboundRequestError";
+  }
+}
+
+/** The IPv4 address inside an IPv4-mapped IPv6 address (::ffff:7f00:1 is 127.0.0.1) */
+function mappedIPv4(ip: string): string | null {
+  const dotted = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(ip);
+
+  if (dotted) return dotted[1];
+
+  const hex = /^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/i.exec(ip);
+
+  if (!hex) return null;
+
+  const high = parseInt(hex[1], 16);
+  const low = parseInt(hex[2], 16);
+
+  return [high >> 8, high & 0xff, low >> 8, low & 0xff].join(".");
+}
+
+function stripBrackets(hostname: string): string {
+  return hostname.startsWith("[") && hostname.endsWith("]") ? hostname.slice(1, -1) : hostname;
+}
+
+/** Whether an IP address is loopback, private, link-local or otherwise not on the internet */
+export function isPrivateAddress(ip: string): boolean {
+  const address = stripBrackets(ip);
+  const mapped = mappedIPv4(address);
+
+  if (mapped) return isPrivateAddress(mapped);
+
+  const family = isIP(address);
+
+  if (family === 0) return true;
+
+  return PRIVATE_RANGES.check(address, family === 4 ? "ipv4" : "ipv6");
+}
+
+/**
+ * Whether a host is on the allowlist. Entries are hostnames ("nas.lan"), wildcards for
+ * subdomains ("*.lan"), IP addresses or CIDR ranges ("192.168.1.0/24").
+ */
+export function isAllowlisted(hostname: string, address: string, allowlist: string[]): boolean {
+  const host = stripBrackets(hostname).toLowerCase();
+  const ip = mappedIPv4(address) ?? address;
+
+  return allowlist.some((raw) => {
+    const entry = raw.trim().toLowerCase();
+
+    if (entry.startsWith("*.")) return host.endsWith(entry.slice(1));
+
+    const [network, prefix] = entry.split("/");
+    const family = isIP(network);
+
+    if (family === 0) return host === entry;
+    if (prefix === undefined) return ip === network || host === network;
+
+    const type = family === 4 ? "ipv4" : "ipv6";
+
+    if (isIP(ip) !== family) return false;
+
+    const range = new BlockList();
+
+    range.addSubnet(network, Number(prefix), type);
+
+    return range.check(ip, type);
+  });
+}
+
+interface CheckedUrl {
+  url: URL;
+  /** The addresses the host resolved to when it was checked */
+  addresses: LookupAddress[];
+}
+
+async function checkPublicUrl(url: string | URL): Promise<CheckedUrl> {
+  let parsed: URL;
+
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new OutboundRequestError(`Invalid URL: ${url}`);
+  }
+
+  if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+    throw new OutboundRequestError(`Unsupported protocol: ${parsed.protocol}`);
+  }
+
+  const hostname = stripBrackets(parsed.hostname);
+  let addresses: LookupAddress[];
+
+  try {
+    addresses = isIP(hostname)
+      ? [{ address: hostname, family: isIP(hostname) }]
+      : await lookup(hostname, { all: true, verbatim: true });
+  } catch {
+    throw new OutboundRequestError(`Could not resolve host: ${hostname}`);
+  }
+
+  const blocked = addresses.map((a) => a.address).filter((address) => isPrivateAddress(address));
+
+  if (blocked.length === 0) return { url: parsed, addresses };
+
+  const allowlist = await getOutboundAllowlist();
+
+  if (blocked.every((address) => isAllowlisted(hostname, address, allowlist))) {
+    return { url: parsed, addresses };
+  }
+
+  log.warn({ url: parsed.href, addresses: blocked }, "Blocked request to a private address");
+
+  throw new OutboundRequestError(`Requests to private addresses are not allowed: ${hostname}`);
+}
+
+/**
+ * Check that a URL is http(s) and that its host only resolves to public addresses or is on the
+ * allowlist. Throws an OutboundRequestError otherwise.
+ */
+export async function assertPublicUrl(url: string | URL): Promise<URL> {
+  return (await checkPublicUrl(url)).url;
+}
+
+/**
+ * A dispatcher whose DNS lookups only answer with addresses pinned after checkPublicUrl.
+ * Hosts that were never checked fail to connect.
+ */
+function createPinnedAgent(pinned: Map<string, LookupAddress[]>): Agent {
+  return new Agent({
+    connect: {
+      lookup: (hostname, options, callback) => {
+        const addresses = pinned.get(stripBrackets(hostname).toLowerCase());
+
+        if (!addresses?.length) {
+          callback(new OutboundRequestError(`Host was not checked: ${hostname}`), "", 0);
+
+          return;
+        }
+
+        if (options.all) {
+          callback(null, addresses);
+        } else {
+          callback(null, addresses[0].address, addresses[0].family);
+        }
+      },
+    },
+  });
+}
+
+export interface GuardedFetchOptions {
+  method?: string;
+  headers?: Record<string, string>;
+  body?: Uint8Array | null;
+  timeoutMs?: number;
+  /** "manual" returns redirects to the caller instead of following them */
+  redirect?: "follow" | "manual";
+}
+
+/**
+ * fetch() for user-submitted URLs: every hop of a redirect chain is checked with assertPublicUrl
+ * and connects to the addresses that passed the check. Like fetch, redirects other than 307 and
+ * 308 continue as a GET without body.
+ */
+export async function guardedFetch(
+  url: string,
+  options: GuardedFetchOptions = {}
+): Promise<Response> {
+  const controller = new AbortController();
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+  const pinned = new Map<string, LookupAddress[]>();
+  const dispatcher = createPinnedAgent(pinned);
+
+  const check = async (target: string | URL) => {
+    const { url: checked, addresses } = await checkPublicUrl(target);
+
+    pinned.set(stripBrackets(checked.hostname).toLowerCase(), addresses);
+
+    return checked;
+  };
+
+  try {
+    let current = await check(url);
+    let method = options.method ?? "GET";
+    let body = options.body ?? undefined;
+
+    for (let redirects = 0; ; redirects++) {
+      // Node's fetch takes an undici dispatcher, which the DOM RequestInit type doesn't declare
+      const response = await fetch(current, {
+        method,
+        headers: options.headers,
+        body,
+        redirect: "manual",
+        signal: controller.signal,
+        dispatcher,
+      } as RequestInit);
+      const location = response.headers.get("location");
+
+      if (response.status < 300 || response.status >= 400 || !location) return response;
+      if (options.redirect === "manual") return response;
+
+      if (redirects >= MAX_REDIRECTS) {
+        throw new OutboundRequestError(`Too many redirects: ${url}`);
+      }
+
+      if (response.status !== 307 && response.status !== 308) {
+        method = "GET";
+        body = undefined;
+      }
+
+      current = await check(new URL(location, current));
+    }
+  } catch (e) {
+    if (e instanceof Error && e.name === "AbortError") {
+      throw new Error(`Request timeout after ${timeoutMs}ms`);
+    }
+    throw e;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+export interface GuardedProxy {
+  /** http://127.0.0.1:<port>, for the proxy setting of the tool */
+  url: string;
+  close: () => Promise<void>;
+}
+
+/** Headers meant for the proxy itself, not passed on */
+const PROXY_HEADERS = ["proxy-connection", "proxy-authorization"];
+
+/**
+ * A local HTTP proxy for tools that make their own requests. Every plain request and CONNECT
+ * tunnel is checked with assertPublicUrl and connects to the address that passed the check,
+ * so redirects and hosts the tool picks itself are guarded too. Listens on loopback only.
+ */
+export async function startGuardedProxy(): Promise<GuardedProxy> {
+  const sockets = new Set<Socket>();
+
+  const server = createServer(async (req, res) => {
+    try {
+      const target = new URL(req.url ?? "");
+
+      if (target.protocol !== "http:") {
+        throw new OutboundRequestError(`Unsupported protocol: ${target.protocol}`);
+      }
+
+      const { addresses } = await checkPublicUrl(target);
+      const headers = { ...req.headers };
+
+      for (const header of PROXY_HEADERS) delete headers[header];
+
+      const upstream = request(
+        {
+          host: addresses[0].address,
+          family: addresses[0].family,
+          port: Number(target.port) || 80,
+          method: req.method,
+          path: `${target.pathname}${target.search}`,
+          headers,
+        },
+        (upstreamRes) => {
+          res.writeHead(upstreamRes.statusCode ?? 502, upstreamRes.headers);
+          upstreamRes.pipe(res);
+        }
+      );
+
+      upstream.on("error", () => res.destroy());
+      req.pipe(upstream);
+    } catch (e) {
+      res.writeHead(403).end(e instanceof Error ? e.message : "Forbidden");
+    }
+  });
+
+  server.on("connection", (socket: Socket) => {
+    sockets.add(socket);
+    socket.on("close", () => sockets.delete(socket));
+  });
+
+  server.on("connect", async (req, client: Socket, head: Buffer) => {
+    client.on("error", () => client.destroy());
+
+    try {
+      const target = new URL(`https://${req.url}`);
+      const { addresses } = await checkPublicUrl(target);
+      const upstream = connect({
+        host: addresses[0].address,
+        family: addresses[0].family,
+        port: Number(target.port) || 443,
+      });
+
+      upstream.on("error", () => client.destroy());
+      client.on("close", () => upstream.destroy());
+      upstream.once("connect", () => {
+        client.write("HTTP/1.1 200 Connection Established\r\n\r\n");
+        upstream.write(head);
+        upstream.pipe(client);
+        client.pipe(upstream);
+      });
+    } catch {
+      client.end("HTTP/1.1 403 Forbidden\r\n\r\n");
+    }
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    close: () =>
+      new Promise<void>((resolve) => {
+        for (const socket of sockets) socket.destroy();
+        server.close(() => resolve());
+      }),
+  };
+}
+
+/** Read a response body, giving up as soon as it grows past maxBytes */
+export async function readBodyWithLimit(response: Response, maxBytes: number): Promise<Buffer> {
+  const contentLength = Number(response.headers.get("content-length"));
+
+  if (contentLength > maxBytes) {
+    throw new OutboundRequestError(`Response too large: ${contentLength} bytes (max: ${maxBytes})`);
+  }
+
+  if (!response.body) return Buffer.alloc(0);
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+
+  while (true) {
+    const { done, value } = await reader.read();
+
+    if (done) break;
+
+    size += value.byteLength;
+
+    if (size > maxBytes) {
+      await reader.cancel().catch(() => {});
+      throw new OutboundRequestError(`Response too large: more than ${maxBytes} bytes`);
+    }
+
+    chunks.push(value);
+  }
+
+  return Buffer.concat(chunks);
+}
@@ -1,7 +1,13 @@
-import type { BrowserContext } from "playwright-core";
+import type { BrowserContext, Route } from "playwright-core";
 
 import { getBrowser } from "@/server/playwright";
 import { parserLogger as log } from "@/server/logger";
+import {
+  OutboundRequestError,
+  assertPublicUrl,
+  guardedFetch,
+  readBodyWithLimit,
+} from "@/server/outbound-guard";
 
 const BROWSER_HEADERS: Record<string, string> = {
   "User-Agent":
@@ -32,9 +38,71 @@ function getReferer(url: string): string {
   }
 }
 
+/** Largest response the browser is handed for a single request */
+const MAX_BROWSER_RESPONSE_BYTES = 20 * 1024 * 1024;
+
+/** Request headers Node's fetch sets itself or refuses */
+const HOP_BY_HOP_HEADERS = [
+  "host",
+  "connection",
+  "keep-alive",
+  "transfer-encoding",
+  "upgrade",
+  "content-length",
+];
+
+/**
+ * Route handler that keeps the browser off private addresses. The browser may run elsewhere and
+ * resolves names itself, so instead of letting it connect, every http(s) request is made here
+ * with guardedFetch, which connects to the checked addresses. Redirects are handed back to the
+ * browser, so every hop comes back through this handler.
+ */
+function createGuardedRoute(): (route: Route) => Promise<void> {
+  return async (route) => {
+    const request = route.request();
+    const url = new URL(request.url());
+
+    if (url.protocol !== "http:" && url.protocol !== "https:") return route.continue();
+
+    const headers = await request.allHeaders();
+
+    for (const header of HOP_BY_HOP_HEADERS) delete headers[header];
+
+    try {
+      const response = await guardedFetch(url.href, {
+        method: request.method(),
+        headers,
+        body: request.postDataBuffer(),
+        redirect: "manual",
+      });
+      const body = await readBodyWithLimit(response, MAX_BROWSER_RESPONSE_BYTES);
+      const responseHeaders = Object.fromEntries(response.headers);
+
+      // The body is already decoded
+      delete responseHeaders["content-encoding"];
+      delete responseHeaders["content-length"];
+
+      return route.fulfill({ status: response.status, headers: responseHeaders, body });
+    } catch (error) {
+      if (error instanceof OutboundRequestError) {
+        log.warn({ url: url.href, reason: error.message }, "Blocked browser request");
+
+        return route.abort("blockedbyclient");
+      }
+
+      log.debug({ err: error, url: url.href }, "Browser request failed");
+
+      return route.abort("failed");
+    }
+  };
+}
+
 export async function fetchViaPlaywright(targetUrl: string): Promise<string> {
   let context: BrowserContext | undefined;
 
+  // Outside the try: a blocked URL is reported to the user instead of falling back
+  await assertPublicUrl(targetUrl);
+
   try {
     const browser = await getBrowser();
     const referer = getReferer(targetUrl);
@@ -43,6 +111,8 @@ export async function fetchViaPlaywright(targetUrl: string): Promise<string> {
       userAgent: BROWSER_HEADERS["User-Agent"],
       viewport: { width: 1920, height: 1080 },
       locale: "en-US",
+      // Requests answered by a service worker would skip the guarded route
+      serviceWorkers: "block",
       extraHTTPHeaders: {
         "Accept-Language": BROWSER_HEADERS["Accept-Language"],
         "Cache-Control": BROWSER_HEADERS["Cache-Control"],
@@ -59,6 +129,9 @@ export async function fetchViaPlaywright(targetUrl: string): Promise<string> {
       },
     });
 
+    await context.route("**/*", createGuardedRoute());
+    await context.routeWebSocket(/.*/, (ws) => ws.close());
+
     const page = await context.newPage();
 
     await page.goto(targetUrl, {
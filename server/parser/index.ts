@@ -41,7 +41,8 @@ async function tryExtractWithAI(
   recipeId: string,
   url: string,
   allergies: string[] | undefined,
-  requireAI: boolean
+  requireAI: boolean,
+  userId?: string
 ): Promise<FullRecipeInsertDTO | null> {
   const enabled = await isAIEnabled();
 
@@ -54,10 +55,13 @@ async function tryExtractWithAI(
   }
 
   log.info({ url }, "Attempting AI extraction");
-  const result = await extractRecipeWithAI(input, recipeId, url, allergies);
+  const result = await extractRecipeWithAI(input, recipeId, url, allergies, userId);
 
   if (result.success) return result.data;
 
+  // Surface the quota message instead of a generic parse failure
+  if (result.code === "QUOTA_EXCEEDED") throw new Error(result.error);
+
   log.warn({ url, error: result.error, code: result.code }, "AI extraction failed");
 
   return null;
@@ -72,7 +76,8 @@ async function extractWithAIPreference(
   recipeId: string,
   url: string,
   allergies: string[] | undefined,
-  requireAI: boolean
+  requireAI: boolean,
+  userId?: string
 ): Promise<FullRecipeInsertDTO | null> {
   const jsonLdNodes = extractRecipeNodesFromJsonLd(html);
 
@@ -80,14 +85,21 @@ async function extractWithAIPreference(
     log.info({ url }, "AI: using extracted JSON-LD as input (fewer tokens)");
     const jsonLdInput = JSON.stringify(jsonLdNodes, null, 2);
 
-    const fromJsonLd = await tryExtractWithAI(jsonLdInput, recipeId, url, allergies, requireAI);
+    const fromJsonLd = await tryExtractWithAI(
+      jsonLdInput,
+      recipeId,
+      url,
+      allergies,
+      requireAI,
+      userId
+    );
 
     if (fromJsonLd) return fromJsonLd;
   }
 
   log.info({ url }, "AI: using full HTML as input");
 
-  return tryExtractWithAI(html, recipeId, url, allergies, requireAI);
+  return tryExtractWithAI(html, recipeId, url, allergies, requireAI, userId);
 }
 
 /**
@@ -118,7 +130,8 @@ async function tryStructuredParsers(
 async function tryHandleVideoUrl(
   url: string,
   recipeId: string,
-  allergies?: string[]
+  allergies?: string[],
+  userId?: string
 ): Promise<ParseRecipeResult | null> {
   if (!isVideoUrl(url)) return null;
 
@@ -128,7 +141,7 @@ async function tryHandleVideoUrl(
 
   try {
     const { processVideoRecipe } = await import("@/server/video/processor");
-    const recipe = await processVideoRecipe(url, recipeId, allergies);
+    const recipe = await processVideoRecipe(url, recipeId, allergies, userId);
 
     return { recipe, usedAI: true };
   } catch (error: unknown) {
@@ -141,9 +154,10 @@ export async function parseRecipeFromUrl(
   url: string,
   recipeId: string,
   allergies?: string[],
-  forceAI?: boolean
+  forceAI?: boolean,
+  userId?: string
 ): Promise<ParseRecipeResult> {
-  const videoResult = await tryHandleVideoUrl(url, recipeId, allergies);
+  const videoResult = await tryHandleVideoUrl(url, recipeId, allergies, userId);
 
   if (videoResult) return videoResult;
 
@@ -158,7 +172,7 @@ export async function parseRecipeFromUrl(
   const useAIOnly = forceAI ?? (await shouldAlwaysUseAI());
 
   if (useAIOnly) {
-    const recipe = await extractWithAIPreference(html, recipeId, url, allergies, true);
+    const recipe = await extractWithAIPreference(html, recipeId, url, allergies, true, userId);
 
     if (!recipe) throw new Error("AI extraction failed");
 
@@ -169,7 +183,7 @@ export async function parseRecipeFromUrl(
 
   if (structured) return { recipe: structured, usedAI: false };
 
-  const recipe = await extractWithAIPreference(html, recipeId, url, allergies, false);
+  const recipe = await extractWithAIPreference(html, recipeId, url, allergies, false, userId);
 
   if (recipe) return { recipe, usedAI: true };
 
@@ -25,6 +25,7 @@ import {
 } from "./parsers";
 
 import { getUnits } from "@/config/server-config-loader";
+import { matchStepIngredients } from "@/lib/step-ingredients";
 import { parserLogger } from "@/server/logger";
 
 // Re-export getServings for backward compatibility (used by mela-parser.ts)
@@ -85,7 +86,11 @@ export async function normalizeRecipeFromJson(
   const { ingredients: recipeIngredients, systemUsed } = parseIngredients(jsonObj, units);
 
   // --- STEPS (with HowToSection heading support and bold step names) ---
-  const steps = parseSteps(jsonObj.recipeInstructions, systemUsed);
+  const steps = parseSteps(jsonObj.recipeInstructions, systemUsed).map((step) => ({
+    ...step,
+    // Best-effort links to the ingredients each step names
+    ingredientOrders: matchStepIngredients(step.step, recipeIngredients),
+  }));
 
   // --- NUTRITION ---
   const nutrition = extractNutrition(jsonObj);
@@ -118,6 +123,11 @@ export async function normalizeRecipeFromJson(
     fat: nutrition.fat,
     carbs: nutrition.carbs,
     protein: nutrition.protein,
+    fiber: nutrition.fiber,
+    sugar: nutrition.sugar,
+    saturatedFat: nutrition.saturatedFat,
+    sodium: nutrition.sodium,
+    cholesterol: nutrition.cholesterol,
     systemUsed,
     steps,
     recipeIngredients,
@@ -1,7 +1,8 @@
 /**
  * Ingredient parsing for JSON-LD recipe normalization.
  *
- * Handles Schema.org recipeIngredient arrays and strings.
+ * Handles Schema.org recipeIngredient arrays and strings. Group headers such as
+ * "For the dough:" or "# Dough" become the section of the ingredients below them.
  */
 
 import type { MeasurementSystem } from "@/types/dto/recipe";
@@ -11,6 +12,7 @@ import { decode } from "html-entities";
 
 import { parseIngredientWithDefaults } from "@/lib/helpers";
 import { inferSystemUsedFromParsed } from "@/lib/determine-recipe-system";
+import { normalizeSectionName, parseSectionHeading } from "@/lib/recipe-sections";
 
 export interface ParsedIngredient {
   ingredientId: null;
@@ -19,6 +21,7 @@ export interface ParsedIngredient {
   unit: string | null;
   systemUsed: MeasurementSystem;
   order: number;
+  section: string | null;
 }
 
 export interface IngredientParseResult {
@@ -57,6 +60,7 @@ function normalizeIngredientSource(ingSource: unknown): string[] {
  * 2. Decodes HTML entities
  * 3. Parses quantities and units using parseIngredientWithDefaults
  * 4. Infers the measurement system used
+ * 5. Assigns group headers as sections
  *
  * @param json - The JSON-LD recipe node
  * @param units - Unit configuration for parsing
@@ -72,14 +76,29 @@ export function parseIngredients(
   const parsed = parseIngredientWithDefaults(rawIngredients, units);
   const systemUsed = inferSystemUsedFromParsed(parsed);
 
-  const ingredients: ParsedIngredient[] = parsed.map((ing, i) => ({
-    ingredientId: null,
-    ingredientName: ing.description,
-    amount: ing.quantity != null ? ing.quantity : null,
-    unit: ing.unitOfMeasureID,
-    systemUsed,
-    order: i,
-  }));
+  const ingredients: ParsedIngredient[] = [];
+  let section: string | null = null;
+
+  for (const ing of parsed) {
+    const heading = ing.isGroupHeader
+      ? ing.description.replace(/:\s*$/, "")
+      : parseSectionHeading(ing.description);
+
+    if (heading !== null) {
+      section = normalizeSectionName(heading);
+      continue;
+    }
+
+    ingredients.push({
+      ingredientId: null,
+      ingredientName: ing.description,
+      amount: ing.quantity != null ? ing.quantity : null,
+      unit: ing.unitOfMeasureID,
+      systemUsed,
+      order: ingredients.length,
+      section,
+    });
+  }
 
   return { ingredients, systemUsed };
 }
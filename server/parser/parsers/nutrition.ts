@@ -9,6 +9,13 @@ export interface ParsedNutrition {
   fat: string | null;
   carbs: string | null;
   protein: string | null;
+  fiber: string | null;
+  sugar: string | null;
+  saturatedFat: string | null;
+  /** Milligrams */
+  sodium: string | null;
+  /** Milligrams */
+  cholesterol: string | null;
 }
 
 /**
@@ -38,6 +45,27 @@ export function parseNutritionValue(value: unknown): number | null {
   return null;
 }
 
+/**
+ * Parse a nutrition value in milligrams. Sites give sodium and cholesterol
+ * as "480 mg" as well as "0.48 g"; values in grams are converted.
+ *
+ * @param value - The raw nutrition value
+ * @returns The value in milligrams, or null if invalid
+ */
+export function parseMilligramValue(value: unknown): number | null {
+  const parsed = parseNutritionValue(value);
+
+  if (parsed == null) return null;
+
+  const isGrams = typeof value === "string" && /^[\d.,]+\s*(g|grams?)\b/i.test(value.trim());
+
+  return isGrams ? Math.round(parsed * 1000) : parsed;
+}
+
+function toNumericString(value: number | null): string | null {
+  return value != null ? value.toString() : null;
+}
+
 /**
  * Extract nutrition information from a JSON-LD recipe node.
  *
@@ -46,6 +74,8 @@ export function parseNutritionValue(value: unknown): number | null {
  * - fatContent / fat
  * - carbohydrateContent / carbs
  * - proteinContent / protein
+ * - fiberContent, sugarContent, saturatedFatContent
+ * - sodiumContent, cholesterolContent (in milligrams)
  *
  * @param json - The JSON-LD recipe node
  * @returns Parsed nutrition object with all fields (null if not available)
@@ -56,6 +86,11 @@ export function extractNutrition(json: unknown): ParsedNutrition {
     fat: null,
     carbs: null,
     protein: null,
+    fiber: null,
+    sugar: null,
+    saturatedFat: null,
+    sodium: null,
+    cholesterol: null,
   };
 
   if (!json || typeof json !== "object") return defaultResult;
@@ -71,11 +106,25 @@ export function extractNutrition(json: unknown): ParsedNutrition {
   const fat = parseNutritionValue(nutritionObj.fatContent ?? nutritionObj.fat);
   const carbs = parseNutritionValue(nutritionObj.carbohydrateContent ?? nutritionObj.carbs);
   const protein = parseNutritionValue(nutritionObj.proteinContent ?? nutritionObj.protein);
+  const fiber = parseNutritionValue(nutritionObj.fiberContent ?? nutritionObj.fiber);
+  const sugar = parseNutritionValue(nutritionObj.sugarContent ?? nutritionObj.sugar);
+  const saturatedFat = parseNutritionValue(
+    nutritionObj.saturatedFatContent ?? nutritionObj.saturatedFat
+  );
+  const sodium = parseMilligramValue(nutritionObj.sodiumContent ?? nutritionObj.sodium);
+  const cholesterol = parseMilligramValue(
+    nutritionObj.cholesterolContent ?? nutritionObj.cholesterol
+  );
 
   return {
     calories,
-    fat: fat != null ? fat.toString() : null,
-    carbs: carbs != null ? carbs.toString() : null,
-    protein: protein != null ? protein.toString() : null,
+    fat: toNumericString(fat),
+    carbs: toNumericString(carbs),
+    protein: toNumericString(protein),
+    fiber: toNumericString(fiber),
+    sugar: toNumericString(sugar),
+    saturatedFat: toNumericString(saturatedFat),
+    sodium: toNumericString(sodium),
+    cholesterol: toNumericString(cholesterol),
   };
 }
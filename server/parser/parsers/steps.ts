@@ -2,17 +2,20 @@
  * Steps/instructions parsing for JSON-LD recipe normalization.
  *
  * Handles Schema.org HowToStep, HowToSection, HowToDirection, and ListItem structures.
- * Extracts section headings as `# Section Name` format for frontend rendering.
+ * HowToSection names become the section of the steps inside them.
  */
 
 import type { MeasurementSystem } from "@/types/dto/recipe";
 
 import { decode } from "html-entities";
 
+import { applySectionHeadings } from "@/lib/recipe-sections";
+
 export interface ParsedStep {
   step: string;
   systemUsed: MeasurementSystem;
   order: number;
+  section: string | null;
 }
 
 /**
@@ -92,7 +95,7 @@ function extractTextFromNode(node: Record<string, unknown>): string | null {
  * - Plain strings
  * - Arrays of instructions
  * - HowToStep objects
- * - HowToSection objects (extracted as `# Section Name` headings)
+ * - HowToSection objects (extracted as `# Section Name` headings, or `#` when unnamed)
  * - HowToDirection objects
  * - ListItem objects
  * - Nested itemListElement and item properties
@@ -127,14 +130,11 @@ export function collectSteps(node: unknown): string[] {
       const obj = current as Record<string, unknown>;
       const type = getNodeType(obj);
 
-      // Check if this is a section with a name - extract as heading
+      // Sections start with a heading; a bare "#" ends the previous section
       if (isSectionType(type)) {
-        const sectionName = typeof obj.name === "string" ? decode(obj.name).trim() : null;
+        const sectionName = typeof obj.name === "string" ? decode(obj.name).trim() : "";
 
-        // Add section name as a heading (prefixed with #)
-        if (sectionName) {
-          rawSteps.push(`# ${sectionName}`);
-        }
+        rawSteps.push(sectionName ? `# ${sectionName}` : "#");
 
         // Continue to process children (itemListElement, etc.)
         if (obj.itemListElement) visit(obj.itemListElement);
@@ -200,7 +200,7 @@ export function deduplicateSteps(rawSteps: string[]): string[] {
  *
  * @param recipeInstructions - The recipeInstructions field from JSON-LD
  * @param systemUsed - The measurement system to assign to steps
- * @returns Array of parsed step objects with order
+ * @returns Array of parsed step objects with order and section
  */
 export function parseSteps(
   recipeInstructions: unknown,
@@ -208,10 +208,15 @@ export function parseSteps(
 ): ParsedStep[] {
   const rawSteps = collectSteps(recipeInstructions);
   const deduplicated = deduplicateSteps(rawSteps);
+  const sectioned = applySectionHeadings(
+    deduplicated.map((step) => ({ step })),
+    (s) => s.step
+  );
 
-  return deduplicated.map((text, i) => ({
-    step: text,
+  return sectioned.map((s, i) => ({
+    step: s.step,
     systemUsed,
     order: i + 1,
+    section: s.section,
   }));
 }
@@ -20,6 +20,7 @@ import { getRecipePermissionPolicy } from "@/config/server-config-loader";
 import { getRecipeFull, getAllergiesForUsers, getHouseholdMemberIds } from "@/server/db";
 import { attachTagsToRecipeByInputTx, getRecipeTagNamesTx } from "@/server/db/repositories/tags";
 import { db } from "@/server/db/drizzle";
+import { withRecipeRevision } from "@/server/db/repositories/recipe-revisions";
 import { detectAllergiesInRecipe } from "@/server/ai/allergy-detector";
 
 const log = createLogger("worker:allergy-detection");
@@ -89,7 +90,7 @@ async function processAllergyDetectionJob(job: Job<AllergyDetectionJobData>): Pr
     ingredients: recipe.recipeIngredients.map((ri) => ri.ingredientName),
   };
 
-  const result = await detectAllergiesInRecipe(recipeForDetection, allergiesToDetect);
+  const result = await detectAllergiesInRecipe(recipeForDetection, allergiesToDetect, userId);
 
   if (!result.success) {
     throw new Error(result.error);
@@ -110,22 +111,24 @@ async function processAllergyDetectionJob(job: Job<AllergyDetectionJobData>): Pr
   }
 
   // Update recipe tags in database (within transaction to avoid race conditions)
-  await db.transaction(async (tx) => {
-    // Get existing tags to merge (preserve any manually added tags)
-    const existingTags = await getRecipeTagNamesTx(tx, recipeId);
-
-    // Merge tags: detected allergens + existing tags (deduplicated, lowercase comparison)
-    const existingLower = new Set(existingTags.map((t: string) => t.toLowerCase()));
-    const newTags = detectedAllergens.filter((t) => !existingLower.has(t.toLowerCase()));
-    const allTags = [...existingTags, ...newTags];
-
-    await attachTagsToRecipeByInputTx(tx, recipeId, allTags);
-
-    log.info(
-      { jobId: job.id, recipeId, newTags, totalTags: allTags.length },
-      "Allergy detection completed and saved"
-    );
-  });
+  await withRecipeRevision(recipeId, userId, "allergy_detection", () =>
+    db.transaction(async (tx) => {
+      // Get existing tags to merge (preserve any manually added tags)
+      const existingTags = await getRecipeTagNamesTx(tx, recipeId);
+
+      // Merge tags: detected allergens + existing tags (deduplicated, lowercase comparison)
+      const existingLower = new Set(existingTags.map((t: string) => t.toLowerCase()));
+      const newTags = detectedAllergens.filter((t) => !existingLower.has(t.toLowerCase()));
+      const allTags = [...existingTags, ...newTags];
+
+      await attachTagsToRecipeByInputTx(tx, recipeId, allTags);
+
+      log.info(
+        { jobId: job.id, recipeId, newTags, totalTags: allTags.length },
+        "Allergy detection completed and saved"
+      );
+    })
+  );
 
   // Fetch updated recipe and emit events
   const updatedRecipe = await getRecipeFull(recipeId);
@@ -20,6 +20,7 @@ import { getRecipePermissionPolicy } from "@/config/server-config-loader";
 import { getRecipeFull } from "@/server/db";
 import { attachTagsToRecipeByInputTx, getRecipeTagNamesTx } from "@/server/db/repositories/tags";
 import { db } from "@/server/db/drizzle";
+import { withRecipeRevision } from "@/server/db/repositories/recipe-revisions";
 import { generateTagsForRecipe } from "@/server/ai/auto-tagger";
 
 const log = createLogger("worker:auto-tagging");
@@ -70,7 +71,7 @@ async function processAutoTaggingJob(job: Job<AutoTaggingJobData>): Promise<void
     ingredients: recipe.recipeIngredients.map((ri) => ri.ingredientName),
   };
 
-  const result = await generateTagsForRecipe(recipeForTagging);
+  const result = await generateTagsForRecipe(recipeForTagging, userId);
 
   if (!result.success) {
     throw new Error(result.error);
@@ -91,22 +92,24 @@ async function processAutoTaggingJob(job: Job<AutoTaggingJobData>): Promise<void
   }
 
   // Update recipe tags in database (within transaction to avoid race conditions)
-  await db.transaction(async (tx) => {
-    // Get existing tags to merge (preserve any manually added tags)
-    const existingTags = await getRecipeTagNamesTx(tx, recipeId);
-
-    // Merge tags: AI tags + existing tags (deduplicated, lowercase comparison)
-    const existingLower = new Set(existingTags.map((t: string) => t.toLowerCase()));
-    const newTags = generatedTags.filter((t) => !existingLower.has(t.toLowerCase()));
-    const allTags = [...existingTags, ...newTags];
-
-    await attachTagsToRecipeByInputTx(tx, recipeId, allTags);
-
-    log.info(
-      { jobId: job.id, recipeId, newTags, totalTags: allTags.length },
-      "Auto-tagging completed and saved"
-    );
-  });
+  await withRecipeRevision(recipeId, userId, "auto_tag", () =>
+    db.transaction(async (tx) => {
+      // Get existing tags to merge (preserve any manually added tags)
+      const existingTags = await getRecipeTagNamesTx(tx, recipeId);
+
+      // Merge tags: AI tags + existing tags (deduplicated, lowercase comparison)
+      const existingLower = new Set(existingTags.map((t: string) => t.toLowerCase()));
+      const newTags = generatedTags.filter((t) => !existingLower.has(t.toLowerCase()));
+      const allTags = [...existingTags, ...newTags];
+
+      await attachTagsToRecipeByInputTx(tx, recipeId, allTags);
+
+      log.info(
+        { jobId: job.id, recipeId, newTags, totalTags: allTags.length },
+        "Auto-tagging completed and saved"
+      );
+    })
+  );
 
   // Fetch updated recipe and emit events
   const updatedRecipe = await getRecipeFull(recipeId);
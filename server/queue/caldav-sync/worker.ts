@@ -51,14 +51,22 @@ async function processCaldavSyncJob(job: Job<CaldavSyncJobData>): Promise<void>
   }
 
   // operation === "sync" handles both create and update
-  const { date, slot, recipeId } = job.data;
+  const { date, slot, recipeId, servings } = job.data;
 
   // Check if sync status record exists
   const existingStatus = await getCaldavSyncStatusByItemId(userId, itemId);
   const isNewRecord = !existingStatus;
 
   // Perform the CalDAV sync (throws on error)
-  const { uid } = await syncPlannedItem(userId, itemId, eventTitle, date, slot as Slot, recipeId);
+  const { uid, etag } = await syncPlannedItem(
+    userId,
+    itemId,
+    eventTitle,
+    date,
+    slot as Slot,
+    recipeId,
+    servings
+  );
 
   if (isNewRecord) {
     const insertData: CaldavSyncStatusInsertDto = {
@@ -69,6 +77,7 @@ async function processCaldavSyncJob(job: Job<CaldavSyncJobData>): Promise<void>
       eventTitle,
       syncStatus: "synced",
       caldavEventUid: uid,
+      caldavEtag: etag ?? null,
       retryCount: job.attemptsMade,
       errorMessage: null,
       lastSyncAt: new Date(),
@@ -80,6 +89,7 @@ async function processCaldavSyncJob(job: Job<CaldavSyncJobData>): Promise<void>
       eventTitle,
       syncStatus: "synced",
       caldavEventUid: uid,
+      caldavEtag: etag ?? null,
       retryCount: job.attemptsMade,
       errorMessage: null,
       lastSyncAt: new Date(),
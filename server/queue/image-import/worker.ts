@@ -61,7 +61,7 @@ async function processImageImportJob(job: Job<ImageImportJobData>): Promise<void
   }
 
   // Extract recipe from images using AI vision
-  const result = await extractRecipeFromImages(files, allergyNames);
+  const result = await extractRecipeFromImages(files, allergyNames, userId);
 
   if (!result.success) {
     throw new Error(
@@ -7,6 +7,7 @@
 
 import type { NutritionEstimationJobData } from "@/types";
 import type { Job } from "bullmq";
+import type { FoodNutrients } from "@/lib/food-composition";
 
 import { QUEUE_NAMES, baseWorkerOptions, WORKER_CONCURRENCY, STALLED_INTERVAL } from "../config";
 import { createLazyWorker, stopLazyWorker } from "../lazy-worker-manager";
@@ -15,12 +16,30 @@ import { getBullClient } from "@/server/redis/bullmq";
 import { createLogger } from "@/server/logger";
 import { emitByPolicy, type PolicyEmitContext } from "@/server/trpc/helpers";
 import { recipeEmitter } from "@/server/trpc/routers/recipes/emitter";
-import { getRecipePermissionPolicy } from "@/config/server-config-loader";
-import { getRecipeFull, updateRecipeWithRefs } from "@/server/db";
+import { getRecipePermissionPolicy, isAIEnabled } from "@/config/server-config-loader";
+import {
+  getExpandedRecipeIngredients,
+  getRecipeFull,
+  getRecipeViewer,
+  updateRecipeWithRefs,
+} from "@/server/db";
 import { estimateNutritionFromIngredients } from "@/server/ai/nutrition-estimator";
+import { calculateRecipeNutrition } from "@/server/nutrition-calculator";
 
 const log = createLogger("worker:nutrition-estimation");
 
+/** Recipe columns for per-serving nutrients: whole kcal, the rest as numeric strings */
+function toRecipeNutrition(nutrients: FoodNutrients) {
+  const { calories, ...rest } = nutrients;
+
+  return {
+    calories: calories != null ? Math.round(calories) : null,
+    ...(Object.fromEntries(
+      Object.entries(rest).map(([key, value]) => [key, value?.toString() ?? null])
+    ) as Record<keyof typeof rest, string | null>),
+  };
+}
+
 async function processNutritionJob(job: Job<NutritionEstimationJobData>): Promise<void> {
   const { recipeId, userId, householdKey } = job.data;
 
@@ -38,35 +57,44 @@ async function processNutritionJob(job: Job<NutritionEstimationJobData>): Promis
     throw new Error(`Recipe not found: ${recipeId}`);
   }
 
-  if (recipe.recipeIngredients.length === 0) {
+  // Sub-recipes count with the ingredients they are made of, as far as the owner can see them
+  const viewer = await getRecipeViewer(recipe.userId);
+  const expanded = (await getExpandedRecipeIngredients(recipeId, viewer)) ?? [];
+
+  if (expanded.length === 0) {
     throw new Error("Recipe has no ingredients to estimate from");
   }
 
-  const ingredients = recipe.recipeIngredients.map((ri) => ({
-    ingredientName: ri.ingredientName,
-    amount: ri.amount,
-    unit: ri.unit,
-  }));
-
-  const result = await estimateNutritionFromIngredients(
-    recipe.name,
-    recipe.servings ?? 1,
-    ingredients
-  );
-
-  if (!result.success) {
-    throw new Error(result.error);
+  const servings = recipe.servings ?? 1;
+  const calculated = await calculateRecipeNutrition(recipeId, servings, viewer);
+
+  // The food composition table wins unless too many lines could not be matched
+  let nutrients: FoodNutrients;
+
+  if (calculated && (calculated.confidence !== "low" || !(await isAIEnabled()))) {
+    nutrients = calculated.perServing;
+  } else {
+    const ingredients = expanded.map((ri) => ({
+      ingredientName: ri.ingredientName,
+      amount: ri.amount,
+      unit: ri.unit,
+    }));
+
+    const result = await estimateNutritionFromIngredients(
+      recipe.name,
+      servings,
+      ingredients,
+      userId
+    );
+
+    if (!result.success) {
+      throw new Error(result.error);
+    }
+
+    nutrients = result.data;
   }
 
-  const estimate = result.data;
-
-  // Update recipe with estimated nutrition
-  await updateRecipeWithRefs(recipe.id, userId, {
-    calories: estimate.calories,
-    fat: estimate.fat.toString(),
-    carbs: estimate.carbs.toString(),
-    protein: estimate.protein.toString(),
-  });
+  await updateRecipeWithRefs(recipe.id, userId, toRecipeNutrition(nutrients), "nutrition");
 
   // Fetch updated recipe and emit event
   const updatedRecipe = await getRecipeFull(recipe.id);
@@ -64,7 +64,8 @@ async function parseFromPastedText(
   text: string,
   recipeId: string,
   allergies?: string[],
-  forceAI?: boolean
+  forceAI?: boolean,
+  userId?: string
 ): Promise<ParseResult> {
   const trimmed = text.trim();
 
@@ -81,12 +82,14 @@ async function parseFromPastedText(
     }
 
     const html = `<html><body><main><h1>Pasted recipe</h1><p>${escapeHtml(trimmed)}</p></main></body></html>`;
-    const ai = await extractRecipeWithAI(html, recipeId, undefined, allergies);
+    const ai = await extractRecipeWithAI(html, recipeId, undefined, allergies, userId);
 
     if (ai.success && hasStepsAndIngredients(ai.data)) {
       return { recipe: ai.data, usedAI: true };
     }
 
+    if (!ai.success && ai.code === "QUOTA_EXCEEDED") throw new Error(ai.error);
+
     throw new Error("Could not parse pasted recipe.");
   }
 
@@ -111,12 +114,14 @@ async function parseFromPastedText(
   }
 
   const html = `<html><body><main><h1>Pasted recipe</h1><p>${escapeHtml(trimmed)}</p></main></body></html>`;
-  const ai = await extractRecipeWithAI(html, recipeId, undefined, allergies);
+  const ai = await extractRecipeWithAI(html, recipeId, undefined, allergies, userId);
 
   if (ai.success && hasStepsAndIngredients(ai.data)) {
     return { recipe: ai.data, usedAI: true };
   }
 
+  if (!ai.success && ai.code === "QUOTA_EXCEEDED") throw new Error(ai.error);
+
   throw new Error("Could not parse pasted recipe.");
 }
 
@@ -150,7 +155,7 @@ async function processPasteImportJob(job: Job<PasteImportJobData>): Promise<void
     );
   }
 
-  const parseResult = await parseFromPastedText(text, recipeId, allergyNames, forceAI);
+  const parseResult = await parseFromPastedText(text, recipeId, allergyNames, forceAI, userId);
 
   const createdId = await createRecipeWithRefs(recipeId, userId, parseResult.recipe);
 
@@ -90,7 +90,13 @@ async function processImportJob(job: Job<RecipeImportJobData>): Promise<void> {
   }
 
   // Parse and create recipe
-  const parseResult = await parseRecipeFromUrl(url, recipeId, allergyNames, job.data.forceAI);
+  const parseResult = await parseRecipeFromUrl(
+    url,
+    recipeId,
+    allergyNames,
+    job.data.forceAI,
+    userId
+  );
 
   log.debug({ parseResult }, "Recipe parse result");
   if (!parseResult.recipe) {
@@ -25,6 +25,7 @@ export async function initializeScheduledJobs(queue: Queue<ScheduledTaskJobData>
   }
 
   const cronMidnight = "0 0 * * *"; // Daily at midnight
+  const cronQuarterHourly = "*/15 * * * *"; // Every 15 minutes
 
   await queue.add(
     "recurring-grocery-check",
@@ -56,5 +57,17 @@ export async function initializeScheduledJobs(queue: Queue<ScheduledTaskJobData>
     { repeat: { pattern: cronMidnight }, jobId: "video-temp-cleanup" }
   );
 
-  log.info("Repeatable scheduled jobs initialized (daily at midnight)");
+  await queue.add(
+    "recipe-trash-purge",
+    { taskType: "recipe-trash-purge" },
+    { repeat: { pattern: cronMidnight }, jobId: "recipe-trash-purge" }
+  );
+
+  await queue.add(
+    "caldav-pull",
+    { taskType: "caldav-pull" },
+    { repeat: { pattern: cronQuarterHourly }, jobId: "caldav-pull" }
+  );
+
+  log.info("Repeatable scheduled jobs initialized");
 }
@@ -16,7 +16,9 @@ export type ScheduledTaskType =
   | "image-cleanup"
   | "calendar-cleanup"
   | "groceries-cleanup"
-  | "video-temp-cleanup";
+  | "video-temp-cleanup"
+  | "caldav-pull"
+  | "recipe-trash-purge";
 
 export interface ScheduledTaskJobData {
   taskType: ScheduledTaskType;
@@ -14,7 +14,9 @@ import {
 } from "@/server/startup/image-cleanup";
 import { cleanupOldCalendarData } from "@/server/scheduler/old-calendar-cleanup";
 import { cleanupOldGroceries } from "@/server/scheduler/old-groceries-cleanup";
+import { purgeTrashedRecipes } from "@/server/scheduler/recipe-trash-cleanup";
 import { cleanupOldTempFiles } from "@/server/video/cleanup";
+import { pullAllCaldavChanges } from "@/server/caldav/pull-sync";
 
 const log = createLogger("worker:scheduled-tasks");
 
@@ -23,7 +25,9 @@ type ScheduledTaskType =
   | "image-cleanup"
   | "calendar-cleanup"
   | "groceries-cleanup"
-  | "video-temp-cleanup";
+  | "video-temp-cleanup"
+  | "caldav-pull"
+  | "recipe-trash-purge";
 
 interface ScheduledTaskJobData {
   taskType: ScheduledTaskType;
@@ -92,6 +96,20 @@ async function processScheduledTask(job: Job<ScheduledTaskJobData>): Promise<voi
       break;
     }
 
+    case "caldav-pull": {
+      const result = await pullAllCaldavChanges();
+
+      log.info(result, "CalDAV pull completed");
+      break;
+    }
+
+    case "recipe-trash-purge": {
+      const result = await purgeTrashedRecipes();
+
+      log.info({ deleted: result.deleted }, "Recipe trash purge completed");
+      break;
+    }
+
     default:
       throw new Error(`Unknown scheduled task type: ${taskType}`);
   }
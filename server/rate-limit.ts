@@ -0,0 +1,83 @@
+import type { RateLimitFeature } from "@/server/db/zodSchemas/server-config";
+
+import { getRateLimits } from "@/config/server-config-loader";
+import { getPublisherClient } from "@/server/redis/client";
+import { serverLogger as log } from "@/server/logger";
+
+/**
+ * Per-user rate limits for imports and AI features.
+ *
+ * Calls are counted in Redis in fixed windows of the feature's `windowMinutes`, so limits hold
+ * across server instances and restarts. Limits are configured by admins in server_config; a limit
+ * of 0 turns it off. When Redis can't be reached the call is let through rather than failing.
+ */
+
+const KEY_PREFIX = "norish:ratelimit:";
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  /** Seconds until the current window ends */
+  retryAfterSeconds: number;
+}
+
+export class RateLimitExceededError extends Error {
+  feature: RateLimitFeature;
+  retryAfterSeconds: number;
+
+  constructor(feature: RateLimitFeature, retryAfterSeconds: number) {
+    super(`Rate limit exceeded for ${feature}, try again in ${retryAfterSeconds} seconds`);
+    this.name = "RateLimitExceededError";
+    this.feature = feature;
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+/** Count a call by a user against a feature's limit */
+export async function consumeRateLimit(
+  feature: RateLimitFeature,
+  userId: string
+): Promise<RateLimitResult> {
+  const { limit, windowMinutes } = (await getRateLimits())[feature];
+
+  if (limit === 0) {
+    return { allowed: true, limit, remaining: Infinity, retryAfterSeconds: 0 };
+  }
+
+  const windowMs = windowMinutes * 60 * 1000;
+  const now = Date.now();
+  const window = Math.floor(now / windowMs);
+  const retryAfterSeconds = Math.ceil(((window + 1) * windowMs - now) / 1000);
+
+  try {
+    const redis = await getPublisherClient();
+    const key = `${KEY_PREFIX}${feature}:${userId}:${window}`;
+    const [[, count]] = (await redis.multi().incr(key).pexpire(key, windowMs).exec()) as [
+      [Error | null, number],
+      [Error | null, number],
+    ];
+
+    return {
+      allowed: count <= limit,
+      limit,
+      remaining: Math.max(0, limit - count),
+      retryAfterSeconds,
+    };
+  } catch (err) {
+    log.warn({ err, feature, userId }, "Rate limit check failed, allowing request");
+
+    return { allowed: true, limit, remaining: limit, retryAfterSeconds: 0 };
+  }
+}
+
+/** Count a call by a user against a feature's limit, throwing once the limit is exceeded */
+export async function enforceRateLimit(feature: RateLimitFeature, userId: string): Promise<void> {
+  const result = await consumeRateLimit(feature, userId);
+
+  if (!result.allowed) {
+    log.info({ feature, userId, limit: result.limit }, "Rate limit exceeded");
+
+    throw new RateLimitExceededError(feature, result.retryAfterSeconds);
+  }
+}
@@ -0,0 +1,39 @@
+import { subDays } from "date-fns";
+
+import { getTrashRetentionDays } from "@/config/server-config-loader";
+import { deleteRecipeById, listTrashedRecipeIdsBefore } from "@/server/db/repositories/recipes";
+import { schedulerLogger } from "@/server/logger";
+
+// Permanently deletes recipes, and their media, that have been in the trash too long
+export async function purgeTrashedRecipes(): Promise<{ deleted: number }> {
+  try {
+    const retentionDays = await getTrashRetentionDays();
+    const cutoffDate = subDays(new Date(), retentionDays);
+    const recipeIds = await listTrashedRecipeIdsBefore(cutoffDate);
+
+    schedulerLogger.info(
+      { cutoffDate: cutoffDate.toISOString(), retentionDays, count: recipeIds.length },
+      "Purging trashed recipes"
+    );
+
+    let deleted = 0;
+
+    // One at a time, so a recipe whose media cannot be removed does not stop the rest
+    for (const recipeId of recipeIds) {
+      try {
+        await deleteRecipeById(recipeId);
+        deleted++;
+      } catch (err) {
+        schedulerLogger.error({ err, recipeId }, "Failed to purge trashed recipe");
+      }
+    }
+
+    schedulerLogger.info({ deleted }, "Recipe trash purge complete");
+
+    return { deleted };
+  } catch (err) {
+    schedulerLogger.error({ err }, "Fatal error during recipe trash purge");
+
+    return { deleted: 0 };
+  }
+}
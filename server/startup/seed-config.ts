@@ -1,4 +1,4 @@
-import type { I18nLocaleConfig } from "@/server/db/zodSchemas/server-config";
+import type { I18nLocaleConfig, UnitsMap } from "@/server/db/zodSchemas/server-config";
 
 import { setConfig, configExists, getConfig, deleteConfig } from "../db/repositories/server-config";
 import {
@@ -9,6 +9,8 @@ import {
   type AuthProviderOIDC,
   type PromptsConfig,
   DEFAULT_RECIPE_PERMISSION_POLICY,
+  DEFAULT_RATE_LIMITS,
+  DEFAULT_AI_QUOTAS,
 } from "../db/zodSchemas/server-config";
 
 import { SERVER_CONFIG } from "@/config/env-config-server";
@@ -16,6 +18,7 @@ import { DEFAULT_LOCALE_CONFIG, buildLocaleConfigFromEnv } from "@/config/server
 import { setAuthProviderCache } from "@/server/auth/provider-cache";
 import { serverLogger } from "@/server/logger";
 import defaultUnits from "@/config/units.default.json";
+import defaultIngredientDensities from "@/config/ingredient-densities.default.json";
 import defaultContentIndicators from "@/config/content-indicators.default.json";
 import defaultRecurrenceConfig from "@/config/recurrence-config.default.json";
 import { loadDefaultPrompts } from "@/server/ai/prompts/loader";
@@ -68,6 +71,12 @@ const REQUIRED_CONFIGS: ConfigDefinition[] = [
     sensitive: false,
     description: `Units (${Object.keys(defaultUnits).length} definitions)`,
   },
+  {
+    key: ServerConfigKeys.INGREDIENT_DENSITIES,
+    getDefaultValue: () => defaultIngredientDensities,
+    sensitive: false,
+    description: `Ingredient densities (${Object.keys(defaultIngredientDensities).length} ingredients)`,
+  },
   {
     key: ServerConfigKeys.CONTENT_INDICATORS,
     getDefaultValue: () => defaultContentIndicators,
@@ -86,6 +95,30 @@ const REQUIRED_CONFIGS: ConfigDefinition[] = [
     sensitive: false,
     description: `Scheduler cleanup: ${SERVER_CONFIG.SCHEDULER_CLEANUP_MONTHS} months`,
   },
+  {
+    key: ServerConfigKeys.TRASH_RETENTION_DAYS,
+    getDefaultValue: () => SERVER_CONFIG.TRASH_RETENTION_DAYS,
+    sensitive: false,
+    description: `Trash retention: ${SERVER_CONFIG.TRASH_RETENTION_DAYS} days`,
+  },
+  {
+    key: ServerConfigKeys.OUTBOUND_ALLOWLIST,
+    getDefaultValue: () => SERVER_CONFIG.OUTBOUND_ALLOWLIST,
+    sensitive: false,
+    description: "Private hosts that imports may fetch from",
+  },
+  {
+    key: ServerConfigKeys.RATE_LIMITS,
+    getDefaultValue: () => DEFAULT_RATE_LIMITS,
+    sensitive: false,
+    description: "Per-user rate limits for imports and AI features",
+  },
+  {
+    key: ServerConfigKeys.AI_QUOTAS,
+    getDefaultValue: () => DEFAULT_AI_QUOTAS,
+    sensitive: false,
+    description: "Monthly AI token quotas (unlimited)",
+  },
   {
     key: ServerConfigKeys.AI_CONFIG,
     getDefaultValue: () => ({
@@ -152,6 +185,7 @@ export async function seedServerConfig(): Promise<void> {
   await importEnvAuthProvidersIfMissing();
   await syncPrompts();
   await syncLocales();
+  await syncUnitConversions();
   if (seededCount === 0) {
     serverLogger.info("All server configuration keys present");
   } else {
@@ -495,6 +529,35 @@ async function syncLocales(): Promise<void> {
   }
 }
 
+/**
+ * Add the default conversion factors to stored units that have none,
+ * so installs seeded before units had factors can convert them.
+ */
+async function syncUnitConversions(): Promise<void> {
+  const existing = await getConfig<UnitsMap>(ServerConfigKeys.UNITS);
+
+  if (!existing) {
+    return;
+  }
+
+  const defaults = defaultUnits as UnitsMap;
+  const updated: string[] = [];
+
+  for (const [key, def] of Object.entries(existing)) {
+    const conversion = defaults[key]?.conversion;
+
+    if (conversion && !def.conversion) {
+      existing[key] = { ...def, conversion };
+      updated.push(key);
+    }
+  }
+
+  if (updated.length > 0) {
+    await setConfig(ServerConfigKeys.UNITS, existing, null, false);
+    serverLogger.info({ units: updated }, "Added conversion factors to units config");
+  }
+}
+
 /**
  * Load default values from .default.json files
  * Used for "Restore to defaults" functionality
@@ -505,12 +568,22 @@ export function getDefaultConfigValue(key: ServerConfigKey): unknown {
       return true;
     case ServerConfigKeys.UNITS:
       return defaultUnits;
+    case ServerConfigKeys.INGREDIENT_DENSITIES:
+      return defaultIngredientDensities;
     case ServerConfigKeys.CONTENT_INDICATORS:
       return defaultContentIndicators;
     case ServerConfigKeys.RECURRENCE_CONFIG:
       return defaultRecurrenceConfig;
     case ServerConfigKeys.SCHEDULER_CLEANUP_MONTHS:
       return 3;
+    case ServerConfigKeys.TRASH_RETENTION_DAYS:
+      return 30;
+    case ServerConfigKeys.OUTBOUND_ALLOWLIST:
+      return [];
+    case ServerConfigKeys.RATE_LIMITS:
+      return DEFAULT_RATE_LIMITS;
+    case ServerConfigKeys.AI_QUOTAS:
+      return DEFAULT_AI_QUOTAS;
     case ServerConfigKeys.AI_CONFIG:
       return {
         enabled: false,
@@ -1,7 +1,7 @@
 export { appRouter, type AppRouter } from "./router";
 export { createContext, createWsContext, type Context } from "./context";
 export { router, publicProcedure, middleware, mergeRouters } from "./trpc";
-export { authedProcedure, type AuthedProcedureContext } from "./middleware";
+export { authedProcedure, rateLimitedProcedure, type AuthedProcedureContext } from "./middleware";
 export { type PermissionAction } from "@/server/auth/permissions";
 export { initTrpcWebSocket } from "./ws-server";
 export { TypedEmitter, createTypedEmitter } from "./emitter";
@@ -1,6 +1,7 @@
 import type { Context } from "./context";
 import type { HouseholdWithUsersNamesDto, User } from "@/types";
 import type { SubscriptionMultiplexer } from "@/server/redis/subscription-multiplexer";
+import type { RateLimitFeature } from "@/server/db/zodSchemas/server-config";
 
 import { TRPCError } from "@trpc/server";
 
@@ -9,6 +10,7 @@ import { middleware, publicProcedure } from "./trpc";
 import { isUserServerAdmin } from "@/server/db";
 import { getCachedHouseholdForUser } from "@/server/db/cached-household";
 import { getOrCreateMultiplexer } from "@/server/redis/subscription-multiplexer";
+import { enforceRateLimit, RateLimitExceededError } from "@/server/rate-limit";
 
 /**
  * Middleware that enforces authentication and provides full context:
@@ -62,6 +64,25 @@ const withAuth = middleware(async ({ ctx, next }) => {
  */
 export const authedProcedure = publicProcedure.use(withAuth);
 
+/**
+ * Authenticated procedure that counts each call against the user's rate limit for a feature.
+ * Throws TOO_MANY_REQUESTS once the limit is exceeded; `retryAfterSeconds` is sent along in the
+ * error data.
+ */
+export const rateLimitedProcedure = (feature: RateLimitFeature) =>
+  authedProcedure.use(async ({ ctx, next }) => {
+    try {
+      await enforceRateLimit(feature, ctx.user.id);
+    } catch (err) {
+      if (err instanceof RateLimitExceededError) {
+        throw new TRPCError({ code: "TOO_MANY_REQUESTS", message: err.message, cause: err });
+      }
+      throw err;
+    }
+
+    return next();
+  });
+
 export type AuthedProcedureContext = Context & {
   user: User;
   household: HouseholdWithUsersNamesDto | null;
@@ -12,6 +12,9 @@ import { archive } from "./routers/archive";
 import { favoritesRouter } from "./routers/favorites";
 import { ratingsRouter } from "./routers/ratings";
 import { storesRouter } from "./routers/stores";
+import { pantryRouter } from "./routers/pantry";
+import { mealSlotsRouter } from "./routers/meal-slots";
+import { cookTimersRouter } from "./routers/cook-timers";
 
 export const appRouter = router({
   groceries: groceriesRouter,
@@ -28,6 +31,9 @@ export const appRouter = router({
   favorites: favoritesRouter,
   ratings: ratingsRouter,
   stores: storesRouter,
+  pantry: pantryRouter,
+  mealSlots: mealSlotsRouter,
+  cookTimers: cookTimersRouter,
 });
 
 // Export type definition of API
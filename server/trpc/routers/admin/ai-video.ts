@@ -9,9 +9,15 @@ import { setConfig, getConfig } from "@/server/db/repositories/server-config";
 import { testAIEndpoint as testAIEndpointFn } from "@/server/auth/connection-tests";
 import { getRecipePermissionPolicy } from "@/config/server-config-loader";
 import { listModels, listTranscriptionModels } from "@/server/ai/providers";
+import { getQuotaPeriodStart } from "@/server/ai/core/usage";
+import { summarizeAIUsageSince } from "@/server/db/repositories/ai-usage";
+import { getAllHouseholdNames } from "@/server/db/repositories/households";
+import { getAllUserNames } from "@/server/db/repositories/users";
+import { AIUsageSummaryInputSchema } from "@/server/db/zodSchemas/ai-usage";
 import {
   ServerConfigKeys,
   AIConfigSchema,
+  AIQuotasSchema,
   VideoConfigSchema,
   TranscriptionProviderSchema,
   type AIConfig,
@@ -160,9 +166,52 @@ const listAvailableTranscriptionModels = adminProcedure
     return { models };
   });
 
+/**
+ * Update monthly AI token quotas and their per-user and per-household overrides.
+ */
+const updateAIQuotas = adminProcedure.input(AIQuotasSchema).mutation(async ({ input, ctx }) => {
+  log.info({ userId: ctx.user.id, quotas: input }, "Updating AI quotas");
+
+  await setConfig(ServerConfigKeys.AI_QUOTAS, input, ctx.user.id, false);
+
+  return { success: true };
+});
+
+/**
+ * AI usage per month, user and feature for the last N months (current month included).
+ */
+const getAIUsageSummary = adminProcedure
+  .input(AIUsageSummaryInputSchema)
+  .query(async ({ input, ctx }) => {
+    log.debug({ userId: ctx.user.id, months: input.months }, "Getting AI usage summary");
+
+    const monthStart = getQuotaPeriodStart();
+    const since = new Date(
+      Date.UTC(monthStart.getUTCFullYear(), monthStart.getUTCMonth() - (input.months - 1), 1)
+    );
+
+    return summarizeAIUsageSince(since);
+  });
+
+/**
+ * Users and households an AI quota override can be set for, sorted by name.
+ */
+const getAIQuotaTargets = adminProcedure.query(async ({ ctx }) => {
+  log.debug({ userId: ctx.user.id }, "Getting AI quota targets");
+
+  const [users, households] = await Promise.all([getAllUserNames(), getAllHouseholdNames()]);
+  const byName = (a: { name: string | null }, b: { name: string | null }) =>
+    (a.name ?? "").localeCompare(b.name ?? "");
+
+  return { users: users.sort(byName), households: households.sort(byName) };
+});
+
 export const aiVideoProcedures = router({
   updateAIConfig,
   updateVideoConfig,
+  updateAIQuotas,
+  getAIUsageSummary,
+  getAIQuotaTargets,
   testAIEndpoint,
   listAvailableModels,
   listAvailableTranscriptionModels,
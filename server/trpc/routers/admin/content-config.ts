@@ -9,6 +9,7 @@ import {
   ServerConfigKeys,
   ContentIndicatorsSchema,
   UnitsMapSchema,
+  IngredientDensitiesSchema,
   RecurrenceConfigSchema,
   PromptsConfigInputSchema,
   type PromptsConfig,
@@ -68,6 +69,34 @@ const updateUnits = adminProcedure.input(z.string()).mutation(async ({ input, ct
   return { success: true };
 });
 
+/**
+ * Update ingredient densities and piece weights.
+ * Accepts a JSON string that gets parsed and validated.
+ */
+const updateIngredientDensities = adminProcedure
+  .input(z.string())
+  .mutation(async ({ input, ctx }) => {
+    log.info({ userId: ctx.user.id }, "Updating ingredient densities");
+
+    let parsed: unknown;
+
+    try {
+      parsed = JSON.parse(input);
+    } catch {
+      return { success: false, error: "Invalid JSON format" };
+    }
+
+    const result = IngredientDensitiesSchema.safeParse(parsed);
+
+    if (!result.success) {
+      return { success: false, error: result.error.message };
+    }
+
+    await setConfig(ServerConfigKeys.INGREDIENT_DENSITIES, result.data, ctx.user.id, false);
+
+    return { success: true };
+  });
+
 /**
  * Update recurrence config.
  * Accepts a JSON string that gets parsed and validated.
@@ -120,6 +149,7 @@ const updatePrompts = adminProcedure
 export const contentConfigProcedures = router({
   updateContentIndicators,
   updateUnits,
+  updateIngredientDensities,
   updateRecurrenceConfig,
   getPrompts,
   updatePrompts,
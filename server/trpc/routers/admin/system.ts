@@ -9,6 +9,9 @@ import {
   ServerConfigKeys,
   type ServerConfigKey,
   SchedulerCleanupMonthsSchema,
+  TrashRetentionDaysSchema,
+  OutboundAllowlistSchema,
+  RateLimitsSchema,
   SENSITIVE_CONFIG_KEYS,
 } from "@/server/db/zodSchemas/server-config";
 import { getDefaultConfigValue } from "@/server/startup/seed-config";
@@ -26,6 +29,43 @@ const updateSchedulerMonths = adminProcedure
     return { success: true };
   });
 
+/**
+ * Update the number of days recipes stay in the trash.
+ */
+const updateTrashRetentionDays = adminProcedure
+  .input(TrashRetentionDaysSchema)
+  .mutation(async ({ input, ctx }) => {
+    log.info({ userId: ctx.user.id, days: input }, "Updating trash retention days");
+
+    await setConfig(ServerConfigKeys.TRASH_RETENTION_DAYS, input, ctx.user.id, false);
+
+    return { success: true };
+  });
+
+/**
+ * Update the private hosts imports may fetch from.
+ */
+const updateOutboundAllowlist = adminProcedure
+  .input(OutboundAllowlistSchema)
+  .mutation(async ({ input, ctx }) => {
+    log.info({ userId: ctx.user.id, allowlist: input }, "Updating outbound allowlist");
+
+    await setConfig(ServerConfigKeys.OUTBOUND_ALLOWLIST, input, ctx.user.id, false);
+
+    return { success: true };
+  });
+
+/**
+ * Update per-user rate limits for imports and AI features.
+ */
+const updateRateLimits = adminProcedure.input(RateLimitsSchema).mutation(async ({ input, ctx }) => {
+  log.info({ userId: ctx.user.id, rateLimits: input }, "Updating rate limits");
+
+  await setConfig(ServerConfigKeys.RATE_LIMITS, input, ctx.user.id, false);
+
+  return { success: true };
+});
+
 /**
  * Restore a config to its default value.
  */
@@ -65,6 +105,9 @@ const restartServer = adminProcedure.mutation(async ({ ctx }) => {
 
 export const systemProcedures = router({
   updateSchedulerMonths,
+  updateTrashRetentionDays,
+  updateOutboundAllowlist,
+  updateRateLimits,
   restoreDefault,
   restartServer,
 });
@@ -13,9 +13,12 @@ import {
   getArchiveInfo,
   ArchiveFormat,
 } from "@/server/importers/archive-parser";
+import { createExportToken } from "@/server/exporters/archive-exporter";
+import { listViewableRecipeIds } from "@/server/db/repositories/recipes";
+import { ARCHIVE_EXPORT_FORMATS } from "@/types";
 
 /**
- * Import recipes from an archive (Mela .melarecipes or Mealie/Tandoor .zip export).
+ * Import recipes from an archive (Norish/Mealie/Paprika/Tandoor .zip or Mela .melarecipes export).
  * Progress is streamed via onArchiveProgress subscription
  * Recipe data is emitted via recipeBatchCreated subscription
  */
@@ -58,7 +61,7 @@ const importArchive = authedProcedure
         return {
           success: false,
           error:
-            "Unknown archive format. Expected .melarecipes, Mealie .zip, Paprika .zip, or Tandoor .zip export",
+            "Unknown archive format. Expected Norish .zip, .melarecipes, Mealie .zip, Paprika .zip, or Tandoor .zip export",
         };
       }
 
@@ -96,7 +99,7 @@ const importArchive = authedProcedure
 
 /**
  * Run the archive import asynchronously, emitting progress events.
- * Automatically detects Mela, Mealie or Tandoor format and uses appropriate parser.
+ * Automatically detects Norish, Mela, Mealie, Paprika or Tandoor format and uses appropriate parser.
  */
 async function runArchiveImportAsync(
   userId: string,
@@ -211,6 +214,49 @@ async function runArchiveImportAsync(
   );
 }
 
+/**
+ * Export recipes the user can view as a Norish, Mealie, Paprika or Mela archive.
+ * Defaults to the full catalogue; pass recipeIds to export a subset.
+ * Returns a short-lived, single-use download URL served by /api/archive/export/[token].
+ */
+const exportArchive = authedProcedure
+  .input(
+    z.object({
+      recipeIds: z.array(z.uuid()).optional(),
+      format: z.enum(ARCHIVE_EXPORT_FORMATS).default("norish"),
+    })
+  )
+  .mutation(async ({ ctx, input }) => {
+    log.debug({ userId: ctx.user.id, format: input.format }, "Starting archive export");
+
+    const recipeIds = await listViewableRecipeIds(
+      {
+        userId: ctx.user.id,
+        householdUserIds: ctx.householdUserIds,
+        isServerAdmin: ctx.isServerAdmin,
+      },
+      input.recipeIds
+    );
+
+    if (recipeIds.length === 0) {
+      return { success: false, error: "No recipes to export" };
+    }
+
+    const token = await createExportToken({
+      userId: ctx.user.id,
+      recipeIds,
+      format: input.format,
+    });
+
+    log.info(
+      { userId: ctx.user.id, format: input.format, total: recipeIds.length },
+      "Archive export prepared"
+    );
+
+    return { success: true, total: recipeIds.length, url: `/api/archive/export/${token}` };
+  });
+
 export const archiveRouter = router({
   importArchive,
+  exportArchive,
 });
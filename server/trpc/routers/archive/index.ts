@@ -4,7 +4,7 @@ import { archiveRouter } from "./archive";
 import { archiveSubscriptions } from "./subscriptions";
 
 /**
- * Archive router, handles archive imports (Mela/Mealie/Tandoor)
+ * Archive router, handles archive imports (Norish/Mela/Mealie/Paprika/Tandoor) and exports (Norish/Mealie/Paprika/Mela)
  */
 export const archive = router({
   ...archiveRouter._def.procedures,
@@ -2,6 +2,7 @@ import type {
   UserCaldavConfigWithoutPasswordDto,
   ConnectionTestResult,
   CalDavCalendarInfo,
+  CalendarFeedViewDto,
 } from "@/types";
 
 import { TRPCError } from "@trpc/server";
@@ -30,6 +31,12 @@ import {
   getCaldavSyncStatusesByUser,
   getSyncStatusSummary,
 } from "@/server/db/repositories/caldav-sync-status";
+import {
+  deleteCalendarFeed,
+  listCalendarFeeds,
+  rotateCalendarFeedToken,
+} from "@/server/db/repositories/calendar-feeds";
+import { CalendarFeedScopeInputSchema } from "@/server/db/zodSchemas";
 
 const log = createLogger("caldav-procedures");
 
@@ -69,22 +76,20 @@ export const caldavRouter = router({
 
       log.info({ userId }, "Saving CalDAV configuration");
 
+      const existingConfig = await getCaldavConfigDecrypted(userId);
+
       // When updating, use existing password if not provided, as this is not sent when updating
-      let password = input.password;
+      const password = input.password || existingConfig?.password;
 
       if (!password) {
-        const existingConfig = await getCaldavConfigDecrypted(userId);
-
-        if (!existingConfig?.password) {
-          throw new TRPCError({
-            code: "BAD_REQUEST",
-            message: "Password is required for new configurations",
-          });
-        }
-
-        password = existingConfig.password;
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Password is required for new configurations",
+        });
       }
 
+      const timezoneChanged = !!existingConfig && existingConfig.timezone !== input.timezone;
+
       await saveCaldavConfig(userId, {
         serverUrl: input.serverUrl,
         calendarUrl: input.calendarUrl ?? null,
@@ -95,6 +100,7 @@ export const caldavRouter = router({
         lunchTime: input.lunchTime,
         dinnerTime: input.dinnerTime,
         snackTime: input.snackTime,
+        timezone: input.timezone,
       });
 
       // Get the saved config without password for response
@@ -110,9 +116,15 @@ export const caldavRouter = router({
       // Emit config saved event
       caldavEmitter.emitToUser(userId, "configSaved", { config: configWithoutPassword });
 
-      // If enabled, trigger initial sync of all future items
+      // If enabled, sync all future items. Existing events are rewritten too, so a
+      // timezone change moves them to the same local time in the new zone.
       if (input.enabled) {
-        log.info({ userId }, "CalDAV enabled - starting initial sync");
+        log.info(
+          { userId, timezone: input.timezone, timezoneChanged },
+          timezoneChanged
+            ? "CalDAV timezone changed - re-syncing future events"
+            : "CalDAV enabled - starting initial sync"
+        );
 
         // Run sync in background, don't wait
         syncAllFutureItems(userId)
@@ -287,6 +299,37 @@ export const caldavRouter = router({
 
     return { started: true };
   }),
+
+  /**
+   * List the user's ICS feeds (personal and household).
+   */
+  getFeeds: authedProcedure.query(async ({ ctx }): Promise<CalendarFeedViewDto[]> => {
+    return listCalendarFeeds(ctx.user.id);
+  }),
+
+  /**
+   * Create an ICS feed, or replace its token so the previous URL stops working.
+   */
+  rotateFeed: authedProcedure
+    .input(CalendarFeedScopeInputSchema)
+    .mutation(async ({ ctx, input }): Promise<CalendarFeedViewDto> => {
+      log.info({ userId: ctx.user.id, scope: input.scope }, "Rotating calendar feed token");
+
+      return rotateCalendarFeedToken(ctx.user.id, input.scope);
+    }),
+
+  /**
+   * Disable an ICS feed.
+   */
+  deleteFeed: authedProcedure
+    .input(CalendarFeedScopeInputSchema)
+    .mutation(async ({ ctx, input }): Promise<{ success: boolean }> => {
+      log.info({ userId: ctx.user.id, scope: input.scope }, "Deleting calendar feed");
+
+      await deleteCalendarFeed(ctx.user.id, input.scope);
+
+      return { success: true };
+    }),
 });
 
 export type CaldavRouter = typeof caldavRouter;
@@ -2,6 +2,8 @@ import type { UserCaldavConfigWithoutPasswordDto } from "@/types";
 
 import { z } from "zod";
 
+import { DEFAULT_TIMEZONE, isValidTimeZone } from "@/server/caldav/timezone";
+
 export type CaldavItemType = "recipe" | "note";
 export type CaldavSyncStatus = "pending" | "synced" | "failed" | "removed";
 
@@ -30,6 +32,7 @@ export const SaveCaldavConfigInputSchema = z.object({
   lunchTime: z.string().regex(/^\d{2}:\d{2}-\d{2}:\d{2}$/),
   dinnerTime: z.string().regex(/^\d{2}:\d{2}-\d{2}:\d{2}$/),
   snackTime: z.string().regex(/^\d{2}:\d{2}-\d{2}:\d{2}$/),
+  timezone: z.string().refine(isValidTimeZone, "Invalid timezone").default(DEFAULT_TIMEZONE),
 });
 
 export const TestCaldavConnectionInputSchema = z.object({
@@ -2,6 +2,7 @@ import { router } from "../../trpc";
 
 import { plannedRecipesProcedures } from "./planned-recipes";
 import { notesProcedures } from "./notes";
+import { nutritionProcedures } from "./nutrition";
 import { calendarSubscriptions } from "./subscriptions";
 
 export { calendarEmitter } from "./emitter";
@@ -10,5 +11,6 @@ export type { CalendarSubscriptionEvents } from "./types";
 export const calendarRouter = router({
   ...plannedRecipesProcedures._def.procedures,
   ...notesProcedures._def.procedures,
+  ...nutritionProcedures._def.procedures,
   ...calendarSubscriptions._def.procedures,
 });
@@ -0,0 +1,28 @@
+import { router } from "../../trpc";
+import { authedProcedure } from "../../middleware";
+
+import { trpcLogger as log } from "@/server/logger";
+import {
+  listPlannedRecipeNutritionByUsersAndRange,
+  getUserNutritionTargets,
+  PlannedRecipeListSchema,
+} from "@/server/db";
+import { summarizePlannedNutrition } from "@/lib/nutrition-summary";
+
+// Procedures
+const nutritionSummary = authedProcedure
+  .input(PlannedRecipeListSchema)
+  .query(async ({ ctx, input }) => {
+    log.debug({ userId: ctx.user.id, input }, "Summarizing planned nutrition");
+
+    const [items, targets] = await Promise.all([
+      listPlannedRecipeNutritionByUsersAndRange(ctx.userIds, input.startISO, input.endISO),
+      getUserNutritionTargets(ctx.user.id),
+    ]);
+
+    return { ...summarizePlannedNutrition(items), targets };
+  });
+
+export const nutritionProcedures = router({
+  nutritionSummary,
+});
@@ -13,12 +13,14 @@ import {
   createPlannedRecipe,
   deletePlannedRecipe,
   updatePlannedRecipeDate,
+  updatePlannedRecipeServings,
   getPlannedRecipeOwnerId,
   getRecipeFull,
   PlannedRecipeListSchema,
   PlannedRecipeCreateSchema,
   PlannedRecipeDeleteSchema,
   PlannedRecipeUpdateDateSchema,
+  PlannedRecipeUpdateServingsSchema,
   getAllergiesForUsers,
   getRecipeTagNames,
 } from "@/server/db";
@@ -103,9 +105,10 @@ const create = authedProcedure.input(PlannedRecipeCreateSchema).mutation(({ ctx,
       return createPlannedRecipe(id, ctx.user.id, recipeId, date, slot).then((plannedRecipe) => ({
         plannedRecipe,
         recipeName: recipe.name,
+        servings: recipe.servings,
       }));
     })
-    .then(async ({ plannedRecipe, recipeName }) => {
+    .then(async ({ plannedRecipe, recipeName, servings }) => {
       const allergyWarnings = await computeAllergyWarningsForRecipe(
         plannedRecipe.recipeId,
         ctx.userIds
@@ -126,6 +129,7 @@ const create = authedProcedure.input(PlannedRecipeCreateSchema).mutation(({ ctx,
         recipeName,
         date: plannedRecipe.date,
         slot: plannedRecipe.slot as Slot,
+        servings,
         userId: ctx.user.id,
       });
 
@@ -224,6 +228,7 @@ const updateDate = authedProcedure
           recipeName: plannedRecipe.recipeName ?? "Recipe",
           newDate: plannedRecipe.date,
           slot: plannedRecipe.slot as Slot,
+          servings: plannedRecipe.servings ?? plannedRecipe.recipeServings ?? null,
           userId: ownerId,
         });
 
@@ -239,9 +244,64 @@ const updateDate = authedProcedure
     return { success: true };
   });
 
+const updateServings = authedProcedure
+  .input(PlannedRecipeUpdateServingsSchema)
+  .mutation(({ ctx, input }) => {
+    const { id, date, servings } = input;
+
+    log.info({ userId: ctx.user.id, id, servings }, "Updating planned recipe servings");
+
+    getPlannedRecipeOwnerId(id)
+      .then(async (ownerId) => {
+        if (!ownerId) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "Planned recipe not found",
+          });
+        }
+
+        await assertHouseholdAccess(ctx.user.id, ownerId);
+        const plannedRecipe = await updatePlannedRecipeServings(id, servings);
+        const allergyWarnings = await computeAllergyWarningsForRecipe(
+          plannedRecipe.recipeId,
+          ctx.userIds
+        );
+
+        calendarEmitter.emitToHousehold(ctx.householdKey, "recipeUpdated", {
+          plannedRecipe: {
+            ...plannedRecipe,
+            allergyWarnings,
+          },
+          oldDate: date,
+        });
+
+        // Servings are part of the CalDAV event description
+        calendarEmitter.emitGlobal("globalRecipeUpdated", {
+          id: plannedRecipe.id,
+          recipeId: plannedRecipe.recipeId,
+          recipeName: plannedRecipe.recipeName ?? "Recipe",
+          newDate: plannedRecipe.date,
+          slot: plannedRecipe.slot as Slot,
+          servings: plannedRecipe.servings ?? plannedRecipe.recipeServings ?? null,
+          userId: ownerId,
+        });
+
+        log.info({ id, userId: ctx.user.id, servings }, "Updated planned recipe servings");
+      })
+      .catch((error) => {
+        log.error({ error, userId: ctx.user.id, id }, "Failed to update planned recipe servings");
+        calendarEmitter.emitToHousehold(ctx.householdKey, "failed", {
+          reason: error.message || "Failed to update planned recipe servings",
+        });
+      });
+
+    return { success: true };
+  });
+
 export const plannedRecipesProcedures = router({
   listRecipes: list,
   createRecipe: create,
   deleteRecipe: deleteProcedure,
   updateRecipeDate: updateDate,
+  updateRecipeServings: updateServings,
 });
@@ -20,6 +20,7 @@ export type CalendarSubscriptionEvents = {
     recipeName: string;
     date: string;
     slot: Slot;
+    servings: number | null;
     userId: string;
   };
   globalRecipeDeleted: { id: string; userId: string };
@@ -29,6 +30,7 @@ export type CalendarSubscriptionEvents = {
     recipeName: string;
     newDate: string;
     slot: Slot;
+    servings: number | null;
     userId: string;
   };
   globalNotePlanned: {
@@ -2,7 +2,12 @@ import { router, publicProcedure } from "../../trpc";
 import { authedProcedure } from "../../middleware";
 
 import { trpcLogger as log } from "@/server/logger";
-import { getUnits, getRecurrenceConfig, getLocaleConfig } from "@/config/server-config-loader";
+import {
+  getUnits,
+  getIngredientDensities,
+  getRecurrenceConfig,
+  getLocaleConfig,
+} from "@/config/server-config-loader";
 import { listAllTagNames } from "@/server/db/repositories/tags";
 import { SERVER_CONFIG } from "@/config/env-config-server";
 
@@ -49,6 +54,15 @@ const units = authedProcedure.query(async ({ ctx }) => {
   return unitsMap;
 });
 
+/**
+ * Get ingredient densities and piece weights for converting between units
+ */
+const ingredientDensities = authedProcedure.query(async ({ ctx }) => {
+  log.debug({ userId: ctx.user.id }, "Getting ingredient densities");
+
+  return await getIngredientDensities();
+});
+
 /**
  * Get recurrence configuration for natural language parsing
  */
@@ -76,6 +90,7 @@ export const configProcedures = router({
   localeConfig,
   tags,
   units,
+  ingredientDensities,
   recurrenceConfig,
   uploadLimits,
 });
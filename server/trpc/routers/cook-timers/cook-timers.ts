@@ -0,0 +1,128 @@
+import { TRPCError } from "@trpc/server";
+
+import { router } from "../../trpc";
+import { authedProcedure } from "../../middleware";
+
+import { cookTimerEmitter } from "./emitter";
+
+import {
+  listCookTimersByUsers,
+  createCookTimer,
+  pauseCookTimer,
+  resumeCookTimer,
+  deleteCookTimersByIds,
+  deleteFinishedCookTimers,
+  getCookTimerOwnerIds,
+  CookTimerStartSchema,
+  CookTimerIdSchema,
+} from "@/server/db";
+import { assertHouseholdAccess } from "@/server/auth/permissions";
+import { trpcLogger as log } from "@/server/logger";
+
+async function assertCookTimerAccess(userId: string, timerId: string): Promise<void> {
+  const ownerIds = await getCookTimerOwnerIds([timerId]);
+  const ownerId = ownerIds.get(timerId);
+
+  if (!ownerId) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Timer not found" });
+  }
+
+  await assertHouseholdAccess(userId, ownerId);
+}
+
+const list = authedProcedure.query(async ({ ctx }) => {
+  log.debug({ userId: ctx.user.id }, "Listing cook timers");
+
+  return await listCookTimersByUsers(ctx.userIds);
+});
+
+const start = authedProcedure.input(CookTimerStartSchema).mutation(({ ctx, input }) => {
+  const id = crypto.randomUUID();
+
+  log.info({ userId: ctx.user.id, recipeId: input.recipeId }, "Starting cook timer");
+
+  deleteFinishedCookTimers(ctx.userIds)
+    .then(async (finishedIds) => {
+      if (finishedIds.length) {
+        cookTimerEmitter.emitToHousehold(ctx.householdKey, "deleted", { timerIds: finishedIds });
+      }
+
+      const timer = await createCookTimer({ id, userId: ctx.user.id, ...input });
+
+      log.info({ userId: ctx.user.id, timerId: id }, "Cook timer started");
+      cookTimerEmitter.emitToHousehold(ctx.householdKey, "created", { timers: [timer] });
+    })
+    .catch((err) => {
+      log.error({ err, userId: ctx.user.id }, "Failed to start cook timer");
+      cookTimerEmitter.emitToHousehold(ctx.householdKey, "failed", {
+        reason: "Failed to start timer",
+      });
+    });
+
+  return id;
+});
+
+const pause = authedProcedure.input(CookTimerIdSchema).mutation(({ ctx, input }) => {
+  log.debug({ userId: ctx.user.id, timerId: input.id }, "Pausing cook timer");
+
+  assertCookTimerAccess(ctx.user.id, input.id)
+    .then(async () => {
+      const timer = await pauseCookTimer(input.id);
+
+      if (timer) cookTimerEmitter.emitToHousehold(ctx.householdKey, "updated", { timers: [timer] });
+    })
+    .catch((err) => {
+      log.error({ err, userId: ctx.user.id, timerId: input.id }, "Failed to pause cook timer");
+      cookTimerEmitter.emitToHousehold(ctx.householdKey, "failed", {
+        reason: err.message || "Failed to pause timer",
+      });
+    });
+
+  return { success: true };
+});
+
+const resume = authedProcedure.input(CookTimerIdSchema).mutation(({ ctx, input }) => {
+  log.debug({ userId: ctx.user.id, timerId: input.id }, "Resuming cook timer");
+
+  assertCookTimerAccess(ctx.user.id, input.id)
+    .then(async () => {
+      const timer = await resumeCookTimer(input.id);
+
+      if (timer) cookTimerEmitter.emitToHousehold(ctx.householdKey, "updated", { timers: [timer] });
+    })
+    .catch((err) => {
+      log.error({ err, userId: ctx.user.id, timerId: input.id }, "Failed to resume cook timer");
+      cookTimerEmitter.emitToHousehold(ctx.householdKey, "failed", {
+        reason: err.message || "Failed to resume timer",
+      });
+    });
+
+  return { success: true };
+});
+
+const remove = authedProcedure.input(CookTimerIdSchema).mutation(({ ctx, input }) => {
+  log.debug({ userId: ctx.user.id, timerId: input.id }, "Removing cook timer");
+
+  assertCookTimerAccess(ctx.user.id, input.id)
+    .then(async () => {
+      await deleteCookTimersByIds([input.id]);
+
+      cookTimerEmitter.emitToHousehold(ctx.householdKey, "deleted", { timerIds: [input.id] });
+    })
+    .catch((err) => {
+      log.error({ err, userId: ctx.user.id, timerId: input.id }, "Failed to remove cook timer");
+      cookTimerEmitter.emitToHousehold(ctx.householdKey, "failed", {
+        reason: err.message || "Failed to remove timer",
+      });
+    });
+
+  return { success: true };
+});
+
+export const cookTimerProcedures = router({
+  list,
+  start,
+  pause,
+  resume,
+  delete: remove,
+});
@@ -0,0 +1,13 @@
+import type { CookTimerSubscriptionEvents } from "./types";
+
+import { createTypedEmitter, TypedEmitter } from "../../emitter";
+
+// Use globalThis to persist across HMR in development
+declare global {
+  var __cookTimerEmitter__: TypedEmitter<CookTimerSubscriptionEvents> | undefined;
+}
+
+export const cookTimerEmitter =
+  globalThis.__cookTimerEmitter__ ||
+  (globalThis.__cookTimerEmitter__ =
+    createTypedEmitter<CookTimerSubscriptionEvents>("cook-timers"));
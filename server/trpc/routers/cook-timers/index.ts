@@ -0,0 +1,12 @@
+import { router } from "../../trpc";
+
+import { cookTimerProcedures } from "./cook-timers";
+import { cookTimerSubscriptions } from "./subscriptions";
+
+export { cookTimerEmitter } from "./emitter";
+export type { CookTimerSubscriptionEvents } from "./types";
+
+export const cookTimersRouter = router({
+  ...cookTimerProcedures._def.procedures,
+  ...cookTimerSubscriptions._def.procedures,
+});
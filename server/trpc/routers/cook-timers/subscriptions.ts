@@ -0,0 +1,116 @@
+import type { CookTimerSubscriptionEvents } from "./types";
+
+import { router } from "../../trpc";
+import { authedProcedure } from "../../middleware";
+import { createSubscriptionIterable } from "../../helpers";
+
+import { cookTimerEmitter } from "./emitter";
+
+import { trpcLogger as log } from "@/server/logger";
+
+const onCreated = authedProcedure.subscription(async function* ({ ctx, signal }) {
+  const eventName = cookTimerEmitter.householdEvent(ctx.householdKey, "created");
+
+  log.trace(
+    { userId: ctx.user.id, householdKey: ctx.householdKey },
+    "Subscribed to cook timer created events"
+  );
+
+  try {
+    for await (const data of createSubscriptionIterable(
+      cookTimerEmitter,
+      ctx.multiplexer,
+      eventName,
+      signal
+    )) {
+      yield data as CookTimerSubscriptionEvents["created"];
+    }
+  } finally {
+    log.trace(
+      { userId: ctx.user.id, householdKey: ctx.householdKey },
+      "Unsubscribed from cook timer created events"
+    );
+  }
+});
+
+const onUpdated = authedProcedure.subscription(async function* ({ ctx, signal }) {
+  const eventName = cookTimerEmitter.householdEvent(ctx.householdKey, "updated");
+
+  log.trace(
+    { userId: ctx.user.id, householdKey: ctx.householdKey },
+    "Subscribed to cook timer updated events"
+  );
+
+  try {
+    for await (const data of createSubscriptionIterable(
+      cookTimerEmitter,
+      ctx.multiplexer,
+      eventName,
+      signal
+    )) {
+      yield data as CookTimerSubscriptionEvents["updated"];
+    }
+  } finally {
+    log.trace(
+      { userId: ctx.user.id, householdKey: ctx.householdKey },
+      "Unsubscribed from cook timer updated events"
+    );
+  }
+});
+
+const onDeleted = authedProcedure.subscription(async function* ({ ctx, signal }) {
+  const eventName = cookTimerEmitter.householdEvent(ctx.householdKey, "deleted");
+
+  log.trace(
+    { userId: ctx.user.id, householdKey: ctx.householdKey },
+    "Subscribed to cook timer deleted events"
+  );
+
+  try {
+    for await (const data of createSubscriptionIterable(
+      cookTimerEmitter,
+      ctx.multiplexer,
+      eventName,
+      signal
+    )) {
+      yield data as CookTimerSubscriptionEvents["deleted"];
+    }
+  } finally {
+    log.trace(
+      { userId: ctx.user.id, householdKey: ctx.householdKey },
+      "Unsubscribed from cook timer deleted events"
+    );
+  }
+});
+
+const onFailed = authedProcedure.subscription(async function* ({ ctx, signal }) {
+  const eventName = cookTimerEmitter.householdEvent(ctx.householdKey, "failed");
+
+  log.trace(
+    { userId: ctx.user.id, householdKey: ctx.householdKey },
+    "Subscribed to cook timer failed events"
+  );
+
+  try {
+    for await (const data of createSubscriptionIterable(
+      cookTimerEmitter,
+      ctx.multiplexer,
+      eventName,
+      signal
+    )) {
+      yield data as CookTimerSubscriptionEvents["failed"];
+    }
+  } finally {
+    log.trace(
+      { userId: ctx.user.id, householdKey: ctx.householdKey },
+      "Unsubscribed from cook timer failed events"
+    );
+  }
+});
+
+export const cookTimerSubscriptions = router({
+  onCreated,
+  onUpdated,
+  onDeleted,
+  onFailed,
+});
@@ -0,0 +1,8 @@
+import type { CookTimerDto } from "@/types";
+
+export type CookTimerSubscriptionEvents = {
+  created: { timers: CookTimerDto[] };
+  updated: { timers: CookTimerDto[] };
+  deleted: { timerIds: string[] };
+  failed: { reason: string };
+};
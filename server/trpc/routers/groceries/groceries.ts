@@ -1,10 +1,11 @@
-import type { GroceryUpdateDto } from "@/types";
+import type { GroceryPlanRangeInput, GroceryUpdateDto } from "@/types";
 
 import { TRPCError } from "@trpc/server";
 import { z } from "zod";
 
 import { router } from "../../trpc";
-import { authedProcedure } from "../../middleware";
+import { authedProcedure, type AuthedProcedureContext } from "../../middleware";
+import { pantryEmitter } from "../pantry/emitter";
 
 import { groceryEmitter } from "./emitter";
 
@@ -25,6 +26,11 @@ import {
   GroceryUpdateInputSchema,
   GroceryToggleSchema,
   GroceryDeleteSchema,
+  GroceryPlanRangeSchema,
+  GroceryAddFromPlanSchema,
+  listPantryItemsByUsers,
+  addItemsToPantry,
+  listPlannedRecipeIngredientsByUsersAndRange,
 } from "@/server/db";
 import { listRecurringGroceriesByUsers } from "@/server/db/repositories/recurring-groceries";
 import {
@@ -35,6 +41,8 @@ import {
 } from "@/server/db/repositories/stores";
 import { assertHouseholdAccess } from "@/server/auth/permissions";
 import { parseIngredientWithDefaults } from "@/lib/helpers";
+import { subtractPantryStock } from "@/lib/pantry";
+import { aggregatePlanIngredients } from "@/lib/plan-groceries";
 import { getUnits } from "@/config/server-config-loader";
 import { trpcLogger as log } from "@/server/logger";
 
@@ -46,6 +54,186 @@ function normalizeGroceryName(name: string | null): string {
   return (name ?? "").toLowerCase().trim();
 }
 
+type GroceryCreateItem = z.output<typeof GroceryCreateSchema>;
+
+/**
+ * Insert groceries for the household. Items matching an open grocery (same name, unit and source)
+ * are merged into it instead. Returns the ids of the created or merged groceries.
+ */
+async function insertGroceries(
+  ctx: AuthedProcedureContext,
+  items: GroceryCreateItem[]
+): Promise<string[]> {
+  // Get existing non-done groceries to check for duplicates
+  const existingGroceries = await listGroceriesByUsers(ctx.userIds, { includeDone: false });
+
+  // Build a map of (normalized name + recipeIngredientId + recurringGroceryId) -> existing grocery
+  // Groceries with different recipeIngredientIds should NOT merge, even if same name/unit
+  // Groceries with recurringGroceryId should NOT merge with manual groceries
+  const existingByKey = new Map<string, (typeof existingGroceries)[0]>();
+
+  for (const grocery of existingGroceries) {
+    const normalizedName = normalizeGroceryName(grocery.name);
+
+    if (normalizedName && !grocery.isDone) {
+      // Key includes recipeIngredientId and recurringGroceryId to prevent unwanted merging
+      const recipeKey = grocery.recipeIngredientId ?? "manual";
+      const recurringKey = grocery.recurringGroceryId ?? "none";
+      const key = `${normalizedName}|${recipeKey}|${recurringKey}`;
+
+      if (!existingByKey.has(key)) {
+        existingByKey.set(key, grocery);
+      }
+    }
+  }
+
+  const groceriesToCreate: Array<{
+    id: string;
+    groceries: {
+      userId: string;
+      name: string | null;
+      unit: string | null;
+      amount: number | null;
+      isDone: boolean;
+      recipeIngredientId: string | null;
+      recurringGroceryId: string | null;
+      storeId: string | null;
+    };
+  }> = [];
+  const groceriesToUpdate: Array<{ id: string; amount: number | null }> = [];
+  const returnIds: string[] = [];
+
+  for (const grocery of items) {
+    const normalizedName = normalizeGroceryName(grocery.name);
+    // Build key including recipeIngredientId and recurringGroceryId to prevent unwanted merging
+    const recipeKey = grocery.recipeIngredientId ?? "manual";
+    const recurringKey = grocery.recurringGroceryId ?? "none";
+    const lookupKey = normalizedName ? `${normalizedName}|${recipeKey}|${recurringKey}` : null;
+    const existing = lookupKey ? existingByKey.get(lookupKey) : null;
+
+    // Check if we should merge: same name, same unit (or both null), same recipeIngredientId
+    const shouldMerge =
+      existing && (existing.unit === grocery.unit || (!existing.unit && !grocery.unit));
+
+    if (shouldMerge && existing) {
+      // Merge quantities
+      const existingAmount = existing.amount ?? 1;
+      const newAmount = grocery.amount ?? 1;
+      const mergedAmount = existingAmount + newAmount;
+
+      groceriesToUpdate.push({ id: existing.id, amount: mergedAmount });
+      returnIds.push(existing.id);
+
+      // Update the map so subsequent duplicates in the same request also merge
+      existingByKey.set(lookupKey!, { ...existing, amount: mergedAmount });
+    } else {
+      // Create new grocery
+      const id = crypto.randomUUID();
+
+      // Use provided storeId, or lookup from household preferences with fuzzy matching
+      let storeId: string | null = grocery.storeId ?? null;
+
+      if (!storeId && grocery.name) {
+        const match = await findBestIngredientStorePreference(
+          ctx.user.id,
+          ctx.userIds,
+          grocery.name
+        );
+
+        storeId = match?.preference.storeId ?? null;
+      }
+
+      groceriesToCreate.push({
+        id,
+        groceries: {
+          userId: ctx.user.id,
+          name: grocery.name,
+          unit: grocery.unit,
+          amount: grocery.amount,
+          isDone: grocery.isDone ?? false,
+          recipeIngredientId: grocery.recipeIngredientId ?? null,
+          recurringGroceryId: grocery.recurringGroceryId ?? null,
+          storeId,
+        },
+      });
+      returnIds.push(id);
+
+      // Add to map for subsequent duplicate checking within this batch
+      if (lookupKey) {
+        existingByKey.set(lookupKey, {
+          id,
+          name: grocery.name,
+          unit: grocery.unit,
+          amount: grocery.amount,
+          isDone: false,
+          recipeIngredientId: grocery.recipeIngredientId ?? null,
+          recurringGroceryId: null,
+          storeId,
+          sortOrder: 0,
+        });
+      }
+    }
+  }
+
+  // Execute updates for merged groceries
+  if (groceriesToUpdate.length > 0) {
+    updateGroceries(groceriesToUpdate)
+      .then(async (updatedGroceries) => {
+        log.info({ userId: ctx.user.id, count: updatedGroceries.length }, "Groceries merged");
+        groceryEmitter.emitToHousehold(ctx.householdKey, "updated", {
+          changedGroceries: updatedGroceries,
+        });
+      })
+      .catch((err) => {
+        log.error({ err, userId: ctx.user.id }, "Failed to merge groceries");
+      });
+  }
+
+  // Execute creates for new groceries
+  if (groceriesToCreate.length > 0) {
+    createGroceries(groceriesToCreate, ctx.userIds)
+      .then((createdGroceries) => {
+        log.info({ userId: ctx.user.id, count: createdGroceries.length }, "Groceries created");
+        groceryEmitter.emitToHousehold(ctx.householdKey, "created", {
+          groceries: createdGroceries,
+        });
+      })
+      .catch((err) => {
+        log.error({ err, userId: ctx.user.id }, "Failed to create groceries");
+        groceryEmitter.emitToHousehold(ctx.householdKey, "failed", {
+          reason: "Failed to create grocery items",
+        });
+      });
+  }
+
+  return returnIds;
+}
+
+/**
+ * Collect the household's planned recipes in a range into merged grocery items,
+ * minus what the pantry already covers.
+ */
+async function buildPlanGroceries(ctx: AuthedProcedureContext, range: GroceryPlanRangeInput) {
+  const [ingredients, pantry, units] = await Promise.all([
+    listPlannedRecipeIngredientsByUsersAndRange(ctx.userIds, range.startDate, range.endDate, {
+      userId: ctx.user.id,
+      householdUserIds: ctx.householdUserIds,
+      isServerAdmin: ctx.isServerAdmin,
+    }),
+    listPantryItemsByUsers(ctx.userIds),
+    getUnits(),
+  ]);
+
+  const aggregated = aggregatePlanIngredients(ingredients, units);
+  const { remaining, covered } = subtractPantryStock(aggregated, pantry, units);
+
+  return {
+    items: remaining,
+    covered,
+    plannedRecipeCount: new Set(ingredients.map((i) => i.plannedRecipeId)).size,
+  };
+}
+
 const list = authedProcedure.query(async ({ ctx }) => {
   log.debug({ userId: ctx.user.id }, "Listing groceries");
 
@@ -87,149 +275,61 @@ const create = authedProcedure
   .mutation(async ({ ctx, input }) => {
     log.info({ userId: ctx.user.id, count: input.length }, "Creating groceries");
 
-    // Get existing non-done groceries to check for duplicates
-    const existingGroceries = await listGroceriesByUsers(ctx.userIds, { includeDone: false });
-
-    // Build a map of (normalized name + recipeIngredientId + recurringGroceryId) -> existing grocery
-    // Groceries with different recipeIngredientIds should NOT merge, even if same name/unit
-    // Groceries with recurringGroceryId should NOT merge with manual groceries
-    const existingByKey = new Map<string, (typeof existingGroceries)[0]>();
+    // Recipe ingredients are reduced by what the household pantry already covers
+    let items = input;
+    const recipeItems = input.filter((g) => g.recipeIngredientId);
 
-    for (const grocery of existingGroceries) {
-      const normalizedName = normalizeGroceryName(grocery.name);
+    if (recipeItems.length > 0) {
+      const [pantry, units] = await Promise.all([listPantryItemsByUsers(ctx.userIds), getUnits()]);
 
-      if (normalizedName && !grocery.isDone) {
-        // Key includes recipeIngredientId and recurringGroceryId to prevent unwanted merging
-        const recipeKey = grocery.recipeIngredientId ?? "manual";
-        const recurringKey = grocery.recurringGroceryId ?? "none";
-        const key = `${normalizedName}|${recipeKey}|${recurringKey}`;
+      if (pantry.length > 0) {
+        const { remaining, covered } = subtractPantryStock(recipeItems, pantry, units);
 
-        if (!existingByKey.has(key)) {
-          existingByKey.set(key, grocery);
-        }
+        items = [...input.filter((g) => !g.recipeIngredientId), ...remaining];
+        log.debug(
+          { userId: ctx.user.id, coveredCount: covered.length },
+          "Skipped groceries covered by pantry"
+        );
       }
     }
 
-    const groceriesToCreate: Array<{
-      id: string;
-      groceries: {
-        userId: string;
-        name: string | null;
-        unit: string | null;
-        amount: number | null;
-        isDone: boolean;
-        recipeIngredientId: string | null;
-        recurringGroceryId: string | null;
-        storeId: string | null;
-      };
-    }> = [];
-    const groceriesToUpdate: Array<{ id: string; amount: number | null }> = [];
-    const returnIds: string[] = [];
-
-    for (const grocery of input) {
-      const normalizedName = normalizeGroceryName(grocery.name);
-      // Build key including recipeIngredientId and recurringGroceryId to prevent unwanted merging
-      const recipeKey = grocery.recipeIngredientId ?? "manual";
-      const recurringKey = grocery.recurringGroceryId ?? "none";
-      const lookupKey = normalizedName ? `${normalizedName}|${recipeKey}|${recurringKey}` : null;
-      const existing = lookupKey ? existingByKey.get(lookupKey) : null;
-
-      // Check if we should merge: same name, same unit (or both null), same recipeIngredientId
-      const shouldMerge =
-        existing && (existing.unit === grocery.unit || (!existing.unit && !grocery.unit));
-
-      if (shouldMerge && existing) {
-        // Merge quantities
-        const existingAmount = existing.amount ?? 1;
-        const newAmount = grocery.amount ?? 1;
-        const mergedAmount = existingAmount + newAmount;
-
-        groceriesToUpdate.push({ id: existing.id, amount: mergedAmount });
-        returnIds.push(existing.id);
-
-        // Update the map so subsequent duplicates in the same request also merge
-        existingByKey.set(lookupKey!, { ...existing, amount: mergedAmount });
-      } else {
-        // Create new grocery
-        const id = crypto.randomUUID();
-
-        // Use provided storeId, or lookup from household preferences with fuzzy matching
-        let storeId: string | null = grocery.storeId ?? null;
-
-        if (!storeId && grocery.name) {
-          const match = await findBestIngredientStorePreference(
-            ctx.user.id,
-            ctx.userIds,
-            grocery.name
-          );
-
-          storeId = match?.preference.storeId ?? null;
-        }
+    return insertGroceries(ctx, items);
+  });
 
-        groceriesToCreate.push({
-          id,
-          groceries: {
-            userId: ctx.user.id,
-            name: grocery.name,
-            unit: grocery.unit,
-            amount: grocery.amount,
-            isDone: grocery.isDone ?? false,
-            recipeIngredientId: grocery.recipeIngredientId ?? null,
-            recurringGroceryId: grocery.recurringGroceryId ?? null,
-            storeId,
-          },
-        });
-        returnIds.push(id);
-
-        // Add to map for subsequent duplicate checking within this batch
-        if (lookupKey) {
-          existingByKey.set(lookupKey, {
-            id,
-            name: grocery.name,
-            unit: grocery.unit,
-            amount: grocery.amount,
-            isDone: false,
-            recipeIngredientId: grocery.recipeIngredientId ?? null,
-            recurringGroceryId: null,
-            storeId,
-            sortOrder: 0,
-          });
-        }
-      }
-    }
+const previewFromPlan = authedProcedure
+  .input(GroceryPlanRangeSchema)
+  .query(async ({ ctx, input }) => {
+    log.debug({ userId: ctx.user.id, ...input }, "Previewing groceries from meal plan");
 
-    // Execute updates for merged groceries
-    if (groceriesToUpdate.length > 0) {
-      updateGroceries(groceriesToUpdate)
-        .then(async (updatedGroceries) => {
-          log.info({ userId: ctx.user.id, count: updatedGroceries.length }, "Groceries merged");
-          groceryEmitter.emitToHousehold(ctx.householdKey, "updated", {
-            changedGroceries: updatedGroceries,
-          });
-        })
-        .catch((err) => {
-          log.error({ err, userId: ctx.user.id }, "Failed to merge groceries");
-        });
-    }
+    return buildPlanGroceries(ctx, input);
+  });
 
-    // Execute creates for new groceries
-    if (groceriesToCreate.length > 0) {
-      createGroceries(groceriesToCreate, ctx.userIds)
-        .then((createdGroceries) => {
-          log.info({ userId: ctx.user.id, count: createdGroceries.length }, "Groceries created");
-          groceryEmitter.emitToHousehold(ctx.householdKey, "created", {
-            groceries: createdGroceries,
-          });
-        })
-        .catch((err) => {
-          log.error({ err, userId: ctx.user.id }, "Failed to create groceries");
-          groceryEmitter.emitToHousehold(ctx.householdKey, "failed", {
-            reason: "Failed to create grocery items",
-          });
-        });
-    }
+const addFromPlan = authedProcedure
+  .input(GroceryAddFromPlanSchema)
+  .mutation(async ({ ctx, input }) => {
+    const { items } = await buildPlanGroceries(ctx, input);
+    const excluded = new Set(input.excludeKeys);
+    const toAdd = items
+      .filter((item) => !excluded.has(item.key))
+      .map((item) => ({
+        name: item.name,
+        amount: item.amount,
+        unit: item.unit,
+        isDone: false,
+        recipeIngredientId: item.recipeIngredientId,
+      }));
 
-    return returnIds;
+    log.info(
+      {
+        userId: ctx.user.id,
+        startDate: input.startDate,
+        endDate: input.endDate,
+        count: toAdd.length,
+      },
+      "Adding groceries from meal plan"
+    );
+
+    return insertGroceries(ctx, toAdd);
   });
 
 const update = authedProcedure.input(GroceryUpdateInputSchema).mutation(({ ctx, input }) => {
@@ -287,9 +387,12 @@ const update = authedProcedure.input(GroceryUpdateInputSchema).mutation(({ ctx,
 });
 
 const toggle = authedProcedure.input(GroceryToggleSchema).mutation(({ ctx, input }) => {
-  const { groceryIds, isDone } = input;
+  const { groceryIds, isDone, moveToPantry } = input;
 
-  log.debug({ userId: ctx.user.id, count: groceryIds.length, isDone }, "Toggling groceries");
+  log.debug(
+    { userId: ctx.user.id, count: groceryIds.length, isDone, moveToPantry },
+    "Toggling groceries"
+  );
 
   getGroceryOwnerIds(groceryIds)
     .then(async (ownerIds) => {
@@ -304,7 +407,7 @@ const toggle = authedProcedure.input(GroceryToggleSchema).mutation(({ ctx, input
         await assertHouseholdAccess(ctx.user.id, ownerId);
       }
 
-      const groceries = await getGroceriesByIds(groceryIds);
+      let groceries = await getGroceriesByIds(groceryIds);
 
       if (groceries.length === 0) {
         throw new TRPCError({
@@ -313,6 +416,37 @@ const toggle = authedProcedure.input(GroceryToggleSchema).mutation(({ ctx, input
         });
       }
 
+      // Recurring groceries stay on the list so they can come back
+      const toMove =
+        isDone && moveToPantry ? groceries.filter((g) => g.name && !g.recurringGroceryId) : [];
+
+      if (toMove.length > 0) {
+        const movedIds = toMove.map((g) => g.id);
+        const units = await getUnits();
+        const { created, updated } = await addItemsToPantry(
+          ctx.user.id,
+          ctx.userIds,
+          toMove,
+          units
+        );
+
+        await deleteGroceryByIds(movedIds);
+
+        log.info({ userId: ctx.user.id, count: movedIds.length }, "Groceries moved to pantry");
+        groceryEmitter.emitToHousehold(ctx.householdKey, "deleted", { groceryIds: movedIds });
+
+        if (created.length > 0) {
+          pantryEmitter.emitToHousehold(ctx.householdKey, "created", { items: created });
+        }
+        if (updated.length > 0) {
+          pantryEmitter.emitToHousehold(ctx.householdKey, "updated", { items: updated });
+        }
+
+        groceries = groceries.filter((g) => !movedIds.includes(g.id));
+
+        if (groceries.length === 0) return;
+      }
+
       const updatedGroceries = groceries.map((grocery) => ({
         ...grocery,
         isDone,
@@ -611,6 +745,8 @@ const deleteDone = authedProcedure
 export const groceriesProcedures = router({
   list,
   create,
+  previewFromPlan,
+  addFromPlan,
   update,
   toggle,
   delete: deleteGroceries,
@@ -0,0 +1,12 @@
+import type { MealSlotsSubscriptionEvents } from "./types";
+
+import { createTypedEmitter, TypedEmitter } from "../../emitter";
+
+// Use globalThis to persist across HMR in development
+declare global {
+  var __mealSlotsEmitter__: TypedEmitter<MealSlotsSubscriptionEvents> | undefined;
+}
+
+export const mealSlotsEmitter =
+  globalThis.__mealSlotsEmitter__ ||
+  (globalThis.__mealSlotsEmitter__ = createTypedEmitter<MealSlotsSubscriptionEvents>("meal-slots"));
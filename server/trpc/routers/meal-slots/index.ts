@@ -0,0 +1,12 @@
+import { router } from "../../trpc";
+
+import { mealSlotsProcedures } from "./meal-slots";
+import { mealSlotsSubscriptions } from "./subscriptions";
+
+export { mealSlotsEmitter } from "./emitter";
+export type { MealSlotsSubscriptionEvents } from "./types";
+
+export const mealSlotsRouter = router({
+  ...mealSlotsProcedures._def.procedures,
+  ...mealSlotsSubscriptions._def.procedures,
+});
@@ -0,0 +1,105 @@
+import type { AuthedProcedureContext } from "../../middleware";
+import type { MealSlotDto } from "@/types";
+import type { MealSlotOwner } from "@/server/db";
+
+import { TRPCError } from "@trpc/server";
+
+import { router } from "../../trpc";
+import { authedProcedure } from "../../middleware";
+
+import { mealSlotsEmitter } from "./emitter";
+
+import {
+  listMealSlots,
+  createMealSlot,
+  updateMealSlot,
+  deleteMealSlot,
+  reorderMealSlots,
+  countPlannedItemsInSlot,
+  MealSlotCreateSchema,
+  MealSlotUpdateSchema,
+  MealSlotDeleteSchema,
+  MealSlotReorderSchema,
+} from "@/server/db";
+import { trpcLogger as log } from "@/server/logger";
+
+function getOwner(ctx: AuthedProcedureContext): MealSlotOwner {
+  return { householdId: ctx.household?.id ?? null, userId: ctx.user.id };
+}
+
+/** Run a change in the background and push the new slot list to the household */
+function applyChange(
+  ctx: AuthedProcedureContext,
+  action: string,
+  change: () => Promise<MealSlotDto[]>
+): void {
+  change()
+    .then((slots) => {
+      log.info({ userId: ctx.user.id, action }, "Meal slots changed");
+      mealSlotsEmitter.emitToHousehold(ctx.householdKey, "updated", { slots });
+    })
+    .catch((err) => {
+      log.error({ err, userId: ctx.user.id, action }, "Failed to change meal slots");
+      mealSlotsEmitter.emitToHousehold(ctx.householdKey, "failed", {
+        reason: err.message || "Failed to change meal slots",
+      });
+    });
+}
+
+const list = authedProcedure.query(async ({ ctx }) => {
+  log.debug({ userId: ctx.user.id }, "Listing meal slots");
+
+  return listMealSlots(getOwner(ctx));
+});
+
+const create = authedProcedure.input(MealSlotCreateSchema).mutation(({ ctx, input }) => {
+  log.info({ userId: ctx.user.id, name: input.name }, "Creating meal slot");
+
+  applyChange(ctx, "create", () => createMealSlot(getOwner(ctx), input));
+
+  return { success: true };
+});
+
+const update = authedProcedure.input(MealSlotUpdateSchema).mutation(({ ctx, input }) => {
+  log.info({ userId: ctx.user.id, key: input.key }, "Updating meal slot");
+
+  applyChange(ctx, "update", () => updateMealSlot(getOwner(ctx), input));
+
+  return { success: true };
+});
+
+const remove = authedProcedure.input(MealSlotDeleteSchema).mutation(({ ctx, input }) => {
+  log.info({ userId: ctx.user.id, key: input.key }, "Deleting meal slot");
+
+  applyChange(ctx, "delete", async () => {
+    // Planned items would lose their slot, so they have to be moved first
+    const inUse = await countPlannedItemsInSlot(ctx.userIds, input.key);
+
+    if (inUse > 0) {
+      throw new TRPCError({
+        code: "CONFLICT",
+        message: "This meal slot still has planned items",
+      });
+    }
+
+    return deleteMealSlot(getOwner(ctx), input.key);
+  });
+
+  return { success: true };
+});
+
+const reorder = authedProcedure.input(MealSlotReorderSchema).mutation(({ ctx, input }) => {
+  log.debug({ userId: ctx.user.id }, "Reordering meal slots");
+
+  applyChange(ctx, "reorder", () => reorderMealSlots(getOwner(ctx), input.keys));
+
+  return { success: true };
+});
+
+export const mealSlotsProcedures = router({
+  list,
+  create,
+  update,
+  delete: remove,
+  reorder,
+});
@@ -0,0 +1,64 @@
+import type { MealSlotsSubscriptionEvents } from "./types";
+
+import { router } from "../../trpc";
+import { authedProcedure } from "../../middleware";
+import { createSubscriptionIterable } from "../../helpers";
+
+import { mealSlotsEmitter } from "./emitter";
+
+import { trpcLogger as log } from "@/server/logger";
+
+const onUpdated = authedProcedure.subscription(async function* ({ ctx, signal }) {
+  const eventName = mealSlotsEmitter.householdEvent(ctx.householdKey, "updated");
+
+  log.trace(
+    { userId: ctx.user.id, householdKey: ctx.householdKey },
+    "Subscribed to meal slot updated events"
+  );
+
+  try {
+    for await (const data of createSubscriptionIterable(
+      mealSlotsEmitter,
+      ctx.multiplexer,
+      eventName,
+      signal
+    )) {
+      yield data as MealSlotsSubscriptionEvents["updated"];
+    }
+  } finally {
+    log.trace(
+      { userId: ctx.user.id, householdKey: ctx.householdKey },
+      "Unsubscribed from meal slot updated events"
+    );
+  }
+});
+
+const onFailed = authedProcedure.subscription(async function* ({ ctx, signal }) {
+  const eventName = mealSlotsEmitter.householdEvent(ctx.householdKey, "failed");
+
+  log.trace(
+    { userId: ctx.user.id, householdKey: ctx.householdKey },
+    "Subscribed to meal slot failed events"
+  );
+
+  try {
+    for await (const data of createSubscriptionIterable(
+      mealSlotsEmitter,
+      ctx.multiplexer,
+      eventName,
+      signal
+    )) {
+      yield data as MealSlotsSubscriptionEvents["failed"];
+    }
+  } finally {
+    log.trace(
+      { userId: ctx.user.id, householdKey: ctx.householdKey },
+      "Unsubscribed from meal slot failed events"
+    );
+  }
+});
+
+export const mealSlotsSubscriptions = router({
+  onUpdated,
+  onFailed,
+});
@@ -0,0 +1,6 @@
+import type { MealSlotDto } from "@/types";
+
+export type MealSlotsSubscriptionEvents = {
+  updated: { slots: MealSlotDto[] };
+  failed: { reason: string };
+};
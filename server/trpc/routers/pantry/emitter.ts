@@ -0,0 +1,12 @@
+import type { PantrySubscriptionEvents } from "./types";
+
+import { createTypedEmitter, TypedEmitter } from "../../emitter";
+
+// Use globalThis to persist across HMR in development
+declare global {
+  var __pantryEmitter__: TypedEmitter<PantrySubscriptionEvents> | undefined;
+}
+
+export const pantryEmitter =
+  globalThis.__pantryEmitter__ ||
+  (globalThis.__pantryEmitter__ = createTypedEmitter<PantrySubscriptionEvents>("pantry"));
@@ -0,0 +1,12 @@
+import { router } from "../../trpc";
+
+import { pantryProcedures } from "./pantry";
+import { pantrySubscriptions } from "./subscriptions";
+
+export { pantryEmitter } from "./emitter";
+export type { PantrySubscriptionEvents } from "./types";
+
+export const pantryRouter = router({
+  ...pantryProcedures._def.procedures,
+  ...pantrySubscriptions._def.procedures,
+});
@@ -0,0 +1,110 @@
+import { TRPCError } from "@trpc/server";
+
+import { router } from "../../trpc";
+import { authedProcedure } from "../../middleware";
+
+import { pantryEmitter } from "./emitter";
+
+import {
+  listPantryItemsByUsers,
+  createPantryItems,
+  updatePantryItems,
+  deletePantryItemsByIds,
+  getPantryItemOwnerIds,
+  PantryItemCreateSchema,
+  PantryItemUpdateInputSchema,
+  PantryItemDeleteSchema,
+} from "@/server/db";
+import { assertHouseholdAccess } from "@/server/auth/permissions";
+import { trpcLogger as log } from "@/server/logger";
+
+async function assertPantryItemsAccess(userId: string, itemIds: string[]): Promise<void> {
+  const ownerIds = await getPantryItemOwnerIds(itemIds);
+
+  if (ownerIds.size !== itemIds.length) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Pantry item not found" });
+  }
+
+  for (const ownerId of new Set(ownerIds.values())) {
+    await assertHouseholdAccess(userId, ownerId);
+  }
+}
+
+const list = authedProcedure.query(async ({ ctx }) => {
+  log.debug({ userId: ctx.user.id }, "Listing pantry items");
+
+  const items = await listPantryItemsByUsers(ctx.userIds);
+
+  log.debug({ userId: ctx.user.id, itemCount: items.length }, "Pantry items listed");
+
+  return items;
+});
+
+const create = authedProcedure.input(PantryItemCreateSchema).mutation(({ ctx, input }) => {
+  const id = crypto.randomUUID();
+
+  log.info({ userId: ctx.user.id, name: input.name }, "Creating pantry item");
+
+  createPantryItems([{ id, userId: ctx.user.id, ...input }])
+    .then((items) => {
+      log.info({ userId: ctx.user.id, itemId: id }, "Pantry item created");
+      pantryEmitter.emitToHousehold(ctx.householdKey, "created", { items });
+    })
+    .catch((err) => {
+      log.error({ err, userId: ctx.user.id }, "Failed to create pantry item");
+      pantryEmitter.emitToHousehold(ctx.householdKey, "failed", {
+        reason: "Failed to create pantry item",
+      });
+    });
+
+  return id;
+});
+
+const update = authedProcedure.input(PantryItemUpdateInputSchema).mutation(({ ctx, input }) => {
+  log.debug({ userId: ctx.user.id, itemId: input.id }, "Updating pantry item");
+
+  assertPantryItemsAccess(ctx.user.id, [input.id])
+    .then(async () => {
+      const items = await updatePantryItems([input]);
+
+      log.debug({ userId: ctx.user.id, itemId: input.id }, "Pantry item updated");
+      pantryEmitter.emitToHousehold(ctx.householdKey, "updated", { items });
+    })
+    .catch((err) => {
+      log.error({ err, userId: ctx.user.id, itemId: input.id }, "Failed to update pantry item");
+      pantryEmitter.emitToHousehold(ctx.householdKey, "failed", {
+        reason: err.message || "Failed to update pantry item",
+      });
+    });
+
+  return { success: true };
+});
+
+const remove = authedProcedure.input(PantryItemDeleteSchema).mutation(({ ctx, input }) => {
+  const { itemIds } = input;
+
+  log.info({ userId: ctx.user.id, count: itemIds.length }, "Deleting pantry items");
+
+  assertPantryItemsAccess(ctx.user.id, itemIds)
+    .then(async () => {
+      await deletePantryItemsByIds(itemIds);
+
+      log.info({ userId: ctx.user.id, count: itemIds.length }, "Pantry items deleted");
+      pantryEmitter.emitToHousehold(ctx.householdKey, "deleted", { itemIds });
+    })
+    .catch((err) => {
+      log.error({ err, userId: ctx.user.id, itemIds }, "Failed to delete pantry items");
+      pantryEmitter.emitToHousehold(ctx.householdKey, "failed", {
+        reason: err.message || "Failed to delete pantry items",
+      });
+    });
+
+  return { success: true };
+});
+
+export const pantryProcedures = router({
+  list,
+  create,
+  update,
+  delete: remove,
+});
@@ -0,0 +1,116 @@
+import type { PantrySubscriptionEvents } from "./types";
+
+import { router } from "../../trpc";
+import { authedProcedure } from "../../middleware";
+import { createSubscriptionIterable } from "../../helpers";
+
+import { pantryEmitter } from "./emitter";
+
+import { trpcLogger as log } from "@/server/logger";
+
+const onCreated = authedProcedure.subscription(async function* ({ ctx, signal }) {
+  const eventName = pantryEmitter.householdEvent(ctx.householdKey, "created");
+
+  log.trace(
+    { userId: ctx.user.id, householdKey: ctx.householdKey },
+    "Subscribed to pantry created events"
+  );
+
+  try {
+    for await (const data of createSubscriptionIterable(
+      pantryEmitter,
+      ctx.multiplexer,
+      eventName,
+      signal
+    )) {
+      yield data as PantrySubscriptionEvents["created"];
+    }
+  } finally {
+    log.trace(
+      { userId: ctx.user.id, householdKey: ctx.householdKey },
+      "Unsubscribed from pantry created events"
+    );
+  }
+});
+
+const onUpdated = authedProcedure.subscription(async function* ({ ctx, signal }) {
+  const eventName = pantryEmitter.householdEvent(ctx.householdKey, "updated");
+
+  log.trace(
+    { userId: ctx.user.id, householdKey: ctx.householdKey },
+    "Subscribed to pantry updated events"
+  );
+
+  try {
+    for await (const data of createSubscriptionIterable(
+      pantryEmitter,
+      ctx.multiplexer,
+      eventName,
+      signal
+    )) {
+      yield data as PantrySubscriptionEvents["updated"];
+    }
+  } finally {
+    log.trace(
+      { userId: ctx.user.id, householdKey: ctx.householdKey },
+      "Unsubscribed from pantry updated events"
+    );
+  }
+});
+
+const onDeleted = authedProcedure.subscription(async function* ({ ctx, signal }) {
+  const eventName = pantryEmitter.householdEvent(ctx.householdKey, "deleted");
+
+  log.trace(
+    { userId: ctx.user.id, householdKey: ctx.householdKey },
+    "Subscribed to pantry deleted events"
+  );
+
+  try {
+    for await (const data of createSubscriptionIterable(
+      pantryEmitter,
+      ctx.multiplexer,
+      eventName,
+      signal
+    )) {
+      yield data as PantrySubscriptionEvents["deleted"];
+    }
+  } finally {
+    log.trace(
+      { userId: ctx.user.id, householdKey: ctx.householdKey },
+      "Unsubscribed from pantry deleted events"
+    );
+  }
+});
+
+const onFailed = authedProcedure.subscription(async function* ({ ctx, signal }) {
+  const eventName = pantryEmitter.householdEvent(ctx.householdKey, "failed");
+
+  log.trace(
+    { userId: ctx.user.id, householdKey: ctx.householdKey },
+    "Subscribed to pantry failed events"
+  );
+
+  try {
+    for await (const data of createSubscriptionIterable(
+      pantryEmitter,
+      ctx.multiplexer,
+      eventName,
+      signal
+    )) {
+      yield data as PantrySubscriptionEvents["failed"];
+    }
+  } finally {
+    log.trace(
+      { userId: ctx.user.id, householdKey: ctx.householdKey },
+      "Unsubscribed from pantry failed events"
+    );
+  }
+});
+
+export const pantrySubscriptions = router({
+  onCreated,
+  onUpdated,
+  onDeleted,
+  onFailed,
+});
@@ -0,0 +1,8 @@
+import type { PantryItemDto } from "@/types";
+
+export type PantrySubscriptionEvents = {
+  created: { items: PantryItemDto[] };
+  updated: { items: PantryItemDto[] };
+  deleted: { itemIds: string[] };
+  failed: { reason: string };
+};
@@ -5,6 +5,9 @@ import { recipesSubscriptions } from "./subscriptions";
 import { imagesProcedures } from "./images";
 import { videosProcedures } from "./videos";
 import { pendingProcedures } from "./pending";
+import { sharesProcedures } from "./shares";
+import { revisionsProcedures } from "./revisions";
+import { trashProcedures } from "./trash";
 
 export { recipeEmitter } from "./emitter";
 export type { RecipeSubscriptionEvents } from "./types";
@@ -15,4 +18,7 @@ export const recipesRouter = router({
   ...imagesProcedures._def.procedures,
   ...videosProcedures._def.procedures,
   ...pendingProcedures._def.procedures,
+  ...sharesProcedures._def.procedures,
+  ...revisionsProcedures._def.procedures,
+  ...trashProcedures._def.procedures,
 });
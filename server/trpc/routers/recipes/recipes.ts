@@ -2,7 +2,7 @@ import { TRPCError } from "@trpc/server";
 import { z } from "zod";
 
 import { router } from "../../trpc";
-import { authedProcedure } from "../../middleware";
+import { authedProcedure, rateLimitedProcedure } from "../../middleware";
 import { emitByPolicy } from "../../helpers";
 
 import { recipeEmitter } from "./emitter";
@@ -12,13 +12,15 @@ import {
   listRecipes,
   getRecipeFull,
   getRecipeOwnerId,
+  getExpandedRecipeIngredients,
   createRecipeWithRefs,
   updateRecipeWithRefs,
-  deleteRecipeById,
+  trashRecipeById,
   dashboardRecipe,
   setActiveSystemForRecipe,
   addStepsAndIngredientsToRecipeByInput,
   searchRecipesByName,
+  withRecipeRevision,
   FullRecipeInsertSchema,
   RecipeListInputSchema,
   RecipeGetInputSchema,
@@ -35,6 +37,11 @@ import {
 } from "@/server/auth/permissions";
 import { getRecipePermissionPolicy } from "@/config/server-config-loader";
 import { getQueues } from "@/server/queue/registry";
+import { convertRecipeData } from "@/server/unit-conversion";
+import {
+  calculateRecipeNutrition,
+  isFoodCompositionAvailable,
+} from "@/server/nutrition-calculator";
 import {
   addImportJob,
   addImageImportJob,
@@ -124,7 +131,17 @@ async function assertRecipeAccess(
 
 // Procedures
 const list = authedProcedure.input(RecipeListInputSchema).query(async ({ ctx, input }) => {
-  const { cursor, limit, search, searchFields, tags, filterMode, sortMode, minRating } = input;
+  const {
+    cursor,
+    limit,
+    search,
+    searchFields,
+    tags,
+    filterMode,
+    sortMode,
+    minRating,
+    maxNutrition,
+  } = input;
 
   log.debug({ userId: ctx.user.id, cursor, limit }, "Listing recipes");
 
@@ -143,7 +160,8 @@ const list = authedProcedure.input(RecipeListInputSchema).query(async ({ ctx, in
     tags,
     filterMode as FilterMode,
     sortMode as SortOrder,
-    minRating
+    minRating,
+    maxNutrition
   );
 
   log.debug({ count: result.recipes.length, total: result.total }, "Listed recipes");
@@ -184,6 +202,23 @@ const get = authedProcedure.input(RecipeGetInputSchema).query(async ({ ctx, inpu
   return recipe;
 });
 
+/**
+ * Ingredients to shop for a recipe, with linked sub-recipes expanded into their ingredients
+ */
+const groceryIngredients = authedProcedure
+  .input(RecipeGetInputSchema)
+  .query(async ({ ctx, input }) => {
+    await assertRecipeAccess(ctx, input.id, "view");
+
+    return (
+      (await getExpandedRecipeIngredients(input.id, {
+        userId: ctx.user.id,
+        householdUserIds: ctx.householdUserIds,
+        isServerAdmin: ctx.isServerAdmin,
+      })) ?? []
+    );
+  });
+
 const create = authedProcedure.input(FullRecipeInsertSchema).mutation(({ ctx, input }) => {
   const recipeId = input.id ?? crypto.randomUUID();
 
@@ -263,11 +298,12 @@ const deleteProcedure = authedProcedure
 
     log.info({ userId: ctx.user.id, recipeId: id }, "Deleting recipe");
 
+    // Deleted recipes go to the trash first and can be restored until the scheduler purges them
     assertRecipeAccess(ctx, id, "delete")
       .then(async () => {
-        await deleteRecipeById(id);
+        await trashRecipeById(id, ctx.user.id);
 
-        log.info({ userId: ctx.user.id, recipeId: id }, "Recipe deleted");
+        log.info({ userId: ctx.user.id, recipeId: id }, "Recipe moved to trash");
         const policy = await getRecipePermissionPolicy();
 
         emitByPolicy(
@@ -283,7 +319,7 @@ const deleteProcedure = authedProcedure
     return { success: true };
   });
 
-const importFromUrlProcedure = authedProcedure
+const importFromUrlProcedure = rateLimitedProcedure("urlImport")
   .input(RecipeImportInputSchema.extend({ forceAI: z.boolean().optional() }))
   .mutation(async ({ ctx, input }) => {
     const { url, forceAI } = input;
@@ -318,24 +354,14 @@ const reserveId = authedProcedure.query(() => {
   return { recipeId };
 });
 
-const convertMeasurements = authedProcedure
+const convertMeasurements = rateLimitedProcedure("measurementConversion")
   .input(RecipeConvertInputSchema)
   .mutation(({ ctx, input }) => {
     const { recipeId, targetSystem } = input;
 
     log.info({ userId: ctx.user.id, recipeId, targetSystem }, "Converting recipe measurements");
 
-    checkAIEnabled()
-      .then((aiEnabled) => {
-        if (!aiEnabled) {
-          throw new TRPCError({
-            code: "PRECONDITION_FAILED",
-            message: "AI features are disabled",
-          });
-        }
-
-        return getRecipeFull(recipeId);
-      })
+    getRecipeFull(recipeId)
       .then((recipe) => {
         if (!recipe) {
           throw new TRPCError({
@@ -396,19 +422,10 @@ const convertMeasurements = authedProcedure
       .then((recipe) => {
         if (recipe === null) return null;
 
-        // Convert with AI
-        return import("@/server/ai/unit-converter")
-          .then(({ convertRecipeDataWithAI }) => convertRecipeDataWithAI(recipe, targetSystem))
-          .then((result) => {
-            if (!result.success) {
-              throw new TRPCError({
-                code: "INTERNAL_SERVER_ERROR",
-                message: result.error ?? "Conversion failed, please try again.",
-              });
-            }
-
-            return { recipe, converted: result.data };
-          });
+        return convertRecipeData(recipe, targetSystem, ctx.user.id).then((converted) => ({
+          recipe,
+          converted,
+        }));
       })
       .then((result) => {
         if (result === null) return;
@@ -427,8 +444,11 @@ const convertMeasurements = authedProcedure
           systemUsed: targetSystem,
         }));
 
-        return addStepsAndIngredientsToRecipeByInput(steps, ingredients)
-          .then(() => setActiveSystemForRecipe(recipe.id, targetSystem))
+        return withRecipeRevision(recipe.id, ctx.user.id, "convert", () =>
+          addStepsAndIngredientsToRecipeByInput(steps, ingredients, ctx.user.id).then(() =>
+            setActiveSystemForRecipe(recipe.id, targetSystem)
+          )
+        )
           .then(() => getRecipeFull(recipe.id))
           .then(async (updatedRecipe) => {
             if (updatedRecipe) {
@@ -466,7 +486,7 @@ const autocomplete = authedProcedure
     return results;
   });
 
-const importFromImagesProcedure = authedProcedure
+const importFromImagesProcedure = rateLimitedProcedure("imageImport")
   .input(z.instanceof(FormData))
   .mutation(async ({ ctx, input }) => {
     const files: Array<{ data: string; mimeType: string; filename: string }> = [];
@@ -518,7 +538,7 @@ const importFromImagesProcedure = authedProcedure
     return recipeId;
   });
 
-const importFromPasteProcedure = authedProcedure
+const importFromPasteProcedure = rateLimitedProcedure("pasteImport")
   .input(
     z.object({
       text: z.string().min(1).max(MAX_RECIPE_PASTE_CHARS),
@@ -553,19 +573,22 @@ const importFromPasteProcedure = authedProcedure
     return recipeId;
   });
 
-const estimateNutrition = authedProcedure
+const estimateNutrition = rateLimitedProcedure("nutritionEstimate")
   .input(z.object({ recipeId: z.uuid() }))
   .mutation(async ({ ctx, input }) => {
     const { recipeId } = input;
 
     log.info({ userId: ctx.user.id, recipeId }, "Queueing nutrition estimation for recipe");
 
-    const aiEnabled = await checkAIEnabled();
+    const [aiEnabled, foodTableAvailable] = await Promise.all([
+      checkAIEnabled(),
+      isFoodCompositionAvailable(),
+    ]);
 
-    if (!aiEnabled) {
+    if (!aiEnabled && !foodTableAvailable) {
       throw new TRPCError({
         code: "PRECONDITION_FAILED",
-        message: "AI features are disabled",
+        message: "AI features are disabled and no food composition table has been imported",
       });
     }
 
@@ -614,7 +637,29 @@ const estimateNutrition = authedProcedure
     return { success: true };
   });
 
-const triggerAutoTag = authedProcedure
+/**
+ * Per-ingredient nutrition of a recipe from the food composition table, null when no table
+ * has been imported. Defaults to the recipe's own servings.
+ */
+const nutritionBreakdown = authedProcedure
+  .input(z.object({ recipeId: z.uuid(), servings: z.number().int().positive().optional() }))
+  .query(async ({ ctx, input }) => {
+    await assertRecipeAccess(ctx, input.recipeId, "view");
+
+    const recipe = await getRecipeFull(input.recipeId);
+
+    if (!recipe) {
+      throw new TRPCError({ code: "NOT_FOUND", message: "Recipe not found" });
+    }
+
+    return calculateRecipeNutrition(input.recipeId, input.servings ?? recipe.servings ?? 1, {
+      userId: ctx.user.id,
+      householdUserIds: ctx.householdUserIds,
+      isServerAdmin: ctx.isServerAdmin,
+    });
+  });
+
+const triggerAutoTag = rateLimitedProcedure("autoTagging")
   .input(z.object({ recipeId: z.uuid() }))
   .mutation(async ({ ctx, input }) => {
     const { recipeId } = input;
@@ -681,7 +726,7 @@ const triggerAutoTag = authedProcedure
     return { success: true };
   });
 
-const triggerAllergyDetection = authedProcedure
+const triggerAllergyDetection = rateLimitedProcedure("allergyDetection")
   .input(z.object({ recipeId: z.uuid() }))
   .mutation(async ({ ctx, input }) => {
     const { recipeId } = input;
@@ -756,6 +801,7 @@ const triggerAllergyDetection = authedProcedure
 export const recipesProcedures = router({
   list,
   get,
+  groceryIngredients,
   create,
   update,
   delete: deleteProcedure,
@@ -764,6 +810,7 @@ export const recipesProcedures = router({
   importFromPaste: importFromPasteProcedure,
   convertMeasurements,
   estimateNutrition,
+  nutritionBreakdown,
   triggerAutoTag,
   triggerAllergyDetection,
   reserveId,
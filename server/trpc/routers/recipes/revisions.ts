@@ -0,0 +1,140 @@
+import { TRPCError } from "@trpc/server";
+
+import { router } from "../../trpc";
+import { authedProcedure } from "../../middleware";
+import { emitByPolicy } from "../../helpers";
+
+import { recipeEmitter } from "./emitter";
+
+import { trpcLogger as log } from "@/server/logger";
+import {
+  getRecipeOwnerId,
+  getRecipeFull,
+  updateRecipeWithRefs,
+  listRecipeRevisions,
+  getRecipeRevision,
+  getPreviousRecipeRevision,
+  RecipeHistoryInputSchema,
+  RecipeDiffInputSchema,
+  RecipeRestoreRevisionInputSchema,
+} from "@/server/db";
+import { canAccessResource, type PermissionAction } from "@/server/auth/permissions";
+import { getRecipePermissionPolicy } from "@/config/server-config-loader";
+import { diffRecipeSnapshots, snapshotToUpdate } from "@/lib/recipe-revisions";
+
+type RevisionContext = {
+  user: { id: string };
+  householdUserIds: string[] | null;
+  householdKey: string;
+  isServerAdmin: boolean;
+};
+
+/**
+ * Check whether the user may perform an action on a recipe. Orphaned recipes allow any action.
+ */
+async function canAccessRecipe(
+  ctx: RevisionContext,
+  recipeId: string,
+  action: PermissionAction
+): Promise<boolean> {
+  const ownerId = await getRecipeOwnerId(recipeId);
+
+  if (ownerId === null) return true;
+
+  return canAccessResource(action, ctx.user.id, ownerId, ctx.householdUserIds, ctx.isServerAdmin);
+}
+
+/**
+ * Revisions of a recipe, newest first. Anyone who can view the recipe may see its history.
+ */
+const history = authedProcedure.input(RecipeHistoryInputSchema).query(async ({ ctx, input }) => {
+  if (!(await canAccessRecipe(ctx, input.recipeId, "view"))) {
+    return [];
+  }
+
+  return listRecipeRevisions(input.recipeId);
+});
+
+/**
+ * Changes made by a revision, compared to the one before it or to `compareToId`
+ */
+const diff = authedProcedure.input(RecipeDiffInputSchema).query(async ({ ctx, input }) => {
+  const { recipeId, revisionId, compareToId } = input;
+
+  if (!(await canAccessRecipe(ctx, recipeId, "view"))) {
+    throw new TRPCError({
+      code: "FORBIDDEN",
+      message: "You do not have permission to view this recipe",
+    });
+  }
+
+  const revision = await getRecipeRevision(recipeId, revisionId);
+
+  if (!revision) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Revision not found" });
+  }
+
+  const base = compareToId
+    ? await getRecipeRevision(recipeId, compareToId)
+    : await getPreviousRecipeRevision(revision);
+
+  if (compareToId && !base) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Revision not found" });
+  }
+
+  return diffRecipeSnapshots(base?.snapshot ?? null, revision.snapshot);
+});
+
+/**
+ * Put a recipe back to an earlier revision. The restore is recorded as a new revision,
+ * so it can be undone like any other change.
+ */
+const restoreRevision = authedProcedure
+  .input(RecipeRestoreRevisionInputSchema)
+  .mutation(async ({ ctx, input }) => {
+    const { recipeId, revisionId } = input;
+
+    if (!(await canAccessRecipe(ctx, recipeId, "edit"))) {
+      throw new TRPCError({
+        code: "FORBIDDEN",
+        message: "You do not have permission to edit this recipe",
+      });
+    }
+
+    const revision = await getRecipeRevision(recipeId, revisionId);
+
+    if (!revision) {
+      throw new TRPCError({ code: "NOT_FOUND", message: "Revision not found" });
+    }
+
+    await updateRecipeWithRefs(
+      recipeId,
+      ctx.user.id,
+      snapshotToUpdate(revision.snapshot),
+      "restore"
+    );
+
+    log.info({ userId: ctx.user.id, recipeId, revisionId }, "Recipe revision restored");
+
+    const updatedRecipe = await getRecipeFull(recipeId);
+
+    if (updatedRecipe) {
+      const policy = await getRecipePermissionPolicy();
+
+      emitByPolicy(
+        recipeEmitter,
+        policy.view,
+        { userId: ctx.user.id, householdKey: ctx.householdKey },
+        "updated",
+        { recipe: updatedRecipe }
+      );
+    }
+
+    return { success: true };
+  });
+
+export const revisionsProcedures = router({
+  history,
+  diff,
+  restoreRevision,
+});
@@ -0,0 +1,116 @@
+import { TRPCError } from "@trpc/server";
+
+import { router } from "../../trpc";
+import { authedProcedure } from "../../middleware";
+
+import { trpcLogger as log } from "@/server/logger";
+import {
+  getRecipeOwnerId,
+  recipeExists,
+  createRecipeShare,
+  listActiveRecipeShares,
+  getRecipeShareById,
+  revokeRecipeShare,
+  RecipeShareCreateInputSchema,
+  RecipeShareListInputSchema,
+  RecipeShareRevokeInputSchema,
+} from "@/server/db";
+import { canAccessResource, type PermissionAction } from "@/server/auth/permissions";
+
+type ShareContext = {
+  user: { id: string };
+  householdUserIds: string[] | null;
+  isServerAdmin: boolean;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Check whether the user may perform an action on a recipe. Orphaned recipes allow any action.
+ */
+async function canAccessRecipe(
+  ctx: ShareContext,
+  recipeId: string,
+  action: PermissionAction
+): Promise<boolean> {
+  const ownerId = await getRecipeOwnerId(recipeId);
+
+  if (ownerId === null) return true;
+
+  return canAccessResource(action, ctx.user.id, ownerId, ctx.householdUserIds, ctx.isServerAdmin);
+}
+
+/**
+ * Create a public, read-only share link for a recipe.
+ * Anyone who can view the recipe may share it.
+ */
+const share = authedProcedure
+  .input(RecipeShareCreateInputSchema)
+  .mutation(async ({ ctx, input }) => {
+    const { recipeId, expiresInDays } = input;
+
+    if (!(await recipeExists(recipeId))) {
+      throw new TRPCError({ code: "NOT_FOUND", message: "Recipe not found" });
+    }
+
+    if (!(await canAccessRecipe(ctx, recipeId, "view"))) {
+      throw new TRPCError({
+        code: "FORBIDDEN",
+        message: "You do not have permission to share this recipe",
+      });
+    }
+
+    const expiresAt = expiresInDays ? new Date(Date.now() + expiresInDays * DAY_MS) : null;
+    const created = await createRecipeShare(recipeId, ctx.user.id, expiresAt);
+
+    log.info({ userId: ctx.user.id, recipeId, shareId: created.id, expiresAt }, "Recipe shared");
+
+    return created;
+  });
+
+/**
+ * List active share links for a recipe
+ */
+const listShares = authedProcedure
+  .input(RecipeShareListInputSchema)
+  .query(async ({ ctx, input }) => {
+    if (!(await canAccessRecipe(ctx, input.recipeId, "view"))) {
+      return [];
+    }
+
+    return listActiveRecipeShares(input.recipeId);
+  });
+
+/**
+ * Revoke a share link. Allowed for the user who created it and anyone who can edit the recipe.
+ */
+const revokeShare = authedProcedure
+  .input(RecipeShareRevokeInputSchema)
+  .mutation(async ({ ctx, input }) => {
+    const existing = await getRecipeShareById(input.id);
+
+    if (!existing) {
+      throw new TRPCError({ code: "NOT_FOUND", message: "Share link not found" });
+    }
+
+    const isCreator = existing.userId === ctx.user.id;
+
+    if (!isCreator && !(await canAccessRecipe(ctx, existing.recipeId, "edit"))) {
+      throw new TRPCError({
+        code: "FORBIDDEN",
+        message: "You do not have permission to revoke this share link",
+      });
+    }
+
+    await revokeRecipeShare(input.id);
+
+    log.info({ userId: ctx.user.id, shareId: input.id }, "Recipe share revoked");
+
+    return { success: true };
+  });
+
+export const sharesProcedures = router({
+  share,
+  listShares,
+  revokeShare,
+});
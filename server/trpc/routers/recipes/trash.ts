@@ -0,0 +1,123 @@
+import { TRPCError } from "@trpc/server";
+
+import { router } from "../../trpc";
+import { authedProcedure } from "../../middleware";
+import { emitByPolicy } from "../../helpers";
+
+import { recipeEmitter } from "./emitter";
+
+import { trpcLogger as log } from "@/server/logger";
+import {
+  getRecipeOwnerId,
+  listTrashedRecipes,
+  isRecipeTrashed,
+  restoreRecipeById,
+  deleteRecipeById,
+  dashboardRecipe,
+  RecipeDeleteInputSchema,
+} from "@/server/db";
+import { canAccessResource } from "@/server/auth/permissions";
+import { getRecipePermissionPolicy, getTrashRetentionDays } from "@/config/server-config-loader";
+
+type TrashContext = {
+  user: { id: string };
+  householdUserIds: string[] | null;
+  householdKey: string;
+  isServerAdmin: boolean;
+};
+
+/**
+ * Restoring and purging count as deleting, so both need the delete permission.
+ * Orphaned recipes allow any action.
+ */
+function canDelete(ctx: TrashContext, ownerId: string | null): Promise<boolean> {
+  if (ownerId === null) return Promise.resolve(true);
+
+  return canAccessResource("delete", ctx.user.id, ownerId, ctx.householdUserIds, ctx.isServerAdmin);
+}
+
+async function assertTrashedRecipeAccess(ctx: TrashContext, recipeId: string): Promise<void> {
+  if (!(await isRecipeTrashed(recipeId))) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Recipe is not in the trash" });
+  }
+
+  if (!(await canDelete(ctx, await getRecipeOwnerId(recipeId)))) {
+    throw new TRPCError({
+      code: "FORBIDDEN",
+      message: "You do not have permission to delete this recipe",
+    });
+  }
+}
+
+/**
+ * Recently deleted recipes the user could restore, with the days they are kept for
+ */
+const listTrash = authedProcedure.query(async ({ ctx }) => {
+  log.debug({ userId: ctx.user.id }, "Listing trashed recipes");
+
+  const [trashed, retentionDays] = await Promise.all([
+    listTrashedRecipes({
+      userId: ctx.user.id,
+      householdUserIds: ctx.householdUserIds,
+      isServerAdmin: ctx.isServerAdmin,
+    }),
+    getTrashRetentionDays(),
+  ]);
+
+  const allowed = await Promise.all(trashed.map((recipe) => canDelete(ctx, recipe.userId)));
+
+  return {
+    recipes: trashed.filter((_, index) => allowed[index]),
+    retentionDays,
+  };
+});
+
+/**
+ * Take a recipe out of the trash. It shows up again as if it was just created.
+ */
+const restore = authedProcedure.input(RecipeDeleteInputSchema).mutation(async ({ ctx, input }) => {
+  const { id } = input;
+
+  await assertTrashedRecipeAccess(ctx, id);
+  await restoreRecipeById(id);
+
+  log.info({ userId: ctx.user.id, recipeId: id }, "Recipe restored from trash");
+
+  const dashboardDto = await dashboardRecipe(id);
+
+  if (dashboardDto) {
+    const policy = await getRecipePermissionPolicy();
+
+    emitByPolicy(
+      recipeEmitter,
+      policy.view,
+      { userId: ctx.user.id, householdKey: ctx.householdKey },
+      "created",
+      { recipe: dashboardDto }
+    );
+  }
+
+  return { success: true };
+});
+
+/**
+ * Delete a trashed recipe and its media right away instead of waiting for the scheduler
+ */
+const permanentDelete = authedProcedure
+  .input(RecipeDeleteInputSchema)
+  .mutation(async ({ ctx, input }) => {
+    const { id } = input;
+
+    await assertTrashedRecipeAccess(ctx, id);
+    await deleteRecipeById(id);
+
+    log.info({ userId: ctx.user.id, recipeId: id }, "Recipe permanently deleted");
+
+    return { success: true };
+  });
+
+export const trashProcedures = router({
+  listTrash,
+  restore,
+  permanentDelete,
+});
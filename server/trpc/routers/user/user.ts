@@ -23,6 +23,9 @@ import {
   getAllergiesForUsers,
   getUserLocale,
   updateUserLocale,
+  getUserNutritionTargets,
+  updateUserNutritionTargets,
+  UpdateUserNutritionTargetsSchema,
 } from "@/server/db";
 import { householdEmitter } from "@/server/trpc/routers/households/emitter";
 import { SERVER_CONFIG } from "@/config/env-config-server";
@@ -295,6 +298,32 @@ const setLocale = authedProcedure
     return { success: true, locale: input.locale };
   });
 
+/**
+ * Get current user's daily nutrition targets
+ */
+const getNutritionTargets = authedProcedure.query(async ({ ctx }) => {
+  log.debug({ userId: ctx.user.id }, "Getting user nutrition targets");
+
+  const targets = await getUserNutritionTargets(ctx.user.id);
+
+  return { targets };
+});
+
+/**
+ * Update current user's daily nutrition targets
+ */
+const setNutritionTargets = authedProcedure
+  .input(UpdateUserNutritionTargetsSchema)
+  .mutation(async ({ ctx, input }) => {
+    log.debug({ userId: ctx.user.id }, "Updating user nutrition targets");
+
+    await updateUserNutritionTargets(ctx.user.id, input.targets);
+
+    log.info({ userId: ctx.user.id, targets: input.targets }, "User nutrition targets updated");
+
+    return { success: true, targets: input.targets };
+  });
+
 export const userProcedures = router({
   get,
   updateName,
@@ -305,4 +334,6 @@ export const userProcedures = router({
   setAllergies,
   getLocale,
   setLocale,
+  getNutritionTargets,
+  setNutritionTargets,
 });
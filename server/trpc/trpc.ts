@@ -5,13 +5,17 @@ import superjson from "superjson";
 
 import { trpcLogger } from "./logger";
 
+import { RateLimitExceededError } from "@/server/rate-limit";
+
 const t = initTRPC.context<Context>().create({
   transformer: superjson,
-  errorFormatter({ shape, error: _error }) {
+  errorFormatter({ shape, error }) {
     return {
       ...shape,
       data: {
         ...shape.data,
+        retryAfterSeconds:
+          error.cause instanceof RateLimitExceededError ? error.cause.retryAfterSeconds : undefined,
       },
     };
   },
@@ -0,0 +1,60 @@
+import type { FullRecipeDTO, MeasurementSystem } from "@/types";
+
+import { normalizeIngredient, normalizeStep } from "@/server/ai/helpers";
+import { convertRecipeDataWithAI, type ConversionResult } from "@/server/ai/unit-converter";
+import { getIngredientDensities, getUnits, isAIEnabled } from "@/config/server-config-loader";
+import { serverLogger as log } from "@/server/logger";
+import { convertRecipeMeasurements } from "@/lib/unit-conversion";
+
+/**
+ * Convert a recipe's active measurement system with the rule-based engine. Ingredient lines
+ * in units the engine does not know are handed to the AI when it is enabled, and kept as
+ * they are otherwise.
+ */
+export async function convertRecipeData(
+  recipe: FullRecipeDTO,
+  targetSystem: MeasurementSystem,
+  userId?: string
+): Promise<ConversionResult> {
+  const [units, densities] = await Promise.all([getUnits(), getIngredientDensities()]);
+  const { ingredients, steps, unconverted } = convertRecipeMeasurements(recipe, targetSystem, {
+    units,
+    densities,
+  });
+
+  if (unconverted.length > 0 && (await isAIEnabled())) {
+    log.debug(
+      { recipeId: recipe.id, count: unconverted.length },
+      "Converting remaining ingredient lines with AI"
+    );
+
+    const result = await convertRecipeDataWithAI(
+      { ...recipe, recipeIngredients: unconverted, steps: [] },
+      targetSystem,
+      userId
+    );
+
+    if (result.success) {
+      const byOrder = new Map(result.data.ingredients.map((i) => [i.order, i]));
+
+      for (const ingredient of ingredients) {
+        const converted = byOrder.get(ingredient.order);
+
+        if (!converted) continue;
+
+        ingredient.amount = converted.amount;
+        ingredient.unit = converted.unit;
+      }
+    } else {
+      log.warn(
+        { recipeId: recipe.id, error: result.error },
+        "AI fallback for unit conversion failed, keeping original lines"
+      );
+    }
+  }
+
+  return {
+    ingredients: ingredients.map((i) => normalizeIngredient(i, targetSystem)),
+    steps: steps.map((s) => normalizeStep(s, targetSystem)),
+  };
+}
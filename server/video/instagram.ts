@@ -99,7 +99,8 @@ export async function processInstagramImagePost(
   url: string,
   recipeId: string,
   metadata: VideoMetadata,
-  allergies?: string[]
+  allergies?: string[],
+  userId?: string
 ): Promise<FullRecipeInsertDTO> {
   let description = metadata.description?.trim() || "";
 
@@ -131,7 +132,7 @@ export async function processInstagramImagePost(
   }
 
   // Use existing AI parser - it handles plain text fine
-  const result = await extractRecipeWithAI(description, recipeId, url, allergies);
+  const result = await extractRecipeWithAI(description, recipeId, url, allergies, userId);
 
   if (!result.success) {
     log.warn({ url, error: result.error }, "AI extraction failed for Instagram image post");
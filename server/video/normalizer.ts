@@ -1,10 +1,8 @@
 import type { VideoMetadata } from "./types";
 import type { FullRecipeInsertDTO } from "@/types/dto/recipe";
 
-import { generateText, Output } from "ai";
-
 import { videoLogger } from "@/server/logger";
-import { getModels, getGenerationSettings } from "@/server/ai/providers";
+import { execute } from "@/server/ai/core/executor";
 import { recipeExtractionSchema } from "@/server/ai/schemas/recipe.schema";
 import { buildVideoExtractionPrompt } from "@/server/ai/prompts/builder";
 import {
@@ -29,6 +27,7 @@ import { isAIEnabled } from "@/config/server-config-loader";
  * @param metadata - Video metadata (title, description, duration, etc.).
  * @param url - Source URL of the video.
  * @param allergies - Optional list of allergens to detect.
+ * @param userId - User the import runs for, for usage tracking and quotas.
  * @returns AIResult with extracted recipe or error.
  */
 export async function extractRecipeFromVideo(
@@ -36,7 +35,8 @@ export async function extractRecipeFromVideo(
   metadata: VideoMetadata,
   recipeId: string,
   url: string,
-  allergies?: string[]
+  allergies?: string[],
+  userId?: string
 ): Promise<AIResult<FullRecipeInsertDTO>> {
   // Guard: AI must be enabled
   const aiEnabled = await isAIEnabled();
@@ -50,9 +50,6 @@ export async function extractRecipeFromVideo(
   videoLogger.info({ url, title: metadata.title }, "Starting AI video recipe extraction");
 
   try {
-    const { model, providerName } = await getModels();
-    const settings = await getGenerationSettings();
-
     // Build prompt using shared builder
     const prompt = await buildVideoExtractionPrompt(transcript, {
       url,
@@ -68,21 +65,22 @@ export async function extractRecipeFromVideo(
         url,
         promptLength: prompt.length,
         transcriptLength: transcript.length,
-        provider: providerName,
       },
       "Sending video transcript to AI"
     );
 
-    const result = await generateText({
-      model,
-      output: Output.object({ schema: recipeExtractionSchema }),
+    const result = await execute({
+      schema: recipeExtractionSchema,
       prompt,
-      system:
+      systemMessage:
         "You extract recipe data from video transcripts as JSON-LD with both metric and US measurements. Return valid JSON only.",
-      ...settings,
+      feature: "video_extraction",
+      userId,
     });
 
-    const jsonLd = result.output;
+    if (!result.success) return result;
+
+    const jsonLd = result.data;
 
     // Validate extraction output
     const validation = validateExtractionOutput(jsonLd);
@@ -128,11 +126,7 @@ export async function extractRecipeFromVideo(
       "Video recipe extraction completed"
     );
 
-    return aiSuccess(normalized, {
-      inputTokens: result.usage?.inputTokens ?? 0,
-      outputTokens: result.usage?.outputTokens ?? 0,
-      totalTokens: result.usage?.totalTokens ?? 0,
-    });
+    return aiSuccess(normalized, result.usage);
   } catch (error) {
     const code = mapErrorToCode(error);
     const message = getErrorMessage(code, error instanceof Error ? error.message : undefined);
@@ -19,7 +19,8 @@ import { convertToMp4, saveVideoFile } from "@/server/downloader";
 export async function processVideoRecipe(
   url: string,
   recipeId: string,
-  allergies?: string[]
+  allergies?: string[],
+  userId?: string
 ): Promise<FullRecipeInsertDTO> {
   const videoEnabled = await isVideoParsingEnabled();
 
@@ -46,7 +47,7 @@ export async function processVideoRecipe(
     if (isInstagram && isInstagramImagePost(metadata)) {
       log.info({ url }, "Detected Instagram image post, extracting from description");
 
-      return await processInstagramImagePost(url, recipeId, metadata, allergies);
+      return await processInstagramImagePost(url, recipeId, metadata, allergies, userId);
     }
 
     // Validate video length before downloading (only for actual videos)
@@ -93,7 +94,7 @@ export async function processVideoRecipe(
           "Audio download failed for Instagram, attempting description-based extraction"
         );
 
-        const result = await processInstagramImagePost(url, recipeId, metadata, allergies);
+        const result = await processInstagramImagePost(url, recipeId, metadata, allergies, userId);
 
         // Add video if we managed to save it
         const savedVideo = canSaveVideo
@@ -111,7 +112,7 @@ export async function processVideoRecipe(
 
     // Transcribe audio
     log.info({ url }, "Starting audio transcription");
-    const transcriptionResult = await transcribeAudio(audioPath);
+    const transcriptionResult = await transcribeAudio(audioPath, userId);
 
     if (!transcriptionResult.success) {
       throw new Error(transcriptionResult.error);
@@ -122,7 +123,14 @@ export async function processVideoRecipe(
     log.info({ url, transcriptLength: transcript.length }, "Audio transcribed");
 
     // Extract recipe from transcript + metadata
-    const result = await extractRecipeFromVideo(transcript, metadata, recipeId, url, allergies);
+    const result = await extractRecipeFromVideo(
+      transcript,
+      metadata,
+      recipeId,
+      url,
+      allergies,
+      userId
+    );
 
     if (!result.success) {
       throw new Error(
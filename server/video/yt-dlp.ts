@@ -14,6 +14,7 @@ const YTDlpWrap =
 import { SERVER_CONFIG } from "@/config/env-config-server";
 import { getVideoConfig } from "@/config/server-config-loader";
 import { videoLogger as log } from "@/server/logger";
+import { assertPublicUrl, startGuardedProxy } from "@/server/outbound-guard";
 
 // Resolve ffmpeg path at runtime
 // In production (Docker), uses system ffmpeg from Alpine packages
@@ -137,11 +138,14 @@ export async function ensureYtDlpBinary(): Promise<void> {
 }
 
 export async function getVideoMetadata(url: string): Promise<VideoMetadata> {
+  await assertPublicUrl(url);
   await ensureYtDlpBinary();
   const ytDlpWrap = new YTDlpWrap(ytDlpPath);
+  // yt-dlp follows redirects and picks media hosts itself, so all of its requests are guarded
+  const proxy = await startGuardedProxy();
 
   try {
-    const rawInfo = await ytDlpWrap.getVideoInfo(url);
+    const rawInfo = await ytDlpWrap.getVideoInfo([url, "--proxy", proxy.url]);
 
     // yt-dlp returns an array for Instagram carousel/image posts (one entry per image)
     // For single videos, it returns an object directly
@@ -173,10 +177,13 @@ export async function getVideoMetadata(url: string): Promise<VideoMetadata> {
     }
 
     throw new Error(`Failed to fetch video information: ${errorMessage}`);
+  } finally {
+    await proxy.close();
   }
 }
 
 export async function downloadVideoAudio(url: string): Promise<string> {
+  await assertPublicUrl(url);
   await ensureYtDlpBinary();
   await fs.mkdir(outputDir, { recursive: true });
 
@@ -184,6 +191,7 @@ export async function downloadVideoAudio(url: string): Promise<string> {
   const timestamp = Date.now();
   const randomId = Math.random().toString(36).substring(7);
   const outputFile = path.join(outputDir, `audio-${timestamp}-${randomId}.wav`);
+  const proxy = await startGuardedProxy();
 
   try {
     // Download video and extract audio as WAV format
@@ -203,6 +211,8 @@ export async function downloadVideoAudio(url: string): Promise<string> {
       outputFile, // Output file
       "--extractor-args",
       "youtube:player_client=default", // Suppress JS runtime warning
+      "--proxy",
+      proxy.url,
     ];
 
     // Add ffmpeg location if available
@@ -241,6 +251,8 @@ export async function downloadVideoAudio(url: string): Promise<string> {
     const errorMessage = error.message || "Unknown error";
 
     throw new Error(`Failed to download video: ${errorMessage}`);
+  } finally {
+    await proxy.close();
   }
 }
 
@@ -275,6 +287,7 @@ export interface DownloadedVideo {
  * The caller is responsible for cleanup.
  */
 export async function downloadVideo(url: string): Promise<DownloadedVideo> {
+  await assertPublicUrl(url);
   await ensureYtDlpBinary();
   await fs.mkdir(outputDir, { recursive: true });
 
@@ -283,6 +296,7 @@ export async function downloadVideo(url: string): Promise<DownloadedVideo> {
   const randomId = Math.random().toString(36).substring(7);
   // Use a template that yt-dlp will fill in with the actual extension
   const outputTemplate = path.join(outputDir, `video-${timestamp}-${randomId}.%(ext)s`);
+  const proxy = await startGuardedProxy();
 
   try {
     const ffmpegBinary = getFfmpegPath();
@@ -299,6 +313,8 @@ export async function downloadVideo(url: string): Promise<DownloadedVideo> {
       "bestvideo[ext=mp4]+bestaudio[ext=m4a]/best[ext=mp4]/best",
       "--extractor-args",
       "youtube:player_client=default",
+      "--proxy",
+      proxy.url,
     ];
 
     // Add ffmpeg location if available
@@ -347,6 +363,8 @@ export async function downloadVideo(url: string): Promise<DownloadedVideo> {
     const errorMessage = error.message || "Unknown error";
 
     throw new Error(`Failed to download video: ${errorMessage}`);
+  } finally {
+    await proxy.close();
   }
 }
 
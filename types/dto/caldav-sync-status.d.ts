@@ -6,6 +6,7 @@ import type {
   CaldavSyncStatusViewSchema,
 } from "@/server/db/zodSchemas/caldav-sync-status";
 import type { caldavItemTypes, caldavSyncStatuses } from "@/server/db/schema/caldav-sync-status";
+import type { Slot } from "@/types";
 
 export type CaldavSyncStatusDto = z.output<typeof CaldavSyncStatusSelectSchema>;
 export type CaldavSyncStatusInsertDto = z.input<typeof CaldavSyncStatusInsertSchema>;
@@ -15,6 +16,20 @@ export type CaldavSyncStatusViewDto = z.output<typeof CaldavSyncStatusViewSchema
 export type CaldavItemType = (typeof caldavItemTypes)[number];
 export type CaldavSyncStatus = (typeof caldavSyncStatuses)[number];
 
+/** A synced calendar item with its current local schedule, used when pulling remote changes */
+export interface CaldavPullItemDto {
+  id: string;
+  itemId: string;
+  itemType: CaldavItemType;
+  syncStatus: CaldavSyncStatus;
+  caldavEventUid: string;
+  caldavEtag: string | null;
+  lastSyncAt: Date | null;
+  date: string;
+  slot: Slot;
+  itemUpdatedAt: Date;
+}
+
 export interface CaldavSyncStatusSummaryDto {
   pending: number;
   synced: number;
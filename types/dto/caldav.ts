@@ -3,6 +3,8 @@ export interface CreateEventInput {
   description?: string;
   start: Date;
   end: Date;
+  /** IANA timezone to write start/end in (TZID + VTIMEZONE); UTC when omitted */
+  timeZone?: string;
   uid?: string;
   url?: string;
   location?: string;
@@ -15,6 +17,19 @@ export interface CreatedEvent {
   rawIcs: string;
 }
 
+export interface CalDavRemoteEvent {
+  uid: string;
+  href: string;
+  etag?: string;
+  summary?: string;
+  start: Date;
+  end?: Date;
+  /** True for VALUE=DATE events without a time of day */
+  allDay: boolean;
+  /** LAST-MODIFIED (or DTSTAMP) of the event, used to resolve conflicts */
+  lastModified?: Date;
+}
+
 export interface CalDavClientOptions {
   /** Base CalDAV server URL for discovery (e.g., https://dav.example.com/) */
   serverUrl: string;
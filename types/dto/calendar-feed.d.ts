@@ -0,0 +1,13 @@
+import type { z } from "zod";
+import type {
+  CalendarFeedSelectBaseSchema,
+  CalendarFeedViewSchema,
+  CalendarFeedScopeInputSchema,
+} from "@/server/db/zodSchemas";
+
+export type CalendarFeedDto = z.output<typeof CalendarFeedSelectBaseSchema>;
+export type CalendarFeedViewDto = z.output<typeof CalendarFeedViewSchema>;
+export type CalendarFeedScope = CalendarFeedDto["scope"];
+
+// tRPC input types
+export type CalendarFeedScopeInput = z.input<typeof CalendarFeedScopeInputSchema>;
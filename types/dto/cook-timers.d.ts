@@ -0,0 +1,14 @@
+import type { z } from "zod";
+import type {
+  CookTimerSelectBaseSchema,
+  CookTimerInsertBaseSchema,
+  CookTimerStartSchema,
+  CookTimerIdSchema,
+} from "@/server/db/zodSchemas";
+
+export type CookTimerDto = z.output<typeof CookTimerSelectBaseSchema>;
+export type CookTimerInsertDto = z.input<typeof CookTimerInsertBaseSchema>;
+
+// tRPC input types
+export type CookTimerStartInput = z.infer<typeof CookTimerStartSchema>;
+export type CookTimerIdInput = z.infer<typeof CookTimerIdSchema>;
@@ -7,6 +7,8 @@ import type {
   GroceryUpdateInputSchema,
   GroceryToggleSchema,
   GroceryDeleteSchema,
+  GroceryPlanRangeSchema,
+  GroceryAddFromPlanSchema,
 } from "@/server/db/zodSchemas";
 
 export type GroceryDto = z.output<typeof GrocerySelectBaseSchema>;
@@ -19,3 +21,5 @@ export type GroceryCreateDto = z.input<typeof GroceryCreateSchema>;
 export type GroceryUpdateInput = z.infer<typeof GroceryUpdateInputSchema>;
 export type GroceryToggleInput = z.infer<typeof GroceryToggleSchema>;
 export type GroceryDeleteInput = z.infer<typeof GroceryDeleteSchema>;
+export type GroceryPlanRangeInput = z.infer<typeof GroceryPlanRangeSchema>;
+export type GroceryAddFromPlanInput = z.input<typeof GroceryAddFromPlanSchema>;
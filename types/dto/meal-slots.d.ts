@@ -0,0 +1,16 @@
+import type { z } from "zod";
+import type {
+  MealSlotSelectBaseSchema,
+  MealSlotCreateSchema,
+  MealSlotUpdateSchema,
+  MealSlotDeleteSchema,
+  MealSlotReorderSchema,
+} from "@/server/db/zodSchemas";
+
+export type MealSlotDto = z.output<typeof MealSlotSelectBaseSchema>;
+
+// tRPC input types
+export type MealSlotCreateInput = z.infer<typeof MealSlotCreateSchema>;
+export type MealSlotUpdateInput = z.infer<typeof MealSlotUpdateSchema>;
+export type MealSlotDeleteInput = z.infer<typeof MealSlotDeleteSchema>;
+export type MealSlotReorderInput = z.infer<typeof MealSlotReorderSchema>;
@@ -0,0 +1,19 @@
+import type { z } from "zod";
+import type {
+  PantryItemSelectBaseSchema,
+  PantryItemInsertBaseSchema,
+  PantryItemUpdateBaseSchema,
+  PantryItemCreateSchema,
+  PantryItemUpdateInputSchema,
+  PantryItemDeleteSchema,
+} from "@/server/db/zodSchemas";
+
+export type PantryItemDto = z.output<typeof PantryItemSelectBaseSchema>;
+export type PantryItemInsertDto = z.input<typeof PantryItemInsertBaseSchema>;
+export type PantryItemUpdateDto = z.input<typeof PantryItemUpdateBaseSchema>;
+
+export type PantryItemCreateDto = z.input<typeof PantryItemCreateSchema>;
+
+// tRPC input types
+export type PantryItemUpdateInput = z.infer<typeof PantryItemUpdateInputSchema>;
+export type PantryItemDeleteInput = z.infer<typeof PantryItemDeleteSchema>;
@@ -7,12 +7,13 @@ import type {
   PlannedRecipeCreateSchema,
   PlannedRecipeDeleteSchema,
   PlannedRecipeUpdateDateSchema,
-  slots,
+  PlannedRecipeUpdateServingsSchema,
 } from "@/server/db/zodSchemas";
 import type z from "zod";
 import type { NoteViewDto } from "./notes";
 
-export type Slot = (typeof slots)[number];
+/** Key of a meal slot (see MealSlotDto); the built-in slots are Breakfast, Lunch, Dinner and Snack */
+export type Slot = string;
 export type PlannedRecipeDto = z.output<typeof PlannedRecipeSelectBaseSchema>;
 export type PlannedRecipeViewDto = z.output<typeof plannedRecipeViewSchema>;
 
@@ -24,6 +25,7 @@ export type PlannedRecipeListInput = z.infer<typeof PlannedRecipeListSchema>;
 export type PlannedRecipeCreateInput = z.infer<typeof PlannedRecipeCreateSchema>;
 export type PlannedRecipeDeleteInput = z.infer<typeof PlannedRecipeDeleteSchema>;
 export type PlannedRecipeUpdateDateInput = z.infer<typeof PlannedRecipeUpdateDateSchema>;
+export type PlannedRecipeUpdateServingsInput = z.infer<typeof PlannedRecipeUpdateServingsSchema>;
 
 export type CalendarItemViewDto =
   | (PlannedRecipeViewDto & { itemType: "recipe" })
@@ -32,6 +32,8 @@ export interface CaldavSyncJobData {
   date: string;
   slot: string;
   recipeId?: string;
+  /** Servings the planned recipe is cooked for, shown in the event description */
+  servings?: number | null;
   /** sync = create or update, delete = remove from CalDAV */
   operation: CaldavSyncOperation;
   /** CalDAV server URL for job deduplication */
@@ -0,0 +1,35 @@
+import type { z } from "zod";
+import type {
+  RecipeSnapshotSchema,
+  RecipeRevisionSelectBaseSchema,
+  RecipeRevisionViewSchema,
+  RecipeDiffInputSchema,
+} from "@/server/db/zodSchemas";
+
+export type RecipeSnapshotDto = z.output<typeof RecipeSnapshotSchema>;
+export type RecipeRevisionDto = z.output<typeof RecipeRevisionSelectBaseSchema>;
+export type RecipeRevisionSource = RecipeRevisionDto["source"];
+export type RecipeRevisionViewDto = z.output<typeof RecipeRevisionViewSchema>;
+
+/** A value that changed between two revisions */
+export type RecipeFieldChange = {
+  field: string;
+  before: string | number | null;
+  after: string | number | null;
+};
+
+/** Lines (ingredients, steps or tags) added and removed between two revisions */
+export type RecipeListChange = {
+  added: string[];
+  removed: string[];
+};
+
+export type RecipeRevisionDiffDto = {
+  fields: RecipeFieldChange[];
+  ingredients: RecipeListChange;
+  steps: RecipeListChange;
+  tags: RecipeListChange;
+};
+
+// tRPC input types
+export type RecipeDiffInput = z.input<typeof RecipeDiffInputSchema>;
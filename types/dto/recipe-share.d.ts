@@ -0,0 +1,14 @@
+import type { z } from "zod";
+import type {
+  RecipeShareSelectBaseSchema,
+  RecipeShareViewSchema,
+  RecipeShareCreateInputSchema,
+  SharedRecipeSchema,
+} from "@/server/db/zodSchemas";
+
+export type RecipeShareDto = z.output<typeof RecipeShareSelectBaseSchema>;
+export type RecipeShareViewDto = z.output<typeof RecipeShareViewSchema>;
+export type SharedRecipeDto = z.output<typeof SharedRecipeSchema>;
+
+// tRPC input types
+export type RecipeShareCreateInput = z.input<typeof RecipeShareCreateInputSchema>;
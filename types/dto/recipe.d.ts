@@ -5,6 +5,7 @@ import type {
   FullRecipeInsertSchema,
   FullRecipeUpdateSchema,
   AuthorSchema,
+  RecipeTrashItemSchema,
   measurementSystems,
 } from "@/server/db/zodSchemas";
 
@@ -14,3 +15,4 @@ export type FullRecipeDTO = z.output<typeof FullRecipeSchema>;
 export type AuthorDTO = z.output<typeof AuthorSchema>;
 export type FullRecipeInsertDTO = z.input<typeof FullRecipeInsertSchema>;
 export type FullRecipeUpdateDTO = z.input<typeof FullRecipeUpdateSchema>;
+export type RecipeTrashItemDTO = z.output<typeof RecipeTrashItemSchema>;
@@ -16,5 +16,11 @@ export type * from "@/types/dto/caldav";
 export type * from "@/types/dto/auth";
 export type * from "@/types/dto/queue";
 export type * from "@/types/dto/favorites";
+export type * from "@/types/dto/recipe-share";
+export type * from "@/types/dto/calendar-feed";
+export type * from "@/types/dto/pantry";
+export type * from "@/types/dto/meal-slots";
+export type * from "@/types/dto/recipe-revision";
+export type * from "@/types/dto/cook-timers";
 export * from "@/types/uploads";
 export * from "@/types/store-types";
@@ -11,3 +11,15 @@ export const SEARCH_FIELDS: readonly SearchField[] = [
 ] as const;
 
 export const DEFAULT_SEARCH_FIELDS: readonly SearchField[] = ["title", "ingredients"] as const;
+
+export type NutritionFilterKey = "calories" | "sugar" | "saturatedFat" | "sodium";
+
+export const NUTRITION_FILTER_KEYS: readonly NutritionFilterKey[] = [
+  "calories",
+  "sugar",
+  "saturatedFat",
+  "sodium",
+] as const;
+
+/** Maximum per serving of each nutrient; recipes without the nutrient are left out */
+export type NutritionLimits = Partial<Record<NutritionFilterKey, number>>;
@@ -64,6 +64,13 @@ export type ArchiveCompletedPayload = {
   errors: ArchiveImportError[];
 };
 
+/**
+ * Formats recipes can be exported to (archive.exportArchive)
+ */
+export const ARCHIVE_EXPORT_FORMATS = ["norish", "mealie", "paprika", "mela"] as const;
+
+export type ArchiveExportFormat = (typeof ARCHIVE_EXPORT_FORMATS)[number];
+
 /**
  * Allowed MIME types for OCR/image recipe import
  */